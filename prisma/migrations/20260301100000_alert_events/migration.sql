@@ -0,0 +1,31 @@
+-- Fired alert log; (alertConfigId, dedup_key) makes every rule fire once per period.
+CREATE TABLE IF NOT EXISTS "alert_events" (
+	"id" TEXT NOT NULL,
+	"userId" TEXT NOT NULL,
+	"alertConfigId" TEXT NOT NULL,
+	"dedup_key" TEXT NOT NULL,
+	"transaction_id" TEXT,
+	"amount" DOUBLE PRECISION NOT NULL,
+	"amount_decimal" NUMERIC(38, 18),
+	"message" TEXT NOT NULL,
+	"createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	CONSTRAINT "alert_events_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "alert_events_alertConfigId_dedup_key_key"
+ON "alert_events"("alertConfigId", "dedup_key");
+
+CREATE INDEX IF NOT EXISTS "alert_events_userId_createdAt_idx"
+ON "alert_events"("userId", "createdAt");
+
+ALTER TABLE "alert_events"
+DROP CONSTRAINT IF EXISTS "alert_events_userId_fkey";
+ALTER TABLE "alert_events"
+ADD CONSTRAINT "alert_events_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "alert_events"
+DROP CONSTRAINT IF EXISTS "alert_events_alertConfigId_fkey";
+ALTER TABLE "alert_events"
+ADD CONSTRAINT "alert_events_alertConfigId_fkey"
+FOREIGN KEY ("alertConfigId") REFERENCES "alert_configs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- Per-rule period, low balance (account asset) and inactivity alert types.
+ALTER TYPE "AlertTypeEnum" ADD VALUE IF NOT EXISTS 'low_balance';
+ALTER TYPE "AlertTypeEnum" ADD VALUE IF NOT EXISTS 'no_transactions';
+
+DO $$
+BEGIN
+	IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'AlertPeriodEnum') THEN
+		CREATE TYPE "AlertPeriodEnum" AS ENUM ('day', 'week', 'month');
+	END IF;
+END $$;
+
+ALTER TABLE "alert_configs"
+ADD COLUMN IF NOT EXISTS "period" "AlertPeriodEnum" NOT NULL DEFAULT 'month',
+ADD COLUMN IF NOT EXISTS "account_id" TEXT,
+ADD COLUMN IF NOT EXISTS "currency" TEXT;
+
+ALTER TABLE "alert_configs"
+DROP CONSTRAINT IF EXISTS "alert_configs_account_id_fkey";
+ALTER TABLE "alert_configs"
+ADD CONSTRAINT "alert_configs_account_id_fkey"
+FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- Monthly budgets: one overall (category_id NULL) or per-category limit in main currency.
+CREATE TABLE IF NOT EXISTS "budgets" (
+	"id" TEXT NOT NULL,
+	"userId" TEXT NOT NULL,
+	"category_id" TEXT,
+	"limit" DOUBLE PRECISION NOT NULL,
+	"limit_decimal" NUMERIC(38, 18),
+	"rollover" BOOLEAN NOT NULL DEFAULT false,
+	"warned_period" TEXT,
+	"warned_level" INTEGER NOT NULL DEFAULT 0,
+	"createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	"updatedAt" TIMESTAMP(3) NOT NULL,
+	CONSTRAINT "budgets_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "budgets_userId_category_id_key"
+ON "budgets"("userId", "category_id");
+
+ALTER TABLE "budgets"
+DROP CONSTRAINT IF EXISTS "budgets_userId_fkey";
+ALTER TABLE "budgets"
+ADD CONSTRAINT "budgets_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "budgets"
+DROP CONSTRAINT IF EXISTS "budgets_category_id_fkey";
+ALTER TABLE "budgets"
+ADD CONSTRAINT "budgets_category_id_fkey"
+FOREIGN KEY ("category_id") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,79 @@
+-- Recurring transaction templates and the per-run confirm/skip log.
+DO $$
+BEGIN
+	IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'RecurringFrequencyEnum') THEN
+		CREATE TYPE "RecurringFrequencyEnum" AS ENUM ('daily', 'weekly', 'monthly', 'yearly', 'cron');
+	END IF;
+	IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'RecurringOccurrenceStatus') THEN
+		CREATE TYPE "RecurringOccurrenceStatus" AS ENUM ('pending', 'confirmed', 'skipped');
+	END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "recurring_transactions" (
+	"id" TEXT NOT NULL,
+	"userId" TEXT NOT NULL,
+	"account_id" TEXT NOT NULL,
+	"direction" "TransactionDirectionsEnum" NOT NULL,
+	"amount" DOUBLE PRECISION NOT NULL,
+	"amount_decimal" NUMERIC(38, 18),
+	"currency" TEXT NOT NULL,
+	"category_id" TEXT,
+	"category" TEXT,
+	"tag_id" TEXT,
+	"description" TEXT NOT NULL,
+	"frequency" "RecurringFrequencyEnum" NOT NULL,
+	"interval" INTEGER NOT NULL DEFAULT 1,
+	"cron" TEXT,
+	"start_date" TIMESTAMP(3) NOT NULL,
+	"next_run_at" TIMESTAMP(3) NOT NULL,
+	"paused" BOOLEAN NOT NULL DEFAULT false,
+	"createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	CONSTRAINT "recurring_transactions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "recurring_transactions_paused_next_run_at_idx"
+ON "recurring_transactions"("paused", "next_run_at");
+
+CREATE TABLE IF NOT EXISTS "recurring_occurrences" (
+	"id" TEXT NOT NULL,
+	"recurring_id" TEXT NOT NULL,
+	"due_at" TIMESTAMP(3) NOT NULL,
+	"status" "RecurringOccurrenceStatus" NOT NULL DEFAULT 'pending',
+	"transaction_id" TEXT,
+	"resolved_at" TIMESTAMP(3),
+	"createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	CONSTRAINT "recurring_occurrences_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "recurring_occurrences_recurring_id_due_at_key"
+ON "recurring_occurrences"("recurring_id", "due_at");
+
+ALTER TABLE "recurring_transactions"
+DROP CONSTRAINT IF EXISTS "recurring_transactions_userId_fkey";
+ALTER TABLE "recurring_transactions"
+ADD CONSTRAINT "recurring_transactions_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "recurring_transactions"
+DROP CONSTRAINT IF EXISTS "recurring_transactions_account_id_fkey";
+ALTER TABLE "recurring_transactions"
+ADD CONSTRAINT "recurring_transactions_account_id_fkey"
+FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "recurring_transactions"
+DROP CONSTRAINT IF EXISTS "recurring_transactions_category_id_fkey";
+ALTER TABLE "recurring_transactions"
+ADD CONSTRAINT "recurring_transactions_category_id_fkey"
+FOREIGN KEY ("category_id") REFERENCES "categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "recurring_transactions"
+DROP CONSTRAINT IF EXISTS "recurring_transactions_tag_id_fkey";
+ALTER TABLE "recurring_transactions"
+ADD CONSTRAINT "recurring_transactions_tag_id_fkey"
+FOREIGN KEY ("tag_id") REFERENCES "tags"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "recurring_occurrences"
+DROP CONSTRAINT IF EXISTS "recurring_occurrences_recurring_id_fkey";
+ALTER TABLE "recurring_occurrences"
+ADD CONSTRAINT "recurring_occurrences_recurring_id_fkey"
+FOREIGN KEY ("recurring_id") REFERENCES "recurring_transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
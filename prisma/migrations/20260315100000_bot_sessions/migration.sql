@@ -0,0 +1,11 @@
+-- Persistent grammY sessions shared by all bot instances.
+CREATE TABLE IF NOT EXISTS "bot_sessions" (
+	"key" TEXT NOT NULL,
+	"data" JSONB NOT NULL,
+	"expires_at" TIMESTAMP(3) NOT NULL,
+	"updated_at" TIMESTAMP(3) NOT NULL,
+	CONSTRAINT "bot_sessions_pkey" PRIMARY KEY ("key")
+);
+
+CREATE INDEX IF NOT EXISTS "bot_sessions_expires_at_idx"
+ON "bot_sessions"("expires_at");
@@ -0,0 +1,2 @@
+-- New users get an IANA zone; stored fixed offsets stay valid.
+ALTER TABLE "users" ALTER COLUMN "timezone" SET DEFAULT 'Europe/Kyiv';
@@ -0,0 +1,3 @@
+-- Monthly PDF statement subscription; the period is `YYYY-MM` of the last sent month.
+ALTER TABLE "users" ADD COLUMN "monthlyStatement" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "lastStatementPeriod" TEXT;
@@ -0,0 +1,28 @@
+-- Receipt photos and documents attached to transactions (Telegram file ids).
+DO $$
+BEGIN
+	IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'TransactionAttachmentKind') THEN
+		CREATE TYPE "TransactionAttachmentKind" AS ENUM ('photo', 'document');
+	END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "transaction_attachments" (
+	"id" TEXT NOT NULL,
+	"transaction_id" TEXT NOT NULL,
+	"kind" "TransactionAttachmentKind" NOT NULL,
+	"file_id" TEXT NOT NULL,
+	"file_unique_id" TEXT NOT NULL,
+	"file_name" TEXT,
+	"mime_type" TEXT,
+	"createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	CONSTRAINT "transaction_attachments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "transaction_attachments_transaction_id_file_unique_id_key"
+ON "transaction_attachments"("transaction_id", "file_unique_id");
+
+ALTER TABLE "transaction_attachments"
+DROP CONSTRAINT IF EXISTS "transaction_attachments_transaction_id_fkey";
+ALTER TABLE "transaction_attachments"
+ADD CONSTRAINT "transaction_attachments_transaction_id_fkey"
+FOREIGN KEY ("transaction_id") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
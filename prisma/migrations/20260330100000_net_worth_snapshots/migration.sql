@@ -0,0 +1,32 @@
+-- Daily net worth per account and currency, valued in USD and the main currency.
+CREATE TABLE IF NOT EXISTS "net_worth_snapshots" (
+	"id" TEXT NOT NULL,
+	"user_id" TEXT NOT NULL,
+	"account_id" TEXT NOT NULL,
+	"date" TIMESTAMP(3) NOT NULL,
+	"currency" TEXT NOT NULL,
+	"amount" DOUBLE PRECISION NOT NULL,
+	"value_usd" DOUBLE PRECISION,
+	"value_main" DOUBLE PRECISION,
+	"main_currency" TEXT NOT NULL,
+	"createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	CONSTRAINT "net_worth_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "net_worth_snapshots_user_id_date_account_id_currency_key"
+ON "net_worth_snapshots"("user_id", "date", "account_id", "currency");
+
+CREATE INDEX IF NOT EXISTS "net_worth_snapshots_user_id_date_idx"
+ON "net_worth_snapshots"("user_id", "date");
+
+ALTER TABLE "net_worth_snapshots"
+DROP CONSTRAINT IF EXISTS "net_worth_snapshots_user_id_fkey";
+ALTER TABLE "net_worth_snapshots"
+ADD CONSTRAINT "net_worth_snapshots_user_id_fkey"
+FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "net_worth_snapshots"
+DROP CONSTRAINT IF EXISTS "net_worth_snapshots_account_id_fkey";
+ALTER TABLE "net_worth_snapshots"
+ADD CONSTRAINT "net_worth_snapshots_account_id_fkey"
+FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
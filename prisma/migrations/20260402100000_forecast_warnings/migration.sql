@@ -0,0 +1,2 @@
+-- `YYYY-MM` of the last month the user was warned about spending past the previous month.
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "forecastWarnedPeriod" TEXT;
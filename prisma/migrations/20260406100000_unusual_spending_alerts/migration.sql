@@ -0,0 +1,2 @@
+-- Alert rule for spending that stands out against the user's own history.
+ALTER TYPE "AlertTypeEnum" ADD VALUE IF NOT EXISTS 'unusual_spending';
@@ -0,0 +1,2 @@
+-- Users still on the old fixed-offset default move to its zone, so DST applies to them too.
+UPDATE "users" SET "timezone" = 'Europe/Kyiv' WHERE "timezone" = 'UTC+02:00';
@@ -0,0 +1,8 @@
+-- Recurring prompts are marked only after delivery, so failed sends are retried.
+ALTER TABLE "recurring_occurrences"
+ADD COLUMN IF NOT EXISTS "prompted_at" TIMESTAMP(3);
+
+-- Occurrences opened before this change were already sent once.
+UPDATE "recurring_occurrences"
+SET "prompted_at" = "createdAt"
+WHERE "prompted_at" IS NULL;
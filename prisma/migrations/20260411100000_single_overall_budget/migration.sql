@@ -0,0 +1,12 @@
+-- NULLs are distinct in "budgets_userId_category_id_key", so it does not stop a second
+-- overall budget. Keep the most recently updated one and index the rest away.
+DELETE FROM "budgets" b
+USING "budgets" newer
+WHERE b."category_id" IS NULL
+	AND newer."category_id" IS NULL
+	AND newer."userId" = b."userId"
+	AND (newer."updatedAt", newer."id") > (b."updatedAt", b."id");
+
+CREATE UNIQUE INDEX IF NOT EXISTS "budgets_userId_overall_key"
+ON "budgets"("userId")
+WHERE "category_id" IS NULL;
@@ -62,6 +62,16 @@ export type AccountAsset = Prisma.AccountAssetModel
  * 
  */
 export type Transaction = Prisma.TransactionModel
+/**
+ * Model TransactionAttachment
+ * Receipt photo or document kept in Telegram; only the file ids are stored.
+ */
+export type TransactionAttachment = Prisma.TransactionAttachmentModel
+/**
+ * Model NetWorthSnapshot
+ * End-of-day balance of one currency on one account; `date` is the user's local day at UTC midnight.
+ */
+export type NetWorthSnapshot = Prisma.NetWorthSnapshotModel
 /**
  * Model ExchangeRateSnapshot
  * 
@@ -102,6 +112,32 @@ export type SavedAnalyticsView = Prisma.SavedAnalyticsViewModel
  * 
  */
 export type AlertConfig = Prisma.AlertConfigModel
+/**
+ * Model AlertEvent
+ * 
+ */
+export type AlertEvent = Prisma.AlertEventModel
+/**
+ * Model Budget
+ * One overall budget per user (categoryId NULL) is enforced by the partial index
+ * "budgets_userId_overall_key", which Prisma cannot express.
+ */
+export type Budget = Prisma.BudgetModel
+/**
+ * Model RecurringTransaction
+ * 
+ */
+export type RecurringTransaction = Prisma.RecurringTransactionModel
+/**
+ * Model RecurringOccurrence
+ * 
+ */
+export type RecurringOccurrence = Prisma.RecurringOccurrenceModel
+/**
+ * Model BotSession
+ * 
+ */
+export type BotSession = Prisma.BotSessionModel
 /**
  * Model Subscription
  * 
@@ -290,6 +290,23 @@ export type FloatNullableWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatNullableFilter<$PrismaModel>
 }
 
+export type EnumTransactionAttachmentKindFilter<$PrismaModel = never> = {
+  equals?: $Enums.TransactionAttachmentKind | Prisma.EnumTransactionAttachmentKindFieldRefInput<$PrismaModel>
+  in?: $Enums.TransactionAttachmentKind[] | Prisma.ListEnumTransactionAttachmentKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TransactionAttachmentKind[] | Prisma.ListEnumTransactionAttachmentKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTransactionAttachmentKindFilter<$PrismaModel> | $Enums.TransactionAttachmentKind
+}
+
+export type EnumTransactionAttachmentKindWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.TransactionAttachmentKind | Prisma.EnumTransactionAttachmentKindFieldRefInput<$PrismaModel>
+  in?: $Enums.TransactionAttachmentKind[] | Prisma.ListEnumTransactionAttachmentKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TransactionAttachmentKind[] | Prisma.ListEnumTransactionAttachmentKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTransactionAttachmentKindWithAggregatesFilter<$PrismaModel> | $Enums.TransactionAttachmentKind
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumTransactionAttachmentKindFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumTransactionAttachmentKindFilter<$PrismaModel>
+}
+
 export type JsonFilter<$PrismaModel = never> =
 | Prisma.PatchUndefined<
     Prisma.Either<Required<JsonFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonFilterBase<$PrismaModel>>, 'path'>>,
@@ -348,6 +365,13 @@ export type EnumAlertTypeEnumFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumAlertTypeEnumFilter<$PrismaModel> | $Enums.AlertTypeEnum
 }
 
+export type EnumAlertPeriodEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.AlertPeriodEnum | Prisma.EnumAlertPeriodEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.AlertPeriodEnum[] | Prisma.ListEnumAlertPeriodEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AlertPeriodEnum[] | Prisma.ListEnumAlertPeriodEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAlertPeriodEnumFilter<$PrismaModel> | $Enums.AlertPeriodEnum
+}
+
 export type EnumAlertTypeEnumWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.AlertTypeEnum | Prisma.EnumAlertTypeEnumFieldRefInput<$PrismaModel>
   in?: $Enums.AlertTypeEnum[] | Prisma.ListEnumAlertTypeEnumFieldRefInput<$PrismaModel>
@@ -358,6 +382,50 @@ export type EnumAlertTypeEnumWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumAlertTypeEnumFilter<$PrismaModel>
 }
 
+export type EnumAlertPeriodEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AlertPeriodEnum | Prisma.EnumAlertPeriodEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.AlertPeriodEnum[] | Prisma.ListEnumAlertPeriodEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AlertPeriodEnum[] | Prisma.ListEnumAlertPeriodEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAlertPeriodEnumWithAggregatesFilter<$PrismaModel> | $Enums.AlertPeriodEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAlertPeriodEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAlertPeriodEnumFilter<$PrismaModel>
+}
+
+export type EnumRecurringFrequencyEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurringFrequencyEnum | Prisma.EnumRecurringFrequencyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.RecurringFrequencyEnum[] | Prisma.ListEnumRecurringFrequencyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RecurringFrequencyEnum[] | Prisma.ListEnumRecurringFrequencyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRecurringFrequencyEnumFilter<$PrismaModel> | $Enums.RecurringFrequencyEnum
+}
+
+export type EnumRecurringFrequencyEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurringFrequencyEnum | Prisma.EnumRecurringFrequencyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.RecurringFrequencyEnum[] | Prisma.ListEnumRecurringFrequencyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RecurringFrequencyEnum[] | Prisma.ListEnumRecurringFrequencyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRecurringFrequencyEnumWithAggregatesFilter<$PrismaModel> | $Enums.RecurringFrequencyEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumRecurringFrequencyEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumRecurringFrequencyEnumFilter<$PrismaModel>
+}
+
+export type EnumRecurringOccurrenceStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurringOccurrenceStatus | Prisma.EnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.RecurringOccurrenceStatus[] | Prisma.ListEnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RecurringOccurrenceStatus[] | Prisma.ListEnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRecurringOccurrenceStatusFilter<$PrismaModel> | $Enums.RecurringOccurrenceStatus
+}
+
+export type EnumRecurringOccurrenceStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurringOccurrenceStatus | Prisma.EnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.RecurringOccurrenceStatus[] | Prisma.ListEnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RecurringOccurrenceStatus[] | Prisma.ListEnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRecurringOccurrenceStatusWithAggregatesFilter<$PrismaModel> | $Enums.RecurringOccurrenceStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumRecurringOccurrenceStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumRecurringOccurrenceStatusFilter<$PrismaModel>
+}
+
 export type EnumSubscriptionPlanFilter<$PrismaModel = never> = {
   equals?: $Enums.SubscriptionPlan | Prisma.EnumSubscriptionPlanFieldRefInput<$PrismaModel>
   in?: $Enums.SubscriptionPlan[] | Prisma.ListEnumSubscriptionPlanFieldRefInput<$PrismaModel>
@@ -687,6 +755,23 @@ export type NestedFloatNullableWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatNullableFilter<$PrismaModel>
 }
 
+export type NestedEnumTransactionAttachmentKindFilter<$PrismaModel = never> = {
+  equals?: $Enums.TransactionAttachmentKind | Prisma.EnumTransactionAttachmentKindFieldRefInput<$PrismaModel>
+  in?: $Enums.TransactionAttachmentKind[] | Prisma.ListEnumTransactionAttachmentKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TransactionAttachmentKind[] | Prisma.ListEnumTransactionAttachmentKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTransactionAttachmentKindFilter<$PrismaModel> | $Enums.TransactionAttachmentKind
+}
+
+export type NestedEnumTransactionAttachmentKindWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.TransactionAttachmentKind | Prisma.EnumTransactionAttachmentKindFieldRefInput<$PrismaModel>
+  in?: $Enums.TransactionAttachmentKind[] | Prisma.ListEnumTransactionAttachmentKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TransactionAttachmentKind[] | Prisma.ListEnumTransactionAttachmentKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTransactionAttachmentKindWithAggregatesFilter<$PrismaModel> | $Enums.TransactionAttachmentKind
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumTransactionAttachmentKindFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumTransactionAttachmentKindFilter<$PrismaModel>
+}
+
 export type NestedJsonFilter<$PrismaModel = never> =
 | Prisma.PatchUndefined<
     Prisma.Either<Required<NestedJsonFilterBase<$PrismaModel>>, Exclude<keyof Required<NestedJsonFilterBase<$PrismaModel>>, 'path'>>,
@@ -718,6 +803,13 @@ export type NestedEnumAlertTypeEnumFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumAlertTypeEnumFilter<$PrismaModel> | $Enums.AlertTypeEnum
 }
 
+export type NestedEnumAlertPeriodEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.AlertPeriodEnum | Prisma.EnumAlertPeriodEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.AlertPeriodEnum[] | Prisma.ListEnumAlertPeriodEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AlertPeriodEnum[] | Prisma.ListEnumAlertPeriodEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAlertPeriodEnumFilter<$PrismaModel> | $Enums.AlertPeriodEnum
+}
+
 export type NestedEnumAlertTypeEnumWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.AlertTypeEnum | Prisma.EnumAlertTypeEnumFieldRefInput<$PrismaModel>
   in?: $Enums.AlertTypeEnum[] | Prisma.ListEnumAlertTypeEnumFieldRefInput<$PrismaModel>
@@ -728,6 +820,50 @@ export type NestedEnumAlertTypeEnumWithAggregatesFilter<$PrismaModel = never> =
   _max?: Prisma.NestedEnumAlertTypeEnumFilter<$PrismaModel>
 }
 
+export type NestedEnumAlertPeriodEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AlertPeriodEnum | Prisma.EnumAlertPeriodEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.AlertPeriodEnum[] | Prisma.ListEnumAlertPeriodEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AlertPeriodEnum[] | Prisma.ListEnumAlertPeriodEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAlertPeriodEnumWithAggregatesFilter<$PrismaModel> | $Enums.AlertPeriodEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAlertPeriodEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAlertPeriodEnumFilter<$PrismaModel>
+}
+
+export type NestedEnumRecurringFrequencyEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurringFrequencyEnum | Prisma.EnumRecurringFrequencyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.RecurringFrequencyEnum[] | Prisma.ListEnumRecurringFrequencyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RecurringFrequencyEnum[] | Prisma.ListEnumRecurringFrequencyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRecurringFrequencyEnumFilter<$PrismaModel> | $Enums.RecurringFrequencyEnum
+}
+
+export type NestedEnumRecurringFrequencyEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurringFrequencyEnum | Prisma.EnumRecurringFrequencyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.RecurringFrequencyEnum[] | Prisma.ListEnumRecurringFrequencyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RecurringFrequencyEnum[] | Prisma.ListEnumRecurringFrequencyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRecurringFrequencyEnumWithAggregatesFilter<$PrismaModel> | $Enums.RecurringFrequencyEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumRecurringFrequencyEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumRecurringFrequencyEnumFilter<$PrismaModel>
+}
+
+export type NestedEnumRecurringOccurrenceStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurringOccurrenceStatus | Prisma.EnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.RecurringOccurrenceStatus[] | Prisma.ListEnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RecurringOccurrenceStatus[] | Prisma.ListEnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRecurringOccurrenceStatusFilter<$PrismaModel> | $Enums.RecurringOccurrenceStatus
+}
+
+export type NestedEnumRecurringOccurrenceStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurringOccurrenceStatus | Prisma.EnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.RecurringOccurrenceStatus[] | Prisma.ListEnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RecurringOccurrenceStatus[] | Prisma.ListEnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRecurringOccurrenceStatusWithAggregatesFilter<$PrismaModel> | $Enums.RecurringOccurrenceStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumRecurringOccurrenceStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumRecurringOccurrenceStatusFilter<$PrismaModel>
+}
+
 export type NestedEnumSubscriptionPlanFilter<$PrismaModel = never> = {
   equals?: $Enums.SubscriptionPlan | Prisma.EnumSubscriptionPlanFieldRefInput<$PrismaModel>
   in?: $Enums.SubscriptionPlan[] | Prisma.ListEnumSubscriptionPlanFieldRefInput<$PrismaModel>
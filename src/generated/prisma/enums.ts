@@ -29,12 +29,52 @@ export type TransactionDirectionsEnum = (typeof TransactionDirectionsEnum)[keyof
 
 export const AlertTypeEnum = {
   large_expense: 'large_expense',
-  category_threshold: 'category_threshold'
+  category_threshold: 'category_threshold',
+  low_balance: 'low_balance',
+  no_transactions: 'no_transactions',
+  unusual_spending: 'unusual_spending'
 } as const
 
 export type AlertTypeEnum = (typeof AlertTypeEnum)[keyof typeof AlertTypeEnum]
 
 
+export const AlertPeriodEnum = {
+  day: 'day',
+  week: 'week',
+  month: 'month'
+} as const
+
+export type AlertPeriodEnum = (typeof AlertPeriodEnum)[keyof typeof AlertPeriodEnum]
+
+
+export const RecurringFrequencyEnum = {
+  daily: 'daily',
+  weekly: 'weekly',
+  monthly: 'monthly',
+  yearly: 'yearly',
+  cron: 'cron'
+} as const
+
+export type RecurringFrequencyEnum = (typeof RecurringFrequencyEnum)[keyof typeof RecurringFrequencyEnum]
+
+
+export const RecurringOccurrenceStatus = {
+  pending: 'pending',
+  confirmed: 'confirmed',
+  skipped: 'skipped'
+} as const
+
+export type RecurringOccurrenceStatus = (typeof RecurringOccurrenceStatus)[keyof typeof RecurringOccurrenceStatus]
+
+
+export const TransactionAttachmentKind = {
+  photo: 'photo',
+  document: 'document'
+} as const
+
+export type TransactionAttachmentKind = (typeof TransactionAttachmentKind)[keyof typeof TransactionAttachmentKind]
+
+
 export const SubscriptionPlan = {
   monthly: 'monthly',
   yearly: 'yearly',
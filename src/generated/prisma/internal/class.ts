@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.4.0",
   "engineVersion": "ab56fe763f921d033a6c195e7ddeb3e255bdbb57",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider     = \"prisma-client\"\n  output       = \"../src/generated/prisma\"\n  moduleFormat = \"cjs\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel Currency {\n  code     String  @id\n  type     String // fiat | crypto\n  symbol   String?\n  decimals Int     @default(2)\n\n  @@map(\"currencies\")\n}\n\nmodel User {\n  id                  String               @id @default(uuid())\n  telegramId          String               @unique\n  activeAccountId     String?\n  defaultAccountId    String?\n  mainCurrency        String               @default(\"USD\")\n  timezone            String               @default(\"UTC+02:00\")\n  isPremium           Boolean              @default(false)\n  premiumUntil        DateTime?\n  trialUsed           Boolean              @default(false)\n  stripeCustomerId    String?\n  lastTipText         String?\n  lastTipDate         DateTime?\n  accounts            Account[]\n  transactions        Transaction[]\n  categories          Category[]\n  tags                Tag[]\n  savedAnalyticsViews SavedAnalyticsView[]\n  alertConfigs        AlertConfig[]\n  subscriptions       Subscription[]\n  premiumEvents       PremiumEvent[]\n  llmMemories         LlmUserMemory[]\n  lastDailyReminderAt DateTime?\n  createdAt           DateTime             @default(now())\n\n  @@map(\"users\")\n}\n\nmodel Account {\n  id        String          @id @default(uuid())\n  userId    String\n  user      User            @relation(fields: [userId], references: [id], onDelete: Cascade)\n  name      String\n  type      AccountTypeEnum\n  currency  String\n  isHidden  Boolean         @default(false)\n  createdAt DateTime        @default(now())\n\n  transactions     Transaction[]\n  transactionsFrom Transaction[]  @relation(\"FromAccount\")\n  transactionsTo   Transaction[]  @relation(\"ToAccount\")\n  assets           AccountAsset[]\n\n  @@map(\"accounts\")\n}\n\nmodel AccountAsset {\n  id            String   @id @default(uuid())\n  accountId     String\n  account       Account  @relation(fields: [accountId], references: [id], onDelete: Cascade)\n  currency      String\n  amount        Float\n  amountDecimal Decimal? @map(\"amount_decimal\") @db.Decimal(38, 18)\n\n  @@unique([accountId, currency])\n  @@map(\"account_assets\")\n}\n\nmodel Transaction {\n  id                     String                    @id @default(uuid())\n  accountId              String\n  account                Account                   @relation(fields: [accountId], references: [id])\n  amount                 Float\n  amountDecimal          Decimal?                  @map(\"amount_decimal\") @db.Decimal(38, 18)\n  currency               String\n  direction              TransactionDirectionsEnum\n  categoryId             String?\n  categoryRef            Category?                 @relation(\"TransactionCategory\", fields: [categoryId], references: [id], onDelete: SetNull)\n  category               String?\n  description            String?\n  rawText                String\n  transactionDate        DateTime                  @default(now())\n  createdAt              DateTime                  @default(now())\n  userId                 String                    @map(\"user_id\")\n  user                   User                      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  fromAccountId          String?\n  fromAccount            Account?                  @relation(name: \"FromAccount\", fields: [fromAccountId], references: [id])\n  toAccountId            String?\n  toAccount              Account?                  @relation(name: \"ToAccount\", fields: [toAccountId], references: [id])\n  tagId                  String?\n  tag                    Tag?                      @relation(fields: [tagId], references: [id])\n  convertedAmount        Float?\n  convertedAmountDecimal Decimal?                  @map(\"converted_amount_decimal\") @db.Decimal(38, 18)\n  convertToCurrency      String?\n  amountUsd              Float?                    @map(\"amount_usd\")\n  amountUsdDecimal       Decimal?                  @map(\"amount_usd_decimal\") @db.Decimal(38, 18)\n\n  @@map(\"transactions\")\n}\n\nmodel ExchangeRateSnapshot {\n  id           String   @id @default(uuid())\n  date         DateTime\n  baseCurrency String   @default(\"USD\") @map(\"base_currency\")\n  rates        Json\n  createdAt    DateTime @default(now()) @map(\"created_at\")\n  updatedAt    DateTime @updatedAt @map(\"updated_at\")\n\n  @@unique([date, baseCurrency])\n  @@map(\"exchange_rate_snapshots\")\n}\n\nmodel Category {\n  id           String        @id @default(uuid())\n  userId       String\n  user         User          @relation(fields: [userId], references: [id], onDelete: Cascade)\n  name         String\n  isDefault    Boolean       @default(false)\n  createdAt    DateTime      @default(now())\n  transactions Transaction[] @relation(\"TransactionCategory\")\n\n  @@map(\"categories\")\n}\n\nmodel TrialLedger {\n  id               String   @id @default(uuid())\n  telegramId       String   @unique\n  firstUserId      String?\n  stripeCustomerId String?\n  usedAt           DateTime @default(now())\n  createdAt        DateTime @default(now())\n  updatedAt        DateTime @updatedAt\n\n  @@map(\"trial_ledgers\")\n}\n\nmodel Tag {\n  id           String        @id @default(uuid())\n  userId       String\n  user         User          @relation(fields: [userId], references: [id], onDelete: Cascade)\n  name         String\n  usageCount   Int           @default(0)\n  isDefault    Boolean       @default(false)\n  createdAt    DateTime      @default(now())\n  aliases      TagAlias[]\n  transactions Transaction[]\n\n  @@unique([userId, name])\n  @@map(\"tags\")\n}\n\nmodel TagAlias {\n  id        String   @id @default(uuid())\n  tagId     String\n  tag       Tag      @relation(fields: [tagId], references: [id], onDelete: Cascade)\n  alias     String\n  createdAt DateTime @default(now())\n\n  @@map(\"tag_aliases\")\n}\n\nmodel TagAuditLog {\n  id        String   @id @default(uuid())\n  userId    String\n  action    String\n  details   String\n  createdAt DateTime @default(now())\n\n  @@map(\"tag_audit_logs\")\n}\n\nmodel SavedAnalyticsView {\n  id        String   @id @default(uuid())\n  userId    String\n  user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  name      String\n  filters   Json\n  createdAt DateTime @default(now())\n\n  @@map(\"saved_analytics_views\")\n}\n\nmodel AlertConfig {\n  id               String        @id @default(uuid())\n  userId           String\n  user             User          @relation(fields: [userId], references: [id], onDelete: Cascade)\n  type             AlertTypeEnum\n  threshold        Float\n  thresholdDecimal Decimal?      @map(\"threshold_decimal\") @db.Decimal(38, 18)\n  categoryId       String?\n  enabled          Boolean       @default(true)\n  createdAt        DateTime      @default(now())\n\n  @@map(\"alert_configs\")\n}\n\nmodel Subscription {\n  id                      String             @id @default(uuid())\n  userId                  String\n  user                    User               @relation(fields: [userId], references: [id], onDelete: Cascade)\n  plan                    SubscriptionPlan\n  status                  SubscriptionStatus @default(active)\n  startDate               DateTime           @default(now())\n  endDate                 DateTime?\n  telegramPaymentChargeId String?            @unique\n  providerPaymentChargeId String?\n  amount                  Float\n  amountDecimal           Decimal?           @map(\"amount_decimal\") @db.Decimal(38, 18)\n  currency                String             @default(\"EUR\")\n  createdAt               DateTime           @default(now())\n  autoRenew               Boolean            @default(true)\n\n  @@map(\"subscriptions\")\n}\n\nmodel PremiumEvent {\n  id        String           @id @default(uuid())\n  userId    String\n  user      User             @relation(fields: [userId], references: [id], onDelete: Cascade)\n  type      PremiumEventType\n  details   String?\n  createdAt DateTime         @default(now())\n\n  @@map(\"premium_events\")\n}\n\nmodel LlmUserMemory {\n  id         String   @id @default(uuid())\n  userId     String\n  user       User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  type       String // rule | correction\n  key        String\n  value      String\n  confidence Float    @default(1)\n  hits       Int      @default(0)\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  @@unique([userId, type, key])\n  @@index([userId, updatedAt])\n  @@map(\"llm_user_memories\")\n}\n\n// Enums\nenum AccountTypeEnum {\n  cash\n  bank\n  crypto\n}\n\nenum TransactionDirectionsEnum {\n  income\n  expense\n  transfer\n}\n\nenum AlertTypeEnum {\n  large_expense\n  category_threshold\n}\n\nenum SubscriptionPlan {\n  monthly\n  yearly\n  lifetime\n  trial\n}\n\nenum SubscriptionStatus {\n  active\n  expired\n  cancelled\n}\n\nenum PremiumEventType {\n  limit_hit\n  premium_page_view\n  upsell_shown\n  feature_blocked\n  trial_start\n  trial_end\n  purchase\n  cancellation\n  export_blocked\n}\n",
+  "inlineSchema": "generator client {\n  provider     = \"prisma-client\"\n  output       = \"../src/generated/prisma\"\n  moduleFormat = \"cjs\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel Currency {\n  code     String  @id\n  type     String // fiat | crypto\n  symbol   String?\n  decimals Int     @default(2)\n\n  @@map(\"currencies\")\n}\n\nmodel User {\n  id                    String                 @id @default(uuid())\n  telegramId            String                 @unique\n  activeAccountId       String?\n  defaultAccountId      String?\n  mainCurrency          String                 @default(\"USD\")\n  timezone              String                 @default(\"Europe/Kyiv\")\n  isPremium             Boolean                @default(false)\n  premiumUntil          DateTime?\n  trialUsed             Boolean                @default(false)\n  stripeCustomerId      String?\n  lastTipText           String?\n  lastTipDate           DateTime?\n  accounts              Account[]\n  transactions          Transaction[]\n  categories            Category[]\n  tags                  Tag[]\n  savedAnalyticsViews   SavedAnalyticsView[]\n  alertConfigs          AlertConfig[]\n  alertEvents           AlertEvent[]\n  budgets               Budget[]\n  recurringTransactions RecurringTransaction[]\n  subscriptions         Subscription[]\n  premiumEvents         PremiumEvent[]\n  llmMemories           LlmUserMemory[]\n  netWorthSnapshots     NetWorthSnapshot[]\n  lastDailyReminderAt   DateTime?\n  monthlyStatement      Boolean                @default(false)\n  lastStatementPeriod   String?\n  forecastWarnedPeriod  String?\n  createdAt             DateTime               @default(now())\n\n  @@map(\"users\")\n}\n\nmodel Account {\n  id        String          @id @default(uuid())\n  userId    String\n  user      User            @relation(fields: [userId], references: [id], onDelete: Cascade)\n  name      String\n  type      AccountTypeEnum\n  currency  String\n  isHidden  Boolean         @default(false)\n  createdAt DateTime        @default(now())\n\n  transactions          Transaction[]\n  transactionsFrom      Transaction[]          @relation(\"FromAccount\")\n  transactionsTo        Transaction[]          @relation(\"ToAccount\")\n  assets                AccountAsset[]\n  alertConfigs          AlertConfig[]\n  recurringTransactions RecurringTransaction[]\n  netWorthSnapshots     NetWorthSnapshot[]\n\n  @@map(\"accounts\")\n}\n\nmodel AccountAsset {\n  id            String   @id @default(uuid())\n  accountId     String\n  account       Account  @relation(fields: [accountId], references: [id], onDelete: Cascade)\n  currency      String\n  amount        Float\n  amountDecimal Decimal? @map(\"amount_decimal\") @db.Decimal(38, 18)\n\n  @@unique([accountId, currency])\n  @@map(\"account_assets\")\n}\n\nmodel Transaction {\n  id                     String                    @id @default(uuid())\n  accountId              String\n  account                Account                   @relation(fields: [accountId], references: [id])\n  amount                 Float\n  amountDecimal          Decimal?                  @map(\"amount_decimal\") @db.Decimal(38, 18)\n  currency               String\n  direction              TransactionDirectionsEnum\n  categoryId             String?\n  categoryRef            Category?                 @relation(\"TransactionCategory\", fields: [categoryId], references: [id], onDelete: SetNull)\n  category               String?\n  description            String?\n  rawText                String\n  transactionDate        DateTime                  @default(now())\n  createdAt              DateTime                  @default(now())\n  userId                 String                    @map(\"user_id\")\n  user                   User                      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  fromAccountId          String?\n  fromAccount            Account?                  @relation(name: \"FromAccount\", fields: [fromAccountId], references: [id])\n  toAccountId            String?\n  toAccount              Account?                  @relation(name: \"ToAccount\", fields: [toAccountId], references: [id])\n  tagId                  String?\n  tag                    Tag?                      @relation(fields: [tagId], references: [id])\n  convertedAmount        Float?\n  convertedAmountDecimal Decimal?                  @map(\"converted_amount_decimal\") @db.Decimal(38, 18)\n  convertToCurrency      String?\n  amountUsd              Float?                    @map(\"amount_usd\")\n  amountUsdDecimal       Decimal?                  @map(\"amount_usd_decimal\") @db.Decimal(38, 18)\n  attachments            TransactionAttachment[]\n\n  @@map(\"transactions\")\n}\n\n/// Receipt photo or document kept in Telegram; only the file ids are stored.\nmodel TransactionAttachment {\n  id            String                    @id @default(uuid())\n  transactionId String                    @map(\"transaction_id\")\n  transaction   Transaction               @relation(fields: [transactionId], references: [id], onDelete: Cascade)\n  kind          TransactionAttachmentKind\n  fileId        String                    @map(\"file_id\")\n  fileUniqueId  String                    @map(\"file_unique_id\")\n  fileName      String?                   @map(\"file_name\")\n  mimeType      String?                   @map(\"mime_type\")\n  createdAt     DateTime                  @default(now())\n\n  @@unique([transactionId, fileUniqueId])\n  @@map(\"transaction_attachments\")\n}\n\n/// End-of-day balance of one currency on one account; `date` is the user's local day at UTC midnight.\nmodel NetWorthSnapshot {\n  id           String   @id @default(uuid())\n  userId       String   @map(\"user_id\")\n  user         User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  accountId    String   @map(\"account_id\")\n  account      Account  @relation(fields: [accountId], references: [id], onDelete: Cascade)\n  date         DateTime\n  currency     String\n  amount       Float\n  valueUsd     Float?   @map(\"value_usd\")\n  valueMain    Float?   @map(\"value_main\")\n  mainCurrency String   @map(\"main_currency\")\n  createdAt    DateTime @default(now())\n\n  @@unique([userId, date, accountId, currency])\n  @@index([userId, date])\n  @@map(\"net_worth_snapshots\")\n}\n\nmodel ExchangeRateSnapshot {\n  id           String   @id @default(uuid())\n  date         DateTime\n  baseCurrency String   @default(\"USD\") @map(\"base_currency\")\n  rates        Json\n  createdAt    DateTime @default(now()) @map(\"created_at\")\n  updatedAt    DateTime @updatedAt @map(\"updated_at\")\n\n  @@unique([date, baseCurrency])\n  @@map(\"exchange_rate_snapshots\")\n}\n\nmodel Category {\n  id                    String                 @id @default(uuid())\n  userId                String\n  user                  User                   @relation(fields: [userId], references: [id], onDelete: Cascade)\n  name                  String\n  isDefault             Boolean                @default(false)\n  createdAt             DateTime               @default(now())\n  transactions          Transaction[]          @relation(\"TransactionCategory\")\n  budgets               Budget[]\n  recurringTransactions RecurringTransaction[]\n\n  @@map(\"categories\")\n}\n\nmodel TrialLedger {\n  id               String   @id @default(uuid())\n  telegramId       String   @unique\n  firstUserId      String?\n  stripeCustomerId String?\n  usedAt           DateTime @default(now())\n  createdAt        DateTime @default(now())\n  updatedAt        DateTime @updatedAt\n\n  @@map(\"trial_ledgers\")\n}\n\nmodel Tag {\n  id                    String                 @id @default(uuid())\n  userId                String\n  user                  User                   @relation(fields: [userId], references: [id], onDelete: Cascade)\n  name                  String\n  usageCount            Int                    @default(0)\n  isDefault             Boolean                @default(false)\n  createdAt             DateTime               @default(now())\n  aliases               TagAlias[]\n  transactions          Transaction[]\n  recurringTransactions RecurringTransaction[]\n\n  @@unique([userId, name])\n  @@map(\"tags\")\n}\n\nmodel TagAlias {\n  id        String   @id @default(uuid())\n  tagId     String\n  tag       Tag      @relation(fields: [tagId], references: [id], onDelete: Cascade)\n  alias     String\n  createdAt DateTime @default(now())\n\n  @@map(\"tag_aliases\")\n}\n\nmodel TagAuditLog {\n  id        String   @id @default(uuid())\n  userId    String\n  action    String\n  details   String\n  createdAt DateTime @default(now())\n\n  @@map(\"tag_audit_logs\")\n}\n\nmodel SavedAnalyticsView {\n  id        String   @id @default(uuid())\n  userId    String\n  user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  name      String\n  filters   Json\n  createdAt DateTime @default(now())\n\n  @@map(\"saved_analytics_views\")\n}\n\nmodel AlertConfig {\n  id               String          @id @default(uuid())\n  userId           String\n  user             User            @relation(fields: [userId], references: [id], onDelete: Cascade)\n  type             AlertTypeEnum\n  threshold        Float\n  thresholdDecimal Decimal?        @map(\"threshold_decimal\") @db.Decimal(38, 18)\n  categoryId       String?\n  period           AlertPeriodEnum @default(month)\n  accountId        String?         @map(\"account_id\")\n  account          Account?        @relation(fields: [accountId], references: [id], onDelete: Cascade)\n  currency         String?\n  enabled          Boolean         @default(true)\n  createdAt        DateTime        @default(now())\n  events           AlertEvent[]\n\n  @@map(\"alert_configs\")\n}\n\nmodel AlertEvent {\n  id            String      @id @default(uuid())\n  userId        String\n  user          User        @relation(fields: [userId], references: [id], onDelete: Cascade)\n  alertConfigId String\n  alertConfig   AlertConfig @relation(fields: [alertConfigId], references: [id], onDelete: Cascade)\n  dedupKey      String      @map(\"dedup_key\")\n  transactionId String?     @map(\"transaction_id\")\n  amount        Float\n  amountDecimal Decimal?    @map(\"amount_decimal\") @db.Decimal(38, 18)\n  message       String\n  createdAt     DateTime    @default(now())\n\n  @@unique([alertConfigId, dedupKey])\n  @@index([userId, createdAt])\n  @@map(\"alert_events\")\n}\n\n/// One overall budget per user (categoryId NULL) is enforced by the partial index\n/// \"budgets_userId_overall_key\", which Prisma cannot express.\nmodel Budget {\n  id           String    @id @default(uuid())\n  userId       String\n  user         User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  categoryId   String?   @map(\"category_id\")\n  category     Category? @relation(fields: [categoryId], references: [id], onDelete: Cascade)\n  limit        Float\n  limitDecimal Decimal?  @map(\"limit_decimal\") @db.Decimal(38, 18)\n  rollover     Boolean   @default(false)\n  warnedPeriod String?   @map(\"warned_period\")\n  warnedLevel  Int       @default(0) @map(\"warned_level\")\n  createdAt    DateTime  @default(now())\n  updatedAt    DateTime  @updatedAt\n\n  @@unique([userId, categoryId])\n  @@map(\"budgets\")\n}\n\nmodel RecurringTransaction {\n  id            String                    @id @default(uuid())\n  userId        String\n  user          User                      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  accountId     String                    @map(\"account_id\")\n  account       Account                   @relation(fields: [accountId], references: [id], onDelete: Cascade)\n  direction     TransactionDirectionsEnum\n  amount        Float\n  amountDecimal Decimal?                  @map(\"amount_decimal\") @db.Decimal(38, 18)\n  currency      String\n  categoryId    String?                   @map(\"category_id\")\n  categoryRef   Category?                 @relation(fields: [categoryId], references: [id], onDelete: SetNull)\n  category      String?\n  tagId         String?                   @map(\"tag_id\")\n  tag           Tag?                      @relation(fields: [tagId], references: [id], onDelete: SetNull)\n  description   String\n  frequency     RecurringFrequencyEnum\n  interval      Int                       @default(1)\n  cron          String?\n  startDate     DateTime                  @map(\"start_date\")\n  nextRunAt     DateTime                  @map(\"next_run_at\")\n  paused        Boolean                   @default(false)\n  createdAt     DateTime                  @default(now())\n  occurrences   RecurringOccurrence[]\n\n  @@index([paused, nextRunAt])\n  @@map(\"recurring_transactions\")\n}\n\nmodel RecurringOccurrence {\n  id            String                    @id @default(uuid())\n  recurringId   String                    @map(\"recurring_id\")\n  recurring     RecurringTransaction      @relation(fields: [recurringId], references: [id], onDelete: Cascade)\n  dueAt         DateTime                  @map(\"due_at\")\n  status        RecurringOccurrenceStatus @default(pending)\n  transactionId String?                   @map(\"transaction_id\")\n  resolvedAt    DateTime?                 @map(\"resolved_at\")\n  /// Set once the confirm/skip prompt reached the user\n  promptedAt    DateTime?                 @map(\"prompted_at\")\n  createdAt     DateTime                  @default(now())\n\n  @@unique([recurringId, dueAt])\n  @@map(\"recurring_occurrences\")\n}\n\nmodel BotSession {\n  key       String   @id\n  data      Json\n  expiresAt DateTime @map(\"expires_at\")\n  updatedAt DateTime @updatedAt @map(\"updated_at\")\n\n  @@index([expiresAt])\n  @@map(\"bot_sessions\")\n}\n\nmodel Subscription {\n  id                      String             @id @default(uuid())\n  userId                  String\n  user                    User               @relation(fields: [userId], references: [id], onDelete: Cascade)\n  plan                    SubscriptionPlan\n  status                  SubscriptionStatus @default(active)\n  startDate               DateTime           @default(now())\n  endDate                 DateTime?\n  telegramPaymentChargeId String?            @unique\n  providerPaymentChargeId String?\n  amount                  Float\n  amountDecimal           Decimal?           @map(\"amount_decimal\") @db.Decimal(38, 18)\n  currency                String             @default(\"EUR\")\n  createdAt               DateTime           @default(now())\n  autoRenew               Boolean            @default(true)\n\n  @@map(\"subscriptions\")\n}\n\nmodel PremiumEvent {\n  id        String           @id @default(uuid())\n  userId    String\n  user      User             @relation(fields: [userId], references: [id], onDelete: Cascade)\n  type      PremiumEventType\n  details   String?\n  createdAt DateTime         @default(now())\n\n  @@map(\"premium_events\")\n}\n\nmodel LlmUserMemory {\n  id         String   @id @default(uuid())\n  userId     String\n  user       User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  type       String // rule | correction\n  key        String\n  value      String\n  confidence Float    @default(1)\n  hits       Int      @default(0)\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  @@unique([userId, type, key])\n  @@index([userId, updatedAt])\n  @@map(\"llm_user_memories\")\n}\n\n// Enums\nenum AccountTypeEnum {\n  cash\n  bank\n  crypto\n}\n\nenum TransactionDirectionsEnum {\n  income\n  expense\n  transfer\n}\n\nenum AlertTypeEnum {\n  large_expense\n  category_threshold\n  low_balance\n  no_transactions\n  unusual_spending\n}\n\nenum AlertPeriodEnum {\n  day\n  week\n  month\n}\n\nenum RecurringFrequencyEnum {\n  daily\n  weekly\n  monthly\n  yearly\n  cron\n}\n\nenum RecurringOccurrenceStatus {\n  pending\n  confirmed\n  skipped\n}\n\nenum TransactionAttachmentKind {\n  photo\n  document\n}\n\nenum SubscriptionPlan {\n  monthly\n  yearly\n  lifetime\n  trial\n}\n\nenum SubscriptionStatus {\n  active\n  expired\n  cancelled\n}\n\nenum PremiumEventType {\n  limit_hit\n  premium_page_view\n  upsell_shown\n  feature_blocked\n  trial_start\n  trial_end\n  purchase\n  cancellation\n  export_blocked\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -32,10 +32,10 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Currency\":{\"fields\":[{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"decimals\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":\"currencies\"},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"telegramId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"activeAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"defaultAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mainCurrency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timezone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isPremium\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"premiumUntil\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialUsed\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"stripeCustomerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastTipText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastTipDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"accounts\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToUser\"},{\"name\":\"transactions\",\"kind\":\"object\",\"type\":\"Transaction\",\"relationName\":\"TransactionToUser\"},{\"name\":\"categories\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToUser\"},{\"name\":\"tags\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"TagToUser\"},{\"name\":\"savedAnalyticsViews\",\"kind\":\"object\",\"type\":\"SavedAnalyticsView\",\"relationName\":\"SavedAnalyticsViewToUser\"},{\"name\":\"alertConfigs\",\"kind\":\"object\",\"type\":\"AlertConfig\",\"relationName\":\"AlertConfigToUser\"},{\"name\":\"subscriptions\",\"kind\":\"object\",\"type\":\"Subscription\",\"relationName\":\"SubscriptionToUser\"},{\"name\":\"premiumEvents\",\"kind\":\"object\",\"type\":\"PremiumEvent\",\"relationName\":\"PremiumEventToUser\"},{\"name\":\"llmMemories\",\"kind\":\"object\",\"type\":\"LlmUserMemory\",\"relationName\":\"LlmUserMemoryToUser\"},{\"name\":\"lastDailyReminderAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"users\"},\"Account\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AccountToUser\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"AccountTypeEnum\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isHidden\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"transactions\",\"kind\":\"object\",\"type\":\"Transaction\",\"relationName\":\"AccountToTransaction\"},{\"name\":\"transactionsFrom\",\"kind\":\"object\",\"type\":\"Transaction\",\"relationName\":\"FromAccount\"},{\"name\":\"transactionsTo\",\"kind\":\"object\",\"type\":\"Transaction\",\"relationName\":\"ToAccount\"},{\"name\":\"assets\",\"kind\":\"object\",\"type\":\"AccountAsset\",\"relationName\":\"AccountToAccountAsset\"}],\"dbName\":\"accounts\"},\"AccountAsset\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"account\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToAccountAsset\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"amountDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"amount_decimal\"}],\"dbName\":\"account_assets\"},\"Transaction\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"account\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToTransaction\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"amountDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"amount_decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"direction\",\"kind\":\"enum\",\"type\":\"TransactionDirectionsEnum\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categoryRef\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"TransactionCategory\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rawText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transactionDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"user_id\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TransactionToUser\"},{\"name\":\"fromAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fromAccount\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"FromAccount\"},{\"name\":\"toAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toAccount\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"ToAccount\"},{\"name\":\"tagId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tag\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"TagToTransaction\"},{\"name\":\"convertedAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"convertedAmountDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"converted_amount_decimal\"},{\"name\":\"convertToCurrency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amountUsd\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"amount_usd\"},{\"name\":\"amountUsdDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"amount_usd_decimal\"}],\"dbName\":\"transactions\"},\"ExchangeRateSnapshot\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"baseCurrency\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"base_currency\"},{\"name\":\"rates\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":\"exchange_rate_snapshots\"},\"Category\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CategoryToUser\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isDefault\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"transactions\",\"kind\":\"object\",\"type\":\"Transaction\",\"relationName\":\"TransactionCategory\"}],\"dbName\":\"categories\"},\"TrialLedger\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"telegramId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"firstUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripeCustomerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"usedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"trial_ledgers\"},\"Tag\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TagToUser\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"usageCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"isDefault\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"aliases\",\"kind\":\"object\",\"type\":\"TagAlias\",\"relationName\":\"TagToTagAlias\"},{\"name\":\"transactions\",\"kind\":\"object\",\"type\":\"Transaction\",\"relationName\":\"TagToTransaction\"}],\"dbName\":\"tags\"},\"TagAlias\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tagId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tag\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"TagToTagAlias\"},{\"name\":\"alias\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"tag_aliases\"},\"TagAuditLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"details\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"tag_audit_logs\"},\"SavedAnalyticsView\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SavedAnalyticsViewToUser\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"filters\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"saved_analytics_views\"},\"AlertConfig\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AlertConfigToUser\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"AlertTypeEnum\"},{\"name\":\"threshold\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"thresholdDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"threshold_decimal\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"enabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"alert_configs\"},\"Subscription\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubscriptionToUser\"},{\"name\":\"plan\",\"kind\":\"enum\",\"type\":\"SubscriptionPlan\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"SubscriptionStatus\"},{\"name\":\"startDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"telegramPaymentChargeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerPaymentChargeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"amountDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"amount_decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"autoRenew\",\"kind\":\"scalar\",\"type\":\"Boolean\"}],\"dbName\":\"subscriptions\"},\"PremiumEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PremiumEventToUser\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"PremiumEventType\"},{\"name\":\"details\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"premium_events\"},\"LlmUserMemory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"LlmUserMemoryToUser\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"confidence\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"hits\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"llm_user_memories\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Currency\":{\"fields\":[{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"symbol\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"decimals\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":\"currencies\"},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"telegramId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"activeAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"defaultAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mainCurrency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timezone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isPremium\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"premiumUntil\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialUsed\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"stripeCustomerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastTipText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastTipDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"accounts\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToUser\"},{\"name\":\"transactions\",\"kind\":\"object\",\"type\":\"Transaction\",\"relationName\":\"TransactionToUser\"},{\"name\":\"categories\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToUser\"},{\"name\":\"tags\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"TagToUser\"},{\"name\":\"savedAnalyticsViews\",\"kind\":\"object\",\"type\":\"SavedAnalyticsView\",\"relationName\":\"SavedAnalyticsViewToUser\"},{\"name\":\"alertConfigs\",\"kind\":\"object\",\"type\":\"AlertConfig\",\"relationName\":\"AlertConfigToUser\"},{\"name\":\"alertEvents\",\"kind\":\"object\",\"type\":\"AlertEvent\",\"relationName\":\"AlertEventToUser\"},{\"name\":\"budgets\",\"kind\":\"object\",\"type\":\"Budget\",\"relationName\":\"BudgetToUser\"},{\"name\":\"recurringTransactions\",\"kind\":\"object\",\"type\":\"RecurringTransaction\",\"relationName\":\"RecurringTransactionToUser\"},{\"name\":\"subscriptions\",\"kind\":\"object\",\"type\":\"Subscription\",\"relationName\":\"SubscriptionToUser\"},{\"name\":\"premiumEvents\",\"kind\":\"object\",\"type\":\"PremiumEvent\",\"relationName\":\"PremiumEventToUser\"},{\"name\":\"llmMemories\",\"kind\":\"object\",\"type\":\"LlmUserMemory\",\"relationName\":\"LlmUserMemoryToUser\"},{\"name\":\"netWorthSnapshots\",\"kind\":\"object\",\"type\":\"NetWorthSnapshot\",\"relationName\":\"NetWorthSnapshotToUser\"},{\"name\":\"lastDailyReminderAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"monthlyStatement\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"lastStatementPeriod\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"forecastWarnedPeriod\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"users\"},\"Account\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AccountToUser\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"AccountTypeEnum\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isHidden\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"transactions\",\"kind\":\"object\",\"type\":\"Transaction\",\"relationName\":\"AccountToTransaction\"},{\"name\":\"transactionsFrom\",\"kind\":\"object\",\"type\":\"Transaction\",\"relationName\":\"FromAccount\"},{\"name\":\"transactionsTo\",\"kind\":\"object\",\"type\":\"Transaction\",\"relationName\":\"ToAccount\"},{\"name\":\"assets\",\"kind\":\"object\",\"type\":\"AccountAsset\",\"relationName\":\"AccountToAccountAsset\"},{\"name\":\"alertConfigs\",\"kind\":\"object\",\"type\":\"AlertConfig\",\"relationName\":\"AccountToAlertConfig\"},{\"name\":\"recurringTransactions\",\"kind\":\"object\",\"type\":\"RecurringTransaction\",\"relationName\":\"AccountToRecurringTransaction\"},{\"name\":\"netWorthSnapshots\",\"kind\":\"object\",\"type\":\"NetWorthSnapshot\",\"relationName\":\"AccountToNetWorthSnapshot\"}],\"dbName\":\"accounts\"},\"AccountAsset\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"account\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToAccountAsset\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"amountDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"amount_decimal\"}],\"dbName\":\"account_assets\"},\"Transaction\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"account\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToTransaction\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"amountDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"amount_decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"direction\",\"kind\":\"enum\",\"type\":\"TransactionDirectionsEnum\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categoryRef\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"TransactionCategory\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rawText\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transactionDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"user_id\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TransactionToUser\"},{\"name\":\"fromAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fromAccount\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"FromAccount\"},{\"name\":\"toAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toAccount\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"ToAccount\"},{\"name\":\"tagId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tag\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"TagToTransaction\"},{\"name\":\"convertedAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"convertedAmountDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"converted_amount_decimal\"},{\"name\":\"convertToCurrency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amountUsd\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"amount_usd\"},{\"name\":\"amountUsdDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"amount_usd_decimal\"},{\"name\":\"attachments\",\"kind\":\"object\",\"type\":\"TransactionAttachment\",\"relationName\":\"TransactionToTransactionAttachment\"}],\"dbName\":\"transactions\"},\"TransactionAttachment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transactionId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"transaction_id\"},{\"name\":\"transaction\",\"kind\":\"object\",\"type\":\"Transaction\",\"relationName\":\"TransactionToTransactionAttachment\"},{\"name\":\"kind\",\"kind\":\"enum\",\"type\":\"TransactionAttachmentKind\"},{\"name\":\"fileId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_id\"},{\"name\":\"fileUniqueId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_unique_id\"},{\"name\":\"fileName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_name\"},{\"name\":\"mimeType\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"mime_type\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"transaction_attachments\"},\"NetWorthSnapshot\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"user_id\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NetWorthSnapshotToUser\"},{\"name\":\"accountId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"account_id\"},{\"name\":\"account\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToNetWorthSnapshot\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"valueUsd\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"value_usd\"},{\"name\":\"valueMain\",\"kind\":\"scalar\",\"type\":\"Float\",\"dbName\":\"value_main\"},{\"name\":\"mainCurrency\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"main_currency\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"net_worth_snapshots\"},\"ExchangeRateSnapshot\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"baseCurrency\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"base_currency\"},{\"name\":\"rates\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":\"exchange_rate_snapshots\"},\"Category\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CategoryToUser\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isDefault\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"transactions\",\"kind\":\"object\",\"type\":\"Transaction\",\"relationName\":\"TransactionCategory\"},{\"name\":\"budgets\",\"kind\":\"object\",\"type\":\"Budget\",\"relationName\":\"BudgetToCategory\"},{\"name\":\"recurringTransactions\",\"kind\":\"object\",\"type\":\"RecurringTransaction\",\"relationName\":\"CategoryToRecurringTransaction\"}],\"dbName\":\"categories\"},\"TrialLedger\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"telegramId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"firstUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripeCustomerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"usedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"trial_ledgers\"},\"Tag\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TagToUser\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"usageCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"isDefault\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"aliases\",\"kind\":\"object\",\"type\":\"TagAlias\",\"relationName\":\"TagToTagAlias\"},{\"name\":\"transactions\",\"kind\":\"object\",\"type\":\"Transaction\",\"relationName\":\"TagToTransaction\"},{\"name\":\"recurringTransactions\",\"kind\":\"object\",\"type\":\"RecurringTransaction\",\"relationName\":\"RecurringTransactionToTag\"}],\"dbName\":\"tags\"},\"TagAlias\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tagId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tag\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"TagToTagAlias\"},{\"name\":\"alias\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"tag_aliases\"},\"TagAuditLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"details\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"tag_audit_logs\"},\"SavedAnalyticsView\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SavedAnalyticsViewToUser\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"filters\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"saved_analytics_views\"},\"AlertConfig\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AlertConfigToUser\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"AlertTypeEnum\"},{\"name\":\"threshold\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"thresholdDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"threshold_decimal\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"period\",\"kind\":\"enum\",\"type\":\"AlertPeriodEnum\"},{\"name\":\"accountId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"account_id\"},{\"name\":\"account\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToAlertConfig\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"enabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"events\",\"kind\":\"object\",\"type\":\"AlertEvent\",\"relationName\":\"AlertConfigToAlertEvent\"}],\"dbName\":\"alert_configs\"},\"AlertEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AlertEventToUser\"},{\"name\":\"alertConfigId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"alertConfig\",\"kind\":\"object\",\"type\":\"AlertConfig\",\"relationName\":\"AlertConfigToAlertEvent\"},{\"name\":\"dedupKey\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"dedup_key\"},{\"name\":\"transactionId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"transaction_id\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"amountDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"amount_decimal\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"alert_events\"},\"Budget\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"BudgetToUser\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"category_id\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"BudgetToCategory\"},{\"name\":\"limit\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"limitDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"limit_decimal\"},{\"name\":\"rollover\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"warnedPeriod\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"warned_period\"},{\"name\":\"warnedLevel\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"warned_level\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"budgets\"},\"RecurringTransaction\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"RecurringTransactionToUser\"},{\"name\":\"accountId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"account_id\"},{\"name\":\"account\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToRecurringTransaction\"},{\"name\":\"direction\",\"kind\":\"enum\",\"type\":\"TransactionDirectionsEnum\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"amountDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"amount_decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"category_id\"},{\"name\":\"categoryRef\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToRecurringTransaction\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tagId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tag_id\"},{\"name\":\"tag\",\"kind\":\"object\",\"type\":\"Tag\",\"relationName\":\"RecurringTransactionToTag\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"frequency\",\"kind\":\"enum\",\"type\":\"RecurringFrequencyEnum\"},{\"name\":\"interval\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cron\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"start_date\"},{\"name\":\"nextRunAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"next_run_at\"},{\"name\":\"paused\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"occurrences\",\"kind\":\"object\",\"type\":\"RecurringOccurrence\",\"relationName\":\"RecurringOccurrenceToRecurringTransaction\"}],\"dbName\":\"recurring_transactions\"},\"RecurringOccurrence\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recurringId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"recurring_id\"},{\"name\":\"recurring\",\"kind\":\"object\",\"type\":\"RecurringTransaction\",\"relationName\":\"RecurringOccurrenceToRecurringTransaction\"},{\"name\":\"dueAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"due_at\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"RecurringOccurrenceStatus\"},{\"name\":\"transactionId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"transaction_id\"},{\"name\":\"resolvedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"resolved_at\"},{\"name\":\"promptedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"prompted_at\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"recurring_occurrences\"},\"BotSession\":{\"fields\":[{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"data\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"expires_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"}],\"dbName\":\"bot_sessions\"},\"Subscription\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubscriptionToUser\"},{\"name\":\"plan\",\"kind\":\"enum\",\"type\":\"SubscriptionPlan\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"SubscriptionStatus\"},{\"name\":\"startDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"telegramPaymentChargeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerPaymentChargeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"amountDecimal\",\"kind\":\"scalar\",\"type\":\"Decimal\",\"dbName\":\"amount_decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"autoRenew\",\"kind\":\"scalar\",\"type\":\"Boolean\"}],\"dbName\":\"subscriptions\"},\"PremiumEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PremiumEventToUser\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"PremiumEventType\"},{\"name\":\"details\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"premium_events\"},\"LlmUserMemory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"LlmUserMemoryToUser\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"confidence\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"hits\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"llm_user_memories\"}},\"enums\":{},\"types\":{}}")
 config.parameterizationSchema = {
-  strings: JSON.parse("[\"where\",\"Currency.findUnique\",\"Currency.findUniqueOrThrow\",\"orderBy\",\"cursor\",\"Currency.findFirst\",\"Currency.findFirstOrThrow\",\"Currency.findMany\",\"data\",\"Currency.createOne\",\"Currency.createMany\",\"Currency.createManyAndReturn\",\"Currency.updateOne\",\"Currency.updateMany\",\"Currency.updateManyAndReturn\",\"create\",\"update\",\"Currency.upsertOne\",\"Currency.deleteOne\",\"Currency.deleteMany\",\"having\",\"_count\",\"_avg\",\"_sum\",\"_min\",\"_max\",\"Currency.groupBy\",\"Currency.aggregate\",\"user\",\"account\",\"transactions\",\"categoryRef\",\"fromAccount\",\"toAccount\",\"tag\",\"aliases\",\"transactionsFrom\",\"transactionsTo\",\"assets\",\"accounts\",\"categories\",\"tags\",\"savedAnalyticsViews\",\"alertConfigs\",\"subscriptions\",\"premiumEvents\",\"llmMemories\",\"User.findUnique\",\"User.findUniqueOrThrow\",\"User.findFirst\",\"User.findFirstOrThrow\",\"User.findMany\",\"User.createOne\",\"User.createMany\",\"User.createManyAndReturn\",\"User.updateOne\",\"User.updateMany\",\"User.updateManyAndReturn\",\"User.upsertOne\",\"User.deleteOne\",\"User.deleteMany\",\"User.groupBy\",\"User.aggregate\",\"Account.findUnique\",\"Account.findUniqueOrThrow\",\"Account.findFirst\",\"Account.findFirstOrThrow\",\"Account.findMany\",\"Account.createOne\",\"Account.createMany\",\"Account.createManyAndReturn\",\"Account.updateOne\",\"Account.updateMany\",\"Account.updateManyAndReturn\",\"Account.upsertOne\",\"Account.deleteOne\",\"Account.deleteMany\",\"Account.groupBy\",\"Account.aggregate\",\"AccountAsset.findUnique\",\"AccountAsset.findUniqueOrThrow\",\"AccountAsset.findFirst\",\"AccountAsset.findFirstOrThrow\",\"AccountAsset.findMany\",\"AccountAsset.createOne\",\"AccountAsset.createMany\",\"AccountAsset.createManyAndReturn\",\"AccountAsset.updateOne\",\"AccountAsset.updateMany\",\"AccountAsset.updateManyAndReturn\",\"AccountAsset.upsertOne\",\"AccountAsset.deleteOne\",\"AccountAsset.deleteMany\",\"AccountAsset.groupBy\",\"AccountAsset.aggregate\",\"Transaction.findUnique\",\"Transaction.findUniqueOrThrow\",\"Transaction.findFirst\",\"Transaction.findFirstOrThrow\",\"Transaction.findMany\",\"Transaction.createOne\",\"Transaction.createMany\",\"Transaction.createManyAndReturn\",\"Transaction.updateOne\",\"Transaction.updateMany\",\"Transaction.updateManyAndReturn\",\"Transaction.upsertOne\",\"Transaction.deleteOne\",\"Transaction.deleteMany\",\"Transaction.groupBy\",\"Transaction.aggregate\",\"ExchangeRateSnapshot.findUnique\",\"ExchangeRateSnapshot.findUniqueOrThrow\",\"ExchangeRateSnapshot.findFirst\",\"ExchangeRateSnapshot.findFirstOrThrow\",\"ExchangeRateSnapshot.findMany\",\"ExchangeRateSnapshot.createOne\",\"ExchangeRateSnapshot.createMany\",\"ExchangeRateSnapshot.createManyAndReturn\",\"ExchangeRateSnapshot.updateOne\",\"ExchangeRateSnapshot.updateMany\",\"ExchangeRateSnapshot.updateManyAndReturn\",\"ExchangeRateSnapshot.upsertOne\",\"ExchangeRateSnapshot.deleteOne\",\"ExchangeRateSnapshot.deleteMany\",\"ExchangeRateSnapshot.groupBy\",\"ExchangeRateSnapshot.aggregate\",\"Category.findUnique\",\"Category.findUniqueOrThrow\",\"Category.findFirst\",\"Category.findFirstOrThrow\",\"Category.findMany\",\"Category.createOne\",\"Category.createMany\",\"Category.createManyAndReturn\",\"Category.updateOne\",\"Category.updateMany\",\"Category.updateManyAndReturn\",\"Category.upsertOne\",\"Category.deleteOne\",\"Category.deleteMany\",\"Category.groupBy\",\"Category.aggregate\",\"TrialLedger.findUnique\",\"TrialLedger.findUniqueOrThrow\",\"TrialLedger.findFirst\",\"TrialLedger.findFirstOrThrow\",\"TrialLedger.findMany\",\"TrialLedger.createOne\",\"TrialLedger.createMany\",\"TrialLedger.createManyAndReturn\",\"TrialLedger.updateOne\",\"TrialLedger.updateMany\",\"TrialLedger.updateManyAndReturn\",\"TrialLedger.upsertOne\",\"TrialLedger.deleteOne\",\"TrialLedger.deleteMany\",\"TrialLedger.groupBy\",\"TrialLedger.aggregate\",\"Tag.findUnique\",\"Tag.findUniqueOrThrow\",\"Tag.findFirst\",\"Tag.findFirstOrThrow\",\"Tag.findMany\",\"Tag.createOne\",\"Tag.createMany\",\"Tag.createManyAndReturn\",\"Tag.updateOne\",\"Tag.updateMany\",\"Tag.updateManyAndReturn\",\"Tag.upsertOne\",\"Tag.deleteOne\",\"Tag.deleteMany\",\"Tag.groupBy\",\"Tag.aggregate\",\"TagAlias.findUnique\",\"TagAlias.findUniqueOrThrow\",\"TagAlias.findFirst\",\"TagAlias.findFirstOrThrow\",\"TagAlias.findMany\",\"TagAlias.createOne\",\"TagAlias.createMany\",\"TagAlias.createManyAndReturn\",\"TagAlias.updateOne\",\"TagAlias.updateMany\",\"TagAlias.updateManyAndReturn\",\"TagAlias.upsertOne\",\"TagAlias.deleteOne\",\"TagAlias.deleteMany\",\"TagAlias.groupBy\",\"TagAlias.aggregate\",\"TagAuditLog.findUnique\",\"TagAuditLog.findUniqueOrThrow\",\"TagAuditLog.findFirst\",\"TagAuditLog.findFirstOrThrow\",\"TagAuditLog.findMany\",\"TagAuditLog.createOne\",\"TagAuditLog.createMany\",\"TagAuditLog.createManyAndReturn\",\"TagAuditLog.updateOne\",\"TagAuditLog.updateMany\",\"TagAuditLog.updateManyAndReturn\",\"TagAuditLog.upsertOne\",\"TagAuditLog.deleteOne\",\"TagAuditLog.deleteMany\",\"TagAuditLog.groupBy\",\"TagAuditLog.aggregate\",\"SavedAnalyticsView.findUnique\",\"SavedAnalyticsView.findUniqueOrThrow\",\"SavedAnalyticsView.findFirst\",\"SavedAnalyticsView.findFirstOrThrow\",\"SavedAnalyticsView.findMany\",\"SavedAnalyticsView.createOne\",\"SavedAnalyticsView.createMany\",\"SavedAnalyticsView.createManyAndReturn\",\"SavedAnalyticsView.updateOne\",\"SavedAnalyticsView.updateMany\",\"SavedAnalyticsView.updateManyAndReturn\",\"SavedAnalyticsView.upsertOne\",\"SavedAnalyticsView.deleteOne\",\"SavedAnalyticsView.deleteMany\",\"SavedAnalyticsView.groupBy\",\"SavedAnalyticsView.aggregate\",\"AlertConfig.findUnique\",\"AlertConfig.findUniqueOrThrow\",\"AlertConfig.findFirst\",\"AlertConfig.findFirstOrThrow\",\"AlertConfig.findMany\",\"AlertConfig.createOne\",\"AlertConfig.createMany\",\"AlertConfig.createManyAndReturn\",\"AlertConfig.updateOne\",\"AlertConfig.updateMany\",\"AlertConfig.updateManyAndReturn\",\"AlertConfig.upsertOne\",\"AlertConfig.deleteOne\",\"AlertConfig.deleteMany\",\"AlertConfig.groupBy\",\"AlertConfig.aggregate\",\"Subscription.findUnique\",\"Subscription.findUniqueOrThrow\",\"Subscription.findFirst\",\"Subscription.findFirstOrThrow\",\"Subscription.findMany\",\"Subscription.createOne\",\"Subscription.createMany\",\"Subscription.createManyAndReturn\",\"Subscription.updateOne\",\"Subscription.updateMany\",\"Subscription.updateManyAndReturn\",\"Subscription.upsertOne\",\"Subscription.deleteOne\",\"Subscription.deleteMany\",\"Subscription.groupBy\",\"Subscription.aggregate\",\"PremiumEvent.findUnique\",\"PremiumEvent.findUniqueOrThrow\",\"PremiumEvent.findFirst\",\"PremiumEvent.findFirstOrThrow\",\"PremiumEvent.findMany\",\"PremiumEvent.createOne\",\"PremiumEvent.createMany\",\"PremiumEvent.createManyAndReturn\",\"PremiumEvent.updateOne\",\"PremiumEvent.updateMany\",\"PremiumEvent.updateManyAndReturn\",\"PremiumEvent.upsertOne\",\"PremiumEvent.deleteOne\",\"PremiumEvent.deleteMany\",\"PremiumEvent.groupBy\",\"PremiumEvent.aggregate\",\"LlmUserMemory.findUnique\",\"LlmUserMemory.findUniqueOrThrow\",\"LlmUserMemory.findFirst\",\"LlmUserMemory.findFirstOrThrow\",\"LlmUserMemory.findMany\",\"LlmUserMemory.createOne\",\"LlmUserMemory.createMany\",\"LlmUserMemory.createManyAndReturn\",\"LlmUserMemory.updateOne\",\"LlmUserMemory.updateMany\",\"LlmUserMemory.updateManyAndReturn\",\"LlmUserMemory.upsertOne\",\"LlmUserMemory.deleteOne\",\"LlmUserMemory.deleteMany\",\"LlmUserMemory.groupBy\",\"LlmUserMemory.aggregate\",\"AND\",\"OR\",\"NOT\",\"id\",\"userId\",\"type\",\"key\",\"value\",\"confidence\",\"hits\",\"createdAt\",\"updatedAt\",\"equals\",\"in\",\"notIn\",\"lt\",\"lte\",\"gt\",\"gte\",\"not\",\"contains\",\"startsWith\",\"endsWith\",\"PremiumEventType\",\"details\",\"SubscriptionPlan\",\"plan\",\"SubscriptionStatus\",\"status\",\"startDate\",\"endDate\",\"telegramPaymentChargeId\",\"providerPaymentChargeId\",\"amount\",\"amountDecimal\",\"currency\",\"autoRenew\",\"AlertTypeEnum\",\"threshold\",\"thresholdDecimal\",\"categoryId\",\"enabled\",\"name\",\"filters\",\"string_contains\",\"string_starts_with\",\"string_ends_with\",\"array_starts_with\",\"array_ends_with\",\"array_contains\",\"action\",\"tagId\",\"alias\",\"usageCount\",\"isDefault\",\"telegramId\",\"firstUserId\",\"stripeCustomerId\",\"usedAt\",\"date\",\"baseCurrency\",\"rates\",\"date_baseCurrency\",\"accountId\",\"TransactionDirectionsEnum\",\"direction\",\"category\",\"description\",\"rawText\",\"transactionDate\",\"fromAccountId\",\"toAccountId\",\"convertedAmount\",\"convertedAmountDecimal\",\"convertToCurrency\",\"amountUsd\",\"amountUsdDecimal\",\"AccountTypeEnum\",\"isHidden\",\"activeAccountId\",\"defaultAccountId\",\"mainCurrency\",\"timezone\",\"isPremium\",\"premiumUntil\",\"trialUsed\",\"lastTipText\",\"lastTipDate\",\"lastDailyReminderAt\",\"every\",\"some\",\"none\",\"userId_type_key\",\"userId_name\",\"accountId_currency\",\"code\",\"symbol\",\"decimals\",\"is\",\"isNot\",\"connectOrCreate\",\"upsert\",\"createMany\",\"set\",\"disconnect\",\"delete\",\"connect\",\"updateMany\",\"deleteMany\",\"increment\",\"decrement\",\"multiply\",\"divide\"]"),
-  graph: "3weTAYACB58CAACxBAAwoAIAAAQAEKECAACxBAAwpAIBAOsDACH-AgEAAAAB_wIBAPEDACGAAwIAkwQAIQEAAAABACABAAAAAQAgB58CAACxBAAwoAIAAAQAEKECAACxBAAwpAIBAOsDACH-AgEA6wMAIf8CAQDxAwAhgAMCAJMEACEB_wIAAL0EACADAAAABAAgAwAABQAwBAAAAQAgAwAAAAQAIAMAAAUAMAQAAAEAIAMAAAAEACADAAAFADAEAAABACAEpAIBAAAAAf4CAQAAAAH_AgEAAAABgAMCAAAAAQEIAAAJACAEpAIBAAAAAf4CAQAAAAH_AgEAAAABgAMCAAAAAQEIAAALADABCAAACwAwBKQCAQC3BAAh_gIBALcEACH_AgEAwgQAIYADAgC5BAAhAgAAAAEAIAgAAA4AIASkAgEAtwQAIf4CAQC3BAAh_wIBAMIEACGAAwIAuQQAIQIAAAAEACAIAAAQACACAAAABAAgCAAAEAAgAwAAAAEAIA8AAAkAIBAAAA4AIAEAAAABACABAAAABAAgBhUAAPsGACAWAAD8BgAgFwAA_wYAIBgAAP4GACAZAAD9BgAg_wIAAL0EACAHnwIAALAEADCgAgAAFwAQoQIAALAEADCkAgEAvgMAIf4CAQC-AwAh_wIBAMwDACGAAwIAwAMAIQMAAAAEACADAAAWADAUAAAXACADAAAABAAgAwAABQAwBAAAAQAgGh4AAIgEACAnAACHBAAgKAAAiQQAICkAAIoEACAqAACLBAAgKwAAjAQAICwAAI0EACAtAACOBAAgLgAAjwQAIJ8CAACEBAAwoAIAAGIAEKECAACEBAAwogIBAAAAAakCQADsAwAh1gIBAAAAAdgCAQDxAwAh7gIBAPEDACHvAgEA8QMAIfACAQDrAwAh8QIBAOsDACHyAiAAhQQAIfMCQACGBAAh9AIgAIUEACH1AgEA8QMAIfYCQACGBAAh9wJAAIYEACEBAAAAGgAgDxwAAJQEACAeAACIBAAgJAAAiAQAICUAAIgEACAmAACvBAAgnwIAAK0EADCgAgAAHAAQoQIAAK0EADCiAgEA6wMAIaMCAQDrAwAhpAIAAK4E7QIiqQJAAOwDACHCAgEA6wMAIckCAQDrAwAh7QIgAIUEACEFHAAA9QYAIB4AAO0GACAkAADtBgAgJQAA7QYAICYAAPoGACAPHAAAlAQAIB4AAIgEACAkAACIBAAgJQAAiAQAICYAAK8EACCfAgAArQQAMKACAAAcABChAgAArQQAMKICAQAAAAGjAgEA6wMAIaQCAACuBO0CIqkCQADsAwAhwgIBAOsDACHJAgEA6wMAIe0CIACFBAAhAwAAABwAIAMAAB0AMAQAAB4AIB4cAACUBAAgHQAApAQAIB8AAKoEACAgAACrBAAgIQAAqwQAICIAAKwEACCfAgAApwQAMKACAAAgABChAgAApwQAMKICAQDrAwAhowIBAOsDACGpAkAA7AMAIcACCACSBAAhwQIQAJoEACHCAgEA6wMAIccCAQDxAwAh0gIBAPEDACHeAgEA6wMAIeACAACoBOACIuECAQDxAwAh4gIBAPEDACHjAgEA6wMAIeQCQADsAwAh5QIBAPEDACHmAgEA8QMAIecCCACpBAAh6AIQAJoEACHpAgEA8QMAIeoCCACpBAAh6wIQAJoEACESHAAA9QYAIB0AAPcGACAfAAD5BgAgIAAA9wYAICEAAPcGACAiAAD4BgAgwQIAAL0EACDHAgAAvQQAINICAAC9BAAg4QIAAL0EACDiAgAAvQQAIOUCAAC9BAAg5gIAAL0EACDnAgAAvQQAIOgCAAC9BAAg6QIAAL0EACDqAgAAvQQAIOsCAAC9BAAgHhwAAJQEACAdAACkBAAgHwAAqgQAICAAAKsEACAhAACrBAAgIgAArAQAIJ8CAACnBAAwoAIAACAAEKECAACnBAAwogIBAAAAAaMCAQDrAwAhqQJAAOwDACHAAggAkgQAIcECEACaBAAhwgIBAOsDACHHAgEA8QMAIdICAQDxAwAh3gIBAOsDACHgAgAAqATgAiLhAgEA8QMAIeICAQDxAwAh4wIBAOsDACHkAkAA7AMAIeUCAQDxAwAh5gIBAPEDACHnAggAqQQAIegCEACaBAAh6QIBAPEDACHqAggAqQQAIesCEACaBAAhAwAAACAAIAMAACEAMAQAACIAIAocAACUBAAgHgAAiAQAIJ8CAAChBAAwoAIAACQAEKECAAChBAAwogIBAOsDACGjAgEA6wMAIakCQADsAwAhyQIBAOsDACHVAiAAhQQAIQEAAAAkACADAAAAIAAgAwAAIQAwBAAAIgAgAQAAACAAIAEAAAAcACABAAAAHAAgDBwAAJQEACAeAACIBAAgIwAAoAQAIJ8CAACfBAAwoAIAACoAEKECAACfBAAwogIBAOsDACGjAgEA6wMAIakCQADsAwAhyQIBAOsDACHUAgIAkwQAIdUCIACFBAAhAQAAACoAIAgiAACmBAAgnwIAAKUEADCgAgAALAAQoQIAAKUEADCiAgEA6wMAIakCQADsAwAh0gIBAOsDACHTAgEA6wMAIQEiAAD4BgAgCCIAAKYEACCfAgAApQQAMKACAAAsABChAgAApQQAMKICAQAAAAGpAkAA7AMAIdICAQDrAwAh0wIBAOsDACEDAAAALAAgAwAALQAwBAAALgAgAwAAACAAIAMAACEAMAQAACIAIAEAAAAsACABAAAAIAAgAwAAACAAIAMAACEAMAQAACIAIAMAAAAgACADAAAhADAEAAAiACAJHQAApAQAIJ8CAACjBAAwoAIAADUAEKECAACjBAAwogIBAOsDACHAAggAkgQAIcECEACaBAAhwgIBAOsDACHeAgEA6wMAIQIdAAD3BgAgwQIAAL0EACAKHQAApAQAIJ8CAACjBAAwoAIAADUAEKECAACjBAAwogIBAAAAAcACCACSBAAhwQIQAJoEACHCAgEA6wMAId4CAQDrAwAh_QIAAKIEACADAAAANQAgAwAANgAwBAAANwAgAQAAACAAIAEAAAAgACABAAAAIAAgAQAAADUAIAMAAAAgACADAAAhADAEAAAiACACHAAA9QYAIB4AAO0GACAKHAAAlAQAIB4AAIgEACCfAgAAoQQAMKACAAAkABChAgAAoQQAMKICAQAAAAGjAgEA6wMAIakCQADsAwAhyQIBAOsDACHVAiAAhQQAIQMAAAAkACADAAA-ADAEAAA_ACADHAAA9QYAIB4AAO0GACAjAAD2BgAgDRwAAJQEACAeAACIBAAgIwAAoAQAIJ8CAACfBAAwoAIAACoAEKECAACfBAAwogIBAAAAAaMCAQDrAwAhqQJAAOwDACHJAgEA6wMAIdQCAgCTBAAh1QIgAIUEACH8AgAAngQAIAMAAAAqACADAABBADAEAABCACAJHAAAlAQAIJ8CAACdBAAwoAIAAEQAEKECAACdBAAwogIBAOsDACGjAgEA6wMAIakCQADsAwAhyQIBAOsDACHKAgAA9QMAIAEcAAD1BgAgCRwAAJQEACCfAgAAnQQAMKACAABEABChAgAAnQQAMKICAQAAAAGjAgEA6wMAIakCQADsAwAhyQIBAOsDACHKAgAA9QMAIAMAAABEACADAABFADAEAABGACAMHAAAlAQAIJ8CAACbBAAwoAIAAEgAEKECAACbBAAwogIBAOsDACGjAgEA6wMAIaQCAACcBMUCIqkCQADsAwAhxQIIAJIEACHGAhAAmgQAIccCAQDxAwAhyAIgAIUEACEDHAAA9QYAIMYCAAC9BAAgxwIAAL0EACAMHAAAlAQAIJ8CAACbBAAwoAIAAEgAEKECAACbBAAwogIBAAAAAaMCAQDrAwAhpAIAAJwExQIiqQJAAOwDACHFAggAkgQAIcYCEACaBAAhxwIBAPEDACHIAiAAhQQAIQMAAABIACADAABJADAEAABKACARHAAAlAQAIJ8CAACXBAAwoAIAAEwAEKECAACXBAAwogIBAOsDACGjAgEA6wMAIakCQADsAwAhuQIAAJgEuQIiuwIAAJkEuwIivAJAAOwDACG9AkAAhgQAIb4CAQDxAwAhvwIBAPEDACHAAggAkgQAIcECEACaBAAhwgIBAOsDACHDAiAAhQQAIQUcAAD1BgAgvQIAAL0EACC-AgAAvQQAIL8CAAC9BAAgwQIAAL0EACARHAAAlAQAIJ8CAACXBAAwoAIAAEwAEKECAACXBAAwogIBAAAAAaMCAQDrAwAhqQJAAOwDACG5AgAAmAS5AiK7AgAAmQS7AiK8AkAA7AMAIb0CQACGBAAhvgIBAAAAAb8CAQDxAwAhwAIIAJIEACHBAhAAmgQAIcICAQDrAwAhwwIgAIUEACEDAAAATAAgAwAATQAwBAAATgAgCRwAAJQEACCfAgAAlQQAMKACAABQABChAgAAlQQAMKICAQDrAwAhowIBAOsDACGkAgAAlgS3AiKpAkAA7AMAIbcCAQDxAwAhAhwAAPUGACC3AgAAvQQAIAkcAACUBAAgnwIAAJUEADCgAgAAUAAQoQIAAJUEADCiAgEAAAABowIBAOsDACGkAgAAlgS3AiKpAkAA7AMAIbcCAQDxAwAhAwAAAFAAIAMAAFEAMAQAAFIAIA0cAACUBAAgnwIAAJEEADCgAgAAVAAQoQIAAJEEADCiAgEA6wMAIaMCAQDrAwAhpAIBAOsDACGlAgEA6wMAIaYCAQDrAwAhpwIIAJIEACGoAgIAkwQAIakCQADsAwAhqgJAAOwDACEBHAAA9QYAIA4cAACUBAAgnwIAAJEEADCgAgAAVAAQoQIAAJEEADCiAgEAAAABowIBAOsDACGkAgEA6wMAIaUCAQDrAwAhpgIBAOsDACGnAggAkgQAIagCAgCTBAAhqQJAAOwDACGqAkAA7AMAIfsCAACQBAAgAwAAAFQAIAMAAFUAMAQAAFYAIAEAAAAcACABAAAAIAAgAQAAACQAIAEAAAAqACABAAAARAAgAQAAAEgAIAEAAABMACABAAAAUAAgAQAAAFQAIAEAAAAaACAaHgAAiAQAICcAAIcEACAoAACJBAAgKQAAigQAICoAAIsEACArAACMBAAgLAAAjQQAIC0AAI4EACAuAACPBAAgnwIAAIQEADCgAgAAYgAQoQIAAIQEADCiAgEA6wMAIakCQADsAwAh1gIBAOsDACHYAgEA8QMAIe4CAQDxAwAh7wIBAPEDACHwAgEA6wMAIfECAQDrAwAh8gIgAIUEACHzAkAAhgQAIfQCIACFBAAh9QIBAPEDACH2AkAAhgQAIfcCQACGBAAhEB4AAO0GACAnAADsBgAgKAAA7gYAICkAAO8GACAqAADwBgAgKwAA8QYAICwAAPIGACAtAADzBgAgLgAA9AYAINgCAAC9BAAg7gIAAL0EACDvAgAAvQQAIPMCAAC9BAAg9QIAAL0EACD2AgAAvQQAIPcCAAC9BAAgAwAAAGIAIAMAAGMAMAQAABoAIAMAAABiACADAABjADAEAAAaACADAAAAYgAgAwAAYwAwBAAAGgAgFx4AAOQGACAnAADjBgAgKAAA5QYAICkAAOYGACAqAADnBgAgKwAA6AYAICwAAOkGACAtAADqBgAgLgAA6wYAIKICAQAAAAGpAkAAAAAB1gIBAAAAAdgCAQAAAAHuAgEAAAAB7wIBAAAAAfACAQAAAAHxAgEAAAAB8gIgAAAAAfMCQAAAAAH0AiAAAAAB9QIBAAAAAfYCQAAAAAH3AkAAAAABAQgAAGcAIA6iAgEAAAABqQJAAAAAAdYCAQAAAAHYAgEAAAAB7gIBAAAAAe8CAQAAAAHwAgEAAAAB8QIBAAAAAfICIAAAAAHzAkAAAAAB9AIgAAAAAfUCAQAAAAH2AkAAAAAB9wJAAAAAAQEIAABpADABCAAAaQAwFx4AAPIFACAnAADxBQAgKAAA8wUAICkAAPQFACAqAAD1BQAgKwAA9gUAICwAAPcFACAtAAD4BQAgLgAA-QUAIKICAQC3BAAhqQJAALoEACHWAgEAtwQAIdgCAQDCBAAh7gIBAMIEACHvAgEAwgQAIfACAQC3BAAh8QIBALcEACHyAiAAzgQAIfMCQADMBAAh9AIgAM4EACH1AgEAwgQAIfYCQADMBAAh9wJAAMwEACECAAAAGgAgCAAAbAAgDqICAQC3BAAhqQJAALoEACHWAgEAtwQAIdgCAQDCBAAh7gIBAMIEACHvAgEAwgQAIfACAQC3BAAh8QIBALcEACHyAiAAzgQAIfMCQADMBAAh9AIgAM4EACH1AgEAwgQAIfYCQADMBAAh9wJAAMwEACECAAAAYgAgCAAAbgAgAgAAAGIAIAgAAG4AIAMAAAAaACAPAABnACAQAABsACABAAAAGgAgAQAAAGIAIAoVAADuBQAgGAAA8AUAIBkAAO8FACDYAgAAvQQAIO4CAAC9BAAg7wIAAL0EACDzAgAAvQQAIPUCAAC9BAAg9gIAAL0EACD3AgAAvQQAIBGfAgAAgwQAMKACAAB1ABChAgAAgwQAMKICAQC-AwAhqQJAAMEDACHWAgEAvgMAIdgCAQDMAwAh7gIBAMwDACHvAgEAzAMAIfACAQC-AwAh8QIBAL4DACHyAiAA1wMAIfMCQADVAwAh9AIgANcDACH1AgEAzAMAIfYCQADVAwAh9wJAANUDACEDAAAAYgAgAwAAdAAwFAAAdQAgAwAAAGIAIAMAAGMAMAQAABoAIAEAAAAeACABAAAAHgAgAwAAABwAIAMAAB0AMAQAAB4AIAMAAAAcACADAAAdADAEAAAeACADAAAAHAAgAwAAHQAwBAAAHgAgDBwAAOkFACAeAADqBQAgJAAA6wUAICUAAOwFACAmAADtBQAgogIBAAAAAaMCAQAAAAGkAgAAAO0CAqkCQAAAAAHCAgEAAAAByQIBAAAAAe0CIAAAAAEBCAAAfQAgB6ICAQAAAAGjAgEAAAABpAIAAADtAgKpAkAAAAABwgIBAAAAAckCAQAAAAHtAiAAAAABAQgAAH8AMAEIAAB_ADAMHAAAvQUAIB4AAL4FACAkAAC_BQAgJQAAwAUAICYAAMEFACCiAgEAtwQAIaMCAQC3BAAhpAIAALwF7QIiqQJAALoEACHCAgEAtwQAIckCAQC3BAAh7QIgAM4EACECAAAAHgAgCAAAggEAIAeiAgEAtwQAIaMCAQC3BAAhpAIAALwF7QIiqQJAALoEACHCAgEAtwQAIckCAQC3BAAh7QIgAM4EACECAAAAHAAgCAAAhAEAIAIAAAAcACAIAACEAQAgAwAAAB4AIA8AAH0AIBAAAIIBACABAAAAHgAgAQAAABwAIAMVAAC5BQAgGAAAuwUAIBkAALoFACAKnwIAAP8DADCgAgAAiwEAEKECAAD_AwAwogIBAL4DACGjAgEAvgMAIaQCAACABO0CIqkCQADBAwAhwgIBAL4DACHJAgEAvgMAIe0CIADXAwAhAwAAABwAIAMAAIoBADAUAACLAQAgAwAAABwAIAMAAB0AMAQAAB4AIAEAAAA3ACABAAAANwAgAwAAADUAIAMAADYAMAQAADcAIAMAAAA1ACADAAA2ADAEAAA3ACADAAAANQAgAwAANgAwBAAANwAgBh0AALgFACCiAgEAAAABwAIIAAAAAcECEAAAAAHCAgEAAAAB3gIBAAAAAQEIAACTAQAgBaICAQAAAAHAAggAAAABwQIQAAAAAcICAQAAAAHeAgEAAAABAQgAAJUBADABCAAAlQEAMAYdAAC3BQAgogIBALcEACHAAggAuAQAIcECEADNBAAhwgIBALcEACHeAgEAtwQAIQIAAAA3ACAIAACYAQAgBaICAQC3BAAhwAIIALgEACHBAhAAzQQAIcICAQC3BAAh3gIBALcEACECAAAANQAgCAAAmgEAIAIAAAA1ACAIAACaAQAgAwAAADcAIA8AAJMBACAQAACYAQAgAQAAADcAIAEAAAA1ACAGFQAAsgUAIBYAALMFACAXAAC2BQAgGAAAtQUAIBkAALQFACDBAgAAvQQAIAifAgAA_gMAMKACAAChAQAQoQIAAP4DADCiAgEAvgMAIcACCAC_AwAhwQIQANYDACHCAgEAvgMAId4CAQC-AwAhAwAAADUAIAMAAKABADAUAAChAQAgAwAAADUAIAMAADYAMAQAADcAIAEAAAAiACABAAAAIgAgAwAAACAAIAMAACEAMAQAACIAIAMAAAAgACADAAAhADAEAAAiACADAAAAIAAgAwAAIQAwBAAAIgAgGxwAAIMFACAdAACBBQAgHwAAggUAICAAAIQFACAhAACFBQAgIgAApwUAIKICAQAAAAGjAgEAAAABqQJAAAAAAcACCAAAAAHBAhAAAAABwgIBAAAAAccCAQAAAAHSAgEAAAAB3gIBAAAAAeACAAAA4AIC4QIBAAAAAeICAQAAAAHjAgEAAAAB5AJAAAAAAeUCAQAAAAHmAgEAAAAB5wIIAAAAAegCEAAAAAHpAgEAAAAB6gIIAAAAAesCEAAAAAEBCAAAqQEAIBWiAgEAAAABowIBAAAAAakCQAAAAAHAAggAAAABwQIQAAAAAcICAQAAAAHHAgEAAAAB0gIBAAAAAd4CAQAAAAHgAgAAAOACAuECAQAAAAHiAgEAAAAB4wIBAAAAAeQCQAAAAAHlAgEAAAAB5gIBAAAAAecCCAAAAAHoAhAAAAAB6QIBAAAAAeoCCAAAAAHrAhAAAAABAQgAAKsBADABCAAAqwEAMAEAAAAkACABAAAAHAAgAQAAABwAIAEAAAAqACAbHAAA_QQAIB0AAPsEACAfAAD8BAAgIAAA_gQAICEAAP8EACAiAAClBQAgogIBALcEACGjAgEAtwQAIakCQAC6BAAhwAIIALgEACHBAhAAzQQAIcICAQC3BAAhxwIBAMIEACHSAgEAwgQAId4CAQC3BAAh4AIAAPgE4AIi4QIBAMIEACHiAgEAwgQAIeMCAQC3BAAh5AJAALoEACHlAgEAwgQAIeYCAQDCBAAh5wIIAPkEACHoAhAAzQQAIekCAQDCBAAh6gIIAPkEACHrAhAAzQQAIQIAAAAiACAIAACyAQAgFaICAQC3BAAhowIBALcEACGpAkAAugQAIcACCAC4BAAhwQIQAM0EACHCAgEAtwQAIccCAQDCBAAh0gIBAMIEACHeAgEAtwQAIeACAAD4BOACIuECAQDCBAAh4gIBAMIEACHjAgEAtwQAIeQCQAC6BAAh5QIBAMIEACHmAgEAwgQAIecCCAD5BAAh6AIQAM0EACHpAgEAwgQAIeoCCAD5BAAh6wIQAM0EACECAAAAIAAgCAAAtAEAIAIAAAAgACAIAAC0AQAgAQAAACQAIAEAAAAcACABAAAAHAAgAQAAACoAIAMAAAAiACAPAACpAQAgEAAAsgEAIAEAAAAiACABAAAAIAAgERUAAK0FACAWAACuBQAgFwAAsQUAIBgAALAFACAZAACvBQAgwQIAAL0EACDHAgAAvQQAINICAAC9BAAg4QIAAL0EACDiAgAAvQQAIOUCAAC9BAAg5gIAAL0EACDnAgAAvQQAIOgCAAC9BAAg6QIAAL0EACDqAgAAvQQAIOsCAAC9BAAgGJ8CAAD3AwAwoAIAAL8BABChAgAA9wMAMKICAQC-AwAhowIBAL4DACGpAkAAwQMAIcACCAC_AwAhwQIQANYDACHCAgEAvgMAIccCAQDMAwAh0gIBAMwDACHeAgEAvgMAIeACAAD4A-ACIuECAQDMAwAh4gIBAMwDACHjAgEAvgMAIeQCQADBAwAh5QIBAMwDACHmAgEAzAMAIecCCAD5AwAh6AIQANYDACHpAgEAzAMAIeoCCAD5AwAh6wIQANYDACEDAAAAIAAgAwAAvgEAMBQAAL8BACADAAAAIAAgAwAAIQAwBAAAIgAgCp8CAAD0AwAwoAIAAMUBABChAgAA9AMAMKICAQAAAAGpAkAA7AMAIaoCQADsAwAh2gJAAOwDACHbAgEA6wMAIdwCAAD1AwAg3QIAAPYDACABAAAAwgEAIAEAAADCAQAgCZ8CAAD0AwAwoAIAAMUBABChAgAA9AMAMKICAQDrAwAhqQJAAOwDACGqAkAA7AMAIdoCQADsAwAh2wIBAOsDACHcAgAA9QMAIAADAAAAxQEAIAMAAMYBADAEAADCAQAgAwAAAMUBACADAADGAQAwBAAAwgEAIAMAAADFAQAgAwAAxgEAMAQAAMIBACAGogIBAAAAAakCQAAAAAGqAkAAAAAB2gJAAAAAAdsCAQAAAAHcAoAAAAABAQgAAMoBACAGogIBAAAAAakCQAAAAAGqAkAAAAAB2gJAAAAAAdsCAQAAAAHcAoAAAAABAQgAAMwBADABCAAAzAEAMAaiAgEAtwQAIakCQAC6BAAhqgJAALoEACHaAkAAugQAIdsCAQC3BAAh3AKAAAAAAQIAAADCAQAgCAAAzwEAIAaiAgEAtwQAIakCQAC6BAAhqgJAALoEACHaAkAAugQAIdsCAQC3BAAh3AKAAAAAAQIAAADFAQAgCAAA0QEAIAIAAADFAQAgCAAA0QEAIAMAAADCAQAgDwAAygEAIBAAAM8BACABAAAAwgEAIAEAAADFAQAgAxUAAKoFACAYAACsBQAgGQAAqwUAIAmfAgAA8wMAMKACAADYAQAQoQIAAPMDADCiAgEAvgMAIakCQADBAwAhqgJAAMEDACHaAkAAwQMAIdsCAQC-AwAh3AIAAOcDACADAAAAxQEAIAMAANcBADAUAADYAQAgAwAAAMUBACADAADGAQAwBAAAwgEAIAEAAAA_ACABAAAAPwAgAwAAACQAIAMAAD4AMAQAAD8AIAMAAAAkACADAAA-ADAEAAA_ACADAAAAJAAgAwAAPgAwBAAAPwAgBxwAAKgFACAeAACpBQAgogIBAAAAAaMCAQAAAAGpAkAAAAAByQIBAAAAAdUCIAAAAAEBCAAA4AEAIAWiAgEAAAABowIBAAAAAakCQAAAAAHJAgEAAAAB1QIgAAAAAQEIAADiAQAwAQgAAOIBADAHHAAAmwUAIB4AAJwFACCiAgEAtwQAIaMCAQC3BAAhqQJAALoEACHJAgEAtwQAIdUCIADOBAAhAgAAAD8AIAgAAOUBACAFogIBALcEACGjAgEAtwQAIakCQAC6BAAhyQIBALcEACHVAiAAzgQAIQIAAAAkACAIAADnAQAgAgAAACQAIAgAAOcBACADAAAAPwAgDwAA4AEAIBAAAOUBACABAAAAPwAgAQAAACQAIAMVAACYBQAgGAAAmgUAIBkAAJkFACAInwIAAPIDADCgAgAA7gEAEKECAADyAwAwogIBAL4DACGjAgEAvgMAIakCQADBAwAhyQIBAL4DACHVAiAA1wMAIQMAAAAkACADAADtAQAwFAAA7gEAIAMAAAAkACADAAA-ADAEAAA_ACAKnwIAAPADADCgAgAA9AEAEKECAADwAwAwogIBAAAAAakCQADsAwAhqgJAAOwDACHWAgEAAAAB1wIBAPEDACHYAgEA8QMAIdkCQADsAwAhAQAAAPEBACABAAAA8QEAIAqfAgAA8AMAMKACAAD0AQAQoQIAAPADADCiAgEA6wMAIakCQADsAwAhqgJAAOwDACHWAgEA6wMAIdcCAQDxAwAh2AIBAPEDACHZAkAA7AMAIQLXAgAAvQQAINgCAAC9BAAgAwAAAPQBACADAAD1AQAwBAAA8QEAIAMAAAD0AQAgAwAA9QEAMAQAAPEBACADAAAA9AEAIAMAAPUBADAEAADxAQAgB6ICAQAAAAGpAkAAAAABqgJAAAAAAdYCAQAAAAHXAgEAAAAB2AIBAAAAAdkCQAAAAAEBCAAA-QEAIAeiAgEAAAABqQJAAAAAAaoCQAAAAAHWAgEAAAAB1wIBAAAAAdgCAQAAAAHZAkAAAAABAQgAAPsBADABCAAA-wEAMAeiAgEAtwQAIakCQAC6BAAhqgJAALoEACHWAgEAtwQAIdcCAQDCBAAh2AIBAMIEACHZAkAAugQAIQIAAADxAQAgCAAA_gEAIAeiAgEAtwQAIakCQAC6BAAhqgJAALoEACHWAgEAtwQAIdcCAQDCBAAh2AIBAMIEACHZAkAAugQAIQIAAAD0AQAgCAAAgAIAIAIAAAD0AQAgCAAAgAIAIAMAAADxAQAgDwAA-QEAIBAAAP4BACABAAAA8QEAIAEAAAD0AQAgBRUAAJUFACAYAACXBQAgGQAAlgUAINcCAAC9BAAg2AIAAL0EACAKnwIAAO8DADCgAgAAhwIAEKECAADvAwAwogIBAL4DACGpAkAAwQMAIaoCQADBAwAh1gIBAL4DACHXAgEAzAMAIdgCAQDMAwAh2QJAAMEDACEDAAAA9AEAIAMAAIYCADAUAACHAgAgAwAAAPQBACADAAD1AQAwBAAA8QEAIAEAAABCACABAAAAQgAgAwAAACoAIAMAAEEAMAQAAEIAIAMAAAAqACADAABBADAEAABCACADAAAAKgAgAwAAQQAwBAAAQgAgCRwAAJIFACAeAACUBQAgIwAAkwUAIKICAQAAAAGjAgEAAAABqQJAAAAAAckCAQAAAAHUAgIAAAAB1QIgAAAAAQEIAACPAgAgBqICAQAAAAGjAgEAAAABqQJAAAAAAckCAQAAAAHUAgIAAAAB1QIgAAAAAQEIAACRAgAwAQgAAJECADAJHAAA6wQAIB4AAO0EACAjAADsBAAgogIBALcEACGjAgEAtwQAIakCQAC6BAAhyQIBALcEACHUAgIAuQQAIdUCIADOBAAhAgAAAEIAIAgAAJQCACAGogIBALcEACGjAgEAtwQAIakCQAC6BAAhyQIBALcEACHUAgIAuQQAIdUCIADOBAAhAgAAACoAIAgAAJYCACACAAAAKgAgCAAAlgIAIAMAAABCACAPAACPAgAgEAAAlAIAIAEAAABCACABAAAAKgAgBRUAAOYEACAWAADnBAAgFwAA6gQAIBgAAOkEACAZAADoBAAgCZ8CAADuAwAwoAIAAJ0CABChAgAA7gMAMKICAQC-AwAhowIBAL4DACGpAkAAwQMAIckCAQC-AwAh1AICAMADACHVAiAA1wMAIQMAAAAqACADAACcAgAwFAAAnQIAIAMAAAAqACADAABBADAEAABCACABAAAALgAgAQAAAC4AIAMAAAAsACADAAAtADAEAAAuACADAAAALAAgAwAALQAwBAAALgAgAwAAACwAIAMAAC0AMAQAAC4AIAUiAADlBAAgogIBAAAAAakCQAAAAAHSAgEAAAAB0wIBAAAAAQEIAAClAgAgBKICAQAAAAGpAkAAAAAB0gIBAAAAAdMCAQAAAAEBCAAApwIAMAEIAACnAgAwBSIAAOQEACCiAgEAtwQAIakCQAC6BAAh0gIBALcEACHTAgEAtwQAIQIAAAAuACAIAACqAgAgBKICAQC3BAAhqQJAALoEACHSAgEAtwQAIdMCAQC3BAAhAgAAACwAIAgAAKwCACACAAAALAAgCAAArAIAIAMAAAAuACAPAAClAgAgEAAAqgIAIAEAAAAuACABAAAALAAgAxUAAOEEACAYAADjBAAgGQAA4gQAIAefAgAA7QMAMKACAACzAgAQoQIAAO0DADCiAgEAvgMAIakCQADBAwAh0gIBAL4DACHTAgEAvgMAIQMAAAAsACADAACyAgAwFAAAswIAIAMAAAAsACADAAAtADAEAAAuACAInwIAAOoDADCgAgAAuQIAEKECAADqAwAwogIBAAAAAaMCAQDrAwAhqQJAAOwDACG3AgEA6wMAIdECAQDrAwAhAQAAALYCACABAAAAtgIAIAifAgAA6gMAMKACAAC5AgAQoQIAAOoDADCiAgEA6wMAIaMCAQDrAwAhqQJAAOwDACG3AgEA6wMAIdECAQDrAwAhAAMAAAC5AgAgAwAAugIAMAQAALYCACADAAAAuQIAIAMAALoCADAEAAC2AgAgAwAAALkCACADAAC6AgAwBAAAtgIAIAWiAgEAAAABowIBAAAAAakCQAAAAAG3AgEAAAAB0QIBAAAAAQEIAAC-AgAgBaICAQAAAAGjAgEAAAABqQJAAAAAAbcCAQAAAAHRAgEAAAABAQgAAMACADABCAAAwAIAMAWiAgEAtwQAIaMCAQC3BAAhqQJAALoEACG3AgEAtwQAIdECAQC3BAAhAgAAALYCACAIAADDAgAgBaICAQC3BAAhowIBALcEACGpAkAAugQAIbcCAQC3BAAh0QIBALcEACECAAAAuQIAIAgAAMUCACACAAAAuQIAIAgAAMUCACADAAAAtgIAIA8AAL4CACAQAADDAgAgAQAAALYCACABAAAAuQIAIAMVAADeBAAgGAAA4AQAIBkAAN8EACAInwIAAOkDADCgAgAAzAIAEKECAADpAwAwogIBAL4DACGjAgEAvgMAIakCQADBAwAhtwIBAL4DACHRAgEAvgMAIQMAAAC5AgAgAwAAywIAMBQAAMwCACADAAAAuQIAIAMAALoCADAEAAC2AgAgAQAAAEYAIAEAAABGACADAAAARAAgAwAARQAwBAAARgAgAwAAAEQAIAMAAEUAMAQAAEYAIAMAAABEACADAABFADAEAABGACAGHAAA3QQAIKICAQAAAAGjAgEAAAABqQJAAAAAAckCAQAAAAHKAoAAAAABAQgAANQCACAFogIBAAAAAaMCAQAAAAGpAkAAAAAByQIBAAAAAcoCgAAAAAEBCAAA1gIAMAEIAADWAgAwBhwAANwEACCiAgEAtwQAIaMCAQC3BAAhqQJAALoEACHJAgEAtwQAIcoCgAAAAAECAAAARgAgCAAA2QIAIAWiAgEAtwQAIaMCAQC3BAAhqQJAALoEACHJAgEAtwQAIcoCgAAAAAECAAAARAAgCAAA2wIAIAIAAABEACAIAADbAgAgAwAAAEYAIA8AANQCACAQAADZAgAgAQAAAEYAIAEAAABEACADFQAA2QQAIBgAANsEACAZAADaBAAgCJ8CAADmAwAwoAIAAOICABChAgAA5gMAMKICAQC-AwAhowIBAL4DACGpAkAAwQMAIckCAQC-AwAhygIAAOcDACADAAAARAAgAwAA4QIAMBQAAOICACADAAAARAAgAwAARQAwBAAARgAgAQAAAEoAIAEAAABKACADAAAASAAgAwAASQAwBAAASgAgAwAAAEgAIAMAAEkAMAQAAEoAIAMAAABIACADAABJADAEAABKACAJHAAA2AQAIKICAQAAAAGjAgEAAAABpAIAAADFAgKpAkAAAAABxQIIAAAAAcYCEAAAAAHHAgEAAAAByAIgAAAAAQEIAADqAgAgCKICAQAAAAGjAgEAAAABpAIAAADFAgKpAkAAAAABxQIIAAAAAcYCEAAAAAHHAgEAAAAByAIgAAAAAQEIAADsAgAwAQgAAOwCADAJHAAA1wQAIKICAQC3BAAhowIBALcEACGkAgAA1gTFAiKpAkAAugQAIcUCCAC4BAAhxgIQAM0EACHHAgEAwgQAIcgCIADOBAAhAgAAAEoAIAgAAO8CACAIogIBALcEACGjAgEAtwQAIaQCAADWBMUCIqkCQAC6BAAhxQIIALgEACHGAhAAzQQAIccCAQDCBAAhyAIgAM4EACECAAAASAAgCAAA8QIAIAIAAABIACAIAADxAgAgAwAAAEoAIA8AAOoCACAQAADvAgAgAQAAAEoAIAEAAABIACAHFQAA0QQAIBYAANIEACAXAADVBAAgGAAA1AQAIBkAANMEACDGAgAAvQQAIMcCAAC9BAAgC58CAADiAwAwoAIAAPgCABChAgAA4gMAMKICAQC-AwAhowIBAL4DACGkAgAA4wPFAiKpAkAAwQMAIcUCCAC_AwAhxgIQANYDACHHAgEAzAMAIcgCIADXAwAhAwAAAEgAIAMAAPcCADAUAAD4AgAgAwAAAEgAIAMAAEkAMAQAAEoAIAEAAABOACABAAAATgAgAwAAAEwAIAMAAE0AMAQAAE4AIAMAAABMACADAABNADAEAABOACADAAAATAAgAwAATQAwBAAATgAgDhwAANAEACCiAgEAAAABowIBAAAAAakCQAAAAAG5AgAAALkCArsCAAAAuwICvAJAAAAAAb0CQAAAAAG-AgEAAAABvwIBAAAAAcACCAAAAAHBAhAAAAABwgIBAAAAAcMCIAAAAAEBCAAAgAMAIA2iAgEAAAABowIBAAAAAakCQAAAAAG5AgAAALkCArsCAAAAuwICvAJAAAAAAb0CQAAAAAG-AgEAAAABvwIBAAAAAcACCAAAAAHBAhAAAAABwgIBAAAAAcMCIAAAAAEBCAAAggMAMAEIAACCAwAwDhwAAM8EACCiAgEAtwQAIaMCAQC3BAAhqQJAALoEACG5AgAAygS5AiK7AgAAywS7AiK8AkAAugQAIb0CQADMBAAhvgIBAMIEACG_AgEAwgQAIcACCAC4BAAhwQIQAM0EACHCAgEAtwQAIcMCIADOBAAhAgAAAE4AIAgAAIUDACANogIBALcEACGjAgEAtwQAIakCQAC6BAAhuQIAAMoEuQIiuwIAAMsEuwIivAJAALoEACG9AkAAzAQAIb4CAQDCBAAhvwIBAMIEACHAAggAuAQAIcECEADNBAAhwgIBALcEACHDAiAAzgQAIQIAAABMACAIAACHAwAgAgAAAEwAIAgAAIcDACADAAAATgAgDwAAgAMAIBAAAIUDACABAAAATgAgAQAAAEwAIAkVAADFBAAgFgAAxgQAIBcAAMkEACAYAADIBAAgGQAAxwQAIL0CAAC9BAAgvgIAAL0EACC_AgAAvQQAIMECAAC9BAAgEJ8CAADSAwAwoAIAAI4DABChAgAA0gMAMKICAQC-AwAhowIBAL4DACGpAkAAwQMAIbkCAADTA7kCIrsCAADUA7sCIrwCQADBAwAhvQJAANUDACG-AgEAzAMAIb8CAQDMAwAhwAIIAL8DACHBAhAA1gMAIcICAQC-AwAhwwIgANcDACEDAAAATAAgAwAAjQMAMBQAAI4DACADAAAATAAgAwAATQAwBAAATgAgAQAAAFIAIAEAAABSACADAAAAUAAgAwAAUQAwBAAAUgAgAwAAAFAAIAMAAFEAMAQAAFIAIAMAAABQACADAABRADAEAABSACAGHAAAxAQAIKICAQAAAAGjAgEAAAABpAIAAAC3AgKpAkAAAAABtwIBAAAAAQEIAACWAwAgBaICAQAAAAGjAgEAAAABpAIAAAC3AgKpAkAAAAABtwIBAAAAAQEIAACYAwAwAQgAAJgDADAGHAAAwwQAIKICAQC3BAAhowIBALcEACGkAgAAwQS3AiKpAkAAugQAIbcCAQDCBAAhAgAAAFIAIAgAAJsDACAFogIBALcEACGjAgEAtwQAIaQCAADBBLcCIqkCQAC6BAAhtwIBAMIEACECAAAAUAAgCAAAnQMAIAIAAABQACAIAACdAwAgAwAAAFIAIA8AAJYDACAQAACbAwAgAQAAAFIAIAEAAABQACAEFQAAvgQAIBgAAMAEACAZAAC_BAAgtwIAAL0EACAInwIAAMoDADCgAgAApAMAEKECAADKAwAwogIBAL4DACGjAgEAvgMAIaQCAADLA7cCIqkCQADBAwAhtwIBAMwDACEDAAAAUAAgAwAAowMAMBQAAKQDACADAAAAUAAgAwAAUQAwBAAAUgAgAQAAAFYAIAEAAABWACADAAAAVAAgAwAAVQAwBAAAVgAgAwAAAFQAIAMAAFUAMAQAAFYAIAMAAABUACADAABVADAEAABWACAKHAAAvAQAIKICAQAAAAGjAgEAAAABpAIBAAAAAaUCAQAAAAGmAgEAAAABpwIIAAAAAagCAgAAAAGpAkAAAAABqgJAAAAAAQEIAACsAwAgCaICAQAAAAGjAgEAAAABpAIBAAAAAaUCAQAAAAGmAgEAAAABpwIIAAAAAagCAgAAAAGpAkAAAAABqgJAAAAAAQEIAACuAwAwAQgAAK4DADAKHAAAuwQAIKICAQC3BAAhowIBALcEACGkAgEAtwQAIaUCAQC3BAAhpgIBALcEACGnAggAuAQAIagCAgC5BAAhqQJAALoEACGqAkAAugQAIQIAAABWACAIAACxAwAgCaICAQC3BAAhowIBALcEACGkAgEAtwQAIaUCAQC3BAAhpgIBALcEACGnAggAuAQAIagCAgC5BAAhqQJAALoEACGqAkAAugQAIQIAAABUACAIAACzAwAgAgAAAFQAIAgAALMDACADAAAAVgAgDwAArAMAIBAAALEDACABAAAAVgAgAQAAAFQAIAUVAACyBAAgFgAAswQAIBcAALYEACAYAAC1BAAgGQAAtAQAIAyfAgAAvQMAMKACAAC6AwAQoQIAAL0DADCiAgEAvgMAIaMCAQC-AwAhpAIBAL4DACGlAgEAvgMAIaYCAQC-AwAhpwIIAL8DACGoAgIAwAMAIakCQADBAwAhqgJAAMEDACEDAAAAVAAgAwAAuQMAMBQAALoDACADAAAAVAAgAwAAVQAwBAAAVgAgDJ8CAAC9AwAwoAIAALoDABChAgAAvQMAMKICAQC-AwAhowIBAL4DACGkAgEAvgMAIaUCAQC-AwAhpgIBAL4DACGnAggAvwMAIagCAgDAAwAhqQJAAMEDACGqAkAAwQMAIQ4VAADDAwAgGAAAyQMAIBkAAMkDACCrAgEAAAABrAIBAAAABK0CAQAAAASuAgEAAAABrwIBAAAAAbACAQAAAAGxAgEAAAABsgIBAMgDACGzAgEAAAABtAIBAAAAAbUCAQAAAAENFQAAwwMAIBYAAMYDACAXAADGAwAgGAAAxgMAIBkAAMYDACCrAggAAAABrAIIAAAABK0CCAAAAASuAggAAAABrwIIAAAAAbACCAAAAAGxAggAAAABsgIIAMcDACENFQAAwwMAIBYAAMYDACAXAADDAwAgGAAAwwMAIBkAAMMDACCrAgIAAAABrAICAAAABK0CAgAAAASuAgIAAAABrwICAAAAAbACAgAAAAGxAgIAAAABsgICAMUDACELFQAAwwMAIBgAAMQDACAZAADEAwAgqwJAAAAAAawCQAAAAAStAkAAAAAErgJAAAAAAa8CQAAAAAGwAkAAAAABsQJAAAAAAbICQADCAwAhCxUAAMMDACAYAADEAwAgGQAAxAMAIKsCQAAAAAGsAkAAAAAErQJAAAAABK4CQAAAAAGvAkAAAAABsAJAAAAAAbECQAAAAAGyAkAAwgMAIQirAgIAAAABrAICAAAABK0CAgAAAASuAgIAAAABrwICAAAAAbACAgAAAAGxAgIAAAABsgICAMMDACEIqwJAAAAAAawCQAAAAAStAkAAAAAErgJAAAAAAa8CQAAAAAGwAkAAAAABsQJAAAAAAbICQADEAwAhDRUAAMMDACAWAADGAwAgFwAAwwMAIBgAAMMDACAZAADDAwAgqwICAAAAAawCAgAAAAStAgIAAAAErgICAAAAAa8CAgAAAAGwAgIAAAABsQICAAAAAbICAgDFAwAhCKsCCAAAAAGsAggAAAAErQIIAAAABK4CCAAAAAGvAggAAAABsAIIAAAAAbECCAAAAAGyAggAxgMAIQ0VAADDAwAgFgAAxgMAIBcAAMYDACAYAADGAwAgGQAAxgMAIKsCCAAAAAGsAggAAAAErQIIAAAABK4CCAAAAAGvAggAAAABsAIIAAAAAbECCAAAAAGyAggAxwMAIQ4VAADDAwAgGAAAyQMAIBkAAMkDACCrAgEAAAABrAIBAAAABK0CAQAAAASuAgEAAAABrwIBAAAAAbACAQAAAAGxAgEAAAABsgIBAMgDACGzAgEAAAABtAIBAAAAAbUCAQAAAAELqwIBAAAAAawCAQAAAAStAgEAAAAErgIBAAAAAa8CAQAAAAGwAgEAAAABsQIBAAAAAbICAQDJAwAhswIBAAAAAbQCAQAAAAG1AgEAAAABCJ8CAADKAwAwoAIAAKQDABChAgAAygMAMKICAQC-AwAhowIBAL4DACGkAgAAywO3AiKpAkAAwQMAIbcCAQDMAwAhBxUAAMMDACAYAADRAwAgGQAA0QMAIKsCAAAAtwICrAIAAAC3AgitAgAAALcCCLICAADQA7cCIg4VAADOAwAgGAAAzwMAIBkAAM8DACCrAgEAAAABrAIBAAAABa0CAQAAAAWuAgEAAAABrwIBAAAAAbACAQAAAAGxAgEAAAABsgIBAM0DACGzAgEAAAABtAIBAAAAAbUCAQAAAAEOFQAAzgMAIBgAAM8DACAZAADPAwAgqwIBAAAAAawCAQAAAAWtAgEAAAAFrgIBAAAAAa8CAQAAAAGwAgEAAAABsQIBAAAAAbICAQDNAwAhswIBAAAAAbQCAQAAAAG1AgEAAAABCKsCAgAAAAGsAgIAAAAFrQICAAAABa4CAgAAAAGvAgIAAAABsAICAAAAAbECAgAAAAGyAgIAzgMAIQurAgEAAAABrAIBAAAABa0CAQAAAAWuAgEAAAABrwIBAAAAAbACAQAAAAGxAgEAAAABsgIBAM8DACGzAgEAAAABtAIBAAAAAbUCAQAAAAEHFQAAwwMAIBgAANEDACAZAADRAwAgqwIAAAC3AgKsAgAAALcCCK0CAAAAtwIIsgIAANADtwIiBKsCAAAAtwICrAIAAAC3AgitAgAAALcCCLICAADRA7cCIhCfAgAA0gMAMKACAACOAwAQoQIAANIDADCiAgEAvgMAIaMCAQC-AwAhqQJAAMEDACG5AgAA0wO5AiK7AgAA1AO7AiK8AkAAwQMAIb0CQADVAwAhvgIBAMwDACG_AgEAzAMAIcACCAC_AwAhwQIQANYDACHCAgEAvgMAIcMCIADXAwAhBxUAAMMDACAYAADhAwAgGQAA4QMAIKsCAAAAuQICrAIAAAC5AgitAgAAALkCCLICAADgA7kCIgcVAADDAwAgGAAA3wMAIBkAAN8DACCrAgAAALsCAqwCAAAAuwIIrQIAAAC7AgiyAgAA3gO7AiILFQAAzgMAIBgAAN0DACAZAADdAwAgqwJAAAAAAawCQAAAAAWtAkAAAAAFrgJAAAAAAa8CQAAAAAGwAkAAAAABsQJAAAAAAbICQADcAwAhDRUAAM4DACAWAADbAwAgFwAA2wMAIBgAANsDACAZAADbAwAgqwIQAAAAAawCEAAAAAWtAhAAAAAFrgIQAAAAAa8CEAAAAAGwAhAAAAABsQIQAAAAAbICEADaAwAhBRUAAMMDACAYAADZAwAgGQAA2QMAIKsCIAAAAAGyAiAA2AMAIQUVAADDAwAgGAAA2QMAIBkAANkDACCrAiAAAAABsgIgANgDACECqwIgAAAAAbICIADZAwAhDRUAAM4DACAWAADbAwAgFwAA2wMAIBgAANsDACAZAADbAwAgqwIQAAAAAawCEAAAAAWtAhAAAAAFrgIQAAAAAa8CEAAAAAGwAhAAAAABsQIQAAAAAbICEADaAwAhCKsCEAAAAAGsAhAAAAAFrQIQAAAABa4CEAAAAAGvAhAAAAABsAIQAAAAAbECEAAAAAGyAhAA2wMAIQsVAADOAwAgGAAA3QMAIBkAAN0DACCrAkAAAAABrAJAAAAABa0CQAAAAAWuAkAAAAABrwJAAAAAAbACQAAAAAGxAkAAAAABsgJAANwDACEIqwJAAAAAAawCQAAAAAWtAkAAAAAFrgJAAAAAAa8CQAAAAAGwAkAAAAABsQJAAAAAAbICQADdAwAhBxUAAMMDACAYAADfAwAgGQAA3wMAIKsCAAAAuwICrAIAAAC7AgitAgAAALsCCLICAADeA7sCIgSrAgAAALsCAqwCAAAAuwIIrQIAAAC7AgiyAgAA3wO7AiIHFQAAwwMAIBgAAOEDACAZAADhAwAgqwIAAAC5AgKsAgAAALkCCK0CAAAAuQIIsgIAAOADuQIiBKsCAAAAuQICrAIAAAC5AgitAgAAALkCCLICAADhA7kCIgufAgAA4gMAMKACAAD4AgAQoQIAAOIDADCiAgEAvgMAIaMCAQC-AwAhpAIAAOMDxQIiqQJAAMEDACHFAggAvwMAIcYCEADWAwAhxwIBAMwDACHIAiAA1wMAIQcVAADDAwAgGAAA5QMAIBkAAOUDACCrAgAAAMUCAqwCAAAAxQIIrQIAAADFAgiyAgAA5APFAiIHFQAAwwMAIBgAAOUDACAZAADlAwAgqwIAAADFAgKsAgAAAMUCCK0CAAAAxQIIsgIAAOQDxQIiBKsCAAAAxQICrAIAAADFAgitAgAAAMUCCLICAADlA8UCIgifAgAA5gMAMKACAADiAgAQoQIAAOYDADCiAgEAvgMAIaMCAQC-AwAhqQJAAMEDACHJAgEAvgMAIcoCAADnAwAgDxUAAMMDACAYAADoAwAgGQAA6AMAIKsCgAAAAAGuAoAAAAABrwKAAAAAAbACgAAAAAGxAoAAAAABsgKAAAAAAcsCAQAAAAHMAgEAAAABzQIBAAAAAc4CgAAAAAHPAoAAAAAB0AKAAAAAAQyrAoAAAAABrgKAAAAAAa8CgAAAAAGwAoAAAAABsQKAAAAAAbICgAAAAAHLAgEAAAABzAIBAAAAAc0CAQAAAAHOAoAAAAABzwKAAAAAAdACgAAAAAEInwIAAOkDADCgAgAAzAIAEKECAADpAwAwogIBAL4DACGjAgEAvgMAIakCQADBAwAhtwIBAL4DACHRAgEAvgMAIQifAgAA6gMAMKACAAC5AgAQoQIAAOoDADCiAgEA6wMAIaMCAQDrAwAhqQJAAOwDACG3AgEA6wMAIdECAQDrAwAhC6sCAQAAAAGsAgEAAAAErQIBAAAABK4CAQAAAAGvAgEAAAABsAIBAAAAAbECAQAAAAGyAgEAyQMAIbMCAQAAAAG0AgEAAAABtQIBAAAAAQirAkAAAAABrAJAAAAABK0CQAAAAASuAkAAAAABrwJAAAAAAbACQAAAAAGxAkAAAAABsgJAAMQDACEHnwIAAO0DADCgAgAAswIAEKECAADtAwAwogIBAL4DACGpAkAAwQMAIdICAQC-AwAh0wIBAL4DACEJnwIAAO4DADCgAgAAnQIAEKECAADuAwAwogIBAL4DACGjAgEAvgMAIakCQADBAwAhyQIBAL4DACHUAgIAwAMAIdUCIADXAwAhCp8CAADvAwAwoAIAAIcCABChAgAA7wMAMKICAQC-AwAhqQJAAMEDACGqAkAAwQMAIdYCAQC-AwAh1wIBAMwDACHYAgEAzAMAIdkCQADBAwAhCp8CAADwAwAwoAIAAPQBABChAgAA8AMAMKICAQDrAwAhqQJAAOwDACGqAkAA7AMAIdYCAQDrAwAh1wIBAPEDACHYAgEA8QMAIdkCQADsAwAhC6sCAQAAAAGsAgEAAAAFrQIBAAAABa4CAQAAAAGvAgEAAAABsAIBAAAAAbECAQAAAAGyAgEAzwMAIbMCAQAAAAG0AgEAAAABtQIBAAAAAQifAgAA8gMAMKACAADuAQAQoQIAAPIDADCiAgEAvgMAIaMCAQC-AwAhqQJAAMEDACHJAgEAvgMAIdUCIADXAwAhCZ8CAADzAwAwoAIAANgBABChAgAA8wMAMKICAQC-AwAhqQJAAMEDACGqAkAAwQMAIdoCQADBAwAh2wIBAL4DACHcAgAA5wMAIAmfAgAA9AMAMKACAADFAQAQoQIAAPQDADCiAgEA6wMAIakCQADsAwAhqgJAAOwDACHaAkAA7AMAIdsCAQDrAwAh3AIAAPUDACAMqwKAAAAAAa4CgAAAAAGvAoAAAAABsAKAAAAAAbECgAAAAAGyAoAAAAABywIBAAAAAcwCAQAAAAHNAgEAAAABzgKAAAAAAc8CgAAAAAHQAoAAAAABAtoCQAAAAAHbAgEAAAABGJ8CAAD3AwAwoAIAAL8BABChAgAA9wMAMKICAQC-AwAhowIBAL4DACGpAkAAwQMAIcACCAC_AwAhwQIQANYDACHCAgEAvgMAIccCAQDMAwAh0gIBAMwDACHeAgEAvgMAIeACAAD4A-ACIuECAQDMAwAh4gIBAMwDACHjAgEAvgMAIeQCQADBAwAh5QIBAMwDACHmAgEAzAMAIecCCAD5AwAh6AIQANYDACHpAgEAzAMAIeoCCAD5AwAh6wIQANYDACEHFQAAwwMAIBgAAP0DACAZAAD9AwAgqwIAAADgAgKsAgAAAOACCK0CAAAA4AIIsgIAAPwD4AIiDRUAAM4DACAWAAD7AwAgFwAA-wMAIBgAAPsDACAZAAD7AwAgqwIIAAAAAawCCAAAAAWtAggAAAAFrgIIAAAAAa8CCAAAAAGwAggAAAABsQIIAAAAAbICCAD6AwAhDRUAAM4DACAWAAD7AwAgFwAA-wMAIBgAAPsDACAZAAD7AwAgqwIIAAAAAawCCAAAAAWtAggAAAAFrgIIAAAAAa8CCAAAAAGwAggAAAABsQIIAAAAAbICCAD6AwAhCKsCCAAAAAGsAggAAAAFrQIIAAAABa4CCAAAAAGvAggAAAABsAIIAAAAAbECCAAAAAGyAggA-wMAIQcVAADDAwAgGAAA_QMAIBkAAP0DACCrAgAAAOACAqwCAAAA4AIIrQIAAADgAgiyAgAA_APgAiIEqwIAAADgAgKsAgAAAOACCK0CAAAA4AIIsgIAAP0D4AIiCJ8CAAD-AwAwoAIAAKEBABChAgAA_gMAMKICAQC-AwAhwAIIAL8DACHBAhAA1gMAIcICAQC-AwAh3gIBAL4DACEKnwIAAP8DADCgAgAAiwEAEKECAAD_AwAwogIBAL4DACGjAgEAvgMAIaQCAACABO0CIqkCQADBAwAhwgIBAL4DACHJAgEAvgMAIe0CIADXAwAhBxUAAMMDACAYAACCBAAgGQAAggQAIKsCAAAA7QICrAIAAADtAgitAgAAAO0CCLICAACBBO0CIgcVAADDAwAgGAAAggQAIBkAAIIEACCrAgAAAO0CAqwCAAAA7QIIrQIAAADtAgiyAgAAgQTtAiIEqwIAAADtAgKsAgAAAO0CCK0CAAAA7QIIsgIAAIIE7QIiEZ8CAACDBAAwoAIAAHUAEKECAACDBAAwogIBAL4DACGpAkAAwQMAIdYCAQC-AwAh2AIBAMwDACHuAgEAzAMAIe8CAQDMAwAh8AIBAL4DACHxAgEAvgMAIfICIADXAwAh8wJAANUDACH0AiAA1wMAIfUCAQDMAwAh9gJAANUDACH3AkAA1QMAIRoeAACIBAAgJwAAhwQAICgAAIkEACApAACKBAAgKgAAiwQAICsAAIwEACAsAACNBAAgLQAAjgQAIC4AAI8EACCfAgAAhAQAMKACAABiABChAgAAhAQAMKICAQDrAwAhqQJAAOwDACHWAgEA6wMAIdgCAQDxAwAh7gIBAPEDACHvAgEA8QMAIfACAQDrAwAh8QIBAOsDACHyAiAAhQQAIfMCQACGBAAh9AIgAIUEACH1AgEA8QMAIfYCQACGBAAh9wJAAIYEACECqwIgAAAAAbICIADZAwAhCKsCQAAAAAGsAkAAAAAFrQJAAAAABa4CQAAAAAGvAkAAAAABsAJAAAAAAbECQAAAAAGyAkAA3QMAIQP4AgAAHAAg-QIAABwAIPoCAAAcACAD-AIAACAAIPkCAAAgACD6AgAAIAAgA_gCAAAkACD5AgAAJAAg-gIAACQAIAP4AgAAKgAg-QIAACoAIPoCAAAqACAD-AIAAEQAIPkCAABEACD6AgAARAAgA_gCAABIACD5AgAASAAg-gIAAEgAIAP4AgAATAAg-QIAAEwAIPoCAABMACAD-AIAAFAAIPkCAABQACD6AgAAUAAgA_gCAABUACD5AgAAVAAg-gIAAFQAIAOjAgEAAAABpAIBAAAAAaUCAQAAAAENHAAAlAQAIJ8CAACRBAAwoAIAAFQAEKECAACRBAAwogIBAOsDACGjAgEA6wMAIaQCAQDrAwAhpQIBAOsDACGmAgEA6wMAIacCCACSBAAhqAICAJMEACGpAkAA7AMAIaoCQADsAwAhCKsCCAAAAAGsAggAAAAErQIIAAAABK4CCAAAAAGvAggAAAABsAIIAAAAAbECCAAAAAGyAggAxgMAIQirAgIAAAABrAICAAAABK0CAgAAAASuAgIAAAABrwICAAAAAbACAgAAAAGxAgIAAAABsgICAMMDACEcHgAAiAQAICcAAIcEACAoAACJBAAgKQAAigQAICoAAIsEACArAACMBAAgLAAAjQQAIC0AAI4EACAuAACPBAAgnwIAAIQEADCgAgAAYgAQoQIAAIQEADCiAgEA6wMAIakCQADsAwAh1gIBAOsDACHYAgEA8QMAIe4CAQDxAwAh7wIBAPEDACHwAgEA6wMAIfECAQDrAwAh8gIgAIUEACHzAkAAhgQAIfQCIACFBAAh9QIBAPEDACH2AkAAhgQAIfcCQACGBAAhgQMAAGIAIIIDAABiACAJHAAAlAQAIJ8CAACVBAAwoAIAAFAAEKECAACVBAAwogIBAOsDACGjAgEA6wMAIaQCAACWBLcCIqkCQADsAwAhtwIBAPEDACEEqwIAAAC3AgKsAgAAALcCCK0CAAAAtwIIsgIAANEDtwIiERwAAJQEACCfAgAAlwQAMKACAABMABChAgAAlwQAMKICAQDrAwAhowIBAOsDACGpAkAA7AMAIbkCAACYBLkCIrsCAACZBLsCIrwCQADsAwAhvQJAAIYEACG-AgEA8QMAIb8CAQDxAwAhwAIIAJIEACHBAhAAmgQAIcICAQDrAwAhwwIgAIUEACEEqwIAAAC5AgKsAgAAALkCCK0CAAAAuQIIsgIAAOEDuQIiBKsCAAAAuwICrAIAAAC7AgitAgAAALsCCLICAADfA7sCIgirAhAAAAABrAIQAAAABa0CEAAAAAWuAhAAAAABrwIQAAAAAbACEAAAAAGxAhAAAAABsgIQANsDACEMHAAAlAQAIJ8CAACbBAAwoAIAAEgAEKECAACbBAAwogIBAOsDACGjAgEA6wMAIaQCAACcBMUCIqkCQADsAwAhxQIIAJIEACHGAhAAmgQAIccCAQDxAwAhyAIgAIUEACEEqwIAAADFAgKsAgAAAMUCCK0CAAAAxQIIsgIAAOUDxQIiCRwAAJQEACCfAgAAnQQAMKACAABEABChAgAAnQQAMKICAQDrAwAhowIBAOsDACGpAkAA7AMAIckCAQDrAwAhygIAAPUDACACowIBAAAAAckCAQAAAAEMHAAAlAQAIB4AAIgEACAjAACgBAAgnwIAAJ8EADCgAgAAKgAQoQIAAJ8EADCiAgEA6wMAIaMCAQDrAwAhqQJAAOwDACHJAgEA6wMAIdQCAgCTBAAh1QIgAIUEACED-AIAACwAIPkCAAAsACD6AgAALAAgChwAAJQEACAeAACIBAAgnwIAAKEEADCgAgAAJAAQoQIAAKEEADCiAgEA6wMAIaMCAQDrAwAhqQJAAOwDACHJAgEA6wMAIdUCIACFBAAhAsICAQAAAAHeAgEAAAABCR0AAKQEACCfAgAAowQAMKACAAA1ABChAgAAowQAMKICAQDrAwAhwAIIAJIEACHBAhAAmgQAIcICAQDrAwAh3gIBAOsDACERHAAAlAQAIB4AAIgEACAkAACIBAAgJQAAiAQAICYAAK8EACCfAgAArQQAMKACAAAcABChAgAArQQAMKICAQDrAwAhowIBAOsDACGkAgAArgTtAiKpAkAA7AMAIcICAQDrAwAhyQIBAOsDACHtAiAAhQQAIYEDAAAcACCCAwAAHAAgCCIAAKYEACCfAgAApQQAMKACAAAsABChAgAApQQAMKICAQDrAwAhqQJAAOwDACHSAgEA6wMAIdMCAQDrAwAhDhwAAJQEACAeAACIBAAgIwAAoAQAIJ8CAACfBAAwoAIAACoAEKECAACfBAAwogIBAOsDACGjAgEA6wMAIakCQADsAwAhyQIBAOsDACHUAgIAkwQAIdUCIACFBAAhgQMAACoAIIIDAAAqACAeHAAAlAQAIB0AAKQEACAfAACqBAAgIAAAqwQAICEAAKsEACAiAACsBAAgnwIAAKcEADCgAgAAIAAQoQIAAKcEADCiAgEA6wMAIaMCAQDrAwAhqQJAAOwDACHAAggAkgQAIcECEACaBAAhwgIBAOsDACHHAgEA8QMAIdICAQDxAwAh3gIBAOsDACHgAgAAqATgAiLhAgEA8QMAIeICAQDxAwAh4wIBAOsDACHkAkAA7AMAIeUCAQDxAwAh5gIBAPEDACHnAggAqQQAIegCEACaBAAh6QIBAPEDACHqAggAqQQAIesCEACaBAAhBKsCAAAA4AICrAIAAADgAgitAgAAAOACCLICAAD9A-ACIgirAggAAAABrAIIAAAABa0CCAAAAAWuAggAAAABrwIIAAAAAbACCAAAAAGxAggAAAABsgIIAPsDACEMHAAAlAQAIB4AAIgEACCfAgAAoQQAMKACAAAkABChAgAAoQQAMKICAQDrAwAhowIBAOsDACGpAkAA7AMAIckCAQDrAwAh1QIgAIUEACGBAwAAJAAgggMAACQAIBEcAACUBAAgHgAAiAQAICQAAIgEACAlAACIBAAgJgAArwQAIJ8CAACtBAAwoAIAABwAEKECAACtBAAwogIBAOsDACGjAgEA6wMAIaQCAACuBO0CIqkCQADsAwAhwgIBAOsDACHJAgEA6wMAIe0CIACFBAAhgQMAABwAIIIDAAAcACAOHAAAlAQAIB4AAIgEACAjAACgBAAgnwIAAJ8EADCgAgAAKgAQoQIAAJ8EADCiAgEA6wMAIaMCAQDrAwAhqQJAAOwDACHJAgEA6wMAIdQCAgCTBAAh1QIgAIUEACGBAwAAKgAgggMAACoAIA8cAACUBAAgHgAAiAQAICQAAIgEACAlAACIBAAgJgAArwQAIJ8CAACtBAAwoAIAABwAEKECAACtBAAwogIBAOsDACGjAgEA6wMAIaQCAACuBO0CIqkCQADsAwAhwgIBAOsDACHJAgEA6wMAIe0CIACFBAAhBKsCAAAA7QICrAIAAADtAgitAgAAAO0CCLICAACCBO0CIgP4AgAANQAg-QIAADUAIPoCAAA1ACAHnwIAALAEADCgAgAAFwAQoQIAALAEADCkAgEAvgMAIf4CAQC-AwAh_wIBAMwDACGAAwIAwAMAIQefAgAAsQQAMKACAAAEABChAgAAsQQAMKQCAQDrAwAh_gIBAOsDACH_AgEA8QMAIYADAgCTBAAhAAAAAAABhgMBAAAAAQWGAwgAAAABjAMIAAAAAY0DCAAAAAGOAwgAAAABjwMIAAAAAQWGAwIAAAABjAMCAAAAAY0DAgAAAAGOAwIAAAABjwMCAAAAAQGGA0AAAAABBQ8AANsHACAQAADeBwAggwMAANwHACCEAwAA3QcAIIkDAAAaACADDwAA2wcAIIMDAADcBwAgiQMAABoAIAAAAAABhgMAAAC3AgIBhgMBAAAAAQUPAADWBwAgEAAA2QcAIIMDAADXBwAghAMAANgHACCJAwAAGgAgAw8AANYHACCDAwAA1wcAIIkDAAAaACAAAAAAAAGGAwAAALkCAgGGAwAAALsCAgGGA0AAAAABBYYDEAAAAAGMAxAAAAABjQMQAAAAAY4DEAAAAAGPAxAAAAABAYYDIAAAAAEFDwAA0QcAIBAAANQHACCDAwAA0gcAIIQDAADTBwAgiQMAABoAIAMPAADRBwAggwMAANIHACCJAwAAGgAgAAAAAAABhgMAAADFAgIFDwAAzAcAIBAAAM8HACCDAwAAzQcAIIQDAADOBwAgiQMAABoAIAMPAADMBwAggwMAAM0HACCJAwAAGgAgAAAABQ8AAMcHACAQAADKBwAggwMAAMgHACCEAwAAyQcAIIkDAAAaACADDwAAxwcAIIMDAADIBwAgiQMAABoAIAAAAAAAAAUPAADCBwAgEAAAxQcAIIMDAADDBwAghAMAAMQHACCJAwAAQgAgAw8AAMIHACCDAwAAwwcAIIkDAABCACAAAAAAAAUPAACiBwAgEAAAwAcAIIMDAACjBwAghAMAAL8HACCJAwAAGgAgCw8AAIYFADAQAACLBQAwgwMAAIcFADCEAwAAiAUAMIUDAACJBQAghgMAAIoFADCHAwAAigUAMIgDAACKBQAwiQMAAIoFADCKAwAAjAUAMIsDAACNBQAwCw8AAO4EADAQAADzBAAwgwMAAO8EADCEAwAA8AQAMIUDAADxBAAghgMAAPIEADCHAwAA8gQAMIgDAADyBAAwiQMAAPIEADCKAwAA9AQAMIsDAAD1BAAwGRwAAIMFACAdAACBBQAgHwAAggUAICAAAIQFACAhAACFBQAgogIBAAAAAaMCAQAAAAGpAkAAAAABwAIIAAAAAcECEAAAAAHCAgEAAAABxwIBAAAAAd4CAQAAAAHgAgAAAOACAuECAQAAAAHiAgEAAAAB4wIBAAAAAeQCQAAAAAHlAgEAAAAB5gIBAAAAAecCCAAAAAHoAhAAAAAB6QIBAAAAAeoCCAAAAAHrAhAAAAABAgAAACIAIA8AAIAFACADAAAAIgAgDwAAgAUAIBAAAPoEACABCAAAvgcAMB4cAACUBAAgHQAApAQAIB8AAKoEACAgAACrBAAgIQAAqwQAICIAAKwEACCfAgAApwQAMKACAAAgABChAgAApwQAMKICAQAAAAGjAgEA6wMAIakCQADsAwAhwAIIAJIEACHBAhAAmgQAIcICAQDrAwAhxwIBAPEDACHSAgEA8QMAId4CAQDrAwAh4AIAAKgE4AIi4QIBAPEDACHiAgEA8QMAIeMCAQDrAwAh5AJAAOwDACHlAgEA8QMAIeYCAQDxAwAh5wIIAKkEACHoAhAAmgQAIekCAQDxAwAh6gIIAKkEACHrAhAAmgQAIQIAAAAiACAIAAD6BAAgAgAAAPYEACAIAAD3BAAgGJ8CAAD1BAAwoAIAAPYEABChAgAA9QQAMKICAQDrAwAhowIBAOsDACGpAkAA7AMAIcACCACSBAAhwQIQAJoEACHCAgEA6wMAIccCAQDxAwAh0gIBAPEDACHeAgEA6wMAIeACAACoBOACIuECAQDxAwAh4gIBAPEDACHjAgEA6wMAIeQCQADsAwAh5QIBAPEDACHmAgEA8QMAIecCCACpBAAh6AIQAJoEACHpAgEA8QMAIeoCCACpBAAh6wIQAJoEACEYnwIAAPUEADCgAgAA9gQAEKECAAD1BAAwogIBAOsDACGjAgEA6wMAIakCQADsAwAhwAIIAJIEACHBAhAAmgQAIcICAQDrAwAhxwIBAPEDACHSAgEA8QMAId4CAQDrAwAh4AIAAKgE4AIi4QIBAPEDACHiAgEA8QMAIeMCAQDrAwAh5AJAAOwDACHlAgEA8QMAIeYCAQDxAwAh5wIIAKkEACHoAhAAmgQAIekCAQDxAwAh6gIIAKkEACHrAhAAmgQAIRSiAgEAtwQAIaMCAQC3BAAhqQJAALoEACHAAggAuAQAIcECEADNBAAhwgIBALcEACHHAgEAwgQAId4CAQC3BAAh4AIAAPgE4AIi4QIBAMIEACHiAgEAwgQAIeMCAQC3BAAh5AJAALoEACHlAgEAwgQAIeYCAQDCBAAh5wIIAPkEACHoAhAAzQQAIekCAQDCBAAh6gIIAPkEACHrAhAAzQQAIQGGAwAAAOACAgWGAwgAAAABjAMIAAAAAY0DCAAAAAGOAwgAAAABjwMIAAAAARkcAAD9BAAgHQAA-wQAIB8AAPwEACAgAAD-BAAgIQAA_wQAIKICAQC3BAAhowIBALcEACGpAkAAugQAIcACCAC4BAAhwQIQAM0EACHCAgEAtwQAIccCAQDCBAAh3gIBALcEACHgAgAA-ATgAiLhAgEAwgQAIeICAQDCBAAh4wIBALcEACHkAkAAugQAIeUCAQDCBAAh5gIBAMIEACHnAggA-QQAIegCEADNBAAh6QIBAMIEACHqAggA-QQAIesCEADNBAAhBQ8AAK0HACAQAAC8BwAggwMAAK4HACCEAwAAuwcAIIkDAAAeACAHDwAAqwcAIBAAALkHACCDAwAArAcAIIQDAAC4BwAghwMAACQAIIgDAAAkACCJAwAAPwAgBQ8AAKkHACAQAAC2BwAggwMAAKoHACCEAwAAtQcAIIkDAAAaACAHDwAApwcAIBAAALMHACCDAwAAqAcAIIQDAACyBwAghwMAABwAIIgDAAAcACCJAwAAHgAgBw8AAKUHACAQAACwBwAggwMAAKYHACCEAwAArwcAIIcDAAAcACCIAwAAHAAgiQMAAB4AIBkcAACDBQAgHQAAgQUAIB8AAIIFACAgAACEBQAgIQAAhQUAIKICAQAAAAGjAgEAAAABqQJAAAAAAcACCAAAAAHBAhAAAAABwgIBAAAAAccCAQAAAAHeAgEAAAAB4AIAAADgAgLhAgEAAAAB4gIBAAAAAeMCAQAAAAHkAkAAAAAB5QIBAAAAAeYCAQAAAAHnAggAAAAB6AIQAAAAAekCAQAAAAHqAggAAAAB6wIQAAAAAQMPAACtBwAggwMAAK4HACCJAwAAHgAgAw8AAKsHACCDAwAArAcAIIkDAAA_ACADDwAAqQcAIIMDAACqBwAgiQMAABoAIAMPAACnBwAggwMAAKgHACCJAwAAHgAgAw8AAKUHACCDAwAApgcAIIkDAAAeACADogIBAAAAAakCQAAAAAHTAgEAAAABAgAAAC4AIA8AAJEFACADAAAALgAgDwAAkQUAIBAAAJAFACABCAAApAcAMAgiAACmBAAgnwIAAKUEADCgAgAALAAQoQIAAKUEADCiAgEAAAABqQJAAOwDACHSAgEA6wMAIdMCAQDrAwAhAgAAAC4AIAgAAJAFACACAAAAjgUAIAgAAI8FACAHnwIAAI0FADCgAgAAjgUAEKECAACNBQAwogIBAOsDACGpAkAA7AMAIdICAQDrAwAh0wIBAOsDACEHnwIAAI0FADCgAgAAjgUAEKECAACNBQAwogIBAOsDACGpAkAA7AMAIdICAQDrAwAh0wIBAOsDACEDogIBALcEACGpAkAAugQAIdMCAQC3BAAhA6ICAQC3BAAhqQJAALoEACHTAgEAtwQAIQOiAgEAAAABqQJAAAAAAdMCAQAAAAEDDwAAogcAIIMDAACjBwAgiQMAABoAIAQPAACGBQAwgwMAAIcFADCFAwAAiQUAIIkDAACKBQAwBA8AAO4EADCDAwAA7wQAMIUDAADxBAAgiQMAAPIEADAAAAAAAAAFDwAAlwcAIBAAAKAHACCDAwAAmAcAIIQDAACfBwAgiQMAABoAIAsPAACdBQAwEAAAoQUAMIMDAACeBQAwhAMAAJ8FADCFAwAAoAUAIIYDAADyBAAwhwMAAPIEADCIAwAA8gQAMIkDAADyBAAwigMAAKIFADCLAwAA9QQAMBkcAACDBQAgHQAAgQUAICAAAIQFACAhAACFBQAgIgAApwUAIKICAQAAAAGjAgEAAAABqQJAAAAAAcACCAAAAAHBAhAAAAABwgIBAAAAAdICAQAAAAHeAgEAAAAB4AIAAADgAgLhAgEAAAAB4gIBAAAAAeMCAQAAAAHkAkAAAAAB5QIBAAAAAeYCAQAAAAHnAggAAAAB6AIQAAAAAekCAQAAAAHqAggAAAAB6wIQAAAAAQIAAAAiACAPAACmBQAgAwAAACIAIA8AAKYFACAQAACkBQAgAQgAAJ4HADACAAAAIgAgCAAApAUAIAIAAAD2BAAgCAAAowUAIBSiAgEAtwQAIaMCAQC3BAAhqQJAALoEACHAAggAuAQAIcECEADNBAAhwgIBALcEACHSAgEAwgQAId4CAQC3BAAh4AIAAPgE4AIi4QIBAMIEACHiAgEAwgQAIeMCAQC3BAAh5AJAALoEACHlAgEAwgQAIeYCAQDCBAAh5wIIAPkEACHoAhAAzQQAIekCAQDCBAAh6gIIAPkEACHrAhAAzQQAIRkcAAD9BAAgHQAA-wQAICAAAP4EACAhAAD_BAAgIgAApQUAIKICAQC3BAAhowIBALcEACGpAkAAugQAIcACCAC4BAAhwQIQAM0EACHCAgEAtwQAIdICAQDCBAAh3gIBALcEACHgAgAA-ATgAiLhAgEAwgQAIeICAQDCBAAh4wIBALcEACHkAkAAugQAIeUCAQDCBAAh5gIBAMIEACHnAggA-QQAIegCEADNBAAh6QIBAMIEACHqAggA-QQAIesCEADNBAAhBw8AAJkHACAQAACcBwAggwMAAJoHACCEAwAAmwcAIIcDAAAqACCIAwAAKgAgiQMAAEIAIBkcAACDBQAgHQAAgQUAICAAAIQFACAhAACFBQAgIgAApwUAIKICAQAAAAGjAgEAAAABqQJAAAAAAcACCAAAAAHBAhAAAAABwgIBAAAAAdICAQAAAAHeAgEAAAAB4AIAAADgAgLhAgEAAAAB4gIBAAAAAeMCAQAAAAHkAkAAAAAB5QIBAAAAAeYCAQAAAAHnAggAAAAB6AIQAAAAAekCAQAAAAHqAggAAAAB6wIQAAAAAQMPAACZBwAggwMAAJoHACCJAwAAQgAgAw8AAJcHACCDAwAAmAcAIIkDAAAaACAEDwAAnQUAMIMDAACeBQAwhQMAAKAFACCJAwAA8gQAMAAAAAAAAAAAAAAAAAAFDwAAkgcAIBAAAJUHACCDAwAAkwcAIIQDAACUBwAgiQMAAB4AIAMPAACSBwAggwMAAJMHACCJAwAAHgAgAAAAAYYDAAAA7QICBQ8AAIkHACAQAACQBwAggwMAAIoHACCEAwAAjwcAIIkDAAAaACALDwAA4AUAMBAAAOQFADCDAwAA4QUAMIQDAADiBQAwhQMAAOMFACCGAwAA8gQAMIcDAADyBAAwiAMAAPIEADCJAwAA8gQAMIoDAADlBQAwiwMAAPUEADALDwAA1wUAMBAAANsFADCDAwAA2AUAMIQDAADZBQAwhQMAANoFACCGAwAA8gQAMIcDAADyBAAwiAMAAPIEADCJAwAA8gQAMIoDAADcBQAwiwMAAPUEADALDwAAzgUAMBAAANIFADCDAwAAzwUAMIQDAADQBQAwhQMAANEFACCGAwAA8gQAMIcDAADyBAAwiAMAAPIEADCJAwAA8gQAMIoDAADTBQAwiwMAAPUEADALDwAAwgUAMBAAAMcFADCDAwAAwwUAMIQDAADEBQAwhQMAAMUFACCGAwAAxgUAMIcDAADGBQAwiAMAAMYFADCJAwAAxgUAMIoDAADIBQAwiwMAAMkFADAEogIBAAAAAcACCAAAAAHBAhAAAAABwgIBAAAAAQIAAAA3ACAPAADNBQAgAwAAADcAIA8AAM0FACAQAADMBQAgAQgAAI4HADAKHQAApAQAIJ8CAACjBAAwoAIAADUAEKECAACjBAAwogIBAAAAAcACCACSBAAhwQIQAJoEACHCAgEA6wMAId4CAQDrAwAh_QIAAKIEACACAAAANwAgCAAAzAUAIAIAAADKBQAgCAAAywUAIAifAgAAyQUAMKACAADKBQAQoQIAAMkFADCiAgEA6wMAIcACCACSBAAhwQIQAJoEACHCAgEA6wMAId4CAQDrAwAhCJ8CAADJBQAwoAIAAMoFABChAgAAyQUAMKICAQDrAwAhwAIIAJIEACHBAhAAmgQAIcICAQDrAwAh3gIBAOsDACEEogIBALcEACHAAggAuAQAIcECEADNBAAhwgIBALcEACEEogIBALcEACHAAggAuAQAIcECEADNBAAhwgIBALcEACEEogIBAAAAAcACCAAAAAHBAhAAAAABwgIBAAAAARkcAACDBQAgHQAAgQUAIB8AAIIFACAgAACEBQAgIgAApwUAIKICAQAAAAGjAgEAAAABqQJAAAAAAcACCAAAAAHBAhAAAAABwgIBAAAAAccCAQAAAAHSAgEAAAAB3gIBAAAAAeACAAAA4AIC4QIBAAAAAeICAQAAAAHjAgEAAAAB5AJAAAAAAeUCAQAAAAHnAggAAAAB6AIQAAAAAekCAQAAAAHqAggAAAAB6wIQAAAAAQIAAAAiACAPAADWBQAgAwAAACIAIA8AANYFACAQAADVBQAgAQgAAI0HADACAAAAIgAgCAAA1QUAIAIAAAD2BAAgCAAA1AUAIBSiAgEAtwQAIaMCAQC3BAAhqQJAALoEACHAAggAuAQAIcECEADNBAAhwgIBALcEACHHAgEAwgQAIdICAQDCBAAh3gIBALcEACHgAgAA-ATgAiLhAgEAwgQAIeICAQDCBAAh4wIBALcEACHkAkAAugQAIeUCAQDCBAAh5wIIAPkEACHoAhAAzQQAIekCAQDCBAAh6gIIAPkEACHrAhAAzQQAIRkcAAD9BAAgHQAA-wQAIB8AAPwEACAgAAD-BAAgIgAApQUAIKICAQC3BAAhowIBALcEACGpAkAAugQAIcACCAC4BAAhwQIQAM0EACHCAgEAtwQAIccCAQDCBAAh0gIBAMIEACHeAgEAtwQAIeACAAD4BOACIuECAQDCBAAh4gIBAMIEACHjAgEAtwQAIeQCQAC6BAAh5QIBAMIEACHnAggA-QQAIegCEADNBAAh6QIBAMIEACHqAggA-QQAIesCEADNBAAhGRwAAIMFACAdAACBBQAgHwAAggUAICAAAIQFACAiAACnBQAgogIBAAAAAaMCAQAAAAGpAkAAAAABwAIIAAAAAcECEAAAAAHCAgEAAAABxwIBAAAAAdICAQAAAAHeAgEAAAAB4AIAAADgAgLhAgEAAAAB4gIBAAAAAeMCAQAAAAHkAkAAAAAB5QIBAAAAAecCCAAAAAHoAhAAAAAB6QIBAAAAAeoCCAAAAAHrAhAAAAABGRwAAIMFACAdAACBBQAgHwAAggUAICEAAIUFACAiAACnBQAgogIBAAAAAaMCAQAAAAGpAkAAAAABwAIIAAAAAcECEAAAAAHCAgEAAAABxwIBAAAAAdICAQAAAAHeAgEAAAAB4AIAAADgAgLhAgEAAAAB4gIBAAAAAeMCAQAAAAHkAkAAAAAB5gIBAAAAAecCCAAAAAHoAhAAAAAB6QIBAAAAAeoCCAAAAAHrAhAAAAABAgAAACIAIA8AAN8FACADAAAAIgAgDwAA3wUAIBAAAN4FACABCAAAjAcAMAIAAAAiACAIAADeBQAgAgAAAPYEACAIAADdBQAgFKICAQC3BAAhowIBALcEACGpAkAAugQAIcACCAC4BAAhwQIQAM0EACHCAgEAtwQAIccCAQDCBAAh0gIBAMIEACHeAgEAtwQAIeACAAD4BOACIuECAQDCBAAh4gIBAMIEACHjAgEAtwQAIeQCQAC6BAAh5gIBAMIEACHnAggA-QQAIegCEADNBAAh6QIBAMIEACHqAggA-QQAIesCEADNBAAhGRwAAP0EACAdAAD7BAAgHwAA_AQAICEAAP8EACAiAAClBQAgogIBALcEACGjAgEAtwQAIakCQAC6BAAhwAIIALgEACHBAhAAzQQAIcICAQC3BAAhxwIBAMIEACHSAgEAwgQAId4CAQC3BAAh4AIAAPgE4AIi4QIBAMIEACHiAgEAwgQAIeMCAQC3BAAh5AJAALoEACHmAgEAwgQAIecCCAD5BAAh6AIQAM0EACHpAgEAwgQAIeoCCAD5BAAh6wIQAM0EACEZHAAAgwUAIB0AAIEFACAfAACCBQAgIQAAhQUAICIAAKcFACCiAgEAAAABowIBAAAAAakCQAAAAAHAAggAAAABwQIQAAAAAcICAQAAAAHHAgEAAAAB0gIBAAAAAd4CAQAAAAHgAgAAAOACAuECAQAAAAHiAgEAAAAB4wIBAAAAAeQCQAAAAAHmAgEAAAAB5wIIAAAAAegCEAAAAAHpAgEAAAAB6gIIAAAAAesCEAAAAAEZHAAAgwUAIB8AAIIFACAgAACEBQAgIQAAhQUAICIAAKcFACCiAgEAAAABowIBAAAAAakCQAAAAAHAAggAAAABwQIQAAAAAcICAQAAAAHHAgEAAAAB0gIBAAAAAeACAAAA4AIC4QIBAAAAAeICAQAAAAHjAgEAAAAB5AJAAAAAAeUCAQAAAAHmAgEAAAAB5wIIAAAAAegCEAAAAAHpAgEAAAAB6gIIAAAAAesCEAAAAAECAAAAIgAgDwAA6AUAIAMAAAAiACAPAADoBQAgEAAA5wUAIAEIAACLBwAwAgAAACIAIAgAAOcFACACAAAA9gQAIAgAAOYFACAUogIBALcEACGjAgEAtwQAIakCQAC6BAAhwAIIALgEACHBAhAAzQQAIcICAQC3BAAhxwIBAMIEACHSAgEAwgQAIeACAAD4BOACIuECAQDCBAAh4gIBAMIEACHjAgEAtwQAIeQCQAC6BAAh5QIBAMIEACHmAgEAwgQAIecCCAD5BAAh6AIQAM0EACHpAgEAwgQAIeoCCAD5BAAh6wIQAM0EACEZHAAA_QQAIB8AAPwEACAgAAD-BAAgIQAA_wQAICIAAKUFACCiAgEAtwQAIaMCAQC3BAAhqQJAALoEACHAAggAuAQAIcECEADNBAAhwgIBALcEACHHAgEAwgQAIdICAQDCBAAh4AIAAPgE4AIi4QIBAMIEACHiAgEAwgQAIeMCAQC3BAAh5AJAALoEACHlAgEAwgQAIeYCAQDCBAAh5wIIAPkEACHoAhAAzQQAIekCAQDCBAAh6gIIAPkEACHrAhAAzQQAIRkcAACDBQAgHwAAggUAICAAAIQFACAhAACFBQAgIgAApwUAIKICAQAAAAGjAgEAAAABqQJAAAAAAcACCAAAAAHBAhAAAAABwgIBAAAAAccCAQAAAAHSAgEAAAAB4AIAAADgAgLhAgEAAAAB4gIBAAAAAeMCAQAAAAHkAkAAAAAB5QIBAAAAAeYCAQAAAAHnAggAAAAB6AIQAAAAAekCAQAAAAHqAggAAAAB6wIQAAAAAQMPAACJBwAggwMAAIoHACCJAwAAGgAgBA8AAOAFADCDAwAA4QUAMIUDAADjBQAgiQMAAPIEADAEDwAA1wUAMIMDAADYBQAwhQMAANoFACCJAwAA8gQAMAQPAADOBQAwgwMAAM8FADCFAwAA0QUAIIkDAADyBAAwBA8AAMIFADCDAwAAwwUAMIUDAADFBQAgiQMAAMYFADAAAAALDwAA1wYAMBAAANwGADCDAwAA2AYAMIQDAADZBgAwhQMAANoGACCGAwAA2wYAMIcDAADbBgAwiAMAANsGADCJAwAA2wYAMIoDAADdBgAwiwMAAN4GADALDwAAzgYAMBAAANIGADCDAwAAzwYAMIQDAADQBgAwhQMAANEGACCGAwAA8gQAMIcDAADyBAAwiAMAAPIEADCJAwAA8gQAMIoDAADTBgAwiwMAAPUEADALDwAAwgYAMBAAAMcGADCDAwAAwwYAMIQDAADEBgAwhQMAAMUGACCGAwAAxgYAMIcDAADGBgAwiAMAAMYGADCJAwAAxgYAMIoDAADIBgAwiwMAAMkGADALDwAAtgYAMBAAALsGADCDAwAAtwYAMIQDAAC4BgAwhQMAALkGACCGAwAAugYAMIcDAAC6BgAwiAMAALoGADCJAwAAugYAMIoDAAC8BgAwiwMAAL0GADALDwAAqgYAMBAAAK8GADCDAwAAqwYAMIQDAACsBgAwhQMAAK0GACCGAwAArgYAMIcDAACuBgAwiAMAAK4GADCJAwAArgYAMIoDAACwBgAwiwMAALEGADALDwAAngYAMBAAAKMGADCDAwAAnwYAMIQDAACgBgAwhQMAAKEGACCGAwAAogYAMIcDAACiBgAwiAMAAKIGADCJAwAAogYAMIoDAACkBgAwiwMAAKUGADALDwAAkgYAMBAAAJcGADCDAwAAkwYAMIQDAACUBgAwhQMAAJUGACCGAwAAlgYAMIcDAACWBgAwiAMAAJYGADCJAwAAlgYAMIoDAACYBgAwiwMAAJkGADALDwAAhgYAMBAAAIsGADCDAwAAhwYAMIQDAACIBgAwhQMAAIkGACCGAwAAigYAMIcDAACKBgAwiAMAAIoGADCJAwAAigYAMIoDAACMBgAwiwMAAI0GADALDwAA-gUAMBAAAP8FADCDAwAA-wUAMIQDAAD8BQAwhQMAAP0FACCGAwAA_gUAMIcDAAD-BQAwiAMAAP4FADCJAwAA_gUAMIoDAACABgAwiwMAAIEGADAIogIBAAAAAaQCAQAAAAGlAgEAAAABpgIBAAAAAacCCAAAAAGoAgIAAAABqQJAAAAAAaoCQAAAAAECAAAAVgAgDwAAhQYAIAMAAABWACAPAACFBgAgEAAAhAYAIAEIAACIBwAwDhwAAJQEACCfAgAAkQQAMKACAABUABChAgAAkQQAMKICAQAAAAGjAgEA6wMAIaQCAQDrAwAhpQIBAOsDACGmAgEA6wMAIacCCACSBAAhqAICAJMEACGpAkAA7AMAIaoCQADsAwAh-wIAAJAEACACAAAAVgAgCAAAhAYAIAIAAACCBgAgCAAAgwYAIAyfAgAAgQYAMKACAACCBgAQoQIAAIEGADCiAgEA6wMAIaMCAQDrAwAhpAIBAOsDACGlAgEA6wMAIaYCAQDrAwAhpwIIAJIEACGoAgIAkwQAIakCQADsAwAhqgJAAOwDACEMnwIAAIEGADCgAgAAggYAEKECAACBBgAwogIBAOsDACGjAgEA6wMAIaQCAQDrAwAhpQIBAOsDACGmAgEA6wMAIacCCACSBAAhqAICAJMEACGpAkAA7AMAIaoCQADsAwAhCKICAQC3BAAhpAIBALcEACGlAgEAtwQAIaYCAQC3BAAhpwIIALgEACGoAgIAuQQAIakCQAC6BAAhqgJAALoEACEIogIBALcEACGkAgEAtwQAIaUCAQC3BAAhpgIBALcEACGnAggAuAQAIagCAgC5BAAhqQJAALoEACGqAkAAugQAIQiiAgEAAAABpAIBAAAAAaUCAQAAAAGmAgEAAAABpwIIAAAAAagCAgAAAAGpAkAAAAABqgJAAAAAAQSiAgEAAAABpAIAAAC3AgKpAkAAAAABtwIBAAAAAQIAAABSACAPAACRBgAgAwAAAFIAIA8AAJEGACAQAACQBgAgAQgAAIcHADAJHAAAlAQAIJ8CAACVBAAwoAIAAFAAEKECAACVBAAwogIBAAAAAaMCAQDrAwAhpAIAAJYEtwIiqQJAAOwDACG3AgEA8QMAIQIAAABSACAIAACQBgAgAgAAAI4GACAIAACPBgAgCJ8CAACNBgAwoAIAAI4GABChAgAAjQYAMKICAQDrAwAhowIBAOsDACGkAgAAlgS3AiKpAkAA7AMAIbcCAQDxAwAhCJ8CAACNBgAwoAIAAI4GABChAgAAjQYAMKICAQDrAwAhowIBAOsDACGkAgAAlgS3AiKpAkAA7AMAIbcCAQDxAwAhBKICAQC3BAAhpAIAAMEEtwIiqQJAALoEACG3AgEAwgQAIQSiAgEAtwQAIaQCAADBBLcCIqkCQAC6BAAhtwIBAMIEACEEogIBAAAAAaQCAAAAtwICqQJAAAAAAbcCAQAAAAEMogIBAAAAAakCQAAAAAG5AgAAALkCArsCAAAAuwICvAJAAAAAAb0CQAAAAAG-AgEAAAABvwIBAAAAAcACCAAAAAHBAhAAAAABwgIBAAAAAcMCIAAAAAECAAAATgAgDwAAnQYAIAMAAABOACAPAACdBgAgEAAAnAYAIAEIAACGBwAwERwAAJQEACCfAgAAlwQAMKACAABMABChAgAAlwQAMKICAQAAAAGjAgEA6wMAIakCQADsAwAhuQIAAJgEuQIiuwIAAJkEuwIivAJAAOwDACG9AkAAhgQAIb4CAQAAAAG_AgEA8QMAIcACCACSBAAhwQIQAJoEACHCAgEA6wMAIcMCIACFBAAhAgAAAE4AIAgAAJwGACACAAAAmgYAIAgAAJsGACAQnwIAAJkGADCgAgAAmgYAEKECAACZBgAwogIBAOsDACGjAgEA6wMAIakCQADsAwAhuQIAAJgEuQIiuwIAAJkEuwIivAJAAOwDACG9AkAAhgQAIb4CAQDxAwAhvwIBAPEDACHAAggAkgQAIcECEACaBAAhwgIBAOsDACHDAiAAhQQAIRCfAgAAmQYAMKACAACaBgAQoQIAAJkGADCiAgEA6wMAIaMCAQDrAwAhqQJAAOwDACG5AgAAmAS5AiK7AgAAmQS7AiK8AkAA7AMAIb0CQACGBAAhvgIBAPEDACG_AgEA8QMAIcACCACSBAAhwQIQAJoEACHCAgEA6wMAIcMCIACFBAAhDKICAQC3BAAhqQJAALoEACG5AgAAygS5AiK7AgAAywS7AiK8AkAAugQAIb0CQADMBAAhvgIBAMIEACG_AgEAwgQAIcACCAC4BAAhwQIQAM0EACHCAgEAtwQAIcMCIADOBAAhDKICAQC3BAAhqQJAALoEACG5AgAAygS5AiK7AgAAywS7AiK8AkAAugQAIb0CQADMBAAhvgIBAMIEACG_AgEAwgQAIcACCAC4BAAhwQIQAM0EACHCAgEAtwQAIcMCIADOBAAhDKICAQAAAAGpAkAAAAABuQIAAAC5AgK7AgAAALsCArwCQAAAAAG9AkAAAAABvgIBAAAAAb8CAQAAAAHAAggAAAABwQIQAAAAAcICAQAAAAHDAiAAAAABB6ICAQAAAAGkAgAAAMUCAqkCQAAAAAHFAggAAAABxgIQAAAAAccCAQAAAAHIAiAAAAABAgAAAEoAIA8AAKkGACADAAAASgAgDwAAqQYAIBAAAKgGACABCAAAhQcAMAwcAACUBAAgnwIAAJsEADCgAgAASAAQoQIAAJsEADCiAgEAAAABowIBAOsDACGkAgAAnATFAiKpAkAA7AMAIcUCCACSBAAhxgIQAJoEACHHAgEA8QMAIcgCIACFBAAhAgAAAEoAIAgAAKgGACACAAAApgYAIAgAAKcGACALnwIAAKUGADCgAgAApgYAEKECAAClBgAwogIBAOsDACGjAgEA6wMAIaQCAACcBMUCIqkCQADsAwAhxQIIAJIEACHGAhAAmgQAIccCAQDxAwAhyAIgAIUEACELnwIAAKUGADCgAgAApgYAEKECAAClBgAwogIBAOsDACGjAgEA6wMAIaQCAACcBMUCIqkCQADsAwAhxQIIAJIEACHGAhAAmgQAIccCAQDxAwAhyAIgAIUEACEHogIBALcEACGkAgAA1gTFAiKpAkAAugQAIcUCCAC4BAAhxgIQAM0EACHHAgEAwgQAIcgCIADOBAAhB6ICAQC3BAAhpAIAANYExQIiqQJAALoEACHFAggAuAQAIcYCEADNBAAhxwIBAMIEACHIAiAAzgQAIQeiAgEAAAABpAIAAADFAgKpAkAAAAABxQIIAAAAAcYCEAAAAAHHAgEAAAAByAIgAAAAAQSiAgEAAAABqQJAAAAAAckCAQAAAAHKAoAAAAABAgAAAEYAIA8AALUGACADAAAARgAgDwAAtQYAIBAAALQGACABCAAAhAcAMAkcAACUBAAgnwIAAJ0EADCgAgAARAAQoQIAAJ0EADCiAgEAAAABowIBAOsDACGpAkAA7AMAIckCAQDrAwAhygIAAPUDACACAAAARgAgCAAAtAYAIAIAAACyBgAgCAAAswYAIAifAgAAsQYAMKACAACyBgAQoQIAALEGADCiAgEA6wMAIaMCAQDrAwAhqQJAAOwDACHJAgEA6wMAIcoCAAD1AwAgCJ8CAACxBgAwoAIAALIGABChAgAAsQYAMKICAQDrAwAhowIBAOsDACGpAkAA7AMAIckCAQDrAwAhygIAAPUDACAEogIBALcEACGpAkAAugQAIckCAQC3BAAhygKAAAAAAQSiAgEAtwQAIakCQAC6BAAhyQIBALcEACHKAoAAAAABBKICAQAAAAGpAkAAAAAByQIBAAAAAcoCgAAAAAEHHgAAlAUAICMAAJMFACCiAgEAAAABqQJAAAAAAckCAQAAAAHUAgIAAAAB1QIgAAAAAQIAAABCACAPAADBBgAgAwAAAEIAIA8AAMEGACAQAADABgAgAQgAAIMHADANHAAAlAQAIB4AAIgEACAjAACgBAAgnwIAAJ8EADCgAgAAKgAQoQIAAJ8EADCiAgEAAAABowIBAOsDACGpAkAA7AMAIckCAQDrAwAh1AICAJMEACHVAiAAhQQAIfwCAACeBAAgAgAAAEIAIAgAAMAGACACAAAAvgYAIAgAAL8GACAJnwIAAL0GADCgAgAAvgYAEKECAAC9BgAwogIBAOsDACGjAgEA6wMAIakCQADsAwAhyQIBAOsDACHUAgIAkwQAIdUCIACFBAAhCZ8CAAC9BgAwoAIAAL4GABChAgAAvQYAMKICAQDrAwAhowIBAOsDACGpAkAA7AMAIckCAQDrAwAh1AICAJMEACHVAiAAhQQAIQWiAgEAtwQAIakCQAC6BAAhyQIBALcEACHUAgIAuQQAIdUCIADOBAAhBx4AAO0EACAjAADsBAAgogIBALcEACGpAkAAugQAIckCAQC3BAAh1AICALkEACHVAiAAzgQAIQceAACUBQAgIwAAkwUAIKICAQAAAAGpAkAAAAAByQIBAAAAAdQCAgAAAAHVAiAAAAABBR4AAKkFACCiAgEAAAABqQJAAAAAAckCAQAAAAHVAiAAAAABAgAAAD8AIA8AAM0GACADAAAAPwAgDwAAzQYAIBAAAMwGACABCAAAggcAMAocAACUBAAgHgAAiAQAIJ8CAAChBAAwoAIAACQAEKECAAChBAAwogIBAAAAAaMCAQDrAwAhqQJAAOwDACHJAgEA6wMAIdUCIACFBAAhAgAAAD8AIAgAAMwGACACAAAAygYAIAgAAMsGACAInwIAAMkGADCgAgAAygYAEKECAADJBgAwogIBAOsDACGjAgEA6wMAIakCQADsAwAhyQIBAOsDACHVAiAAhQQAIQifAgAAyQYAMKACAADKBgAQoQIAAMkGADCiAgEA6wMAIaMCAQDrAwAhqQJAAOwDACHJAgEA6wMAIdUCIACFBAAhBKICAQC3BAAhqQJAALoEACHJAgEAtwQAIdUCIADOBAAhBR4AAJwFACCiAgEAtwQAIakCQAC6BAAhyQIBALcEACHVAiAAzgQAIQUeAACpBQAgogIBAAAAAakCQAAAAAHJAgEAAAAB1QIgAAAAARkdAACBBQAgHwAAggUAICAAAIQFACAhAACFBQAgIgAApwUAIKICAQAAAAGpAkAAAAABwAIIAAAAAcECEAAAAAHCAgEAAAABxwIBAAAAAdICAQAAAAHeAgEAAAAB4AIAAADgAgLhAgEAAAAB4gIBAAAAAeMCAQAAAAHkAkAAAAAB5QIBAAAAAeYCAQAAAAHnAggAAAAB6AIQAAAAAekCAQAAAAHqAggAAAAB6wIQAAAAAQIAAAAiACAPAADWBgAgAwAAACIAIA8AANYGACAQAADVBgAgAQgAAIEHADACAAAAIgAgCAAA1QYAIAIAAAD2BAAgCAAA1AYAIBSiAgEAtwQAIakCQAC6BAAhwAIIALgEACHBAhAAzQQAIcICAQC3BAAhxwIBAMIEACHSAgEAwgQAId4CAQC3BAAh4AIAAPgE4AIi4QIBAMIEACHiAgEAwgQAIeMCAQC3BAAh5AJAALoEACHlAgEAwgQAIeYCAQDCBAAh5wIIAPkEACHoAhAAzQQAIekCAQDCBAAh6gIIAPkEACHrAhAAzQQAIRkdAAD7BAAgHwAA_AQAICAAAP4EACAhAAD_BAAgIgAApQUAIKICAQC3BAAhqQJAALoEACHAAggAuAQAIcECEADNBAAhwgIBALcEACHHAgEAwgQAIdICAQDCBAAh3gIBALcEACHgAgAA-ATgAiLhAgEAwgQAIeICAQDCBAAh4wIBALcEACHkAkAAugQAIeUCAQDCBAAh5gIBAMIEACHnAggA-QQAIegCEADNBAAh6QIBAMIEACHqAggA-QQAIesCEADNBAAhGR0AAIEFACAfAACCBQAgIAAAhAUAICEAAIUFACAiAACnBQAgogIBAAAAAakCQAAAAAHAAggAAAABwQIQAAAAAcICAQAAAAHHAgEAAAAB0gIBAAAAAd4CAQAAAAHgAgAAAOACAuECAQAAAAHiAgEAAAAB4wIBAAAAAeQCQAAAAAHlAgEAAAAB5gIBAAAAAecCCAAAAAHoAhAAAAAB6QIBAAAAAeoCCAAAAAHrAhAAAAABCh4AAOoFACAkAADrBQAgJQAA7AUAICYAAO0FACCiAgEAAAABpAIAAADtAgKpAkAAAAABwgIBAAAAAckCAQAAAAHtAiAAAAABAgAAAB4AIA8AAOIGACADAAAAHgAgDwAA4gYAIBAAAOEGACABCAAAgAcAMA8cAACUBAAgHgAAiAQAICQAAIgEACAlAACIBAAgJgAArwQAIJ8CAACtBAAwoAIAABwAEKECAACtBAAwogIBAAAAAaMCAQDrAwAhpAIAAK4E7QIiqQJAAOwDACHCAgEA6wMAIckCAQDrAwAh7QIgAIUEACECAAAAHgAgCAAA4QYAIAIAAADfBgAgCAAA4AYAIAqfAgAA3gYAMKACAADfBgAQoQIAAN4GADCiAgEA6wMAIaMCAQDrAwAhpAIAAK4E7QIiqQJAAOwDACHCAgEA6wMAIckCAQDrAwAh7QIgAIUEACEKnwIAAN4GADCgAgAA3wYAEKECAADeBgAwogIBAOsDACGjAgEA6wMAIaQCAACuBO0CIqkCQADsAwAhwgIBAOsDACHJAgEA6wMAIe0CIACFBAAhBqICAQC3BAAhpAIAALwF7QIiqQJAALoEACHCAgEAtwQAIckCAQC3BAAh7QIgAM4EACEKHgAAvgUAICQAAL8FACAlAADABQAgJgAAwQUAIKICAQC3BAAhpAIAALwF7QIiqQJAALoEACHCAgEAtwQAIckCAQC3BAAh7QIgAM4EACEKHgAA6gUAICQAAOsFACAlAADsBQAgJgAA7QUAIKICAQAAAAGkAgAAAO0CAqkCQAAAAAHCAgEAAAAByQIBAAAAAe0CIAAAAAEEDwAA1wYAMIMDAADYBgAwhQMAANoGACCJAwAA2wYAMAQPAADOBgAwgwMAAM8GADCFAwAA0QYAIIkDAADyBAAwBA8AAMIGADCDAwAAwwYAMIUDAADFBgAgiQMAAMYGADAEDwAAtgYAMIMDAAC3BgAwhQMAALkGACCJAwAAugYAMAQPAACqBgAwgwMAAKsGADCFAwAArQYAIIkDAACuBgAwBA8AAJ4GADCDAwAAnwYAMIUDAAChBgAgiQMAAKIGADAEDwAAkgYAMIMDAACTBgAwhQMAAJUGACCJAwAAlgYAMAQPAACGBgAwgwMAAIcGADCFAwAAiQYAIIkDAACKBgAwBA8AAPoFADCDAwAA-wUAMIUDAAD9BQAgiQMAAP4FADAAAAAAAAAAAAAQHgAA7QYAICcAAOwGACAoAADuBgAgKQAA7wYAICoAAPAGACArAADxBgAgLAAA8gYAIC0AAPMGACAuAAD0BgAg2AIAAL0EACDuAgAAvQQAIO8CAAC9BAAg8wIAAL0EACD1AgAAvQQAIPYCAAC9BAAg9wIAAL0EACAABRwAAPUGACAeAADtBgAgJAAA7QYAICUAAO0GACAmAAD6BgAgAxwAAPUGACAeAADtBgAgIwAA9gYAIAIcAAD1BgAgHgAA7QYAIAAAAAAAAAaiAgEAAAABpAIAAADtAgKpAkAAAAABwgIBAAAAAckCAQAAAAHtAiAAAAABFKICAQAAAAGpAkAAAAABwAIIAAAAAcECEAAAAAHCAgEAAAABxwIBAAAAAdICAQAAAAHeAgEAAAAB4AIAAADgAgLhAgEAAAAB4gIBAAAAAeMCAQAAAAHkAkAAAAAB5QIBAAAAAeYCAQAAAAHnAggAAAAB6AIQAAAAAekCAQAAAAHqAggAAAAB6wIQAAAAAQSiAgEAAAABqQJAAAAAAckCAQAAAAHVAiAAAAABBaICAQAAAAGpAkAAAAAByQIBAAAAAdQCAgAAAAHVAiAAAAABBKICAQAAAAGpAkAAAAAByQIBAAAAAcoCgAAAAAEHogIBAAAAAaQCAAAAxQICqQJAAAAAAcUCCAAAAAHGAhAAAAABxwIBAAAAAcgCIAAAAAEMogIBAAAAAakCQAAAAAG5AgAAALkCArsCAAAAuwICvAJAAAAAAb0CQAAAAAG-AgEAAAABvwIBAAAAAcACCAAAAAHBAhAAAAABwgIBAAAAAcMCIAAAAAEEogIBAAAAAaQCAAAAtwICqQJAAAAAAbcCAQAAAAEIogIBAAAAAaQCAQAAAAGlAgEAAAABpgIBAAAAAacCCAAAAAGoAgIAAAABqQJAAAAAAaoCQAAAAAEWHgAA5AYAICgAAOUGACApAADmBgAgKgAA5wYAICsAAOgGACAsAADpBgAgLQAA6gYAIC4AAOsGACCiAgEAAAABqQJAAAAAAdYCAQAAAAHYAgEAAAAB7gIBAAAAAe8CAQAAAAHwAgEAAAAB8QIBAAAAAfICIAAAAAHzAkAAAAAB9AIgAAAAAfUCAQAAAAH2AkAAAAAB9wJAAAAAAQIAAAAaACAPAACJBwAgFKICAQAAAAGjAgEAAAABqQJAAAAAAcACCAAAAAHBAhAAAAABwgIBAAAAAccCAQAAAAHSAgEAAAAB4AIAAADgAgLhAgEAAAAB4gIBAAAAAeMCAQAAAAHkAkAAAAAB5QIBAAAAAeYCAQAAAAHnAggAAAAB6AIQAAAAAekCAQAAAAHqAggAAAAB6wIQAAAAARSiAgEAAAABowIBAAAAAakCQAAAAAHAAggAAAABwQIQAAAAAcICAQAAAAHHAgEAAAAB0gIBAAAAAd4CAQAAAAHgAgAAAOACAuECAQAAAAHiAgEAAAAB4wIBAAAAAeQCQAAAAAHmAgEAAAAB5wIIAAAAAegCEAAAAAHpAgEAAAAB6gIIAAAAAesCEAAAAAEUogIBAAAAAaMCAQAAAAGpAkAAAAABwAIIAAAAAcECEAAAAAHCAgEAAAABxwIBAAAAAdICAQAAAAHeAgEAAAAB4AIAAADgAgLhAgEAAAAB4gIBAAAAAeMCAQAAAAHkAkAAAAAB5QIBAAAAAecCCAAAAAHoAhAAAAAB6QIBAAAAAeoCCAAAAAHrAhAAAAABBKICAQAAAAHAAggAAAABwQIQAAAAAcICAQAAAAEDAAAAYgAgDwAAiQcAIBAAAJEHACAYAAAAYgAgCAAAkQcAIB4AAPIFACAoAADzBQAgKQAA9AUAICoAAPUFACArAAD2BQAgLAAA9wUAIC0AAPgFACAuAAD5BQAgogIBALcEACGpAkAAugQAIdYCAQC3BAAh2AIBAMIEACHuAgEAwgQAIe8CAQDCBAAh8AIBALcEACHxAgEAtwQAIfICIADOBAAh8wJAAMwEACH0AiAAzgQAIfUCAQDCBAAh9gJAAMwEACH3AkAAzAQAIRYeAADyBQAgKAAA8wUAICkAAPQFACAqAAD1BQAgKwAA9gUAICwAAPcFACAtAAD4BQAgLgAA-QUAIKICAQC3BAAhqQJAALoEACHWAgEAtwQAIdgCAQDCBAAh7gIBAMIEACHvAgEAwgQAIfACAQC3BAAh8QIBALcEACHyAiAAzgQAIfMCQADMBAAh9AIgAM4EACH1AgEAwgQAIfYCQADMBAAh9wJAAMwEACELHAAA6QUAIB4AAOoFACAkAADrBQAgJQAA7AUAIKICAQAAAAGjAgEAAAABpAIAAADtAgKpAkAAAAABwgIBAAAAAckCAQAAAAHtAiAAAAABAgAAAB4AIA8AAJIHACADAAAAHAAgDwAAkgcAIBAAAJYHACANAAAAHAAgCAAAlgcAIBwAAL0FACAeAAC-BQAgJAAAvwUAICUAAMAFACCiAgEAtwQAIaMCAQC3BAAhpAIAALwF7QIiqQJAALoEACHCAgEAtwQAIckCAQC3BAAh7QIgAM4EACELHAAAvQUAIB4AAL4FACAkAAC_BQAgJQAAwAUAIKICAQC3BAAhowIBALcEACGkAgAAvAXtAiKpAkAAugQAIcICAQC3BAAhyQIBALcEACHtAiAAzgQAIRYeAADkBgAgJwAA4wYAICkAAOYGACAqAADnBgAgKwAA6AYAICwAAOkGACAtAADqBgAgLgAA6wYAIKICAQAAAAGpAkAAAAAB1gIBAAAAAdgCAQAAAAHuAgEAAAAB7wIBAAAAAfACAQAAAAHxAgEAAAAB8gIgAAAAAfMCQAAAAAH0AiAAAAAB9QIBAAAAAfYCQAAAAAH3AkAAAAABAgAAABoAIA8AAJcHACAIHAAAkgUAICMAAJMFACCiAgEAAAABowIBAAAAAakCQAAAAAHJAgEAAAAB1AICAAAAAdUCIAAAAAECAAAAQgAgDwAAmQcAIAMAAAAqACAPAACZBwAgEAAAnQcAIAoAAAAqACAIAACdBwAgHAAA6wQAICMAAOwEACCiAgEAtwQAIaMCAQC3BAAhqQJAALoEACHJAgEAtwQAIdQCAgC5BAAh1QIgAM4EACEIHAAA6wQAICMAAOwEACCiAgEAtwQAIaMCAQC3BAAhqQJAALoEACHJAgEAtwQAIdQCAgC5BAAh1QIgAM4EACEUogIBAAAAAaMCAQAAAAGpAkAAAAABwAIIAAAAAcECEAAAAAHCAgEAAAAB0gIBAAAAAd4CAQAAAAHgAgAAAOACAuECAQAAAAHiAgEAAAAB4wIBAAAAAeQCQAAAAAHlAgEAAAAB5gIBAAAAAecCCAAAAAHoAhAAAAAB6QIBAAAAAeoCCAAAAAHrAhAAAAABAwAAAGIAIA8AAJcHACAQAAChBwAgGAAAAGIAIAgAAKEHACAeAADyBQAgJwAA8QUAICkAAPQFACAqAAD1BQAgKwAA9gUAICwAAPcFACAtAAD4BQAgLgAA-QUAIKICAQC3BAAhqQJAALoEACHWAgEAtwQAIdgCAQDCBAAh7gIBAMIEACHvAgEAwgQAIfACAQC3BAAh8QIBALcEACHyAiAAzgQAIfMCQADMBAAh9AIgAM4EACH1AgEAwgQAIfYCQADMBAAh9wJAAMwEACEWHgAA8gUAICcAAPEFACApAAD0BQAgKgAA9QUAICsAAPYFACAsAAD3BQAgLQAA-AUAIC4AAPkFACCiAgEAtwQAIakCQAC6BAAh1gIBALcEACHYAgEAwgQAIe4CAQDCBAAh7wIBAMIEACHwAgEAtwQAIfECAQC3BAAh8gIgAM4EACHzAkAAzAQAIfQCIADOBAAh9QIBAMIEACH2AkAAzAQAIfcCQADMBAAhFh4AAOQGACAnAADjBgAgKAAA5QYAICoAAOcGACArAADoBgAgLAAA6QYAIC0AAOoGACAuAADrBgAgogIBAAAAAakCQAAAAAHWAgEAAAAB2AIBAAAAAe4CAQAAAAHvAgEAAAAB8AIBAAAAAfECAQAAAAHyAiAAAAAB8wJAAAAAAfQCIAAAAAH1AgEAAAAB9gJAAAAAAfcCQAAAAAECAAAAGgAgDwAAogcAIAOiAgEAAAABqQJAAAAAAdMCAQAAAAELHAAA6QUAIB4AAOoFACAkAADrBQAgJgAA7QUAIKICAQAAAAGjAgEAAAABpAIAAADtAgKpAkAAAAABwgIBAAAAAckCAQAAAAHtAiAAAAABAgAAAB4AIA8AAKUHACALHAAA6QUAIB4AAOoFACAlAADsBQAgJgAA7QUAIKICAQAAAAGjAgEAAAABpAIAAADtAgKpAkAAAAABwgIBAAAAAckCAQAAAAHtAiAAAAABAgAAAB4AIA8AAKcHACAWJwAA4wYAICgAAOUGACApAADmBgAgKgAA5wYAICsAAOgGACAsAADpBgAgLQAA6gYAIC4AAOsGACCiAgEAAAABqQJAAAAAAdYCAQAAAAHYAgEAAAAB7gIBAAAAAe8CAQAAAAHwAgEAAAAB8QIBAAAAAfICIAAAAAHzAkAAAAAB9AIgAAAAAfUCAQAAAAH2AkAAAAAB9wJAAAAAAQIAAAAaACAPAACpBwAgBhwAAKgFACCiAgEAAAABowIBAAAAAakCQAAAAAHJAgEAAAAB1QIgAAAAAQIAAAA_ACAPAACrBwAgCxwAAOkFACAkAADrBQAgJQAA7AUAICYAAO0FACCiAgEAAAABowIBAAAAAaQCAAAA7QICqQJAAAAAAcICAQAAAAHJAgEAAAAB7QIgAAAAAQIAAAAeACAPAACtBwAgAwAAABwAIA8AAKUHACAQAACxBwAgDQAAABwAIAgAALEHACAcAAC9BQAgHgAAvgUAICQAAL8FACAmAADBBQAgogIBALcEACGjAgEAtwQAIaQCAAC8Be0CIqkCQAC6BAAhwgIBALcEACHJAgEAtwQAIe0CIADOBAAhCxwAAL0FACAeAAC-BQAgJAAAvwUAICYAAMEFACCiAgEAtwQAIaMCAQC3BAAhpAIAALwF7QIiqQJAALoEACHCAgEAtwQAIckCAQC3BAAh7QIgAM4EACEDAAAAHAAgDwAApwcAIBAAALQHACANAAAAHAAgCAAAtAcAIBwAAL0FACAeAAC-BQAgJQAAwAUAICYAAMEFACCiAgEAtwQAIaMCAQC3BAAhpAIAALwF7QIiqQJAALoEACHCAgEAtwQAIckCAQC3BAAh7QIgAM4EACELHAAAvQUAIB4AAL4FACAlAADABQAgJgAAwQUAIKICAQC3BAAhowIBALcEACGkAgAAvAXtAiKpAkAAugQAIcICAQC3BAAhyQIBALcEACHtAiAAzgQAIQMAAABiACAPAACpBwAgEAAAtwcAIBgAAABiACAIAAC3BwAgJwAA8QUAICgAAPMFACApAAD0BQAgKgAA9QUAICsAAPYFACAsAAD3BQAgLQAA-AUAIC4AAPkFACCiAgEAtwQAIakCQAC6BAAh1gIBALcEACHYAgEAwgQAIe4CAQDCBAAh7wIBAMIEACHwAgEAtwQAIfECAQC3BAAh8gIgAM4EACHzAkAAzAQAIfQCIADOBAAh9QIBAMIEACH2AkAAzAQAIfcCQADMBAAhFicAAPEFACAoAADzBQAgKQAA9AUAICoAAPUFACArAAD2BQAgLAAA9wUAIC0AAPgFACAuAAD5BQAgogIBALcEACGpAkAAugQAIdYCAQC3BAAh2AIBAMIEACHuAgEAwgQAIe8CAQDCBAAh8AIBALcEACHxAgEAtwQAIfICIADOBAAh8wJAAMwEACH0AiAAzgQAIfUCAQDCBAAh9gJAAMwEACH3AkAAzAQAIQMAAAAkACAPAACrBwAgEAAAugcAIAgAAAAkACAIAAC6BwAgHAAAmwUAIKICAQC3BAAhowIBALcEACGpAkAAugQAIckCAQC3BAAh1QIgAM4EACEGHAAAmwUAIKICAQC3BAAhowIBALcEACGpAkAAugQAIckCAQC3BAAh1QIgAM4EACEDAAAAHAAgDwAArQcAIBAAAL0HACANAAAAHAAgCAAAvQcAIBwAAL0FACAkAAC_BQAgJQAAwAUAICYAAMEFACCiAgEAtwQAIaMCAQC3BAAhpAIAALwF7QIiqQJAALoEACHCAgEAtwQAIckCAQC3BAAh7QIgAM4EACELHAAAvQUAICQAAL8FACAlAADABQAgJgAAwQUAIKICAQC3BAAhowIBALcEACGkAgAAvAXtAiKpAkAAugQAIcICAQC3BAAhyQIBALcEACHtAiAAzgQAIRSiAgEAAAABowIBAAAAAakCQAAAAAHAAggAAAABwQIQAAAAAcICAQAAAAHHAgEAAAAB3gIBAAAAAeACAAAA4AIC4QIBAAAAAeICAQAAAAHjAgEAAAAB5AJAAAAAAeUCAQAAAAHmAgEAAAAB5wIIAAAAAegCEAAAAAHpAgEAAAAB6gIIAAAAAesCEAAAAAEDAAAAYgAgDwAAogcAIBAAAMEHACAYAAAAYgAgCAAAwQcAIB4AAPIFACAnAADxBQAgKAAA8wUAICoAAPUFACArAAD2BQAgLAAA9wUAIC0AAPgFACAuAAD5BQAgogIBALcEACGpAkAAugQAIdYCAQC3BAAh2AIBAMIEACHuAgEAwgQAIe8CAQDCBAAh8AIBALcEACHxAgEAtwQAIfICIADOBAAh8wJAAMwEACH0AiAAzgQAIfUCAQDCBAAh9gJAAMwEACH3AkAAzAQAIRYeAADyBQAgJwAA8QUAICgAAPMFACAqAAD1BQAgKwAA9gUAICwAAPcFACAtAAD4BQAgLgAA-QUAIKICAQC3BAAhqQJAALoEACHWAgEAtwQAIdgCAQDCBAAh7gIBAMIEACHvAgEAwgQAIfACAQC3BAAh8QIBALcEACHyAiAAzgQAIfMCQADMBAAh9AIgAM4EACH1AgEAwgQAIfYCQADMBAAh9wJAAMwEACEIHAAAkgUAIB4AAJQFACCiAgEAAAABowIBAAAAAakCQAAAAAHJAgEAAAAB1AICAAAAAdUCIAAAAAECAAAAQgAgDwAAwgcAIAMAAAAqACAPAADCBwAgEAAAxgcAIAoAAAAqACAIAADGBwAgHAAA6wQAIB4AAO0EACCiAgEAtwQAIaMCAQC3BAAhqQJAALoEACHJAgEAtwQAIdQCAgC5BAAh1QIgAM4EACEIHAAA6wQAIB4AAO0EACCiAgEAtwQAIaMCAQC3BAAhqQJAALoEACHJAgEAtwQAIdQCAgC5BAAh1QIgAM4EACEWHgAA5AYAICcAAOMGACAoAADlBgAgKQAA5gYAICsAAOgGACAsAADpBgAgLQAA6gYAIC4AAOsGACCiAgEAAAABqQJAAAAAAdYCAQAAAAHYAgEAAAAB7gIBAAAAAe8CAQAAAAHwAgEAAAAB8QIBAAAAAfICIAAAAAHzAkAAAAAB9AIgAAAAAfUCAQAAAAH2AkAAAAAB9wJAAAAAAQIAAAAaACAPAADHBwAgAwAAAGIAIA8AAMcHACAQAADLBwAgGAAAAGIAIAgAAMsHACAeAADyBQAgJwAA8QUAICgAAPMFACApAAD0BQAgKwAA9gUAICwAAPcFACAtAAD4BQAgLgAA-QUAIKICAQC3BAAhqQJAALoEACHWAgEAtwQAIdgCAQDCBAAh7gIBAMIEACHvAgEAwgQAIfACAQC3BAAh8QIBALcEACHyAiAAzgQAIfMCQADMBAAh9AIgAM4EACH1AgEAwgQAIfYCQADMBAAh9wJAAMwEACEWHgAA8gUAICcAAPEFACAoAADzBQAgKQAA9AUAICsAAPYFACAsAAD3BQAgLQAA-AUAIC4AAPkFACCiAgEAtwQAIakCQAC6BAAh1gIBALcEACHYAgEAwgQAIe4CAQDCBAAh7wIBAMIEACHwAgEAtwQAIfECAQC3BAAh8gIgAM4EACHzAkAAzAQAIfQCIADOBAAh9QIBAMIEACH2AkAAzAQAIfcCQADMBAAhFh4AAOQGACAnAADjBgAgKAAA5QYAICkAAOYGACAqAADnBgAgLAAA6QYAIC0AAOoGACAuAADrBgAgogIBAAAAAakCQAAAAAHWAgEAAAAB2AIBAAAAAe4CAQAAAAHvAgEAAAAB8AIBAAAAAfECAQAAAAHyAiAAAAAB8wJAAAAAAfQCIAAAAAH1AgEAAAAB9gJAAAAAAfcCQAAAAAECAAAAGgAgDwAAzAcAIAMAAABiACAPAADMBwAgEAAA0AcAIBgAAABiACAIAADQBwAgHgAA8gUAICcAAPEFACAoAADzBQAgKQAA9AUAICoAAPUFACAsAAD3BQAgLQAA-AUAIC4AAPkFACCiAgEAtwQAIakCQAC6BAAh1gIBALcEACHYAgEAwgQAIe4CAQDCBAAh7wIBAMIEACHwAgEAtwQAIfECAQC3BAAh8gIgAM4EACHzAkAAzAQAIfQCIADOBAAh9QIBAMIEACH2AkAAzAQAIfcCQADMBAAhFh4AAPIFACAnAADxBQAgKAAA8wUAICkAAPQFACAqAAD1BQAgLAAA9wUAIC0AAPgFACAuAAD5BQAgogIBALcEACGpAkAAugQAIdYCAQC3BAAh2AIBAMIEACHuAgEAwgQAIe8CAQDCBAAh8AIBALcEACHxAgEAtwQAIfICIADOBAAh8wJAAMwEACH0AiAAzgQAIfUCAQDCBAAh9gJAAMwEACH3AkAAzAQAIRYeAADkBgAgJwAA4wYAICgAAOUGACApAADmBgAgKgAA5wYAICsAAOgGACAtAADqBgAgLgAA6wYAIKICAQAAAAGpAkAAAAAB1gIBAAAAAdgCAQAAAAHuAgEAAAAB7wIBAAAAAfACAQAAAAHxAgEAAAAB8gIgAAAAAfMCQAAAAAH0AiAAAAAB9QIBAAAAAfYCQAAAAAH3AkAAAAABAgAAABoAIA8AANEHACADAAAAYgAgDwAA0QcAIBAAANUHACAYAAAAYgAgCAAA1QcAIB4AAPIFACAnAADxBQAgKAAA8wUAICkAAPQFACAqAAD1BQAgKwAA9gUAIC0AAPgFACAuAAD5BQAgogIBALcEACGpAkAAugQAIdYCAQC3BAAh2AIBAMIEACHuAgEAwgQAIe8CAQDCBAAh8AIBALcEACHxAgEAtwQAIfICIADOBAAh8wJAAMwEACH0AiAAzgQAIfUCAQDCBAAh9gJAAMwEACH3AkAAzAQAIRYeAADyBQAgJwAA8QUAICgAAPMFACApAAD0BQAgKgAA9QUAICsAAPYFACAtAAD4BQAgLgAA-QUAIKICAQC3BAAhqQJAALoEACHWAgEAtwQAIdgCAQDCBAAh7gIBAMIEACHvAgEAwgQAIfACAQC3BAAh8QIBALcEACHyAiAAzgQAIfMCQADMBAAh9AIgAM4EACH1AgEAwgQAIfYCQADMBAAh9wJAAMwEACEWHgAA5AYAICcAAOMGACAoAADlBgAgKQAA5gYAICoAAOcGACArAADoBgAgLAAA6QYAIC4AAOsGACCiAgEAAAABqQJAAAAAAdYCAQAAAAHYAgEAAAAB7gIBAAAAAe8CAQAAAAHwAgEAAAAB8QIBAAAAAfICIAAAAAHzAkAAAAAB9AIgAAAAAfUCAQAAAAH2AkAAAAAB9wJAAAAAAQIAAAAaACAPAADWBwAgAwAAAGIAIA8AANYHACAQAADaBwAgGAAAAGIAIAgAANoHACAeAADyBQAgJwAA8QUAICgAAPMFACApAAD0BQAgKgAA9QUAICsAAPYFACAsAAD3BQAgLgAA-QUAIKICAQC3BAAhqQJAALoEACHWAgEAtwQAIdgCAQDCBAAh7gIBAMIEACHvAgEAwgQAIfACAQC3BAAh8QIBALcEACHyAiAAzgQAIfMCQADMBAAh9AIgAM4EACH1AgEAwgQAIfYCQADMBAAh9wJAAMwEACEWHgAA8gUAICcAAPEFACAoAADzBQAgKQAA9AUAICoAAPUFACArAAD2BQAgLAAA9wUAIC4AAPkFACCiAgEAtwQAIakCQAC6BAAh1gIBALcEACHYAgEAwgQAIe4CAQDCBAAh7wIBAMIEACHwAgEAtwQAIfECAQC3BAAh8gIgAM4EACHzAkAAzAQAIfQCIADOBAAh9QIBAMIEACH2AkAAzAQAIfcCQADMBAAhFh4AAOQGACAnAADjBgAgKAAA5QYAICkAAOYGACAqAADnBgAgKwAA6AYAICwAAOkGACAtAADqBgAgogIBAAAAAakCQAAAAAHWAgEAAAAB2AIBAAAAAe4CAQAAAAHvAgEAAAAB8AIBAAAAAfECAQAAAAHyAiAAAAAB8wJAAAAAAfQCIAAAAAH1AgEAAAAB9gJAAAAAAfcCQAAAAAECAAAAGgAgDwAA2wcAIAMAAABiACAPAADbBwAgEAAA3wcAIBgAAABiACAIAADfBwAgHgAA8gUAICcAAPEFACAoAADzBQAgKQAA9AUAICoAAPUFACArAAD2BQAgLAAA9wUAIC0AAPgFACCiAgEAtwQAIakCQAC6BAAh1gIBALcEACHYAgEAwgQAIe4CAQDCBAAh7wIBAMIEACHwAgEAtwQAIfECAQC3BAAh8gIgAM4EACHzAkAAzAQAIfQCIADOBAAh9QIBAMIEACH2AkAAzAQAIfcCQADMBAAhFh4AAPIFACAnAADxBQAgKAAA8wUAICkAAPQFACAqAAD1BQAgKwAA9gUAICwAAPcFACAtAAD4BQAgogIBALcEACGpAkAAugQAIdYCAQC3BAAh2AIBAMIEACHuAgEAwgQAIe8CAQDCBAAh8AIBALcEACHxAgEAtwQAIfICIADOBAAh8wJAAMwEACH0AiAAzgQAIfUCAQDCBAAh9gJAAMwEACH3AkAAzAQAIQAAAAAFFQAGFgAHFwAIGAAJGQAKAAAAAAAFFQAGFgAHFwAIGAAJGQAKChUAGx49DicfDShADylDESpHFitLFyxPGC1TGS5XGgYVABUcAAweIw4kMw4lNA4mOBQGHAAMHQANHyUPICgNISkNIisRAxUAEBwADB4mDgEeJwAEFQATHAAMHjAOIy8SASIAEQIeMgAjMQABHQANBB45ACQ6ACU7ACY8AAEcAAwBHAAMARwADAEcAAwBHAAMCR5ZACdYAChaAClbACpcACtdACxeAC1fAC5gAAAAAxUAHxgAIBkAIQAAAAMVAB8YACAZACEBHAAMARwADAMVACYYACcZACgAAAADFQAmGAAnGQAoAR0ADQEdAA0FFQAtFgAuFwAvGAAwGQAxAAAAAAAFFQAtFgAuFwAvGAAwGQAxBhwADB0ADR-uAQ8grwENIbABDSKxAREGHAAMHQANH7cBDyC4AQ0huQENIroBEQUVADYWADcXADgYADkZADoAAAAAAAUVADYWADcXADgYADkZADoAAAADFQBAGABBGQBCAAAAAxUAQBgAQRkAQgEcAAwBHAAMAxUARxgASBkASQAAAAMVAEcYAEgZAEkAAAADFQBPGABQGQBRAAAAAxUATxgAUBkAUQEcAAwBHAAMBRUAVhYAVxcAWBgAWRkAWgAAAAAABRUAVhYAVxcAWBgAWRkAWgEiABEBIgARAxUAXxgAYBkAYQAAAAMVAF8YAGAZAGEAAAADFQBnGABoGQBpAAAAAxUAZxgAaBkAaQEcAAwBHAAMAxUAbhgAbxkAcAAAAAMVAG4YAG8ZAHABHAAMARwADAUVAHUWAHYXAHcYAHgZAHkAAAAAAAUVAHUWAHYXAHcYAHgZAHkBHAAMARwADAUVAH4WAH8XAIABGACBARkAggEAAAAAAAUVAH4WAH8XAIABGACBARkAggEBHAAMARwADAMVAIcBGACIARkAiQEAAAADFQCHARgAiAEZAIkBARwADAEcAAwFFQCOARYAjwEXAJABGACRARkAkgEAAAAAAAUVAI4BFgCPARcAkAEYAJEBGQCSAQECAQIDAQUGAQYHAQcIAQkKAQoMAgsNAwwPAQ0RAg4SBBETARIUARMVAhoYBRsZCy8bDDBhDDFkDDJlDDNmDDRoDDVqAjZrHDdtDDhvAjlwHTpxDDtyDDxzAj12Hj53Ij94DUB5DUF6DUJ7DUN8DUR-DUWAAQJGgQEjR4MBDUiFAQJJhgEkSocBDUuIAQ1MiQECTYwBJU6NASlPjgEUUI8BFFGQARRSkQEUU5IBFFSUARRVlgECVpcBKleZARRYmwECWZwBK1qdARRbngEUXJ8BAl2iASxeowEyX6QBDmClAQ5hpgEOYqcBDmOoAQ5kqgEOZawBAmatATNnswEOaLUBAmm2ATRquwEOa7wBDmy9AQJtwAE1bsEBO2_DATxwxAE8cccBPHLIATxzyQE8dMsBPHXNAQJ2zgE9d9ABPHjSAQJ50wE-etQBPHvVATx81gECfdkBP37aAUN_2wEPgAHcAQ-BAd0BD4IB3gEPgwHfAQ-EAeEBD4UB4wEChgHkAUSHAeYBD4gB6AECiQHpAUWKAeoBD4sB6wEPjAHsAQKNAe8BRo4B8AFKjwHyAUuQAfMBS5EB9gFLkgH3AUuTAfgBS5QB-gFLlQH8AQKWAf0BTJcB_wFLmAGBAgKZAYICTZoBgwJLmwGEAkucAYUCAp0BiAJOngGJAlKfAYoCEaABiwIRoQGMAhGiAY0CEaMBjgIRpAGQAhGlAZICAqYBkwJTpwGVAhGoAZcCAqkBmAJUqgGZAhGrAZoCEawBmwICrQGeAlWuAZ8CW68BoAISsAGhAhKxAaICErIBowISswGkAhK0AaYCErUBqAICtgGpAly3AasCErgBrQICuQGuAl26Aa8CErsBsAISvAGxAgK9AbQCXr4BtQJivwG3AmPAAbgCY8EBuwJjwgG8AmPDAb0CY8QBvwJjxQHBAgLGAcICZMcBxAJjyAHGAgLJAccCZcoByAJjywHJAmPMAcoCAs0BzQJmzgHOAmrPAc8CFtAB0AIW0QHRAhbSAdICFtMB0wIW1AHVAhbVAdcCAtYB2AJr1wHaAhbYAdwCAtkB3QJs2gHeAhbbAd8CFtwB4AIC3QHjAm3eAeQCcd8B5QIX4AHmAhfhAecCF-IB6AIX4wHpAhfkAesCF-UB7QIC5gHuAnLnAfACF-gB8gIC6QHzAnPqAfQCF-sB9QIX7AH2AgLtAfkCdO4B-gJ67wH7AhjwAfwCGPEB_QIY8gH-AhjzAf8CGPQBgQMY9QGDAwL2AYQDe_cBhgMY-AGIAwL5AYkDfPoBigMY-wGLAxj8AYwDAv0BjwN9_gGQA4MB_wGRAxmAApIDGYECkwMZggKUAxmDApUDGYQClwMZhQKZAwKGApoDhAGHApwDGYgCngMCiQKfA4UBigKgAxmLAqEDGYwCogMCjQKlA4YBjgKmA4oBjwKnAxqQAqgDGpECqQMakgKqAxqTAqsDGpQCrQMalQKvAwKWArADiwGXArIDGpgCtAMCmQK1A4wBmgK2AxqbArcDGpwCuAMCnQK7A40BngK8A5MB"
+  strings: JSON.parse("[\"where\",\"Currency.findUnique\",\"Currency.findUniqueOrThrow\",\"orderBy\",\"cursor\",\"Currency.findFirst\",\"Currency.findFirstOrThrow\",\"Currency.findMany\",\"data\",\"Currency.createOne\",\"Currency.createMany\",\"Currency.createManyAndReturn\",\"Currency.updateOne\",\"Currency.updateMany\",\"Currency.updateManyAndReturn\",\"create\",\"update\",\"Currency.upsertOne\",\"Currency.deleteOne\",\"Currency.deleteMany\",\"having\",\"_count\",\"_avg\",\"_sum\",\"_min\",\"_max\",\"Currency.groupBy\",\"Currency.aggregate\",\"user\",\"account\",\"transactions\",\"category\",\"budgets\",\"categoryRef\",\"tag\",\"aliases\",\"recurringTransactions\",\"recurring\",\"occurrences\",\"fromAccount\",\"toAccount\",\"transaction\",\"attachments\",\"transactionsFrom\",\"transactionsTo\",\"assets\",\"alertConfig\",\"events\",\"alertConfigs\",\"netWorthSnapshots\",\"accounts\",\"categories\",\"tags\",\"savedAnalyticsViews\",\"alertEvents\",\"subscriptions\",\"premiumEvents\",\"llmMemories\",\"User.findUnique\",\"User.findUniqueOrThrow\",\"User.findFirst\",\"User.findFirstOrThrow\",\"User.findMany\",\"User.createOne\",\"User.createMany\",\"User.createManyAndReturn\",\"User.updateOne\",\"User.updateMany\",\"User.updateManyAndReturn\",\"User.upsertOne\",\"User.deleteOne\",\"User.deleteMany\",\"User.groupBy\",\"User.aggregate\",\"Account.findUnique\",\"Account.findUniqueOrThrow\",\"Account.findFirst\",\"Account.findFirstOrThrow\",\"Account.findMany\",\"Account.createOne\",\"Account.createMany\",\"Account.createManyAndReturn\",\"Account.updateOne\",\"Account.updateMany\",\"Account.updateManyAndReturn\",\"Account.upsertOne\",\"Account.deleteOne\",\"Account.deleteMany\",\"Account.groupBy\",\"Account.aggregate\",\"AccountAsset.findUnique\",\"AccountAsset.findUniqueOrThrow\",\"AccountAsset.findFirst\",\"AccountAsset.findFirstOrThrow\",\"AccountAsset.findMany\",\"AccountAsset.createOne\",\"AccountAsset.createMany\",\"AccountAsset.createManyAndReturn\",\"AccountAsset.updateOne\",\"AccountAsset.updateMany\",\"AccountAsset.updateManyAndReturn\",\"AccountAsset.upsertOne\",\"AccountAsset.deleteOne\",\"AccountAsset.deleteMany\",\"AccountAsset.groupBy\",\"AccountAsset.aggregate\",\"Transaction.findUnique\",\"Transaction.findUniqueOrThrow\",\"Transaction.findFirst\",\"Transaction.findFirstOrThrow\",\"Transaction.findMany\",\"Transaction.createOne\",\"Transaction.createMany\",\"Transaction.createManyAndReturn\",\"Transaction.updateOne\",\"Transaction.updateMany\",\"Transaction.updateManyAndReturn\",\"Transaction.upsertOne\",\"Transaction.deleteOne\",\"Transaction.deleteMany\",\"Transaction.groupBy\",\"Transaction.aggregate\",\"TransactionAttachment.findUnique\",\"TransactionAttachment.findUniqueOrThrow\",\"TransactionAttachment.findFirst\",\"TransactionAttachment.findFirstOrThrow\",\"TransactionAttachment.findMany\",\"TransactionAttachment.createOne\",\"TransactionAttachment.createMany\",\"TransactionAttachment.createManyAndReturn\",\"TransactionAttachment.updateOne\",\"TransactionAttachment.updateMany\",\"TransactionAttachment.updateManyAndReturn\",\"TransactionAttachment.upsertOne\",\"TransactionAttachment.deleteOne\",\"TransactionAttachment.deleteMany\",\"TransactionAttachment.groupBy\",\"TransactionAttachment.aggregate\",\"NetWorthSnapshot.findUnique\",\"NetWorthSnapshot.findUniqueOrThrow\",\"NetWorthSnapshot.findFirst\",\"NetWorthSnapshot.findFirstOrThrow\",\"NetWorthSnapshot.findMany\",\"NetWorthSnapshot.createOne\",\"NetWorthSnapshot.createMany\",\"NetWorthSnapshot.createManyAndReturn\",\"NetWorthSnapshot.updateOne\",\"NetWorthSnapshot.updateMany\",\"NetWorthSnapshot.updateManyAndReturn\",\"NetWorthSnapshot.upsertOne\",\"NetWorthSnapshot.deleteOne\",\"NetWorthSnapshot.deleteMany\",\"NetWorthSnapshot.groupBy\",\"NetWorthSnapshot.aggregate\",\"ExchangeRateSnapshot.findUnique\",\"ExchangeRateSnapshot.findUniqueOrThrow\",\"ExchangeRateSnapshot.findFirst\",\"ExchangeRateSnapshot.findFirstOrThrow\",\"ExchangeRateSnapshot.findMany\",\"ExchangeRateSnapshot.createOne\",\"ExchangeRateSnapshot.createMany\",\"ExchangeRateSnapshot.createManyAndReturn\",\"ExchangeRateSnapshot.updateOne\",\"ExchangeRateSnapshot.updateMany\",\"ExchangeRateSnapshot.updateManyAndReturn\",\"ExchangeRateSnapshot.upsertOne\",\"ExchangeRateSnapshot.deleteOne\",\"ExchangeRateSnapshot.deleteMany\",\"ExchangeRateSnapshot.groupBy\",\"ExchangeRateSnapshot.aggregate\",\"Category.findUnique\",\"Category.findUniqueOrThrow\",\"Category.findFirst\",\"Category.findFirstOrThrow\",\"Category.findMany\",\"Category.createOne\",\"Category.createMany\",\"Category.createManyAndReturn\",\"Category.updateOne\",\"Category.updateMany\",\"Category.updateManyAndReturn\",\"Category.upsertOne\",\"Category.deleteOne\",\"Category.deleteMany\",\"Category.groupBy\",\"Category.aggregate\",\"TrialLedger.findUnique\",\"TrialLedger.findUniqueOrThrow\",\"TrialLedger.findFirst\",\"TrialLedger.findFirstOrThrow\",\"TrialLedger.findMany\",\"TrialLedger.createOne\",\"TrialLedger.createMany\",\"TrialLedger.createManyAndReturn\",\"TrialLedger.updateOne\",\"TrialLedger.updateMany\",\"TrialLedger.updateManyAndReturn\",\"TrialLedger.upsertOne\",\"TrialLedger.deleteOne\",\"TrialLedger.deleteMany\",\"TrialLedger.groupBy\",\"TrialLedger.aggregate\",\"Tag.findUnique\",\"Tag.findUniqueOrThrow\",\"Tag.findFirst\",\"Tag.findFirstOrThrow\",\"Tag.findMany\",\"Tag.createOne\",\"Tag.createMany\",\"Tag.createManyAndReturn\",\"Tag.updateOne\",\"Tag.updateMany\",\"Tag.updateManyAndReturn\",\"Tag.upsertOne\",\"Tag.deleteOne\",\"Tag.deleteMany\",\"Tag.groupBy\",\"Tag.aggregate\",\"TagAlias.findUnique\",\"TagAlias.findUniqueOrThrow\",\"TagAlias.findFirst\",\"TagAlias.findFirstOrThrow\",\"TagAlias.findMany\",\"TagAlias.createOne\",\"TagAlias.createMany\",\"TagAlias.createManyAndReturn\",\"TagAlias.updateOne\",\"TagAlias.updateMany\",\"TagAlias.updateManyAndReturn\",\"TagAlias.upsertOne\",\"TagAlias.deleteOne\",\"TagAlias.deleteMany\",\"TagAlias.groupBy\",\"TagAlias.aggregate\",\"TagAuditLog.findUnique\",\"TagAuditLog.findUniqueOrThrow\",\"TagAuditLog.findFirst\",\"TagAuditLog.findFirstOrThrow\",\"TagAuditLog.findMany\",\"TagAuditLog.createOne\",\"TagAuditLog.createMany\",\"TagAuditLog.createManyAndReturn\",\"TagAuditLog.updateOne\",\"TagAuditLog.updateMany\",\"TagAuditLog.updateManyAndReturn\",\"TagAuditLog.upsertOne\",\"TagAuditLog.deleteOne\",\"TagAuditLog.deleteMany\",\"TagAuditLog.groupBy\",\"TagAuditLog.aggregate\",\"SavedAnalyticsView.findUnique\",\"SavedAnalyticsView.findUniqueOrThrow\",\"SavedAnalyticsView.findFirst\",\"SavedAnalyticsView.findFirstOrThrow\",\"SavedAnalyticsView.findMany\",\"SavedAnalyticsView.createOne\",\"SavedAnalyticsView.createMany\",\"SavedAnalyticsView.createManyAndReturn\",\"SavedAnalyticsView.updateOne\",\"SavedAnalyticsView.updateMany\",\"SavedAnalyticsView.updateManyAndReturn\",\"SavedAnalyticsView.upsertOne\",\"SavedAnalyticsView.deleteOne\",\"SavedAnalyticsView.deleteMany\",\"SavedAnalyticsView.groupBy\",\"SavedAnalyticsView.aggregate\",\"AlertConfig.findUnique\",\"AlertConfig.findUniqueOrThrow\",\"AlertConfig.findFirst\",\"AlertConfig.findFirstOrThrow\",\"AlertConfig.findMany\",\"AlertConfig.createOne\",\"AlertConfig.createMany\",\"AlertConfig.createManyAndReturn\",\"AlertConfig.updateOne\",\"AlertConfig.updateMany\",\"AlertConfig.updateManyAndReturn\",\"AlertConfig.upsertOne\",\"AlertConfig.deleteOne\",\"AlertConfig.deleteMany\",\"AlertConfig.groupBy\",\"AlertConfig.aggregate\",\"AlertEvent.findUnique\",\"AlertEvent.findUniqueOrThrow\",\"AlertEvent.findFirst\",\"AlertEvent.findFirstOrThrow\",\"AlertEvent.findMany\",\"AlertEvent.createOne\",\"AlertEvent.createMany\",\"AlertEvent.createManyAndReturn\",\"AlertEvent.updateOne\",\"AlertEvent.updateMany\",\"AlertEvent.updateManyAndReturn\",\"AlertEvent.upsertOne\",\"AlertEvent.deleteOne\",\"AlertEvent.deleteMany\",\"AlertEvent.groupBy\",\"AlertEvent.aggregate\",\"Budget.findUnique\",\"Budget.findUniqueOrThrow\",\"Budget.findFirst\",\"Budget.findFirstOrThrow\",\"Budget.findMany\",\"Budget.createOne\",\"Budget.createMany\",\"Budget.createManyAndReturn\",\"Budget.updateOne\",\"Budget.updateMany\",\"Budget.updateManyAndReturn\",\"Budget.upsertOne\",\"Budget.deleteOne\",\"Budget.deleteMany\",\"Budget.groupBy\",\"Budget.aggregate\",\"RecurringTransaction.findUnique\",\"RecurringTransaction.findUniqueOrThrow\",\"RecurringTransaction.findFirst\",\"RecurringTransaction.findFirstOrThrow\",\"RecurringTransaction.findMany\",\"RecurringTransaction.createOne\",\"RecurringTransaction.createMany\",\"RecurringTransaction.createManyAndReturn\",\"RecurringTransaction.updateOne\",\"RecurringTransaction.updateMany\",\"RecurringTransaction.updateManyAndReturn\",\"RecurringTransaction.upsertOne\",\"RecurringTransaction.deleteOne\",\"RecurringTransaction.deleteMany\",\"RecurringTransaction.groupBy\",\"RecurringTransaction.aggregate\",\"RecurringOccurrence.findUnique\",\"RecurringOccurrence.findUniqueOrThrow\",\"RecurringOccurrence.findFirst\",\"RecurringOccurrence.findFirstOrThrow\",\"RecurringOccurrence.findMany\",\"RecurringOccurrence.createOne\",\"RecurringOccurrence.createMany\",\"RecurringOccurrence.createManyAndReturn\",\"RecurringOccurrence.updateOne\",\"RecurringOccurrence.updateMany\",\"RecurringOccurrence.updateManyAndReturn\",\"RecurringOccurrence.upsertOne\",\"RecurringOccurrence.deleteOne\",\"RecurringOccurrence.deleteMany\",\"RecurringOccurrence.groupBy\",\"RecurringOccurrence.aggregate\",\"BotSession.findUnique\",\"BotSession.findUniqueOrThrow\",\"BotSession.findFirst\",\"BotSession.findFirstOrThrow\",\"BotSession.findMany\",\"BotSession.createOne\",\"BotSession.createMany\",\"BotSession.createManyAndReturn\",\"BotSession.updateOne\",\"BotSession.updateMany\",\"BotSession.updateManyAndReturn\",\"BotSession.upsertOne\",\"BotSession.deleteOne\",\"BotSession.deleteMany\",\"BotSession.groupBy\",\"BotSession.aggregate\",\"Subscription.findUnique\",\"Subscription.findUniqueOrThrow\",\"Subscription.findFirst\",\"Subscription.findFirstOrThrow\",\"Subscription.findMany\",\"Subscription.createOne\",\"Subscription.createMany\",\"Subscription.createManyAndReturn\",\"Subscription.updateOne\",\"Subscription.updateMany\",\"Subscription.updateManyAndReturn\",\"Subscription.upsertOne\",\"Subscription.deleteOne\",\"Subscription.deleteMany\",\"Subscription.groupBy\",\"Subscription.aggregate\",\"PremiumEvent.findUnique\",\"PremiumEvent.findUniqueOrThrow\",\"PremiumEvent.findFirst\",\"PremiumEvent.findFirstOrThrow\",\"PremiumEvent.findMany\",\"PremiumEvent.createOne\",\"PremiumEvent.createMany\",\"PremiumEvent.createManyAndReturn\",\"PremiumEvent.updateOne\",\"PremiumEvent.updateMany\",\"PremiumEvent.updateManyAndReturn\",\"PremiumEvent.upsertOne\",\"PremiumEvent.deleteOne\",\"PremiumEvent.deleteMany\",\"PremiumEvent.groupBy\",\"PremiumEvent.aggregate\",\"LlmUserMemory.findUnique\",\"LlmUserMemory.findUniqueOrThrow\",\"LlmUserMemory.findFirst\",\"LlmUserMemory.findFirstOrThrow\",\"LlmUserMemory.findMany\",\"LlmUserMemory.createOne\",\"LlmUserMemory.createMany\",\"LlmUserMemory.createManyAndReturn\",\"LlmUserMemory.updateOne\",\"LlmUserMemory.updateMany\",\"LlmUserMemory.updateManyAndReturn\",\"LlmUserMemory.upsertOne\",\"LlmUserMemory.deleteOne\",\"LlmUserMemory.deleteMany\",\"LlmUserMemory.groupBy\",\"LlmUserMemory.aggregate\",\"AND\",\"OR\",\"NOT\",\"id\",\"userId\",\"type\",\"key\",\"value\",\"confidence\",\"hits\",\"createdAt\",\"updatedAt\",\"equals\",\"in\",\"notIn\",\"lt\",\"lte\",\"gt\",\"gte\",\"not\",\"contains\",\"startsWith\",\"endsWith\",\"PremiumEventType\",\"details\",\"SubscriptionPlan\",\"plan\",\"SubscriptionStatus\",\"status\",\"startDate\",\"endDate\",\"telegramPaymentChargeId\",\"providerPaymentChargeId\",\"amount\",\"amountDecimal\",\"currency\",\"autoRenew\",\"expiresAt\",\"string_contains\",\"string_starts_with\",\"string_ends_with\",\"array_starts_with\",\"array_ends_with\",\"array_contains\",\"recurringId\",\"dueAt\",\"RecurringOccurrenceStatus\",\"transactionId\",\"resolvedAt\",\"promptedAt\",\"accountId\",\"TransactionDirectionsEnum\",\"direction\",\"categoryId\",\"tagId\",\"description\",\"RecurringFrequencyEnum\",\"frequency\",\"interval\",\"cron\",\"nextRunAt\",\"paused\",\"limit\",\"limitDecimal\",\"rollover\",\"warnedPeriod\",\"warnedLevel\",\"alertConfigId\",\"dedupKey\",\"message\",\"AlertTypeEnum\",\"threshold\",\"thresholdDecimal\",\"AlertPeriodEnum\",\"period\",\"enabled\",\"name\",\"filters\",\"action\",\"alias\",\"usageCount\",\"isDefault\",\"telegramId\",\"firstUserId\",\"stripeCustomerId\",\"usedAt\",\"date\",\"baseCurrency\",\"rates\",\"date_baseCurrency\",\"valueUsd\",\"valueMain\",\"mainCurrency\",\"TransactionAttachmentKind\",\"kind\",\"fileId\",\"fileUniqueId\",\"fileName\",\"mimeType\",\"rawText\",\"transactionDate\",\"fromAccountId\",\"toAccountId\",\"convertedAmount\",\"convertedAmountDecimal\",\"convertToCurrency\",\"amountUsd\",\"amountUsdDecimal\",\"AccountTypeEnum\",\"isHidden\",\"activeAccountId\",\"defaultAccountId\",\"timezone\",\"isPremium\",\"premiumUntil\",\"trialUsed\",\"lastTipText\",\"lastTipDate\",\"lastDailyReminderAt\",\"monthlyStatement\",\"lastStatementPeriod\",\"forecastWarnedPeriod\",\"every\",\"some\",\"none\",\"userId_type_key\",\"userId_name\",\"userId_date_accountId_currency\",\"alertConfigId_dedupKey\",\"accountId_currency\",\"transactionId_fileUniqueId\",\"recurringId_dueAt\",\"userId_categoryId\",\"code\",\"symbol\",\"decimals\",\"is\",\"isNot\",\"connectOrCreate\",\"upsert\",\"createMany\",\"set\",\"disconnect\",\"delete\",\"connect\",\"updateMany\",\"deleteMany\",\"increment\",\"decrement\",\"multiply\",\"divide\"]"),
+  graph: "kwzWAfACB5oDAACyBgAwmwMAAAQAEJwDAACyBgAwnwMBALsFACGfBAEAAAABoAQBANkFACGhBAIAgAYAIQEAAAABACABAAAAAQAgB5oDAACyBgAwmwMAAAQAEJwDAACyBgAwnwMBALsFACGfBAEAuwUAIaAEAQDZBQAhoQQCAIAGACEBoAQAAL4GACADAAAABAAgAwAABQAwBAAAAQAgAwAAAAQAIAMAAAUAMAQAAAEAIAMAAAAEACADAAAFADAEAAABACAEnwMBAAAAAZ8EAQAAAAGgBAEAAAABoQQCAAAAAQEIAAAJACAEnwMBAAAAAZ8EAQAAAAGgBAEAAAABoQQCAAAAAQEIAAALADABCAAACwAwBJ8DAQC4BgAhnwQBALgGACGgBAEAwwYAIaEEAgC6BgAhAgAAAAEAIAgAAA4AIASfAwEAuAYAIZ8EAQC4BgAhoAQBAMMGACGhBAIAugYAIQIAAAAEACAIAAAQACACAAAABAAgCAAAEAAgAwAAAAEAIA8AAAkAIBAAAA4AIAEAAAABACABAAAABAAgBhUAAOEKACAWAADiCgAgFwAA5QoAIBgAAOQKACAZAADjCgAgoAQAAL4GACAHmgMAALEGADCbAwAAFwAQnAMAALEGADCfAwEAkwUAIZ8EAQCTBQAhoAQBAKEFACGhBAIAlQUAIQMAAAAEACADAAAWADAUAAAXACADAAAABAAgAwAABQAwBAAAAQAgIR4AAPEFACAgAAD3BQAgJAAA-AUAIDAAAPUFACAxAAD8BQAgMgAA8AUAIDMAAPIFACA0AADzBQAgNQAA9AUAIDYAAPYFACA3AAD5BQAgOAAA-gUAIDkAAPsFACCaAwAA7QUAMJsDAACSAQAQnAMAAO0FADCdAwEAAAABpANAAL0FACHsAwEAAAAB7gMBANkFACH2AwEAuwUAIYgEAQDZBQAhiQQBANkFACGKBAEAuwUAIYsEIADuBQAhjARAAO8FACGNBCAA7gUAIY4EAQDZBQAhjwRAAO8FACGQBEAA7wUAIZEEIADuBQAhkgQBANkFACGTBAEA2QUAIQEAAAAaACASHAAAgQYAIB4AAPEFACAkAAD4BQAgKwAA8QUAICwAAPEFACAtAACwBgAgMAAA9QUAIDEAAPwFACCaAwAArgYAMJsDAAAcABCcAwAArgYAMJ0DAQC7BQAhngMBALsFACGfAwAArwaHBCKkA0AAvQUAIb0DAQC7BQAh5gMBALsFACGHBCAA7gUAIQgcAADWCgAgHgAAygoAICQAANEKACArAADKCgAgLAAAygoAIC0AAOAKACAwAADOCgAgMQAA1QoAIBIcAACBBgAgHgAA8QUAICQAAPgFACArAADxBQAgLAAA8QUAIC0AALAGACAwAAD1BQAgMQAA_AUAIJoDAACuBgAwmwMAABwAEJwDAACuBgAwnQMBAAAAAZ4DAQC7BQAhnwMAAK8GhwQipANAAL0FACG9AwEAuwUAIeYDAQC7BQAhhwQgAO4FACEDAAAAHAAgAwAAHQAwBAAAHgAgHxwAAIEGACAdAACQBgAgHwEA2QUAISEAAKcGACAiAACoBgAgJwAAlwYAICgAAJcGACAqAACtBgAgmgMAAKwGADCbAwAAIAAQnAMAAKwGADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACG7AwgA_wUAIbwDEACHBgAhvQMBALsFACHMAwEAuwUAIc4DAAClBs4DIs8DAQDZBQAh0AMBANkFACHRAwEA2QUAIf0DAQC7BQAh_gNAAL0FACH_AwEA2QUAIYAEAQDZBQAhgQQIAI8GACGCBBAAhwYAIYMEAQDZBQAhhAQIAI8GACGFBBAAhwYAIRMcAADWCgAgHQAA2AoAIB8AAL4GACAhAADdCgAgIgAA3AoAICcAANgKACAoAADYCgAgKgAA3woAILwDAAC-BgAgzwMAAL4GACDQAwAAvgYAINEDAAC-BgAg_wMAAL4GACCABAAAvgYAIIEEAAC-BgAgggQAAL4GACCDBAAAvgYAIIQEAAC-BgAghQQAAL4GACAfHAAAgQYAIB0AAJAGACAfAQDZBQAhIQAApwYAICIAAKgGACAnAACXBgAgKAAAlwYAICoAAK0GACCaAwAArAYAMJsDAAAgABCcAwAArAYAMJ0DAQAAAAGeAwEAuwUAIaQDQAC9BQAhuwMIAP8FACG8AxAAhwYAIb0DAQC7BQAhzAMBALsFACHOAwAApQbOAyLPAwEA2QUAIdADAQDZBQAh0QMBANkFACH9AwEAuwUAIf4DQAC9BQAh_wMBANkFACGABAEA2QUAIYEECACPBgAhggQQAIcGACGDBAEA2QUAIYQECACPBgAhhQQQAIcGACEDAAAAIAAgAwAAIQAwBAAAIgAgDBwAAIEGACAeAADxBQAgIAAA9wUAICQAAPgFACCaAwAAjAYAMJsDAAAkABCcAwAAjAYAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIeYDAQC7BQAh6wMgAO4FACEBAAAAJAAgAwAAACAAIAMAACEAMAQAACIAIA8cAACBBgAgHwAApwYAIJoDAACrBgAwmwMAACcAEJwDAACrBgAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAhpQNAAL0FACHPAwEA2QUAIdgDCAD_BQAh2QMQAIcGACHaAyAA7gUAIdsDAQDZBQAh3AMCAIAGACEFHAAA1goAIB8AAN0KACDPAwAAvgYAINkDAAC-BgAg2wMAAL4GACAQHAAAgQYAIB8AAKcGACCaAwAAqwYAMJsDAAAnABCcAwAAqwYAMJ0DAQAAAAGeAwEAuwUAIaQDQAC9BQAhpQNAAL0FACHPAwEA2QUAIdgDCAD_BQAh2QMQAIcGACHaAyAA7gUAIdsDAQDZBQAh3AMCAIAGACGeBAAAqgYAIAMAAAAnACADAAAoADAEAAApACABAAAAJAAgGhwAAIEGACAdAACQBgAgHwEA2QUAISEAAKcGACAiAACoBgAgJgAAqQYAIJoDAACkBgAwmwMAACwAEJwDAACkBgAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAhtwNAAL0FACG7AwgA_wUAIbwDEACHBgAhvQMBALsFACHMAwEAuwUAIc4DAAClBs4DIs8DAQDZBQAh0AMBANkFACHRAwEAuwUAIdMDAACmBtMDItQDAgCABgAh1QMBANkFACHWA0AAvQUAIdcDIADuBQAhChwAANYKACAdAADYCgAgHwAAvgYAICEAAN0KACAiAADcCgAgJgAA3goAILwDAAC-BgAgzwMAAL4GACDQAwAAvgYAINUDAAC-BgAgGhwAAIEGACAdAACQBgAgHwEA2QUAISEAAKcGACAiAACoBgAgJgAAqQYAIJoDAACkBgAwmwMAACwAEJwDAACkBgAwnQMBAAAAAZ4DAQC7BQAhpANAAL0FACG3A0AAvQUAIbsDCAD_BQAhvAMQAIcGACG9AwEAuwUAIcwDAQC7BQAhzgMAAKUGzgMizwMBANkFACHQAwEA2QUAIdEDAQC7BQAh0wMAAKYG0wMi1AMCAIAGACHVAwEA2QUAIdYDQAC9BQAh1wMgAO4FACEDAAAALAAgAwAALQAwBAAALgAgAQAAACQAIA0cAACBBgAgHgAA8QUAICMAAIsGACAkAAD4BQAgmgMAAIoGADCbAwAAMQAQnAMAAIoGADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACHmAwEAuwUAIeoDAgCABgAh6wMgAO4FACEBAAAAMQAgCCIAAKMGACCaAwAAogYAMJsDAAAzABCcAwAAogYAMJ0DAQC7BQAhpANAAL0FACHQAwEAuwUAIekDAQC7BQAhASIAANwKACAIIgAAowYAIJoDAACiBgAwmwMAADMAEJwDAACiBgAwnQMBAAAAAaQDQAC9BQAh0AMBALsFACHpAwEAuwUAIQMAAAAzACADAAA0ADAEAAA1ACADAAAAIAAgAwAAIQAwBAAAIgAgAwAAACwAIAMAAC0AMAQAAC4AIAEAAAAzACABAAAAIAAgAQAAACwAIAwlAAChBgAgmgMAAJ8GADCbAwAAPAAQnAMAAJ8GADCdAwEAuwUAIaQDQAC9BQAhtgMAAKAGyQMixgMBALsFACHHA0AAvQUAIckDAQDZBQAhygNAAO8FACHLA0AA7wUAIQQlAADbCgAgyQMAAL4GACDKAwAAvgYAIMsDAAC-BgAgDSUAAKEGACCaAwAAnwYAMJsDAAA8ABCcAwAAnwYAMJ0DAQAAAAGkA0AAvQUAIbYDAACgBskDIsYDAQC7BQAhxwNAAL0FACHJAwEA2QUAIcoDQADvBQAhywNAAO8FACGdBAAAngYAIAMAAAA8ACADAAA9ADAEAAA-ACABAAAAPAAgAQAAACAAIAEAAAAnACABAAAALAAgAQAAABwAIAEAAAAcACABAAAAMQAgDCkAAJ0GACCaAwAAmwYAMJsDAABHABCcAwAAmwYAMJ0DAQC7BQAhpANAAL0FACHJAwEAuwUAIfgDAACcBvgDIvkDAQC7BQAh-gMBALsFACH7AwEA2QUAIfwDAQDZBQAhAykAANoKACD7AwAAvgYAIPwDAAC-BgAgDSkAAJ0GACCaAwAAmwYAMJsDAABHABCcAwAAmwYAMJ0DAQAAAAGkA0AAvQUAIckDAQC7BQAh-AMAAJwG-AMi-QMBALsFACH6AwEAuwUAIfsDAQDZBQAh_AMBANkFACGcBAAAmgYAIAMAAABHACADAABIADAEAABJACABAAAARwAgAwAAACAAIAMAACEAMAQAACIAIAMAAAAgACADAAAhADAEAAAiACAJHQAAkAYAIJoDAACZBgAwmwMAAE4AEJwDAACZBgAwnQMBALsFACG7AwgA_wUAIbwDEACHBgAhvQMBALsFACHMAwEAuwUAIQIdAADYCgAgvAMAAL4GACAKHQAAkAYAIJoDAACZBgAwmwMAAE4AEJwDAACZBgAwnQMBAAAAAbsDCAD_BQAhvAMQAIcGACG9AwEAuwUAIcwDAQC7BQAhmwQAAJgGACADAAAATgAgAwAATwAwBAAAUAAgERwAAIEGACAdAACXBgAgLwAA9gUAIJoDAACUBgAwmwMAAFIAEJwDAACUBgAwnQMBALsFACGeAwEAuwUAIZ8DAACVBuEDIqQDQAC9BQAhvQMBANkFACHMAwEA2QUAIc8DAQDZBQAh4QMIAP8FACHiAxAAhwYAIeQDAACWBuQDIuUDIADuBQAhBxwAANYKACAdAADYCgAgLwAAzwoAIL0DAAC-BgAgzAMAAL4GACDPAwAAvgYAIOIDAAC-BgAgERwAAIEGACAdAACXBgAgLwAA9gUAIJoDAACUBgAwmwMAAFIAEJwDAACUBgAwnQMBAAAAAZ4DAQC7BQAhnwMAAJUG4QMipANAAL0FACG9AwEA2QUAIcwDAQDZBQAhzwMBANkFACHhAwgA_wUAIeIDEACHBgAh5AMAAJYG5AMi5QMgAO4FACEDAAAAUgAgAwAAUwAwBAAAVAAgAQAAABwAIA4cAACBBgAgLgAAkwYAIJoDAACSBgAwmwMAAFcAEJwDAACSBgAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAhuwMIAP8FACG8AxAAhwYAIckDAQDZBQAh3QMBALsFACHeAwEAuwUAId8DAQC7BQAhBBwAANYKACAuAADZCgAgvAMAAL4GACDJAwAAvgYAIA8cAACBBgAgLgAAkwYAIJoDAACSBgAwmwMAAFcAEJwDAACSBgAwnQMBAAAAAZ4DAQC7BQAhpANAAL0FACG7AwgA_wUAIbwDEACHBgAhyQMBANkFACHdAwEAuwUAId4DAQC7BQAh3wMBALsFACGaBAAAkQYAIAMAAABXACADAABYADAEAABZACABAAAAVwAgAwAAACwAIAMAAC0AMAQAAC4AIA8cAACBBgAgHQAAkAYAIJoDAACOBgAwmwMAAF0AEJwDAACOBgAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAhuwMIAP8FACG9AwEAuwUAIcwDAQC7BQAh8ANAAL0FACH0AwgAjwYAIfUDCACPBgAh9gMBALsFACEEHAAA1goAIB0AANgKACD0AwAAvgYAIPUDAAC-BgAgEBwAAIEGACAdAACQBgAgmgMAAI4GADCbAwAAXQAQnAMAAI4GADCdAwEAAAABngMBALsFACGkA0AAvQUAIbsDCAD_BQAhvQMBALsFACHMAwEAuwUAIfADQAC9BQAh9AMIAI8GACH1AwgAjwYAIfYDAQC7BQAhmQQAAI0GACADAAAAXQAgAwAAXgAwBAAAXwAgAQAAACAAIAEAAAAgACABAAAAIAAgAQAAAE4AIAEAAABSACABAAAALAAgAQAAAF0AIAMAAAAgACADAAAhADAEAAAiACAEHAAA1goAIB4AAMoKACAgAADQCgAgJAAA0QoAIAwcAACBBgAgHgAA8QUAICAAAPcFACAkAAD4BQAgmgMAAIwGADCbAwAAJAAQnAMAAIwGADCdAwEAAAABngMBALsFACGkA0AAvQUAIeYDAQC7BQAh6wMgAO4FACEDAAAAJAAgAwAAaQAwBAAAagAgBBwAANYKACAeAADKCgAgIwAA1woAICQAANEKACAOHAAAgQYAIB4AAPEFACAjAACLBgAgJAAA-AUAIJoDAACKBgAwmwMAADEAEJwDAACKBgAwnQMBAAAAAZ4DAQC7BQAhpANAAL0FACHmAwEAuwUAIeoDAgCABgAh6wMgAO4FACGYBAAAiQYAIAMAAAAxACADAABsADAEAABtACAJHAAAgQYAIJoDAACIBgAwmwMAAG8AEJwDAACIBgAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAh5gMBALsFACHnAwAAvAUAIAEcAADWCgAgCRwAAIEGACCaAwAAiAYAMJsDAABvABCcAwAAiAYAMJ0DAQAAAAGeAwEAuwUAIaQDQAC9BQAh5gMBALsFACHnAwAAvAUAIAMAAABvACADAABwADAEAABxACADAAAAUgAgAwAAUwAwBAAAVAAgAwAAAFcAIAMAAFgAMAQAAFkAIAMAAAAnACADAAAoADAEAAApACADAAAALAAgAwAALQAwBAAALgAgERwAAIEGACCaAwAAhAYAMJsDAAB3ABCcAwAAhAYAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIbQDAACFBrQDIrYDAACGBrYDIrcDQAC9BQAhuANAAO8FACG5AwEA2QUAIboDAQDZBQAhuwMIAP8FACG8AxAAhwYAIb0DAQC7BQAhvgMgAO4FACEFHAAA1goAILgDAAC-BgAguQMAAL4GACC6AwAAvgYAILwDAAC-BgAgERwAAIEGACCaAwAAhAYAMJsDAAB3ABCcAwAAhAYAMJ0DAQAAAAGeAwEAuwUAIaQDQAC9BQAhtAMAAIUGtAMitgMAAIYGtgMitwNAAL0FACG4A0AA7wUAIbkDAQAAAAG6AwEA2QUAIbsDCAD_BQAhvAMQAIcGACG9AwEAuwUAIb4DIADuBQAhAwAAAHcAIAMAAHgAMAQAAHkAIAkcAACBBgAgmgMAAIIGADCbAwAAewAQnAMAAIIGADCdAwEAuwUAIZ4DAQC7BQAhnwMAAIMGsgMipANAAL0FACGyAwEA2QUAIQIcAADWCgAgsgMAAL4GACAJHAAAgQYAIJoDAACCBgAwmwMAAHsAEJwDAACCBgAwnQMBAAAAAZ4DAQC7BQAhnwMAAIMGsgMipANAAL0FACGyAwEA2QUAIQMAAAB7ACADAAB8ADAEAAB9ACANHAAAgQYAIJoDAAD-BQAwmwMAAH8AEJwDAAD-BQAwnQMBALsFACGeAwEAuwUAIZ8DAQC7BQAhoAMBALsFACGhAwEAuwUAIaIDCAD_BQAhowMCAIAGACGkA0AAvQUAIaUDQAC9BQAhARwAANYKACAOHAAAgQYAIJoDAAD-BQAwmwMAAH8AEJwDAAD-BQAwnQMBAAAAAZ4DAQC7BQAhnwMBALsFACGgAwEAuwUAIaEDAQC7BQAhogMIAP8FACGjAwIAgAYAIaQDQAC9BQAhpQNAAL0FACGXBAAA_QUAIAMAAAB_ACADAACAAQAwBAAAgQEAIAMAAABdACADAABeADAEAABfACABAAAAHAAgAQAAACAAIAEAAAAkACABAAAAMQAgAQAAAG8AIAEAAABSACABAAAAVwAgAQAAACcAIAEAAAAsACABAAAAdwAgAQAAAHsAIAEAAAB_ACABAAAAXQAgAQAAABoAICEeAADxBQAgIAAA9wUAICQAAPgFACAwAAD1BQAgMQAA_AUAIDIAAPAFACAzAADyBQAgNAAA8wUAIDUAAPQFACA2AAD2BQAgNwAA-QUAIDgAAPoFACA5AAD7BQAgmgMAAO0FADCbAwAAkgEAEJwDAADtBQAwnQMBALsFACGkA0AAvQUAIewDAQC7BQAh7gMBANkFACH2AwEAuwUAIYgEAQDZBQAhiQQBANkFACGKBAEAuwUAIYsEIADuBQAhjARAAO8FACGNBCAA7gUAIY4EAQDZBQAhjwRAAO8FACGQBEAA7wUAIZEEIADuBQAhkgQBANkFACGTBAEA2QUAIRYeAADKCgAgIAAA0AoAICQAANEKACAwAADOCgAgMQAA1QoAIDIAAMkKACAzAADLCgAgNAAAzAoAIDUAAM0KACA2AADPCgAgNwAA0goAIDgAANMKACA5AADUCgAg7gMAAL4GACCIBAAAvgYAIIkEAAC-BgAgjAQAAL4GACCOBAAAvgYAII8EAAC-BgAgkAQAAL4GACCSBAAAvgYAIJMEAAC-BgAgAwAAAJIBACADAACTAQAwBAAAGgAgAwAAAJIBACADAACTAQAwBAAAGgAgAwAAAJIBACADAACTAQAwBAAAGgAgHh4AAL0KACAgAADDCgAgJAAAxAoAIDAAAMEKACAxAADICgAgMgAAvAoAIDMAAL4KACA0AAC_CgAgNQAAwAoAIDYAAMIKACA3AADFCgAgOAAAxgoAIDkAAMcKACCdAwEAAAABpANAAAAAAewDAQAAAAHuAwEAAAAB9gMBAAAAAYgEAQAAAAGJBAEAAAABigQBAAAAAYsEIAAAAAGMBEAAAAABjQQgAAAAAY4EAQAAAAGPBEAAAAABkARAAAAAAZEEIAAAAAGSBAEAAAABkwQBAAAAAQEIAACXAQAgEZ0DAQAAAAGkA0AAAAAB7AMBAAAAAe4DAQAAAAH2AwEAAAABiAQBAAAAAYkEAQAAAAGKBAEAAAABiwQgAAAAAYwEQAAAAAGNBCAAAAABjgQBAAAAAY8EQAAAAAGQBEAAAAABkQQgAAAAAZIEAQAAAAGTBAEAAAABAQgAAJkBADABCAAAmQEAMB4eAACmCQAgIAAArAkAICQAAK0JACAwAACqCQAgMQAAsQkAIDIAAKUJACAzAACnCQAgNAAAqAkAIDUAAKkJACA2AACrCQAgNwAArgkAIDgAAK8JACA5AACwCQAgnQMBALgGACGkA0AAuwYAIewDAQC4BgAh7gMBAMMGACH2AwEAuAYAIYgEAQDDBgAhiQQBAMMGACGKBAEAuAYAIYsEIADPBgAhjARAAM0GACGNBCAAzwYAIY4EAQDDBgAhjwRAAM0GACGQBEAAzQYAIZEEIADPBgAhkgQBAMMGACGTBAEAwwYAIQIAAAAaACAIAACcAQAgEZ0DAQC4BgAhpANAALsGACHsAwEAuAYAIe4DAQDDBgAh9gMBALgGACGIBAEAwwYAIYkEAQDDBgAhigQBALgGACGLBCAAzwYAIYwEQADNBgAhjQQgAM8GACGOBAEAwwYAIY8EQADNBgAhkARAAM0GACGRBCAAzwYAIZIEAQDDBgAhkwQBAMMGACECAAAAkgEAIAgAAJ4BACACAAAAkgEAIAgAAJ4BACADAAAAGgAgDwAAlwEAIBAAAJwBACABAAAAGgAgAQAAAJIBACAMFQAAogkAIBgAAKQJACAZAACjCQAg7gMAAL4GACCIBAAAvgYAIIkEAAC-BgAgjAQAAL4GACCOBAAAvgYAII8EAAC-BgAgkAQAAL4GACCSBAAAvgYAIJMEAAC-BgAgFJoDAADsBQAwmwMAAKUBABCcAwAA7AUAMJ0DAQCTBQAhpANAAJYFACHsAwEAkwUAIe4DAQChBQAh9gMBAJMFACGIBAEAoQUAIYkEAQChBQAhigQBAJMFACGLBCAArAUAIYwEQACqBQAhjQQgAKwFACGOBAEAoQUAIY8EQACqBQAhkARAAKoFACGRBCAArAUAIZIEAQChBQAhkwQBAKEFACEDAAAAkgEAIAMAAKQBADAUAAClAQAgAwAAAJIBACADAACTAQAwBAAAGgAgAQAAAB4AIAEAAAAeACADAAAAHAAgAwAAHQAwBAAAHgAgAwAAABwAIAMAAB0AMAQAAB4AIAMAAAAcACADAAAdADAEAAAeACAPHAAAmgkAIB4AAJsJACAkAACgCQAgKwAAnAkAICwAAJ0JACAtAACeCQAgMAAAnwkAIDEAAKEJACCdAwEAAAABngMBAAAAAZ8DAAAAhwQCpANAAAAAAb0DAQAAAAHmAwEAAAABhwQgAAAAAQEIAACtAQAgB50DAQAAAAGeAwEAAAABnwMAAACHBAKkA0AAAAABvQMBAAAAAeYDAQAAAAGHBCAAAAABAQgAAK8BADABCAAArwEAMA8cAADKCAAgHgAAywgAICQAANAIACArAADMCAAgLAAAzQgAIC0AAM4IACAwAADPCAAgMQAA0QgAIJ0DAQC4BgAhngMBALgGACGfAwAAyQiHBCKkA0AAuwYAIb0DAQC4BgAh5gMBALgGACGHBCAAzwYAIQIAAAAeACAIAACyAQAgB50DAQC4BgAhngMBALgGACGfAwAAyQiHBCKkA0AAuwYAIb0DAQC4BgAh5gMBALgGACGHBCAAzwYAIQIAAAAcACAIAAC0AQAgAgAAABwAIAgAALQBACADAAAAHgAgDwAArQEAIBAAALIBACABAAAAHgAgAQAAABwAIAMVAADGCAAgGAAAyAgAIBkAAMcIACAKmgMAAOgFADCbAwAAuwEAEJwDAADoBQAwnQMBAJMFACGeAwEAkwUAIZ8DAADpBYcEIqQDQACWBQAhvQMBAJMFACHmAwEAkwUAIYcEIACsBQAhAwAAABwAIAMAALoBADAUAAC7AQAgAwAAABwAIAMAAB0AMAQAAB4AIAEAAABQACABAAAAUAAgAwAAAE4AIAMAAE8AMAQAAFAAIAMAAABOACADAABPADAEAABQACADAAAATgAgAwAATwAwBAAAUAAgBh0AAMUIACCdAwEAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAQEIAADDAQAgBZ0DAQAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHMAwEAAAABAQgAAMUBADABCAAAxQEAMAYdAADECAAgnQMBALgGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACHMAwEAuAYAIQIAAABQACAIAADIAQAgBZ0DAQC4BgAhuwMIALkGACG8AxAAzgYAIb0DAQC4BgAhzAMBALgGACECAAAATgAgCAAAygEAIAIAAABOACAIAADKAQAgAwAAAFAAIA8AAMMBACAQAADIAQAgAQAAAFAAIAEAAABOACAGFQAAvwgAIBYAAMAIACAXAADDCAAgGAAAwggAIBkAAMEIACC8AwAAvgYAIAiaAwAA5wUAMJsDAADRAQAQnAMAAOcFADCdAwEAkwUAIbsDCACUBQAhvAMQAKsFACG9AwEAkwUAIcwDAQCTBQAhAwAAAE4AIAMAANABADAUAADRAQAgAwAAAE4AIAMAAE8AMAQAAFAAIAEAAAAiACABAAAAIgAgAwAAACAAIAMAACEAMAQAACIAIAMAAAAgACADAAAhADAEAAAiACADAAAAIAAgAwAAIQAwBAAAIgAgHBwAAOcHACAdAADlBwAgHwEAAAABIQAA5gcAICIAAKQIACAnAADoBwAgKAAA6QcAICoAAOoHACCdAwEAAAABngMBAAAAAaQDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHMAwEAAAABzgMAAADOAwLPAwEAAAAB0AMBAAAAAdEDAQAAAAH9AwEAAAAB_gNAAAAAAf8DAQAAAAGABAEAAAABgQQIAAAAAYIEEAAAAAGDBAEAAAABhAQIAAAAAYUEEAAAAAEBCAAA2QEAIBUfAQAAAAGdAwEAAAABngMBAAAAAaQDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHMAwEAAAABzgMAAADOAwLPAwEAAAAB0AMBAAAAAdEDAQAAAAH9AwEAAAAB_gNAAAAAAf8DAQAAAAGABAEAAAABgQQIAAAAAYIEEAAAAAGDBAEAAAABhAQIAAAAAYUEEAAAAAEBCAAA2wEAMAEIAADbAQAwAQAAACQAIAEAAAAcACABAAAAHAAgAQAAADEAIBwcAADTBwAgHQAA0QcAIB8BAMMGACEhAADSBwAgIgAAoggAICcAANQHACAoAADVBwAgKgAA1gcAIJ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbsDCAC5BgAhvAMQAM4GACG9AwEAuAYAIcwDAQC4BgAhzgMAAOAGzgMizwMBAMMGACHQAwEAwwYAIdEDAQDDBgAh_QMBALgGACH-A0AAuwYAIf8DAQDDBgAhgAQBAMMGACGBBAgAzwcAIYIEEADOBgAhgwQBAMMGACGEBAgAzwcAIYUEEADOBgAhAgAAACIAIAgAAOIBACAVHwEAwwYAIZ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbsDCAC5BgAhvAMQAM4GACG9AwEAuAYAIcwDAQC4BgAhzgMAAOAGzgMizwMBAMMGACHQAwEAwwYAIdEDAQDDBgAh_QMBALgGACH-A0AAuwYAIf8DAQDDBgAhgAQBAMMGACGBBAgAzwcAIYIEEADOBgAhgwQBAMMGACGEBAgAzwcAIYUEEADOBgAhAgAAACAAIAgAAOQBACACAAAAIAAgCAAA5AEAIAEAAAAkACABAAAAHAAgAQAAABwAIAEAAAAxACADAAAAIgAgDwAA2QEAIBAAAOIBACABAAAAIgAgAQAAACAAIBEVAAC6CAAgFgAAuwgAIBcAAL4IACAYAAC9CAAgGQAAvAgAIB8AAL4GACC8AwAAvgYAIM8DAAC-BgAg0AMAAL4GACDRAwAAvgYAIP8DAAC-BgAggAQAAL4GACCBBAAAvgYAIIIEAAC-BgAggwQAAL4GACCEBAAAvgYAIIUEAAC-BgAgGB8BAKEFACGaAwAA5gUAMJsDAADvAQAQnAMAAOYFADCdAwEAkwUAIZ4DAQCTBQAhpANAAJYFACG7AwgAlAUAIbwDEACrBQAhvQMBAJMFACHMAwEAkwUAIc4DAADDBc4DIs8DAQChBQAh0AMBAKEFACHRAwEAoQUAIf0DAQCTBQAh_gNAAJYFACH_AwEAoQUAIYAEAQChBQAhgQQIAN8FACGCBBAAqwUAIYMEAQChBQAhhAQIAN8FACGFBBAAqwUAIQMAAAAgACADAADuAQAwFAAA7wEAIAMAAAAgACADAAAhADAEAAAiACABAAAASQAgAQAAAEkAIAMAAABHACADAABIADAEAABJACADAAAARwAgAwAASAAwBAAASQAgAwAAAEcAIAMAAEgAMAQAAEkAIAkpAAC5CAAgnQMBAAAAAaQDQAAAAAHJAwEAAAAB-AMAAAD4AwL5AwEAAAAB-gMBAAAAAfsDAQAAAAH8AwEAAAABAQgAAPcBACAInQMBAAAAAaQDQAAAAAHJAwEAAAAB-AMAAAD4AwL5AwEAAAAB-gMBAAAAAfsDAQAAAAH8AwEAAAABAQgAAPkBADABCAAA-QEAMAkpAAC4CAAgnQMBALgGACGkA0AAuwYAIckDAQC4BgAh-AMAAOEH-AMi-QMBALgGACH6AwEAuAYAIfsDAQDDBgAh_AMBAMMGACECAAAASQAgCAAA_AEAIAidAwEAuAYAIaQDQAC7BgAhyQMBALgGACH4AwAA4Qf4AyL5AwEAuAYAIfoDAQC4BgAh-wMBAMMGACH8AwEAwwYAIQIAAABHACAIAAD-AQAgAgAAAEcAIAgAAP4BACADAAAASQAgDwAA9wEAIBAAAPwBACABAAAASQAgAQAAAEcAIAUVAAC1CAAgGAAAtwgAIBkAALYIACD7AwAAvgYAIPwDAAC-BgAgC5oDAADiBQAwmwMAAIUCABCcAwAA4gUAMJ0DAQCTBQAhpANAAJYFACHJAwEAkwUAIfgDAADjBfgDIvkDAQCTBQAh-gMBAJMFACH7AwEAoQUAIfwDAQChBQAhAwAAAEcAIAMAAIQCADAUAACFAgAgAwAAAEcAIAMAAEgAMAQAAEkAIAEAAABfACABAAAAXwAgAwAAAF0AIAMAAF4AMAQAAF8AIAMAAABdACADAABeADAEAABfACADAAAAXQAgAwAAXgAwBAAAXwAgDBwAALMIACAdAAC0CAAgnQMBAAAAAZ4DAQAAAAGkA0AAAAABuwMIAAAAAb0DAQAAAAHMAwEAAAAB8ANAAAAAAfQDCAAAAAH1AwgAAAAB9gMBAAAAAQEIAACNAgAgCp0DAQAAAAGeAwEAAAABpANAAAAAAbsDCAAAAAG9AwEAAAABzAMBAAAAAfADQAAAAAH0AwgAAAAB9QMIAAAAAfYDAQAAAAEBCAAAjwIAMAEIAACPAgAwDBwAALEIACAdAACyCAAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAhuwMIALkGACG9AwEAuAYAIcwDAQC4BgAh8ANAALsGACH0AwgAzwcAIfUDCADPBwAh9gMBALgGACECAAAAXwAgCAAAkgIAIAqdAwEAuAYAIZ4DAQC4BgAhpANAALsGACG7AwgAuQYAIb0DAQC4BgAhzAMBALgGACHwA0AAuwYAIfQDCADPBwAh9QMIAM8HACH2AwEAuAYAIQIAAABdACAIAACUAgAgAgAAAF0AIAgAAJQCACADAAAAXwAgDwAAjQIAIBAAAJICACABAAAAXwAgAQAAAF0AIAcVAACsCAAgFgAArQgAIBcAALAIACAYAACvCAAgGQAArggAIPQDAAC-BgAg9QMAAL4GACANmgMAAN4FADCbAwAAmwIAEJwDAADeBQAwnQMBAJMFACGeAwEAkwUAIaQDQACWBQAhuwMIAJQFACG9AwEAkwUAIcwDAQCTBQAh8ANAAJYFACH0AwgA3wUAIfUDCADfBQAh9gMBAJMFACEDAAAAXQAgAwAAmgIAMBQAAJsCACADAAAAXQAgAwAAXgAwBAAAXwAgCpoDAADcBQAwmwMAAKECABCcAwAA3AUAMJ0DAQAAAAGkA0AAvQUAIaUDQAC9BQAh8ANAAL0FACHxAwEAuwUAIfIDAAC8BQAg8wMAAN0FACABAAAAngIAIAEAAACeAgAgCZoDAADcBQAwmwMAAKECABCcAwAA3AUAMJ0DAQC7BQAhpANAAL0FACGlA0AAvQUAIfADQAC9BQAh8QMBALsFACHyAwAAvAUAIAADAAAAoQIAIAMAAKICADAEAACeAgAgAwAAAKECACADAACiAgAwBAAAngIAIAMAAAChAgAgAwAAogIAMAQAAJ4CACAGnQMBAAAAAaQDQAAAAAGlA0AAAAAB8ANAAAAAAfEDAQAAAAHyA4AAAAABAQgAAKYCACAGnQMBAAAAAaQDQAAAAAGlA0AAAAAB8ANAAAAAAfEDAQAAAAHyA4AAAAABAQgAAKgCADABCAAAqAIAMAadAwEAuAYAIaQDQAC7BgAhpQNAALsGACHwA0AAuwYAIfEDAQC4BgAh8gOAAAAAAQIAAACeAgAgCAAAqwIAIAadAwEAuAYAIaQDQAC7BgAhpQNAALsGACHwA0AAuwYAIfEDAQC4BgAh8gOAAAAAAQIAAAChAgAgCAAArQIAIAIAAAChAgAgCAAArQIAIAMAAACeAgAgDwAApgIAIBAAAKsCACABAAAAngIAIAEAAAChAgAgAxUAAKkIACAYAACrCAAgGQAAqggAIAmaAwAA2wUAMJsDAAC0AgAQnAMAANsFADCdAwEAkwUAIaQDQACWBQAhpQNAAJYFACHwA0AAlgUAIfEDAQCTBQAh8gMAALgFACADAAAAoQIAIAMAALMCADAUAAC0AgAgAwAAAKECACADAACiAgAwBAAAngIAIAEAAABqACABAAAAagAgAwAAACQAIAMAAGkAMAQAAGoAIAMAAAAkACADAABpADAEAABqACADAAAAJAAgAwAAaQAwBAAAagAgCRwAAKUIACAeAACmCAAgIAAApwgAICQAAKgIACCdAwEAAAABngMBAAAAAaQDQAAAAAHmAwEAAAAB6wMgAAAAAQEIAAC8AgAgBZ0DAQAAAAGeAwEAAAABpANAAAAAAeYDAQAAAAHrAyAAAAABAQgAAL4CADABCAAAvgIAMAkcAACBCAAgHgAAgggAICAAAIMIACAkAACECAAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAh5gMBALgGACHrAyAAzwYAIQIAAABqACAIAADBAgAgBZ0DAQC4BgAhngMBALgGACGkA0AAuwYAIeYDAQC4BgAh6wMgAM8GACECAAAAJAAgCAAAwwIAIAIAAAAkACAIAADDAgAgAwAAAGoAIA8AALwCACAQAADBAgAgAQAAAGoAIAEAAAAkACADFQAA_gcAIBgAAIAIACAZAAD_BwAgCJoDAADaBQAwmwMAAMoCABCcAwAA2gUAMJ0DAQCTBQAhngMBAJMFACGkA0AAlgUAIeYDAQCTBQAh6wMgAKwFACEDAAAAJAAgAwAAyQIAMBQAAMoCACADAAAAJAAgAwAAaQAwBAAAagAgCpoDAADYBQAwmwMAANACABCcAwAA2AUAMJ0DAQAAAAGkA0AAvQUAIaUDQAC9BQAh7AMBAAAAAe0DAQDZBQAh7gMBANkFACHvA0AAvQUAIQEAAADNAgAgAQAAAM0CACAKmgMAANgFADCbAwAA0AIAEJwDAADYBQAwnQMBALsFACGkA0AAvQUAIaUDQAC9BQAh7AMBALsFACHtAwEA2QUAIe4DAQDZBQAh7wNAAL0FACEC7QMAAL4GACDuAwAAvgYAIAMAAADQAgAgAwAA0QIAMAQAAM0CACADAAAA0AIAIAMAANECADAEAADNAgAgAwAAANACACADAADRAgAwBAAAzQIAIAedAwEAAAABpANAAAAAAaUDQAAAAAHsAwEAAAAB7QMBAAAAAe4DAQAAAAHvA0AAAAABAQgAANUCACAHnQMBAAAAAaQDQAAAAAGlA0AAAAAB7AMBAAAAAe0DAQAAAAHuAwEAAAAB7wNAAAAAAQEIAADXAgAwAQgAANcCADAHnQMBALgGACGkA0AAuwYAIaUDQAC7BgAh7AMBALgGACHtAwEAwwYAIe4DAQDDBgAh7wNAALsGACECAAAAzQIAIAgAANoCACAHnQMBALgGACGkA0AAuwYAIaUDQAC7BgAh7AMBALgGACHtAwEAwwYAIe4DAQDDBgAh7wNAALsGACECAAAA0AIAIAgAANwCACACAAAA0AIAIAgAANwCACADAAAAzQIAIA8AANUCACAQAADaAgAgAQAAAM0CACABAAAA0AIAIAUVAAD7BwAgGAAA_QcAIBkAAPwHACDtAwAAvgYAIO4DAAC-BgAgCpoDAADXBQAwmwMAAOMCABCcAwAA1wUAMJ0DAQCTBQAhpANAAJYFACGlA0AAlgUAIewDAQCTBQAh7QMBAKEFACHuAwEAoQUAIe8DQACWBQAhAwAAANACACADAADiAgAwFAAA4wIAIAMAAADQAgAgAwAA0QIAMAQAAM0CACABAAAAbQAgAQAAAG0AIAMAAAAxACADAABsADAEAABtACADAAAAMQAgAwAAbAAwBAAAbQAgAwAAADEAIAMAAGwAMAQAAG0AIAocAAD3BwAgHgAA-QcAICMAAPgHACAkAAD6BwAgnQMBAAAAAZ4DAQAAAAGkA0AAAAAB5gMBAAAAAeoDAgAAAAHrAyAAAAABAQgAAOsCACAGnQMBAAAAAZ4DAQAAAAGkA0AAAAAB5gMBAAAAAeoDAgAAAAHrAyAAAAABAQgAAO0CADABCAAA7QIAMAocAAC1BwAgHgAAtwcAICMAALYHACAkAAC4BwAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAh5gMBALgGACHqAwIAugYAIesDIADPBgAhAgAAAG0AIAgAAPACACAGnQMBALgGACGeAwEAuAYAIaQDQAC7BgAh5gMBALgGACHqAwIAugYAIesDIADPBgAhAgAAADEAIAgAAPICACACAAAAMQAgCAAA8gIAIAMAAABtACAPAADrAgAgEAAA8AIAIAEAAABtACABAAAAMQAgBRUAALAHACAWAACxBwAgFwAAtAcAIBgAALMHACAZAACyBwAgCZoDAADWBQAwmwMAAPkCABCcAwAA1gUAMJ0DAQCTBQAhngMBAJMFACGkA0AAlgUAIeYDAQCTBQAh6gMCAJUFACHrAyAArAUAIQMAAAAxACADAAD4AgAwFAAA-QIAIAMAAAAxACADAABsADAEAABtACABAAAANQAgAQAAADUAIAMAAAAzACADAAA0ADAEAAA1ACADAAAAMwAgAwAANAAwBAAANQAgAwAAADMAIAMAADQAMAQAADUAIAUiAACvBwAgnQMBAAAAAaQDQAAAAAHQAwEAAAAB6QMBAAAAAQEIAACBAwAgBJ0DAQAAAAGkA0AAAAAB0AMBAAAAAekDAQAAAAEBCAAAgwMAMAEIAACDAwAwBSIAAK4HACCdAwEAuAYAIaQDQAC7BgAh0AMBALgGACHpAwEAuAYAIQIAAAA1ACAIAACGAwAgBJ0DAQC4BgAhpANAALsGACHQAwEAuAYAIekDAQC4BgAhAgAAADMAIAgAAIgDACACAAAAMwAgCAAAiAMAIAMAAAA1ACAPAACBAwAgEAAAhgMAIAEAAAA1ACABAAAAMwAgAxUAAKsHACAYAACtBwAgGQAArAcAIAeaAwAA1QUAMJsDAACPAwAQnAMAANUFADCdAwEAkwUAIaQDQACWBQAh0AMBAJMFACHpAwEAkwUAIQMAAAAzACADAACOAwAwFAAAjwMAIAMAAAAzACADAAA0ADAEAAA1ACAImgMAANQFADCbAwAAlQMAEJwDAADUBQAwnQMBAAAAAZ4DAQC7BQAhpANAAL0FACGyAwEAuwUAIegDAQC7BQAhAQAAAJIDACABAAAAkgMAIAiaAwAA1AUAMJsDAACVAwAQnAMAANQFADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACGyAwEAuwUAIegDAQC7BQAhAAMAAACVAwAgAwAAlgMAMAQAAJIDACADAAAAlQMAIAMAAJYDADAEAACSAwAgAwAAAJUDACADAACWAwAwBAAAkgMAIAWdAwEAAAABngMBAAAAAaQDQAAAAAGyAwEAAAAB6AMBAAAAAQEIAACaAwAgBZ0DAQAAAAGeAwEAAAABpANAAAAAAbIDAQAAAAHoAwEAAAABAQgAAJwDADABCAAAnAMAMAWdAwEAuAYAIZ4DAQC4BgAhpANAALsGACGyAwEAuAYAIegDAQC4BgAhAgAAAJIDACAIAACfAwAgBZ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbIDAQC4BgAh6AMBALgGACECAAAAlQMAIAgAAKEDACACAAAAlQMAIAgAAKEDACADAAAAkgMAIA8AAJoDACAQAACfAwAgAQAAAJIDACABAAAAlQMAIAMVAACoBwAgGAAAqgcAIBkAAKkHACAImgMAANMFADCbAwAAqAMAEJwDAADTBQAwnQMBAJMFACGeAwEAkwUAIaQDQACWBQAhsgMBAJMFACHoAwEAkwUAIQMAAACVAwAgAwAApwMAMBQAAKgDACADAAAAlQMAIAMAAJYDADAEAACSAwAgAQAAAHEAIAEAAABxACADAAAAbwAgAwAAcAAwBAAAcQAgAwAAAG8AIAMAAHAAMAQAAHEAIAMAAABvACADAABwADAEAABxACAGHAAApwcAIJ0DAQAAAAGeAwEAAAABpANAAAAAAeYDAQAAAAHnA4AAAAABAQgAALADACAFnQMBAAAAAZ4DAQAAAAGkA0AAAAAB5gMBAAAAAecDgAAAAAEBCAAAsgMAMAEIAACyAwAwBhwAAKYHACCdAwEAuAYAIZ4DAQC4BgAhpANAALsGACHmAwEAuAYAIecDgAAAAAECAAAAcQAgCAAAtQMAIAWdAwEAuAYAIZ4DAQC4BgAhpANAALsGACHmAwEAuAYAIecDgAAAAAECAAAAbwAgCAAAtwMAIAIAAABvACAIAAC3AwAgAwAAAHEAIA8AALADACAQAAC1AwAgAQAAAHEAIAEAAABvACADFQAAowcAIBgAAKUHACAZAACkBwAgCJoDAADSBQAwmwMAAL4DABCcAwAA0gUAMJ0DAQCTBQAhngMBAJMFACGkA0AAlgUAIeYDAQCTBQAh5wMAALgFACADAAAAbwAgAwAAvQMAMBQAAL4DACADAAAAbwAgAwAAcAAwBAAAcQAgAQAAAFQAIAEAAABUACADAAAAUgAgAwAAUwAwBAAAVAAgAwAAAFIAIAMAAFMAMAQAAFQAIAMAAABSACADAABTADAEAABUACAOHAAAoAcAIB0AAKEHACAvAACiBwAgnQMBAAAAAZ4DAQAAAAGfAwAAAOEDAqQDQAAAAAG9AwEAAAABzAMBAAAAAc8DAQAAAAHhAwgAAAAB4gMQAAAAAeQDAAAA5AMC5QMgAAAAAQEIAADGAwAgC50DAQAAAAGeAwEAAAABnwMAAADhAwKkA0AAAAABvQMBAAAAAcwDAQAAAAHPAwEAAAAB4QMIAAAAAeIDEAAAAAHkAwAAAOQDAuUDIAAAAAEBCAAAyAMAMAEIAADIAwAwAQAAABwAIA4cAACRBwAgHQAAkgcAIC8AAJMHACCdAwEAuAYAIZ4DAQC4BgAhnwMAAI8H4QMipANAALsGACG9AwEAwwYAIcwDAQDDBgAhzwMBAMMGACHhAwgAuQYAIeIDEADOBgAh5AMAAJAH5AMi5QMgAM8GACECAAAAVAAgCAAAzAMAIAudAwEAuAYAIZ4DAQC4BgAhnwMAAI8H4QMipANAALsGACG9AwEAwwYAIcwDAQDDBgAhzwMBAMMGACHhAwgAuQYAIeIDEADOBgAh5AMAAJAH5AMi5QMgAM8GACECAAAAUgAgCAAAzgMAIAIAAABSACAIAADOAwAgAQAAABwAIAMAAABUACAPAADGAwAgEAAAzAMAIAEAAABUACABAAAAUgAgCRUAAIoHACAWAACLBwAgFwAAjgcAIBgAAI0HACAZAACMBwAgvQMAAL4GACDMAwAAvgYAIM8DAAC-BgAg4gMAAL4GACAOmgMAAMsFADCbAwAA1gMAEJwDAADLBQAwnQMBAJMFACGeAwEAkwUAIZ8DAADMBeEDIqQDQACWBQAhvQMBAKEFACHMAwEAoQUAIc8DAQChBQAh4QMIAJQFACHiAxAAqwUAIeQDAADNBeQDIuUDIACsBQAhAwAAAFIAIAMAANUDADAUAADWAwAgAwAAAFIAIAMAAFMAMAQAAFQAIAEAAABZACABAAAAWQAgAwAAAFcAIAMAAFgAMAQAAFkAIAMAAABXACADAABYADAEAABZACADAAAAVwAgAwAAWAAwBAAAWQAgCxwAAIgHACAuAACJBwAgnQMBAAAAAZ4DAQAAAAGkA0AAAAABuwMIAAAAAbwDEAAAAAHJAwEAAAAB3QMBAAAAAd4DAQAAAAHfAwEAAAABAQgAAN4DACAJnQMBAAAAAZ4DAQAAAAGkA0AAAAABuwMIAAAAAbwDEAAAAAHJAwEAAAAB3QMBAAAAAd4DAQAAAAHfAwEAAAABAQgAAOADADABCAAA4AMAMAscAACGBwAgLgAAhwcAIJ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbsDCAC5BgAhvAMQAM4GACHJAwEAwwYAId0DAQC4BgAh3gMBALgGACHfAwEAuAYAIQIAAABZACAIAADjAwAgCZ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbsDCAC5BgAhvAMQAM4GACHJAwEAwwYAId0DAQC4BgAh3gMBALgGACHfAwEAuAYAIQIAAABXACAIAADlAwAgAgAAAFcAIAgAAOUDACADAAAAWQAgDwAA3gMAIBAAAOMDACABAAAAWQAgAQAAAFcAIAcVAACBBwAgFgAAggcAIBcAAIUHACAYAACEBwAgGQAAgwcAILwDAAC-BgAgyQMAAL4GACAMmgMAAMoFADCbAwAA7AMAEJwDAADKBQAwnQMBAJMFACGeAwEAkwUAIaQDQACWBQAhuwMIAJQFACG8AxAAqwUAIckDAQChBQAh3QMBAJMFACHeAwEAkwUAId8DAQCTBQAhAwAAAFcAIAMAAOsDADAUAADsAwAgAwAAAFcAIAMAAFgAMAQAAFkAIAEAAAApACABAAAAKQAgAwAAACcAIAMAACgAMAQAACkAIAMAAAAnACADAAAoADAEAAApACADAAAAJwAgAwAAKAAwBAAAKQAgDBwAAP8GACAfAACABwAgnQMBAAAAAZ4DAQAAAAGkA0AAAAABpQNAAAAAAc8DAQAAAAHYAwgAAAAB2QMQAAAAAdoDIAAAAAHbAwEAAAAB3AMCAAAAAQEIAAD0AwAgCp0DAQAAAAGeAwEAAAABpANAAAAAAaUDQAAAAAHPAwEAAAAB2AMIAAAAAdkDEAAAAAHaAyAAAAAB2wMBAAAAAdwDAgAAAAEBCAAA9gMAMAEIAAD2AwAwAQAAACQAIAwcAAD9BgAgHwAA_gYAIJ0DAQC4BgAhngMBALgGACGkA0AAuwYAIaUDQAC7BgAhzwMBAMMGACHYAwgAuQYAIdkDEADOBgAh2gMgAM8GACHbAwEAwwYAIdwDAgC6BgAhAgAAACkAIAgAAPoDACAKnQMBALgGACGeAwEAuAYAIaQDQAC7BgAhpQNAALsGACHPAwEAwwYAIdgDCAC5BgAh2QMQAM4GACHaAyAAzwYAIdsDAQDDBgAh3AMCALoGACECAAAAJwAgCAAA_AMAIAIAAAAnACAIAAD8AwAgAQAAACQAIAMAAAApACAPAAD0AwAgEAAA-gMAIAEAAAApACABAAAAJwAgCBUAAPgGACAWAAD5BgAgFwAA_AYAIBgAAPsGACAZAAD6BgAgzwMAAL4GACDZAwAAvgYAINsDAAC-BgAgDZoDAADJBQAwmwMAAIQEABCcAwAAyQUAMJ0DAQCTBQAhngMBAJMFACGkA0AAlgUAIaUDQACWBQAhzwMBAKEFACHYAwgAlAUAIdkDEACrBQAh2gMgAKwFACHbAwEAoQUAIdwDAgCVBQAhAwAAACcAIAMAAIMEADAUAACEBAAgAwAAACcAIAMAACgAMAQAACkAIAEAAAAuACABAAAALgAgAwAAACwAIAMAAC0AMAQAAC4AIAMAAAAsACADAAAtADAEAAAuACADAAAALAAgAwAALQAwBAAALgAgFxwAAPMGACAdAAD0BgAgHwEAAAABIQAA9QYAICIAAPYGACAmAAD3BgAgnQMBAAAAAZ4DAQAAAAGkA0AAAAABtwNAAAAAAbsDCAAAAAG8AxAAAAABvQMBAAAAAcwDAQAAAAHOAwAAAM4DAs8DAQAAAAHQAwEAAAAB0QMBAAAAAdMDAAAA0wMC1AMCAAAAAdUDAQAAAAHWA0AAAAAB1wMgAAAAAQEIAACMBAAgEh8BAAAAAZ0DAQAAAAGeAwEAAAABpANAAAAAAbcDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHMAwEAAAABzgMAAADOAwLPAwEAAAAB0AMBAAAAAdEDAQAAAAHTAwAAANMDAtQDAgAAAAHVAwEAAAAB1gNAAAAAAdcDIAAAAAEBCAAAjgQAMAEIAACOBAAwAQAAACQAIAEAAAAxACAXHAAA4gYAIB0AAOMGACAfAQDDBgAhIQAA5AYAICIAAOUGACAmAADmBgAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAhtwNAALsGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACHMAwEAuAYAIc4DAADgBs4DIs8DAQDDBgAh0AMBAMMGACHRAwEAuAYAIdMDAADhBtMDItQDAgC6BgAh1QMBAMMGACHWA0AAuwYAIdcDIADPBgAhAgAAAC4AIAgAAJMEACASHwEAwwYAIZ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbcDQAC7BgAhuwMIALkGACG8AxAAzgYAIb0DAQC4BgAhzAMBALgGACHOAwAA4AbOAyLPAwEAwwYAIdADAQDDBgAh0QMBALgGACHTAwAA4QbTAyLUAwIAugYAIdUDAQDDBgAh1gNAALsGACHXAyAAzwYAIQIAAAAsACAIAACVBAAgAgAAACwAIAgAAJUEACABAAAAJAAgAQAAADEAIAMAAAAuACAPAACMBAAgEAAAkwQAIAEAAAAuACABAAAALAAgChUAANsGACAWAADcBgAgFwAA3wYAIBgAAN4GACAZAADdBgAgHwAAvgYAILwDAAC-BgAgzwMAAL4GACDQAwAAvgYAINUDAAC-BgAgFR8BAKEFACGaAwAAwgUAMJsDAACeBAAQnAMAAMIFADCdAwEAkwUAIZ4DAQCTBQAhpANAAJYFACG3A0AAlgUAIbsDCACUBQAhvAMQAKsFACG9AwEAkwUAIcwDAQCTBQAhzgMAAMMFzgMizwMBAKEFACHQAwEAoQUAIdEDAQCTBQAh0wMAAMQF0wMi1AMCAJUFACHVAwEAoQUAIdYDQACWBQAh1wMgAKwFACEDAAAALAAgAwAAnQQAMBQAAJ4EACADAAAALAAgAwAALQAwBAAALgAgAQAAAD4AIAEAAAA-ACADAAAAPAAgAwAAPQAwBAAAPgAgAwAAADwAIAMAAD0AMAQAAD4AIAMAAAA8ACADAAA9ADAEAAA-ACAJJQAA2gYAIJ0DAQAAAAGkA0AAAAABtgMAAADJAwLGAwEAAAABxwNAAAAAAckDAQAAAAHKA0AAAAABywNAAAAAAQEIAACmBAAgCJ0DAQAAAAGkA0AAAAABtgMAAADJAwLGAwEAAAABxwNAAAAAAckDAQAAAAHKA0AAAAABywNAAAAAAQEIAACoBAAwAQgAAKgEADAJJQAA2QYAIJ0DAQC4BgAhpANAALsGACG2AwAA2AbJAyLGAwEAuAYAIccDQAC7BgAhyQMBAMMGACHKA0AAzQYAIcsDQADNBgAhAgAAAD4AIAgAAKsEACAInQMBALgGACGkA0AAuwYAIbYDAADYBskDIsYDAQC4BgAhxwNAALsGACHJAwEAwwYAIcoDQADNBgAhywNAAM0GACECAAAAPAAgCAAArQQAIAIAAAA8ACAIAACtBAAgAwAAAD4AIA8AAKYEACAQAACrBAAgAQAAAD4AIAEAAAA8ACAGFQAA1QYAIBgAANcGACAZAADWBgAgyQMAAL4GACDKAwAAvgYAIMsDAAC-BgAgC5oDAAC-BQAwmwMAALQEABCcAwAAvgUAMJ0DAQCTBQAhpANAAJYFACG2AwAAvwXJAyLGAwEAkwUAIccDQACWBQAhyQMBAKEFACHKA0AAqgUAIcsDQACqBQAhAwAAADwAIAMAALMEADAUAAC0BAAgAwAAADwAIAMAAD0AMAQAAD4AIAcIAAC8BQAgmgMAALoFADCbAwAAugQAEJwDAAC6BQAwoAMBAAAAAaUDQAC9BQAhvwNAAL0FACEBAAAAtwQAIAEAAAC3BAAgBwgAALwFACCaAwAAugUAMJsDAAC6BAAQnAMAALoFADCgAwEAuwUAIaUDQAC9BQAhvwNAAL0FACEAAwAAALoEACADAAC7BAAwBAAAtwQAIAMAAAC6BAAgAwAAuwQAMAQAALcEACADAAAAugQAIAMAALsEADAEAAC3BAAgBAiAAAAAAaADAQAAAAGlA0AAAAABvwNAAAAAAQEIAAC_BAAgBAiAAAAAAaADAQAAAAGlA0AAAAABvwNAAAAAAQEIAADBBAAwAQgAAMEEADAECIAAAAABoAMBALgGACGlA0AAuwYAIb8DQAC7BgAhAgAAALcEACAIAADEBAAgBAiAAAAAAaADAQC4BgAhpQNAALsGACG_A0AAuwYAIQIAAAC6BAAgCAAAxgQAIAIAAAC6BAAgCAAAxgQAIAMAAAC3BAAgDwAAvwQAIBAAAMQEACABAAAAtwQAIAEAAAC6BAAgAxUAANIGACAYAADUBgAgGQAA0wYAIAcIAAC4BQAgmgMAALcFADCbAwAAzQQAEJwDAAC3BQAwoAMBAJMFACGlA0AAlgUAIb8DQACWBQAhAwAAALoEACADAADMBAAwFAAAzQQAIAMAAAC6BAAgAwAAuwQAMAQAALcEACABAAAAeQAgAQAAAHkAIAMAAAB3ACADAAB4ADAEAAB5ACADAAAAdwAgAwAAeAAwBAAAeQAgAwAAAHcAIAMAAHgAMAQAAHkAIA4cAADRBgAgnQMBAAAAAZ4DAQAAAAGkA0AAAAABtAMAAAC0AwK2AwAAALYDArcDQAAAAAG4A0AAAAABuQMBAAAAAboDAQAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAG-AyAAAAABAQgAANUEACANnQMBAAAAAZ4DAQAAAAGkA0AAAAABtAMAAAC0AwK2AwAAALYDArcDQAAAAAG4A0AAAAABuQMBAAAAAboDAQAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAG-AyAAAAABAQgAANcEADABCAAA1wQAMA4cAADQBgAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAhtAMAAMsGtAMitgMAAMwGtgMitwNAALsGACG4A0AAzQYAIbkDAQDDBgAhugMBAMMGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACG-AyAAzwYAIQIAAAB5ACAIAADaBAAgDZ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbQDAADLBrQDIrYDAADMBrYDIrcDQAC7BgAhuANAAM0GACG5AwEAwwYAIboDAQDDBgAhuwMIALkGACG8AxAAzgYAIb0DAQC4BgAhvgMgAM8GACECAAAAdwAgCAAA3AQAIAIAAAB3ACAIAADcBAAgAwAAAHkAIA8AANUEACAQAADaBAAgAQAAAHkAIAEAAAB3ACAJFQAAxgYAIBYAAMcGACAXAADKBgAgGAAAyQYAIBkAAMgGACC4AwAAvgYAILkDAAC-BgAgugMAAL4GACC8AwAAvgYAIBCaAwAApwUAMJsDAADjBAAQnAMAAKcFADCdAwEAkwUAIZ4DAQCTBQAhpANAAJYFACG0AwAAqAW0AyK2AwAAqQW2AyK3A0AAlgUAIbgDQACqBQAhuQMBAKEFACG6AwEAoQUAIbsDCACUBQAhvAMQAKsFACG9AwEAkwUAIb4DIACsBQAhAwAAAHcAIAMAAOIEADAUAADjBAAgAwAAAHcAIAMAAHgAMAQAAHkAIAEAAAB9ACABAAAAfQAgAwAAAHsAIAMAAHwAMAQAAH0AIAMAAAB7ACADAAB8ADAEAAB9ACADAAAAewAgAwAAfAAwBAAAfQAgBhwAAMUGACCdAwEAAAABngMBAAAAAZ8DAAAAsgMCpANAAAAAAbIDAQAAAAEBCAAA6wQAIAWdAwEAAAABngMBAAAAAZ8DAAAAsgMCpANAAAAAAbIDAQAAAAEBCAAA7QQAMAEIAADtBAAwBhwAAMQGACCdAwEAuAYAIZ4DAQC4BgAhnwMAAMIGsgMipANAALsGACGyAwEAwwYAIQIAAAB9ACAIAADwBAAgBZ0DAQC4BgAhngMBALgGACGfAwAAwgayAyKkA0AAuwYAIbIDAQDDBgAhAgAAAHsAIAgAAPIEACACAAAAewAgCAAA8gQAIAMAAAB9ACAPAADrBAAgEAAA8AQAIAEAAAB9ACABAAAAewAgBBUAAL8GACAYAADBBgAgGQAAwAYAILIDAAC-BgAgCJoDAACfBQAwmwMAAPkEABCcAwAAnwUAMJ0DAQCTBQAhngMBAJMFACGfAwAAoAWyAyKkA0AAlgUAIbIDAQChBQAhAwAAAHsAIAMAAPgEADAUAAD5BAAgAwAAAHsAIAMAAHwAMAQAAH0AIAEAAACBAQAgAQAAAIEBACADAAAAfwAgAwAAgAEAMAQAAIEBACADAAAAfwAgAwAAgAEAMAQAAIEBACADAAAAfwAgAwAAgAEAMAQAAIEBACAKHAAAvQYAIJ0DAQAAAAGeAwEAAAABnwMBAAAAAaADAQAAAAGhAwEAAAABogMIAAAAAaMDAgAAAAGkA0AAAAABpQNAAAAAAQEIAACBBQAgCZ0DAQAAAAGeAwEAAAABnwMBAAAAAaADAQAAAAGhAwEAAAABogMIAAAAAaMDAgAAAAGkA0AAAAABpQNAAAAAAQEIAACDBQAwAQgAAIMFADAKHAAAvAYAIJ0DAQC4BgAhngMBALgGACGfAwEAuAYAIaADAQC4BgAhoQMBALgGACGiAwgAuQYAIaMDAgC6BgAhpANAALsGACGlA0AAuwYAIQIAAACBAQAgCAAAhgUAIAmdAwEAuAYAIZ4DAQC4BgAhnwMBALgGACGgAwEAuAYAIaEDAQC4BgAhogMIALkGACGjAwIAugYAIaQDQAC7BgAhpQNAALsGACECAAAAfwAgCAAAiAUAIAIAAAB_ACAIAACIBQAgAwAAAIEBACAPAACBBQAgEAAAhgUAIAEAAACBAQAgAQAAAH8AIAUVAACzBgAgFgAAtAYAIBcAALcGACAYAAC2BgAgGQAAtQYAIAyaAwAAkgUAMJsDAACPBQAQnAMAAJIFADCdAwEAkwUAIZ4DAQCTBQAhnwMBAJMFACGgAwEAkwUAIaEDAQCTBQAhogMIAJQFACGjAwIAlQUAIaQDQACWBQAhpQNAAJYFACEDAAAAfwAgAwAAjgUAMBQAAI8FACADAAAAfwAgAwAAgAEAMAQAAIEBACAMmgMAAJIFADCbAwAAjwUAEJwDAACSBQAwnQMBAJMFACGeAwEAkwUAIZ8DAQCTBQAhoAMBAJMFACGhAwEAkwUAIaIDCACUBQAhowMCAJUFACGkA0AAlgUAIaUDQACWBQAhDhUAAJgFACAYAACeBQAgGQAAngUAIKYDAQAAAAGnAwEAAAAEqAMBAAAABKkDAQAAAAGqAwEAAAABqwMBAAAAAawDAQAAAAGtAwEAnQUAIa4DAQAAAAGvAwEAAAABsAMBAAAAAQ0VAACYBQAgFgAAmwUAIBcAAJsFACAYAACbBQAgGQAAmwUAIKYDCAAAAAGnAwgAAAAEqAMIAAAABKkDCAAAAAGqAwgAAAABqwMIAAAAAawDCAAAAAGtAwgAnAUAIQ0VAACYBQAgFgAAmwUAIBcAAJgFACAYAACYBQAgGQAAmAUAIKYDAgAAAAGnAwIAAAAEqAMCAAAABKkDAgAAAAGqAwIAAAABqwMCAAAAAawDAgAAAAGtAwIAmgUAIQsVAACYBQAgGAAAmQUAIBkAAJkFACCmA0AAAAABpwNAAAAABKgDQAAAAASpA0AAAAABqgNAAAAAAasDQAAAAAGsA0AAAAABrQNAAJcFACELFQAAmAUAIBgAAJkFACAZAACZBQAgpgNAAAAAAacDQAAAAASoA0AAAAAEqQNAAAAAAaoDQAAAAAGrA0AAAAABrANAAAAAAa0DQACXBQAhCKYDAgAAAAGnAwIAAAAEqAMCAAAABKkDAgAAAAGqAwIAAAABqwMCAAAAAawDAgAAAAGtAwIAmAUAIQimA0AAAAABpwNAAAAABKgDQAAAAASpA0AAAAABqgNAAAAAAasDQAAAAAGsA0AAAAABrQNAAJkFACENFQAAmAUAIBYAAJsFACAXAACYBQAgGAAAmAUAIBkAAJgFACCmAwIAAAABpwMCAAAABKgDAgAAAASpAwIAAAABqgMCAAAAAasDAgAAAAGsAwIAAAABrQMCAJoFACEIpgMIAAAAAacDCAAAAASoAwgAAAAEqQMIAAAAAaoDCAAAAAGrAwgAAAABrAMIAAAAAa0DCACbBQAhDRUAAJgFACAWAACbBQAgFwAAmwUAIBgAAJsFACAZAACbBQAgpgMIAAAAAacDCAAAAASoAwgAAAAEqQMIAAAAAaoDCAAAAAGrAwgAAAABrAMIAAAAAa0DCACcBQAhDhUAAJgFACAYAACeBQAgGQAAngUAIKYDAQAAAAGnAwEAAAAEqAMBAAAABKkDAQAAAAGqAwEAAAABqwMBAAAAAawDAQAAAAGtAwEAnQUAIa4DAQAAAAGvAwEAAAABsAMBAAAAAQumAwEAAAABpwMBAAAABKgDAQAAAASpAwEAAAABqgMBAAAAAasDAQAAAAGsAwEAAAABrQMBAJ4FACGuAwEAAAABrwMBAAAAAbADAQAAAAEImgMAAJ8FADCbAwAA-QQAEJwDAACfBQAwnQMBAJMFACGeAwEAkwUAIZ8DAACgBbIDIqQDQACWBQAhsgMBAKEFACEHFQAAmAUAIBgAAKYFACAZAACmBQAgpgMAAACyAwKnAwAAALIDCKgDAAAAsgMIrQMAAKUFsgMiDhUAAKMFACAYAACkBQAgGQAApAUAIKYDAQAAAAGnAwEAAAAFqAMBAAAABakDAQAAAAGqAwEAAAABqwMBAAAAAawDAQAAAAGtAwEAogUAIa4DAQAAAAGvAwEAAAABsAMBAAAAAQ4VAACjBQAgGAAApAUAIBkAAKQFACCmAwEAAAABpwMBAAAABagDAQAAAAWpAwEAAAABqgMBAAAAAasDAQAAAAGsAwEAAAABrQMBAKIFACGuAwEAAAABrwMBAAAAAbADAQAAAAEIpgMCAAAAAacDAgAAAAWoAwIAAAAFqQMCAAAAAaoDAgAAAAGrAwIAAAABrAMCAAAAAa0DAgCjBQAhC6YDAQAAAAGnAwEAAAAFqAMBAAAABakDAQAAAAGqAwEAAAABqwMBAAAAAawDAQAAAAGtAwEApAUAIa4DAQAAAAGvAwEAAAABsAMBAAAAAQcVAACYBQAgGAAApgUAIBkAAKYFACCmAwAAALIDAqcDAAAAsgMIqAMAAACyAwitAwAApQWyAyIEpgMAAACyAwKnAwAAALIDCKgDAAAAsgMIrQMAAKYFsgMiEJoDAACnBQAwmwMAAOMEABCcAwAApwUAMJ0DAQCTBQAhngMBAJMFACGkA0AAlgUAIbQDAACoBbQDIrYDAACpBbYDIrcDQACWBQAhuANAAKoFACG5AwEAoQUAIboDAQChBQAhuwMIAJQFACG8AxAAqwUAIb0DAQCTBQAhvgMgAKwFACEHFQAAmAUAIBgAALYFACAZAAC2BQAgpgMAAAC0AwKnAwAAALQDCKgDAAAAtAMIrQMAALUFtAMiBxUAAJgFACAYAAC0BQAgGQAAtAUAIKYDAAAAtgMCpwMAAAC2AwioAwAAALYDCK0DAACzBbYDIgsVAACjBQAgGAAAsgUAIBkAALIFACCmA0AAAAABpwNAAAAABagDQAAAAAWpA0AAAAABqgNAAAAAAasDQAAAAAGsA0AAAAABrQNAALEFACENFQAAowUAIBYAALAFACAXAACwBQAgGAAAsAUAIBkAALAFACCmAxAAAAABpwMQAAAABagDEAAAAAWpAxAAAAABqgMQAAAAAasDEAAAAAGsAxAAAAABrQMQAK8FACEFFQAAmAUAIBgAAK4FACAZAACuBQAgpgMgAAAAAa0DIACtBQAhBRUAAJgFACAYAACuBQAgGQAArgUAIKYDIAAAAAGtAyAArQUAIQKmAyAAAAABrQMgAK4FACENFQAAowUAIBYAALAFACAXAACwBQAgGAAAsAUAIBkAALAFACCmAxAAAAABpwMQAAAABagDEAAAAAWpAxAAAAABqgMQAAAAAasDEAAAAAGsAxAAAAABrQMQAK8FACEIpgMQAAAAAacDEAAAAAWoAxAAAAAFqQMQAAAAAaoDEAAAAAGrAxAAAAABrAMQAAAAAa0DEACwBQAhCxUAAKMFACAYAACyBQAgGQAAsgUAIKYDQAAAAAGnA0AAAAAFqANAAAAABakDQAAAAAGqA0AAAAABqwNAAAAAAawDQAAAAAGtA0AAsQUAIQimA0AAAAABpwNAAAAABagDQAAAAAWpA0AAAAABqgNAAAAAAasDQAAAAAGsA0AAAAABrQNAALIFACEHFQAAmAUAIBgAALQFACAZAAC0BQAgpgMAAAC2AwKnAwAAALYDCKgDAAAAtgMIrQMAALMFtgMiBKYDAAAAtgMCpwMAAAC2AwioAwAAALYDCK0DAAC0BbYDIgcVAACYBQAgGAAAtgUAIBkAALYFACCmAwAAALQDAqcDAAAAtAMIqAMAAAC0AwitAwAAtQW0AyIEpgMAAAC0AwKnAwAAALQDCKgDAAAAtAMIrQMAALYFtAMiBwgAALgFACCaAwAAtwUAMJsDAADNBAAQnAMAALcFADCgAwEAkwUAIaUDQACWBQAhvwNAAJYFACEPFQAAmAUAIBgAALkFACAZAAC5BQAgpgOAAAAAAakDgAAAAAGqA4AAAAABqwOAAAAAAawDgAAAAAGtA4AAAAABwAMBAAAAAcEDAQAAAAHCAwEAAAABwwOAAAAAAcQDgAAAAAHFA4AAAAABDKYDgAAAAAGpA4AAAAABqgOAAAAAAasDgAAAAAGsA4AAAAABrQOAAAAAAcADAQAAAAHBAwEAAAABwgMBAAAAAcMDgAAAAAHEA4AAAAABxQOAAAAAAQcIAAC8BQAgmgMAALoFADCbAwAAugQAEJwDAAC6BQAwoAMBALsFACGlA0AAvQUAIb8DQAC9BQAhC6YDAQAAAAGnAwEAAAAEqAMBAAAABKkDAQAAAAGqAwEAAAABqwMBAAAAAawDAQAAAAGtAwEAngUAIa4DAQAAAAGvAwEAAAABsAMBAAAAAQymA4AAAAABqQOAAAAAAaoDgAAAAAGrA4AAAAABrAOAAAAAAa0DgAAAAAHAAwEAAAABwQMBAAAAAcIDAQAAAAHDA4AAAAABxAOAAAAAAcUDgAAAAAEIpgNAAAAAAacDQAAAAASoA0AAAAAEqQNAAAAAAaoDQAAAAAGrA0AAAAABrANAAAAAAa0DQACZBQAhC5oDAAC-BQAwmwMAALQEABCcAwAAvgUAMJ0DAQCTBQAhpANAAJYFACG2AwAAvwXJAyLGAwEAkwUAIccDQACWBQAhyQMBAKEFACHKA0AAqgUAIcsDQACqBQAhBxUAAJgFACAYAADBBQAgGQAAwQUAIKYDAAAAyQMCpwMAAADJAwioAwAAAMkDCK0DAADABckDIgcVAACYBQAgGAAAwQUAIBkAAMEFACCmAwAAAMkDAqcDAAAAyQMIqAMAAADJAwitAwAAwAXJAyIEpgMAAADJAwKnAwAAAMkDCKgDAAAAyQMIrQMAAMEFyQMiFR8BAKEFACGaAwAAwgUAMJsDAACeBAAQnAMAAMIFADCdAwEAkwUAIZ4DAQCTBQAhpANAAJYFACG3A0AAlgUAIbsDCACUBQAhvAMQAKsFACG9AwEAkwUAIcwDAQCTBQAhzgMAAMMFzgMizwMBAKEFACHQAwEAoQUAIdEDAQCTBQAh0wMAAMQF0wMi1AMCAJUFACHVAwEAoQUAIdYDQACWBQAh1wMgAKwFACEHFQAAmAUAIBgAAMgFACAZAADIBQAgpgMAAADOAwKnAwAAAM4DCKgDAAAAzgMIrQMAAMcFzgMiBxUAAJgFACAYAADGBQAgGQAAxgUAIKYDAAAA0wMCpwMAAADTAwioAwAAANMDCK0DAADFBdMDIgcVAACYBQAgGAAAxgUAIBkAAMYFACCmAwAAANMDAqcDAAAA0wMIqAMAAADTAwitAwAAxQXTAyIEpgMAAADTAwKnAwAAANMDCKgDAAAA0wMIrQMAAMYF0wMiBxUAAJgFACAYAADIBQAgGQAAyAUAIKYDAAAAzgMCpwMAAADOAwioAwAAAM4DCK0DAADHBc4DIgSmAwAAAM4DAqcDAAAAzgMIqAMAAADOAwitAwAAyAXOAyINmgMAAMkFADCbAwAAhAQAEJwDAADJBQAwnQMBAJMFACGeAwEAkwUAIaQDQACWBQAhpQNAAJYFACHPAwEAoQUAIdgDCACUBQAh2QMQAKsFACHaAyAArAUAIdsDAQChBQAh3AMCAJUFACEMmgMAAMoFADCbAwAA7AMAEJwDAADKBQAwnQMBAJMFACGeAwEAkwUAIaQDQACWBQAhuwMIAJQFACG8AxAAqwUAIckDAQChBQAh3QMBAJMFACHeAwEAkwUAId8DAQCTBQAhDpoDAADLBQAwmwMAANYDABCcAwAAywUAMJ0DAQCTBQAhngMBAJMFACGfAwAAzAXhAyKkA0AAlgUAIb0DAQChBQAhzAMBAKEFACHPAwEAoQUAIeEDCACUBQAh4gMQAKsFACHkAwAAzQXkAyLlAyAArAUAIQcVAACYBQAgGAAA0QUAIBkAANEFACCmAwAAAOEDAqcDAAAA4QMIqAMAAADhAwitAwAA0AXhAyIHFQAAmAUAIBgAAM8FACAZAADPBQAgpgMAAADkAwKnAwAAAOQDCKgDAAAA5AMIrQMAAM4F5AMiBxUAAJgFACAYAADPBQAgGQAAzwUAIKYDAAAA5AMCpwMAAADkAwioAwAAAOQDCK0DAADOBeQDIgSmAwAAAOQDAqcDAAAA5AMIqAMAAADkAwitAwAAzwXkAyIHFQAAmAUAIBgAANEFACAZAADRBQAgpgMAAADhAwKnAwAAAOEDCKgDAAAA4QMIrQMAANAF4QMiBKYDAAAA4QMCpwMAAADhAwioAwAAAOEDCK0DAADRBeEDIgiaAwAA0gUAMJsDAAC-AwAQnAMAANIFADCdAwEAkwUAIZ4DAQCTBQAhpANAAJYFACHmAwEAkwUAIecDAAC4BQAgCJoDAADTBQAwmwMAAKgDABCcAwAA0wUAMJ0DAQCTBQAhngMBAJMFACGkA0AAlgUAIbIDAQCTBQAh6AMBAJMFACEImgMAANQFADCbAwAAlQMAEJwDAADUBQAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAhsgMBALsFACHoAwEAuwUAIQeaAwAA1QUAMJsDAACPAwAQnAMAANUFADCdAwEAkwUAIaQDQACWBQAh0AMBAJMFACHpAwEAkwUAIQmaAwAA1gUAMJsDAAD5AgAQnAMAANYFADCdAwEAkwUAIZ4DAQCTBQAhpANAAJYFACHmAwEAkwUAIeoDAgCVBQAh6wMgAKwFACEKmgMAANcFADCbAwAA4wIAEJwDAADXBQAwnQMBAJMFACGkA0AAlgUAIaUDQACWBQAh7AMBAJMFACHtAwEAoQUAIe4DAQChBQAh7wNAAJYFACEKmgMAANgFADCbAwAA0AIAEJwDAADYBQAwnQMBALsFACGkA0AAvQUAIaUDQAC9BQAh7AMBALsFACHtAwEA2QUAIe4DAQDZBQAh7wNAAL0FACELpgMBAAAAAacDAQAAAAWoAwEAAAAFqQMBAAAAAaoDAQAAAAGrAwEAAAABrAMBAAAAAa0DAQCkBQAhrgMBAAAAAa8DAQAAAAGwAwEAAAABCJoDAADaBQAwmwMAAMoCABCcAwAA2gUAMJ0DAQCTBQAhngMBAJMFACGkA0AAlgUAIeYDAQCTBQAh6wMgAKwFACEJmgMAANsFADCbAwAAtAIAEJwDAADbBQAwnQMBAJMFACGkA0AAlgUAIaUDQACWBQAh8ANAAJYFACHxAwEAkwUAIfIDAAC4BQAgCZoDAADcBQAwmwMAAKECABCcAwAA3AUAMJ0DAQC7BQAhpANAAL0FACGlA0AAvQUAIfADQAC9BQAh8QMBALsFACHyAwAAvAUAIALwA0AAAAAB8QMBAAAAAQ2aAwAA3gUAMJsDAACbAgAQnAMAAN4FADCdAwEAkwUAIZ4DAQCTBQAhpANAAJYFACG7AwgAlAUAIb0DAQCTBQAhzAMBAJMFACHwA0AAlgUAIfQDCADfBQAh9QMIAN8FACH2AwEAkwUAIQ0VAACjBQAgFgAA4QUAIBcAAOEFACAYAADhBQAgGQAA4QUAIKYDCAAAAAGnAwgAAAAFqAMIAAAABakDCAAAAAGqAwgAAAABqwMIAAAAAawDCAAAAAGtAwgA4AUAIQ0VAACjBQAgFgAA4QUAIBcAAOEFACAYAADhBQAgGQAA4QUAIKYDCAAAAAGnAwgAAAAFqAMIAAAABakDCAAAAAGqAwgAAAABqwMIAAAAAawDCAAAAAGtAwgA4AUAIQimAwgAAAABpwMIAAAABagDCAAAAAWpAwgAAAABqgMIAAAAAasDCAAAAAGsAwgAAAABrQMIAOEFACELmgMAAOIFADCbAwAAhQIAEJwDAADiBQAwnQMBAJMFACGkA0AAlgUAIckDAQCTBQAh-AMAAOMF-AMi-QMBAJMFACH6AwEAkwUAIfsDAQChBQAh_AMBAKEFACEHFQAAmAUAIBgAAOUFACAZAADlBQAgpgMAAAD4AwKnAwAAAPgDCKgDAAAA-AMIrQMAAOQF-AMiBxUAAJgFACAYAADlBQAgGQAA5QUAIKYDAAAA-AMCpwMAAAD4AwioAwAAAPgDCK0DAADkBfgDIgSmAwAAAPgDAqcDAAAA-AMIqAMAAAD4AwitAwAA5QX4AyIYHwEAoQUAIZoDAADmBQAwmwMAAO8BABCcAwAA5gUAMJ0DAQCTBQAhngMBAJMFACGkA0AAlgUAIbsDCACUBQAhvAMQAKsFACG9AwEAkwUAIcwDAQCTBQAhzgMAAMMFzgMizwMBAKEFACHQAwEAoQUAIdEDAQChBQAh_QMBAJMFACH-A0AAlgUAIf8DAQChBQAhgAQBAKEFACGBBAgA3wUAIYIEEACrBQAhgwQBAKEFACGEBAgA3wUAIYUEEACrBQAhCJoDAADnBQAwmwMAANEBABCcAwAA5wUAMJ0DAQCTBQAhuwMIAJQFACG8AxAAqwUAIb0DAQCTBQAhzAMBAJMFACEKmgMAAOgFADCbAwAAuwEAEJwDAADoBQAwnQMBAJMFACGeAwEAkwUAIZ8DAADpBYcEIqQDQACWBQAhvQMBAJMFACHmAwEAkwUAIYcEIACsBQAhBxUAAJgFACAYAADrBQAgGQAA6wUAIKYDAAAAhwQCpwMAAACHBAioAwAAAIcECK0DAADqBYcEIgcVAACYBQAgGAAA6wUAIBkAAOsFACCmAwAAAIcEAqcDAAAAhwQIqAMAAACHBAitAwAA6gWHBCIEpgMAAACHBAKnAwAAAIcECKgDAAAAhwQIrQMAAOsFhwQiFJoDAADsBQAwmwMAAKUBABCcAwAA7AUAMJ0DAQCTBQAhpANAAJYFACHsAwEAkwUAIe4DAQChBQAh9gMBAJMFACGIBAEAoQUAIYkEAQChBQAhigQBAJMFACGLBCAArAUAIYwEQACqBQAhjQQgAKwFACGOBAEAoQUAIY8EQACqBQAhkARAAKoFACGRBCAArAUAIZIEAQChBQAhkwQBAKEFACEhHgAA8QUAICAAAPcFACAkAAD4BQAgMAAA9QUAIDEAAPwFACAyAADwBQAgMwAA8gUAIDQAAPMFACA1AAD0BQAgNgAA9gUAIDcAAPkFACA4AAD6BQAgOQAA-wUAIJoDAADtBQAwmwMAAJIBABCcAwAA7QUAMJ0DAQC7BQAhpANAAL0FACHsAwEAuwUAIe4DAQDZBQAh9gMBALsFACGIBAEA2QUAIYkEAQDZBQAhigQBALsFACGLBCAA7gUAIYwEQADvBQAhjQQgAO4FACGOBAEA2QUAIY8EQADvBQAhkARAAO8FACGRBCAA7gUAIZIEAQDZBQAhkwQBANkFACECpgMgAAAAAa0DIACuBQAhCKYDQAAAAAGnA0AAAAAFqANAAAAABakDQAAAAAGqA0AAAAABqwNAAAAAAawDQAAAAAGtA0AAsgUAIQOUBAAAHAAglQQAABwAIJYEAAAcACADlAQAACAAIJUEAAAgACCWBAAAIAAgA5QEAAAkACCVBAAAJAAglgQAACQAIAOUBAAAMQAglQQAADEAIJYEAAAxACADlAQAAG8AIJUEAABvACCWBAAAbwAgA5QEAABSACCVBAAAUgAglgQAAFIAIAOUBAAAVwAglQQAAFcAIJYEAABXACADlAQAACcAIJUEAAAnACCWBAAAJwAgA5QEAAAsACCVBAAALAAglgQAACwAIAOUBAAAdwAglQQAAHcAIJYEAAB3ACADlAQAAHsAIJUEAAB7ACCWBAAAewAgA5QEAAB_ACCVBAAAfwAglgQAAH8AIAOUBAAAXQAglQQAAF0AIJYEAABdACADngMBAAAAAZ8DAQAAAAGgAwEAAAABDRwAAIEGACCaAwAA_gUAMJsDAAB_ABCcAwAA_gUAMJ0DAQC7BQAhngMBALsFACGfAwEAuwUAIaADAQC7BQAhoQMBALsFACGiAwgA_wUAIaMDAgCABgAhpANAAL0FACGlA0AAvQUAIQimAwgAAAABpwMIAAAABKgDCAAAAASpAwgAAAABqgMIAAAAAasDCAAAAAGsAwgAAAABrQMIAJsFACEIpgMCAAAAAacDAgAAAASoAwIAAAAEqQMCAAAAAaoDAgAAAAGrAwIAAAABrAMCAAAAAa0DAgCYBQAhIx4AAPEFACAgAAD3BQAgJAAA-AUAIDAAAPUFACAxAAD8BQAgMgAA8AUAIDMAAPIFACA0AADzBQAgNQAA9AUAIDYAAPYFACA3AAD5BQAgOAAA-gUAIDkAAPsFACCaAwAA7QUAMJsDAACSAQAQnAMAAO0FADCdAwEAuwUAIaQDQAC9BQAh7AMBALsFACHuAwEA2QUAIfYDAQC7BQAhiAQBANkFACGJBAEA2QUAIYoEAQC7BQAhiwQgAO4FACGMBEAA7wUAIY0EIADuBQAhjgQBANkFACGPBEAA7wUAIZAEQADvBQAhkQQgAO4FACGSBAEA2QUAIZMEAQDZBQAhogQAAJIBACCjBAAAkgEAIAkcAACBBgAgmgMAAIIGADCbAwAAewAQnAMAAIIGADCdAwEAuwUAIZ4DAQC7BQAhnwMAAIMGsgMipANAAL0FACGyAwEA2QUAIQSmAwAAALIDAqcDAAAAsgMIqAMAAACyAwitAwAApgWyAyIRHAAAgQYAIJoDAACEBgAwmwMAAHcAEJwDAACEBgAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAhtAMAAIUGtAMitgMAAIYGtgMitwNAAL0FACG4A0AA7wUAIbkDAQDZBQAhugMBANkFACG7AwgA_wUAIbwDEACHBgAhvQMBALsFACG-AyAA7gUAIQSmAwAAALQDAqcDAAAAtAMIqAMAAAC0AwitAwAAtgW0AyIEpgMAAAC2AwKnAwAAALYDCKgDAAAAtgMIrQMAALQFtgMiCKYDEAAAAAGnAxAAAAAFqAMQAAAABakDEAAAAAGqAxAAAAABqwMQAAAAAawDEAAAAAGtAxAAsAUAIQkcAACBBgAgmgMAAIgGADCbAwAAbwAQnAMAAIgGADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACHmAwEAuwUAIecDAAC8BQAgAp4DAQAAAAHmAwEAAAABDRwAAIEGACAeAADxBQAgIwAAiwYAICQAAPgFACCaAwAAigYAMJsDAAAxABCcAwAAigYAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIeYDAQC7BQAh6gMCAIAGACHrAyAA7gUAIQOUBAAAMwAglQQAADMAIJYEAAAzACAMHAAAgQYAIB4AAPEFACAgAAD3BQAgJAAA-AUAIJoDAACMBgAwmwMAACQAEJwDAACMBgAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAh5gMBALsFACHrAyAA7gUAIQSeAwEAAAABvQMBAAAAAcwDAQAAAAHwA0AAAAABDxwAAIEGACAdAACQBgAgmgMAAI4GADCbAwAAXQAQnAMAAI4GADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACG7AwgA_wUAIb0DAQC7BQAhzAMBALsFACHwA0AAvQUAIfQDCACPBgAh9QMIAI8GACH2AwEAuwUAIQimAwgAAAABpwMIAAAABagDCAAAAAWpAwgAAAABqgMIAAAAAasDCAAAAAGsAwgAAAABrQMIAOEFACEUHAAAgQYAIB4AAPEFACAkAAD4BQAgKwAA8QUAICwAAPEFACAtAACwBgAgMAAA9QUAIDEAAPwFACCaAwAArgYAMJsDAAAcABCcAwAArgYAMJ0DAQC7BQAhngMBALsFACGfAwAArwaHBCKkA0AAvQUAIb0DAQC7BQAh5gMBALsFACGHBCAA7gUAIaIEAAAcACCjBAAAHAAgAt0DAQAAAAHeAwEAAAABDhwAAIEGACAuAACTBgAgmgMAAJIGADCbAwAAVwAQnAMAAJIGADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACG7AwgA_wUAIbwDEACHBgAhyQMBANkFACHdAwEAuwUAId4DAQC7BQAh3wMBALsFACETHAAAgQYAIB0AAJcGACAvAAD2BQAgmgMAAJQGADCbAwAAUgAQnAMAAJQGADCdAwEAuwUAIZ4DAQC7BQAhnwMAAJUG4QMipANAAL0FACG9AwEA2QUAIcwDAQDZBQAhzwMBANkFACHhAwgA_wUAIeIDEACHBgAh5AMAAJYG5AMi5QMgAO4FACGiBAAAUgAgowQAAFIAIBEcAACBBgAgHQAAlwYAIC8AAPYFACCaAwAAlAYAMJsDAABSABCcAwAAlAYAMJ0DAQC7BQAhngMBALsFACGfAwAAlQbhAyKkA0AAvQUAIb0DAQDZBQAhzAMBANkFACHPAwEA2QUAIeEDCAD_BQAh4gMQAIcGACHkAwAAlgbkAyLlAyAA7gUAIQSmAwAAAOEDAqcDAAAA4QMIqAMAAADhAwitAwAA0QXhAyIEpgMAAADkAwKnAwAAAOQDCKgDAAAA5AMIrQMAAM8F5AMiFBwAAIEGACAeAADxBQAgJAAA-AUAICsAAPEFACAsAADxBQAgLQAAsAYAIDAAAPUFACAxAAD8BQAgmgMAAK4GADCbAwAAHAAQnAMAAK4GADCdAwEAuwUAIZ4DAQC7BQAhnwMAAK8GhwQipANAAL0FACG9AwEAuwUAIeYDAQC7BQAhhwQgAO4FACGiBAAAHAAgowQAABwAIAK9AwEAAAABzAMBAAAAAQkdAACQBgAgmgMAAJkGADCbAwAATgAQnAMAAJkGADCdAwEAuwUAIbsDCAD_BQAhvAMQAIcGACG9AwEAuwUAIcwDAQC7BQAhAskDAQAAAAH6AwEAAAABDCkAAJ0GACCaAwAAmwYAMJsDAABHABCcAwAAmwYAMJ0DAQC7BQAhpANAAL0FACHJAwEAuwUAIfgDAACcBvgDIvkDAQC7BQAh-gMBALsFACH7AwEA2QUAIfwDAQDZBQAhBKYDAAAA-AMCpwMAAAD4AwioAwAAAPgDCK0DAADlBfgDIiEcAACBBgAgHQAAkAYAIB8BANkFACEhAACnBgAgIgAAqAYAICcAAJcGACAoAACXBgAgKgAArQYAIJoDAACsBgAwmwMAACAAEJwDAACsBgAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAhuwMIAP8FACG8AxAAhwYAIb0DAQC7BQAhzAMBALsFACHOAwAApQbOAyLPAwEA2QUAIdADAQDZBQAh0QMBANkFACH9AwEAuwUAIf4DQAC9BQAh_wMBANkFACGABAEA2QUAIYEECACPBgAhggQQAIcGACGDBAEA2QUAIYQECACPBgAhhQQQAIcGACGiBAAAIAAgowQAACAAIALGAwEAAAABxwNAAAAAAQwlAAChBgAgmgMAAJ8GADCbAwAAPAAQnAMAAJ8GADCdAwEAuwUAIaQDQAC9BQAhtgMAAKAGyQMixgMBALsFACHHA0AAvQUAIckDAQDZBQAhygNAAO8FACHLA0AA7wUAIQSmAwAAAMkDAqcDAAAAyQMIqAMAAADJAwitAwAAwQXJAyIcHAAAgQYAIB0AAJAGACAfAQDZBQAhIQAApwYAICIAAKgGACAmAACpBgAgmgMAAKQGADCbAwAALAAQnAMAAKQGADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACG3A0AAvQUAIbsDCAD_BQAhvAMQAIcGACG9AwEAuwUAIcwDAQC7BQAhzgMAAKUGzgMizwMBANkFACHQAwEA2QUAIdEDAQC7BQAh0wMAAKYG0wMi1AMCAIAGACHVAwEA2QUAIdYDQAC9BQAh1wMgAO4FACGiBAAALAAgowQAACwAIAgiAACjBgAgmgMAAKIGADCbAwAAMwAQnAMAAKIGADCdAwEAuwUAIaQDQAC9BQAh0AMBALsFACHpAwEAuwUAIQ8cAACBBgAgHgAA8QUAICMAAIsGACAkAAD4BQAgmgMAAIoGADCbAwAAMQAQnAMAAIoGADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACHmAwEAuwUAIeoDAgCABgAh6wMgAO4FACGiBAAAMQAgowQAADEAIBocAACBBgAgHQAAkAYAIB8BANkFACEhAACnBgAgIgAAqAYAICYAAKkGACCaAwAApAYAMJsDAAAsABCcAwAApAYAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIbcDQAC9BQAhuwMIAP8FACG8AxAAhwYAIb0DAQC7BQAhzAMBALsFACHOAwAApQbOAyLPAwEA2QUAIdADAQDZBQAh0QMBALsFACHTAwAApgbTAyLUAwIAgAYAIdUDAQDZBQAh1gNAAL0FACHXAyAA7gUAIQSmAwAAAM4DAqcDAAAAzgMIqAMAAADOAwitAwAAyAXOAyIEpgMAAADTAwKnAwAAANMDCKgDAAAA0wMIrQMAAMYF0wMiDhwAAIEGACAeAADxBQAgIAAA9wUAICQAAPgFACCaAwAAjAYAMJsDAAAkABCcAwAAjAYAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIeYDAQC7BQAh6wMgAO4FACGiBAAAJAAgowQAACQAIA8cAACBBgAgHgAA8QUAICMAAIsGACAkAAD4BQAgmgMAAIoGADCbAwAAMQAQnAMAAIoGADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACHmAwEAuwUAIeoDAgCABgAh6wMgAO4FACGiBAAAMQAgowQAADEAIAOUBAAAPAAglQQAADwAIJYEAAA8ACACngMBAAAAAc8DAQAAAAEPHAAAgQYAIB8AAKcGACCaAwAAqwYAMJsDAAAnABCcAwAAqwYAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIaUDQAC9BQAhzwMBANkFACHYAwgA_wUAIdkDEACHBgAh2gMgAO4FACHbAwEA2QUAIdwDAgCABgAhHxwAAIEGACAdAACQBgAgHwEA2QUAISEAAKcGACAiAACoBgAgJwAAlwYAICgAAJcGACAqAACtBgAgmgMAAKwGADCbAwAAIAAQnAMAAKwGADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACG7AwgA_wUAIbwDEACHBgAhvQMBALsFACHMAwEAuwUAIc4DAAClBs4DIs8DAQDZBQAh0AMBANkFACHRAwEA2QUAIf0DAQC7BQAh_gNAAL0FACH_AwEA2QUAIYAEAQDZBQAhgQQIAI8GACGCBBAAhwYAIYMEAQDZBQAhhAQIAI8GACGFBBAAhwYAIQOUBAAARwAglQQAAEcAIJYEAABHACASHAAAgQYAIB4AAPEFACAkAAD4BQAgKwAA8QUAICwAAPEFACAtAACwBgAgMAAA9QUAIDEAAPwFACCaAwAArgYAMJsDAAAcABCcAwAArgYAMJ0DAQC7BQAhngMBALsFACGfAwAArwaHBCKkA0AAvQUAIb0DAQC7BQAh5gMBALsFACGHBCAA7gUAIQSmAwAAAIcEAqcDAAAAhwQIqAMAAACHBAitAwAA6wWHBCIDlAQAAE4AIJUEAABOACCWBAAATgAgB5oDAACxBgAwmwMAABcAEJwDAACxBgAwnwMBAJMFACGfBAEAkwUAIaAEAQChBQAhoQQCAJUFACEHmgMAALIGADCbAwAABAAQnAMAALIGADCfAwEAuwUAIZ8EAQC7BQAhoAQBANkFACGhBAIAgAYAIQAAAAAAAacEAQAAAAEFpwQIAAAAAa0ECAAAAAGuBAgAAAABrwQIAAAAAbAECAAAAAEFpwQCAAAAAa0EAgAAAAGuBAIAAAABrwQCAAAAAbAEAgAAAAEBpwRAAAAAAQUPAACPDAAgEAAAkgwAIKQEAACQDAAgpQQAAJEMACCqBAAAGgAgAw8AAI8MACCkBAAAkAwAIKoEAAAaACAAAAAAAacEAAAAsgMCAacEAQAAAAEFDwAAigwAIBAAAI0MACCkBAAAiwwAIKUEAACMDAAgqgQAABoAIAMPAACKDAAgpAQAAIsMACCqBAAAGgAgAAAAAAABpwQAAAC0AwIBpwQAAAC2AwIBpwRAAAAAAQWnBBAAAAABrQQQAAAAAa4EEAAAAAGvBBAAAAABsAQQAAAAAQGnBCAAAAABBQ8AAIUMACAQAACIDAAgpAQAAIYMACClBAAAhwwAIKoEAAAaACADDwAAhQwAIKQEAACGDAAgqgQAABoAIAAAAAAAAAGnBAAAAMkDAgUPAACADAAgEAAAgwwAIKQEAACBDAAgpQQAAIIMACCqBAAALgAgAw8AAIAMACCkBAAAgQwAIKoEAAAuACAAAAAAAAGnBAAAAM4DAgGnBAAAANMDAgUPAADxCwAgEAAA_gsAIKQEAADyCwAgpQQAAP0LACCqBAAAGgAgBQ8AAO8LACAQAAD7CwAgpAQAAPALACClBAAA-gsAIKoEAAAeACAHDwAA7QsAIBAAAPgLACCkBAAA7gsAIKUEAAD3CwAgqAQAACQAIKkEAAAkACCqBAAAagAgBw8AAOsLACAQAAD1CwAgpAQAAOwLACClBAAA9AsAIKgEAAAxACCpBAAAMQAgqgQAAG0AIAsPAADnBgAwEAAA7AYAMKQEAADoBgAwpQQAAOkGADCmBAAA6gYAIKcEAADrBgAwqAQAAOsGADCpBAAA6wYAMKoEAADrBgAwqwQAAO0GADCsBAAA7gYAMAedAwEAAAABpANAAAAAAbYDAAAAyQMCxwNAAAAAAckDAQAAAAHKA0AAAAABywNAAAAAAQIAAAA-ACAPAADyBgAgAwAAAD4AIA8AAPIGACAQAADxBgAgAQgAAPMLADANJQAAoQYAIJoDAACfBgAwmwMAADwAEJwDAACfBgAwnQMBAAAAAaQDQAC9BQAhtgMAAKAGyQMixgMBALsFACHHA0AAvQUAIckDAQDZBQAhygNAAO8FACHLA0AA7wUAIZ0EAACeBgAgAgAAAD4AIAgAAPEGACACAAAA7wYAIAgAAPAGACALmgMAAO4GADCbAwAA7wYAEJwDAADuBgAwnQMBALsFACGkA0AAvQUAIbYDAACgBskDIsYDAQC7BQAhxwNAAL0FACHJAwEA2QUAIcoDQADvBQAhywNAAO8FACELmgMAAO4GADCbAwAA7wYAEJwDAADuBgAwnQMBALsFACGkA0AAvQUAIbYDAACgBskDIsYDAQC7BQAhxwNAAL0FACHJAwEA2QUAIcoDQADvBQAhywNAAO8FACEHnQMBALgGACGkA0AAuwYAIbYDAADYBskDIscDQAC7BgAhyQMBAMMGACHKA0AAzQYAIcsDQADNBgAhB50DAQC4BgAhpANAALsGACG2AwAA2AbJAyLHA0AAuwYAIckDAQDDBgAhygNAAM0GACHLA0AAzQYAIQedAwEAAAABpANAAAAAAbYDAAAAyQMCxwNAAAAAAckDAQAAAAHKA0AAAAABywNAAAAAAQMPAADxCwAgpAQAAPILACCqBAAAGgAgAw8AAO8LACCkBAAA8AsAIKoEAAAeACADDwAA7QsAIKQEAADuCwAgqgQAAGoAIAMPAADrCwAgpAQAAOwLACCqBAAAbQAgBA8AAOcGADCkBAAA6AYAMKYEAADqBgAgqgQAAOsGADAAAAAAAAUPAADjCwAgEAAA6QsAIKQEAADkCwAgpQQAAOgLACCqBAAAGgAgBw8AAOELACAQAADmCwAgpAQAAOILACClBAAA5QsAIKgEAAAkACCpBAAAJAAgqgQAAGoAIAMPAADjCwAgpAQAAOQLACCqBAAAGgAgAw8AAOELACCkBAAA4gsAIKoEAABqACAAAAAAAAUPAADZCwAgEAAA3wsAIKQEAADaCwAgpQQAAN4LACCqBAAAGgAgBQ8AANcLACAQAADcCwAgpAQAANgLACClBAAA2wsAIKoEAABUACADDwAA2QsAIKQEAADaCwAgqgQAABoAIAMPAADXCwAgpAQAANgLACCqBAAAVAAgAAAAAAABpwQAAADhAwIBpwQAAADkAwIFDwAAzgsAIBAAANULACCkBAAAzwsAIKUEAADUCwAgqgQAABoAIAcPAADMCwAgEAAA0gsAIKQEAADNCwAgpQQAANELACCoBAAAHAAgqQQAABwAIKoEAAAeACALDwAAlAcAMBAAAJkHADCkBAAAlQcAMKUEAACWBwAwpgQAAJcHACCnBAAAmAcAMKgEAACYBwAwqQQAAJgHADCqBAAAmAcAMKsEAACaBwAwrAQAAJsHADAJHAAAiAcAIJ0DAQAAAAGeAwEAAAABpANAAAAAAbsDCAAAAAG8AxAAAAAByQMBAAAAAd4DAQAAAAHfAwEAAAABAgAAAFkAIA8AAJ8HACADAAAAWQAgDwAAnwcAIBAAAJ4HACABCAAA0AsAMA8cAACBBgAgLgAAkwYAIJoDAACSBgAwmwMAAFcAEJwDAACSBgAwnQMBAAAAAZ4DAQC7BQAhpANAAL0FACG7AwgA_wUAIbwDEACHBgAhyQMBANkFACHdAwEAuwUAId4DAQC7BQAh3wMBALsFACGaBAAAkQYAIAIAAABZACAIAACeBwAgAgAAAJwHACAIAACdBwAgDJoDAACbBwAwmwMAAJwHABCcAwAAmwcAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIbsDCAD_BQAhvAMQAIcGACHJAwEA2QUAId0DAQC7BQAh3gMBALsFACHfAwEAuwUAIQyaAwAAmwcAMJsDAACcBwAQnAMAAJsHADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACG7AwgA_wUAIbwDEACHBgAhyQMBANkFACHdAwEAuwUAId4DAQC7BQAh3wMBALsFACEInQMBALgGACGeAwEAuAYAIaQDQAC7BgAhuwMIALkGACG8AxAAzgYAIckDAQDDBgAh3gMBALgGACHfAwEAuAYAIQkcAACGBwAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAhuwMIALkGACG8AxAAzgYAIckDAQDDBgAh3gMBALgGACHfAwEAuAYAIQkcAACIBwAgnQMBAAAAAZ4DAQAAAAGkA0AAAAABuwMIAAAAAbwDEAAAAAHJAwEAAAAB3gMBAAAAAd8DAQAAAAEDDwAAzgsAIKQEAADPCwAgqgQAABoAIAMPAADMCwAgpAQAAM0LACCqBAAAHgAgBA8AAJQHADCkBAAAlQcAMKYEAACXBwAgqgQAAJgHADAAAAAFDwAAxwsAIBAAAMoLACCkBAAAyAsAIKUEAADJCwAgqgQAABoAIAMPAADHCwAgpAQAAMgLACCqBAAAGgAgAAAAAAAABQ8AAMILACAQAADFCwAgpAQAAMMLACClBAAAxAsAIKoEAABtACADDwAAwgsAIKQEAADDCwAgqgQAAG0AIAAAAAAABQ8AAKALACAQAADACwAgpAQAAKELACClBAAAvwsAIKoEAAAaACALDwAA6wcAMBAAAPAHADCkBAAA7AcAMKUEAADtBwAwpgQAAO4HACCnBAAA7wcAMKgEAADvBwAwqQQAAO8HADCqBAAA7wcAMKsEAADxBwAwrAQAAPIHADALDwAAxQcAMBAAAMoHADCkBAAAxgcAMKUEAADHBwAwpgQAAMgHACCnBAAAyQcAMKgEAADJBwAwqQQAAMkHADCqBAAAyQcAMKsEAADLBwAwrAQAAMwHADALDwAAuQcAMBAAAL4HADCkBAAAugcAMKUEAAC7BwAwpgQAALwHACCnBAAAvQcAMKgEAAC9BwAwqQQAAL0HADCqBAAAvQcAMKsEAAC_BwAwrAQAAMAHADAVHAAA8wYAIB0AAPQGACAfAQAAAAEhAAD1BgAgJgAA9wYAIJ0DAQAAAAGeAwEAAAABpANAAAAAAbcDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHMAwEAAAABzgMAAADOAwLPAwEAAAAB0QMBAAAAAdMDAAAA0wMC1AMCAAAAAdUDAQAAAAHWA0AAAAAB1wMgAAAAAQIAAAAuACAPAADEBwAgAwAAAC4AIA8AAMQHACAQAADDBwAgAQgAAL4LADAaHAAAgQYAIB0AAJAGACAfAQDZBQAhIQAApwYAICIAAKgGACAmAACpBgAgmgMAAKQGADCbAwAALAAQnAMAAKQGADCdAwEAAAABngMBALsFACGkA0AAvQUAIbcDQAC9BQAhuwMIAP8FACG8AxAAhwYAIb0DAQC7BQAhzAMBALsFACHOAwAApQbOAyLPAwEA2QUAIdADAQDZBQAh0QMBALsFACHTAwAApgbTAyLUAwIAgAYAIdUDAQDZBQAh1gNAAL0FACHXAyAA7gUAIQIAAAAuACAIAADDBwAgAgAAAMEHACAIAADCBwAgFR8BANkFACGaAwAAwAcAMJsDAADBBwAQnAMAAMAHADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACG3A0AAvQUAIbsDCAD_BQAhvAMQAIcGACG9AwEAuwUAIcwDAQC7BQAhzgMAAKUGzgMizwMBANkFACHQAwEA2QUAIdEDAQC7BQAh0wMAAKYG0wMi1AMCAIAGACHVAwEA2QUAIdYDQAC9BQAh1wMgAO4FACEVHwEA2QUAIZoDAADABwAwmwMAAMEHABCcAwAAwAcAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIbcDQAC9BQAhuwMIAP8FACG8AxAAhwYAIb0DAQC7BQAhzAMBALsFACHOAwAApQbOAyLPAwEA2QUAIdADAQDZBQAh0QMBALsFACHTAwAApgbTAyLUAwIAgAYAIdUDAQDZBQAh1gNAAL0FACHXAyAA7gUAIREfAQDDBgAhnQMBALgGACGeAwEAuAYAIaQDQAC7BgAhtwNAALsGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACHMAwEAuAYAIc4DAADgBs4DIs8DAQDDBgAh0QMBALgGACHTAwAA4QbTAyLUAwIAugYAIdUDAQDDBgAh1gNAALsGACHXAyAAzwYAIRUcAADiBgAgHQAA4wYAIB8BAMMGACEhAADkBgAgJgAA5gYAIJ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbcDQAC7BgAhuwMIALkGACG8AxAAzgYAIb0DAQC4BgAhzAMBALgGACHOAwAA4AbOAyLPAwEAwwYAIdEDAQC4BgAh0wMAAOEG0wMi1AMCALoGACHVAwEAwwYAIdYDQAC7BgAh1wMgAM8GACEVHAAA8wYAIB0AAPQGACAfAQAAAAEhAAD1BgAgJgAA9wYAIJ0DAQAAAAGeAwEAAAABpANAAAAAAbcDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHMAwEAAAABzgMAAADOAwLPAwEAAAAB0QMBAAAAAdMDAAAA0wMC1AMCAAAAAdUDAQAAAAHWA0AAAAAB1wMgAAAAARocAADnBwAgHQAA5QcAIB8BAAAAASEAAOYHACAnAADoBwAgKAAA6QcAICoAAOoHACCdAwEAAAABngMBAAAAAaQDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHMAwEAAAABzgMAAADOAwLPAwEAAAAB0QMBAAAAAf0DAQAAAAH-A0AAAAAB_wMBAAAAAYAEAQAAAAGBBAgAAAABggQQAAAAAYMEAQAAAAGEBAgAAAABhQQQAAAAAQIAAAAiACAPAADkBwAgAwAAACIAIA8AAOQHACAQAADQBwAgAQgAAL0LADAfHAAAgQYAIB0AAJAGACAfAQDZBQAhIQAApwYAICIAAKgGACAnAACXBgAgKAAAlwYAICoAAK0GACCaAwAArAYAMJsDAAAgABCcAwAArAYAMJ0DAQAAAAGeAwEAuwUAIaQDQAC9BQAhuwMIAP8FACG8AxAAhwYAIb0DAQC7BQAhzAMBALsFACHOAwAApQbOAyLPAwEA2QUAIdADAQDZBQAh0QMBANkFACH9AwEAuwUAIf4DQAC9BQAh_wMBANkFACGABAEA2QUAIYEECACPBgAhggQQAIcGACGDBAEA2QUAIYQECACPBgAhhQQQAIcGACECAAAAIgAgCAAA0AcAIAIAAADNBwAgCAAAzgcAIBgfAQDZBQAhmgMAAMwHADCbAwAAzQcAEJwDAADMBwAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAhuwMIAP8FACG8AxAAhwYAIb0DAQC7BQAhzAMBALsFACHOAwAApQbOAyLPAwEA2QUAIdADAQDZBQAh0QMBANkFACH9AwEAuwUAIf4DQAC9BQAh_wMBANkFACGABAEA2QUAIYEECACPBgAhggQQAIcGACGDBAEA2QUAIYQECACPBgAhhQQQAIcGACEYHwEA2QUAIZoDAADMBwAwmwMAAM0HABCcAwAAzAcAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIbsDCAD_BQAhvAMQAIcGACG9AwEAuwUAIcwDAQC7BQAhzgMAAKUGzgMizwMBANkFACHQAwEA2QUAIdEDAQDZBQAh_QMBALsFACH-A0AAvQUAIf8DAQDZBQAhgAQBANkFACGBBAgAjwYAIYIEEACHBgAhgwQBANkFACGEBAgAjwYAIYUEEACHBgAhFB8BAMMGACGdAwEAuAYAIZ4DAQC4BgAhpANAALsGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACHMAwEAuAYAIc4DAADgBs4DIs8DAQDDBgAh0QMBAMMGACH9AwEAuAYAIf4DQAC7BgAh_wMBAMMGACGABAEAwwYAIYEECADPBwAhggQQAM4GACGDBAEAwwYAIYQECADPBwAhhQQQAM4GACEFpwQIAAAAAa0ECAAAAAGuBAgAAAABrwQIAAAAAbAECAAAAAEaHAAA0wcAIB0AANEHACAfAQDDBgAhIQAA0gcAICcAANQHACAoAADVBwAgKgAA1gcAIJ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbsDCAC5BgAhvAMQAM4GACG9AwEAuAYAIcwDAQC4BgAhzgMAAOAGzgMizwMBAMMGACHRAwEAwwYAIf0DAQC4BgAh_gNAALsGACH_AwEAwwYAIYAEAQDDBgAhgQQIAM8HACGCBBAAzgYAIYMEAQDDBgAhhAQIAM8HACGFBBAAzgYAIQUPAACrCwAgEAAAuwsAIKQEAACsCwAgpQQAALoLACCqBAAAHgAgBw8AAKkLACAQAAC4CwAgpAQAAKoLACClBAAAtwsAIKgEAAAkACCpBAAAJAAgqgQAAGoAIAUPAACnCwAgEAAAtQsAIKQEAACoCwAgpQQAALQLACCqBAAAGgAgBw8AAKULACAQAACyCwAgpAQAAKYLACClBAAAsQsAIKgEAAAcACCpBAAAHAAgqgQAAB4AIAcPAACjCwAgEAAArwsAIKQEAACkCwAgpQQAAK4LACCoBAAAHAAgqQQAABwAIKoEAAAeACALDwAA1wcAMBAAANwHADCkBAAA2AcAMKUEAADZBwAwpgQAANoHACCnBAAA2wcAMKgEAADbBwAwqQQAANsHADCqBAAA2wcAMKsEAADdBwAwrAQAAN4HADAHnQMBAAAAAaQDQAAAAAH4AwAAAPgDAvkDAQAAAAH6AwEAAAAB-wMBAAAAAfwDAQAAAAECAAAASQAgDwAA4wcAIAMAAABJACAPAADjBwAgEAAA4gcAIAEIAACtCwAwDSkAAJ0GACCaAwAAmwYAMJsDAABHABCcAwAAmwYAMJ0DAQAAAAGkA0AAvQUAIckDAQC7BQAh-AMAAJwG-AMi-QMBALsFACH6AwEAuwUAIfsDAQDZBQAh_AMBANkFACGcBAAAmgYAIAIAAABJACAIAADiBwAgAgAAAN8HACAIAADgBwAgC5oDAADeBwAwmwMAAN8HABCcAwAA3gcAMJ0DAQC7BQAhpANAAL0FACHJAwEAuwUAIfgDAACcBvgDIvkDAQC7BQAh-gMBALsFACH7AwEA2QUAIfwDAQDZBQAhC5oDAADeBwAwmwMAAN8HABCcAwAA3gcAMJ0DAQC7BQAhpANAAL0FACHJAwEAuwUAIfgDAACcBvgDIvkDAQC7BQAh-gMBALsFACH7AwEA2QUAIfwDAQDZBQAhB50DAQC4BgAhpANAALsGACH4AwAA4Qf4AyL5AwEAuAYAIfoDAQC4BgAh-wMBAMMGACH8AwEAwwYAIQGnBAAAAPgDAgedAwEAuAYAIaQDQAC7BgAh-AMAAOEH-AMi-QMBALgGACH6AwEAuAYAIfsDAQDDBgAh_AMBAMMGACEHnQMBAAAAAaQDQAAAAAH4AwAAAPgDAvkDAQAAAAH6AwEAAAAB-wMBAAAAAfwDAQAAAAEaHAAA5wcAIB0AAOUHACAfAQAAAAEhAADmBwAgJwAA6AcAICgAAOkHACAqAADqBwAgnQMBAAAAAZ4DAQAAAAGkA0AAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAc4DAAAAzgMCzwMBAAAAAdEDAQAAAAH9AwEAAAAB_gNAAAAAAf8DAQAAAAGABAEAAAABgQQIAAAAAYIEEAAAAAGDBAEAAAABhAQIAAAAAYUEEAAAAAEDDwAAqwsAIKQEAACsCwAgqgQAAB4AIAMPAACpCwAgpAQAAKoLACCqBAAAagAgAw8AAKcLACCkBAAAqAsAIKoEAAAaACADDwAApQsAIKQEAACmCwAgqgQAAB4AIAMPAACjCwAgpAQAAKQLACCqBAAAHgAgBA8AANcHADCkBAAA2AcAMKYEAADaBwAgqgQAANsHADADnQMBAAAAAaQDQAAAAAHpAwEAAAABAgAAADUAIA8AAPYHACADAAAANQAgDwAA9gcAIBAAAPUHACABCAAAogsAMAgiAACjBgAgmgMAAKIGADCbAwAAMwAQnAMAAKIGADCdAwEAAAABpANAAL0FACHQAwEAuwUAIekDAQC7BQAhAgAAADUAIAgAAPUHACACAAAA8wcAIAgAAPQHACAHmgMAAPIHADCbAwAA8wcAEJwDAADyBwAwnQMBALsFACGkA0AAvQUAIdADAQC7BQAh6QMBALsFACEHmgMAAPIHADCbAwAA8wcAEJwDAADyBwAwnQMBALsFACGkA0AAvQUAIdADAQC7BQAh6QMBALsFACEDnQMBALgGACGkA0AAuwYAIekDAQC4BgAhA50DAQC4BgAhpANAALsGACHpAwEAuAYAIQOdAwEAAAABpANAAAAAAekDAQAAAAEDDwAAoAsAIKQEAAChCwAgqgQAABoAIAQPAADrBwAwpAQAAOwHADCmBAAA7gcAIKoEAADvBwAwBA8AAMUHADCkBAAAxgcAMKYEAADIBwAgqgQAAMkHADAEDwAAuQcAMKQEAAC6BwAwpgQAALwHACCqBAAAvQcAMAAAAAAAAAUPAACTCwAgEAAAngsAIKQEAACUCwAgpQQAAJ0LACCqBAAAGgAgCw8AAJoIADAQAACeCAAwpAQAAJsIADClBAAAnAgAMKYEAACdCAAgpwQAAMkHADCoBAAAyQcAMKkEAADJBwAwqgQAAMkHADCrBAAAnwgAMKwEAADMBwAwCw8AAI4IADAQAACTCAAwpAQAAI8IADClBAAAkAgAMKYEAACRCAAgpwQAAJIIADCoBAAAkggAMKkEAACSCAAwqgQAAJIIADCrBAAAlAgAMKwEAACVCAAwCw8AAIUIADAQAACJCAAwpAQAAIYIADClBAAAhwgAMKYEAACICAAgpwQAAL0HADCoBAAAvQcAMKkEAAC9BwAwqgQAAL0HADCrBAAAiggAMKwEAADABwAwFRwAAPMGACAdAAD0BgAgHwEAAAABIgAA9gYAICYAAPcGACCdAwEAAAABngMBAAAAAaQDQAAAAAG3A0AAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAc4DAAAAzgMC0AMBAAAAAdEDAQAAAAHTAwAAANMDAtQDAgAAAAHVAwEAAAAB1gNAAAAAAdcDIAAAAAECAAAALgAgDwAAjQgAIAMAAAAuACAPAACNCAAgEAAAjAgAIAEIAACcCwAwAgAAAC4AIAgAAIwIACACAAAAwQcAIAgAAIsIACARHwEAwwYAIZ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbcDQAC7BgAhuwMIALkGACG8AxAAzgYAIb0DAQC4BgAhzAMBALgGACHOAwAA4AbOAyLQAwEAwwYAIdEDAQC4BgAh0wMAAOEG0wMi1AMCALoGACHVAwEAwwYAIdYDQAC7BgAh1wMgAM8GACEVHAAA4gYAIB0AAOMGACAfAQDDBgAhIgAA5QYAICYAAOYGACCdAwEAuAYAIZ4DAQC4BgAhpANAALsGACG3A0AAuwYAIbsDCAC5BgAhvAMQAM4GACG9AwEAuAYAIcwDAQC4BgAhzgMAAOAGzgMi0AMBAMMGACHRAwEAuAYAIdMDAADhBtMDItQDAgC6BgAh1QMBAMMGACHWA0AAuwYAIdcDIADPBgAhFRwAAPMGACAdAAD0BgAgHwEAAAABIgAA9gYAICYAAPcGACCdAwEAAAABngMBAAAAAaQDQAAAAAG3A0AAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAc4DAAAAzgMC0AMBAAAAAdEDAQAAAAHTAwAAANMDAtQDAgAAAAHVAwEAAAAB1gNAAAAAAdcDIAAAAAEKHAAA_wYAIJ0DAQAAAAGeAwEAAAABpANAAAAAAaUDQAAAAAHYAwgAAAAB2QMQAAAAAdoDIAAAAAHbAwEAAAAB3AMCAAAAAQIAAAApACAPAACZCAAgAwAAACkAIA8AAJkIACAQAACYCAAgAQgAAJsLADAQHAAAgQYAIB8AAKcGACCaAwAAqwYAMJsDAAAnABCcAwAAqwYAMJ0DAQAAAAGeAwEAuwUAIaQDQAC9BQAhpQNAAL0FACHPAwEA2QUAIdgDCAD_BQAh2QMQAIcGACHaAyAA7gUAIdsDAQDZBQAh3AMCAIAGACGeBAAAqgYAIAIAAAApACAIAACYCAAgAgAAAJYIACAIAACXCAAgDZoDAACVCAAwmwMAAJYIABCcAwAAlQgAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIaUDQAC9BQAhzwMBANkFACHYAwgA_wUAIdkDEACHBgAh2gMgAO4FACHbAwEA2QUAIdwDAgCABgAhDZoDAACVCAAwmwMAAJYIABCcAwAAlQgAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIaUDQAC9BQAhzwMBANkFACHYAwgA_wUAIdkDEACHBgAh2gMgAO4FACHbAwEA2QUAIdwDAgCABgAhCZ0DAQC4BgAhngMBALgGACGkA0AAuwYAIaUDQAC7BgAh2AMIALkGACHZAxAAzgYAIdoDIADPBgAh2wMBAMMGACHcAwIAugYAIQocAAD9BgAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAhpQNAALsGACHYAwgAuQYAIdkDEADOBgAh2gMgAM8GACHbAwEAwwYAIdwDAgC6BgAhChwAAP8GACCdAwEAAAABngMBAAAAAaQDQAAAAAGlA0AAAAAB2AMIAAAAAdkDEAAAAAHaAyAAAAAB2wMBAAAAAdwDAgAAAAEaHAAA5wcAIB0AAOUHACAfAQAAAAEiAACkCAAgJwAA6AcAICgAAOkHACAqAADqBwAgnQMBAAAAAZ4DAQAAAAGkA0AAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAc4DAAAAzgMC0AMBAAAAAdEDAQAAAAH9AwEAAAAB_gNAAAAAAf8DAQAAAAGABAEAAAABgQQIAAAAAYIEEAAAAAGDBAEAAAABhAQIAAAAAYUEEAAAAAECAAAAIgAgDwAAowgAIAMAAAAiACAPAACjCAAgEAAAoQgAIAEIAACaCwAwAgAAACIAIAgAAKEIACACAAAAzQcAIAgAAKAIACAUHwEAwwYAIZ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbsDCAC5BgAhvAMQAM4GACG9AwEAuAYAIcwDAQC4BgAhzgMAAOAGzgMi0AMBAMMGACHRAwEAwwYAIf0DAQC4BgAh_gNAALsGACH_AwEAwwYAIYAEAQDDBgAhgQQIAM8HACGCBBAAzgYAIYMEAQDDBgAhhAQIAM8HACGFBBAAzgYAIRocAADTBwAgHQAA0QcAIB8BAMMGACEiAACiCAAgJwAA1AcAICgAANUHACAqAADWBwAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAhuwMIALkGACG8AxAAzgYAIb0DAQC4BgAhzAMBALgGACHOAwAA4AbOAyLQAwEAwwYAIdEDAQDDBgAh_QMBALgGACH-A0AAuwYAIf8DAQDDBgAhgAQBAMMGACGBBAgAzwcAIYIEEADOBgAhgwQBAMMGACGEBAgAzwcAIYUEEADOBgAhBw8AAJULACAQAACYCwAgpAQAAJYLACClBAAAlwsAIKgEAAAxACCpBAAAMQAgqgQAAG0AIBocAADnBwAgHQAA5QcAIB8BAAAAASIAAKQIACAnAADoBwAgKAAA6QcAICoAAOoHACCdAwEAAAABngMBAAAAAaQDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHMAwEAAAABzgMAAADOAwLQAwEAAAAB0QMBAAAAAf0DAQAAAAH-A0AAAAAB_wMBAAAAAYAEAQAAAAGBBAgAAAABggQQAAAAAYMEAQAAAAGEBAgAAAABhQQQAAAAAQMPAACVCwAgpAQAAJYLACCqBAAAbQAgAw8AAJMLACCkBAAAlAsAIKoEAAAaACAEDwAAmggAMKQEAACbCAAwpgQAAJ0IACCqBAAAyQcAMAQPAACOCAAwpAQAAI8IADCmBAAAkQgAIKoEAACSCAAwBA8AAIUIADCkBAAAhggAMKYEAACICAAgqgQAAL0HADAAAAAAAAAAAAUPAACLCwAgEAAAkQsAIKQEAACMCwAgpQQAAJALACCqBAAAGgAgBQ8AAIkLACAQAACOCwAgpAQAAIoLACClBAAAjQsAIKoEAAAeACADDwAAiwsAIKQEAACMCwAgqgQAABoAIAMPAACJCwAgpAQAAIoLACCqBAAAHgAgAAAABQ8AAIQLACAQAACHCwAgpAQAAIULACClBAAAhgsAIKoEAAAiACADDwAAhAsAIKQEAACFCwAgqgQAACIAIAAAAAAAAAAAAAAFDwAA_woAIBAAAIILACCkBAAAgAsAIKUEAACBCwAgqgQAAB4AIAMPAAD_CgAgpAQAAIALACCqBAAAHgAgAAAAAacEAAAAhwQCBQ8AAPMKACAQAAD9CgAgpAQAAPQKACClBAAA_AoAIKoEAAAaACALDwAAkQkAMBAAAJUJADCkBAAAkgkAMKUEAACTCQAwpgQAAJQJACCnBAAAyQcAMKgEAADJBwAwqQQAAMkHADCqBAAAyQcAMKsEAACWCQAwrAQAAMwHADALDwAAiAkAMBAAAIwJADCkBAAAiQkAMKUEAACKCQAwpgQAAIsJACCnBAAAyQcAMKgEAADJBwAwqQQAAMkHADCqBAAAyQcAMKsEAACNCQAwrAQAAMwHADALDwAA_wgAMBAAAIMJADCkBAAAgAkAMKUEAACBCQAwpgQAAIIJACCnBAAAyQcAMKgEAADJBwAwqQQAAMkHADCqBAAAyQcAMKsEAACECQAwrAQAAMwHADALDwAA8wgAMBAAAPgIADCkBAAA9AgAMKUEAAD1CAAwpgQAAPYIACCnBAAA9wgAMKgEAAD3CAAwqQQAAPcIADCqBAAA9wgAMKsEAAD5CAAwrAQAAPoIADALDwAA5wgAMBAAAOwIADCkBAAA6AgAMKUEAADpCAAwpgQAAOoIACCnBAAA6wgAMKgEAADrCAAwqQQAAOsIADCqBAAA6wgAMKsEAADtCAAwrAQAAO4IADALDwAA3ggAMBAAAOIIADCkBAAA3wgAMKUEAADgCAAwpgQAAOEIACCnBAAAvQcAMKgEAAC9BwAwqQQAAL0HADCqBAAAvQcAMKsEAADjCAAwrAQAAMAHADALDwAA0ggAMBAAANcIADCkBAAA0wgAMKUEAADUCAAwpgQAANUIACCnBAAA1ggAMKgEAADWCAAwqQQAANYIADCqBAAA1ggAMKsEAADYCAAwrAQAANkIADAKHAAAswgAIJ0DAQAAAAGeAwEAAAABpANAAAAAAbsDCAAAAAG9AwEAAAAB8ANAAAAAAfQDCAAAAAH1AwgAAAAB9gMBAAAAAQIAAABfACAPAADdCAAgAwAAAF8AIA8AAN0IACAQAADcCAAgAQgAAPsKADAQHAAAgQYAIB0AAJAGACCaAwAAjgYAMJsDAABdABCcAwAAjgYAMJ0DAQAAAAGeAwEAuwUAIaQDQAC9BQAhuwMIAP8FACG9AwEAuwUAIcwDAQC7BQAh8ANAAL0FACH0AwgAjwYAIfUDCACPBgAh9gMBALsFACGZBAAAjQYAIAIAAABfACAIAADcCAAgAgAAANoIACAIAADbCAAgDZoDAADZCAAwmwMAANoIABCcAwAA2QgAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIbsDCAD_BQAhvQMBALsFACHMAwEAuwUAIfADQAC9BQAh9AMIAI8GACH1AwgAjwYAIfYDAQC7BQAhDZoDAADZCAAwmwMAANoIABCcAwAA2QgAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIbsDCAD_BQAhvQMBALsFACHMAwEAuwUAIfADQAC9BQAh9AMIAI8GACH1AwgAjwYAIfYDAQC7BQAhCZ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbsDCAC5BgAhvQMBALgGACHwA0AAuwYAIfQDCADPBwAh9QMIAM8HACH2AwEAuAYAIQocAACxCAAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAhuwMIALkGACG9AwEAuAYAIfADQAC7BgAh9AMIAM8HACH1AwgAzwcAIfYDAQC4BgAhChwAALMIACCdAwEAAAABngMBAAAAAaQDQAAAAAG7AwgAAAABvQMBAAAAAfADQAAAAAH0AwgAAAAB9QMIAAAAAfYDAQAAAAEVHAAA8wYAIB8BAAAAASEAAPUGACAiAAD2BgAgJgAA9wYAIJ0DAQAAAAGeAwEAAAABpANAAAAAAbcDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHOAwAAAM4DAs8DAQAAAAHQAwEAAAAB0QMBAAAAAdMDAAAA0wMC1AMCAAAAAdUDAQAAAAHWA0AAAAAB1wMgAAAAAQIAAAAuACAPAADmCAAgAwAAAC4AIA8AAOYIACAQAADlCAAgAQgAAPoKADACAAAALgAgCAAA5QgAIAIAAADBBwAgCAAA5AgAIBEfAQDDBgAhnQMBALgGACGeAwEAuAYAIaQDQAC7BgAhtwNAALsGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACHOAwAA4AbOAyLPAwEAwwYAIdADAQDDBgAh0QMBALgGACHTAwAA4QbTAyLUAwIAugYAIdUDAQDDBgAh1gNAALsGACHXAyAAzwYAIRUcAADiBgAgHwEAwwYAISEAAOQGACAiAADlBgAgJgAA5gYAIJ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbcDQAC7BgAhuwMIALkGACG8AxAAzgYAIb0DAQC4BgAhzgMAAOAGzgMizwMBAMMGACHQAwEAwwYAIdEDAQC4BgAh0wMAAOEG0wMi1AMCALoGACHVAwEAwwYAIdYDQAC7BgAh1wMgAM8GACEVHAAA8wYAIB8BAAAAASEAAPUGACAiAAD2BgAgJgAA9wYAIJ0DAQAAAAGeAwEAAAABpANAAAAAAbcDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHOAwAAAM4DAs8DAQAAAAHQAwEAAAAB0QMBAAAAAdMDAAAA0wMC1AMCAAAAAdUDAQAAAAHWA0AAAAAB1wMgAAAAAQwcAACgBwAgLwAAogcAIJ0DAQAAAAGeAwEAAAABnwMAAADhAwKkA0AAAAABvQMBAAAAAc8DAQAAAAHhAwgAAAAB4gMQAAAAAeQDAAAA5AMC5QMgAAAAAQIAAABUACAPAADyCAAgAwAAAFQAIA8AAPIIACAQAADxCAAgAQgAAPkKADARHAAAgQYAIB0AAJcGACAvAAD2BQAgmgMAAJQGADCbAwAAUgAQnAMAAJQGADCdAwEAAAABngMBALsFACGfAwAAlQbhAyKkA0AAvQUAIb0DAQDZBQAhzAMBANkFACHPAwEA2QUAIeEDCAD_BQAh4gMQAIcGACHkAwAAlgbkAyLlAyAA7gUAIQIAAABUACAIAADxCAAgAgAAAO8IACAIAADwCAAgDpoDAADuCAAwmwMAAO8IABCcAwAA7ggAMJ0DAQC7BQAhngMBALsFACGfAwAAlQbhAyKkA0AAvQUAIb0DAQDZBQAhzAMBANkFACHPAwEA2QUAIeEDCAD_BQAh4gMQAIcGACHkAwAAlgbkAyLlAyAA7gUAIQ6aAwAA7ggAMJsDAADvCAAQnAMAAO4IADCdAwEAuwUAIZ4DAQC7BQAhnwMAAJUG4QMipANAAL0FACG9AwEA2QUAIcwDAQDZBQAhzwMBANkFACHhAwgA_wUAIeIDEACHBgAh5AMAAJYG5AMi5QMgAO4FACEKnQMBALgGACGeAwEAuAYAIZ8DAACPB-EDIqQDQAC7BgAhvQMBAMMGACHPAwEAwwYAIeEDCAC5BgAh4gMQAM4GACHkAwAAkAfkAyLlAyAAzwYAIQwcAACRBwAgLwAAkwcAIJ0DAQC4BgAhngMBALgGACGfAwAAjwfhAyKkA0AAuwYAIb0DAQDDBgAhzwMBAMMGACHhAwgAuQYAIeIDEADOBgAh5AMAAJAH5AMi5QMgAM8GACEMHAAAoAcAIC8AAKIHACCdAwEAAAABngMBAAAAAZ8DAAAA4QMCpANAAAAAAb0DAQAAAAHPAwEAAAAB4QMIAAAAAeIDEAAAAAHkAwAAAOQDAuUDIAAAAAEEnQMBAAAAAbsDCAAAAAG8AxAAAAABvQMBAAAAAQIAAABQACAPAAD-CAAgAwAAAFAAIA8AAP4IACAQAAD9CAAgAQgAAPgKADAKHQAAkAYAIJoDAACZBgAwmwMAAE4AEJwDAACZBgAwnQMBAAAAAbsDCAD_BQAhvAMQAIcGACG9AwEAuwUAIcwDAQC7BQAhmwQAAJgGACACAAAAUAAgCAAA_QgAIAIAAAD7CAAgCAAA_AgAIAiaAwAA-ggAMJsDAAD7CAAQnAMAAPoIADCdAwEAuwUAIbsDCAD_BQAhvAMQAIcGACG9AwEAuwUAIcwDAQC7BQAhCJoDAAD6CAAwmwMAAPsIABCcAwAA-ggAMJ0DAQC7BQAhuwMIAP8FACG8AxAAhwYAIb0DAQC7BQAhzAMBALsFACEEnQMBALgGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACEEnQMBALgGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACEEnQMBAAAAAbsDCAAAAAG8AxAAAAABvQMBAAAAARocAADnBwAgHQAA5QcAIB8BAAAAASEAAOYHACAiAACkCAAgJwAA6AcAICoAAOoHACCdAwEAAAABngMBAAAAAaQDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHMAwEAAAABzgMAAADOAwLPAwEAAAAB0AMBAAAAAdEDAQAAAAH9AwEAAAAB_gNAAAAAAf8DAQAAAAGBBAgAAAABggQQAAAAAYMEAQAAAAGEBAgAAAABhQQQAAAAAQIAAAAiACAPAACHCQAgAwAAACIAIA8AAIcJACAQAACGCQAgAQgAAPcKADACAAAAIgAgCAAAhgkAIAIAAADNBwAgCAAAhQkAIBQfAQDDBgAhnQMBALgGACGeAwEAuAYAIaQDQAC7BgAhuwMIALkGACG8AxAAzgYAIb0DAQC4BgAhzAMBALgGACHOAwAA4AbOAyLPAwEAwwYAIdADAQDDBgAh0QMBAMMGACH9AwEAuAYAIf4DQAC7BgAh_wMBAMMGACGBBAgAzwcAIYIEEADOBgAhgwQBAMMGACGEBAgAzwcAIYUEEADOBgAhGhwAANMHACAdAADRBwAgHwEAwwYAISEAANIHACAiAACiCAAgJwAA1AcAICoAANYHACCdAwEAuAYAIZ4DAQC4BgAhpANAALsGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACHMAwEAuAYAIc4DAADgBs4DIs8DAQDDBgAh0AMBAMMGACHRAwEAwwYAIf0DAQC4BgAh_gNAALsGACH_AwEAwwYAIYEECADPBwAhggQQAM4GACGDBAEAwwYAIYQECADPBwAhhQQQAM4GACEaHAAA5wcAIB0AAOUHACAfAQAAAAEhAADmBwAgIgAApAgAICcAAOgHACAqAADqBwAgnQMBAAAAAZ4DAQAAAAGkA0AAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAc4DAAAAzgMCzwMBAAAAAdADAQAAAAHRAwEAAAAB_QMBAAAAAf4DQAAAAAH_AwEAAAABgQQIAAAAAYIEEAAAAAGDBAEAAAABhAQIAAAAAYUEEAAAAAEaHAAA5wcAIB0AAOUHACAfAQAAAAEhAADmBwAgIgAApAgAICgAAOkHACAqAADqBwAgnQMBAAAAAZ4DAQAAAAGkA0AAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAc4DAAAAzgMCzwMBAAAAAdADAQAAAAHRAwEAAAAB_QMBAAAAAf4DQAAAAAGABAEAAAABgQQIAAAAAYIEEAAAAAGDBAEAAAABhAQIAAAAAYUEEAAAAAECAAAAIgAgDwAAkAkAIAMAAAAiACAPAACQCQAgEAAAjwkAIAEIAAD2CgAwAgAAACIAIAgAAI8JACACAAAAzQcAIAgAAI4JACAUHwEAwwYAIZ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbsDCAC5BgAhvAMQAM4GACG9AwEAuAYAIcwDAQC4BgAhzgMAAOAGzgMizwMBAMMGACHQAwEAwwYAIdEDAQDDBgAh_QMBALgGACH-A0AAuwYAIYAEAQDDBgAhgQQIAM8HACGCBBAAzgYAIYMEAQDDBgAhhAQIAM8HACGFBBAAzgYAIRocAADTBwAgHQAA0QcAIB8BAMMGACEhAADSBwAgIgAAoggAICgAANUHACAqAADWBwAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAhuwMIALkGACG8AxAAzgYAIb0DAQC4BgAhzAMBALgGACHOAwAA4AbOAyLPAwEAwwYAIdADAQDDBgAh0QMBAMMGACH9AwEAuAYAIf4DQAC7BgAhgAQBAMMGACGBBAgAzwcAIYIEEADOBgAhgwQBAMMGACGEBAgAzwcAIYUEEADOBgAhGhwAAOcHACAdAADlBwAgHwEAAAABIQAA5gcAICIAAKQIACAoAADpBwAgKgAA6gcAIJ0DAQAAAAGeAwEAAAABpANAAAAAAbsDCAAAAAG8AxAAAAABvQMBAAAAAcwDAQAAAAHOAwAAAM4DAs8DAQAAAAHQAwEAAAAB0QMBAAAAAf0DAQAAAAH-A0AAAAABgAQBAAAAAYEECAAAAAGCBBAAAAABgwQBAAAAAYQECAAAAAGFBBAAAAABGhwAAOcHACAfAQAAAAEhAADmBwAgIgAApAgAICcAAOgHACAoAADpBwAgKgAA6gcAIJ0DAQAAAAGeAwEAAAABpANAAAAAAbsDCAAAAAG8AxAAAAABvQMBAAAAAc4DAAAAzgMCzwMBAAAAAdADAQAAAAHRAwEAAAAB_QMBAAAAAf4DQAAAAAH_AwEAAAABgAQBAAAAAYEECAAAAAGCBBAAAAABgwQBAAAAAYQECAAAAAGFBBAAAAABAgAAACIAIA8AAJkJACADAAAAIgAgDwAAmQkAIBAAAJgJACABCAAA9QoAMAIAAAAiACAIAACYCQAgAgAAAM0HACAIAACXCQAgFB8BAMMGACGdAwEAuAYAIZ4DAQC4BgAhpANAALsGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACHOAwAA4AbOAyLPAwEAwwYAIdADAQDDBgAh0QMBAMMGACH9AwEAuAYAIf4DQAC7BgAh_wMBAMMGACGABAEAwwYAIYEECADPBwAhggQQAM4GACGDBAEAwwYAIYQECADPBwAhhQQQAM4GACEaHAAA0wcAIB8BAMMGACEhAADSBwAgIgAAoggAICcAANQHACAoAADVBwAgKgAA1gcAIJ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbsDCAC5BgAhvAMQAM4GACG9AwEAuAYAIc4DAADgBs4DIs8DAQDDBgAh0AMBAMMGACHRAwEAwwYAIf0DAQC4BgAh_gNAALsGACH_AwEAwwYAIYAEAQDDBgAhgQQIAM8HACGCBBAAzgYAIYMEAQDDBgAhhAQIAM8HACGFBBAAzgYAIRocAADnBwAgHwEAAAABIQAA5gcAICIAAKQIACAnAADoBwAgKAAA6QcAICoAAOoHACCdAwEAAAABngMBAAAAAaQDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHOAwAAAM4DAs8DAQAAAAHQAwEAAAAB0QMBAAAAAf0DAQAAAAH-A0AAAAAB_wMBAAAAAYAEAQAAAAGBBAgAAAABggQQAAAAAYMEAQAAAAGEBAgAAAABhQQQAAAAAQMPAADzCgAgpAQAAPQKACCqBAAAGgAgBA8AAJEJADCkBAAAkgkAMKYEAACUCQAgqgQAAMkHADAEDwAAiAkAMKQEAACJCQAwpgQAAIsJACCqBAAAyQcAMAQPAAD_CAAwpAQAAIAJADCmBAAAggkAIKoEAADJBwAwBA8AAPMIADCkBAAA9AgAMKYEAAD2CAAgqgQAAPcIADAEDwAA5wgAMKQEAADoCAAwpgQAAOoIACCqBAAA6wgAMAQPAADeCAAwpAQAAN8IADCmBAAA4QgAIKoEAAC9BwAwBA8AANIIADCkBAAA0wgAMKYEAADVCAAgqgQAANYIADAAAAALDwAAsAoAMBAAALUKADCkBAAAsQoAMKUEAACyCgAwpgQAALMKACCnBAAAtAoAMKgEAAC0CgAwqQQAALQKADCqBAAAtAoAMKsEAAC2CgAwrAQAALcKADALDwAApwoAMBAAAKsKADCkBAAAqAoAMKUEAACpCgAwpgQAAKoKACCnBAAAyQcAMKgEAADJBwAwqQQAAMkHADCqBAAAyQcAMKsEAACsCgAwrAQAAMwHADALDwAAmwoAMBAAAKAKADCkBAAAnAoAMKUEAACdCgAwpgQAAJ4KACCnBAAAnwoAMKgEAACfCgAwqQQAAJ8KADCqBAAAnwoAMKsEAAChCgAwrAQAAKIKADALDwAAjwoAMBAAAJQKADCkBAAAkAoAMKUEAACRCgAwpgQAAJIKACCnBAAAkwoAMKgEAACTCgAwqQQAAJMKADCqBAAAkwoAMKsEAACVCgAwrAQAAJYKADALDwAAgwoAMBAAAIgKADCkBAAAhAoAMKUEAACFCgAwpgQAAIYKACCnBAAAhwoAMKgEAACHCgAwqQQAAIcKADCqBAAAhwoAMKsEAACJCgAwrAQAAIoKADALDwAA-gkAMBAAAP4JADCkBAAA-wkAMKUEAAD8CQAwpgQAAP0JACCnBAAA6wgAMKgEAADrCAAwqQQAAOsIADCqBAAA6wgAMKsEAAD_CQAwrAQAAO4IADALDwAA8QkAMBAAAPUJADCkBAAA8gkAMKUEAADzCQAwpgQAAPQJACCnBAAAmAcAMKgEAACYBwAwqQQAAJgHADCqBAAAmAcAMKsEAAD2CQAwrAQAAJsHADALDwAA6AkAMBAAAOwJADCkBAAA6QkAMKUEAADqCQAwpgQAAOsJACCnBAAAkggAMKgEAACSCAAwqQQAAJIIADCqBAAAkggAMKsEAADtCQAwrAQAAJUIADALDwAA3wkAMBAAAOMJADCkBAAA4AkAMKUEAADhCQAwpgQAAOIJACCnBAAAvQcAMKgEAAC9BwAwqQQAAL0HADCqBAAAvQcAMKsEAADkCQAwrAQAAMAHADALDwAA0wkAMBAAANgJADCkBAAA1AkAMKUEAADVCQAwpgQAANYJACCnBAAA1wkAMKgEAADXCQAwqQQAANcJADCqBAAA1wkAMKsEAADZCQAwrAQAANoJADALDwAAxwkAMBAAAMwJADCkBAAAyAkAMKUEAADJCQAwpgQAAMoJACCnBAAAywkAMKgEAADLCQAwqQQAAMsJADCqBAAAywkAMKsEAADNCQAwrAQAAM4JADALDwAAuwkAMBAAAMAJADCkBAAAvAkAMKUEAAC9CQAwpgQAAL4JACCnBAAAvwkAMKgEAAC_CQAwqQQAAL8JADCqBAAAvwkAMKsEAADBCQAwrAQAAMIJADALDwAAsgkAMBAAALYJADCkBAAAswkAMKUEAAC0CQAwpgQAALUJACCnBAAA1ggAMKgEAADWCAAwqQQAANYIADCqBAAA1ggAMKsEAAC3CQAwrAQAANkIADAKHQAAtAgAIJ0DAQAAAAGkA0AAAAABuwMIAAAAAb0DAQAAAAHMAwEAAAAB8ANAAAAAAfQDCAAAAAH1AwgAAAAB9gMBAAAAAQIAAABfACAPAAC6CQAgAwAAAF8AIA8AALoJACAQAAC5CQAgAQgAAPIKADACAAAAXwAgCAAAuQkAIAIAAADaCAAgCAAAuAkAIAmdAwEAuAYAIaQDQAC7BgAhuwMIALkGACG9AwEAuAYAIcwDAQC4BgAh8ANAALsGACH0AwgAzwcAIfUDCADPBwAh9gMBALgGACEKHQAAsggAIJ0DAQC4BgAhpANAALsGACG7AwgAuQYAIb0DAQC4BgAhzAMBALgGACHwA0AAuwYAIfQDCADPBwAh9QMIAM8HACH2AwEAuAYAIQodAAC0CAAgnQMBAAAAAaQDQAAAAAG7AwgAAAABvQMBAAAAAcwDAQAAAAHwA0AAAAAB9AMIAAAAAfUDCAAAAAH2AwEAAAABCJ0DAQAAAAGfAwEAAAABoAMBAAAAAaEDAQAAAAGiAwgAAAABowMCAAAAAaQDQAAAAAGlA0AAAAABAgAAAIEBACAPAADGCQAgAwAAAIEBACAPAADGCQAgEAAAxQkAIAEIAADxCgAwDhwAAIEGACCaAwAA_gUAMJsDAAB_ABCcAwAA_gUAMJ0DAQAAAAGeAwEAuwUAIZ8DAQC7BQAhoAMBALsFACGhAwEAuwUAIaIDCAD_BQAhowMCAIAGACGkA0AAvQUAIaUDQAC9BQAhlwQAAP0FACACAAAAgQEAIAgAAMUJACACAAAAwwkAIAgAAMQJACAMmgMAAMIJADCbAwAAwwkAEJwDAADCCQAwnQMBALsFACGeAwEAuwUAIZ8DAQC7BQAhoAMBALsFACGhAwEAuwUAIaIDCAD_BQAhowMCAIAGACGkA0AAvQUAIaUDQAC9BQAhDJoDAADCCQAwmwMAAMMJABCcAwAAwgkAMJ0DAQC7BQAhngMBALsFACGfAwEAuwUAIaADAQC7BQAhoQMBALsFACGiAwgA_wUAIaMDAgCABgAhpANAAL0FACGlA0AAvQUAIQidAwEAuAYAIZ8DAQC4BgAhoAMBALgGACGhAwEAuAYAIaIDCAC5BgAhowMCALoGACGkA0AAuwYAIaUDQAC7BgAhCJ0DAQC4BgAhnwMBALgGACGgAwEAuAYAIaEDAQC4BgAhogMIALkGACGjAwIAugYAIaQDQAC7BgAhpQNAALsGACEInQMBAAAAAZ8DAQAAAAGgAwEAAAABoQMBAAAAAaIDCAAAAAGjAwIAAAABpANAAAAAAaUDQAAAAAEEnQMBAAAAAZ8DAAAAsgMCpANAAAAAAbIDAQAAAAECAAAAfQAgDwAA0gkAIAMAAAB9ACAPAADSCQAgEAAA0QkAIAEIAADwCgAwCRwAAIEGACCaAwAAggYAMJsDAAB7ABCcAwAAggYAMJ0DAQAAAAGeAwEAuwUAIZ8DAACDBrIDIqQDQAC9BQAhsgMBANkFACECAAAAfQAgCAAA0QkAIAIAAADPCQAgCAAA0AkAIAiaAwAAzgkAMJsDAADPCQAQnAMAAM4JADCdAwEAuwUAIZ4DAQC7BQAhnwMAAIMGsgMipANAAL0FACGyAwEA2QUAIQiaAwAAzgkAMJsDAADPCQAQnAMAAM4JADCdAwEAuwUAIZ4DAQC7BQAhnwMAAIMGsgMipANAAL0FACGyAwEA2QUAIQSdAwEAuAYAIZ8DAADCBrIDIqQDQAC7BgAhsgMBAMMGACEEnQMBALgGACGfAwAAwgayAyKkA0AAuwYAIbIDAQDDBgAhBJ0DAQAAAAGfAwAAALIDAqQDQAAAAAGyAwEAAAABDJ0DAQAAAAGkA0AAAAABtAMAAAC0AwK2AwAAALYDArcDQAAAAAG4A0AAAAABuQMBAAAAAboDAQAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAG-AyAAAAABAgAAAHkAIA8AAN4JACADAAAAeQAgDwAA3gkAIBAAAN0JACABCAAA7woAMBEcAACBBgAgmgMAAIQGADCbAwAAdwAQnAMAAIQGADCdAwEAAAABngMBALsFACGkA0AAvQUAIbQDAACFBrQDIrYDAACGBrYDIrcDQAC9BQAhuANAAO8FACG5AwEAAAABugMBANkFACG7AwgA_wUAIbwDEACHBgAhvQMBALsFACG-AyAA7gUAIQIAAAB5ACAIAADdCQAgAgAAANsJACAIAADcCQAgEJoDAADaCQAwmwMAANsJABCcAwAA2gkAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIbQDAACFBrQDIrYDAACGBrYDIrcDQAC9BQAhuANAAO8FACG5AwEA2QUAIboDAQDZBQAhuwMIAP8FACG8AxAAhwYAIb0DAQC7BQAhvgMgAO4FACEQmgMAANoJADCbAwAA2wkAEJwDAADaCQAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAhtAMAAIUGtAMitgMAAIYGtgMitwNAAL0FACG4A0AA7wUAIbkDAQDZBQAhugMBANkFACG7AwgA_wUAIbwDEACHBgAhvQMBALsFACG-AyAA7gUAIQydAwEAuAYAIaQDQAC7BgAhtAMAAMsGtAMitgMAAMwGtgMitwNAALsGACG4A0AAzQYAIbkDAQDDBgAhugMBAMMGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACG-AyAAzwYAIQydAwEAuAYAIaQDQAC7BgAhtAMAAMsGtAMitgMAAMwGtgMitwNAALsGACG4A0AAzQYAIbkDAQDDBgAhugMBAMMGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACG-AyAAzwYAIQydAwEAAAABpANAAAAAAbQDAAAAtAMCtgMAAAC2AwK3A0AAAAABuANAAAAAAbkDAQAAAAG6AwEAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABvgMgAAAAARUdAAD0BgAgHwEAAAABIQAA9QYAICIAAPYGACAmAAD3BgAgnQMBAAAAAaQDQAAAAAG3A0AAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAc4DAAAAzgMCzwMBAAAAAdADAQAAAAHRAwEAAAAB0wMAAADTAwLUAwIAAAAB1QMBAAAAAdYDQAAAAAHXAyAAAAABAgAAAC4AIA8AAOcJACADAAAALgAgDwAA5wkAIBAAAOYJACABCAAA7goAMAIAAAAuACAIAADmCQAgAgAAAMEHACAIAADlCQAgER8BAMMGACGdAwEAuAYAIaQDQAC7BgAhtwNAALsGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACHMAwEAuAYAIc4DAADgBs4DIs8DAQDDBgAh0AMBAMMGACHRAwEAuAYAIdMDAADhBtMDItQDAgC6BgAh1QMBAMMGACHWA0AAuwYAIdcDIADPBgAhFR0AAOMGACAfAQDDBgAhIQAA5AYAICIAAOUGACAmAADmBgAgnQMBALgGACGkA0AAuwYAIbcDQAC7BgAhuwMIALkGACG8AxAAzgYAIb0DAQC4BgAhzAMBALgGACHOAwAA4AbOAyLPAwEAwwYAIdADAQDDBgAh0QMBALgGACHTAwAA4QbTAyLUAwIAugYAIdUDAQDDBgAh1gNAALsGACHXAyAAzwYAIRUdAAD0BgAgHwEAAAABIQAA9QYAICIAAPYGACAmAAD3BgAgnQMBAAAAAaQDQAAAAAG3A0AAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAc4DAAAAzgMCzwMBAAAAAdADAQAAAAHRAwEAAAAB0wMAAADTAwLUAwIAAAAB1QMBAAAAAdYDQAAAAAHXAyAAAAABCh8AAIAHACCdAwEAAAABpANAAAAAAaUDQAAAAAHPAwEAAAAB2AMIAAAAAdkDEAAAAAHaAyAAAAAB2wMBAAAAAdwDAgAAAAECAAAAKQAgDwAA8AkAIAMAAAApACAPAADwCQAgEAAA7wkAIAEIAADtCgAwAgAAACkAIAgAAO8JACACAAAAlggAIAgAAO4JACAJnQMBALgGACGkA0AAuwYAIaUDQAC7BgAhzwMBAMMGACHYAwgAuQYAIdkDEADOBgAh2gMgAM8GACHbAwEAwwYAIdwDAgC6BgAhCh8AAP4GACCdAwEAuAYAIaQDQAC7BgAhpQNAALsGACHPAwEAwwYAIdgDCAC5BgAh2QMQAM4GACHaAyAAzwYAIdsDAQDDBgAh3AMCALoGACEKHwAAgAcAIJ0DAQAAAAGkA0AAAAABpQNAAAAAAc8DAQAAAAHYAwgAAAAB2QMQAAAAAdoDIAAAAAHbAwEAAAAB3AMCAAAAAQkuAACJBwAgnQMBAAAAAaQDQAAAAAG7AwgAAAABvAMQAAAAAckDAQAAAAHdAwEAAAAB3gMBAAAAAd8DAQAAAAECAAAAWQAgDwAA-QkAIAMAAABZACAPAAD5CQAgEAAA-AkAIAEIAADsCgAwAgAAAFkAIAgAAPgJACACAAAAnAcAIAgAAPcJACAInQMBALgGACGkA0AAuwYAIbsDCAC5BgAhvAMQAM4GACHJAwEAwwYAId0DAQC4BgAh3gMBALgGACHfAwEAuAYAIQkuAACHBwAgnQMBALgGACGkA0AAuwYAIbsDCAC5BgAhvAMQAM4GACHJAwEAwwYAId0DAQC4BgAh3gMBALgGACHfAwEAuAYAIQkuAACJBwAgnQMBAAAAAaQDQAAAAAG7AwgAAAABvAMQAAAAAckDAQAAAAHdAwEAAAAB3gMBAAAAAd8DAQAAAAEMHQAAoQcAIC8AAKIHACCdAwEAAAABnwMAAADhAwKkA0AAAAABvQMBAAAAAcwDAQAAAAHPAwEAAAAB4QMIAAAAAeIDEAAAAAHkAwAAAOQDAuUDIAAAAAECAAAAVAAgDwAAggoAIAMAAABUACAPAACCCgAgEAAAgQoAIAEIAADrCgAwAgAAAFQAIAgAAIEKACACAAAA7wgAIAgAAIAKACAKnQMBALgGACGfAwAAjwfhAyKkA0AAuwYAIb0DAQDDBgAhzAMBAMMGACHPAwEAwwYAIeEDCAC5BgAh4gMQAM4GACHkAwAAkAfkAyLlAyAAzwYAIQwdAACSBwAgLwAAkwcAIJ0DAQC4BgAhnwMAAI8H4QMipANAALsGACG9AwEAwwYAIcwDAQDDBgAhzwMBAMMGACHhAwgAuQYAIeIDEADOBgAh5AMAAJAH5AMi5QMgAM8GACEMHQAAoQcAIC8AAKIHACCdAwEAAAABnwMAAADhAwKkA0AAAAABvQMBAAAAAcwDAQAAAAHPAwEAAAAB4QMIAAAAAeIDEAAAAAHkAwAAAOQDAuUDIAAAAAEEnQMBAAAAAaQDQAAAAAHmAwEAAAAB5wOAAAAAAQIAAABxACAPAACOCgAgAwAAAHEAIA8AAI4KACAQAACNCgAgAQgAAOoKADAJHAAAgQYAIJoDAACIBgAwmwMAAG8AEJwDAACIBgAwnQMBAAAAAZ4DAQC7BQAhpANAAL0FACHmAwEAuwUAIecDAAC8BQAgAgAAAHEAIAgAAI0KACACAAAAiwoAIAgAAIwKACAImgMAAIoKADCbAwAAiwoAEJwDAACKCgAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAh5gMBALsFACHnAwAAvAUAIAiaAwAAigoAMJsDAACLCgAQnAMAAIoKADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACHmAwEAuwUAIecDAAC8BQAgBJ0DAQC4BgAhpANAALsGACHmAwEAuAYAIecDgAAAAAEEnQMBALgGACGkA0AAuwYAIeYDAQC4BgAh5wOAAAAAAQSdAwEAAAABpANAAAAAAeYDAQAAAAHnA4AAAAABCB4AAPkHACAjAAD4BwAgJAAA-gcAIJ0DAQAAAAGkA0AAAAAB5gMBAAAAAeoDAgAAAAHrAyAAAAABAgAAAG0AIA8AAJoKACADAAAAbQAgDwAAmgoAIBAAAJkKACABCAAA6QoAMA4cAACBBgAgHgAA8QUAICMAAIsGACAkAAD4BQAgmgMAAIoGADCbAwAAMQAQnAMAAIoGADCdAwEAAAABngMBALsFACGkA0AAvQUAIeYDAQC7BQAh6gMCAIAGACHrAyAA7gUAIZgEAACJBgAgAgAAAG0AIAgAAJkKACACAAAAlwoAIAgAAJgKACAJmgMAAJYKADCbAwAAlwoAEJwDAACWCgAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAh5gMBALsFACHqAwIAgAYAIesDIADuBQAhCZoDAACWCgAwmwMAAJcKABCcAwAAlgoAMJ0DAQC7BQAhngMBALsFACGkA0AAvQUAIeYDAQC7BQAh6gMCAIAGACHrAyAA7gUAIQWdAwEAuAYAIaQDQAC7BgAh5gMBALgGACHqAwIAugYAIesDIADPBgAhCB4AALcHACAjAAC2BwAgJAAAuAcAIJ0DAQC4BgAhpANAALsGACHmAwEAuAYAIeoDAgC6BgAh6wMgAM8GACEIHgAA-QcAICMAAPgHACAkAAD6BwAgnQMBAAAAAaQDQAAAAAHmAwEAAAAB6gMCAAAAAesDIAAAAAEHHgAApggAICAAAKcIACAkAACoCAAgnQMBAAAAAaQDQAAAAAHmAwEAAAAB6wMgAAAAAQIAAABqACAPAACmCgAgAwAAAGoAIA8AAKYKACAQAAClCgAgAQgAAOgKADAMHAAAgQYAIB4AAPEFACAgAAD3BQAgJAAA-AUAIJoDAACMBgAwmwMAACQAEJwDAACMBgAwnQMBAAAAAZ4DAQC7BQAhpANAAL0FACHmAwEAuwUAIesDIADuBQAhAgAAAGoAIAgAAKUKACACAAAAowoAIAgAAKQKACAImgMAAKIKADCbAwAAowoAEJwDAACiCgAwnQMBALsFACGeAwEAuwUAIaQDQAC9BQAh5gMBALsFACHrAyAA7gUAIQiaAwAAogoAMJsDAACjCgAQnAMAAKIKADCdAwEAuwUAIZ4DAQC7BQAhpANAAL0FACHmAwEAuwUAIesDIADuBQAhBJ0DAQC4BgAhpANAALsGACHmAwEAuAYAIesDIADPBgAhBx4AAIIIACAgAACDCAAgJAAAhAgAIJ0DAQC4BgAhpANAALsGACHmAwEAuAYAIesDIADPBgAhBx4AAKYIACAgAACnCAAgJAAAqAgAIJ0DAQAAAAGkA0AAAAAB5gMBAAAAAesDIAAAAAEaHQAA5QcAIB8BAAAAASEAAOYHACAiAACkCAAgJwAA6AcAICgAAOkHACAqAADqBwAgnQMBAAAAAaQDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHMAwEAAAABzgMAAADOAwLPAwEAAAAB0AMBAAAAAdEDAQAAAAH9AwEAAAAB_gNAAAAAAf8DAQAAAAGABAEAAAABgQQIAAAAAYIEEAAAAAGDBAEAAAABhAQIAAAAAYUEEAAAAAECAAAAIgAgDwAArwoAIAMAAAAiACAPAACvCgAgEAAArgoAIAEIAADnCgAwAgAAACIAIAgAAK4KACACAAAAzQcAIAgAAK0KACAUHwEAwwYAIZ0DAQC4BgAhpANAALsGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACHMAwEAuAYAIc4DAADgBs4DIs8DAQDDBgAh0AMBAMMGACHRAwEAwwYAIf0DAQC4BgAh_gNAALsGACH_AwEAwwYAIYAEAQDDBgAhgQQIAM8HACGCBBAAzgYAIYMEAQDDBgAhhAQIAM8HACGFBBAAzgYAIRodAADRBwAgHwEAwwYAISEAANIHACAiAACiCAAgJwAA1AcAICgAANUHACAqAADWBwAgnQMBALgGACGkA0AAuwYAIbsDCAC5BgAhvAMQAM4GACG9AwEAuAYAIcwDAQC4BgAhzgMAAOAGzgMizwMBAMMGACHQAwEAwwYAIdEDAQDDBgAh_QMBALgGACH-A0AAuwYAIf8DAQDDBgAhgAQBAMMGACGBBAgAzwcAIYIEEADOBgAhgwQBAMMGACGEBAgAzwcAIYUEEADOBgAhGh0AAOUHACAfAQAAAAEhAADmBwAgIgAApAgAICcAAOgHACAoAADpBwAgKgAA6gcAIJ0DAQAAAAGkA0AAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAc4DAAAAzgMCzwMBAAAAAdADAQAAAAHRAwEAAAAB_QMBAAAAAf4DQAAAAAH_AwEAAAABgAQBAAAAAYEECAAAAAGCBBAAAAABgwQBAAAAAYQECAAAAAGFBBAAAAABDR4AAJsJACAkAACgCQAgKwAAnAkAICwAAJ0JACAtAACeCQAgMAAAnwkAIDEAAKEJACCdAwEAAAABnwMAAACHBAKkA0AAAAABvQMBAAAAAeYDAQAAAAGHBCAAAAABAgAAAB4AIA8AALsKACADAAAAHgAgDwAAuwoAIBAAALoKACABCAAA5goAMBIcAACBBgAgHgAA8QUAICQAAPgFACArAADxBQAgLAAA8QUAIC0AALAGACAwAAD1BQAgMQAA_AUAIJoDAACuBgAwmwMAABwAEJwDAACuBgAwnQMBAAAAAZ4DAQC7BQAhnwMAAK8GhwQipANAAL0FACG9AwEAuwUAIeYDAQC7BQAhhwQgAO4FACECAAAAHgAgCAAAugoAIAIAAAC4CgAgCAAAuQoAIAqaAwAAtwoAMJsDAAC4CgAQnAMAALcKADCdAwEAuwUAIZ4DAQC7BQAhnwMAAK8GhwQipANAAL0FACG9AwEAuwUAIeYDAQC7BQAhhwQgAO4FACEKmgMAALcKADCbAwAAuAoAEJwDAAC3CgAwnQMBALsFACGeAwEAuwUAIZ8DAACvBocEIqQDQAC9BQAhvQMBALsFACHmAwEAuwUAIYcEIADuBQAhBp0DAQC4BgAhnwMAAMkIhwQipANAALsGACG9AwEAuAYAIeYDAQC4BgAhhwQgAM8GACENHgAAywgAICQAANAIACArAADMCAAgLAAAzQgAIC0AAM4IACAwAADPCAAgMQAA0QgAIJ0DAQC4BgAhnwMAAMkIhwQipANAALsGACG9AwEAuAYAIeYDAQC4BgAhhwQgAM8GACENHgAAmwkAICQAAKAJACArAACcCQAgLAAAnQkAIC0AAJ4JACAwAACfCQAgMQAAoQkAIJ0DAQAAAAGfAwAAAIcEAqQDQAAAAAG9AwEAAAAB5gMBAAAAAYcEIAAAAAEEDwAAsAoAMKQEAACxCgAwpgQAALMKACCqBAAAtAoAMAQPAACnCgAwpAQAAKgKADCmBAAAqgoAIKoEAADJBwAwBA8AAJsKADCkBAAAnAoAMKYEAACeCgAgqgQAAJ8KADAEDwAAjwoAMKQEAACQCgAwpgQAAJIKACCqBAAAkwoAMAQPAACDCgAwpAQAAIQKADCmBAAAhgoAIKoEAACHCgAwBA8AAPoJADCkBAAA-wkAMKYEAAD9CQAgqgQAAOsIADAEDwAA8QkAMKQEAADyCQAwpgQAAPQJACCqBAAAmAcAMAQPAADoCQAwpAQAAOkJADCmBAAA6wkAIKoEAACSCAAwBA8AAN8JADCkBAAA4AkAMKYEAADiCQAgqgQAAL0HADAEDwAA0wkAMKQEAADUCQAwpgQAANYJACCqBAAA1wkAMAQPAADHCQAwpAQAAMgJADCmBAAAygkAIKoEAADLCQAwBA8AALsJADCkBAAAvAkAMKYEAAC-CQAgqgQAAL8JADAEDwAAsgkAMKQEAACzCQAwpgQAALUJACCqBAAA1ggAMAAAAAAAAAAAAAAAAAAWHgAAygoAICAAANAKACAkAADRCgAgMAAAzgoAIDEAANUKACAyAADJCgAgMwAAywoAIDQAAMwKACA1AADNCgAgNgAAzwoAIDcAANIKACA4AADTCgAgOQAA1AoAIO4DAAC-BgAgiAQAAL4GACCJBAAAvgYAIIwEAAC-BgAgjgQAAL4GACCPBAAAvgYAIJAEAAC-BgAgkgQAAL4GACCTBAAAvgYAIAAIHAAA1goAIB4AAMoKACAkAADRCgAgKwAAygoAICwAAMoKACAtAADgCgAgMAAAzgoAIDEAANUKACAHHAAA1goAIB0AANgKACAvAADPCgAgvQMAAL4GACDMAwAAvgYAIM8DAAC-BgAg4gMAAL4GACATHAAA1goAIB0AANgKACAfAAC-BgAgIQAA3QoAICIAANwKACAnAADYCgAgKAAA2AoAICoAAN8KACC8AwAAvgYAIM8DAAC-BgAg0AMAAL4GACDRAwAAvgYAIP8DAAC-BgAggAQAAL4GACCBBAAAvgYAIIIEAAC-BgAggwQAAL4GACCEBAAAvgYAIIUEAAC-BgAgChwAANYKACAdAADYCgAgHwAAvgYAICEAAN0KACAiAADcCgAgJgAA3goAILwDAAC-BgAgzwMAAL4GACDQAwAAvgYAINUDAAC-BgAgBBwAANYKACAeAADKCgAgIwAA1woAICQAANEKACAEHAAA1goAIB4AAMoKACAgAADQCgAgJAAA0QoAIAAAAAAAAAAABp0DAQAAAAGfAwAAAIcEAqQDQAAAAAG9AwEAAAAB5gMBAAAAAYcEIAAAAAEUHwEAAAABnQMBAAAAAaQDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHMAwEAAAABzgMAAADOAwLPAwEAAAAB0AMBAAAAAdEDAQAAAAH9AwEAAAAB_gNAAAAAAf8DAQAAAAGABAEAAAABgQQIAAAAAYIEEAAAAAGDBAEAAAABhAQIAAAAAYUEEAAAAAEEnQMBAAAAAaQDQAAAAAHmAwEAAAAB6wMgAAAAAQWdAwEAAAABpANAAAAAAeYDAQAAAAHqAwIAAAAB6wMgAAAAAQSdAwEAAAABpANAAAAAAeYDAQAAAAHnA4AAAAABCp0DAQAAAAGfAwAAAOEDAqQDQAAAAAG9AwEAAAABzAMBAAAAAc8DAQAAAAHhAwgAAAAB4gMQAAAAAeQDAAAA5AMC5QMgAAAAAQidAwEAAAABpANAAAAAAbsDCAAAAAG8AxAAAAAByQMBAAAAAd0DAQAAAAHeAwEAAAAB3wMBAAAAAQmdAwEAAAABpANAAAAAAaUDQAAAAAHPAwEAAAAB2AMIAAAAAdkDEAAAAAHaAyAAAAAB2wMBAAAAAdwDAgAAAAERHwEAAAABnQMBAAAAAaQDQAAAAAG3A0AAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAc4DAAAAzgMCzwMBAAAAAdADAQAAAAHRAwEAAAAB0wMAAADTAwLUAwIAAAAB1QMBAAAAAdYDQAAAAAHXAyAAAAABDJ0DAQAAAAGkA0AAAAABtAMAAAC0AwK2AwAAALYDArcDQAAAAAG4A0AAAAABuQMBAAAAAboDAQAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAG-AyAAAAABBJ0DAQAAAAGfAwAAALIDAqQDQAAAAAGyAwEAAAABCJ0DAQAAAAGfAwEAAAABoAMBAAAAAaEDAQAAAAGiAwgAAAABowMCAAAAAaQDQAAAAAGlA0AAAAABCZ0DAQAAAAGkA0AAAAABuwMIAAAAAb0DAQAAAAHMAwEAAAAB8ANAAAAAAfQDCAAAAAH1AwgAAAAB9gMBAAAAAR0eAAC9CgAgIAAAwwoAICQAAMQKACAwAADBCgAgMQAAyAoAIDMAAL4KACA0AAC_CgAgNQAAwAoAIDYAAMIKACA3AADFCgAgOAAAxgoAIDkAAMcKACCdAwEAAAABpANAAAAAAewDAQAAAAHuAwEAAAAB9gMBAAAAAYgEAQAAAAGJBAEAAAABigQBAAAAAYsEIAAAAAGMBEAAAAABjQQgAAAAAY4EAQAAAAGPBEAAAAABkARAAAAAAZEEIAAAAAGSBAEAAAABkwQBAAAAAQIAAAAaACAPAADzCgAgFB8BAAAAAZ0DAQAAAAGeAwEAAAABpANAAAAAAbsDCAAAAAG8AxAAAAABvQMBAAAAAc4DAAAAzgMCzwMBAAAAAdADAQAAAAHRAwEAAAAB_QMBAAAAAf4DQAAAAAH_AwEAAAABgAQBAAAAAYEECAAAAAGCBBAAAAABgwQBAAAAAYQECAAAAAGFBBAAAAABFB8BAAAAAZ0DAQAAAAGeAwEAAAABpANAAAAAAbsDCAAAAAG8AxAAAAABvQMBAAAAAcwDAQAAAAHOAwAAAM4DAs8DAQAAAAHQAwEAAAAB0QMBAAAAAf0DAQAAAAH-A0AAAAABgAQBAAAAAYEECAAAAAGCBBAAAAABgwQBAAAAAYQECAAAAAGFBBAAAAABFB8BAAAAAZ0DAQAAAAGeAwEAAAABpANAAAAAAbsDCAAAAAG8AxAAAAABvQMBAAAAAcwDAQAAAAHOAwAAAM4DAs8DAQAAAAHQAwEAAAAB0QMBAAAAAf0DAQAAAAH-A0AAAAAB_wMBAAAAAYEECAAAAAGCBBAAAAABgwQBAAAAAYQECAAAAAGFBBAAAAABBJ0DAQAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAEKnQMBAAAAAZ4DAQAAAAGfAwAAAOEDAqQDQAAAAAG9AwEAAAABzwMBAAAAAeEDCAAAAAHiAxAAAAAB5AMAAADkAwLlAyAAAAABER8BAAAAAZ0DAQAAAAGeAwEAAAABpANAAAAAAbcDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHOAwAAAM4DAs8DAQAAAAHQAwEAAAAB0QMBAAAAAdMDAAAA0wMC1AMCAAAAAdUDAQAAAAHWA0AAAAAB1wMgAAAAAQmdAwEAAAABngMBAAAAAaQDQAAAAAG7AwgAAAABvQMBAAAAAfADQAAAAAH0AwgAAAAB9QMIAAAAAfYDAQAAAAEDAAAAkgEAIA8AAPMKACAQAAD-CgAgHwAAAJIBACAIAAD-CgAgHgAApgkAICAAAKwJACAkAACtCQAgMAAAqgkAIDEAALEJACAzAACnCQAgNAAAqAkAIDUAAKkJACA2AACrCQAgNwAArgkAIDgAAK8JACA5AACwCQAgnQMBALgGACGkA0AAuwYAIewDAQC4BgAh7gMBAMMGACH2AwEAuAYAIYgEAQDDBgAhiQQBAMMGACGKBAEAuAYAIYsEIADPBgAhjARAAM0GACGNBCAAzwYAIY4EAQDDBgAhjwRAAM0GACGQBEAAzQYAIZEEIADPBgAhkgQBAMMGACGTBAEAwwYAIR0eAACmCQAgIAAArAkAICQAAK0JACAwAACqCQAgMQAAsQkAIDMAAKcJACA0AACoCQAgNQAAqQkAIDYAAKsJACA3AACuCQAgOAAArwkAIDkAALAJACCdAwEAuAYAIaQDQAC7BgAh7AMBALgGACHuAwEAwwYAIfYDAQC4BgAhiAQBAMMGACGJBAEAwwYAIYoEAQC4BgAhiwQgAM8GACGMBEAAzQYAIY0EIADPBgAhjgQBAMMGACGPBEAAzQYAIZAEQADNBgAhkQQgAM8GACGSBAEAwwYAIZMEAQDDBgAhDhwAAJoJACAeAACbCQAgJAAAoAkAICsAAJwJACAsAACdCQAgMAAAnwkAIDEAAKEJACCdAwEAAAABngMBAAAAAZ8DAAAAhwQCpANAAAAAAb0DAQAAAAHmAwEAAAABhwQgAAAAAQIAAAAeACAPAAD_CgAgAwAAABwAIA8AAP8KACAQAACDCwAgEAAAABwAIAgAAIMLACAcAADKCAAgHgAAywgAICQAANAIACArAADMCAAgLAAAzQgAIDAAAM8IACAxAADRCAAgnQMBALgGACGeAwEAuAYAIZ8DAADJCIcEIqQDQAC7BgAhvQMBALgGACHmAwEAuAYAIYcEIADPBgAhDhwAAMoIACAeAADLCAAgJAAA0AgAICsAAMwIACAsAADNCAAgMAAAzwgAIDEAANEIACCdAwEAuAYAIZ4DAQC4BgAhnwMAAMkIhwQipANAALsGACG9AwEAuAYAIeYDAQC4BgAhhwQgAM8GACEbHAAA5wcAIB0AAOUHACAfAQAAAAEhAADmBwAgIgAApAgAICcAAOgHACAoAADpBwAgnQMBAAAAAZ4DAQAAAAGkA0AAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAc4DAAAAzgMCzwMBAAAAAdADAQAAAAHRAwEAAAAB_QMBAAAAAf4DQAAAAAH_AwEAAAABgAQBAAAAAYEECAAAAAGCBBAAAAABgwQBAAAAAYQECAAAAAGFBBAAAAABAgAAACIAIA8AAIQLACADAAAAIAAgDwAAhAsAIBAAAIgLACAdAAAAIAAgCAAAiAsAIBwAANMHACAdAADRBwAgHwEAwwYAISEAANIHACAiAACiCAAgJwAA1AcAICgAANUHACCdAwEAuAYAIZ4DAQC4BgAhpANAALsGACG7AwgAuQYAIbwDEADOBgAhvQMBALgGACHMAwEAuAYAIc4DAADgBs4DIs8DAQDDBgAh0AMBAMMGACHRAwEAwwYAIf0DAQC4BgAh_gNAALsGACH_AwEAwwYAIYAEAQDDBgAhgQQIAM8HACGCBBAAzgYAIYMEAQDDBgAhhAQIAM8HACGFBBAAzgYAIRscAADTBwAgHQAA0QcAIB8BAMMGACEhAADSBwAgIgAAoggAICcAANQHACAoAADVBwAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAhuwMIALkGACG8AxAAzgYAIb0DAQC4BgAhzAMBALgGACHOAwAA4AbOAyLPAwEAwwYAIdADAQDDBgAh0QMBAMMGACH9AwEAuAYAIf4DQAC7BgAh_wMBAMMGACGABAEAwwYAIYEECADPBwAhggQQAM4GACGDBAEAwwYAIYQECADPBwAhhQQQAM4GACEOHAAAmgkAIB4AAJsJACAkAACgCQAgKwAAnAkAICwAAJ0JACAtAACeCQAgMAAAnwkAIJ0DAQAAAAGeAwEAAAABnwMAAACHBAKkA0AAAAABvQMBAAAAAeYDAQAAAAGHBCAAAAABAgAAAB4AIA8AAIkLACAdHgAAvQoAICAAAMMKACAkAADECgAgMAAAwQoAIDIAALwKACAzAAC-CgAgNAAAvwoAIDUAAMAKACA2AADCCgAgNwAAxQoAIDgAAMYKACA5AADHCgAgnQMBAAAAAaQDQAAAAAHsAwEAAAAB7gMBAAAAAfYDAQAAAAGIBAEAAAABiQQBAAAAAYoEAQAAAAGLBCAAAAABjARAAAAAAY0EIAAAAAGOBAEAAAABjwRAAAAAAZAEQAAAAAGRBCAAAAABkgQBAAAAAZMEAQAAAAECAAAAGgAgDwAAiwsAIAMAAAAcACAPAACJCwAgEAAAjwsAIBAAAAAcACAIAACPCwAgHAAAyggAIB4AAMsIACAkAADQCAAgKwAAzAgAICwAAM0IACAtAADOCAAgMAAAzwgAIJ0DAQC4BgAhngMBALgGACGfAwAAyQiHBCKkA0AAuwYAIb0DAQC4BgAh5gMBALgGACGHBCAAzwYAIQ4cAADKCAAgHgAAywgAICQAANAIACArAADMCAAgLAAAzQgAIC0AAM4IACAwAADPCAAgnQMBALgGACGeAwEAuAYAIZ8DAADJCIcEIqQDQAC7BgAhvQMBALgGACHmAwEAuAYAIYcEIADPBgAhAwAAAJIBACAPAACLCwAgEAAAkgsAIB8AAACSAQAgCAAAkgsAIB4AAKYJACAgAACsCQAgJAAArQkAIDAAAKoJACAyAAClCQAgMwAApwkAIDQAAKgJACA1AACpCQAgNgAAqwkAIDcAAK4JACA4AACvCQAgOQAAsAkAIJ0DAQC4BgAhpANAALsGACHsAwEAuAYAIe4DAQDDBgAh9gMBALgGACGIBAEAwwYAIYkEAQDDBgAhigQBALgGACGLBCAAzwYAIYwEQADNBgAhjQQgAM8GACGOBAEAwwYAIY8EQADNBgAhkARAAM0GACGRBCAAzwYAIZIEAQDDBgAhkwQBAMMGACEdHgAApgkAICAAAKwJACAkAACtCQAgMAAAqgkAIDIAAKUJACAzAACnCQAgNAAAqAkAIDUAAKkJACA2AACrCQAgNwAArgkAIDgAAK8JACA5AACwCQAgnQMBALgGACGkA0AAuwYAIewDAQC4BgAh7gMBAMMGACH2AwEAuAYAIYgEAQDDBgAhiQQBAMMGACGKBAEAuAYAIYsEIADPBgAhjARAAM0GACGNBCAAzwYAIY4EAQDDBgAhjwRAAM0GACGQBEAAzQYAIZEEIADPBgAhkgQBAMMGACGTBAEAwwYAIR0eAAC9CgAgIAAAwwoAICQAAMQKACAwAADBCgAgMQAAyAoAIDIAALwKACA0AAC_CgAgNQAAwAoAIDYAAMIKACA3AADFCgAgOAAAxgoAIDkAAMcKACCdAwEAAAABpANAAAAAAewDAQAAAAHuAwEAAAAB9gMBAAAAAYgEAQAAAAGJBAEAAAABigQBAAAAAYsEIAAAAAGMBEAAAAABjQQgAAAAAY4EAQAAAAGPBEAAAAABkARAAAAAAZEEIAAAAAGSBAEAAAABkwQBAAAAAQIAAAAaACAPAACTCwAgCRwAAPcHACAjAAD4BwAgJAAA-gcAIJ0DAQAAAAGeAwEAAAABpANAAAAAAeYDAQAAAAHqAwIAAAAB6wMgAAAAAQIAAABtACAPAACVCwAgAwAAADEAIA8AAJULACAQAACZCwAgCwAAADEAIAgAAJkLACAcAAC1BwAgIwAAtgcAICQAALgHACCdAwEAuAYAIZ4DAQC4BgAhpANAALsGACHmAwEAuAYAIeoDAgC6BgAh6wMgAM8GACEJHAAAtQcAICMAALYHACAkAAC4BwAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAh5gMBALgGACHqAwIAugYAIesDIADPBgAhFB8BAAAAAZ0DAQAAAAGeAwEAAAABpANAAAAAAbsDCAAAAAG8AxAAAAABvQMBAAAAAcwDAQAAAAHOAwAAAM4DAtADAQAAAAHRAwEAAAAB_QMBAAAAAf4DQAAAAAH_AwEAAAABgAQBAAAAAYEECAAAAAGCBBAAAAABgwQBAAAAAYQECAAAAAGFBBAAAAABCZ0DAQAAAAGeAwEAAAABpANAAAAAAaUDQAAAAAHYAwgAAAAB2QMQAAAAAdoDIAAAAAHbAwEAAAAB3AMCAAAAAREfAQAAAAGdAwEAAAABngMBAAAAAaQDQAAAAAG3A0AAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAc4DAAAAzgMC0AMBAAAAAdEDAQAAAAHTAwAAANMDAtQDAgAAAAHVAwEAAAAB1gNAAAAAAdcDIAAAAAEDAAAAkgEAIA8AAJMLACAQAACfCwAgHwAAAJIBACAIAACfCwAgHgAApgkAICAAAKwJACAkAACtCQAgMAAAqgkAIDEAALEJACAyAAClCQAgNAAAqAkAIDUAAKkJACA2AACrCQAgNwAArgkAIDgAAK8JACA5AACwCQAgnQMBALgGACGkA0AAuwYAIewDAQC4BgAh7gMBAMMGACH2AwEAuAYAIYgEAQDDBgAhiQQBAMMGACGKBAEAuAYAIYsEIADPBgAhjARAAM0GACGNBCAAzwYAIY4EAQDDBgAhjwRAAM0GACGQBEAAzQYAIZEEIADPBgAhkgQBAMMGACGTBAEAwwYAIR0eAACmCQAgIAAArAkAICQAAK0JACAwAACqCQAgMQAAsQkAIDIAAKUJACA0AACoCQAgNQAAqQkAIDYAAKsJACA3AACuCQAgOAAArwkAIDkAALAJACCdAwEAuAYAIaQDQAC7BgAh7AMBALgGACHuAwEAwwYAIfYDAQC4BgAhiAQBAMMGACGJBAEAwwYAIYoEAQC4BgAhiwQgAM8GACGMBEAAzQYAIY0EIADPBgAhjgQBAMMGACGPBEAAzQYAIZAEQADNBgAhkQQgAM8GACGSBAEAwwYAIZMEAQDDBgAhHR4AAL0KACAgAADDCgAgJAAAxAoAIDAAAMEKACAxAADICgAgMgAAvAoAIDMAAL4KACA1AADACgAgNgAAwgoAIDcAAMUKACA4AADGCgAgOQAAxwoAIJ0DAQAAAAGkA0AAAAAB7AMBAAAAAe4DAQAAAAH2AwEAAAABiAQBAAAAAYkEAQAAAAGKBAEAAAABiwQgAAAAAYwEQAAAAAGNBCAAAAABjgQBAAAAAY8EQAAAAAGQBEAAAAABkQQgAAAAAZIEAQAAAAGTBAEAAAABAgAAABoAIA8AAKALACADnQMBAAAAAaQDQAAAAAHpAwEAAAABDhwAAJoJACAeAACbCQAgJAAAoAkAICsAAJwJACAtAACeCQAgMAAAnwkAIDEAAKEJACCdAwEAAAABngMBAAAAAZ8DAAAAhwQCpANAAAAAAb0DAQAAAAHmAwEAAAABhwQgAAAAAQIAAAAeACAPAACjCwAgDhwAAJoJACAeAACbCQAgJAAAoAkAICwAAJ0JACAtAACeCQAgMAAAnwkAIDEAAKEJACCdAwEAAAABngMBAAAAAZ8DAAAAhwQCpANAAAAAAb0DAQAAAAHmAwEAAAABhwQgAAAAAQIAAAAeACAPAAClCwAgHSAAAMMKACAkAADECgAgMAAAwQoAIDEAAMgKACAyAAC8CgAgMwAAvgoAIDQAAL8KACA1AADACgAgNgAAwgoAIDcAAMUKACA4AADGCgAgOQAAxwoAIJ0DAQAAAAGkA0AAAAAB7AMBAAAAAe4DAQAAAAH2AwEAAAABiAQBAAAAAYkEAQAAAAGKBAEAAAABiwQgAAAAAYwEQAAAAAGNBCAAAAABjgQBAAAAAY8EQAAAAAGQBEAAAAABkQQgAAAAAZIEAQAAAAGTBAEAAAABAgAAABoAIA8AAKcLACAIHAAApQgAICAAAKcIACAkAACoCAAgnQMBAAAAAZ4DAQAAAAGkA0AAAAAB5gMBAAAAAesDIAAAAAECAAAAagAgDwAAqQsAIA4cAACaCQAgJAAAoAkAICsAAJwJACAsAACdCQAgLQAAngkAIDAAAJ8JACAxAAChCQAgnQMBAAAAAZ4DAQAAAAGfAwAAAIcEAqQDQAAAAAG9AwEAAAAB5gMBAAAAAYcEIAAAAAECAAAAHgAgDwAAqwsAIAedAwEAAAABpANAAAAAAfgDAAAA-AMC-QMBAAAAAfoDAQAAAAH7AwEAAAAB_AMBAAAAAQMAAAAcACAPAACjCwAgEAAAsAsAIBAAAAAcACAIAACwCwAgHAAAyggAIB4AAMsIACAkAADQCAAgKwAAzAgAIC0AAM4IACAwAADPCAAgMQAA0QgAIJ0DAQC4BgAhngMBALgGACGfAwAAyQiHBCKkA0AAuwYAIb0DAQC4BgAh5gMBALgGACGHBCAAzwYAIQ4cAADKCAAgHgAAywgAICQAANAIACArAADMCAAgLQAAzggAIDAAAM8IACAxAADRCAAgnQMBALgGACGeAwEAuAYAIZ8DAADJCIcEIqQDQAC7BgAhvQMBALgGACHmAwEAuAYAIYcEIADPBgAhAwAAABwAIA8AAKULACAQAACzCwAgEAAAABwAIAgAALMLACAcAADKCAAgHgAAywgAICQAANAIACAsAADNCAAgLQAAzggAIDAAAM8IACAxAADRCAAgnQMBALgGACGeAwEAuAYAIZ8DAADJCIcEIqQDQAC7BgAhvQMBALgGACHmAwEAuAYAIYcEIADPBgAhDhwAAMoIACAeAADLCAAgJAAA0AgAICwAAM0IACAtAADOCAAgMAAAzwgAIDEAANEIACCdAwEAuAYAIZ4DAQC4BgAhnwMAAMkIhwQipANAALsGACG9AwEAuAYAIeYDAQC4BgAhhwQgAM8GACEDAAAAkgEAIA8AAKcLACAQAAC2CwAgHwAAAJIBACAIAAC2CwAgIAAArAkAICQAAK0JACAwAACqCQAgMQAAsQkAIDIAAKUJACAzAACnCQAgNAAAqAkAIDUAAKkJACA2AACrCQAgNwAArgkAIDgAAK8JACA5AACwCQAgnQMBALgGACGkA0AAuwYAIewDAQC4BgAh7gMBAMMGACH2AwEAuAYAIYgEAQDDBgAhiQQBAMMGACGKBAEAuAYAIYsEIADPBgAhjARAAM0GACGNBCAAzwYAIY4EAQDDBgAhjwRAAM0GACGQBEAAzQYAIZEEIADPBgAhkgQBAMMGACGTBAEAwwYAIR0gAACsCQAgJAAArQkAIDAAAKoJACAxAACxCQAgMgAApQkAIDMAAKcJACA0AACoCQAgNQAAqQkAIDYAAKsJACA3AACuCQAgOAAArwkAIDkAALAJACCdAwEAuAYAIaQDQAC7BgAh7AMBALgGACHuAwEAwwYAIfYDAQC4BgAhiAQBAMMGACGJBAEAwwYAIYoEAQC4BgAhiwQgAM8GACGMBEAAzQYAIY0EIADPBgAhjgQBAMMGACGPBEAAzQYAIZAEQADNBgAhkQQgAM8GACGSBAEAwwYAIZMEAQDDBgAhAwAAACQAIA8AAKkLACAQAAC5CwAgCgAAACQAIAgAALkLACAcAACBCAAgIAAAgwgAICQAAIQIACCdAwEAuAYAIZ4DAQC4BgAhpANAALsGACHmAwEAuAYAIesDIADPBgAhCBwAAIEIACAgAACDCAAgJAAAhAgAIJ0DAQC4BgAhngMBALgGACGkA0AAuwYAIeYDAQC4BgAh6wMgAM8GACEDAAAAHAAgDwAAqwsAIBAAALwLACAQAAAAHAAgCAAAvAsAIBwAAMoIACAkAADQCAAgKwAAzAgAICwAAM0IACAtAADOCAAgMAAAzwgAIDEAANEIACCdAwEAuAYAIZ4DAQC4BgAhnwMAAMkIhwQipANAALsGACG9AwEAuAYAIeYDAQC4BgAhhwQgAM8GACEOHAAAyggAICQAANAIACArAADMCAAgLAAAzQgAIC0AAM4IACAwAADPCAAgMQAA0QgAIJ0DAQC4BgAhngMBALgGACGfAwAAyQiHBCKkA0AAuwYAIb0DAQC4BgAh5gMBALgGACGHBCAAzwYAIRQfAQAAAAGdAwEAAAABngMBAAAAAaQDQAAAAAG7AwgAAAABvAMQAAAAAb0DAQAAAAHMAwEAAAABzgMAAADOAwLPAwEAAAAB0QMBAAAAAf0DAQAAAAH-A0AAAAAB_wMBAAAAAYAEAQAAAAGBBAgAAAABggQQAAAAAYMEAQAAAAGEBAgAAAABhQQQAAAAAREfAQAAAAGdAwEAAAABngMBAAAAAaQDQAAAAAG3A0AAAAABuwMIAAAAAbwDEAAAAAG9AwEAAAABzAMBAAAAAc4DAAAAzgMCzwMBAAAAAdEDAQAAAAHTAwAAANMDAtQDAgAAAAHVAwEAAAAB1gNAAAAAAdcDIAAAAAEDAAAAkgEAIA8AAKALACAQAADBCwAgHwAAAJIBACAIAADBCwAgHgAApgkAICAAAKwJACAkAACtCQAgMAAAqgkAIDEAALEJACAyAAClCQAgMwAApwkAIDUAAKkJACA2AACrCQAgNwAArgkAIDgAAK8JACA5AACwCQAgnQMBALgGACGkA0AAuwYAIewDAQC4BgAh7gMBAMMGACH2AwEAuAYAIYgEAQDDBgAhiQQBAMMGACGKBAEAuAYAIYsEIADPBgAhjARAAM0GACGNBCAAzwYAIY4EAQDDBgAhjwRAAM0GACGQBEAAzQYAIZEEIADPBgAhkgQBAMMGACGTBAEAwwYAIR0eAACmCQAgIAAArAkAICQAAK0JACAwAACqCQAgMQAAsQkAIDIAAKUJACAzAACnCQAgNQAAqQkAIDYAAKsJACA3AACuCQAgOAAArwkAIDkAALAJACCdAwEAuAYAIaQDQAC7BgAh7AMBALgGACHuAwEAwwYAIfYDAQC4BgAhiAQBAMMGACGJBAEAwwYAIYoEAQC4BgAhiwQgAM8GACGMBEAAzQYAIY0EIADPBgAhjgQBAMMGACGPBEAAzQYAIZAEQADNBgAhkQQgAM8GACGSBAEAwwYAIZMEAQDDBgAhCRwAAPcHACAeAAD5BwAgJAAA-gcAIJ0DAQAAAAGeAwEAAAABpANAAAAAAeYDAQAAAAHqAwIAAAAB6wMgAAAAAQIAAABtACAPAADCCwAgAwAAADEAIA8AAMILACAQAADGCwAgCwAAADEAIAgAAMYLACAcAAC1BwAgHgAAtwcAICQAALgHACCdAwEAuAYAIZ4DAQC4BgAhpANAALsGACHmAwEAuAYAIeoDAgC6BgAh6wMgAM8GACEJHAAAtQcAIB4AALcHACAkAAC4BwAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAh5gMBALgGACHqAwIAugYAIesDIADPBgAhHR4AAL0KACAgAADDCgAgJAAAxAoAIDAAAMEKACAxAADICgAgMgAAvAoAIDMAAL4KACA0AAC_CgAgNgAAwgoAIDcAAMUKACA4AADGCgAgOQAAxwoAIJ0DAQAAAAGkA0AAAAAB7AMBAAAAAe4DAQAAAAH2AwEAAAABiAQBAAAAAYkEAQAAAAGKBAEAAAABiwQgAAAAAYwEQAAAAAGNBCAAAAABjgQBAAAAAY8EQAAAAAGQBEAAAAABkQQgAAAAAZIEAQAAAAGTBAEAAAABAgAAABoAIA8AAMcLACADAAAAkgEAIA8AAMcLACAQAADLCwAgHwAAAJIBACAIAADLCwAgHgAApgkAICAAAKwJACAkAACtCQAgMAAAqgkAIDEAALEJACAyAAClCQAgMwAApwkAIDQAAKgJACA2AACrCQAgNwAArgkAIDgAAK8JACA5AACwCQAgnQMBALgGACGkA0AAuwYAIewDAQC4BgAh7gMBAMMGACH2AwEAuAYAIYgEAQDDBgAhiQQBAMMGACGKBAEAuAYAIYsEIADPBgAhjARAAM0GACGNBCAAzwYAIY4EAQDDBgAhjwRAAM0GACGQBEAAzQYAIZEEIADPBgAhkgQBAMMGACGTBAEAwwYAIR0eAACmCQAgIAAArAkAICQAAK0JACAwAACqCQAgMQAAsQkAIDIAAKUJACAzAACnCQAgNAAAqAkAIDYAAKsJACA3AACuCQAgOAAArwkAIDkAALAJACCdAwEAuAYAIaQDQAC7BgAh7AMBALgGACHuAwEAwwYAIfYDAQC4BgAhiAQBAMMGACGJBAEAwwYAIYoEAQC4BgAhiwQgAM8GACGMBEAAzQYAIY0EIADPBgAhjgQBAMMGACGPBEAAzQYAIZAEQADNBgAhkQQgAM8GACGSBAEAwwYAIZMEAQDDBgAhDhwAAJoJACAeAACbCQAgJAAAoAkAICsAAJwJACAsAACdCQAgLQAAngkAIDEAAKEJACCdAwEAAAABngMBAAAAAZ8DAAAAhwQCpANAAAAAAb0DAQAAAAHmAwEAAAABhwQgAAAAAQIAAAAeACAPAADMCwAgHR4AAL0KACAgAADDCgAgJAAAxAoAIDEAAMgKACAyAAC8CgAgMwAAvgoAIDQAAL8KACA1AADACgAgNgAAwgoAIDcAAMUKACA4AADGCgAgOQAAxwoAIJ0DAQAAAAGkA0AAAAAB7AMBAAAAAe4DAQAAAAH2AwEAAAABiAQBAAAAAYkEAQAAAAGKBAEAAAABiwQgAAAAAYwEQAAAAAGNBCAAAAABjgQBAAAAAY8EQAAAAAGQBEAAAAABkQQgAAAAAZIEAQAAAAGTBAEAAAABAgAAABoAIA8AAM4LACAInQMBAAAAAZ4DAQAAAAGkA0AAAAABuwMIAAAAAbwDEAAAAAHJAwEAAAAB3gMBAAAAAd8DAQAAAAEDAAAAHAAgDwAAzAsAIBAAANMLACAQAAAAHAAgCAAA0wsAIBwAAMoIACAeAADLCAAgJAAA0AgAICsAAMwIACAsAADNCAAgLQAAzggAIDEAANEIACCdAwEAuAYAIZ4DAQC4BgAhnwMAAMkIhwQipANAALsGACG9AwEAuAYAIeYDAQC4BgAhhwQgAM8GACEOHAAAyggAIB4AAMsIACAkAADQCAAgKwAAzAgAICwAAM0IACAtAADOCAAgMQAA0QgAIJ0DAQC4BgAhngMBALgGACGfAwAAyQiHBCKkA0AAuwYAIb0DAQC4BgAh5gMBALgGACGHBCAAzwYAIQMAAACSAQAgDwAAzgsAIBAAANYLACAfAAAAkgEAIAgAANYLACAeAACmCQAgIAAArAkAICQAAK0JACAxAACxCQAgMgAApQkAIDMAAKcJACA0AACoCQAgNQAAqQkAIDYAAKsJACA3AACuCQAgOAAArwkAIDkAALAJACCdAwEAuAYAIaQDQAC7BgAh7AMBALgGACHuAwEAwwYAIfYDAQC4BgAhiAQBAMMGACGJBAEAwwYAIYoEAQC4BgAhiwQgAM8GACGMBEAAzQYAIY0EIADPBgAhjgQBAMMGACGPBEAAzQYAIZAEQADNBgAhkQQgAM8GACGSBAEAwwYAIZMEAQDDBgAhHR4AAKYJACAgAACsCQAgJAAArQkAIDEAALEJACAyAAClCQAgMwAApwkAIDQAAKgJACA1AACpCQAgNgAAqwkAIDcAAK4JACA4AACvCQAgOQAAsAkAIJ0DAQC4BgAhpANAALsGACHsAwEAuAYAIe4DAQDDBgAh9gMBALgGACGIBAEAwwYAIYkEAQDDBgAhigQBALgGACGLBCAAzwYAIYwEQADNBgAhjQQgAM8GACGOBAEAwwYAIY8EQADNBgAhkARAAM0GACGRBCAAzwYAIZIEAQDDBgAhkwQBAMMGACENHAAAoAcAIB0AAKEHACCdAwEAAAABngMBAAAAAZ8DAAAA4QMCpANAAAAAAb0DAQAAAAHMAwEAAAABzwMBAAAAAeEDCAAAAAHiAxAAAAAB5AMAAADkAwLlAyAAAAABAgAAAFQAIA8AANcLACAdHgAAvQoAICAAAMMKACAkAADECgAgMAAAwQoAIDEAAMgKACAyAAC8CgAgMwAAvgoAIDQAAL8KACA1AADACgAgNwAAxQoAIDgAAMYKACA5AADHCgAgnQMBAAAAAaQDQAAAAAHsAwEAAAAB7gMBAAAAAfYDAQAAAAGIBAEAAAABiQQBAAAAAYoEAQAAAAGLBCAAAAABjARAAAAAAY0EIAAAAAGOBAEAAAABjwRAAAAAAZAEQAAAAAGRBCAAAAABkgQBAAAAAZMEAQAAAAECAAAAGgAgDwAA2QsAIAMAAABSACAPAADXCwAgEAAA3QsAIA8AAABSACAIAADdCwAgHAAAkQcAIB0AAJIHACCdAwEAuAYAIZ4DAQC4BgAhnwMAAI8H4QMipANAALsGACG9AwEAwwYAIcwDAQDDBgAhzwMBAMMGACHhAwgAuQYAIeIDEADOBgAh5AMAAJAH5AMi5QMgAM8GACENHAAAkQcAIB0AAJIHACCdAwEAuAYAIZ4DAQC4BgAhnwMAAI8H4QMipANAALsGACG9AwEAwwYAIcwDAQDDBgAhzwMBAMMGACHhAwgAuQYAIeIDEADOBgAh5AMAAJAH5AMi5QMgAM8GACEDAAAAkgEAIA8AANkLACAQAADgCwAgHwAAAJIBACAIAADgCwAgHgAApgkAICAAAKwJACAkAACtCQAgMAAAqgkAIDEAALEJACAyAAClCQAgMwAApwkAIDQAAKgJACA1AACpCQAgNwAArgkAIDgAAK8JACA5AACwCQAgnQMBALgGACGkA0AAuwYAIewDAQC4BgAh7gMBAMMGACH2AwEAuAYAIYgEAQDDBgAhiQQBAMMGACGKBAEAuAYAIYsEIADPBgAhjARAAM0GACGNBCAAzwYAIY4EAQDDBgAhjwRAAM0GACGQBEAAzQYAIZEEIADPBgAhkgQBAMMGACGTBAEAwwYAIR0eAACmCQAgIAAArAkAICQAAK0JACAwAACqCQAgMQAAsQkAIDIAAKUJACAzAACnCQAgNAAAqAkAIDUAAKkJACA3AACuCQAgOAAArwkAIDkAALAJACCdAwEAuAYAIaQDQAC7BgAh7AMBALgGACHuAwEAwwYAIfYDAQC4BgAhiAQBAMMGACGJBAEAwwYAIYoEAQC4BgAhiwQgAM8GACGMBEAAzQYAIY0EIADPBgAhjgQBAMMGACGPBEAAzQYAIZAEQADNBgAhkQQgAM8GACGSBAEAwwYAIZMEAQDDBgAhCBwAAKUIACAeAACmCAAgJAAAqAgAIJ0DAQAAAAGeAwEAAAABpANAAAAAAeYDAQAAAAHrAyAAAAABAgAAAGoAIA8AAOELACAdHgAAvQoAICQAAMQKACAwAADBCgAgMQAAyAoAIDIAALwKACAzAAC-CgAgNAAAvwoAIDUAAMAKACA2AADCCgAgNwAAxQoAIDgAAMYKACA5AADHCgAgnQMBAAAAAaQDQAAAAAHsAwEAAAAB7gMBAAAAAfYDAQAAAAGIBAEAAAABiQQBAAAAAYoEAQAAAAGLBCAAAAABjARAAAAAAY0EIAAAAAGOBAEAAAABjwRAAAAAAZAEQAAAAAGRBCAAAAABkgQBAAAAAZMEAQAAAAECAAAAGgAgDwAA4wsAIAMAAAAkACAPAADhCwAgEAAA5wsAIAoAAAAkACAIAADnCwAgHAAAgQgAIB4AAIIIACAkAACECAAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAh5gMBALgGACHrAyAAzwYAIQgcAACBCAAgHgAAgggAICQAAIQIACCdAwEAuAYAIZ4DAQC4BgAhpANAALsGACHmAwEAuAYAIesDIADPBgAhAwAAAJIBACAPAADjCwAgEAAA6gsAIB8AAACSAQAgCAAA6gsAIB4AAKYJACAkAACtCQAgMAAAqgkAIDEAALEJACAyAAClCQAgMwAApwkAIDQAAKgJACA1AACpCQAgNgAAqwkAIDcAAK4JACA4AACvCQAgOQAAsAkAIJ0DAQC4BgAhpANAALsGACHsAwEAuAYAIe4DAQDDBgAh9gMBALgGACGIBAEAwwYAIYkEAQDDBgAhigQBALgGACGLBCAAzwYAIYwEQADNBgAhjQQgAM8GACGOBAEAwwYAIY8EQADNBgAhkARAAM0GACGRBCAAzwYAIZIEAQDDBgAhkwQBAMMGACEdHgAApgkAICQAAK0JACAwAACqCQAgMQAAsQkAIDIAAKUJACAzAACnCQAgNAAAqAkAIDUAAKkJACA2AACrCQAgNwAArgkAIDgAAK8JACA5AACwCQAgnQMBALgGACGkA0AAuwYAIewDAQC4BgAh7gMBAMMGACH2AwEAuAYAIYgEAQDDBgAhiQQBAMMGACGKBAEAuAYAIYsEIADPBgAhjARAAM0GACGNBCAAzwYAIY4EAQDDBgAhjwRAAM0GACGQBEAAzQYAIZEEIADPBgAhkgQBAMMGACGTBAEAwwYAIQkcAAD3BwAgHgAA-QcAICMAAPgHACCdAwEAAAABngMBAAAAAaQDQAAAAAHmAwEAAAAB6gMCAAAAAesDIAAAAAECAAAAbQAgDwAA6wsAIAgcAAClCAAgHgAApggAICAAAKcIACCdAwEAAAABngMBAAAAAaQDQAAAAAHmAwEAAAAB6wMgAAAAAQIAAABqACAPAADtCwAgDhwAAJoJACAeAACbCQAgKwAAnAkAICwAAJ0JACAtAACeCQAgMAAAnwkAIDEAAKEJACCdAwEAAAABngMBAAAAAZ8DAAAAhwQCpANAAAAAAb0DAQAAAAHmAwEAAAABhwQgAAAAAQIAAAAeACAPAADvCwAgHR4AAL0KACAgAADDCgAgMAAAwQoAIDEAAMgKACAyAAC8CgAgMwAAvgoAIDQAAL8KACA1AADACgAgNgAAwgoAIDcAAMUKACA4AADGCgAgOQAAxwoAIJ0DAQAAAAGkA0AAAAAB7AMBAAAAAe4DAQAAAAH2AwEAAAABiAQBAAAAAYkEAQAAAAGKBAEAAAABiwQgAAAAAYwEQAAAAAGNBCAAAAABjgQBAAAAAY8EQAAAAAGQBEAAAAABkQQgAAAAAZIEAQAAAAGTBAEAAAABAgAAABoAIA8AAPELACAHnQMBAAAAAaQDQAAAAAG2AwAAAMkDAscDQAAAAAHJAwEAAAABygNAAAAAAcsDQAAAAAEDAAAAMQAgDwAA6wsAIBAAAPYLACALAAAAMQAgCAAA9gsAIBwAALUHACAeAAC3BwAgIwAAtgcAIJ0DAQC4BgAhngMBALgGACGkA0AAuwYAIeYDAQC4BgAh6gMCALoGACHrAyAAzwYAIQkcAAC1BwAgHgAAtwcAICMAALYHACCdAwEAuAYAIZ4DAQC4BgAhpANAALsGACHmAwEAuAYAIeoDAgC6BgAh6wMgAM8GACEDAAAAJAAgDwAA7QsAIBAAAPkLACAKAAAAJAAgCAAA-QsAIBwAAIEIACAeAACCCAAgIAAAgwgAIJ0DAQC4BgAhngMBALgGACGkA0AAuwYAIeYDAQC4BgAh6wMgAM8GACEIHAAAgQgAIB4AAIIIACAgAACDCAAgnQMBALgGACGeAwEAuAYAIaQDQAC7BgAh5gMBALgGACHrAyAAzwYAIQMAAAAcACAPAADvCwAgEAAA_AsAIBAAAAAcACAIAAD8CwAgHAAAyggAIB4AAMsIACArAADMCAAgLAAAzQgAIC0AAM4IACAwAADPCAAgMQAA0QgAIJ0DAQC4BgAhngMBALgGACGfAwAAyQiHBCKkA0AAuwYAIb0DAQC4BgAh5gMBALgGACGHBCAAzwYAIQ4cAADKCAAgHgAAywgAICsAAMwIACAsAADNCAAgLQAAzggAIDAAAM8IACAxAADRCAAgnQMBALgGACGeAwEAuAYAIZ8DAADJCIcEIqQDQAC7BgAhvQMBALgGACHmAwEAuAYAIYcEIADPBgAhAwAAAJIBACAPAADxCwAgEAAA_wsAIB8AAACSAQAgCAAA_wsAIB4AAKYJACAgAACsCQAgMAAAqgkAIDEAALEJACAyAAClCQAgMwAApwkAIDQAAKgJACA1AACpCQAgNgAAqwkAIDcAAK4JACA4AACvCQAgOQAAsAkAIJ0DAQC4BgAhpANAALsGACHsAwEAuAYAIe4DAQDDBgAh9gMBALgGACGIBAEAwwYAIYkEAQDDBgAhigQBALgGACGLBCAAzwYAIYwEQADNBgAhjQQgAM8GACGOBAEAwwYAIY8EQADNBgAhkARAAM0GACGRBCAAzwYAIZIEAQDDBgAhkwQBAMMGACEdHgAApgkAICAAAKwJACAwAACqCQAgMQAAsQkAIDIAAKUJACAzAACnCQAgNAAAqAkAIDUAAKkJACA2AACrCQAgNwAArgkAIDgAAK8JACA5AACwCQAgnQMBALgGACGkA0AAuwYAIewDAQC4BgAh7gMBAMMGACH2AwEAuAYAIYgEAQDDBgAhiQQBAMMGACGKBAEAuAYAIYsEIADPBgAhjARAAM0GACGNBCAAzwYAIY4EAQDDBgAhjwRAAM0GACGQBEAAzQYAIZEEIADPBgAhkgQBAMMGACGTBAEAwwYAIRYcAADzBgAgHQAA9AYAIB8BAAAAASEAAPUGACAiAAD2BgAgnQMBAAAAAZ4DAQAAAAGkA0AAAAABtwNAAAAAAbsDCAAAAAG8AxAAAAABvQMBAAAAAcwDAQAAAAHOAwAAAM4DAs8DAQAAAAHQAwEAAAAB0QMBAAAAAdMDAAAA0wMC1AMCAAAAAdUDAQAAAAHWA0AAAAAB1wMgAAAAAQIAAAAuACAPAACADAAgAwAAACwAIA8AAIAMACAQAACEDAAgGAAAACwAIAgAAIQMACAcAADiBgAgHQAA4wYAIB8BAMMGACEhAADkBgAgIgAA5QYAIJ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbcDQAC7BgAhuwMIALkGACG8AxAAzgYAIb0DAQC4BgAhzAMBALgGACHOAwAA4AbOAyLPAwEAwwYAIdADAQDDBgAh0QMBALgGACHTAwAA4QbTAyLUAwIAugYAIdUDAQDDBgAh1gNAALsGACHXAyAAzwYAIRYcAADiBgAgHQAA4wYAIB8BAMMGACEhAADkBgAgIgAA5QYAIJ0DAQC4BgAhngMBALgGACGkA0AAuwYAIbcDQAC7BgAhuwMIALkGACG8AxAAzgYAIb0DAQC4BgAhzAMBALgGACHOAwAA4AbOAyLPAwEAwwYAIdADAQDDBgAh0QMBALgGACHTAwAA4QbTAyLUAwIAugYAIdUDAQDDBgAh1gNAALsGACHXAyAAzwYAIR0eAAC9CgAgIAAAwwoAICQAAMQKACAwAADBCgAgMQAAyAoAIDIAALwKACAzAAC-CgAgNAAAvwoAIDUAAMAKACA2AADCCgAgOAAAxgoAIDkAAMcKACCdAwEAAAABpANAAAAAAewDAQAAAAHuAwEAAAAB9gMBAAAAAYgEAQAAAAGJBAEAAAABigQBAAAAAYsEIAAAAAGMBEAAAAABjQQgAAAAAY4EAQAAAAGPBEAAAAABkARAAAAAAZEEIAAAAAGSBAEAAAABkwQBAAAAAQIAAAAaACAPAACFDAAgAwAAAJIBACAPAACFDAAgEAAAiQwAIB8AAACSAQAgCAAAiQwAIB4AAKYJACAgAACsCQAgJAAArQkAIDAAAKoJACAxAACxCQAgMgAApQkAIDMAAKcJACA0AACoCQAgNQAAqQkAIDYAAKsJACA4AACvCQAgOQAAsAkAIJ0DAQC4BgAhpANAALsGACHsAwEAuAYAIe4DAQDDBgAh9gMBALgGACGIBAEAwwYAIYkEAQDDBgAhigQBALgGACGLBCAAzwYAIYwEQADNBgAhjQQgAM8GACGOBAEAwwYAIY8EQADNBgAhkARAAM0GACGRBCAAzwYAIZIEAQDDBgAhkwQBAMMGACEdHgAApgkAICAAAKwJACAkAACtCQAgMAAAqgkAIDEAALEJACAyAAClCQAgMwAApwkAIDQAAKgJACA1AACpCQAgNgAAqwkAIDgAAK8JACA5AACwCQAgnQMBALgGACGkA0AAuwYAIewDAQC4BgAh7gMBAMMGACH2AwEAuAYAIYgEAQDDBgAhiQQBAMMGACGKBAEAuAYAIYsEIADPBgAhjARAAM0GACGNBCAAzwYAIY4EAQDDBgAhjwRAAM0GACGQBEAAzQYAIZEEIADPBgAhkgQBAMMGACGTBAEAwwYAIR0eAAC9CgAgIAAAwwoAICQAAMQKACAwAADBCgAgMQAAyAoAIDIAALwKACAzAAC-CgAgNAAAvwoAIDUAAMAKACA2AADCCgAgNwAAxQoAIDkAAMcKACCdAwEAAAABpANAAAAAAewDAQAAAAHuAwEAAAAB9gMBAAAAAYgEAQAAAAGJBAEAAAABigQBAAAAAYsEIAAAAAGMBEAAAAABjQQgAAAAAY4EAQAAAAGPBEAAAAABkARAAAAAAZEEIAAAAAGSBAEAAAABkwQBAAAAAQIAAAAaACAPAACKDAAgAwAAAJIBACAPAACKDAAgEAAAjgwAIB8AAACSAQAgCAAAjgwAIB4AAKYJACAgAACsCQAgJAAArQkAIDAAAKoJACAxAACxCQAgMgAApQkAIDMAAKcJACA0AACoCQAgNQAAqQkAIDYAAKsJACA3AACuCQAgOQAAsAkAIJ0DAQC4BgAhpANAALsGACHsAwEAuAYAIe4DAQDDBgAh9gMBALgGACGIBAEAwwYAIYkEAQDDBgAhigQBALgGACGLBCAAzwYAIYwEQADNBgAhjQQgAM8GACGOBAEAwwYAIY8EQADNBgAhkARAAM0GACGRBCAAzwYAIZIEAQDDBgAhkwQBAMMGACEdHgAApgkAICAAAKwJACAkAACtCQAgMAAAqgkAIDEAALEJACAyAAClCQAgMwAApwkAIDQAAKgJACA1AACpCQAgNgAAqwkAIDcAAK4JACA5AACwCQAgnQMBALgGACGkA0AAuwYAIewDAQC4BgAh7gMBAMMGACH2AwEAuAYAIYgEAQDDBgAhiQQBAMMGACGKBAEAuAYAIYsEIADPBgAhjARAAM0GACGNBCAAzwYAIY4EAQDDBgAhjwRAAM0GACGQBEAAzQYAIZEEIADPBgAhkgQBAMMGACGTBAEAwwYAIR0eAAC9CgAgIAAAwwoAICQAAMQKACAwAADBCgAgMQAAyAoAIDIAALwKACAzAAC-CgAgNAAAvwoAIDUAAMAKACA2AADCCgAgNwAAxQoAIDgAAMYKACCdAwEAAAABpANAAAAAAewDAQAAAAHuAwEAAAAB9gMBAAAAAYgEAQAAAAGJBAEAAAABigQBAAAAAYsEIAAAAAGMBEAAAAABjQQgAAAAAY4EAQAAAAGPBEAAAAABkARAAAAAAZEEIAAAAAGSBAEAAAABkwQBAAAAAQIAAAAaACAPAACPDAAgAwAAAJIBACAPAACPDAAgEAAAkwwAIB8AAACSAQAgCAAAkwwAIB4AAKYJACAgAACsCQAgJAAArQkAIDAAAKoJACAxAACxCQAgMgAApQkAIDMAAKcJACA0AACoCQAgNQAAqQkAIDYAAKsJACA3AACuCQAgOAAArwkAIJ0DAQC4BgAhpANAALsGACHsAwEAuAYAIe4DAQDDBgAh9gMBALgGACGIBAEAwwYAIYkEAQDDBgAhigQBALgGACGLBCAAzwYAIYwEQADNBgAhjQQgAM8GACGOBAEAwwYAIY8EQADNBgAhkARAAM0GACGRBCAAzwYAIZIEAQDDBgAhkwQBAMMGACEdHgAApgkAICAAAKwJACAkAACtCQAgMAAAqgkAIDEAALEJACAyAAClCQAgMwAApwkAIDQAAKgJACA1AACpCQAgNgAAqwkAIDcAAK4JACA4AACvCQAgnQMBALgGACGkA0AAuwYAIewDAQC4BgAh7gMBAMMGACH2AwEAuAYAIYgEAQDDBgAhiQQBAMMGACGKBAEAuAYAIYsEIADPBgAhjARAAM0GACGNBCAAzwYAIY4EAQDDBgAhjwRAAM0GACGQBEAAzQYAIZEEIADPBgAhkgQBAMMGACGTBAEAwwYAIQAAAAAFFQAGFgAHFwAIGAAJGQAKAAAAAAAFFQAGFgAHFwAIGAAJGQAKDhUAJB5oDiB1ECR2ETBzGzGDAR4yHw0zaw80bhI1ciA2dBw3eiE4fiI5ggEjCRUAHxwADB4jDiRcEStMDixNDi1RGjBVGzFgHggVABkcAAwdAA0hJQ8iRhInRA0oRQ0qShgFFQAXHAAMHiYOICoQJC8RAhwADB8rDwYVABYcAAwdAA0hMA8iMhImPxUFFQAUHAAMHjcOIzYTJDgRASIAEgMeOgAjOQAkOwABJQARASZAAAMeQQAgQgAkQwABKQAOASpLAAEdAA0EFQAdHAAMHVYNL1ocAhwADC4AGwEvWwACHAAMHQANBx5hACRmACtiACxjAC1kADBlADFnAAEcAAwBHAAMARwADAEcAAwNHoUBACCLAQAkjAEAMIkBADGQAQAyhAEAM4YBADSHAQA1iAEANooBADeNAQA4jgEAOY8BAAAAAxUAKBgAKRkAKgAAAAMVACgYACkZACoBHAAMARwADAMVAC8YADAZADEAAAADFQAvGAAwGQAxAR0ADQEdAA0FFQA2FgA3FwA4GAA5GQA6AAAAAAAFFQA2FgA3FwA4GAA5GQA6BhwADB0ADSHeAQ8i4QESJ98BDSjgAQ0GHAAMHQANIecBDyLqARIn6AENKOkBDQUVAD8WAEAXAEEYAEIZAEMAAAAAAAUVAD8WAEAXAEEYAEIZAEMBKQAOASkADgMVAEgYAEkZAEoAAAADFQBIGABJGQBKAhwADB0ADQIcAAwdAA0FFQBPFgBQFwBRGABSGQBTAAAAAAAFFQBPFgBQFwBRGABSGQBTAAAAAxUAWRgAWhkAWwAAAAMVAFkYAFoZAFsBHAAMARwADAMVAGAYAGEZAGIAAAADFQBgGABhGQBiAAAAAxUAaBgAaRkAagAAAAMVAGgYAGkZAGoBHAAMARwADAUVAG8WAHAXAHEYAHIZAHMAAAAAAAUVAG8WAHAXAHEYAHIZAHMBIgASASIAEgMVAHgYAHkZAHoAAAADFQB4GAB5GQB6AAAAAxUAgAEYAIEBGQCCAQAAAAMVAIABGACBARkAggEBHAAMARwADAMVAIcBGACIARkAiQEAAAADFQCHARgAiAEZAIkBAhwADB3LAw0CHAAMHdEDDQUVAI4BFgCPARcAkAEYAJEBGQCSAQAAAAAABRUAjgEWAI8BFwCQARgAkQEZAJIBAhwADC4AGwIcAAwuABsFFQCXARYAmAEXAJkBGACaARkAmwEAAAAAAAUVAJcBFgCYARcAmQEYAJoBGQCbAQIcAAwf-QMPAhwADB__Aw8FFQCgARYAoQEXAKIBGACjARkApAEAAAAAAAUVAKABFgChARcAogEYAKMBGQCkAQQcAAwdAA0hkQQPIpIEEgQcAAwdAA0hmAQPIpkEEgUVAKkBFgCqARcAqwEYAKwBGQCtAQAAAAAABRUAqQEWAKoBFwCrARgArAEZAK0BASUAEQElABEDFQCyARgAswEZALQBAAAAAxUAsgEYALMBGQC0AQAAAAMVALoBGAC7ARkAvAEAAAADFQC6ARgAuwEZALwBARwADAEcAAwFFQDBARYAwgEXAMMBGADEARkAxQEAAAAAAAUVAMEBFgDCARcAwwEYAMQBGQDFAQEcAAwBHAAMAxUAygEYAMsBGQDMAQAAAAMVAMoBGADLARkAzAEBHAAMARwADAUVANEBFgDSARcA0wEYANQBGQDVAQAAAAAABRUA0QEWANIBFwDTARgA1AEZANUBAQIBAgMBBQYBBgcBBwgBCQoBCgwCCw0DDA8BDRECDhIEERMBEhQBExUCGhgFGxkLOhsMO5EBDDyUAQw9lQEMPpYBDD-YAQxAmgECQZsBJUKdAQxDnwECRKABJkWhAQxGogEMR6MBAkimASdJpwErSqgBDUupAQ1MqgENTasBDU6sAQ1PrgENULABAlGxASxSswENU7UBAlS2AS1VtwENVrgBDVe5AQJYvAEuWb0BMlq-ARpbvwEaXMABGl3BARpewgEaX8QBGmDGAQJhxwEzYskBGmPLAQJkzAE0Zc0BGmbOARpnzwECaNIBNWnTATtq1AEOa9UBDmzWAQ5t1wEObtgBDm_aAQ5w3AECcd0BPHLjAQ5z5QECdOYBPXXrAQ527AEOd-0BAnjwAT558QFEevIBGHvzARh89AEYffUBGH72ARh_-AEYgAH6AQKBAfsBRYIB_QEYgwH_AQKEAYACRoUBgQIYhgGCAhiHAYMCAogBhgJHiQGHAkuKAYgCHosBiQIejAGKAh6NAYsCHo4BjAIejwGOAh6QAZACApEBkQJMkgGTAh6TAZUCApQBlgJNlQGXAh6WAZgCHpcBmQICmAGcAk6ZAZ0CVJoBnwJVmwGgAlWcAaMCVZ0BpAJVngGlAlWfAacCVaABqQICoQGqAlaiAawCVaMBrgICpAGvAlelAbACVaYBsQJVpwGyAgKoAbUCWKkBtgJcqgG3Ag-rAbgCD6wBuQIPrQG6Ag-uAbsCD68BvQIPsAG_AgKxAcACXbIBwgIPswHEAgK0AcUCXrUBxgIPtgHHAg-3AcgCArgBywJfuQHMAmO6Ac4CZLsBzwJkvAHSAmS9AdMCZL4B1AJkvwHWAmTAAdgCAsEB2QJlwgHbAmTDAd0CAsQB3gJmxQHfAmTGAeACZMcB4QICyAHkAmfJAeUCa8oB5gISywHnAhLMAegCEs0B6QISzgHqAhLPAewCEtAB7gIC0QHvAmzSAfECEtMB8wIC1AH0Am3VAfUCEtYB9gIS1wH3AgLYAfoCbtkB-wJ02gH8AhPbAf0CE9wB_gIT3QH_AhPeAYADE98BggMT4AGEAwLhAYUDdeIBhwMT4wGJAwLkAYoDduUBiwMT5gGMAxPnAY0DAugBkAN36QGRA3vqAZMDfOsBlAN87AGXA3ztAZgDfO4BmQN87wGbA3zwAZ0DAvEBngN98gGgA3zzAaIDAvQBowN-9QGkA3z2AaUDfPcBpgMC-AGpA3_5AaoDgwH6AasDIPsBrAMg_AGtAyD9Aa4DIP4BrwMg_wGxAyCAArMDAoECtAOEAYICtgMggwK4AwKEArkDhQGFAroDIIYCuwMghwK8AwKIAr8DhgGJAsADigGKAsEDG4sCwgMbjALDAxuNAsQDG44CxQMbjwLHAxuQAskDApECygOLAZICzQMbkwLPAwKUAtADjAGVAtIDG5YC0wMblwLUAwKYAtcDjQGZAtgDkwGaAtkDHJsC2gMcnALbAxydAtwDHJ4C3QMcnwLfAxygAuEDAqEC4gOUAaIC5AMcowLmAwKkAucDlQGlAugDHKYC6QMcpwLqAwKoAu0DlgGpAu4DnAGqAu8DEKsC8AMQrALxAxCtAvIDEK4C8wMQrwL1AxCwAvcDArEC-AOdAbIC-wMQswL9AwK0Av4DngG1AoAEELYCgQQQtwKCBAK4AoUEnwG5AoYEpQG6AocEEbsCiAQRvAKJBBG9AooEEb4CiwQRvwKNBBHAAo8EAsECkASmAcIClAQRwwKWBALEApcEpwHFApoEEcYCmwQRxwKcBALIAp8EqAHJAqAErgHKAqEEFcsCogQVzAKjBBXNAqQEFc4CpQQVzwKnBBXQAqkEAtECqgSvAdICrAQV0wKuBALUAq8EsAHVArAEFdYCsQQV1wKyBALYArUEsQHZArYEtQHaArgEtgHbArkEtgHcArwEtgHdAr0EtgHeAr4EtgHfAsAEtgHgAsIEAuECwwS3AeICxQS2AeMCxwQC5ALIBLgB5QLJBLYB5gLKBLYB5wLLBALoAs4EuQHpAs8EvQHqAtAEIesC0QQh7ALSBCHtAtMEIe4C1AQh7wLWBCHwAtgEAvEC2QS-AfIC2wQh8wLdBAL0At4EvwH1At8EIfYC4AQh9wLhBAL4AuQEwAH5AuUExgH6AuYEIvsC5wQi_ALoBCL9AukEIv4C6gQi_wLsBCKAA-4EAoED7wTHAYID8QQigwPzBAKEA_QEyAGFA_UEIoYD9gQihwP3BAKIA_oEyQGJA_sEzQGKA_wEI4sD_QQjjAP-BCONA_8EI44DgAUjjwOCBSOQA4QFApEDhQXOAZIDhwUjkwOJBQKUA4oFzwGVA4sFI5YDjAUjlwONBQKYA5AF0AGZA5EF1gE"
 }
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
@@ -234,6 +234,26 @@ export interface PrismaClient<
     */
   get transaction(): Prisma.TransactionDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.transactionAttachment`: Exposes CRUD operations for the **TransactionAttachment** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TransactionAttachments
+    * const transactionAttachments = await prisma.transactionAttachment.findMany()
+    * ```
+    */
+  get transactionAttachment(): Prisma.TransactionAttachmentDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.netWorthSnapshot`: Exposes CRUD operations for the **NetWorthSnapshot** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more NetWorthSnapshots
+    * const netWorthSnapshots = await prisma.netWorthSnapshot.findMany()
+    * ```
+    */
+  get netWorthSnapshot(): Prisma.NetWorthSnapshotDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.exchangeRateSnapshot`: Exposes CRUD operations for the **ExchangeRateSnapshot** model.
     * Example usage:
@@ -314,6 +334,56 @@ export interface PrismaClient<
     */
   get alertConfig(): Prisma.AlertConfigDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.alertEvent`: Exposes CRUD operations for the **AlertEvent** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more AlertEvents
+    * const alertEvents = await prisma.alertEvent.findMany()
+    * ```
+    */
+  get alertEvent(): Prisma.AlertEventDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.budget`: Exposes CRUD operations for the **Budget** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Budgets
+    * const budgets = await prisma.budget.findMany()
+    * ```
+    */
+  get budget(): Prisma.BudgetDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.recurringTransaction`: Exposes CRUD operations for the **RecurringTransaction** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more RecurringTransactions
+    * const recurringTransactions = await prisma.recurringTransaction.findMany()
+    * ```
+    */
+  get recurringTransaction(): Prisma.RecurringTransactionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.recurringOccurrence`: Exposes CRUD operations for the **RecurringOccurrence** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more RecurringOccurrences
+    * const recurringOccurrences = await prisma.recurringOccurrence.findMany()
+    * ```
+    */
+  get recurringOccurrence(): Prisma.RecurringOccurrenceDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.botSession`: Exposes CRUD operations for the **BotSession** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more BotSessions
+    * const botSessions = await prisma.botSession.findMany()
+    * ```
+    */
+  get botSession(): Prisma.BotSessionDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.subscription`: Exposes CRUD operations for the **Subscription** model.
     * Example usage:
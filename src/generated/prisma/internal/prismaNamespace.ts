@@ -389,6 +389,8 @@ export const ModelName = {
   Account: 'Account',
   AccountAsset: 'AccountAsset',
   Transaction: 'Transaction',
+  TransactionAttachment: 'TransactionAttachment',
+  NetWorthSnapshot: 'NetWorthSnapshot',
   ExchangeRateSnapshot: 'ExchangeRateSnapshot',
   Category: 'Category',
   TrialLedger: 'TrialLedger',
@@ -397,6 +399,11 @@ export const ModelName = {
   TagAuditLog: 'TagAuditLog',
   SavedAnalyticsView: 'SavedAnalyticsView',
   AlertConfig: 'AlertConfig',
+  AlertEvent: 'AlertEvent',
+  Budget: 'Budget',
+  RecurringTransaction: 'RecurringTransaction',
+  RecurringOccurrence: 'RecurringOccurrence',
+  BotSession: 'BotSession',
   Subscription: 'Subscription',
   PremiumEvent: 'PremiumEvent',
   LlmUserMemory: 'LlmUserMemory'
@@ -415,7 +422,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "currency" | "user" | "account" | "accountAsset" | "transaction" | "exchangeRateSnapshot" | "category" | "trialLedger" | "tag" | "tagAlias" | "tagAuditLog" | "savedAnalyticsView" | "alertConfig" | "subscription" | "premiumEvent" | "llmUserMemory"
+    modelProps: "currency" | "user" | "account" | "accountAsset" | "transaction" | "transactionAttachment" | "netWorthSnapshot" | "exchangeRateSnapshot" | "category" | "trialLedger" | "tag" | "tagAlias" | "tagAuditLog" | "savedAnalyticsView" | "alertConfig" | "alertEvent" | "budget" | "recurringTransaction" | "recurringOccurrence" | "botSession" | "subscription" | "premiumEvent" | "llmUserMemory"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -789,6 +796,154 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    TransactionAttachment: {
+      payload: Prisma.$TransactionAttachmentPayload<ExtArgs>
+      fields: Prisma.TransactionAttachmentFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.TransactionAttachmentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransactionAttachmentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.TransactionAttachmentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransactionAttachmentPayload>
+        }
+        findFirst: {
+          args: Prisma.TransactionAttachmentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransactionAttachmentPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.TransactionAttachmentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransactionAttachmentPayload>
+        }
+        findMany: {
+          args: Prisma.TransactionAttachmentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransactionAttachmentPayload>[]
+        }
+        create: {
+          args: Prisma.TransactionAttachmentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransactionAttachmentPayload>
+        }
+        createMany: {
+          args: Prisma.TransactionAttachmentCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.TransactionAttachmentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransactionAttachmentPayload>[]
+        }
+        delete: {
+          args: Prisma.TransactionAttachmentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransactionAttachmentPayload>
+        }
+        update: {
+          args: Prisma.TransactionAttachmentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransactionAttachmentPayload>
+        }
+        deleteMany: {
+          args: Prisma.TransactionAttachmentDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.TransactionAttachmentUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.TransactionAttachmentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransactionAttachmentPayload>[]
+        }
+        upsert: {
+          args: Prisma.TransactionAttachmentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransactionAttachmentPayload>
+        }
+        aggregate: {
+          args: Prisma.TransactionAttachmentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateTransactionAttachment>
+        }
+        groupBy: {
+          args: Prisma.TransactionAttachmentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TransactionAttachmentGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.TransactionAttachmentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TransactionAttachmentCountAggregateOutputType> | number
+        }
+      }
+    }
+    NetWorthSnapshot: {
+      payload: Prisma.$NetWorthSnapshotPayload<ExtArgs>
+      fields: Prisma.NetWorthSnapshotFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.NetWorthSnapshotFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NetWorthSnapshotPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.NetWorthSnapshotFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NetWorthSnapshotPayload>
+        }
+        findFirst: {
+          args: Prisma.NetWorthSnapshotFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NetWorthSnapshotPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.NetWorthSnapshotFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NetWorthSnapshotPayload>
+        }
+        findMany: {
+          args: Prisma.NetWorthSnapshotFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NetWorthSnapshotPayload>[]
+        }
+        create: {
+          args: Prisma.NetWorthSnapshotCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NetWorthSnapshotPayload>
+        }
+        createMany: {
+          args: Prisma.NetWorthSnapshotCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.NetWorthSnapshotCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NetWorthSnapshotPayload>[]
+        }
+        delete: {
+          args: Prisma.NetWorthSnapshotDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NetWorthSnapshotPayload>
+        }
+        update: {
+          args: Prisma.NetWorthSnapshotUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NetWorthSnapshotPayload>
+        }
+        deleteMany: {
+          args: Prisma.NetWorthSnapshotDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.NetWorthSnapshotUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.NetWorthSnapshotUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NetWorthSnapshotPayload>[]
+        }
+        upsert: {
+          args: Prisma.NetWorthSnapshotUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NetWorthSnapshotPayload>
+        }
+        aggregate: {
+          args: Prisma.NetWorthSnapshotAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateNetWorthSnapshot>
+        }
+        groupBy: {
+          args: Prisma.NetWorthSnapshotGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NetWorthSnapshotGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.NetWorthSnapshotCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NetWorthSnapshotCountAggregateOutputType> | number
+        }
+      }
+    }
     ExchangeRateSnapshot: {
       payload: Prisma.$ExchangeRateSnapshotPayload<ExtArgs>
       fields: Prisma.ExchangeRateSnapshotFieldRefs
@@ -1381,6 +1536,376 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    AlertEvent: {
+      payload: Prisma.$AlertEventPayload<ExtArgs>
+      fields: Prisma.AlertEventFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.AlertEventFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AlertEventPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.AlertEventFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AlertEventPayload>
+        }
+        findFirst: {
+          args: Prisma.AlertEventFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AlertEventPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.AlertEventFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AlertEventPayload>
+        }
+        findMany: {
+          args: Prisma.AlertEventFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AlertEventPayload>[]
+        }
+        create: {
+          args: Prisma.AlertEventCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AlertEventPayload>
+        }
+        createMany: {
+          args: Prisma.AlertEventCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.AlertEventCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AlertEventPayload>[]
+        }
+        delete: {
+          args: Prisma.AlertEventDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AlertEventPayload>
+        }
+        update: {
+          args: Prisma.AlertEventUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AlertEventPayload>
+        }
+        deleteMany: {
+          args: Prisma.AlertEventDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.AlertEventUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.AlertEventUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AlertEventPayload>[]
+        }
+        upsert: {
+          args: Prisma.AlertEventUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AlertEventPayload>
+        }
+        aggregate: {
+          args: Prisma.AlertEventAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAlertEvent>
+        }
+        groupBy: {
+          args: Prisma.AlertEventGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AlertEventGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.AlertEventCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AlertEventCountAggregateOutputType> | number
+        }
+      }
+    }
+    Budget: {
+      payload: Prisma.$BudgetPayload<ExtArgs>
+      fields: Prisma.BudgetFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.BudgetFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.BudgetFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>
+        }
+        findFirst: {
+          args: Prisma.BudgetFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.BudgetFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>
+        }
+        findMany: {
+          args: Prisma.BudgetFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>[]
+        }
+        create: {
+          args: Prisma.BudgetCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>
+        }
+        createMany: {
+          args: Prisma.BudgetCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.BudgetCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>[]
+        }
+        delete: {
+          args: Prisma.BudgetDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>
+        }
+        update: {
+          args: Prisma.BudgetUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>
+        }
+        deleteMany: {
+          args: Prisma.BudgetDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.BudgetUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.BudgetUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>[]
+        }
+        upsert: {
+          args: Prisma.BudgetUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>
+        }
+        aggregate: {
+          args: Prisma.BudgetAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBudget>
+        }
+        groupBy: {
+          args: Prisma.BudgetGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BudgetGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.BudgetCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BudgetCountAggregateOutputType> | number
+        }
+      }
+    }
+    RecurringTransaction: {
+      payload: Prisma.$RecurringTransactionPayload<ExtArgs>
+      fields: Prisma.RecurringTransactionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.RecurringTransactionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringTransactionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.RecurringTransactionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringTransactionPayload>
+        }
+        findFirst: {
+          args: Prisma.RecurringTransactionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringTransactionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.RecurringTransactionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringTransactionPayload>
+        }
+        findMany: {
+          args: Prisma.RecurringTransactionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringTransactionPayload>[]
+        }
+        create: {
+          args: Prisma.RecurringTransactionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringTransactionPayload>
+        }
+        createMany: {
+          args: Prisma.RecurringTransactionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.RecurringTransactionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringTransactionPayload>[]
+        }
+        delete: {
+          args: Prisma.RecurringTransactionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringTransactionPayload>
+        }
+        update: {
+          args: Prisma.RecurringTransactionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringTransactionPayload>
+        }
+        deleteMany: {
+          args: Prisma.RecurringTransactionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.RecurringTransactionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.RecurringTransactionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringTransactionPayload>[]
+        }
+        upsert: {
+          args: Prisma.RecurringTransactionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringTransactionPayload>
+        }
+        aggregate: {
+          args: Prisma.RecurringTransactionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateRecurringTransaction>
+        }
+        groupBy: {
+          args: Prisma.RecurringTransactionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RecurringTransactionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.RecurringTransactionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RecurringTransactionCountAggregateOutputType> | number
+        }
+      }
+    }
+    RecurringOccurrence: {
+      payload: Prisma.$RecurringOccurrencePayload<ExtArgs>
+      fields: Prisma.RecurringOccurrenceFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.RecurringOccurrenceFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringOccurrencePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.RecurringOccurrenceFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringOccurrencePayload>
+        }
+        findFirst: {
+          args: Prisma.RecurringOccurrenceFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringOccurrencePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.RecurringOccurrenceFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringOccurrencePayload>
+        }
+        findMany: {
+          args: Prisma.RecurringOccurrenceFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringOccurrencePayload>[]
+        }
+        create: {
+          args: Prisma.RecurringOccurrenceCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringOccurrencePayload>
+        }
+        createMany: {
+          args: Prisma.RecurringOccurrenceCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.RecurringOccurrenceCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringOccurrencePayload>[]
+        }
+        delete: {
+          args: Prisma.RecurringOccurrenceDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringOccurrencePayload>
+        }
+        update: {
+          args: Prisma.RecurringOccurrenceUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringOccurrencePayload>
+        }
+        deleteMany: {
+          args: Prisma.RecurringOccurrenceDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.RecurringOccurrenceUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.RecurringOccurrenceUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringOccurrencePayload>[]
+        }
+        upsert: {
+          args: Prisma.RecurringOccurrenceUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringOccurrencePayload>
+        }
+        aggregate: {
+          args: Prisma.RecurringOccurrenceAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateRecurringOccurrence>
+        }
+        groupBy: {
+          args: Prisma.RecurringOccurrenceGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RecurringOccurrenceGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.RecurringOccurrenceCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RecurringOccurrenceCountAggregateOutputType> | number
+        }
+      }
+    }
+    BotSession: {
+      payload: Prisma.$BotSessionPayload<ExtArgs>
+      fields: Prisma.BotSessionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.BotSessionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BotSessionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.BotSessionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BotSessionPayload>
+        }
+        findFirst: {
+          args: Prisma.BotSessionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BotSessionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.BotSessionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BotSessionPayload>
+        }
+        findMany: {
+          args: Prisma.BotSessionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BotSessionPayload>[]
+        }
+        create: {
+          args: Prisma.BotSessionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BotSessionPayload>
+        }
+        createMany: {
+          args: Prisma.BotSessionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.BotSessionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BotSessionPayload>[]
+        }
+        delete: {
+          args: Prisma.BotSessionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BotSessionPayload>
+        }
+        update: {
+          args: Prisma.BotSessionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BotSessionPayload>
+        }
+        deleteMany: {
+          args: Prisma.BotSessionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.BotSessionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.BotSessionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BotSessionPayload>[]
+        }
+        upsert: {
+          args: Prisma.BotSessionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BotSessionPayload>
+        }
+        aggregate: {
+          args: Prisma.BotSessionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBotSession>
+        }
+        groupBy: {
+          args: Prisma.BotSessionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BotSessionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.BotSessionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BotSessionCountAggregateOutputType> | number
+        }
+      }
+    }
     Subscription: {
       payload: Prisma.$SubscriptionPayload<ExtArgs>
       fields: Prisma.SubscriptionFieldRefs
@@ -1666,6 +2191,9 @@ export const UserScalarFieldEnum = {
   lastTipText: 'lastTipText',
   lastTipDate: 'lastTipDate',
   lastDailyReminderAt: 'lastDailyReminderAt',
+  monthlyStatement: 'monthlyStatement',
+  lastStatementPeriod: 'lastStatementPeriod',
+  forecastWarnedPeriod: 'forecastWarnedPeriod',
   createdAt: 'createdAt'
 } as const
 
@@ -1723,6 +2251,36 @@ export const TransactionScalarFieldEnum = {
 export type TransactionScalarFieldEnum = (typeof TransactionScalarFieldEnum)[keyof typeof TransactionScalarFieldEnum]
 
 
+export const TransactionAttachmentScalarFieldEnum = {
+  id: 'id',
+  transactionId: 'transactionId',
+  kind: 'kind',
+  fileId: 'fileId',
+  fileUniqueId: 'fileUniqueId',
+  fileName: 'fileName',
+  mimeType: 'mimeType',
+  createdAt: 'createdAt'
+} as const
+
+export type TransactionAttachmentScalarFieldEnum = (typeof TransactionAttachmentScalarFieldEnum)[keyof typeof TransactionAttachmentScalarFieldEnum]
+
+
+export const NetWorthSnapshotScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  accountId: 'accountId',
+  date: 'date',
+  currency: 'currency',
+  amount: 'amount',
+  valueUsd: 'valueUsd',
+  valueMain: 'valueMain',
+  mainCurrency: 'mainCurrency',
+  createdAt: 'createdAt'
+} as const
+
+export type NetWorthSnapshotScalarFieldEnum = (typeof NetWorthSnapshotScalarFieldEnum)[keyof typeof NetWorthSnapshotScalarFieldEnum]
+
+
 export const ExchangeRateSnapshotScalarFieldEnum = {
   id: 'id',
   date: 'date',
@@ -1810,6 +2368,9 @@ export const AlertConfigScalarFieldEnum = {
   threshold: 'threshold',
   thresholdDecimal: 'thresholdDecimal',
   categoryId: 'categoryId',
+  period: 'period',
+  accountId: 'accountId',
+  currency: 'currency',
   enabled: 'enabled',
   createdAt: 'createdAt'
 } as const
@@ -1817,6 +2378,85 @@ export const AlertConfigScalarFieldEnum = {
 export type AlertConfigScalarFieldEnum = (typeof AlertConfigScalarFieldEnum)[keyof typeof AlertConfigScalarFieldEnum]
 
 
+export const AlertEventScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  alertConfigId: 'alertConfigId',
+  dedupKey: 'dedupKey',
+  transactionId: 'transactionId',
+  amount: 'amount',
+  amountDecimal: 'amountDecimal',
+  message: 'message',
+  createdAt: 'createdAt'
+} as const
+
+export type AlertEventScalarFieldEnum = (typeof AlertEventScalarFieldEnum)[keyof typeof AlertEventScalarFieldEnum]
+
+
+export const BudgetScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  categoryId: 'categoryId',
+  limit: 'limit',
+  limitDecimal: 'limitDecimal',
+  rollover: 'rollover',
+  warnedPeriod: 'warnedPeriod',
+  warnedLevel: 'warnedLevel',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BudgetScalarFieldEnum = (typeof BudgetScalarFieldEnum)[keyof typeof BudgetScalarFieldEnum]
+
+
+export const RecurringTransactionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  accountId: 'accountId',
+  direction: 'direction',
+  amount: 'amount',
+  amountDecimal: 'amountDecimal',
+  currency: 'currency',
+  categoryId: 'categoryId',
+  category: 'category',
+  tagId: 'tagId',
+  description: 'description',
+  frequency: 'frequency',
+  interval: 'interval',
+  cron: 'cron',
+  startDate: 'startDate',
+  nextRunAt: 'nextRunAt',
+  paused: 'paused',
+  createdAt: 'createdAt'
+} as const
+
+export type RecurringTransactionScalarFieldEnum = (typeof RecurringTransactionScalarFieldEnum)[keyof typeof RecurringTransactionScalarFieldEnum]
+
+
+export const RecurringOccurrenceScalarFieldEnum = {
+  id: 'id',
+  recurringId: 'recurringId',
+  dueAt: 'dueAt',
+  status: 'status',
+  transactionId: 'transactionId',
+  resolvedAt: 'resolvedAt',
+  promptedAt: 'promptedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type RecurringOccurrenceScalarFieldEnum = (typeof RecurringOccurrenceScalarFieldEnum)[keyof typeof RecurringOccurrenceScalarFieldEnum]
+
+
+export const BotSessionScalarFieldEnum = {
+  key: 'key',
+  data: 'data',
+  expiresAt: 'expiresAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BotSessionScalarFieldEnum = (typeof BotSessionScalarFieldEnum)[keyof typeof BotSessionScalarFieldEnum]
+
+
 export const SubscriptionScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -2013,6 +2653,20 @@ export type ListEnumTransactionDirectionsEnumFieldRefInput<$PrismaModel> = Field
     
 
 
+/**
+ * Reference to a field of type 'TransactionAttachmentKind'
+ */
+export type EnumTransactionAttachmentKindFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TransactionAttachmentKind'>
+    
+
+
+/**
+ * Reference to a field of type 'TransactionAttachmentKind[]'
+ */
+export type ListEnumTransactionAttachmentKindFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TransactionAttachmentKind[]'>
+    
+
+
 /**
  * Reference to a field of type 'Json'
  */
@@ -2041,6 +2695,48 @@ export type ListEnumAlertTypeEnumFieldRefInput<$PrismaModel> = FieldRefInputType
     
 
 
+/**
+ * Reference to a field of type 'AlertPeriodEnum'
+ */
+export type EnumAlertPeriodEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AlertPeriodEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'AlertPeriodEnum[]'
+ */
+export type ListEnumAlertPeriodEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AlertPeriodEnum[]'>
+    
+
+
+/**
+ * Reference to a field of type 'RecurringFrequencyEnum'
+ */
+export type EnumRecurringFrequencyEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'RecurringFrequencyEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'RecurringFrequencyEnum[]'
+ */
+export type ListEnumRecurringFrequencyEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'RecurringFrequencyEnum[]'>
+    
+
+
+/**
+ * Reference to a field of type 'RecurringOccurrenceStatus'
+ */
+export type EnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'RecurringOccurrenceStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'RecurringOccurrenceStatus[]'
+ */
+export type ListEnumRecurringOccurrenceStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'RecurringOccurrenceStatus[]'>
+    
+
+
 /**
  * Reference to a field of type 'SubscriptionPlan'
  */
@@ -2182,6 +2878,8 @@ export type GlobalOmitConfig = {
   account?: Prisma.AccountOmit
   accountAsset?: Prisma.AccountAssetOmit
   transaction?: Prisma.TransactionOmit
+  transactionAttachment?: Prisma.TransactionAttachmentOmit
+  netWorthSnapshot?: Prisma.NetWorthSnapshotOmit
   exchangeRateSnapshot?: Prisma.ExchangeRateSnapshotOmit
   category?: Prisma.CategoryOmit
   trialLedger?: Prisma.TrialLedgerOmit
@@ -2190,6 +2888,11 @@ export type GlobalOmitConfig = {
   tagAuditLog?: Prisma.TagAuditLogOmit
   savedAnalyticsView?: Prisma.SavedAnalyticsViewOmit
   alertConfig?: Prisma.AlertConfigOmit
+  alertEvent?: Prisma.AlertEventOmit
+  budget?: Prisma.BudgetOmit
+  recurringTransaction?: Prisma.RecurringTransactionOmit
+  recurringOccurrence?: Prisma.RecurringOccurrenceOmit
+  botSession?: Prisma.BotSessionOmit
   subscription?: Prisma.SubscriptionOmit
   premiumEvent?: Prisma.PremiumEventOmit
   llmUserMemory?: Prisma.LlmUserMemoryOmit
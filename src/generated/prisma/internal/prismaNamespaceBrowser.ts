@@ -56,6 +56,8 @@ export const ModelName = {
   Account: 'Account',
   AccountAsset: 'AccountAsset',
   Transaction: 'Transaction',
+  TransactionAttachment: 'TransactionAttachment',
+  NetWorthSnapshot: 'NetWorthSnapshot',
   ExchangeRateSnapshot: 'ExchangeRateSnapshot',
   Category: 'Category',
   TrialLedger: 'TrialLedger',
@@ -64,6 +66,11 @@ export const ModelName = {
   TagAuditLog: 'TagAuditLog',
   SavedAnalyticsView: 'SavedAnalyticsView',
   AlertConfig: 'AlertConfig',
+  AlertEvent: 'AlertEvent',
+  Budget: 'Budget',
+  RecurringTransaction: 'RecurringTransaction',
+  RecurringOccurrence: 'RecurringOccurrence',
+  BotSession: 'BotSession',
   Subscription: 'Subscription',
   PremiumEvent: 'PremiumEvent',
   LlmUserMemory: 'LlmUserMemory'
@@ -109,6 +116,9 @@ export const UserScalarFieldEnum = {
   lastTipText: 'lastTipText',
   lastTipDate: 'lastTipDate',
   lastDailyReminderAt: 'lastDailyReminderAt',
+  monthlyStatement: 'monthlyStatement',
+  lastStatementPeriod: 'lastStatementPeriod',
+  forecastWarnedPeriod: 'forecastWarnedPeriod',
   createdAt: 'createdAt'
 } as const
 
@@ -166,6 +176,36 @@ export const TransactionScalarFieldEnum = {
 export type TransactionScalarFieldEnum = (typeof TransactionScalarFieldEnum)[keyof typeof TransactionScalarFieldEnum]
 
 
+export const TransactionAttachmentScalarFieldEnum = {
+  id: 'id',
+  transactionId: 'transactionId',
+  kind: 'kind',
+  fileId: 'fileId',
+  fileUniqueId: 'fileUniqueId',
+  fileName: 'fileName',
+  mimeType: 'mimeType',
+  createdAt: 'createdAt'
+} as const
+
+export type TransactionAttachmentScalarFieldEnum = (typeof TransactionAttachmentScalarFieldEnum)[keyof typeof TransactionAttachmentScalarFieldEnum]
+
+
+export const NetWorthSnapshotScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  accountId: 'accountId',
+  date: 'date',
+  currency: 'currency',
+  amount: 'amount',
+  valueUsd: 'valueUsd',
+  valueMain: 'valueMain',
+  mainCurrency: 'mainCurrency',
+  createdAt: 'createdAt'
+} as const
+
+export type NetWorthSnapshotScalarFieldEnum = (typeof NetWorthSnapshotScalarFieldEnum)[keyof typeof NetWorthSnapshotScalarFieldEnum]
+
+
 export const ExchangeRateSnapshotScalarFieldEnum = {
   id: 'id',
   date: 'date',
@@ -253,6 +293,9 @@ export const AlertConfigScalarFieldEnum = {
   threshold: 'threshold',
   thresholdDecimal: 'thresholdDecimal',
   categoryId: 'categoryId',
+  period: 'period',
+  accountId: 'accountId',
+  currency: 'currency',
   enabled: 'enabled',
   createdAt: 'createdAt'
 } as const
@@ -260,6 +303,85 @@ export const AlertConfigScalarFieldEnum = {
 export type AlertConfigScalarFieldEnum = (typeof AlertConfigScalarFieldEnum)[keyof typeof AlertConfigScalarFieldEnum]
 
 
+export const AlertEventScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  alertConfigId: 'alertConfigId',
+  dedupKey: 'dedupKey',
+  transactionId: 'transactionId',
+  amount: 'amount',
+  amountDecimal: 'amountDecimal',
+  message: 'message',
+  createdAt: 'createdAt'
+} as const
+
+export type AlertEventScalarFieldEnum = (typeof AlertEventScalarFieldEnum)[keyof typeof AlertEventScalarFieldEnum]
+
+
+export const BudgetScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  categoryId: 'categoryId',
+  limit: 'limit',
+  limitDecimal: 'limitDecimal',
+  rollover: 'rollover',
+  warnedPeriod: 'warnedPeriod',
+  warnedLevel: 'warnedLevel',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BudgetScalarFieldEnum = (typeof BudgetScalarFieldEnum)[keyof typeof BudgetScalarFieldEnum]
+
+
+export const RecurringTransactionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  accountId: 'accountId',
+  direction: 'direction',
+  amount: 'amount',
+  amountDecimal: 'amountDecimal',
+  currency: 'currency',
+  categoryId: 'categoryId',
+  category: 'category',
+  tagId: 'tagId',
+  description: 'description',
+  frequency: 'frequency',
+  interval: 'interval',
+  cron: 'cron',
+  startDate: 'startDate',
+  nextRunAt: 'nextRunAt',
+  paused: 'paused',
+  createdAt: 'createdAt'
+} as const
+
+export type RecurringTransactionScalarFieldEnum = (typeof RecurringTransactionScalarFieldEnum)[keyof typeof RecurringTransactionScalarFieldEnum]
+
+
+export const RecurringOccurrenceScalarFieldEnum = {
+  id: 'id',
+  recurringId: 'recurringId',
+  dueAt: 'dueAt',
+  status: 'status',
+  transactionId: 'transactionId',
+  resolvedAt: 'resolvedAt',
+  promptedAt: 'promptedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type RecurringOccurrenceScalarFieldEnum = (typeof RecurringOccurrenceScalarFieldEnum)[keyof typeof RecurringOccurrenceScalarFieldEnum]
+
+
+export const BotSessionScalarFieldEnum = {
+  key: 'key',
+  data: 'data',
+  expiresAt: 'expiresAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BotSessionScalarFieldEnum = (typeof BotSessionScalarFieldEnum)[keyof typeof BotSessionScalarFieldEnum]
+
+
 export const SubscriptionScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -13,6 +13,8 @@ export type * from './models/User.js'
 export type * from './models/Account.js'
 export type * from './models/AccountAsset.js'
 export type * from './models/Transaction.js'
+export type * from './models/TransactionAttachment.js'
+export type * from './models/NetWorthSnapshot.js'
 export type * from './models/ExchangeRateSnapshot.js'
 export type * from './models/Category.js'
 export type * from './models/TrialLedger.js'
@@ -21,6 +23,11 @@ export type * from './models/TagAlias.js'
 export type * from './models/TagAuditLog.js'
 export type * from './models/SavedAnalyticsView.js'
 export type * from './models/AlertConfig.js'
+export type * from './models/AlertEvent.js'
+export type * from './models/Budget.js'
+export type * from './models/RecurringTransaction.js'
+export type * from './models/RecurringOccurrence.js'
+export type * from './models/BotSession.js'
 export type * from './models/Subscription.js'
 export type * from './models/PremiumEvent.js'
 export type * from './models/LlmUserMemory.js'
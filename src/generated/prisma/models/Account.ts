@@ -203,6 +203,9 @@ export type AccountWhereInput = {
   transactionsFrom?: Prisma.TransactionListRelationFilter
   transactionsTo?: Prisma.TransactionListRelationFilter
   assets?: Prisma.AccountAssetListRelationFilter
+  alertConfigs?: Prisma.AlertConfigListRelationFilter
+  recurringTransactions?: Prisma.RecurringTransactionListRelationFilter
+  netWorthSnapshots?: Prisma.NetWorthSnapshotListRelationFilter
 }
 
 export type AccountOrderByWithRelationInput = {
@@ -218,6 +221,9 @@ export type AccountOrderByWithRelationInput = {
   transactionsFrom?: Prisma.TransactionOrderByRelationAggregateInput
   transactionsTo?: Prisma.TransactionOrderByRelationAggregateInput
   assets?: Prisma.AccountAssetOrderByRelationAggregateInput
+  alertConfigs?: Prisma.AlertConfigOrderByRelationAggregateInput
+  recurringTransactions?: Prisma.RecurringTransactionOrderByRelationAggregateInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotOrderByRelationAggregateInput
 }
 
 export type AccountWhereUniqueInput = Prisma.AtLeast<{
@@ -236,6 +242,9 @@ export type AccountWhereUniqueInput = Prisma.AtLeast<{
   transactionsFrom?: Prisma.TransactionListRelationFilter
   transactionsTo?: Prisma.TransactionListRelationFilter
   assets?: Prisma.AccountAssetListRelationFilter
+  alertConfigs?: Prisma.AlertConfigListRelationFilter
+  recurringTransactions?: Prisma.RecurringTransactionListRelationFilter
+  netWorthSnapshots?: Prisma.NetWorthSnapshotListRelationFilter
 }, "id">
 
 export type AccountOrderByWithAggregationInput = {
@@ -276,6 +285,9 @@ export type AccountCreateInput = {
   transactionsFrom?: Prisma.TransactionCreateNestedManyWithoutFromAccountInput
   transactionsTo?: Prisma.TransactionCreateNestedManyWithoutToAccountInput
   assets?: Prisma.AccountAssetCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutAccountInput
 }
 
 export type AccountUncheckedCreateInput = {
@@ -290,6 +302,9 @@ export type AccountUncheckedCreateInput = {
   transactionsFrom?: Prisma.TransactionUncheckedCreateNestedManyWithoutFromAccountInput
   transactionsTo?: Prisma.TransactionUncheckedCreateNestedManyWithoutToAccountInput
   assets?: Prisma.AccountAssetUncheckedCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutAccountInput
 }
 
 export type AccountUpdateInput = {
@@ -304,6 +319,9 @@ export type AccountUpdateInput = {
   transactionsFrom?: Prisma.TransactionUpdateManyWithoutFromAccountNestedInput
   transactionsTo?: Prisma.TransactionUpdateManyWithoutToAccountNestedInput
   assets?: Prisma.AccountAssetUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutAccountNestedInput
 }
 
 export type AccountUncheckedUpdateInput = {
@@ -318,6 +336,9 @@ export type AccountUncheckedUpdateInput = {
   transactionsFrom?: Prisma.TransactionUncheckedUpdateManyWithoutFromAccountNestedInput
   transactionsTo?: Prisma.TransactionUncheckedUpdateManyWithoutToAccountNestedInput
   assets?: Prisma.AccountAssetUncheckedUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutAccountNestedInput
 }
 
 export type AccountCreateManyInput = {
@@ -505,6 +526,50 @@ export type AccountUpdateOneWithoutTransactionsToNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.AccountUpdateToOneWithWhereWithoutTransactionsToInput, Prisma.AccountUpdateWithoutTransactionsToInput>, Prisma.AccountUncheckedUpdateWithoutTransactionsToInput>
 }
 
+export type AccountCreateNestedOneWithoutNetWorthSnapshotsInput = {
+  create?: Prisma.XOR<Prisma.AccountCreateWithoutNetWorthSnapshotsInput, Prisma.AccountUncheckedCreateWithoutNetWorthSnapshotsInput>
+  connectOrCreate?: Prisma.AccountCreateOrConnectWithoutNetWorthSnapshotsInput
+  connect?: Prisma.AccountWhereUniqueInput
+}
+
+export type AccountUpdateOneRequiredWithoutNetWorthSnapshotsNestedInput = {
+  create?: Prisma.XOR<Prisma.AccountCreateWithoutNetWorthSnapshotsInput, Prisma.AccountUncheckedCreateWithoutNetWorthSnapshotsInput>
+  connectOrCreate?: Prisma.AccountCreateOrConnectWithoutNetWorthSnapshotsInput
+  upsert?: Prisma.AccountUpsertWithoutNetWorthSnapshotsInput
+  connect?: Prisma.AccountWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AccountUpdateToOneWithWhereWithoutNetWorthSnapshotsInput, Prisma.AccountUpdateWithoutNetWorthSnapshotsInput>, Prisma.AccountUncheckedUpdateWithoutNetWorthSnapshotsInput>
+}
+
+export type AccountCreateNestedOneWithoutAlertConfigsInput = {
+  create?: Prisma.XOR<Prisma.AccountCreateWithoutAlertConfigsInput, Prisma.AccountUncheckedCreateWithoutAlertConfigsInput>
+  connectOrCreate?: Prisma.AccountCreateOrConnectWithoutAlertConfigsInput
+  connect?: Prisma.AccountWhereUniqueInput
+}
+
+export type AccountUpdateOneWithoutAlertConfigsNestedInput = {
+  create?: Prisma.XOR<Prisma.AccountCreateWithoutAlertConfigsInput, Prisma.AccountUncheckedCreateWithoutAlertConfigsInput>
+  connectOrCreate?: Prisma.AccountCreateOrConnectWithoutAlertConfigsInput
+  upsert?: Prisma.AccountUpsertWithoutAlertConfigsInput
+  disconnect?: Prisma.AccountWhereInput | boolean
+  delete?: Prisma.AccountWhereInput | boolean
+  connect?: Prisma.AccountWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AccountUpdateToOneWithWhereWithoutAlertConfigsInput, Prisma.AccountUpdateWithoutAlertConfigsInput>, Prisma.AccountUncheckedUpdateWithoutAlertConfigsInput>
+}
+
+export type AccountCreateNestedOneWithoutRecurringTransactionsInput = {
+  create?: Prisma.XOR<Prisma.AccountCreateWithoutRecurringTransactionsInput, Prisma.AccountUncheckedCreateWithoutRecurringTransactionsInput>
+  connectOrCreate?: Prisma.AccountCreateOrConnectWithoutRecurringTransactionsInput
+  connect?: Prisma.AccountWhereUniqueInput
+}
+
+export type AccountUpdateOneRequiredWithoutRecurringTransactionsNestedInput = {
+  create?: Prisma.XOR<Prisma.AccountCreateWithoutRecurringTransactionsInput, Prisma.AccountUncheckedCreateWithoutRecurringTransactionsInput>
+  connectOrCreate?: Prisma.AccountCreateOrConnectWithoutRecurringTransactionsInput
+  upsert?: Prisma.AccountUpsertWithoutRecurringTransactionsInput
+  connect?: Prisma.AccountWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AccountUpdateToOneWithWhereWithoutRecurringTransactionsInput, Prisma.AccountUpdateWithoutRecurringTransactionsInput>, Prisma.AccountUncheckedUpdateWithoutRecurringTransactionsInput>
+}
+
 export type AccountCreateWithoutUserInput = {
   id?: string
   name: string
@@ -516,6 +581,9 @@ export type AccountCreateWithoutUserInput = {
   transactionsFrom?: Prisma.TransactionCreateNestedManyWithoutFromAccountInput
   transactionsTo?: Prisma.TransactionCreateNestedManyWithoutToAccountInput
   assets?: Prisma.AccountAssetCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutAccountInput
 }
 
 export type AccountUncheckedCreateWithoutUserInput = {
@@ -529,6 +597,9 @@ export type AccountUncheckedCreateWithoutUserInput = {
   transactionsFrom?: Prisma.TransactionUncheckedCreateNestedManyWithoutFromAccountInput
   transactionsTo?: Prisma.TransactionUncheckedCreateNestedManyWithoutToAccountInput
   assets?: Prisma.AccountAssetUncheckedCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutAccountInput
 }
 
 export type AccountCreateOrConnectWithoutUserInput = {
@@ -581,6 +652,9 @@ export type AccountCreateWithoutAssetsInput = {
   transactions?: Prisma.TransactionCreateNestedManyWithoutAccountInput
   transactionsFrom?: Prisma.TransactionCreateNestedManyWithoutFromAccountInput
   transactionsTo?: Prisma.TransactionCreateNestedManyWithoutToAccountInput
+  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutAccountInput
 }
 
 export type AccountUncheckedCreateWithoutAssetsInput = {
@@ -594,6 +668,9 @@ export type AccountUncheckedCreateWithoutAssetsInput = {
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutAccountInput
   transactionsFrom?: Prisma.TransactionUncheckedCreateNestedManyWithoutFromAccountInput
   transactionsTo?: Prisma.TransactionUncheckedCreateNestedManyWithoutToAccountInput
+  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutAccountInput
 }
 
 export type AccountCreateOrConnectWithoutAssetsInput = {
@@ -623,6 +700,9 @@ export type AccountUpdateWithoutAssetsInput = {
   transactions?: Prisma.TransactionUpdateManyWithoutAccountNestedInput
   transactionsFrom?: Prisma.TransactionUpdateManyWithoutFromAccountNestedInput
   transactionsTo?: Prisma.TransactionUpdateManyWithoutToAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutAccountNestedInput
 }
 
 export type AccountUncheckedUpdateWithoutAssetsInput = {
@@ -636,6 +716,9 @@ export type AccountUncheckedUpdateWithoutAssetsInput = {
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutAccountNestedInput
   transactionsFrom?: Prisma.TransactionUncheckedUpdateManyWithoutFromAccountNestedInput
   transactionsTo?: Prisma.TransactionUncheckedUpdateManyWithoutToAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutAccountNestedInput
 }
 
 export type AccountCreateWithoutTransactionsInput = {
@@ -649,6 +732,9 @@ export type AccountCreateWithoutTransactionsInput = {
   transactionsFrom?: Prisma.TransactionCreateNestedManyWithoutFromAccountInput
   transactionsTo?: Prisma.TransactionCreateNestedManyWithoutToAccountInput
   assets?: Prisma.AccountAssetCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutAccountInput
 }
 
 export type AccountUncheckedCreateWithoutTransactionsInput = {
@@ -662,6 +748,9 @@ export type AccountUncheckedCreateWithoutTransactionsInput = {
   transactionsFrom?: Prisma.TransactionUncheckedCreateNestedManyWithoutFromAccountInput
   transactionsTo?: Prisma.TransactionUncheckedCreateNestedManyWithoutToAccountInput
   assets?: Prisma.AccountAssetUncheckedCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutAccountInput
 }
 
 export type AccountCreateOrConnectWithoutTransactionsInput = {
@@ -680,6 +769,9 @@ export type AccountCreateWithoutTransactionsFromInput = {
   transactions?: Prisma.TransactionCreateNestedManyWithoutAccountInput
   transactionsTo?: Prisma.TransactionCreateNestedManyWithoutToAccountInput
   assets?: Prisma.AccountAssetCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutAccountInput
 }
 
 export type AccountUncheckedCreateWithoutTransactionsFromInput = {
@@ -693,6 +785,9 @@ export type AccountUncheckedCreateWithoutTransactionsFromInput = {
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutAccountInput
   transactionsTo?: Prisma.TransactionUncheckedCreateNestedManyWithoutToAccountInput
   assets?: Prisma.AccountAssetUncheckedCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutAccountInput
 }
 
 export type AccountCreateOrConnectWithoutTransactionsFromInput = {
@@ -711,6 +806,9 @@ export type AccountCreateWithoutTransactionsToInput = {
   transactions?: Prisma.TransactionCreateNestedManyWithoutAccountInput
   transactionsFrom?: Prisma.TransactionCreateNestedManyWithoutFromAccountInput
   assets?: Prisma.AccountAssetCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutAccountInput
 }
 
 export type AccountUncheckedCreateWithoutTransactionsToInput = {
@@ -724,6 +822,9 @@ export type AccountUncheckedCreateWithoutTransactionsToInput = {
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutAccountInput
   transactionsFrom?: Prisma.TransactionUncheckedCreateNestedManyWithoutFromAccountInput
   assets?: Prisma.AccountAssetUncheckedCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutAccountInput
 }
 
 export type AccountCreateOrConnectWithoutTransactionsToInput = {
@@ -753,6 +854,9 @@ export type AccountUpdateWithoutTransactionsInput = {
   transactionsFrom?: Prisma.TransactionUpdateManyWithoutFromAccountNestedInput
   transactionsTo?: Prisma.TransactionUpdateManyWithoutToAccountNestedInput
   assets?: Prisma.AccountAssetUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutAccountNestedInput
 }
 
 export type AccountUncheckedUpdateWithoutTransactionsInput = {
@@ -766,6 +870,9 @@ export type AccountUncheckedUpdateWithoutTransactionsInput = {
   transactionsFrom?: Prisma.TransactionUncheckedUpdateManyWithoutFromAccountNestedInput
   transactionsTo?: Prisma.TransactionUncheckedUpdateManyWithoutToAccountNestedInput
   assets?: Prisma.AccountAssetUncheckedUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutAccountNestedInput
 }
 
 export type AccountUpsertWithoutTransactionsFromInput = {
@@ -790,6 +897,9 @@ export type AccountUpdateWithoutTransactionsFromInput = {
   transactions?: Prisma.TransactionUpdateManyWithoutAccountNestedInput
   transactionsTo?: Prisma.TransactionUpdateManyWithoutToAccountNestedInput
   assets?: Prisma.AccountAssetUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutAccountNestedInput
 }
 
 export type AccountUncheckedUpdateWithoutTransactionsFromInput = {
@@ -803,6 +913,9 @@ export type AccountUncheckedUpdateWithoutTransactionsFromInput = {
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutAccountNestedInput
   transactionsTo?: Prisma.TransactionUncheckedUpdateManyWithoutToAccountNestedInput
   assets?: Prisma.AccountAssetUncheckedUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutAccountNestedInput
 }
 
 export type AccountUpsertWithoutTransactionsToInput = {
@@ -827,6 +940,9 @@ export type AccountUpdateWithoutTransactionsToInput = {
   transactions?: Prisma.TransactionUpdateManyWithoutAccountNestedInput
   transactionsFrom?: Prisma.TransactionUpdateManyWithoutFromAccountNestedInput
   assets?: Prisma.AccountAssetUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutAccountNestedInput
 }
 
 export type AccountUncheckedUpdateWithoutTransactionsToInput = {
@@ -840,6 +956,249 @@ export type AccountUncheckedUpdateWithoutTransactionsToInput = {
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutAccountNestedInput
   transactionsFrom?: Prisma.TransactionUncheckedUpdateManyWithoutFromAccountNestedInput
   assets?: Prisma.AccountAssetUncheckedUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutAccountNestedInput
+}
+
+export type AccountCreateWithoutNetWorthSnapshotsInput = {
+  id?: string
+  name: string
+  type: $Enums.AccountTypeEnum
+  currency: string
+  isHidden?: boolean
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutAccountsInput
+  transactions?: Prisma.TransactionCreateNestedManyWithoutAccountInput
+  transactionsFrom?: Prisma.TransactionCreateNestedManyWithoutFromAccountInput
+  transactionsTo?: Prisma.TransactionCreateNestedManyWithoutToAccountInput
+  assets?: Prisma.AccountAssetCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutAccountInput
+}
+
+export type AccountUncheckedCreateWithoutNetWorthSnapshotsInput = {
+  id?: string
+  userId: string
+  name: string
+  type: $Enums.AccountTypeEnum
+  currency: string
+  isHidden?: boolean
+  createdAt?: Date | string
+  transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutAccountInput
+  transactionsFrom?: Prisma.TransactionUncheckedCreateNestedManyWithoutFromAccountInput
+  transactionsTo?: Prisma.TransactionUncheckedCreateNestedManyWithoutToAccountInput
+  assets?: Prisma.AccountAssetUncheckedCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutAccountInput
+}
+
+export type AccountCreateOrConnectWithoutNetWorthSnapshotsInput = {
+  where: Prisma.AccountWhereUniqueInput
+  create: Prisma.XOR<Prisma.AccountCreateWithoutNetWorthSnapshotsInput, Prisma.AccountUncheckedCreateWithoutNetWorthSnapshotsInput>
+}
+
+export type AccountUpsertWithoutNetWorthSnapshotsInput = {
+  update: Prisma.XOR<Prisma.AccountUpdateWithoutNetWorthSnapshotsInput, Prisma.AccountUncheckedUpdateWithoutNetWorthSnapshotsInput>
+  create: Prisma.XOR<Prisma.AccountCreateWithoutNetWorthSnapshotsInput, Prisma.AccountUncheckedCreateWithoutNetWorthSnapshotsInput>
+  where?: Prisma.AccountWhereInput
+}
+
+export type AccountUpdateToOneWithWhereWithoutNetWorthSnapshotsInput = {
+  where?: Prisma.AccountWhereInput
+  data: Prisma.XOR<Prisma.AccountUpdateWithoutNetWorthSnapshotsInput, Prisma.AccountUncheckedUpdateWithoutNetWorthSnapshotsInput>
+}
+
+export type AccountUpdateWithoutNetWorthSnapshotsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAccountTypeEnumFieldUpdateOperationsInput | $Enums.AccountTypeEnum
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  isHidden?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutAccountsNestedInput
+  transactions?: Prisma.TransactionUpdateManyWithoutAccountNestedInput
+  transactionsFrom?: Prisma.TransactionUpdateManyWithoutFromAccountNestedInput
+  transactionsTo?: Prisma.TransactionUpdateManyWithoutToAccountNestedInput
+  assets?: Prisma.AccountAssetUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutAccountNestedInput
+}
+
+export type AccountUncheckedUpdateWithoutNetWorthSnapshotsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAccountTypeEnumFieldUpdateOperationsInput | $Enums.AccountTypeEnum
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  isHidden?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transactions?: Prisma.TransactionUncheckedUpdateManyWithoutAccountNestedInput
+  transactionsFrom?: Prisma.TransactionUncheckedUpdateManyWithoutFromAccountNestedInput
+  transactionsTo?: Prisma.TransactionUncheckedUpdateManyWithoutToAccountNestedInput
+  assets?: Prisma.AccountAssetUncheckedUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutAccountNestedInput
+}
+
+export type AccountCreateWithoutAlertConfigsInput = {
+  id?: string
+  name: string
+  type: $Enums.AccountTypeEnum
+  currency: string
+  isHidden?: boolean
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutAccountsInput
+  transactions?: Prisma.TransactionCreateNestedManyWithoutAccountInput
+  transactionsFrom?: Prisma.TransactionCreateNestedManyWithoutFromAccountInput
+  transactionsTo?: Prisma.TransactionCreateNestedManyWithoutToAccountInput
+  assets?: Prisma.AccountAssetCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutAccountInput
+}
+
+export type AccountUncheckedCreateWithoutAlertConfigsInput = {
+  id?: string
+  userId: string
+  name: string
+  type: $Enums.AccountTypeEnum
+  currency: string
+  isHidden?: boolean
+  createdAt?: Date | string
+  transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutAccountInput
+  transactionsFrom?: Prisma.TransactionUncheckedCreateNestedManyWithoutFromAccountInput
+  transactionsTo?: Prisma.TransactionUncheckedCreateNestedManyWithoutToAccountInput
+  assets?: Prisma.AccountAssetUncheckedCreateNestedManyWithoutAccountInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutAccountInput
+}
+
+export type AccountCreateOrConnectWithoutAlertConfigsInput = {
+  where: Prisma.AccountWhereUniqueInput
+  create: Prisma.XOR<Prisma.AccountCreateWithoutAlertConfigsInput, Prisma.AccountUncheckedCreateWithoutAlertConfigsInput>
+}
+
+export type AccountUpsertWithoutAlertConfigsInput = {
+  update: Prisma.XOR<Prisma.AccountUpdateWithoutAlertConfigsInput, Prisma.AccountUncheckedUpdateWithoutAlertConfigsInput>
+  create: Prisma.XOR<Prisma.AccountCreateWithoutAlertConfigsInput, Prisma.AccountUncheckedCreateWithoutAlertConfigsInput>
+  where?: Prisma.AccountWhereInput
+}
+
+export type AccountUpdateToOneWithWhereWithoutAlertConfigsInput = {
+  where?: Prisma.AccountWhereInput
+  data: Prisma.XOR<Prisma.AccountUpdateWithoutAlertConfigsInput, Prisma.AccountUncheckedUpdateWithoutAlertConfigsInput>
+}
+
+export type AccountUpdateWithoutAlertConfigsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAccountTypeEnumFieldUpdateOperationsInput | $Enums.AccountTypeEnum
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  isHidden?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutAccountsNestedInput
+  transactions?: Prisma.TransactionUpdateManyWithoutAccountNestedInput
+  transactionsFrom?: Prisma.TransactionUpdateManyWithoutFromAccountNestedInput
+  transactionsTo?: Prisma.TransactionUpdateManyWithoutToAccountNestedInput
+  assets?: Prisma.AccountAssetUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutAccountNestedInput
+}
+
+export type AccountUncheckedUpdateWithoutAlertConfigsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAccountTypeEnumFieldUpdateOperationsInput | $Enums.AccountTypeEnum
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  isHidden?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transactions?: Prisma.TransactionUncheckedUpdateManyWithoutAccountNestedInput
+  transactionsFrom?: Prisma.TransactionUncheckedUpdateManyWithoutFromAccountNestedInput
+  transactionsTo?: Prisma.TransactionUncheckedUpdateManyWithoutToAccountNestedInput
+  assets?: Prisma.AccountAssetUncheckedUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutAccountNestedInput
+}
+
+export type AccountCreateWithoutRecurringTransactionsInput = {
+  id?: string
+  name: string
+  type: $Enums.AccountTypeEnum
+  currency: string
+  isHidden?: boolean
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutAccountsInput
+  transactions?: Prisma.TransactionCreateNestedManyWithoutAccountInput
+  transactionsFrom?: Prisma.TransactionCreateNestedManyWithoutFromAccountInput
+  transactionsTo?: Prisma.TransactionCreateNestedManyWithoutToAccountInput
+  assets?: Prisma.AccountAssetCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutAccountInput
+}
+
+export type AccountUncheckedCreateWithoutRecurringTransactionsInput = {
+  id?: string
+  userId: string
+  name: string
+  type: $Enums.AccountTypeEnum
+  currency: string
+  isHidden?: boolean
+  createdAt?: Date | string
+  transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutAccountInput
+  transactionsFrom?: Prisma.TransactionUncheckedCreateNestedManyWithoutFromAccountInput
+  transactionsTo?: Prisma.TransactionUncheckedCreateNestedManyWithoutToAccountInput
+  assets?: Prisma.AccountAssetUncheckedCreateNestedManyWithoutAccountInput
+  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutAccountInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutAccountInput
+}
+
+export type AccountCreateOrConnectWithoutRecurringTransactionsInput = {
+  where: Prisma.AccountWhereUniqueInput
+  create: Prisma.XOR<Prisma.AccountCreateWithoutRecurringTransactionsInput, Prisma.AccountUncheckedCreateWithoutRecurringTransactionsInput>
+}
+
+export type AccountUpsertWithoutRecurringTransactionsInput = {
+  update: Prisma.XOR<Prisma.AccountUpdateWithoutRecurringTransactionsInput, Prisma.AccountUncheckedUpdateWithoutRecurringTransactionsInput>
+  create: Prisma.XOR<Prisma.AccountCreateWithoutRecurringTransactionsInput, Prisma.AccountUncheckedCreateWithoutRecurringTransactionsInput>
+  where?: Prisma.AccountWhereInput
+}
+
+export type AccountUpdateToOneWithWhereWithoutRecurringTransactionsInput = {
+  where?: Prisma.AccountWhereInput
+  data: Prisma.XOR<Prisma.AccountUpdateWithoutRecurringTransactionsInput, Prisma.AccountUncheckedUpdateWithoutRecurringTransactionsInput>
+}
+
+export type AccountUpdateWithoutRecurringTransactionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAccountTypeEnumFieldUpdateOperationsInput | $Enums.AccountTypeEnum
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  isHidden?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutAccountsNestedInput
+  transactions?: Prisma.TransactionUpdateManyWithoutAccountNestedInput
+  transactionsFrom?: Prisma.TransactionUpdateManyWithoutFromAccountNestedInput
+  transactionsTo?: Prisma.TransactionUpdateManyWithoutToAccountNestedInput
+  assets?: Prisma.AccountAssetUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutAccountNestedInput
+}
+
+export type AccountUncheckedUpdateWithoutRecurringTransactionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAccountTypeEnumFieldUpdateOperationsInput | $Enums.AccountTypeEnum
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  isHidden?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transactions?: Prisma.TransactionUncheckedUpdateManyWithoutAccountNestedInput
+  transactionsFrom?: Prisma.TransactionUncheckedUpdateManyWithoutFromAccountNestedInput
+  transactionsTo?: Prisma.TransactionUncheckedUpdateManyWithoutToAccountNestedInput
+  assets?: Prisma.AccountAssetUncheckedUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutAccountNestedInput
 }
 
 export type AccountCreateManyUserInput = {
@@ -862,6 +1221,9 @@ export type AccountUpdateWithoutUserInput = {
   transactionsFrom?: Prisma.TransactionUpdateManyWithoutFromAccountNestedInput
   transactionsTo?: Prisma.TransactionUpdateManyWithoutToAccountNestedInput
   assets?: Prisma.AccountAssetUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutAccountNestedInput
 }
 
 export type AccountUncheckedUpdateWithoutUserInput = {
@@ -875,6 +1237,9 @@ export type AccountUncheckedUpdateWithoutUserInput = {
   transactionsFrom?: Prisma.TransactionUncheckedUpdateManyWithoutFromAccountNestedInput
   transactionsTo?: Prisma.TransactionUncheckedUpdateManyWithoutToAccountNestedInput
   assets?: Prisma.AccountAssetUncheckedUpdateManyWithoutAccountNestedInput
+  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutAccountNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutAccountNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutAccountNestedInput
 }
 
 export type AccountUncheckedUpdateManyWithoutUserInput = {
@@ -896,6 +1261,9 @@ export type AccountCountOutputType = {
   transactionsFrom: number
   transactionsTo: number
   assets: number
+  alertConfigs: number
+  recurringTransactions: number
+  netWorthSnapshots: number
 }
 
 export type AccountCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -903,6 +1271,9 @@ export type AccountCountOutputTypeSelect<ExtArgs extends runtime.Types.Extension
   transactionsFrom?: boolean | AccountCountOutputTypeCountTransactionsFromArgs
   transactionsTo?: boolean | AccountCountOutputTypeCountTransactionsToArgs
   assets?: boolean | AccountCountOutputTypeCountAssetsArgs
+  alertConfigs?: boolean | AccountCountOutputTypeCountAlertConfigsArgs
+  recurringTransactions?: boolean | AccountCountOutputTypeCountRecurringTransactionsArgs
+  netWorthSnapshots?: boolean | AccountCountOutputTypeCountNetWorthSnapshotsArgs
 }
 
 /**
@@ -943,6 +1314,27 @@ export type AccountCountOutputTypeCountAssetsArgs<ExtArgs extends runtime.Types.
   where?: Prisma.AccountAssetWhereInput
 }
 
+/**
+ * AccountCountOutputType without action
+ */
+export type AccountCountOutputTypeCountAlertConfigsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AlertConfigWhereInput
+}
+
+/**
+ * AccountCountOutputType without action
+ */
+export type AccountCountOutputTypeCountRecurringTransactionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RecurringTransactionWhereInput
+}
+
+/**
+ * AccountCountOutputType without action
+ */
+export type AccountCountOutputTypeCountNetWorthSnapshotsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NetWorthSnapshotWhereInput
+}
+
 
 export type AccountSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -957,6 +1349,9 @@ export type AccountSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   transactionsFrom?: boolean | Prisma.Account$transactionsFromArgs<ExtArgs>
   transactionsTo?: boolean | Prisma.Account$transactionsToArgs<ExtArgs>
   assets?: boolean | Prisma.Account$assetsArgs<ExtArgs>
+  alertConfigs?: boolean | Prisma.Account$alertConfigsArgs<ExtArgs>
+  recurringTransactions?: boolean | Prisma.Account$recurringTransactionsArgs<ExtArgs>
+  netWorthSnapshots?: boolean | Prisma.Account$netWorthSnapshotsArgs<ExtArgs>
   _count?: boolean | Prisma.AccountCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["account"]>
 
@@ -999,6 +1394,9 @@ export type AccountInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs
   transactionsFrom?: boolean | Prisma.Account$transactionsFromArgs<ExtArgs>
   transactionsTo?: boolean | Prisma.Account$transactionsToArgs<ExtArgs>
   assets?: boolean | Prisma.Account$assetsArgs<ExtArgs>
+  alertConfigs?: boolean | Prisma.Account$alertConfigsArgs<ExtArgs>
+  recurringTransactions?: boolean | Prisma.Account$recurringTransactionsArgs<ExtArgs>
+  netWorthSnapshots?: boolean | Prisma.Account$netWorthSnapshotsArgs<ExtArgs>
   _count?: boolean | Prisma.AccountCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type AccountIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1016,6 +1414,9 @@ export type $AccountPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     transactionsFrom: Prisma.$TransactionPayload<ExtArgs>[]
     transactionsTo: Prisma.$TransactionPayload<ExtArgs>[]
     assets: Prisma.$AccountAssetPayload<ExtArgs>[]
+    alertConfigs: Prisma.$AlertConfigPayload<ExtArgs>[]
+    recurringTransactions: Prisma.$RecurringTransactionPayload<ExtArgs>[]
+    netWorthSnapshots: Prisma.$NetWorthSnapshotPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1424,6 +1825,9 @@ export interface Prisma__AccountClient<T, Null = never, ExtArgs extends runtime.
   transactionsFrom<T extends Prisma.Account$transactionsFromArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Account$transactionsFromArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TransactionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   transactionsTo<T extends Prisma.Account$transactionsToArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Account$transactionsToArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TransactionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   assets<T extends Prisma.Account$assetsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Account$assetsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AccountAssetPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  alertConfigs<T extends Prisma.Account$alertConfigsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Account$alertConfigsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AlertConfigPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  recurringTransactions<T extends Prisma.Account$recurringTransactionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Account$recurringTransactionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecurringTransactionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  netWorthSnapshots<T extends Prisma.Account$netWorthSnapshotsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Account$netWorthSnapshotsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NetWorthSnapshotPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1951,6 +2355,78 @@ export type Account$assetsArgs<ExtArgs extends runtime.Types.Extensions.Internal
   distinct?: Prisma.AccountAssetScalarFieldEnum | Prisma.AccountAssetScalarFieldEnum[]
 }
 
+/**
+ * Account.alertConfigs
+ */
+export type Account$alertConfigsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AlertConfig
+   */
+  select?: Prisma.AlertConfigSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AlertConfig
+   */
+  omit?: Prisma.AlertConfigOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AlertConfigInclude<ExtArgs> | null
+  where?: Prisma.AlertConfigWhereInput
+  orderBy?: Prisma.AlertConfigOrderByWithRelationInput | Prisma.AlertConfigOrderByWithRelationInput[]
+  cursor?: Prisma.AlertConfigWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AlertConfigScalarFieldEnum | Prisma.AlertConfigScalarFieldEnum[]
+}
+
+/**
+ * Account.recurringTransactions
+ */
+export type Account$recurringTransactionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecurringTransaction
+   */
+  select?: Prisma.RecurringTransactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecurringTransaction
+   */
+  omit?: Prisma.RecurringTransactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringTransactionInclude<ExtArgs> | null
+  where?: Prisma.RecurringTransactionWhereInput
+  orderBy?: Prisma.RecurringTransactionOrderByWithRelationInput | Prisma.RecurringTransactionOrderByWithRelationInput[]
+  cursor?: Prisma.RecurringTransactionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RecurringTransactionScalarFieldEnum | Prisma.RecurringTransactionScalarFieldEnum[]
+}
+
+/**
+ * Account.netWorthSnapshots
+ */
+export type Account$netWorthSnapshotsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NetWorthSnapshot
+   */
+  select?: Prisma.NetWorthSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NetWorthSnapshot
+   */
+  omit?: Prisma.NetWorthSnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NetWorthSnapshotInclude<ExtArgs> | null
+  where?: Prisma.NetWorthSnapshotWhereInput
+  orderBy?: Prisma.NetWorthSnapshotOrderByWithRelationInput | Prisma.NetWorthSnapshotOrderByWithRelationInput[]
+  cursor?: Prisma.NetWorthSnapshotWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NetWorthSnapshotScalarFieldEnum | Prisma.NetWorthSnapshotScalarFieldEnum[]
+}
+
 /**
  * Account without action
  */
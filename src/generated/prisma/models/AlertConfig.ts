@@ -43,6 +43,9 @@ export type AlertConfigMinAggregateOutputType = {
   threshold: number | null
   thresholdDecimal: runtime.Decimal | null
   categoryId: string | null
+  period: $Enums.AlertPeriodEnum | null
+  accountId: string | null
+  currency: string | null
   enabled: boolean | null
   createdAt: Date | null
 }
@@ -54,6 +57,9 @@ export type AlertConfigMaxAggregateOutputType = {
   threshold: number | null
   thresholdDecimal: runtime.Decimal | null
   categoryId: string | null
+  period: $Enums.AlertPeriodEnum | null
+  accountId: string | null
+  currency: string | null
   enabled: boolean | null
   createdAt: Date | null
 }
@@ -65,6 +71,9 @@ export type AlertConfigCountAggregateOutputType = {
   threshold: number
   thresholdDecimal: number
   categoryId: number
+  period: number
+  accountId: number
+  currency: number
   enabled: number
   createdAt: number
   _all: number
@@ -88,6 +97,9 @@ export type AlertConfigMinAggregateInputType = {
   threshold?: true
   thresholdDecimal?: true
   categoryId?: true
+  period?: true
+  accountId?: true
+  currency?: true
   enabled?: true
   createdAt?: true
 }
@@ -99,6 +111,9 @@ export type AlertConfigMaxAggregateInputType = {
   threshold?: true
   thresholdDecimal?: true
   categoryId?: true
+  period?: true
+  accountId?: true
+  currency?: true
   enabled?: true
   createdAt?: true
 }
@@ -110,6 +125,9 @@ export type AlertConfigCountAggregateInputType = {
   threshold?: true
   thresholdDecimal?: true
   categoryId?: true
+  period?: true
+  accountId?: true
+  currency?: true
   enabled?: true
   createdAt?: true
   _all?: true
@@ -208,6 +226,9 @@ export type AlertConfigGroupByOutputType = {
   threshold: number
   thresholdDecimal: runtime.Decimal | null
   categoryId: string | null
+  period: $Enums.AlertPeriodEnum
+  accountId: string | null
+  currency: string | null
   enabled: boolean
   createdAt: Date
   _count: AlertConfigCountAggregateOutputType | null
@@ -242,9 +263,14 @@ export type AlertConfigWhereInput = {
   threshold?: Prisma.FloatFilter<"AlertConfig"> | number
   thresholdDecimal?: Prisma.DecimalNullableFilter<"AlertConfig"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: Prisma.StringNullableFilter<"AlertConfig"> | string | null
+  period?: Prisma.EnumAlertPeriodEnumFilter<"AlertConfig"> | $Enums.AlertPeriodEnum
+  accountId?: Prisma.StringNullableFilter<"AlertConfig"> | string | null
+  currency?: Prisma.StringNullableFilter<"AlertConfig"> | string | null
   enabled?: Prisma.BoolFilter<"AlertConfig"> | boolean
   createdAt?: Prisma.DateTimeFilter<"AlertConfig"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  account?: Prisma.XOR<Prisma.AccountNullableScalarRelationFilter, Prisma.AccountWhereInput> | null
+  events?: Prisma.AlertEventListRelationFilter
 }
 
 export type AlertConfigOrderByWithRelationInput = {
@@ -254,9 +280,14 @@ export type AlertConfigOrderByWithRelationInput = {
   threshold?: Prisma.SortOrder
   thresholdDecimal?: Prisma.SortOrderInput | Prisma.SortOrder
   categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  period?: Prisma.SortOrder
+  accountId?: Prisma.SortOrderInput | Prisma.SortOrder
+  currency?: Prisma.SortOrderInput | Prisma.SortOrder
   enabled?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   user?: Prisma.UserOrderByWithRelationInput
+  account?: Prisma.AccountOrderByWithRelationInput
+  events?: Prisma.AlertEventOrderByRelationAggregateInput
 }
 
 export type AlertConfigWhereUniqueInput = Prisma.AtLeast<{
@@ -269,9 +300,14 @@ export type AlertConfigWhereUniqueInput = Prisma.AtLeast<{
   threshold?: Prisma.FloatFilter<"AlertConfig"> | number
   thresholdDecimal?: Prisma.DecimalNullableFilter<"AlertConfig"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: Prisma.StringNullableFilter<"AlertConfig"> | string | null
+  period?: Prisma.EnumAlertPeriodEnumFilter<"AlertConfig"> | $Enums.AlertPeriodEnum
+  accountId?: Prisma.StringNullableFilter<"AlertConfig"> | string | null
+  currency?: Prisma.StringNullableFilter<"AlertConfig"> | string | null
   enabled?: Prisma.BoolFilter<"AlertConfig"> | boolean
   createdAt?: Prisma.DateTimeFilter<"AlertConfig"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  account?: Prisma.XOR<Prisma.AccountNullableScalarRelationFilter, Prisma.AccountWhereInput> | null
+  events?: Prisma.AlertEventListRelationFilter
 }, "id">
 
 export type AlertConfigOrderByWithAggregationInput = {
@@ -281,6 +317,9 @@ export type AlertConfigOrderByWithAggregationInput = {
   threshold?: Prisma.SortOrder
   thresholdDecimal?: Prisma.SortOrderInput | Prisma.SortOrder
   categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  period?: Prisma.SortOrder
+  accountId?: Prisma.SortOrderInput | Prisma.SortOrder
+  currency?: Prisma.SortOrderInput | Prisma.SortOrder
   enabled?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   _count?: Prisma.AlertConfigCountOrderByAggregateInput
@@ -300,6 +339,9 @@ export type AlertConfigScalarWhereWithAggregatesInput = {
   threshold?: Prisma.FloatWithAggregatesFilter<"AlertConfig"> | number
   thresholdDecimal?: Prisma.DecimalNullableWithAggregatesFilter<"AlertConfig"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: Prisma.StringNullableWithAggregatesFilter<"AlertConfig"> | string | null
+  period?: Prisma.EnumAlertPeriodEnumWithAggregatesFilter<"AlertConfig"> | $Enums.AlertPeriodEnum
+  accountId?: Prisma.StringNullableWithAggregatesFilter<"AlertConfig"> | string | null
+  currency?: Prisma.StringNullableWithAggregatesFilter<"AlertConfig"> | string | null
   enabled?: Prisma.BoolWithAggregatesFilter<"AlertConfig"> | boolean
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"AlertConfig"> | Date | string
 }
@@ -310,9 +352,13 @@ export type AlertConfigCreateInput = {
   threshold: number
   thresholdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: string | null
+  period?: $Enums.AlertPeriodEnum
+  currency?: string | null
   enabled?: boolean
   createdAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutAlertConfigsInput
+  account?: Prisma.AccountCreateNestedOneWithoutAlertConfigsInput
+  events?: Prisma.AlertEventCreateNestedManyWithoutAlertConfigInput
 }
 
 export type AlertConfigUncheckedCreateInput = {
@@ -322,8 +368,12 @@ export type AlertConfigUncheckedCreateInput = {
   threshold: number
   thresholdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: string | null
+  period?: $Enums.AlertPeriodEnum
+  accountId?: string | null
+  currency?: string | null
   enabled?: boolean
   createdAt?: Date | string
+  events?: Prisma.AlertEventUncheckedCreateNestedManyWithoutAlertConfigInput
 }
 
 export type AlertConfigUpdateInput = {
@@ -332,9 +382,13 @@ export type AlertConfigUpdateInput = {
   threshold?: Prisma.FloatFieldUpdateOperationsInput | number
   thresholdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  period?: Prisma.EnumAlertPeriodEnumFieldUpdateOperationsInput | $Enums.AlertPeriodEnum
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutAlertConfigsNestedInput
+  account?: Prisma.AccountUpdateOneWithoutAlertConfigsNestedInput
+  events?: Prisma.AlertEventUpdateManyWithoutAlertConfigNestedInput
 }
 
 export type AlertConfigUncheckedUpdateInput = {
@@ -344,8 +398,12 @@ export type AlertConfigUncheckedUpdateInput = {
   threshold?: Prisma.FloatFieldUpdateOperationsInput | number
   thresholdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  period?: Prisma.EnumAlertPeriodEnumFieldUpdateOperationsInput | $Enums.AlertPeriodEnum
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  events?: Prisma.AlertEventUncheckedUpdateManyWithoutAlertConfigNestedInput
 }
 
 export type AlertConfigCreateManyInput = {
@@ -355,6 +413,9 @@ export type AlertConfigCreateManyInput = {
   threshold: number
   thresholdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: string | null
+  period?: $Enums.AlertPeriodEnum
+  accountId?: string | null
+  currency?: string | null
   enabled?: boolean
   createdAt?: Date | string
 }
@@ -365,6 +426,8 @@ export type AlertConfigUpdateManyMutationInput = {
   threshold?: Prisma.FloatFieldUpdateOperationsInput | number
   thresholdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  period?: Prisma.EnumAlertPeriodEnumFieldUpdateOperationsInput | $Enums.AlertPeriodEnum
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -376,6 +439,9 @@ export type AlertConfigUncheckedUpdateManyInput = {
   threshold?: Prisma.FloatFieldUpdateOperationsInput | number
   thresholdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  period?: Prisma.EnumAlertPeriodEnumFieldUpdateOperationsInput | $Enums.AlertPeriodEnum
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -397,6 +463,9 @@ export type AlertConfigCountOrderByAggregateInput = {
   threshold?: Prisma.SortOrder
   thresholdDecimal?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
+  period?: Prisma.SortOrder
+  accountId?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
   enabled?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
@@ -413,6 +482,9 @@ export type AlertConfigMaxOrderByAggregateInput = {
   threshold?: Prisma.SortOrder
   thresholdDecimal?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
+  period?: Prisma.SortOrder
+  accountId?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
   enabled?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
@@ -424,6 +496,9 @@ export type AlertConfigMinOrderByAggregateInput = {
   threshold?: Prisma.SortOrder
   thresholdDecimal?: Prisma.SortOrder
   categoryId?: Prisma.SortOrder
+  period?: Prisma.SortOrder
+  accountId?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
   enabled?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
@@ -433,6 +508,11 @@ export type AlertConfigSumOrderByAggregateInput = {
   thresholdDecimal?: Prisma.SortOrder
 }
 
+export type AlertConfigScalarRelationFilter = {
+  is?: Prisma.AlertConfigWhereInput
+  isNot?: Prisma.AlertConfigWhereInput
+}
+
 export type AlertConfigCreateNestedManyWithoutUserInput = {
   create?: Prisma.XOR<Prisma.AlertConfigCreateWithoutUserInput, Prisma.AlertConfigUncheckedCreateWithoutUserInput> | Prisma.AlertConfigCreateWithoutUserInput[] | Prisma.AlertConfigUncheckedCreateWithoutUserInput[]
   connectOrCreate?: Prisma.AlertConfigCreateOrConnectWithoutUserInput | Prisma.AlertConfigCreateOrConnectWithoutUserInput[]
@@ -475,18 +555,82 @@ export type AlertConfigUncheckedUpdateManyWithoutUserNestedInput = {
   deleteMany?: Prisma.AlertConfigScalarWhereInput | Prisma.AlertConfigScalarWhereInput[]
 }
 
+export type AlertConfigCreateNestedManyWithoutAccountInput = {
+  create?: Prisma.XOR<Prisma.AlertConfigCreateWithoutAccountInput, Prisma.AlertConfigUncheckedCreateWithoutAccountInput> | Prisma.AlertConfigCreateWithoutAccountInput[] | Prisma.AlertConfigUncheckedCreateWithoutAccountInput[]
+  connectOrCreate?: Prisma.AlertConfigCreateOrConnectWithoutAccountInput | Prisma.AlertConfigCreateOrConnectWithoutAccountInput[]
+  createMany?: Prisma.AlertConfigCreateManyAccountInputEnvelope
+  connect?: Prisma.AlertConfigWhereUniqueInput | Prisma.AlertConfigWhereUniqueInput[]
+}
+
+export type AlertConfigUncheckedCreateNestedManyWithoutAccountInput = {
+  create?: Prisma.XOR<Prisma.AlertConfigCreateWithoutAccountInput, Prisma.AlertConfigUncheckedCreateWithoutAccountInput> | Prisma.AlertConfigCreateWithoutAccountInput[] | Prisma.AlertConfigUncheckedCreateWithoutAccountInput[]
+  connectOrCreate?: Prisma.AlertConfigCreateOrConnectWithoutAccountInput | Prisma.AlertConfigCreateOrConnectWithoutAccountInput[]
+  createMany?: Prisma.AlertConfigCreateManyAccountInputEnvelope
+  connect?: Prisma.AlertConfigWhereUniqueInput | Prisma.AlertConfigWhereUniqueInput[]
+}
+
+export type AlertConfigUpdateManyWithoutAccountNestedInput = {
+  create?: Prisma.XOR<Prisma.AlertConfigCreateWithoutAccountInput, Prisma.AlertConfigUncheckedCreateWithoutAccountInput> | Prisma.AlertConfigCreateWithoutAccountInput[] | Prisma.AlertConfigUncheckedCreateWithoutAccountInput[]
+  connectOrCreate?: Prisma.AlertConfigCreateOrConnectWithoutAccountInput | Prisma.AlertConfigCreateOrConnectWithoutAccountInput[]
+  upsert?: Prisma.AlertConfigUpsertWithWhereUniqueWithoutAccountInput | Prisma.AlertConfigUpsertWithWhereUniqueWithoutAccountInput[]
+  createMany?: Prisma.AlertConfigCreateManyAccountInputEnvelope
+  set?: Prisma.AlertConfigWhereUniqueInput | Prisma.AlertConfigWhereUniqueInput[]
+  disconnect?: Prisma.AlertConfigWhereUniqueInput | Prisma.AlertConfigWhereUniqueInput[]
+  delete?: Prisma.AlertConfigWhereUniqueInput | Prisma.AlertConfigWhereUniqueInput[]
+  connect?: Prisma.AlertConfigWhereUniqueInput | Prisma.AlertConfigWhereUniqueInput[]
+  update?: Prisma.AlertConfigUpdateWithWhereUniqueWithoutAccountInput | Prisma.AlertConfigUpdateWithWhereUniqueWithoutAccountInput[]
+  updateMany?: Prisma.AlertConfigUpdateManyWithWhereWithoutAccountInput | Prisma.AlertConfigUpdateManyWithWhereWithoutAccountInput[]
+  deleteMany?: Prisma.AlertConfigScalarWhereInput | Prisma.AlertConfigScalarWhereInput[]
+}
+
+export type AlertConfigUncheckedUpdateManyWithoutAccountNestedInput = {
+  create?: Prisma.XOR<Prisma.AlertConfigCreateWithoutAccountInput, Prisma.AlertConfigUncheckedCreateWithoutAccountInput> | Prisma.AlertConfigCreateWithoutAccountInput[] | Prisma.AlertConfigUncheckedCreateWithoutAccountInput[]
+  connectOrCreate?: Prisma.AlertConfigCreateOrConnectWithoutAccountInput | Prisma.AlertConfigCreateOrConnectWithoutAccountInput[]
+  upsert?: Prisma.AlertConfigUpsertWithWhereUniqueWithoutAccountInput | Prisma.AlertConfigUpsertWithWhereUniqueWithoutAccountInput[]
+  createMany?: Prisma.AlertConfigCreateManyAccountInputEnvelope
+  set?: Prisma.AlertConfigWhereUniqueInput | Prisma.AlertConfigWhereUniqueInput[]
+  disconnect?: Prisma.AlertConfigWhereUniqueInput | Prisma.AlertConfigWhereUniqueInput[]
+  delete?: Prisma.AlertConfigWhereUniqueInput | Prisma.AlertConfigWhereUniqueInput[]
+  connect?: Prisma.AlertConfigWhereUniqueInput | Prisma.AlertConfigWhereUniqueInput[]
+  update?: Prisma.AlertConfigUpdateWithWhereUniqueWithoutAccountInput | Prisma.AlertConfigUpdateWithWhereUniqueWithoutAccountInput[]
+  updateMany?: Prisma.AlertConfigUpdateManyWithWhereWithoutAccountInput | Prisma.AlertConfigUpdateManyWithWhereWithoutAccountInput[]
+  deleteMany?: Prisma.AlertConfigScalarWhereInput | Prisma.AlertConfigScalarWhereInput[]
+}
+
 export type EnumAlertTypeEnumFieldUpdateOperationsInput = {
   set?: $Enums.AlertTypeEnum
 }
 
+export type EnumAlertPeriodEnumFieldUpdateOperationsInput = {
+  set?: $Enums.AlertPeriodEnum
+}
+
+export type AlertConfigCreateNestedOneWithoutEventsInput = {
+  create?: Prisma.XOR<Prisma.AlertConfigCreateWithoutEventsInput, Prisma.AlertConfigUncheckedCreateWithoutEventsInput>
+  connectOrCreate?: Prisma.AlertConfigCreateOrConnectWithoutEventsInput
+  connect?: Prisma.AlertConfigWhereUniqueInput
+}
+
+export type AlertConfigUpdateOneRequiredWithoutEventsNestedInput = {
+  create?: Prisma.XOR<Prisma.AlertConfigCreateWithoutEventsInput, Prisma.AlertConfigUncheckedCreateWithoutEventsInput>
+  connectOrCreate?: Prisma.AlertConfigCreateOrConnectWithoutEventsInput
+  upsert?: Prisma.AlertConfigUpsertWithoutEventsInput
+  connect?: Prisma.AlertConfigWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AlertConfigUpdateToOneWithWhereWithoutEventsInput, Prisma.AlertConfigUpdateWithoutEventsInput>, Prisma.AlertConfigUncheckedUpdateWithoutEventsInput>
+}
+
 export type AlertConfigCreateWithoutUserInput = {
   id?: string
   type: $Enums.AlertTypeEnum
   threshold: number
   thresholdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: string | null
+  period?: $Enums.AlertPeriodEnum
+  currency?: string | null
   enabled?: boolean
   createdAt?: Date | string
+  account?: Prisma.AccountCreateNestedOneWithoutAlertConfigsInput
+  events?: Prisma.AlertEventCreateNestedManyWithoutAlertConfigInput
 }
 
 export type AlertConfigUncheckedCreateWithoutUserInput = {
@@ -495,8 +639,12 @@ export type AlertConfigUncheckedCreateWithoutUserInput = {
   threshold: number
   thresholdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: string | null
+  period?: $Enums.AlertPeriodEnum
+  accountId?: string | null
+  currency?: string | null
   enabled?: boolean
   createdAt?: Date | string
+  events?: Prisma.AlertEventUncheckedCreateNestedManyWithoutAlertConfigInput
 }
 
 export type AlertConfigCreateOrConnectWithoutUserInput = {
@@ -535,16 +683,148 @@ export type AlertConfigScalarWhereInput = {
   threshold?: Prisma.FloatFilter<"AlertConfig"> | number
   thresholdDecimal?: Prisma.DecimalNullableFilter<"AlertConfig"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: Prisma.StringNullableFilter<"AlertConfig"> | string | null
+  period?: Prisma.EnumAlertPeriodEnumFilter<"AlertConfig"> | $Enums.AlertPeriodEnum
+  accountId?: Prisma.StringNullableFilter<"AlertConfig"> | string | null
+  currency?: Prisma.StringNullableFilter<"AlertConfig"> | string | null
   enabled?: Prisma.BoolFilter<"AlertConfig"> | boolean
   createdAt?: Prisma.DateTimeFilter<"AlertConfig"> | Date | string
 }
 
+export type AlertConfigCreateWithoutAccountInput = {
+  id?: string
+  type: $Enums.AlertTypeEnum
+  threshold: number
+  thresholdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: string | null
+  period?: $Enums.AlertPeriodEnum
+  currency?: string | null
+  enabled?: boolean
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutAlertConfigsInput
+  events?: Prisma.AlertEventCreateNestedManyWithoutAlertConfigInput
+}
+
+export type AlertConfigUncheckedCreateWithoutAccountInput = {
+  id?: string
+  userId: string
+  type: $Enums.AlertTypeEnum
+  threshold: number
+  thresholdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: string | null
+  period?: $Enums.AlertPeriodEnum
+  currency?: string | null
+  enabled?: boolean
+  createdAt?: Date | string
+  events?: Prisma.AlertEventUncheckedCreateNestedManyWithoutAlertConfigInput
+}
+
+export type AlertConfigCreateOrConnectWithoutAccountInput = {
+  where: Prisma.AlertConfigWhereUniqueInput
+  create: Prisma.XOR<Prisma.AlertConfigCreateWithoutAccountInput, Prisma.AlertConfigUncheckedCreateWithoutAccountInput>
+}
+
+export type AlertConfigCreateManyAccountInputEnvelope = {
+  data: Prisma.AlertConfigCreateManyAccountInput | Prisma.AlertConfigCreateManyAccountInput[]
+  skipDuplicates?: boolean
+}
+
+export type AlertConfigUpsertWithWhereUniqueWithoutAccountInput = {
+  where: Prisma.AlertConfigWhereUniqueInput
+  update: Prisma.XOR<Prisma.AlertConfigUpdateWithoutAccountInput, Prisma.AlertConfigUncheckedUpdateWithoutAccountInput>
+  create: Prisma.XOR<Prisma.AlertConfigCreateWithoutAccountInput, Prisma.AlertConfigUncheckedCreateWithoutAccountInput>
+}
+
+export type AlertConfigUpdateWithWhereUniqueWithoutAccountInput = {
+  where: Prisma.AlertConfigWhereUniqueInput
+  data: Prisma.XOR<Prisma.AlertConfigUpdateWithoutAccountInput, Prisma.AlertConfigUncheckedUpdateWithoutAccountInput>
+}
+
+export type AlertConfigUpdateManyWithWhereWithoutAccountInput = {
+  where: Prisma.AlertConfigScalarWhereInput
+  data: Prisma.XOR<Prisma.AlertConfigUpdateManyMutationInput, Prisma.AlertConfigUncheckedUpdateManyWithoutAccountInput>
+}
+
+export type AlertConfigCreateWithoutEventsInput = {
+  id?: string
+  type: $Enums.AlertTypeEnum
+  threshold: number
+  thresholdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: string | null
+  period?: $Enums.AlertPeriodEnum
+  currency?: string | null
+  enabled?: boolean
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutAlertConfigsInput
+  account?: Prisma.AccountCreateNestedOneWithoutAlertConfigsInput
+}
+
+export type AlertConfigUncheckedCreateWithoutEventsInput = {
+  id?: string
+  userId: string
+  type: $Enums.AlertTypeEnum
+  threshold: number
+  thresholdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: string | null
+  period?: $Enums.AlertPeriodEnum
+  accountId?: string | null
+  currency?: string | null
+  enabled?: boolean
+  createdAt?: Date | string
+}
+
+export type AlertConfigCreateOrConnectWithoutEventsInput = {
+  where: Prisma.AlertConfigWhereUniqueInput
+  create: Prisma.XOR<Prisma.AlertConfigCreateWithoutEventsInput, Prisma.AlertConfigUncheckedCreateWithoutEventsInput>
+}
+
+export type AlertConfigUpsertWithoutEventsInput = {
+  update: Prisma.XOR<Prisma.AlertConfigUpdateWithoutEventsInput, Prisma.AlertConfigUncheckedUpdateWithoutEventsInput>
+  create: Prisma.XOR<Prisma.AlertConfigCreateWithoutEventsInput, Prisma.AlertConfigUncheckedCreateWithoutEventsInput>
+  where?: Prisma.AlertConfigWhereInput
+}
+
+export type AlertConfigUpdateToOneWithWhereWithoutEventsInput = {
+  where?: Prisma.AlertConfigWhereInput
+  data: Prisma.XOR<Prisma.AlertConfigUpdateWithoutEventsInput, Prisma.AlertConfigUncheckedUpdateWithoutEventsInput>
+}
+
+export type AlertConfigUpdateWithoutEventsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAlertTypeEnumFieldUpdateOperationsInput | $Enums.AlertTypeEnum
+  threshold?: Prisma.FloatFieldUpdateOperationsInput | number
+  thresholdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  period?: Prisma.EnumAlertPeriodEnumFieldUpdateOperationsInput | $Enums.AlertPeriodEnum
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutAlertConfigsNestedInput
+  account?: Prisma.AccountUpdateOneWithoutAlertConfigsNestedInput
+}
+
+export type AlertConfigUncheckedUpdateWithoutEventsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAlertTypeEnumFieldUpdateOperationsInput | $Enums.AlertTypeEnum
+  threshold?: Prisma.FloatFieldUpdateOperationsInput | number
+  thresholdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  period?: Prisma.EnumAlertPeriodEnumFieldUpdateOperationsInput | $Enums.AlertPeriodEnum
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
 export type AlertConfigCreateManyUserInput = {
   id?: string
   type: $Enums.AlertTypeEnum
   threshold: number
   thresholdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: string | null
+  period?: $Enums.AlertPeriodEnum
+  accountId?: string | null
+  currency?: string | null
   enabled?: boolean
   createdAt?: Date | string
 }
@@ -555,8 +835,12 @@ export type AlertConfigUpdateWithoutUserInput = {
   threshold?: Prisma.FloatFieldUpdateOperationsInput | number
   thresholdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  period?: Prisma.EnumAlertPeriodEnumFieldUpdateOperationsInput | $Enums.AlertPeriodEnum
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  account?: Prisma.AccountUpdateOneWithoutAlertConfigsNestedInput
+  events?: Prisma.AlertEventUpdateManyWithoutAlertConfigNestedInput
 }
 
 export type AlertConfigUncheckedUpdateWithoutUserInput = {
@@ -565,8 +849,12 @@ export type AlertConfigUncheckedUpdateWithoutUserInput = {
   threshold?: Prisma.FloatFieldUpdateOperationsInput | number
   thresholdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  period?: Prisma.EnumAlertPeriodEnumFieldUpdateOperationsInput | $Enums.AlertPeriodEnum
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  events?: Prisma.AlertEventUncheckedUpdateManyWithoutAlertConfigNestedInput
 }
 
 export type AlertConfigUncheckedUpdateManyWithoutUserInput = {
@@ -575,11 +863,97 @@ export type AlertConfigUncheckedUpdateManyWithoutUserInput = {
   threshold?: Prisma.FloatFieldUpdateOperationsInput | number
   thresholdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  period?: Prisma.EnumAlertPeriodEnumFieldUpdateOperationsInput | $Enums.AlertPeriodEnum
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AlertConfigCreateManyAccountInput = {
+  id?: string
+  userId: string
+  type: $Enums.AlertTypeEnum
+  threshold: number
+  thresholdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: string | null
+  period?: $Enums.AlertPeriodEnum
+  currency?: string | null
+  enabled?: boolean
+  createdAt?: Date | string
+}
+
+export type AlertConfigUpdateWithoutAccountInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAlertTypeEnumFieldUpdateOperationsInput | $Enums.AlertTypeEnum
+  threshold?: Prisma.FloatFieldUpdateOperationsInput | number
+  thresholdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  period?: Prisma.EnumAlertPeriodEnumFieldUpdateOperationsInput | $Enums.AlertPeriodEnum
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutAlertConfigsNestedInput
+  events?: Prisma.AlertEventUpdateManyWithoutAlertConfigNestedInput
+}
+
+export type AlertConfigUncheckedUpdateWithoutAccountInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAlertTypeEnumFieldUpdateOperationsInput | $Enums.AlertTypeEnum
+  threshold?: Prisma.FloatFieldUpdateOperationsInput | number
+  thresholdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  period?: Prisma.EnumAlertPeriodEnumFieldUpdateOperationsInput | $Enums.AlertPeriodEnum
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  events?: Prisma.AlertEventUncheckedUpdateManyWithoutAlertConfigNestedInput
+}
+
+export type AlertConfigUncheckedUpdateManyWithoutAccountInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAlertTypeEnumFieldUpdateOperationsInput | $Enums.AlertTypeEnum
+  threshold?: Prisma.FloatFieldUpdateOperationsInput | number
+  thresholdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  period?: Prisma.EnumAlertPeriodEnumFieldUpdateOperationsInput | $Enums.AlertPeriodEnum
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
+/**
+ * Count Type AlertConfigCountOutputType
+ */
+
+export type AlertConfigCountOutputType = {
+  events: number
+}
+
+export type AlertConfigCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  events?: boolean | AlertConfigCountOutputTypeCountEventsArgs
+}
+
+/**
+ * AlertConfigCountOutputType without action
+ */
+export type AlertConfigCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AlertConfigCountOutputType
+   */
+  select?: Prisma.AlertConfigCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * AlertConfigCountOutputType without action
+ */
+export type AlertConfigCountOutputTypeCountEventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AlertEventWhereInput
+}
+
 
 export type AlertConfigSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -588,9 +962,15 @@ export type AlertConfigSelect<ExtArgs extends runtime.Types.Extensions.InternalA
   threshold?: boolean
   thresholdDecimal?: boolean
   categoryId?: boolean
+  period?: boolean
+  accountId?: boolean
+  currency?: boolean
   enabled?: boolean
   createdAt?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  account?: boolean | Prisma.AlertConfig$accountArgs<ExtArgs>
+  events?: boolean | Prisma.AlertConfig$eventsArgs<ExtArgs>
+  _count?: boolean | Prisma.AlertConfigCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["alertConfig"]>
 
 export type AlertConfigSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -600,9 +980,13 @@ export type AlertConfigSelectCreateManyAndReturn<ExtArgs extends runtime.Types.E
   threshold?: boolean
   thresholdDecimal?: boolean
   categoryId?: boolean
+  period?: boolean
+  accountId?: boolean
+  currency?: boolean
   enabled?: boolean
   createdAt?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  account?: boolean | Prisma.AlertConfig$accountArgs<ExtArgs>
 }, ExtArgs["result"]["alertConfig"]>
 
 export type AlertConfigSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -612,9 +996,13 @@ export type AlertConfigSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.E
   threshold?: boolean
   thresholdDecimal?: boolean
   categoryId?: boolean
+  period?: boolean
+  accountId?: boolean
+  currency?: boolean
   enabled?: boolean
   createdAt?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  account?: boolean | Prisma.AlertConfig$accountArgs<ExtArgs>
 }, ExtArgs["result"]["alertConfig"]>
 
 export type AlertConfigSelectScalar = {
@@ -624,25 +1012,35 @@ export type AlertConfigSelectScalar = {
   threshold?: boolean
   thresholdDecimal?: boolean
   categoryId?: boolean
+  period?: boolean
+  accountId?: boolean
+  currency?: boolean
   enabled?: boolean
   createdAt?: boolean
 }
 
-export type AlertConfigOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "type" | "threshold" | "thresholdDecimal" | "categoryId" | "enabled" | "createdAt", ExtArgs["result"]["alertConfig"]>
+export type AlertConfigOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "type" | "threshold" | "thresholdDecimal" | "categoryId" | "period" | "accountId" | "currency" | "enabled" | "createdAt", ExtArgs["result"]["alertConfig"]>
 export type AlertConfigInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  account?: boolean | Prisma.AlertConfig$accountArgs<ExtArgs>
+  events?: boolean | Prisma.AlertConfig$eventsArgs<ExtArgs>
+  _count?: boolean | Prisma.AlertConfigCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type AlertConfigIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  account?: boolean | Prisma.AlertConfig$accountArgs<ExtArgs>
 }
 export type AlertConfigIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  account?: boolean | Prisma.AlertConfig$accountArgs<ExtArgs>
 }
 
 export type $AlertConfigPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "AlertConfig"
   objects: {
     user: Prisma.$UserPayload<ExtArgs>
+    account: Prisma.$AccountPayload<ExtArgs> | null
+    events: Prisma.$AlertEventPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -651,6 +1049,9 @@ export type $AlertConfigPayload<ExtArgs extends runtime.Types.Extensions.Interna
     threshold: number
     thresholdDecimal: runtime.Decimal | null
     categoryId: string | null
+    period: $Enums.AlertPeriodEnum
+    accountId: string | null
+    currency: string | null
     enabled: boolean
     createdAt: Date
   }, ExtArgs["result"]["alertConfig"]>
@@ -1048,6 +1449,8 @@ readonly fields: AlertConfigFieldRefs;
 export interface Prisma__AlertConfigClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  account<T extends Prisma.AlertConfig$accountArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AlertConfig$accountArgs<ExtArgs>>): Prisma.Prisma__AccountClient<runtime.Types.Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  events<T extends Prisma.AlertConfig$eventsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AlertConfig$eventsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AlertEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1083,6 +1486,9 @@ export interface AlertConfigFieldRefs {
   readonly threshold: Prisma.FieldRef<"AlertConfig", 'Float'>
   readonly thresholdDecimal: Prisma.FieldRef<"AlertConfig", 'Decimal'>
   readonly categoryId: Prisma.FieldRef<"AlertConfig", 'String'>
+  readonly period: Prisma.FieldRef<"AlertConfig", 'AlertPeriodEnum'>
+  readonly accountId: Prisma.FieldRef<"AlertConfig", 'String'>
+  readonly currency: Prisma.FieldRef<"AlertConfig", 'String'>
   readonly enabled: Prisma.FieldRef<"AlertConfig", 'Boolean'>
   readonly createdAt: Prisma.FieldRef<"AlertConfig", 'DateTime'>
 }
@@ -1480,6 +1886,49 @@ export type AlertConfigDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.I
   limit?: number
 }
 
+/**
+ * AlertConfig.account
+ */
+export type AlertConfig$accountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Account
+   */
+  select?: Prisma.AccountSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Account
+   */
+  omit?: Prisma.AccountOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AccountInclude<ExtArgs> | null
+  where?: Prisma.AccountWhereInput
+}
+
+/**
+ * AlertConfig.events
+ */
+export type AlertConfig$eventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AlertEvent
+   */
+  select?: Prisma.AlertEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AlertEvent
+   */
+  omit?: Prisma.AlertEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AlertEventInclude<ExtArgs> | null
+  where?: Prisma.AlertEventWhereInput
+  orderBy?: Prisma.AlertEventOrderByWithRelationInput | Prisma.AlertEventOrderByWithRelationInput[]
+  cursor?: Prisma.AlertEventWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AlertEventScalarFieldEnum | Prisma.AlertEventScalarFieldEnum[]
+}
+
 /**
  * AlertConfig without action
  */
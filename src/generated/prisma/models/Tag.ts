@@ -227,6 +227,7 @@ export type TagWhereInput = {
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   aliases?: Prisma.TagAliasListRelationFilter
   transactions?: Prisma.TransactionListRelationFilter
+  recurringTransactions?: Prisma.RecurringTransactionListRelationFilter
 }
 
 export type TagOrderByWithRelationInput = {
@@ -239,6 +240,7 @@ export type TagOrderByWithRelationInput = {
   user?: Prisma.UserOrderByWithRelationInput
   aliases?: Prisma.TagAliasOrderByRelationAggregateInput
   transactions?: Prisma.TransactionOrderByRelationAggregateInput
+  recurringTransactions?: Prisma.RecurringTransactionOrderByRelationAggregateInput
 }
 
 export type TagWhereUniqueInput = Prisma.AtLeast<{
@@ -255,6 +257,7 @@ export type TagWhereUniqueInput = Prisma.AtLeast<{
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   aliases?: Prisma.TagAliasListRelationFilter
   transactions?: Prisma.TransactionListRelationFilter
+  recurringTransactions?: Prisma.RecurringTransactionListRelationFilter
 }, "id" | "userId_name">
 
 export type TagOrderByWithAggregationInput = {
@@ -292,6 +295,7 @@ export type TagCreateInput = {
   user: Prisma.UserCreateNestedOneWithoutTagsInput
   aliases?: Prisma.TagAliasCreateNestedManyWithoutTagInput
   transactions?: Prisma.TransactionCreateNestedManyWithoutTagInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutTagInput
 }
 
 export type TagUncheckedCreateInput = {
@@ -303,6 +307,7 @@ export type TagUncheckedCreateInput = {
   createdAt?: Date | string
   aliases?: Prisma.TagAliasUncheckedCreateNestedManyWithoutTagInput
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutTagInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutTagInput
 }
 
 export type TagUpdateInput = {
@@ -314,6 +319,7 @@ export type TagUpdateInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutTagsNestedInput
   aliases?: Prisma.TagAliasUpdateManyWithoutTagNestedInput
   transactions?: Prisma.TransactionUpdateManyWithoutTagNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutTagNestedInput
 }
 
 export type TagUncheckedUpdateInput = {
@@ -325,6 +331,7 @@ export type TagUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   aliases?: Prisma.TagAliasUncheckedUpdateManyWithoutTagNestedInput
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutTagNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutTagNestedInput
 }
 
 export type TagCreateManyInput = {
@@ -485,6 +492,22 @@ export type TagUpdateOneRequiredWithoutAliasesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.TagUpdateToOneWithWhereWithoutAliasesInput, Prisma.TagUpdateWithoutAliasesInput>, Prisma.TagUncheckedUpdateWithoutAliasesInput>
 }
 
+export type TagCreateNestedOneWithoutRecurringTransactionsInput = {
+  create?: Prisma.XOR<Prisma.TagCreateWithoutRecurringTransactionsInput, Prisma.TagUncheckedCreateWithoutRecurringTransactionsInput>
+  connectOrCreate?: Prisma.TagCreateOrConnectWithoutRecurringTransactionsInput
+  connect?: Prisma.TagWhereUniqueInput
+}
+
+export type TagUpdateOneWithoutRecurringTransactionsNestedInput = {
+  create?: Prisma.XOR<Prisma.TagCreateWithoutRecurringTransactionsInput, Prisma.TagUncheckedCreateWithoutRecurringTransactionsInput>
+  connectOrCreate?: Prisma.TagCreateOrConnectWithoutRecurringTransactionsInput
+  upsert?: Prisma.TagUpsertWithoutRecurringTransactionsInput
+  disconnect?: Prisma.TagWhereInput | boolean
+  delete?: Prisma.TagWhereInput | boolean
+  connect?: Prisma.TagWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TagUpdateToOneWithWhereWithoutRecurringTransactionsInput, Prisma.TagUpdateWithoutRecurringTransactionsInput>, Prisma.TagUncheckedUpdateWithoutRecurringTransactionsInput>
+}
+
 export type TagCreateWithoutUserInput = {
   id?: string
   name: string
@@ -493,6 +516,7 @@ export type TagCreateWithoutUserInput = {
   createdAt?: Date | string
   aliases?: Prisma.TagAliasCreateNestedManyWithoutTagInput
   transactions?: Prisma.TransactionCreateNestedManyWithoutTagInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutTagInput
 }
 
 export type TagUncheckedCreateWithoutUserInput = {
@@ -503,6 +527,7 @@ export type TagUncheckedCreateWithoutUserInput = {
   createdAt?: Date | string
   aliases?: Prisma.TagAliasUncheckedCreateNestedManyWithoutTagInput
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutTagInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutTagInput
 }
 
 export type TagCreateOrConnectWithoutUserInput = {
@@ -551,6 +576,7 @@ export type TagCreateWithoutTransactionsInput = {
   createdAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutTagsInput
   aliases?: Prisma.TagAliasCreateNestedManyWithoutTagInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutTagInput
 }
 
 export type TagUncheckedCreateWithoutTransactionsInput = {
@@ -561,6 +587,7 @@ export type TagUncheckedCreateWithoutTransactionsInput = {
   isDefault?: boolean
   createdAt?: Date | string
   aliases?: Prisma.TagAliasUncheckedCreateNestedManyWithoutTagInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutTagInput
 }
 
 export type TagCreateOrConnectWithoutTransactionsInput = {
@@ -587,6 +614,7 @@ export type TagUpdateWithoutTransactionsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutTagsNestedInput
   aliases?: Prisma.TagAliasUpdateManyWithoutTagNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutTagNestedInput
 }
 
 export type TagUncheckedUpdateWithoutTransactionsInput = {
@@ -597,6 +625,7 @@ export type TagUncheckedUpdateWithoutTransactionsInput = {
   isDefault?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   aliases?: Prisma.TagAliasUncheckedUpdateManyWithoutTagNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutTagNestedInput
 }
 
 export type TagCreateWithoutAliasesInput = {
@@ -607,6 +636,7 @@ export type TagCreateWithoutAliasesInput = {
   createdAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutTagsInput
   transactions?: Prisma.TransactionCreateNestedManyWithoutTagInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutTagInput
 }
 
 export type TagUncheckedCreateWithoutAliasesInput = {
@@ -617,6 +647,7 @@ export type TagUncheckedCreateWithoutAliasesInput = {
   isDefault?: boolean
   createdAt?: Date | string
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutTagInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutTagInput
 }
 
 export type TagCreateOrConnectWithoutAliasesInput = {
@@ -643,6 +674,7 @@ export type TagUpdateWithoutAliasesInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutTagsNestedInput
   transactions?: Prisma.TransactionUpdateManyWithoutTagNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutTagNestedInput
 }
 
 export type TagUncheckedUpdateWithoutAliasesInput = {
@@ -653,6 +685,67 @@ export type TagUncheckedUpdateWithoutAliasesInput = {
   isDefault?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutTagNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutTagNestedInput
+}
+
+export type TagCreateWithoutRecurringTransactionsInput = {
+  id?: string
+  name: string
+  usageCount?: number
+  isDefault?: boolean
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutTagsInput
+  aliases?: Prisma.TagAliasCreateNestedManyWithoutTagInput
+  transactions?: Prisma.TransactionCreateNestedManyWithoutTagInput
+}
+
+export type TagUncheckedCreateWithoutRecurringTransactionsInput = {
+  id?: string
+  userId: string
+  name: string
+  usageCount?: number
+  isDefault?: boolean
+  createdAt?: Date | string
+  aliases?: Prisma.TagAliasUncheckedCreateNestedManyWithoutTagInput
+  transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutTagInput
+}
+
+export type TagCreateOrConnectWithoutRecurringTransactionsInput = {
+  where: Prisma.TagWhereUniqueInput
+  create: Prisma.XOR<Prisma.TagCreateWithoutRecurringTransactionsInput, Prisma.TagUncheckedCreateWithoutRecurringTransactionsInput>
+}
+
+export type TagUpsertWithoutRecurringTransactionsInput = {
+  update: Prisma.XOR<Prisma.TagUpdateWithoutRecurringTransactionsInput, Prisma.TagUncheckedUpdateWithoutRecurringTransactionsInput>
+  create: Prisma.XOR<Prisma.TagCreateWithoutRecurringTransactionsInput, Prisma.TagUncheckedCreateWithoutRecurringTransactionsInput>
+  where?: Prisma.TagWhereInput
+}
+
+export type TagUpdateToOneWithWhereWithoutRecurringTransactionsInput = {
+  where?: Prisma.TagWhereInput
+  data: Prisma.XOR<Prisma.TagUpdateWithoutRecurringTransactionsInput, Prisma.TagUncheckedUpdateWithoutRecurringTransactionsInput>
+}
+
+export type TagUpdateWithoutRecurringTransactionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  usageCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isDefault?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutTagsNestedInput
+  aliases?: Prisma.TagAliasUpdateManyWithoutTagNestedInput
+  transactions?: Prisma.TransactionUpdateManyWithoutTagNestedInput
+}
+
+export type TagUncheckedUpdateWithoutRecurringTransactionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  usageCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isDefault?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  aliases?: Prisma.TagAliasUncheckedUpdateManyWithoutTagNestedInput
+  transactions?: Prisma.TransactionUncheckedUpdateManyWithoutTagNestedInput
 }
 
 export type TagCreateManyUserInput = {
@@ -671,6 +764,7 @@ export type TagUpdateWithoutUserInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   aliases?: Prisma.TagAliasUpdateManyWithoutTagNestedInput
   transactions?: Prisma.TransactionUpdateManyWithoutTagNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutTagNestedInput
 }
 
 export type TagUncheckedUpdateWithoutUserInput = {
@@ -681,6 +775,7 @@ export type TagUncheckedUpdateWithoutUserInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   aliases?: Prisma.TagAliasUncheckedUpdateManyWithoutTagNestedInput
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutTagNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutTagNestedInput
 }
 
 export type TagUncheckedUpdateManyWithoutUserInput = {
@@ -699,11 +794,13 @@ export type TagUncheckedUpdateManyWithoutUserInput = {
 export type TagCountOutputType = {
   aliases: number
   transactions: number
+  recurringTransactions: number
 }
 
 export type TagCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   aliases?: boolean | TagCountOutputTypeCountAliasesArgs
   transactions?: boolean | TagCountOutputTypeCountTransactionsArgs
+  recurringTransactions?: boolean | TagCountOutputTypeCountRecurringTransactionsArgs
 }
 
 /**
@@ -730,6 +827,13 @@ export type TagCountOutputTypeCountTransactionsArgs<ExtArgs extends runtime.Type
   where?: Prisma.TransactionWhereInput
 }
 
+/**
+ * TagCountOutputType without action
+ */
+export type TagCountOutputTypeCountRecurringTransactionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RecurringTransactionWhereInput
+}
+
 
 export type TagSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -741,6 +845,7 @@ export type TagSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = ru
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   aliases?: boolean | Prisma.Tag$aliasesArgs<ExtArgs>
   transactions?: boolean | Prisma.Tag$transactionsArgs<ExtArgs>
+  recurringTransactions?: boolean | Prisma.Tag$recurringTransactionsArgs<ExtArgs>
   _count?: boolean | Prisma.TagCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["tag"]>
 
@@ -778,6 +883,7 @@ export type TagInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   aliases?: boolean | Prisma.Tag$aliasesArgs<ExtArgs>
   transactions?: boolean | Prisma.Tag$transactionsArgs<ExtArgs>
+  recurringTransactions?: boolean | Prisma.Tag$recurringTransactionsArgs<ExtArgs>
   _count?: boolean | Prisma.TagCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type TagIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -793,6 +899,7 @@ export type $TagPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     user: Prisma.$UserPayload<ExtArgs>
     aliases: Prisma.$TagAliasPayload<ExtArgs>[]
     transactions: Prisma.$TransactionPayload<ExtArgs>[]
+    recurringTransactions: Prisma.$RecurringTransactionPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1198,6 +1305,7 @@ export interface Prisma__TagClient<T, Null = never, ExtArgs extends runtime.Type
   user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   aliases<T extends Prisma.Tag$aliasesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tag$aliasesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TagAliasPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   transactions<T extends Prisma.Tag$transactionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tag$transactionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TransactionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  recurringTransactions<T extends Prisma.Tag$recurringTransactionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Tag$recurringTransactionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecurringTransactionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1676,6 +1784,30 @@ export type Tag$transactionsArgs<ExtArgs extends runtime.Types.Extensions.Intern
   distinct?: Prisma.TransactionScalarFieldEnum | Prisma.TransactionScalarFieldEnum[]
 }
 
+/**
+ * Tag.recurringTransactions
+ */
+export type Tag$recurringTransactionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecurringTransaction
+   */
+  select?: Prisma.RecurringTransactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecurringTransaction
+   */
+  omit?: Prisma.RecurringTransactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringTransactionInclude<ExtArgs> | null
+  where?: Prisma.RecurringTransactionWhereInput
+  orderBy?: Prisma.RecurringTransactionOrderByWithRelationInput | Prisma.RecurringTransactionOrderByWithRelationInput[]
+  cursor?: Prisma.RecurringTransactionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RecurringTransactionScalarFieldEnum | Prisma.RecurringTransactionScalarFieldEnum[]
+}
+
 /**
  * Tag without action
  */
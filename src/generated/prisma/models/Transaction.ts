@@ -370,6 +370,7 @@ export type TransactionWhereInput = {
   fromAccount?: Prisma.XOR<Prisma.AccountNullableScalarRelationFilter, Prisma.AccountWhereInput> | null
   toAccount?: Prisma.XOR<Prisma.AccountNullableScalarRelationFilter, Prisma.AccountWhereInput> | null
   tag?: Prisma.XOR<Prisma.TagNullableScalarRelationFilter, Prisma.TagWhereInput> | null
+  attachments?: Prisma.TransactionAttachmentListRelationFilter
 }
 
 export type TransactionOrderByWithRelationInput = {
@@ -400,6 +401,7 @@ export type TransactionOrderByWithRelationInput = {
   fromAccount?: Prisma.AccountOrderByWithRelationInput
   toAccount?: Prisma.AccountOrderByWithRelationInput
   tag?: Prisma.TagOrderByWithRelationInput
+  attachments?: Prisma.TransactionAttachmentOrderByRelationAggregateInput
 }
 
 export type TransactionWhereUniqueInput = Prisma.AtLeast<{
@@ -433,6 +435,7 @@ export type TransactionWhereUniqueInput = Prisma.AtLeast<{
   fromAccount?: Prisma.XOR<Prisma.AccountNullableScalarRelationFilter, Prisma.AccountWhereInput> | null
   toAccount?: Prisma.XOR<Prisma.AccountNullableScalarRelationFilter, Prisma.AccountWhereInput> | null
   tag?: Prisma.XOR<Prisma.TagNullableScalarRelationFilter, Prisma.TagWhereInput> | null
+  attachments?: Prisma.TransactionAttachmentListRelationFilter
 }, "id">
 
 export type TransactionOrderByWithAggregationInput = {
@@ -513,6 +516,7 @@ export type TransactionCreateInput = {
   fromAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsFromInput
   toAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsToInput
   tag?: Prisma.TagCreateNestedOneWithoutTransactionsInput
+  attachments?: Prisma.TransactionAttachmentCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionUncheckedCreateInput = {
@@ -537,6 +541,7 @@ export type TransactionUncheckedCreateInput = {
   convertToCurrency?: string | null
   amountUsd?: number | null
   amountUsdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionUpdateInput = {
@@ -561,6 +566,7 @@ export type TransactionUpdateInput = {
   fromAccount?: Prisma.AccountUpdateOneWithoutTransactionsFromNestedInput
   toAccount?: Prisma.AccountUpdateOneWithoutTransactionsToNestedInput
   tag?: Prisma.TagUpdateOneWithoutTransactionsNestedInput
+  attachments?: Prisma.TransactionAttachmentUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionUncheckedUpdateInput = {
@@ -585,6 +591,7 @@ export type TransactionUncheckedUpdateInput = {
   convertToCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amountUsd?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   amountUsdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionCreateManyInput = {
@@ -753,6 +760,11 @@ export type TransactionSumOrderByAggregateInput = {
   amountUsdDecimal?: Prisma.SortOrder
 }
 
+export type TransactionScalarRelationFilter = {
+  is?: Prisma.TransactionWhereInput
+  isNot?: Prisma.TransactionWhereInput
+}
+
 export type TransactionCreateNestedManyWithoutUserInput = {
   create?: Prisma.XOR<Prisma.TransactionCreateWithoutUserInput, Prisma.TransactionUncheckedCreateWithoutUserInput> | Prisma.TransactionCreateWithoutUserInput[] | Prisma.TransactionUncheckedCreateWithoutUserInput[]
   connectOrCreate?: Prisma.TransactionCreateOrConnectWithoutUserInput | Prisma.TransactionCreateOrConnectWithoutUserInput[]
@@ -933,6 +945,20 @@ export type NullableFloatFieldUpdateOperationsInput = {
   divide?: number
 }
 
+export type TransactionCreateNestedOneWithoutAttachmentsInput = {
+  create?: Prisma.XOR<Prisma.TransactionCreateWithoutAttachmentsInput, Prisma.TransactionUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.TransactionCreateOrConnectWithoutAttachmentsInput
+  connect?: Prisma.TransactionWhereUniqueInput
+}
+
+export type TransactionUpdateOneRequiredWithoutAttachmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.TransactionCreateWithoutAttachmentsInput, Prisma.TransactionUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.TransactionCreateOrConnectWithoutAttachmentsInput
+  upsert?: Prisma.TransactionUpsertWithoutAttachmentsInput
+  connect?: Prisma.TransactionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TransactionUpdateToOneWithWhereWithoutAttachmentsInput, Prisma.TransactionUpdateWithoutAttachmentsInput>, Prisma.TransactionUncheckedUpdateWithoutAttachmentsInput>
+}
+
 export type TransactionCreateNestedManyWithoutCategoryRefInput = {
   create?: Prisma.XOR<Prisma.TransactionCreateWithoutCategoryRefInput, Prisma.TransactionUncheckedCreateWithoutCategoryRefInput> | Prisma.TransactionCreateWithoutCategoryRefInput[] | Prisma.TransactionUncheckedCreateWithoutCategoryRefInput[]
   connectOrCreate?: Prisma.TransactionCreateOrConnectWithoutCategoryRefInput | Prisma.TransactionCreateOrConnectWithoutCategoryRefInput[]
@@ -1038,6 +1064,7 @@ export type TransactionCreateWithoutUserInput = {
   fromAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsFromInput
   toAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsToInput
   tag?: Prisma.TagCreateNestedOneWithoutTransactionsInput
+  attachments?: Prisma.TransactionAttachmentCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionUncheckedCreateWithoutUserInput = {
@@ -1061,6 +1088,7 @@ export type TransactionUncheckedCreateWithoutUserInput = {
   convertToCurrency?: string | null
   amountUsd?: number | null
   amountUsdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionCreateOrConnectWithoutUserInput = {
@@ -1137,6 +1165,7 @@ export type TransactionCreateWithoutAccountInput = {
   fromAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsFromInput
   toAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsToInput
   tag?: Prisma.TagCreateNestedOneWithoutTransactionsInput
+  attachments?: Prisma.TransactionAttachmentCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionUncheckedCreateWithoutAccountInput = {
@@ -1160,6 +1189,7 @@ export type TransactionUncheckedCreateWithoutAccountInput = {
   convertToCurrency?: string | null
   amountUsd?: number | null
   amountUsdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionCreateOrConnectWithoutAccountInput = {
@@ -1193,6 +1223,7 @@ export type TransactionCreateWithoutFromAccountInput = {
   user: Prisma.UserCreateNestedOneWithoutTransactionsInput
   toAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsToInput
   tag?: Prisma.TagCreateNestedOneWithoutTransactionsInput
+  attachments?: Prisma.TransactionAttachmentCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionUncheckedCreateWithoutFromAccountInput = {
@@ -1216,6 +1247,7 @@ export type TransactionUncheckedCreateWithoutFromAccountInput = {
   convertToCurrency?: string | null
   amountUsd?: number | null
   amountUsdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionCreateOrConnectWithoutFromAccountInput = {
@@ -1249,6 +1281,7 @@ export type TransactionCreateWithoutToAccountInput = {
   user: Prisma.UserCreateNestedOneWithoutTransactionsInput
   fromAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsFromInput
   tag?: Prisma.TagCreateNestedOneWithoutTransactionsInput
+  attachments?: Prisma.TransactionAttachmentCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionUncheckedCreateWithoutToAccountInput = {
@@ -1272,6 +1305,7 @@ export type TransactionUncheckedCreateWithoutToAccountInput = {
   convertToCurrency?: string | null
   amountUsd?: number | null
   amountUsdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionCreateOrConnectWithoutToAccountInput = {
@@ -1332,6 +1366,118 @@ export type TransactionUpdateManyWithWhereWithoutToAccountInput = {
   data: Prisma.XOR<Prisma.TransactionUpdateManyMutationInput, Prisma.TransactionUncheckedUpdateManyWithoutToAccountInput>
 }
 
+export type TransactionCreateWithoutAttachmentsInput = {
+  id?: string
+  amount: number
+  amountDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency: string
+  direction: $Enums.TransactionDirectionsEnum
+  category?: string | null
+  description?: string | null
+  rawText: string
+  transactionDate?: Date | string
+  createdAt?: Date | string
+  convertedAmount?: number | null
+  convertedAmountDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  convertToCurrency?: string | null
+  amountUsd?: number | null
+  amountUsdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  account: Prisma.AccountCreateNestedOneWithoutTransactionsInput
+  categoryRef?: Prisma.CategoryCreateNestedOneWithoutTransactionsInput
+  user: Prisma.UserCreateNestedOneWithoutTransactionsInput
+  fromAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsFromInput
+  toAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsToInput
+  tag?: Prisma.TagCreateNestedOneWithoutTransactionsInput
+}
+
+export type TransactionUncheckedCreateWithoutAttachmentsInput = {
+  id?: string
+  accountId: string
+  amount: number
+  amountDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency: string
+  direction: $Enums.TransactionDirectionsEnum
+  categoryId?: string | null
+  category?: string | null
+  description?: string | null
+  rawText: string
+  transactionDate?: Date | string
+  createdAt?: Date | string
+  userId: string
+  fromAccountId?: string | null
+  toAccountId?: string | null
+  tagId?: string | null
+  convertedAmount?: number | null
+  convertedAmountDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  convertToCurrency?: string | null
+  amountUsd?: number | null
+  amountUsdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+}
+
+export type TransactionCreateOrConnectWithoutAttachmentsInput = {
+  where: Prisma.TransactionWhereUniqueInput
+  create: Prisma.XOR<Prisma.TransactionCreateWithoutAttachmentsInput, Prisma.TransactionUncheckedCreateWithoutAttachmentsInput>
+}
+
+export type TransactionUpsertWithoutAttachmentsInput = {
+  update: Prisma.XOR<Prisma.TransactionUpdateWithoutAttachmentsInput, Prisma.TransactionUncheckedUpdateWithoutAttachmentsInput>
+  create: Prisma.XOR<Prisma.TransactionCreateWithoutAttachmentsInput, Prisma.TransactionUncheckedCreateWithoutAttachmentsInput>
+  where?: Prisma.TransactionWhereInput
+}
+
+export type TransactionUpdateToOneWithWhereWithoutAttachmentsInput = {
+  where?: Prisma.TransactionWhereInput
+  data: Prisma.XOR<Prisma.TransactionUpdateWithoutAttachmentsInput, Prisma.TransactionUncheckedUpdateWithoutAttachmentsInput>
+}
+
+export type TransactionUpdateWithoutAttachmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  amountDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  direction?: Prisma.EnumTransactionDirectionsEnumFieldUpdateOperationsInput | $Enums.TransactionDirectionsEnum
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rawText?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  convertedAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  convertedAmountDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  convertToCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountUsd?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountUsdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  account?: Prisma.AccountUpdateOneRequiredWithoutTransactionsNestedInput
+  categoryRef?: Prisma.CategoryUpdateOneWithoutTransactionsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutTransactionsNestedInput
+  fromAccount?: Prisma.AccountUpdateOneWithoutTransactionsFromNestedInput
+  toAccount?: Prisma.AccountUpdateOneWithoutTransactionsToNestedInput
+  tag?: Prisma.TagUpdateOneWithoutTransactionsNestedInput
+}
+
+export type TransactionUncheckedUpdateWithoutAttachmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  accountId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  amountDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  direction?: Prisma.EnumTransactionDirectionsEnumFieldUpdateOperationsInput | $Enums.TransactionDirectionsEnum
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rawText?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  fromAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  tagId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  convertedAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  convertedAmountDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  convertToCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountUsd?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  amountUsdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+}
+
 export type TransactionCreateWithoutCategoryRefInput = {
   id?: string
   amount: number
@@ -1353,6 +1499,7 @@ export type TransactionCreateWithoutCategoryRefInput = {
   fromAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsFromInput
   toAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsToInput
   tag?: Prisma.TagCreateNestedOneWithoutTransactionsInput
+  attachments?: Prisma.TransactionAttachmentCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionUncheckedCreateWithoutCategoryRefInput = {
@@ -1376,6 +1523,7 @@ export type TransactionUncheckedCreateWithoutCategoryRefInput = {
   convertToCurrency?: string | null
   amountUsd?: number | null
   amountUsdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionCreateOrConnectWithoutCategoryRefInput = {
@@ -1425,6 +1573,7 @@ export type TransactionCreateWithoutTagInput = {
   user: Prisma.UserCreateNestedOneWithoutTransactionsInput
   fromAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsFromInput
   toAccount?: Prisma.AccountCreateNestedOneWithoutTransactionsToInput
+  attachments?: Prisma.TransactionAttachmentCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionUncheckedCreateWithoutTagInput = {
@@ -1448,6 +1597,7 @@ export type TransactionUncheckedCreateWithoutTagInput = {
   convertToCurrency?: string | null
   amountUsd?: number | null
   amountUsdDecimal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedCreateNestedManyWithoutTransactionInput
 }
 
 export type TransactionCreateOrConnectWithoutTagInput = {
@@ -1520,6 +1670,7 @@ export type TransactionUpdateWithoutUserInput = {
   fromAccount?: Prisma.AccountUpdateOneWithoutTransactionsFromNestedInput
   toAccount?: Prisma.AccountUpdateOneWithoutTransactionsToNestedInput
   tag?: Prisma.TagUpdateOneWithoutTransactionsNestedInput
+  attachments?: Prisma.TransactionAttachmentUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionUncheckedUpdateWithoutUserInput = {
@@ -1543,6 +1694,7 @@ export type TransactionUncheckedUpdateWithoutUserInput = {
   convertToCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amountUsd?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   amountUsdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionUncheckedUpdateManyWithoutUserInput = {
@@ -1658,6 +1810,7 @@ export type TransactionUpdateWithoutAccountInput = {
   fromAccount?: Prisma.AccountUpdateOneWithoutTransactionsFromNestedInput
   toAccount?: Prisma.AccountUpdateOneWithoutTransactionsToNestedInput
   tag?: Prisma.TagUpdateOneWithoutTransactionsNestedInput
+  attachments?: Prisma.TransactionAttachmentUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionUncheckedUpdateWithoutAccountInput = {
@@ -1681,6 +1834,7 @@ export type TransactionUncheckedUpdateWithoutAccountInput = {
   convertToCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amountUsd?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   amountUsdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionUncheckedUpdateManyWithoutAccountInput = {
@@ -1727,6 +1881,7 @@ export type TransactionUpdateWithoutFromAccountInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutTransactionsNestedInput
   toAccount?: Prisma.AccountUpdateOneWithoutTransactionsToNestedInput
   tag?: Prisma.TagUpdateOneWithoutTransactionsNestedInput
+  attachments?: Prisma.TransactionAttachmentUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionUncheckedUpdateWithoutFromAccountInput = {
@@ -1750,6 +1905,7 @@ export type TransactionUncheckedUpdateWithoutFromAccountInput = {
   convertToCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amountUsd?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   amountUsdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionUncheckedUpdateManyWithoutFromAccountInput = {
@@ -1796,6 +1952,7 @@ export type TransactionUpdateWithoutToAccountInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutTransactionsNestedInput
   fromAccount?: Prisma.AccountUpdateOneWithoutTransactionsFromNestedInput
   tag?: Prisma.TagUpdateOneWithoutTransactionsNestedInput
+  attachments?: Prisma.TransactionAttachmentUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionUncheckedUpdateWithoutToAccountInput = {
@@ -1819,6 +1976,7 @@ export type TransactionUncheckedUpdateWithoutToAccountInput = {
   convertToCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amountUsd?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   amountUsdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionUncheckedUpdateManyWithoutToAccountInput = {
@@ -1888,6 +2046,7 @@ export type TransactionUpdateWithoutCategoryRefInput = {
   fromAccount?: Prisma.AccountUpdateOneWithoutTransactionsFromNestedInput
   toAccount?: Prisma.AccountUpdateOneWithoutTransactionsToNestedInput
   tag?: Prisma.TagUpdateOneWithoutTransactionsNestedInput
+  attachments?: Prisma.TransactionAttachmentUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionUncheckedUpdateWithoutCategoryRefInput = {
@@ -1911,6 +2070,7 @@ export type TransactionUncheckedUpdateWithoutCategoryRefInput = {
   convertToCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amountUsd?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   amountUsdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionUncheckedUpdateManyWithoutCategoryRefInput = {
@@ -1980,6 +2140,7 @@ export type TransactionUpdateWithoutTagInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutTransactionsNestedInput
   fromAccount?: Prisma.AccountUpdateOneWithoutTransactionsFromNestedInput
   toAccount?: Prisma.AccountUpdateOneWithoutTransactionsToNestedInput
+  attachments?: Prisma.TransactionAttachmentUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionUncheckedUpdateWithoutTagInput = {
@@ -2003,6 +2164,7 @@ export type TransactionUncheckedUpdateWithoutTagInput = {
   convertToCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amountUsd?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   amountUsdDecimal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  attachments?: Prisma.TransactionAttachmentUncheckedUpdateManyWithoutTransactionNestedInput
 }
 
 export type TransactionUncheckedUpdateManyWithoutTagInput = {
@@ -2029,6 +2191,35 @@ export type TransactionUncheckedUpdateManyWithoutTagInput = {
 }
 
 
+/**
+ * Count Type TransactionCountOutputType
+ */
+
+export type TransactionCountOutputType = {
+  attachments: number
+}
+
+export type TransactionCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  attachments?: boolean | TransactionCountOutputTypeCountAttachmentsArgs
+}
+
+/**
+ * TransactionCountOutputType without action
+ */
+export type TransactionCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransactionCountOutputType
+   */
+  select?: Prisma.TransactionCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * TransactionCountOutputType without action
+ */
+export type TransactionCountOutputTypeCountAttachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TransactionAttachmentWhereInput
+}
+
 
 export type TransactionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -2058,6 +2249,8 @@ export type TransactionSelect<ExtArgs extends runtime.Types.Extensions.InternalA
   fromAccount?: boolean | Prisma.Transaction$fromAccountArgs<ExtArgs>
   toAccount?: boolean | Prisma.Transaction$toAccountArgs<ExtArgs>
   tag?: boolean | Prisma.Transaction$tagArgs<ExtArgs>
+  attachments?: boolean | Prisma.Transaction$attachmentsArgs<ExtArgs>
+  _count?: boolean | Prisma.TransactionCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["transaction"]>
 
 export type TransactionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -2152,6 +2345,8 @@ export type TransactionInclude<ExtArgs extends runtime.Types.Extensions.Internal
   fromAccount?: boolean | Prisma.Transaction$fromAccountArgs<ExtArgs>
   toAccount?: boolean | Prisma.Transaction$toAccountArgs<ExtArgs>
   tag?: boolean | Prisma.Transaction$tagArgs<ExtArgs>
+  attachments?: boolean | Prisma.Transaction$attachmentsArgs<ExtArgs>
+  _count?: boolean | Prisma.TransactionCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type TransactionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   account?: boolean | Prisma.AccountDefaultArgs<ExtArgs>
@@ -2179,6 +2374,7 @@ export type $TransactionPayload<ExtArgs extends runtime.Types.Extensions.Interna
     fromAccount: Prisma.$AccountPayload<ExtArgs> | null
     toAccount: Prisma.$AccountPayload<ExtArgs> | null
     tag: Prisma.$TagPayload<ExtArgs> | null
+    attachments: Prisma.$TransactionAttachmentPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -2602,6 +2798,7 @@ export interface Prisma__TransactionClient<T, Null = never, ExtArgs extends runt
   fromAccount<T extends Prisma.Transaction$fromAccountArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Transaction$fromAccountArgs<ExtArgs>>): Prisma.Prisma__AccountClient<runtime.Types.Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   toAccount<T extends Prisma.Transaction$toAccountArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Transaction$toAccountArgs<ExtArgs>>): Prisma.Prisma__AccountClient<runtime.Types.Result.GetResult<Prisma.$AccountPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   tag<T extends Prisma.Transaction$tagArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Transaction$tagArgs<ExtArgs>>): Prisma.Prisma__TagClient<runtime.Types.Result.GetResult<Prisma.$TagPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  attachments<T extends Prisma.Transaction$attachmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Transaction$attachmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TransactionAttachmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -3123,6 +3320,30 @@ export type Transaction$tagArgs<ExtArgs extends runtime.Types.Extensions.Interna
   where?: Prisma.TagWhereInput
 }
 
+/**
+ * Transaction.attachments
+ */
+export type Transaction$attachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransactionAttachment
+   */
+  select?: Prisma.TransactionAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransactionAttachment
+   */
+  omit?: Prisma.TransactionAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransactionAttachmentInclude<ExtArgs> | null
+  where?: Prisma.TransactionAttachmentWhereInput
+  orderBy?: Prisma.TransactionAttachmentOrderByWithRelationInput | Prisma.TransactionAttachmentOrderByWithRelationInput[]
+  cursor?: Prisma.TransactionAttachmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TransactionAttachmentScalarFieldEnum | Prisma.TransactionAttachmentScalarFieldEnum[]
+}
+
 /**
  * Transaction without action
  */
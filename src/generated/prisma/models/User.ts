@@ -38,6 +38,9 @@ export type UserMinAggregateOutputType = {
   lastTipText: string | null
   lastTipDate: Date | null
   lastDailyReminderAt: Date | null
+  monthlyStatement: boolean | null
+  lastStatementPeriod: string | null
+  forecastWarnedPeriod: string | null
   createdAt: Date | null
 }
 
@@ -55,6 +58,9 @@ export type UserMaxAggregateOutputType = {
   lastTipText: string | null
   lastTipDate: Date | null
   lastDailyReminderAt: Date | null
+  monthlyStatement: boolean | null
+  lastStatementPeriod: string | null
+  forecastWarnedPeriod: string | null
   createdAt: Date | null
 }
 
@@ -72,6 +78,9 @@ export type UserCountAggregateOutputType = {
   lastTipText: number
   lastTipDate: number
   lastDailyReminderAt: number
+  monthlyStatement: number
+  lastStatementPeriod: number
+  forecastWarnedPeriod: number
   createdAt: number
   _all: number
 }
@@ -91,6 +100,9 @@ export type UserMinAggregateInputType = {
   lastTipText?: true
   lastTipDate?: true
   lastDailyReminderAt?: true
+  monthlyStatement?: true
+  lastStatementPeriod?: true
+  forecastWarnedPeriod?: true
   createdAt?: true
 }
 
@@ -108,6 +120,9 @@ export type UserMaxAggregateInputType = {
   lastTipText?: true
   lastTipDate?: true
   lastDailyReminderAt?: true
+  monthlyStatement?: true
+  lastStatementPeriod?: true
+  forecastWarnedPeriod?: true
   createdAt?: true
 }
 
@@ -125,6 +140,9 @@ export type UserCountAggregateInputType = {
   lastTipText?: true
   lastTipDate?: true
   lastDailyReminderAt?: true
+  monthlyStatement?: true
+  lastStatementPeriod?: true
+  forecastWarnedPeriod?: true
   createdAt?: true
   _all?: true
 }
@@ -215,6 +233,9 @@ export type UserGroupByOutputType = {
   lastTipText: string | null
   lastTipDate: Date | null
   lastDailyReminderAt: Date | null
+  monthlyStatement: boolean
+  lastStatementPeriod: string | null
+  forecastWarnedPeriod: string | null
   createdAt: Date
   _count: UserCountAggregateOutputType | null
   _min: UserMinAggregateOutputType | null
@@ -253,6 +274,9 @@ export type UserWhereInput = {
   lastTipText?: Prisma.StringNullableFilter<"User"> | string | null
   lastTipDate?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   lastDailyReminderAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  monthlyStatement?: Prisma.BoolFilter<"User"> | boolean
+  lastStatementPeriod?: Prisma.StringNullableFilter<"User"> | string | null
+  forecastWarnedPeriod?: Prisma.StringNullableFilter<"User"> | string | null
   createdAt?: Prisma.DateTimeFilter<"User"> | Date | string
   accounts?: Prisma.AccountListRelationFilter
   transactions?: Prisma.TransactionListRelationFilter
@@ -260,9 +284,13 @@ export type UserWhereInput = {
   tags?: Prisma.TagListRelationFilter
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewListRelationFilter
   alertConfigs?: Prisma.AlertConfigListRelationFilter
+  alertEvents?: Prisma.AlertEventListRelationFilter
+  budgets?: Prisma.BudgetListRelationFilter
+  recurringTransactions?: Prisma.RecurringTransactionListRelationFilter
   subscriptions?: Prisma.SubscriptionListRelationFilter
   premiumEvents?: Prisma.PremiumEventListRelationFilter
   llmMemories?: Prisma.LlmUserMemoryListRelationFilter
+  netWorthSnapshots?: Prisma.NetWorthSnapshotListRelationFilter
 }
 
 export type UserOrderByWithRelationInput = {
@@ -279,6 +307,9 @@ export type UserOrderByWithRelationInput = {
   lastTipText?: Prisma.SortOrderInput | Prisma.SortOrder
   lastTipDate?: Prisma.SortOrderInput | Prisma.SortOrder
   lastDailyReminderAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  monthlyStatement?: Prisma.SortOrder
+  lastStatementPeriod?: Prisma.SortOrderInput | Prisma.SortOrder
+  forecastWarnedPeriod?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   accounts?: Prisma.AccountOrderByRelationAggregateInput
   transactions?: Prisma.TransactionOrderByRelationAggregateInput
@@ -286,9 +317,13 @@ export type UserOrderByWithRelationInput = {
   tags?: Prisma.TagOrderByRelationAggregateInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewOrderByRelationAggregateInput
   alertConfigs?: Prisma.AlertConfigOrderByRelationAggregateInput
+  alertEvents?: Prisma.AlertEventOrderByRelationAggregateInput
+  budgets?: Prisma.BudgetOrderByRelationAggregateInput
+  recurringTransactions?: Prisma.RecurringTransactionOrderByRelationAggregateInput
   subscriptions?: Prisma.SubscriptionOrderByRelationAggregateInput
   premiumEvents?: Prisma.PremiumEventOrderByRelationAggregateInput
   llmMemories?: Prisma.LlmUserMemoryOrderByRelationAggregateInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotOrderByRelationAggregateInput
 }
 
 export type UserWhereUniqueInput = Prisma.AtLeast<{
@@ -308,6 +343,9 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   lastTipText?: Prisma.StringNullableFilter<"User"> | string | null
   lastTipDate?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   lastDailyReminderAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  monthlyStatement?: Prisma.BoolFilter<"User"> | boolean
+  lastStatementPeriod?: Prisma.StringNullableFilter<"User"> | string | null
+  forecastWarnedPeriod?: Prisma.StringNullableFilter<"User"> | string | null
   createdAt?: Prisma.DateTimeFilter<"User"> | Date | string
   accounts?: Prisma.AccountListRelationFilter
   transactions?: Prisma.TransactionListRelationFilter
@@ -315,9 +353,13 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   tags?: Prisma.TagListRelationFilter
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewListRelationFilter
   alertConfigs?: Prisma.AlertConfigListRelationFilter
+  alertEvents?: Prisma.AlertEventListRelationFilter
+  budgets?: Prisma.BudgetListRelationFilter
+  recurringTransactions?: Prisma.RecurringTransactionListRelationFilter
   subscriptions?: Prisma.SubscriptionListRelationFilter
   premiumEvents?: Prisma.PremiumEventListRelationFilter
   llmMemories?: Prisma.LlmUserMemoryListRelationFilter
+  netWorthSnapshots?: Prisma.NetWorthSnapshotListRelationFilter
 }, "id" | "telegramId">
 
 export type UserOrderByWithAggregationInput = {
@@ -334,6 +376,9 @@ export type UserOrderByWithAggregationInput = {
   lastTipText?: Prisma.SortOrderInput | Prisma.SortOrder
   lastTipDate?: Prisma.SortOrderInput | Prisma.SortOrder
   lastDailyReminderAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  monthlyStatement?: Prisma.SortOrder
+  lastStatementPeriod?: Prisma.SortOrderInput | Prisma.SortOrder
+  forecastWarnedPeriod?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   _count?: Prisma.UserCountOrderByAggregateInput
   _max?: Prisma.UserMaxOrderByAggregateInput
@@ -357,6 +402,9 @@ export type UserScalarWhereWithAggregatesInput = {
   lastTipText?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   lastTipDate?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
   lastDailyReminderAt?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
+  monthlyStatement?: Prisma.BoolWithAggregatesFilter<"User"> | boolean
+  lastStatementPeriod?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
+  forecastWarnedPeriod?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"User"> | Date | string
 }
 
@@ -374,6 +422,9 @@ export type UserCreateInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionCreateNestedManyWithoutUserInput
@@ -381,9 +432,13 @@ export type UserCreateInput = {
   tags?: Prisma.TagCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateInput = {
@@ -400,6 +455,9 @@ export type UserUncheckedCreateInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutUserInput
@@ -407,9 +465,13 @@ export type UserUncheckedCreateInput = {
   tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventUncheckedCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventUncheckedCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserUpdateInput = {
@@ -426,6 +488,9 @@ export type UserUpdateInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUpdateManyWithoutUserNestedInput
@@ -433,9 +498,13 @@ export type UserUpdateInput = {
   tags?: Prisma.TagUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateInput = {
@@ -452,6 +521,9 @@ export type UserUncheckedUpdateInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutUserNestedInput
@@ -459,9 +531,13 @@ export type UserUncheckedUpdateInput = {
   tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUncheckedUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUncheckedUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateManyInput = {
@@ -478,6 +554,9 @@ export type UserCreateManyInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
 }
 
@@ -495,6 +574,9 @@ export type UserUpdateManyMutationInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -512,6 +594,9 @@ export type UserUncheckedUpdateManyInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -529,6 +614,9 @@ export type UserCountOrderByAggregateInput = {
   lastTipText?: Prisma.SortOrder
   lastTipDate?: Prisma.SortOrder
   lastDailyReminderAt?: Prisma.SortOrder
+  monthlyStatement?: Prisma.SortOrder
+  lastStatementPeriod?: Prisma.SortOrder
+  forecastWarnedPeriod?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -546,6 +634,9 @@ export type UserMaxOrderByAggregateInput = {
   lastTipText?: Prisma.SortOrder
   lastTipDate?: Prisma.SortOrder
   lastDailyReminderAt?: Prisma.SortOrder
+  monthlyStatement?: Prisma.SortOrder
+  lastStatementPeriod?: Prisma.SortOrder
+  forecastWarnedPeriod?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -563,6 +654,9 @@ export type UserMinOrderByAggregateInput = {
   lastTipText?: Prisma.SortOrder
   lastTipDate?: Prisma.SortOrder
   lastDailyReminderAt?: Prisma.SortOrder
+  monthlyStatement?: Prisma.SortOrder
+  lastStatementPeriod?: Prisma.SortOrder
+  forecastWarnedPeriod?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -611,6 +705,20 @@ export type UserUpdateOneRequiredWithoutTransactionsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutTransactionsInput, Prisma.UserUpdateWithoutTransactionsInput>, Prisma.UserUncheckedUpdateWithoutTransactionsInput>
 }
 
+export type UserCreateNestedOneWithoutNetWorthSnapshotsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutNetWorthSnapshotsInput, Prisma.UserUncheckedCreateWithoutNetWorthSnapshotsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutNetWorthSnapshotsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutNetWorthSnapshotsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutNetWorthSnapshotsInput, Prisma.UserUncheckedCreateWithoutNetWorthSnapshotsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutNetWorthSnapshotsInput
+  upsert?: Prisma.UserUpsertWithoutNetWorthSnapshotsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutNetWorthSnapshotsInput, Prisma.UserUpdateWithoutNetWorthSnapshotsInput>, Prisma.UserUncheckedUpdateWithoutNetWorthSnapshotsInput>
+}
+
 export type UserCreateNestedOneWithoutCategoriesInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutCategoriesInput, Prisma.UserUncheckedCreateWithoutCategoriesInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutCategoriesInput
@@ -667,6 +775,48 @@ export type UserUpdateOneRequiredWithoutAlertConfigsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutAlertConfigsInput, Prisma.UserUpdateWithoutAlertConfigsInput>, Prisma.UserUncheckedUpdateWithoutAlertConfigsInput>
 }
 
+export type UserCreateNestedOneWithoutAlertEventsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutAlertEventsInput, Prisma.UserUncheckedCreateWithoutAlertEventsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutAlertEventsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutAlertEventsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutAlertEventsInput, Prisma.UserUncheckedCreateWithoutAlertEventsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutAlertEventsInput
+  upsert?: Prisma.UserUpsertWithoutAlertEventsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutAlertEventsInput, Prisma.UserUpdateWithoutAlertEventsInput>, Prisma.UserUncheckedUpdateWithoutAlertEventsInput>
+}
+
+export type UserCreateNestedOneWithoutBudgetsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutBudgetsInput, Prisma.UserUncheckedCreateWithoutBudgetsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutBudgetsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutBudgetsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutBudgetsInput, Prisma.UserUncheckedCreateWithoutBudgetsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutBudgetsInput
+  upsert?: Prisma.UserUpsertWithoutBudgetsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutBudgetsInput, Prisma.UserUpdateWithoutBudgetsInput>, Prisma.UserUncheckedUpdateWithoutBudgetsInput>
+}
+
+export type UserCreateNestedOneWithoutRecurringTransactionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutRecurringTransactionsInput, Prisma.UserUncheckedCreateWithoutRecurringTransactionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutRecurringTransactionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutRecurringTransactionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutRecurringTransactionsInput, Prisma.UserUncheckedCreateWithoutRecurringTransactionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutRecurringTransactionsInput
+  upsert?: Prisma.UserUpsertWithoutRecurringTransactionsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutRecurringTransactionsInput, Prisma.UserUpdateWithoutRecurringTransactionsInput>, Prisma.UserUncheckedUpdateWithoutRecurringTransactionsInput>
+}
+
 export type UserCreateNestedOneWithoutSubscriptionsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutSubscriptionsInput, Prisma.UserUncheckedCreateWithoutSubscriptionsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutSubscriptionsInput
@@ -701,15 +851,591 @@ export type UserCreateNestedOneWithoutLlmMemoriesInput = {
   connect?: Prisma.UserWhereUniqueInput
 }
 
-export type UserUpdateOneRequiredWithoutLlmMemoriesNestedInput = {
-  create?: Prisma.XOR<Prisma.UserCreateWithoutLlmMemoriesInput, Prisma.UserUncheckedCreateWithoutLlmMemoriesInput>
-  connectOrCreate?: Prisma.UserCreateOrConnectWithoutLlmMemoriesInput
-  upsert?: Prisma.UserUpsertWithoutLlmMemoriesInput
-  connect?: Prisma.UserWhereUniqueInput
-  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutLlmMemoriesInput, Prisma.UserUpdateWithoutLlmMemoriesInput>, Prisma.UserUncheckedUpdateWithoutLlmMemoriesInput>
+export type UserUpdateOneRequiredWithoutLlmMemoriesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutLlmMemoriesInput, Prisma.UserUncheckedCreateWithoutLlmMemoriesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutLlmMemoriesInput
+  upsert?: Prisma.UserUpsertWithoutLlmMemoriesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutLlmMemoriesInput, Prisma.UserUpdateWithoutLlmMemoriesInput>, Prisma.UserUncheckedUpdateWithoutLlmMemoriesInput>
+}
+
+export type UserCreateWithoutAccountsInput = {
+  id?: string
+  telegramId: string
+  activeAccountId?: string | null
+  defaultAccountId?: string | null
+  mainCurrency?: string
+  timezone?: string
+  isPremium?: boolean
+  premiumUntil?: Date | string | null
+  trialUsed?: boolean
+  stripeCustomerId?: string | null
+  lastTipText?: string | null
+  lastTipDate?: Date | string | null
+  lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
+  createdAt?: Date | string
+  transactions?: Prisma.TransactionCreateNestedManyWithoutUserInput
+  categories?: Prisma.CategoryCreateNestedManyWithoutUserInput
+  tags?: Prisma.TagCreateNestedManyWithoutUserInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
+  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutUserInput
+  subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput
+  premiumEvents?: Prisma.PremiumEventCreateNestedManyWithoutUserInput
+  llmMemories?: Prisma.LlmUserMemoryCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutAccountsInput = {
+  id?: string
+  telegramId: string
+  activeAccountId?: string | null
+  defaultAccountId?: string | null
+  mainCurrency?: string
+  timezone?: string
+  isPremium?: boolean
+  premiumUntil?: Date | string | null
+  trialUsed?: boolean
+  stripeCustomerId?: string | null
+  lastTipText?: string | null
+  lastTipDate?: Date | string | null
+  lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
+  createdAt?: Date | string
+  transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutUserInput
+  categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutUserInput
+  tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
+  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventUncheckedCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutUserInput
+  subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput
+  premiumEvents?: Prisma.PremiumEventUncheckedCreateNestedManyWithoutUserInput
+  llmMemories?: Prisma.LlmUserMemoryUncheckedCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutAccountsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutAccountsInput, Prisma.UserUncheckedCreateWithoutAccountsInput>
+}
+
+export type UserUpsertWithoutAccountsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutAccountsInput, Prisma.UserUncheckedUpdateWithoutAccountsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutAccountsInput, Prisma.UserUncheckedCreateWithoutAccountsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutAccountsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutAccountsInput, Prisma.UserUncheckedUpdateWithoutAccountsInput>
+}
+
+export type UserUpdateWithoutAccountsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  telegramId?: Prisma.StringFieldUpdateOperationsInput | string
+  activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  defaultAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  mainCurrency?: Prisma.StringFieldUpdateOperationsInput | string
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  isPremium?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  premiumUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transactions?: Prisma.TransactionUpdateManyWithoutUserNestedInput
+  categories?: Prisma.CategoryUpdateManyWithoutUserNestedInput
+  tags?: Prisma.TagUpdateManyWithoutUserNestedInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
+  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutUserNestedInput
+  subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput
+  premiumEvents?: Prisma.PremiumEventUpdateManyWithoutUserNestedInput
+  llmMemories?: Prisma.LlmUserMemoryUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutAccountsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  telegramId?: Prisma.StringFieldUpdateOperationsInput | string
+  activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  defaultAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  mainCurrency?: Prisma.StringFieldUpdateOperationsInput | string
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  isPremium?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  premiumUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transactions?: Prisma.TransactionUncheckedUpdateManyWithoutUserNestedInput
+  categories?: Prisma.CategoryUncheckedUpdateManyWithoutUserNestedInput
+  tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
+  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUncheckedUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutUserNestedInput
+  subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  premiumEvents?: Prisma.PremiumEventUncheckedUpdateManyWithoutUserNestedInput
+  llmMemories?: Prisma.LlmUserMemoryUncheckedUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutTransactionsInput = {
+  id?: string
+  telegramId: string
+  activeAccountId?: string | null
+  defaultAccountId?: string | null
+  mainCurrency?: string
+  timezone?: string
+  isPremium?: boolean
+  premiumUntil?: Date | string | null
+  trialUsed?: boolean
+  stripeCustomerId?: string | null
+  lastTipText?: string | null
+  lastTipDate?: Date | string | null
+  lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
+  createdAt?: Date | string
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  categories?: Prisma.CategoryCreateNestedManyWithoutUserInput
+  tags?: Prisma.TagCreateNestedManyWithoutUserInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
+  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutUserInput
+  subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput
+  premiumEvents?: Prisma.PremiumEventCreateNestedManyWithoutUserInput
+  llmMemories?: Prisma.LlmUserMemoryCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutTransactionsInput = {
+  id?: string
+  telegramId: string
+  activeAccountId?: string | null
+  defaultAccountId?: string | null
+  mainCurrency?: string
+  timezone?: string
+  isPremium?: boolean
+  premiumUntil?: Date | string | null
+  trialUsed?: boolean
+  stripeCustomerId?: string | null
+  lastTipText?: string | null
+  lastTipDate?: Date | string | null
+  lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
+  createdAt?: Date | string
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutUserInput
+  tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
+  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventUncheckedCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutUserInput
+  subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput
+  premiumEvents?: Prisma.PremiumEventUncheckedCreateNestedManyWithoutUserInput
+  llmMemories?: Prisma.LlmUserMemoryUncheckedCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutTransactionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutTransactionsInput, Prisma.UserUncheckedCreateWithoutTransactionsInput>
+}
+
+export type UserUpsertWithoutTransactionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutTransactionsInput, Prisma.UserUncheckedUpdateWithoutTransactionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTransactionsInput, Prisma.UserUncheckedCreateWithoutTransactionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutTransactionsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutTransactionsInput, Prisma.UserUncheckedUpdateWithoutTransactionsInput>
+}
+
+export type UserUpdateWithoutTransactionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  telegramId?: Prisma.StringFieldUpdateOperationsInput | string
+  activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  defaultAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  mainCurrency?: Prisma.StringFieldUpdateOperationsInput | string
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  isPremium?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  premiumUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  categories?: Prisma.CategoryUpdateManyWithoutUserNestedInput
+  tags?: Prisma.TagUpdateManyWithoutUserNestedInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
+  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutUserNestedInput
+  subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput
+  premiumEvents?: Prisma.PremiumEventUpdateManyWithoutUserNestedInput
+  llmMemories?: Prisma.LlmUserMemoryUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutTransactionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  telegramId?: Prisma.StringFieldUpdateOperationsInput | string
+  activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  defaultAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  mainCurrency?: Prisma.StringFieldUpdateOperationsInput | string
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  isPremium?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  premiumUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  categories?: Prisma.CategoryUncheckedUpdateManyWithoutUserNestedInput
+  tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
+  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUncheckedUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutUserNestedInput
+  subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  premiumEvents?: Prisma.PremiumEventUncheckedUpdateManyWithoutUserNestedInput
+  llmMemories?: Prisma.LlmUserMemoryUncheckedUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutNetWorthSnapshotsInput = {
+  id?: string
+  telegramId: string
+  activeAccountId?: string | null
+  defaultAccountId?: string | null
+  mainCurrency?: string
+  timezone?: string
+  isPremium?: boolean
+  premiumUntil?: Date | string | null
+  trialUsed?: boolean
+  stripeCustomerId?: string | null
+  lastTipText?: string | null
+  lastTipDate?: Date | string | null
+  lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
+  createdAt?: Date | string
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  transactions?: Prisma.TransactionCreateNestedManyWithoutUserInput
+  categories?: Prisma.CategoryCreateNestedManyWithoutUserInput
+  tags?: Prisma.TagCreateNestedManyWithoutUserInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
+  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutUserInput
+  subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput
+  premiumEvents?: Prisma.PremiumEventCreateNestedManyWithoutUserInput
+  llmMemories?: Prisma.LlmUserMemoryCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutNetWorthSnapshotsInput = {
+  id?: string
+  telegramId: string
+  activeAccountId?: string | null
+  defaultAccountId?: string | null
+  mainCurrency?: string
+  timezone?: string
+  isPremium?: boolean
+  premiumUntil?: Date | string | null
+  trialUsed?: boolean
+  stripeCustomerId?: string | null
+  lastTipText?: string | null
+  lastTipDate?: Date | string | null
+  lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
+  createdAt?: Date | string
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutUserInput
+  categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutUserInput
+  tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
+  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventUncheckedCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutUserInput
+  subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput
+  premiumEvents?: Prisma.PremiumEventUncheckedCreateNestedManyWithoutUserInput
+  llmMemories?: Prisma.LlmUserMemoryUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutNetWorthSnapshotsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutNetWorthSnapshotsInput, Prisma.UserUncheckedCreateWithoutNetWorthSnapshotsInput>
+}
+
+export type UserUpsertWithoutNetWorthSnapshotsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutNetWorthSnapshotsInput, Prisma.UserUncheckedUpdateWithoutNetWorthSnapshotsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutNetWorthSnapshotsInput, Prisma.UserUncheckedCreateWithoutNetWorthSnapshotsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutNetWorthSnapshotsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutNetWorthSnapshotsInput, Prisma.UserUncheckedUpdateWithoutNetWorthSnapshotsInput>
+}
+
+export type UserUpdateWithoutNetWorthSnapshotsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  telegramId?: Prisma.StringFieldUpdateOperationsInput | string
+  activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  defaultAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  mainCurrency?: Prisma.StringFieldUpdateOperationsInput | string
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  isPremium?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  premiumUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  transactions?: Prisma.TransactionUpdateManyWithoutUserNestedInput
+  categories?: Prisma.CategoryUpdateManyWithoutUserNestedInput
+  tags?: Prisma.TagUpdateManyWithoutUserNestedInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
+  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutUserNestedInput
+  subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput
+  premiumEvents?: Prisma.PremiumEventUpdateManyWithoutUserNestedInput
+  llmMemories?: Prisma.LlmUserMemoryUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutNetWorthSnapshotsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  telegramId?: Prisma.StringFieldUpdateOperationsInput | string
+  activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  defaultAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  mainCurrency?: Prisma.StringFieldUpdateOperationsInput | string
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  isPremium?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  premiumUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  transactions?: Prisma.TransactionUncheckedUpdateManyWithoutUserNestedInput
+  categories?: Prisma.CategoryUncheckedUpdateManyWithoutUserNestedInput
+  tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
+  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUncheckedUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutUserNestedInput
+  subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  premiumEvents?: Prisma.PremiumEventUncheckedUpdateManyWithoutUserNestedInput
+  llmMemories?: Prisma.LlmUserMemoryUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutCategoriesInput = {
+  id?: string
+  telegramId: string
+  activeAccountId?: string | null
+  defaultAccountId?: string | null
+  mainCurrency?: string
+  timezone?: string
+  isPremium?: boolean
+  premiumUntil?: Date | string | null
+  trialUsed?: boolean
+  stripeCustomerId?: string | null
+  lastTipText?: string | null
+  lastTipDate?: Date | string | null
+  lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
+  createdAt?: Date | string
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  transactions?: Prisma.TransactionCreateNestedManyWithoutUserInput
+  tags?: Prisma.TagCreateNestedManyWithoutUserInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
+  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutUserInput
+  subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput
+  premiumEvents?: Prisma.PremiumEventCreateNestedManyWithoutUserInput
+  llmMemories?: Prisma.LlmUserMemoryCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutCategoriesInput = {
+  id?: string
+  telegramId: string
+  activeAccountId?: string | null
+  defaultAccountId?: string | null
+  mainCurrency?: string
+  timezone?: string
+  isPremium?: boolean
+  premiumUntil?: Date | string | null
+  trialUsed?: boolean
+  stripeCustomerId?: string | null
+  lastTipText?: string | null
+  lastTipDate?: Date | string | null
+  lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
+  createdAt?: Date | string
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutUserInput
+  tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
+  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventUncheckedCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutUserInput
+  subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput
+  premiumEvents?: Prisma.PremiumEventUncheckedCreateNestedManyWithoutUserInput
+  llmMemories?: Prisma.LlmUserMemoryUncheckedCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutCategoriesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutCategoriesInput, Prisma.UserUncheckedCreateWithoutCategoriesInput>
+}
+
+export type UserUpsertWithoutCategoriesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutCategoriesInput, Prisma.UserUncheckedUpdateWithoutCategoriesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCategoriesInput, Prisma.UserUncheckedCreateWithoutCategoriesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutCategoriesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutCategoriesInput, Prisma.UserUncheckedUpdateWithoutCategoriesInput>
+}
+
+export type UserUpdateWithoutCategoriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  telegramId?: Prisma.StringFieldUpdateOperationsInput | string
+  activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  defaultAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  mainCurrency?: Prisma.StringFieldUpdateOperationsInput | string
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  isPremium?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  premiumUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  transactions?: Prisma.TransactionUpdateManyWithoutUserNestedInput
+  tags?: Prisma.TagUpdateManyWithoutUserNestedInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
+  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutUserNestedInput
+  subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput
+  premiumEvents?: Prisma.PremiumEventUpdateManyWithoutUserNestedInput
+  llmMemories?: Prisma.LlmUserMemoryUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutCategoriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  telegramId?: Prisma.StringFieldUpdateOperationsInput | string
+  activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  defaultAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  mainCurrency?: Prisma.StringFieldUpdateOperationsInput | string
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string
+  isPremium?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  premiumUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  transactions?: Prisma.TransactionUncheckedUpdateManyWithoutUserNestedInput
+  tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
+  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUncheckedUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutUserNestedInput
+  subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput
+  premiumEvents?: Prisma.PremiumEventUncheckedUpdateManyWithoutUserNestedInput
+  llmMemories?: Prisma.LlmUserMemoryUncheckedUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutUserNestedInput
 }
 
-export type UserCreateWithoutAccountsInput = {
+export type UserCreateWithoutTagsInput = {
   id?: string
   telegramId: string
   activeAccountId?: string | null
@@ -723,18 +1449,25 @@ export type UserCreateWithoutAccountsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionCreateNestedManyWithoutUserInput
   categories?: Prisma.CategoryCreateNestedManyWithoutUserInput
-  tags?: Prisma.TagCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutUserInput
 }
 
-export type UserUncheckedCreateWithoutAccountsInput = {
+export type UserUncheckedCreateWithoutTagsInput = {
   id?: string
   telegramId: string
   activeAccountId?: string | null
@@ -748,34 +1481,41 @@ export type UserUncheckedCreateWithoutAccountsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutUserInput
   categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutUserInput
-  tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventUncheckedCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventUncheckedCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutUserInput
 }
 
-export type UserCreateOrConnectWithoutAccountsInput = {
+export type UserCreateOrConnectWithoutTagsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutAccountsInput, Prisma.UserUncheckedCreateWithoutAccountsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTagsInput, Prisma.UserUncheckedCreateWithoutTagsInput>
 }
 
-export type UserUpsertWithoutAccountsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutAccountsInput, Prisma.UserUncheckedUpdateWithoutAccountsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutAccountsInput, Prisma.UserUncheckedCreateWithoutAccountsInput>
+export type UserUpsertWithoutTagsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutTagsInput, Prisma.UserUncheckedUpdateWithoutTagsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTagsInput, Prisma.UserUncheckedCreateWithoutTagsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutAccountsInput = {
+export type UserUpdateToOneWithWhereWithoutTagsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutAccountsInput, Prisma.UserUncheckedUpdateWithoutAccountsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutTagsInput, Prisma.UserUncheckedUpdateWithoutTagsInput>
 }
 
-export type UserUpdateWithoutAccountsInput = {
+export type UserUpdateWithoutTagsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   telegramId?: Prisma.StringFieldUpdateOperationsInput | string
   activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -789,18 +1529,25 @@ export type UserUpdateWithoutAccountsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUpdateManyWithoutUserNestedInput
   categories?: Prisma.CategoryUpdateManyWithoutUserNestedInput
-  tags?: Prisma.TagUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutAccountsInput = {
+export type UserUncheckedUpdateWithoutTagsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   telegramId?: Prisma.StringFieldUpdateOperationsInput | string
   activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -814,18 +1561,25 @@ export type UserUncheckedUpdateWithoutAccountsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutUserNestedInput
   categories?: Prisma.CategoryUncheckedUpdateManyWithoutUserNestedInput
-  tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUncheckedUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUncheckedUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutUserNestedInput
 }
 
-export type UserCreateWithoutTransactionsInput = {
+export type UserCreateWithoutSavedAnalyticsViewsInput = {
   id?: string
   telegramId: string
   activeAccountId?: string | null
@@ -839,18 +1593,25 @@ export type UserCreateWithoutTransactionsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  transactions?: Prisma.TransactionCreateNestedManyWithoutUserInput
   categories?: Prisma.CategoryCreateNestedManyWithoutUserInput
   tags?: Prisma.TagCreateNestedManyWithoutUserInput
-  savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutUserInput
 }
 
-export type UserUncheckedCreateWithoutTransactionsInput = {
+export type UserUncheckedCreateWithoutSavedAnalyticsViewsInput = {
   id?: string
   telegramId: string
   activeAccountId?: string | null
@@ -864,34 +1625,41 @@ export type UserUncheckedCreateWithoutTransactionsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutUserInput
   categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutUserInput
   tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
-  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventUncheckedCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventUncheckedCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutUserInput
 }
 
-export type UserCreateOrConnectWithoutTransactionsInput = {
+export type UserCreateOrConnectWithoutSavedAnalyticsViewsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutTransactionsInput, Prisma.UserUncheckedCreateWithoutTransactionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSavedAnalyticsViewsInput, Prisma.UserUncheckedCreateWithoutSavedAnalyticsViewsInput>
 }
 
-export type UserUpsertWithoutTransactionsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutTransactionsInput, Prisma.UserUncheckedUpdateWithoutTransactionsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutTransactionsInput, Prisma.UserUncheckedCreateWithoutTransactionsInput>
+export type UserUpsertWithoutSavedAnalyticsViewsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSavedAnalyticsViewsInput, Prisma.UserUncheckedUpdateWithoutSavedAnalyticsViewsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSavedAnalyticsViewsInput, Prisma.UserUncheckedCreateWithoutSavedAnalyticsViewsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutTransactionsInput = {
+export type UserUpdateToOneWithWhereWithoutSavedAnalyticsViewsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutTransactionsInput, Prisma.UserUncheckedUpdateWithoutTransactionsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSavedAnalyticsViewsInput, Prisma.UserUncheckedUpdateWithoutSavedAnalyticsViewsInput>
 }
 
-export type UserUpdateWithoutTransactionsInput = {
+export type UserUpdateWithoutSavedAnalyticsViewsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   telegramId?: Prisma.StringFieldUpdateOperationsInput | string
   activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -905,18 +1673,25 @@ export type UserUpdateWithoutTransactionsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  transactions?: Prisma.TransactionUpdateManyWithoutUserNestedInput
   categories?: Prisma.CategoryUpdateManyWithoutUserNestedInput
   tags?: Prisma.TagUpdateManyWithoutUserNestedInput
-  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutTransactionsInput = {
+export type UserUncheckedUpdateWithoutSavedAnalyticsViewsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   telegramId?: Prisma.StringFieldUpdateOperationsInput | string
   activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -930,18 +1705,25 @@ export type UserUncheckedUpdateWithoutTransactionsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  transactions?: Prisma.TransactionUncheckedUpdateManyWithoutUserNestedInput
   categories?: Prisma.CategoryUncheckedUpdateManyWithoutUserNestedInput
   tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
-  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUncheckedUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUncheckedUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutUserNestedInput
 }
 
-export type UserCreateWithoutCategoriesInput = {
+export type UserCreateWithoutAlertConfigsInput = {
   id?: string
   telegramId: string
   activeAccountId?: string | null
@@ -955,18 +1737,25 @@ export type UserCreateWithoutCategoriesInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionCreateNestedManyWithoutUserInput
+  categories?: Prisma.CategoryCreateNestedManyWithoutUserInput
   tags?: Prisma.TagCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
-  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutUserInput
 }
 
-export type UserUncheckedCreateWithoutCategoriesInput = {
+export type UserUncheckedCreateWithoutAlertConfigsInput = {
   id?: string
   telegramId: string
   activeAccountId?: string | null
@@ -980,34 +1769,41 @@ export type UserUncheckedCreateWithoutCategoriesInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutUserInput
+  categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutUserInput
   tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
-  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventUncheckedCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventUncheckedCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutUserInput
 }
 
-export type UserCreateOrConnectWithoutCategoriesInput = {
+export type UserCreateOrConnectWithoutAlertConfigsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutCategoriesInput, Prisma.UserUncheckedCreateWithoutCategoriesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutAlertConfigsInput, Prisma.UserUncheckedCreateWithoutAlertConfigsInput>
 }
 
-export type UserUpsertWithoutCategoriesInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutCategoriesInput, Prisma.UserUncheckedUpdateWithoutCategoriesInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutCategoriesInput, Prisma.UserUncheckedCreateWithoutCategoriesInput>
+export type UserUpsertWithoutAlertConfigsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutAlertConfigsInput, Prisma.UserUncheckedUpdateWithoutAlertConfigsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutAlertConfigsInput, Prisma.UserUncheckedCreateWithoutAlertConfigsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutCategoriesInput = {
+export type UserUpdateToOneWithWhereWithoutAlertConfigsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutCategoriesInput, Prisma.UserUncheckedUpdateWithoutCategoriesInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutAlertConfigsInput, Prisma.UserUncheckedUpdateWithoutAlertConfigsInput>
 }
 
-export type UserUpdateWithoutCategoriesInput = {
+export type UserUpdateWithoutAlertConfigsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   telegramId?: Prisma.StringFieldUpdateOperationsInput | string
   activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1021,18 +1817,25 @@ export type UserUpdateWithoutCategoriesInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUpdateManyWithoutUserNestedInput
+  categories?: Prisma.CategoryUpdateManyWithoutUserNestedInput
   tags?: Prisma.TagUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
-  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutCategoriesInput = {
+export type UserUncheckedUpdateWithoutAlertConfigsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   telegramId?: Prisma.StringFieldUpdateOperationsInput | string
   activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1046,18 +1849,25 @@ export type UserUncheckedUpdateWithoutCategoriesInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutUserNestedInput
+  categories?: Prisma.CategoryUncheckedUpdateManyWithoutUserNestedInput
   tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
-  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUncheckedUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUncheckedUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutUserNestedInput
 }
 
-export type UserCreateWithoutTagsInput = {
+export type UserCreateWithoutAlertEventsInput = {
   id?: string
   telegramId: string
   activeAccountId?: string | null
@@ -1071,18 +1881,25 @@ export type UserCreateWithoutTagsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionCreateNestedManyWithoutUserInput
   categories?: Prisma.CategoryCreateNestedManyWithoutUserInput
+  tags?: Prisma.TagCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutUserInput
 }
 
-export type UserUncheckedCreateWithoutTagsInput = {
+export type UserUncheckedCreateWithoutAlertEventsInput = {
   id?: string
   telegramId: string
   activeAccountId?: string | null
@@ -1096,34 +1913,41 @@ export type UserUncheckedCreateWithoutTagsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutUserInput
   categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutUserInput
+  tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventUncheckedCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutUserInput
 }
 
-export type UserCreateOrConnectWithoutTagsInput = {
+export type UserCreateOrConnectWithoutAlertEventsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutTagsInput, Prisma.UserUncheckedCreateWithoutTagsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutAlertEventsInput, Prisma.UserUncheckedCreateWithoutAlertEventsInput>
 }
 
-export type UserUpsertWithoutTagsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutTagsInput, Prisma.UserUncheckedUpdateWithoutTagsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutTagsInput, Prisma.UserUncheckedCreateWithoutTagsInput>
+export type UserUpsertWithoutAlertEventsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutAlertEventsInput, Prisma.UserUncheckedUpdateWithoutAlertEventsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutAlertEventsInput, Prisma.UserUncheckedCreateWithoutAlertEventsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutTagsInput = {
+export type UserUpdateToOneWithWhereWithoutAlertEventsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutTagsInput, Prisma.UserUncheckedUpdateWithoutTagsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutAlertEventsInput, Prisma.UserUncheckedUpdateWithoutAlertEventsInput>
 }
 
-export type UserUpdateWithoutTagsInput = {
+export type UserUpdateWithoutAlertEventsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   telegramId?: Prisma.StringFieldUpdateOperationsInput | string
   activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1137,18 +1961,25 @@ export type UserUpdateWithoutTagsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUpdateManyWithoutUserNestedInput
   categories?: Prisma.CategoryUpdateManyWithoutUserNestedInput
+  tags?: Prisma.TagUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutTagsInput = {
+export type UserUncheckedUpdateWithoutAlertEventsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   telegramId?: Prisma.StringFieldUpdateOperationsInput | string
   activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1162,18 +1993,25 @@ export type UserUncheckedUpdateWithoutTagsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutUserNestedInput
   categories?: Prisma.CategoryUncheckedUpdateManyWithoutUserNestedInput
+  tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUncheckedUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutUserNestedInput
 }
 
-export type UserCreateWithoutSavedAnalyticsViewsInput = {
+export type UserCreateWithoutBudgetsInput = {
   id?: string
   telegramId: string
   activeAccountId?: string | null
@@ -1187,18 +2025,25 @@ export type UserCreateWithoutSavedAnalyticsViewsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionCreateNestedManyWithoutUserInput
   categories?: Prisma.CategoryCreateNestedManyWithoutUserInput
   tags?: Prisma.TagCreateNestedManyWithoutUserInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutUserInput
 }
 
-export type UserUncheckedCreateWithoutSavedAnalyticsViewsInput = {
+export type UserUncheckedCreateWithoutBudgetsInput = {
   id?: string
   telegramId: string
   activeAccountId?: string | null
@@ -1212,34 +2057,41 @@ export type UserUncheckedCreateWithoutSavedAnalyticsViewsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutUserInput
   categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutUserInput
   tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventUncheckedCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventUncheckedCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutUserInput
 }
 
-export type UserCreateOrConnectWithoutSavedAnalyticsViewsInput = {
+export type UserCreateOrConnectWithoutBudgetsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutSavedAnalyticsViewsInput, Prisma.UserUncheckedCreateWithoutSavedAnalyticsViewsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutBudgetsInput, Prisma.UserUncheckedCreateWithoutBudgetsInput>
 }
 
-export type UserUpsertWithoutSavedAnalyticsViewsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutSavedAnalyticsViewsInput, Prisma.UserUncheckedUpdateWithoutSavedAnalyticsViewsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutSavedAnalyticsViewsInput, Prisma.UserUncheckedCreateWithoutSavedAnalyticsViewsInput>
+export type UserUpsertWithoutBudgetsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutBudgetsInput, Prisma.UserUncheckedUpdateWithoutBudgetsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutBudgetsInput, Prisma.UserUncheckedCreateWithoutBudgetsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutSavedAnalyticsViewsInput = {
+export type UserUpdateToOneWithWhereWithoutBudgetsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutSavedAnalyticsViewsInput, Prisma.UserUncheckedUpdateWithoutSavedAnalyticsViewsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutBudgetsInput, Prisma.UserUncheckedUpdateWithoutBudgetsInput>
 }
 
-export type UserUpdateWithoutSavedAnalyticsViewsInput = {
+export type UserUpdateWithoutBudgetsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   telegramId?: Prisma.StringFieldUpdateOperationsInput | string
   activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1253,18 +2105,25 @@ export type UserUpdateWithoutSavedAnalyticsViewsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUpdateManyWithoutUserNestedInput
   categories?: Prisma.CategoryUpdateManyWithoutUserNestedInput
   tags?: Prisma.TagUpdateManyWithoutUserNestedInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutSavedAnalyticsViewsInput = {
+export type UserUncheckedUpdateWithoutBudgetsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   telegramId?: Prisma.StringFieldUpdateOperationsInput | string
   activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1278,18 +2137,25 @@ export type UserUncheckedUpdateWithoutSavedAnalyticsViewsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutUserNestedInput
   categories?: Prisma.CategoryUncheckedUpdateManyWithoutUserNestedInput
   tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
+  savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUncheckedUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUncheckedUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutUserNestedInput
 }
 
-export type UserCreateWithoutAlertConfigsInput = {
+export type UserCreateWithoutRecurringTransactionsInput = {
   id?: string
   telegramId: string
   activeAccountId?: string | null
@@ -1303,18 +2169,25 @@ export type UserCreateWithoutAlertConfigsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionCreateNestedManyWithoutUserInput
   categories?: Prisma.CategoryCreateNestedManyWithoutUserInput
   tags?: Prisma.TagCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
+  alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutUserInput
 }
 
-export type UserUncheckedCreateWithoutAlertConfigsInput = {
+export type UserUncheckedCreateWithoutRecurringTransactionsInput = {
   id?: string
   telegramId: string
   activeAccountId?: string | null
@@ -1328,34 +2201,41 @@ export type UserUncheckedCreateWithoutAlertConfigsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutUserInput
   categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutUserInput
   tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
+  alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventUncheckedCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventUncheckedCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutUserInput
 }
 
-export type UserCreateOrConnectWithoutAlertConfigsInput = {
+export type UserCreateOrConnectWithoutRecurringTransactionsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutAlertConfigsInput, Prisma.UserUncheckedCreateWithoutAlertConfigsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutRecurringTransactionsInput, Prisma.UserUncheckedCreateWithoutRecurringTransactionsInput>
 }
 
-export type UserUpsertWithoutAlertConfigsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutAlertConfigsInput, Prisma.UserUncheckedUpdateWithoutAlertConfigsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutAlertConfigsInput, Prisma.UserUncheckedCreateWithoutAlertConfigsInput>
+export type UserUpsertWithoutRecurringTransactionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutRecurringTransactionsInput, Prisma.UserUncheckedUpdateWithoutRecurringTransactionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutRecurringTransactionsInput, Prisma.UserUncheckedCreateWithoutRecurringTransactionsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutAlertConfigsInput = {
+export type UserUpdateToOneWithWhereWithoutRecurringTransactionsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutAlertConfigsInput, Prisma.UserUncheckedUpdateWithoutAlertConfigsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutRecurringTransactionsInput, Prisma.UserUncheckedUpdateWithoutRecurringTransactionsInput>
 }
 
-export type UserUpdateWithoutAlertConfigsInput = {
+export type UserUpdateWithoutRecurringTransactionsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   telegramId?: Prisma.StringFieldUpdateOperationsInput | string
   activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1369,18 +2249,25 @@ export type UserUpdateWithoutAlertConfigsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUpdateManyWithoutUserNestedInput
   categories?: Prisma.CategoryUpdateManyWithoutUserNestedInput
   tags?: Prisma.TagUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
+  alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutAlertConfigsInput = {
+export type UserUncheckedUpdateWithoutRecurringTransactionsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   telegramId?: Prisma.StringFieldUpdateOperationsInput | string
   activeAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1394,15 +2281,22 @@ export type UserUncheckedUpdateWithoutAlertConfigsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutUserNestedInput
   categories?: Prisma.CategoryUncheckedUpdateManyWithoutUserNestedInput
   tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
+  alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUncheckedUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUncheckedUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutSubscriptionsInput = {
@@ -1419,6 +2313,9 @@ export type UserCreateWithoutSubscriptionsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionCreateNestedManyWithoutUserInput
@@ -1426,8 +2323,12 @@ export type UserCreateWithoutSubscriptionsInput = {
   tags?: Prisma.TagCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutSubscriptionsInput = {
@@ -1444,6 +2345,9 @@ export type UserUncheckedCreateWithoutSubscriptionsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutUserInput
@@ -1451,8 +2355,12 @@ export type UserUncheckedCreateWithoutSubscriptionsInput = {
   tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventUncheckedCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventUncheckedCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutSubscriptionsInput = {
@@ -1485,6 +2393,9 @@ export type UserUpdateWithoutSubscriptionsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUpdateManyWithoutUserNestedInput
@@ -1492,8 +2403,12 @@ export type UserUpdateWithoutSubscriptionsInput = {
   tags?: Prisma.TagUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutSubscriptionsInput = {
@@ -1510,6 +2425,9 @@ export type UserUncheckedUpdateWithoutSubscriptionsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutUserNestedInput
@@ -1517,8 +2435,12 @@ export type UserUncheckedUpdateWithoutSubscriptionsInput = {
   tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUncheckedUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUncheckedUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutPremiumEventsInput = {
@@ -1535,6 +2457,9 @@ export type UserCreateWithoutPremiumEventsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionCreateNestedManyWithoutUserInput
@@ -1542,8 +2467,12 @@ export type UserCreateWithoutPremiumEventsInput = {
   tags?: Prisma.TagCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutPremiumEventsInput = {
@@ -1560,6 +2489,9 @@ export type UserUncheckedCreateWithoutPremiumEventsInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutUserInput
@@ -1567,8 +2499,12 @@ export type UserUncheckedCreateWithoutPremiumEventsInput = {
   tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventUncheckedCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutPremiumEventsInput = {
@@ -1601,6 +2537,9 @@ export type UserUpdateWithoutPremiumEventsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUpdateManyWithoutUserNestedInput
@@ -1608,8 +2547,12 @@ export type UserUpdateWithoutPremiumEventsInput = {
   tags?: Prisma.TagUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutPremiumEventsInput = {
@@ -1626,6 +2569,9 @@ export type UserUncheckedUpdateWithoutPremiumEventsInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutUserNestedInput
@@ -1633,8 +2579,12 @@ export type UserUncheckedUpdateWithoutPremiumEventsInput = {
   tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUncheckedUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput
   llmMemories?: Prisma.LlmUserMemoryUncheckedUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutLlmMemoriesInput = {
@@ -1651,6 +2601,9 @@ export type UserCreateWithoutLlmMemoriesInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionCreateNestedManyWithoutUserInput
@@ -1658,8 +2611,12 @@ export type UserCreateWithoutLlmMemoriesInput = {
   tags?: Prisma.TagCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutLlmMemoriesInput = {
@@ -1676,6 +2633,9 @@ export type UserUncheckedCreateWithoutLlmMemoriesInput = {
   lastTipText?: string | null
   lastTipDate?: Date | string | null
   lastDailyReminderAt?: Date | string | null
+  monthlyStatement?: boolean
+  lastStatementPeriod?: string | null
+  forecastWarnedPeriod?: string | null
   createdAt?: Date | string
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   transactions?: Prisma.TransactionUncheckedCreateNestedManyWithoutUserInput
@@ -1683,8 +2643,12 @@ export type UserUncheckedCreateWithoutLlmMemoriesInput = {
   tags?: Prisma.TagUncheckedCreateNestedManyWithoutUserInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedCreateNestedManyWithoutUserInput
   alertConfigs?: Prisma.AlertConfigUncheckedCreateNestedManyWithoutUserInput
+  alertEvents?: Prisma.AlertEventUncheckedCreateNestedManyWithoutUserInput
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedCreateNestedManyWithoutUserInput
   subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput
   premiumEvents?: Prisma.PremiumEventUncheckedCreateNestedManyWithoutUserInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutLlmMemoriesInput = {
@@ -1717,6 +2681,9 @@ export type UserUpdateWithoutLlmMemoriesInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUpdateManyWithoutUserNestedInput
@@ -1724,8 +2691,12 @@ export type UserUpdateWithoutLlmMemoriesInput = {
   tags?: Prisma.TagUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutLlmMemoriesInput = {
@@ -1742,6 +2713,9 @@ export type UserUncheckedUpdateWithoutLlmMemoriesInput = {
   lastTipText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   lastTipDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastDailyReminderAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  monthlyStatement?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastStatementPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  forecastWarnedPeriod?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   transactions?: Prisma.TransactionUncheckedUpdateManyWithoutUserNestedInput
@@ -1749,8 +2723,12 @@ export type UserUncheckedUpdateWithoutLlmMemoriesInput = {
   tags?: Prisma.TagUncheckedUpdateManyWithoutUserNestedInput
   savedAnalyticsViews?: Prisma.SavedAnalyticsViewUncheckedUpdateManyWithoutUserNestedInput
   alertConfigs?: Prisma.AlertConfigUncheckedUpdateManyWithoutUserNestedInput
+  alertEvents?: Prisma.AlertEventUncheckedUpdateManyWithoutUserNestedInput
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  recurringTransactions?: Prisma.RecurringTransactionUncheckedUpdateManyWithoutUserNestedInput
   subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput
   premiumEvents?: Prisma.PremiumEventUncheckedUpdateManyWithoutUserNestedInput
+  netWorthSnapshots?: Prisma.NetWorthSnapshotUncheckedUpdateManyWithoutUserNestedInput
 }
 
 
@@ -1765,9 +2743,13 @@ export type UserCountOutputType = {
   tags: number
   savedAnalyticsViews: number
   alertConfigs: number
+  alertEvents: number
+  budgets: number
+  recurringTransactions: number
   subscriptions: number
   premiumEvents: number
   llmMemories: number
+  netWorthSnapshots: number
 }
 
 export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1777,9 +2759,13 @@ export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.I
   tags?: boolean | UserCountOutputTypeCountTagsArgs
   savedAnalyticsViews?: boolean | UserCountOutputTypeCountSavedAnalyticsViewsArgs
   alertConfigs?: boolean | UserCountOutputTypeCountAlertConfigsArgs
+  alertEvents?: boolean | UserCountOutputTypeCountAlertEventsArgs
+  budgets?: boolean | UserCountOutputTypeCountBudgetsArgs
+  recurringTransactions?: boolean | UserCountOutputTypeCountRecurringTransactionsArgs
   subscriptions?: boolean | UserCountOutputTypeCountSubscriptionsArgs
   premiumEvents?: boolean | UserCountOutputTypeCountPremiumEventsArgs
   llmMemories?: boolean | UserCountOutputTypeCountLlmMemoriesArgs
+  netWorthSnapshots?: boolean | UserCountOutputTypeCountNetWorthSnapshotsArgs
 }
 
 /**
@@ -1834,6 +2820,27 @@ export type UserCountOutputTypeCountAlertConfigsArgs<ExtArgs extends runtime.Typ
   where?: Prisma.AlertConfigWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountAlertEventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AlertEventWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountBudgetsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BudgetWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountRecurringTransactionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RecurringTransactionWhereInput
+}
+
 /**
  * UserCountOutputType without action
  */
@@ -1855,6 +2862,13 @@ export type UserCountOutputTypeCountLlmMemoriesArgs<ExtArgs extends runtime.Type
   where?: Prisma.LlmUserMemoryWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountNetWorthSnapshotsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NetWorthSnapshotWhereInput
+}
+
 
 export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1870,6 +2884,9 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   lastTipText?: boolean
   lastTipDate?: boolean
   lastDailyReminderAt?: boolean
+  monthlyStatement?: boolean
+  lastStatementPeriod?: boolean
+  forecastWarnedPeriod?: boolean
   createdAt?: boolean
   accounts?: boolean | Prisma.User$accountsArgs<ExtArgs>
   transactions?: boolean | Prisma.User$transactionsArgs<ExtArgs>
@@ -1877,9 +2894,13 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   tags?: boolean | Prisma.User$tagsArgs<ExtArgs>
   savedAnalyticsViews?: boolean | Prisma.User$savedAnalyticsViewsArgs<ExtArgs>
   alertConfigs?: boolean | Prisma.User$alertConfigsArgs<ExtArgs>
+  alertEvents?: boolean | Prisma.User$alertEventsArgs<ExtArgs>
+  budgets?: boolean | Prisma.User$budgetsArgs<ExtArgs>
+  recurringTransactions?: boolean | Prisma.User$recurringTransactionsArgs<ExtArgs>
   subscriptions?: boolean | Prisma.User$subscriptionsArgs<ExtArgs>
   premiumEvents?: boolean | Prisma.User$premiumEventsArgs<ExtArgs>
   llmMemories?: boolean | Prisma.User$llmMemoriesArgs<ExtArgs>
+  netWorthSnapshots?: boolean | Prisma.User$netWorthSnapshotsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["user"]>
 
@@ -1897,6 +2918,9 @@ export type UserSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   lastTipText?: boolean
   lastTipDate?: boolean
   lastDailyReminderAt?: boolean
+  monthlyStatement?: boolean
+  lastStatementPeriod?: boolean
+  forecastWarnedPeriod?: boolean
   createdAt?: boolean
 }, ExtArgs["result"]["user"]>
 
@@ -1914,6 +2938,9 @@ export type UserSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   lastTipText?: boolean
   lastTipDate?: boolean
   lastDailyReminderAt?: boolean
+  monthlyStatement?: boolean
+  lastStatementPeriod?: boolean
+  forecastWarnedPeriod?: boolean
   createdAt?: boolean
 }, ExtArgs["result"]["user"]>
 
@@ -1931,10 +2958,13 @@ export type UserSelectScalar = {
   lastTipText?: boolean
   lastTipDate?: boolean
   lastDailyReminderAt?: boolean
+  monthlyStatement?: boolean
+  lastStatementPeriod?: boolean
+  forecastWarnedPeriod?: boolean
   createdAt?: boolean
 }
 
-export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "telegramId" | "activeAccountId" | "defaultAccountId" | "mainCurrency" | "timezone" | "isPremium" | "premiumUntil" | "trialUsed" | "stripeCustomerId" | "lastTipText" | "lastTipDate" | "lastDailyReminderAt" | "createdAt", ExtArgs["result"]["user"]>
+export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "telegramId" | "activeAccountId" | "defaultAccountId" | "mainCurrency" | "timezone" | "isPremium" | "premiumUntil" | "trialUsed" | "stripeCustomerId" | "lastTipText" | "lastTipDate" | "lastDailyReminderAt" | "monthlyStatement" | "lastStatementPeriod" | "forecastWarnedPeriod" | "createdAt", ExtArgs["result"]["user"]>
 export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   accounts?: boolean | Prisma.User$accountsArgs<ExtArgs>
   transactions?: boolean | Prisma.User$transactionsArgs<ExtArgs>
@@ -1942,9 +2972,13 @@ export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   tags?: boolean | Prisma.User$tagsArgs<ExtArgs>
   savedAnalyticsViews?: boolean | Prisma.User$savedAnalyticsViewsArgs<ExtArgs>
   alertConfigs?: boolean | Prisma.User$alertConfigsArgs<ExtArgs>
+  alertEvents?: boolean | Prisma.User$alertEventsArgs<ExtArgs>
+  budgets?: boolean | Prisma.User$budgetsArgs<ExtArgs>
+  recurringTransactions?: boolean | Prisma.User$recurringTransactionsArgs<ExtArgs>
   subscriptions?: boolean | Prisma.User$subscriptionsArgs<ExtArgs>
   premiumEvents?: boolean | Prisma.User$premiumEventsArgs<ExtArgs>
   llmMemories?: boolean | Prisma.User$llmMemoriesArgs<ExtArgs>
+  netWorthSnapshots?: boolean | Prisma.User$netWorthSnapshotsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type UserIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -1959,9 +2993,13 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     tags: Prisma.$TagPayload<ExtArgs>[]
     savedAnalyticsViews: Prisma.$SavedAnalyticsViewPayload<ExtArgs>[]
     alertConfigs: Prisma.$AlertConfigPayload<ExtArgs>[]
+    alertEvents: Prisma.$AlertEventPayload<ExtArgs>[]
+    budgets: Prisma.$BudgetPayload<ExtArgs>[]
+    recurringTransactions: Prisma.$RecurringTransactionPayload<ExtArgs>[]
     subscriptions: Prisma.$SubscriptionPayload<ExtArgs>[]
     premiumEvents: Prisma.$PremiumEventPayload<ExtArgs>[]
     llmMemories: Prisma.$LlmUserMemoryPayload<ExtArgs>[]
+    netWorthSnapshots: Prisma.$NetWorthSnapshotPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1977,6 +3015,9 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     lastTipText: string | null
     lastTipDate: Date | null
     lastDailyReminderAt: Date | null
+    monthlyStatement: boolean
+    lastStatementPeriod: string | null
+    forecastWarnedPeriod: string | null
     createdAt: Date
   }, ExtArgs["result"]["user"]>
   composites: {}
@@ -2378,9 +3419,13 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   tags<T extends Prisma.User$tagsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$tagsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TagPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   savedAnalyticsViews<T extends Prisma.User$savedAnalyticsViewsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$savedAnalyticsViewsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedAnalyticsViewPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   alertConfigs<T extends Prisma.User$alertConfigsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$alertConfigsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AlertConfigPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  alertEvents<T extends Prisma.User$alertEventsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$alertEventsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AlertEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  budgets<T extends Prisma.User$budgetsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$budgetsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BudgetPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  recurringTransactions<T extends Prisma.User$recurringTransactionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$recurringTransactionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecurringTransactionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   subscriptions<T extends Prisma.User$subscriptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$subscriptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubscriptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   premiumEvents<T extends Prisma.User$premiumEventsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$premiumEventsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PremiumEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   llmMemories<T extends Prisma.User$llmMemoriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$llmMemoriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LlmUserMemoryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  netWorthSnapshots<T extends Prisma.User$netWorthSnapshotsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$netWorthSnapshotsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NetWorthSnapshotPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2423,6 +3468,9 @@ export interface UserFieldRefs {
   readonly lastTipText: Prisma.FieldRef<"User", 'String'>
   readonly lastTipDate: Prisma.FieldRef<"User", 'DateTime'>
   readonly lastDailyReminderAt: Prisma.FieldRef<"User", 'DateTime'>
+  readonly monthlyStatement: Prisma.FieldRef<"User", 'Boolean'>
+  readonly lastStatementPeriod: Prisma.FieldRef<"User", 'String'>
+  readonly forecastWarnedPeriod: Prisma.FieldRef<"User", 'String'>
   readonly createdAt: Prisma.FieldRef<"User", 'DateTime'>
 }
     
@@ -2955,6 +4003,78 @@ export type User$alertConfigsArgs<ExtArgs extends runtime.Types.Extensions.Inter
   distinct?: Prisma.AlertConfigScalarFieldEnum | Prisma.AlertConfigScalarFieldEnum[]
 }
 
+/**
+ * User.alertEvents
+ */
+export type User$alertEventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AlertEvent
+   */
+  select?: Prisma.AlertEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AlertEvent
+   */
+  omit?: Prisma.AlertEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AlertEventInclude<ExtArgs> | null
+  where?: Prisma.AlertEventWhereInput
+  orderBy?: Prisma.AlertEventOrderByWithRelationInput | Prisma.AlertEventOrderByWithRelationInput[]
+  cursor?: Prisma.AlertEventWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AlertEventScalarFieldEnum | Prisma.AlertEventScalarFieldEnum[]
+}
+
+/**
+ * User.budgets
+ */
+export type User$budgetsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Budget
+   */
+  select?: Prisma.BudgetSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Budget
+   */
+  omit?: Prisma.BudgetOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetInclude<ExtArgs> | null
+  where?: Prisma.BudgetWhereInput
+  orderBy?: Prisma.BudgetOrderByWithRelationInput | Prisma.BudgetOrderByWithRelationInput[]
+  cursor?: Prisma.BudgetWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BudgetScalarFieldEnum | Prisma.BudgetScalarFieldEnum[]
+}
+
+/**
+ * User.recurringTransactions
+ */
+export type User$recurringTransactionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RecurringTransaction
+   */
+  select?: Prisma.RecurringTransactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RecurringTransaction
+   */
+  omit?: Prisma.RecurringTransactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringTransactionInclude<ExtArgs> | null
+  where?: Prisma.RecurringTransactionWhereInput
+  orderBy?: Prisma.RecurringTransactionOrderByWithRelationInput | Prisma.RecurringTransactionOrderByWithRelationInput[]
+  cursor?: Prisma.RecurringTransactionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RecurringTransactionScalarFieldEnum | Prisma.RecurringTransactionScalarFieldEnum[]
+}
+
 /**
  * User.subscriptions
  */
@@ -3027,6 +4147,30 @@ export type User$llmMemoriesArgs<ExtArgs extends runtime.Types.Extensions.Intern
   distinct?: Prisma.LlmUserMemoryScalarFieldEnum | Prisma.LlmUserMemoryScalarFieldEnum[]
 }
 
+/**
+ * User.netWorthSnapshots
+ */
+export type User$netWorthSnapshotsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NetWorthSnapshot
+   */
+  select?: Prisma.NetWorthSnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NetWorthSnapshot
+   */
+  omit?: Prisma.NetWorthSnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NetWorthSnapshotInclude<ExtArgs> | null
+  where?: Prisma.NetWorthSnapshotWhereInput
+  orderBy?: Prisma.NetWorthSnapshotOrderByWithRelationInput | Prisma.NetWorthSnapshotOrderByWithRelationInput[]
+  cursor?: Prisma.NetWorthSnapshotWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NetWorthSnapshotScalarFieldEnum | Prisma.NetWorthSnapshotScalarFieldEnum[]
+}
+
 /**
  * User without action
  */
@@ -2,6 +2,7 @@ import { NestFactory } from '@nestjs/core'
 import { AppModule } from './app.module'
 import { ConfigService } from '@nestjs/config'
 import * as express from 'express'
+import { TELEGRAM_WEBHOOK_PATH } from './modules/bot/bot.service'
 
 async function bootstrap() {
 	const app = await NestFactory.create(AppModule, {bodyParser: false, // отключаем встроенный парсер
@@ -13,6 +14,9 @@ async function bootstrap() {
 		express.raw({ type: 'application/json' }) as any
 	)
 
+	// Telegram webhook (BOT_MODE=webhook) получает JSON-апдейты
+	app.use(TELEGRAM_WEBHOOK_PATH, express.json() as any)
+
 	const config = app.get(ConfigService)
 
 	await app.listen(config.getOrThrow<string>('PORT'))
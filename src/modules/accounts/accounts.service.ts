@@ -3,6 +3,7 @@ import { PrismaService } from '../prisma/prisma.service'
 import { ExchangeService } from '../exchange/exchange.service'
 import { LlmAccount } from '../llm/schemas/account.schema'
 import { pickMoneyNumber, toDbMoney } from '../../utils/money'
+import { DEFAULT_TIMEZONE, startOfZonedDay, startOfZonedMonth } from '../../utils/date'
 
 @Injectable()
 export class AccountsService {
@@ -326,35 +327,16 @@ export class AccountsService {
 		userId: string
 		mainCurrency?: string
 	}): Promise<number> {
-		const main =
-			mainCurrency ??
-			(
-				await this.prisma.user.findUnique({
-					where: { id: userId },
-					select: { mainCurrency: true }
-				})
-			)?.mainCurrency ??
-			'USD'
+		const user = await this.prisma.user.findUnique({
+			where: { id: userId },
+			select: { mainCurrency: true, timezone: true }
+		})
+		const main = mainCurrency ?? user?.mainCurrency ?? 'USD'
+		const timezone = user?.timezone ?? DEFAULT_TIMEZONE
 
 		const now = new Date()
-		const startOfMonth = new Date(
-			now.getFullYear(),
-			now.getMonth(),
-			1,
-			0,
-			0,
-			0,
-			0
-		)
-		const endOfToday = new Date(
-			now.getFullYear(),
-			now.getMonth(),
-			now.getDate(),
-			23,
-			59,
-			59,
-			999
-		)
+		const startOfMonth = startOfZonedMonth(now, timezone)
+		const endOfToday = new Date(startOfZonedDay(now, timezone, 1).getTime() - 1)
 
 		const [txs, transferTxs] = await Promise.all([
 				this.prisma.transaction.findMany({
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common'
+import { AnalyticsModule } from '../analytics/analytics.module'
+import { AlertsService } from './alerts.service'
+
+@Module({
+	imports: [AnalyticsModule],
+	providers: [AlertsService],
+	exports: [AlertsService]
+})
+export class AlertsModule {}
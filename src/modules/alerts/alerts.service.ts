@@ -0,0 +1,606 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { Cron } from '@nestjs/schedule'
+import { PrismaService } from '../prisma/prisma.service'
+import { AnalyticsService } from '../analytics/analytics.service'
+import { AlertPeriodEnum, AlertTypeEnum } from '../../generated/prisma/enums'
+import { pickMoneyNumber, toDbMoney } from '../../utils/money'
+import {
+	alertPeriodWindow,
+	categoryThresholdAlertText,
+	inactivityAlertText,
+	largeExpenseAlertText,
+	lowBalanceAlertText,
+	unusualSpendingAlertText
+} from './alerts.utils'
+
+/** Resolves to false when the message was not delivered. */
+export type AlertNotifier = (telegramId: string, text: string) => Promise<boolean>
+
+export interface AlertRuleInput {
+	type: AlertTypeEnum
+	threshold: number
+	period?: AlertPeriodEnum
+	categoryId?: string | null
+	accountId?: string | null
+	currency?: string | null
+}
+
+export type AlertRulePatch = Partial<Omit<AlertRuleInput, 'type'>> & {
+	enabled?: boolean
+}
+
+type AlertRule = {
+	id: string
+	type: AlertTypeEnum
+	threshold: number
+	thresholdDecimal: unknown
+	categoryId: string | null
+	period: AlertPeriodEnum
+	accountId: string | null
+	currency: string | null
+}
+
+type AlertUser = {
+	id: string
+	telegramId: string
+	mainCurrency: string
+	timezone: string
+	createdAt: Date
+}
+
+const CRON_LOOKBACK_MS = 2 * 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const ruleSelect = {
+	id: true,
+	type: true,
+	threshold: true,
+	thresholdDecimal: true,
+	categoryId: true,
+	period: true,
+	accountId: true,
+	currency: true
+} as const
+
+const txAmountSelect = {
+	amount: true,
+	amountDecimal: true,
+	currency: true,
+	convertedAmount: true,
+	convertedAmountDecimal: true,
+	convertToCurrency: true,
+	transactionDate: true,
+	amountUsd: true,
+	amountUsdDecimal: true
+} as const
+
+@Injectable()
+export class AlertsService {
+	private readonly logger = new Logger(AlertsService.name)
+	private notifier: AlertNotifier | null = null
+
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly analytics: AnalyticsService
+	) {}
+
+	/** Delivery channel is registered by the bot once it is up. */
+	setNotifier(notifier: AlertNotifier): void {
+		this.notifier = notifier
+	}
+
+	/** Sends a one-off message through the registered channel (false before bot start). */
+	async notify(telegramId: string, text: string): Promise<boolean> {
+		if (!this.notifier) return false
+		return this.notifier(telegramId, text)
+	}
+
+	private ruleThreshold(rule: AlertRule): number {
+		return pickMoneyNumber(rule.thresholdDecimal, rule.threshold, 0)
+	}
+
+	async listRules(userId: string) {
+		return this.prisma.alertConfig.findMany({
+			where: { userId },
+			include: { account: { select: { name: true } } },
+			orderBy: { createdAt: 'asc' }
+		})
+	}
+
+	async findRule(id: string, userId: string) {
+		return this.prisma.alertConfig.findFirst({
+			where: { id, userId },
+			include: { account: { select: { name: true } } }
+		})
+	}
+
+	async createRule(userId: string, input: AlertRuleInput) {
+		return this.prisma.alertConfig.create({
+			data: {
+				userId,
+				type: input.type,
+				threshold: input.threshold,
+				thresholdDecimal: toDbMoney(input.threshold) ?? undefined,
+				period: input.period ?? AlertPeriodEnum.month,
+				categoryId: input.categoryId ?? null,
+				accountId: input.accountId ?? null,
+				currency: input.currency ?? null
+			}
+		})
+	}
+
+	async updateRule(id: string, userId: string, patch: AlertRulePatch) {
+		const existing = await this.prisma.alertConfig.findFirst({
+			where: { id, userId },
+			select: { id: true }
+		})
+		if (!existing) return null
+		return this.prisma.alertConfig.update({
+			where: { id },
+			data: {
+				...(patch.threshold != null
+					? {
+							threshold: patch.threshold,
+							thresholdDecimal: toDbMoney(patch.threshold) ?? undefined
+						}
+					: {}),
+				...(patch.period ? { period: patch.period } : {}),
+				...(patch.categoryId !== undefined
+					? { categoryId: patch.categoryId }
+					: {}),
+				...(patch.accountId !== undefined ? { accountId: patch.accountId } : {}),
+				...(patch.currency !== undefined ? { currency: patch.currency } : {}),
+				...(patch.enabled != null ? { enabled: patch.enabled } : {})
+			}
+		})
+	}
+
+	async deleteRule(id: string, userId: string): Promise<boolean> {
+		const result = await this.prisma.alertConfig.deleteMany({ where: { id, userId } })
+		return result.count > 0
+	}
+
+	private isUniqueViolation(error: unknown): boolean {
+		return (error as { code?: string })?.code === 'P2002'
+	}
+
+	/**
+	 * Records the alert and notifies the user; returns false when it already fired
+	 * or was not delivered. The event row is the dedup claim, so it is dropped again
+	 * when delivery fails and the next cron evaluation retries.
+	 */
+	private async fire(params: {
+		user: AlertUser
+		ruleId: string
+		dedupKey: string
+		amount: number
+		message: string
+		transactionId?: string
+	}): Promise<boolean> {
+		let eventId: string
+		try {
+			const event = await this.prisma.alertEvent.create({
+				data: {
+					userId: params.user.id,
+					alertConfigId: params.ruleId,
+					dedupKey: params.dedupKey,
+					transactionId: params.transactionId,
+					amount: params.amount,
+					amountDecimal: toDbMoney(params.amount) ?? undefined,
+					message: params.message
+				},
+				select: { id: true }
+			})
+			eventId = event.id
+		} catch (error: unknown) {
+			if (this.isUniqueViolation(error)) return false
+			throw error
+		}
+		const sent = await this.notify(params.user.telegramId, params.message)
+		if (!sent) {
+			await this.prisma.alertEvent.delete({ where: { id: eventId } })
+			return false
+		}
+		return true
+	}
+
+	private async loadUser(userId: string): Promise<AlertUser | null> {
+		return this.prisma.user.findUnique({
+			where: { id: userId },
+			select: {
+				id: true,
+				telegramId: true,
+				mainCurrency: true,
+				timezone: true,
+				createdAt: true
+			}
+		})
+	}
+
+	private async loadRules(userId: string): Promise<AlertRule[]> {
+		return this.prisma.alertConfig.findMany({
+			where: { userId, enabled: true },
+			select: ruleSelect
+		})
+	}
+
+	/** Only expenses dated in the current month, so imported history stays quiet. */
+	private async checkLargeExpense(
+		user: AlertUser,
+		rules: AlertRule[],
+		transactionId: string,
+		now: Date = new Date()
+	): Promise<void> {
+		const largeRules = rules.filter(r => r.type === AlertTypeEnum.large_expense)
+		if (!largeRules.length) return
+		const tx = await this.prisma.transaction.findFirst({
+			where: {
+				id: transactionId,
+				userId: user.id,
+				direction: 'expense',
+				account: { isHidden: false },
+				transactionDate: {
+					gte: alertPeriodWindow('month', user.timezone, now).from
+				}
+			},
+			select: {
+				id: true,
+				description: true,
+				category: true,
+				categoryRef: { select: { name: true } },
+				...txAmountSelect
+			}
+		})
+		if (!tx) return
+		const { amount, currency } = this.analytics.pickTxAmount(tx)
+		const inMain = await this.analytics.toMainCurrency(
+			amount,
+			currency,
+			user.mainCurrency,
+			tx.transactionDate,
+			this.analytics.pickAmountUsd(tx)
+		)
+		for (const rule of largeRules) {
+			const threshold = this.ruleThreshold(rule)
+			if (threshold <= 0 || inMain < threshold) continue
+			await this.fire({
+				user,
+				ruleId: rule.id,
+				dedupKey: `tx:${tx.id}`,
+				amount: inMain,
+				transactionId: tx.id,
+				message: largeExpenseAlertText({
+					amount: inMain,
+					threshold,
+					mainCurrency: user.mainCurrency,
+					description: tx.description,
+					categoryName: tx.categoryRef?.name ?? tx.category
+				})
+			})
+		}
+	}
+
+	/**
+	 * Checks fresh expenses and their categories' running month against the user's own
+	 * baselines, building the anomaly report once for the whole batch. Threshold is the
+	 * smallest amount worth a notification.
+	 */
+	private async checkUnusualSpending(
+		user: AlertUser,
+		rules: AlertRule[],
+		transactionIds: string[],
+		now: Date = new Date()
+	): Promise<void> {
+		const unusualRules = rules.filter(r => r.type === AlertTypeEnum.unusual_spending)
+		if (!unusualRules.length || !transactionIds.length) return
+		const txs = await this.prisma.transaction.findMany({
+			where: {
+				id: { in: transactionIds },
+				userId: user.id,
+				direction: 'expense',
+				account: { isHidden: false }
+			},
+			select: { id: true, categoryId: true, category: true }
+		})
+		if (!txs.length) return
+		const report = await this.analytics.getAnomalies(
+			user.id,
+			'month',
+			user.mainCurrency,
+			undefined,
+			user.timezone
+		)
+		const singles = new Map(report.transactions.map(a => [a.transactionId, a]))
+		const categories = new Map(report.categories.map(a => [a.categoryKey, a]))
+		const window = alertPeriodWindow('month', user.timezone, now)
+		for (const tx of txs) {
+			const single = singles.get(tx.id)
+			const categoryKey = tx.categoryId ?? tx.category ?? ''
+			const category = categories.get(categoryKey)
+			for (const rule of unusualRules) {
+				const threshold = this.ruleThreshold(rule)
+				if (single && single.amount >= threshold) {
+					await this.fire({
+						user,
+						ruleId: rule.id,
+						dedupKey: `tx:${tx.id}`,
+						amount: single.amount,
+						transactionId: tx.id,
+						message: unusualSpendingAlertText({
+							amount: single.amount,
+							mainCurrency: user.mainCurrency,
+							label: single.description ?? single.tagOrCategory,
+							explanation: single.explanation,
+							kind: 'transaction'
+						})
+					})
+				}
+				if (category && category.amount >= threshold) {
+					await this.fire({
+						user,
+						ruleId: rule.id,
+						dedupKey: `cat:${categoryKey}:${window.key}`,
+						amount: category.amount,
+						message: unusualSpendingAlertText({
+							amount: category.amount,
+							mainCurrency: user.mainCurrency,
+							label: category.categoryName,
+							explanation: category.explanation,
+							kind: 'category'
+						})
+					})
+				}
+			}
+		}
+	}
+
+	private async checkCategoryThreshold(
+		user: AlertUser,
+		rule: AlertRule,
+		now: Date = new Date()
+	): Promise<void> {
+		if (!rule.categoryId) return
+		const threshold = this.ruleThreshold(rule)
+		if (threshold <= 0) return
+		const category = await this.prisma.category.findFirst({
+			where: { id: rule.categoryId, userId: user.id },
+			select: { name: true }
+		})
+		if (!category) return
+		const window = alertPeriodWindow(rule.period, user.timezone, now)
+		const txs = await this.prisma.transaction.findMany({
+			where: {
+				userId: user.id,
+				direction: 'expense',
+				categoryId: rule.categoryId,
+				transactionDate: { gte: window.from, lte: now },
+				account: { isHidden: false }
+			},
+			select: txAmountSelect
+		})
+		let spent = 0
+		for (const tx of txs) {
+			const { amount, currency } = this.analytics.pickTxAmount(tx)
+			spent += await this.analytics.toMainCurrency(
+				amount,
+				currency,
+				user.mainCurrency,
+				tx.transactionDate,
+				this.analytics.pickAmountUsd(tx)
+			)
+		}
+		if (spent < threshold) return
+		await this.fire({
+			user,
+			ruleId: rule.id,
+			dedupKey: window.key,
+			amount: spent,
+			message: categoryThresholdAlertText({
+				spent,
+				threshold,
+				mainCurrency: user.mainCurrency,
+				categoryName: category.name,
+				period: rule.period
+			})
+		})
+	}
+
+	private async checkLowBalance(
+		user: AlertUser,
+		rule: AlertRule,
+		now: Date = new Date()
+	): Promise<void> {
+		if (!rule.accountId || !rule.currency) return
+		const asset = await this.prisma.accountAsset.findFirst({
+			where: {
+				accountId: rule.accountId,
+				currency: rule.currency,
+				account: { userId: user.id, isHidden: false }
+			},
+			select: {
+				amount: true,
+				amountDecimal: true,
+				account: { select: { name: true } }
+			}
+		})
+		if (!asset) return
+		const threshold = this.ruleThreshold(rule)
+		const balance = pickMoneyNumber(asset.amountDecimal, asset.amount, 0)
+		const inMain = await this.analytics.toMainCurrency(
+			balance,
+			rule.currency,
+			user.mainCurrency
+		)
+		if (inMain >= threshold) return
+		const window = alertPeriodWindow(rule.period, user.timezone, now)
+		await this.fire({
+			user,
+			ruleId: rule.id,
+			dedupKey: window.key,
+			amount: inMain,
+			message: lowBalanceAlertText({
+				accountName: asset.account.name,
+				balance,
+				currency: rule.currency,
+				balanceInMain: inMain,
+				threshold,
+				mainCurrency: user.mainCurrency
+			})
+		})
+	}
+
+	/** Threshold is the number of days; fires once per last-seen transaction. */
+	private async checkInactivity(
+		user: AlertUser,
+		rule: AlertRule,
+		now: Date = new Date()
+	): Promise<void> {
+		const days = Math.round(this.ruleThreshold(rule))
+		if (days < 1) return
+		const last = await this.prisma.transaction.findFirst({
+			where: { userId: user.id },
+			orderBy: { createdAt: 'desc' },
+			select: { id: true, createdAt: true }
+		})
+		const since = last?.createdAt ?? user.createdAt
+		if (now.getTime() - since.getTime() < days * DAY_MS) return
+		await this.fire({
+			user,
+			ruleId: rule.id,
+			dedupKey: `idle:${last?.id ?? 'none'}`,
+			amount: days,
+			message: inactivityAlertText(days)
+		})
+	}
+
+	/** Called after a transaction is created or edited. Never throws. */
+	async evaluateTransaction(userId: string, transactionId: string): Promise<void> {
+		try {
+			const rules = await this.loadRules(userId)
+			if (!rules.length) return
+			const user = await this.loadUser(userId)
+			if (!user) return
+			await this.checkLargeExpense(user, rules, transactionId)
+			await this.checkUnusualSpending(user, rules, [transactionId])
+			const tx = await this.prisma.transaction.findUnique({
+				where: { id: transactionId },
+				select: {
+					categoryId: true,
+					direction: true,
+					accountId: true,
+					fromAccountId: true,
+					toAccountId: true
+				}
+			})
+			if (!tx) return
+			const touched = new Set(
+				[tx.accountId, tx.fromAccountId, tx.toAccountId].filter(Boolean)
+			)
+			for (const rule of rules) {
+				if (
+					rule.type === AlertTypeEnum.category_threshold &&
+					tx.direction === 'expense' &&
+					tx.categoryId &&
+					rule.categoryId === tx.categoryId
+				) {
+					await this.checkCategoryThreshold(user, rule)
+				} else if (
+					rule.type === AlertTypeEnum.low_balance &&
+					rule.accountId &&
+					touched.has(rule.accountId)
+				) {
+					await this.checkLowBalance(user, rule)
+				}
+			}
+		} catch (error: unknown) {
+			this.logger.warn(
+				`evaluateTransaction failed for user=${userId} tx=${transactionId}: ${
+					(error as Error)?.message ?? error
+				}`
+			)
+		}
+	}
+
+	/** Called once after a bulk import saved without per-row evaluation. Never throws. */
+	async evaluateImported(userId: string): Promise<void> {
+		try {
+			await this.evaluateUser(userId)
+		} catch (error: unknown) {
+			this.logger.warn(
+				`evaluateImported failed for user=${userId}: ${
+					(error as Error)?.message ?? error
+				}`
+			)
+		}
+	}
+
+	async evaluateUser(userId: string, now: Date = new Date()): Promise<void> {
+		const rules = await this.loadRules(userId)
+		if (!rules.length) return
+		const user = await this.loadUser(userId)
+		if (!user) return
+		if (
+			rules.some(
+				r =>
+					r.type === AlertTypeEnum.large_expense ||
+					r.type === AlertTypeEnum.unusual_spending
+			)
+		) {
+			const recent = await this.prisma.transaction.findMany({
+				where: {
+					userId,
+					direction: 'expense',
+					createdAt: { gte: new Date(now.getTime() - CRON_LOOKBACK_MS) }
+				},
+				select: { id: true }
+			})
+			for (const tx of recent) {
+				await this.checkLargeExpense(user, rules, tx.id, now)
+			}
+			await this.checkUnusualSpending(
+				user,
+				rules,
+				recent.map(tx => tx.id),
+				now
+			)
+		}
+		for (const rule of rules) {
+			if (rule.type === AlertTypeEnum.category_threshold) {
+				await this.checkCategoryThreshold(user, rule, now)
+			} else if (rule.type === AlertTypeEnum.low_balance) {
+				await this.checkLowBalance(user, rule, now)
+			} else if (rule.type === AlertTypeEnum.no_transactions) {
+				await this.checkInactivity(user, rule, now)
+			}
+		}
+	}
+
+	/** Inactivity rules plus a safety net for transactions saved while delivery was down. */
+	@Cron('*/30 * * * *')
+	async evaluateAllUsers(): Promise<void> {
+		try {
+			const rows = await this.prisma.alertConfig.findMany({
+				where: { enabled: true },
+				distinct: ['userId'],
+				select: { userId: true }
+			})
+			for (const row of rows) {
+				try {
+					await this.evaluateUser(row.userId)
+				} catch (error: unknown) {
+					this.logger.warn(
+						`evaluateUser failed for user=${row.userId}: ${
+							(error as Error)?.message ?? error
+						}`
+					)
+				}
+			}
+		} catch (error: unknown) {
+			this.logger.warn(
+				`evaluateAllUsers skipped for current tick: ${
+					(error as Error)?.message ?? error
+				}`
+			)
+		}
+	}
+}
@@ -0,0 +1,126 @@
+import {
+	alertPeriodWindow,
+	categoryThresholdAlertText,
+	inactivityAlertText,
+	largeExpenseAlertText,
+	lowBalanceAlertText,
+	parseAlertThreshold,
+	unusualSpendingAlertText
+} from './alerts.utils'
+
+describe('alerts.utils', () => {
+	it('builds month window in user timezone', () => {
+		// 2026-03-31 23:30 UTC is already April 1st in UTC+02:00
+		const now = new Date(Date.UTC(2026, 2, 31, 23, 30))
+		const window = alertPeriodWindow('month', 'UTC+02:00', now)
+		expect(window.key).toBe('month:2026-04-01')
+		expect(window.from.toISOString()).toBe('2026-03-31T22:00:00.000Z')
+	})
+
+	it('starts week windows on Monday', () => {
+		// Sunday 2026-03-08 10:00 UTC
+		const now = new Date(Date.UTC(2026, 2, 8, 10, 0))
+		const window = alertPeriodWindow('week', 'UTC+00:00', now)
+		expect(window.key).toBe('week:2026-03-02')
+		expect(window.from.toISOString()).toBe('2026-03-02T00:00:00.000Z')
+	})
+
+	it('uses local date for day windows with negative offsets', () => {
+		const now = new Date(Date.UTC(2026, 2, 8, 0, 30))
+		const window = alertPeriodWindow('day', 'UTC-01:00', now)
+		expect(window.key).toBe('day:2026-03-07')
+		expect(window.from.toISOString()).toBe('2026-03-07T01:00:00.000Z')
+	})
+
+	it('renders large expense text with description and category', () => {
+		const text = largeExpenseAlertText({
+			amount: 250,
+			threshold: 100,
+			mainCurrency: 'EUR',
+			description: 'Ноутбук',
+			categoryName: 'Техника'
+		})
+		expect(text).toContain('Ноутбук · Техника')
+		expect(text).toContain('€')
+	})
+
+	it('escapes user-supplied names in alert texts', () => {
+		expect(
+			largeExpenseAlertText({
+				amount: 250,
+				threshold: 100,
+				mainCurrency: 'EUR',
+				description: 'a<b & <3',
+				categoryName: 'R&D'
+			})
+		).toContain('a&lt;b &amp; &lt;3 · R&amp;D')
+		expect(
+			categoryThresholdAlertText({
+				spent: 120,
+				threshold: 100,
+				mainCurrency: 'EUR',
+				categoryName: '<Кафе>'
+			})
+		).toContain('&lt;Кафе&gt;:')
+		expect(
+			lowBalanceAlertText({
+				accountName: 'Cash & <card>',
+				balance: 5,
+				currency: 'EUR',
+				balanceInMain: 5,
+				threshold: 10,
+				mainCurrency: 'EUR'
+			})
+		).toContain('Cash &amp; &lt;card&gt;:')
+	})
+
+	it('mentions the rule period in category threshold text', () => {
+		const text = categoryThresholdAlertText({
+			spent: 120,
+			threshold: 100,
+			mainCurrency: 'EUR',
+			categoryName: 'Кафе',
+			period: 'week'
+		})
+		expect(text).toContain('за текущую неделю')
+	})
+
+	it('explains unusual spending alerts', () => {
+		const text = unusualSpendingAlertText({
+			amount: 170,
+			mainCurrency: 'EUR',
+			label: 'Ашан',
+			explanation: '3,4× от обычной траты на «Продукты»',
+			kind: 'transaction'
+		})
+		expect(text).toContain('Необычный расход')
+		expect(text).toContain('— Ашан')
+		expect(text).toContain('3,4× от обычной траты на «Продукты»')
+	})
+
+	it('escapes the label and explanation of unusual spending alerts', () => {
+		const text = unusualSpendingAlertText({
+			amount: 170,
+			mainCurrency: 'EUR',
+			label: 'Tom & Jerry <3',
+			explanation: '3,4× от обычных трат на «R&D» за такой же срок',
+			kind: 'category'
+		})
+		expect(text).toContain('— Tom &amp; Jerry &lt;3')
+		expect(text).toContain('«R&amp;D»')
+	})
+
+	it('pluralizes inactivity days', () => {
+		expect(inactivityAlertText(1)).toContain('1 день')
+		expect(inactivityAlertText(3)).toContain('3 дня')
+		expect(inactivityAlertText(12)).toContain('12 дней')
+	})
+
+	it('parses thresholds with spaces and comma decimals', () => {
+		expect(parseAlertThreshold('1 500,50')).toBe(1500.5)
+		expect(parseAlertThreshold('0')).toBeNull()
+		expect(parseAlertThreshold('0', true)).toBe(0)
+		expect(parseAlertThreshold('-5')).toBeNull()
+		expect(parseAlertThreshold('abc')).toBeNull()
+	})
+})
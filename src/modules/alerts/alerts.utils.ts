@@ -0,0 +1,147 @@
+import { getZonedParts, zonedTimeToUtc } from '../../utils/date'
+import { formatAmount } from '../../utils/format'
+import { escapeHtml } from '../../utils/html'
+
+export type AlertPeriod = 'day' | 'week' | 'month'
+
+export interface AlertPeriodWindow {
+	from: Date
+	key: string
+}
+
+function pad2(value: number): string {
+	return String(value).padStart(2, '0')
+}
+
+/** Start of the user's current day/week/month as a UTC instant, plus a stable dedup key. */
+export function alertPeriodWindow(
+	period: AlertPeriod,
+	timezone: string,
+	now: Date = new Date()
+): AlertPeriodWindow {
+	const local = getZonedParts(now, timezone)
+	let day = local.day
+	if (period === 'week') {
+		day += local.weekday === 0 ? -6 : 1 - local.weekday
+	} else if (period === 'month') {
+		day = 1
+	}
+	const start = new Date(Date.UTC(local.year, local.month, day))
+	const key = `${period}:${start.getUTCFullYear()}-${pad2(start.getUTCMonth() + 1)}-${pad2(
+		start.getUTCDate()
+	)}`
+	return {
+		from: zonedTimeToUtc(
+			{
+				year: start.getUTCFullYear(),
+				month: start.getUTCMonth(),
+				day: start.getUTCDate()
+			},
+			timezone
+		),
+		key
+	}
+}
+
+export function largeExpenseAlertText(params: {
+	amount: number
+	threshold: number
+	mainCurrency: string
+	description?: string | null
+	categoryName?: string | null
+}): string {
+	const label = [params.description?.trim(), params.categoryName?.trim()]
+		.filter(Boolean)
+		.join(' · ')
+	return `🔔 <b>Крупный расход</b>
+
+${formatAmount(params.amount, params.mainCurrency)}${label ? ` — ${escapeHtml(label)}` : ''}
+Порог уведомления: ${formatAmount(params.threshold, params.mainCurrency)}`
+}
+
+const PERIOD_LABELS: Record<AlertPeriod, string> = {
+	day: 'за сегодня',
+	week: 'за текущую неделю',
+	month: 'за текущий месяц'
+}
+
+export function alertPeriodLabel(period: AlertPeriod): string {
+	return PERIOD_LABELS[period] ?? PERIOD_LABELS.month
+}
+
+export function categoryThresholdAlertText(params: {
+	spent: number
+	threshold: number
+	mainCurrency: string
+	categoryName: string
+	period?: AlertPeriod
+}): string {
+	return `🔔 <b>Лимит категории превышен</b>
+
+${escapeHtml(params.categoryName)}: ${formatAmount(params.spent, params.mainCurrency)} ${alertPeriodLabel(
+		params.period ?? 'month'
+	)}
+Порог уведомления: ${formatAmount(params.threshold, params.mainCurrency)}`
+}
+
+export function lowBalanceAlertText(params: {
+	accountName: string
+	balance: number
+	currency: string
+	balanceInMain: number
+	threshold: number
+	mainCurrency: string
+}): string {
+	const converted =
+		params.currency.toUpperCase() === params.mainCurrency.toUpperCase()
+			? ''
+			: ` (≈ ${formatAmount(params.balanceInMain, params.mainCurrency)})`
+	return `🔔 <b>Низкий баланс</b>
+
+${escapeHtml(params.accountName)}: ${formatAmount(params.balance, params.currency)}${converted}
+Порог уведомления: ${formatAmount(params.threshold, params.mainCurrency)}`
+}
+
+export function unusualSpendingAlertText(params: {
+	amount: number
+	mainCurrency: string
+	label?: string | null
+	explanation: string
+	kind: 'transaction' | 'category'
+}): string {
+	const title =
+		params.kind === 'category'
+			? 'Категория выбивается из обычного'
+			: 'Необычный расход'
+	return `🔔 <b>${title}</b>
+
+${formatAmount(params.amount, params.mainCurrency)}${params.label ? ` — ${escapeHtml(params.label)}` : ''}
+${escapeHtml(params.explanation)}`
+}
+
+export function inactivityAlertText(days: number): string {
+	return `🔔 <b>Нет новых транзакций</b>
+
+Вы не записывали транзакции уже ${days} ${pluralDays(days)}.
+Добавьте траты, чтобы аналитика оставалась точной.`
+}
+
+export function pluralDays(n: number): string {
+	const mod10 = n % 10
+	const mod100 = n % 100
+	if (mod10 === 1 && mod100 !== 11) return 'день'
+	if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return 'дня'
+	return 'дней'
+}
+
+/** Parses a user-entered threshold like "1 500,50"; null when not a usable number. */
+export function parseAlertThreshold(raw: string, allowZero = false): number | null {
+	const normalized = String(raw ?? '')
+		.replace(/\s+/g, '')
+		.replace(',', '.')
+	if (!/^\d+(\.\d+)?$/.test(normalized)) return null
+	const value = Number(normalized)
+	if (!Number.isFinite(value)) return null
+	if (value < 0 || (!allowZero && value === 0)) return null
+	return value
+}
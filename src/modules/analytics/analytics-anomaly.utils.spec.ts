@@ -0,0 +1,89 @@
+import {
+	anomalyExplanation,
+	categoryAnomalies,
+	detectAnomaly,
+	spendingBaseline,
+	transactionAnomalies,
+	type AnomalyEntry
+} from './analytics-anomaly.utils'
+
+function entries(categoryKey: string, amounts: number[]): AnomalyEntry[] {
+	return amounts.map((amount, i) => ({
+		id: `${categoryKey}-${i}`,
+		categoryKey,
+		amount
+	}))
+}
+
+describe('analytics-anomaly.utils', () => {
+	it('builds a median/MAD baseline once there are enough samples', () => {
+		expect(spendingBaseline([10, 12, 11], 5)).toBeNull()
+		expect(spendingBaseline([10, 12, 11, 50, 9], 5)).toEqual({
+			median: 11,
+			mad: 1,
+			samples: 5
+		})
+	})
+
+	it('flags spikes but not ordinary variation or lower spending', () => {
+		const baseline = spendingBaseline([40, 50, 45, 55, 60, 48], 5)
+		expect(detectAnomaly(58, baseline)).toBeNull()
+		expect(detectAnomaly(10, baseline)).toBeNull()
+		const flag = detectAnomaly(160, baseline)
+		expect(flag?.usual).toBe(49)
+		expect(flag?.ratio).toBeCloseTo(3.27, 2)
+		expect(flag?.score).toBeGreaterThan(3.5)
+	})
+
+	it('does not flag small changes when every past amount was identical', () => {
+		const baseline = spendingBaseline([10, 10, 10, 10, 10], 5)
+		expect(detectAnomaly(12, baseline)).toBeNull()
+		expect(detectAnomaly(30, baseline)?.ratio).toBe(3)
+	})
+
+	it('uses category baselines and falls back to all spending', () => {
+		const history = [
+			...entries('groceries', [40, 50, 45, 55, 60]),
+			...entries('rent', [900, 900, 900, 900, 900]),
+			...entries('gifts', [30])
+		]
+		const flags = transactionAnomalies(history, [
+			{ id: 'rent-now', categoryKey: 'rent', amount: 900 },
+			{ id: 'food-now', categoryKey: 'groceries', amount: 170 },
+			{ id: 'gift-now', categoryKey: 'gifts', amount: 3000 }
+		])
+		expect([...flags.keys()]).toEqual(['food-now', 'gift-now'])
+		expect(flags.get('food-now')?.ownCategory).toBe(true)
+		expect(flags.get('gift-now')?.ownCategory).toBe(false)
+	})
+
+	it('compares category totals with earlier periods', () => {
+		const flags = categoryAnomalies(
+			new Map([
+				['cafe', 420],
+				['transport', 110],
+				['new', 500]
+			]),
+			new Map([
+				['cafe', [100, 120, 90, 130]],
+				['transport', [100, 90, 120]],
+				['new', [0, 0]]
+			])
+		)
+		expect([...flags.keys()]).toEqual(['cafe'])
+		expect(flags.get('cafe')?.ratio).toBeCloseTo(3.82, 2)
+	})
+
+	it('explains flags relative to the usual spend', () => {
+		const flag = { score: 8, ratio: 3.42, usual: 50 }
+		expect(anomalyExplanation(flag, 'transaction', 'Продукты')).toBe(
+			'3,4× от обычной траты на «Продукты»'
+		)
+		expect(anomalyExplanation(flag, 'transaction', null)).toBe(
+			'3,4× от вашей обычной траты'
+		)
+		expect(anomalyExplanation(flag, 'category', 'Кафе')).toBe(
+			'3,4× от обычных трат на «Кафе» за такой же срок'
+		)
+	})
+})
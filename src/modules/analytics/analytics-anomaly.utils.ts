@@ -0,0 +1,134 @@
+export interface SpendingBaseline {
+	median: number
+	/** Median absolute deviation from the median */
+	mad: number
+	samples: number
+}
+
+export interface AnomalyFlag {
+	/** Robust z-score: distance from the median in scaled MADs */
+	score: number
+	/** Value divided by the usual (median) one */
+	ratio: number
+	usual: number
+}
+
+export interface AnomalyEntry {
+	id: string
+	categoryKey: string
+	amount: number
+}
+
+/** Transactions of a category needed before it gets its own baseline. */
+export const MIN_TRANSACTION_SAMPLES = 5
+/** Earlier periods needed before category totals are judged. */
+export const MIN_PERIOD_SAMPLES = 3
+/** Iglewicz–Hoaglin cut-off for the modified z-score. */
+export const ANOMALY_SCORE = 3.5
+/** Spikes below this multiple of the usual amount are not worth a flag. */
+const MIN_RATIO = 1.5
+/** Makes the MAD comparable to a standard deviation for normal data. */
+const MAD_SCALE = 1.4826
+/** Floor for the spread, so identical amounts (MAD = 0) don't flag every cent. */
+const MIN_RELATIVE_SPREAD = 0.1
+
+function median(values: number[]): number {
+	const sorted = [...values].sort((a, b) => a - b)
+	const mid = Math.floor(sorted.length / 2)
+	return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+export function spendingBaseline(
+	values: number[],
+	minSamples: number
+): SpendingBaseline | null {
+	if (values.length < minSamples) return null
+	const center = median(values)
+	return {
+		median: center,
+		mad: median(values.map(v => Math.abs(v - center))),
+		samples: values.length
+	}
+}
+
+/** Flags only spikes above the usual level, never unusually small spending. */
+export function detectAnomaly(
+	value: number,
+	baseline: SpendingBaseline | null
+): AnomalyFlag | null {
+	if (!baseline || baseline.median <= 0 || value <= baseline.median) return null
+	const spread = Math.max(
+		baseline.mad * MAD_SCALE,
+		baseline.median * MIN_RELATIVE_SPREAD
+	)
+	const score = (value - baseline.median) / spread
+	const ratio = value / baseline.median
+	if (score < ANOMALY_SCORE || ratio < MIN_RATIO) return null
+	return { score, ratio, usual: baseline.median }
+}
+
+/**
+ * Judges each current transaction against the earlier transactions of its
+ * category; categories with too little history fall back to all spending.
+ */
+export function transactionAnomalies(
+	history: AnomalyEntry[],
+	current: AnomalyEntry[]
+): Map<string, AnomalyFlag & { ownCategory: boolean }> {
+	const byCategory = new Map<string, number[]>()
+	for (const entry of history) {
+		byCategory.set(entry.categoryKey, [
+			...(byCategory.get(entry.categoryKey) ?? []),
+			entry.amount
+		])
+	}
+	const overall = spendingBaseline(
+		history.map(e => e.amount),
+		MIN_TRANSACTION_SAMPLES
+	)
+	const result = new Map<string, AnomalyFlag & { ownCategory: boolean }>()
+	for (const entry of current) {
+		const own = spendingBaseline(
+			byCategory.get(entry.categoryKey) ?? [],
+			MIN_TRANSACTION_SAMPLES
+		)
+		const flag = detectAnomaly(entry.amount, own ?? overall)
+		if (flag) result.set(entry.id, { ...flag, ownCategory: own != null })
+	}
+	return result
+}
+
+/** Judges current category totals against the totals of earlier periods of the same length. */
+export function categoryAnomalies(
+	current: Map<string, number>,
+	previous: Map<string, number[]>
+): Map<string, AnomalyFlag> {
+	const result = new Map<string, AnomalyFlag>()
+	for (const [key, total] of current) {
+		const flag = detectAnomaly(
+			total,
+			spendingBaseline(previous.get(key) ?? [], MIN_PERIOD_SAMPLES)
+		)
+		if (flag) result.set(key, flag)
+	}
+	return result
+}
+
+function formatRatio(ratio: number): string {
+	return ratio.toFixed(1).replace('.', ',')
+}
+
+/** Short reason shown next to a flag, e.g. «3,4× от обычной траты на «Продукты»». */
+export function anomalyExplanation(
+	flag: AnomalyFlag,
+	kind: 'transaction' | 'category',
+	categoryName: string | null
+): string {
+	const ratio = `${formatRatio(flag.ratio)}×`
+	if (kind === 'category') {
+		return `${ratio} от обычных трат на «${categoryName ?? 'Без категории'}» за такой же срок`
+	}
+	return categoryName
+		? `${ratio} от обычной траты на «${categoryName}»`
+		: `${ratio} от вашей обычной траты`
+}
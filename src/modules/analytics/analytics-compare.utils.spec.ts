@@ -0,0 +1,55 @@
+import { comparePeriods, comparisonRow } from './analytics-compare.utils'
+
+describe('analytics-compare.utils', () => {
+	it('computes absolute and percentage deltas', () => {
+		expect(comparisonRow('Расходы', 1200, 1000)).toEqual({
+			name: 'Расходы',
+			current: 1200,
+			previous: 1000,
+			delta: 200,
+			deltaPct: 20
+		})
+		expect(comparisonRow('Доходы', 500, 0).deltaPct).toBeNull()
+	})
+
+	it('keeps top categories of both periods and ranks the movers', () => {
+		const comparison = comparePeriods(
+			{
+				income: 2000,
+				expenses: 1500,
+				categories: new Map([
+					['Еда', 600],
+					['Жильё', 500],
+					['Такси', 400]
+				])
+			},
+			{
+				income: 2000,
+				expenses: 1000,
+				categories: new Map([
+					['Еда', 550],
+					['Жильё', 450],
+					['Отпуск', 300]
+				])
+			},
+			3,
+			2
+		)
+		expect(comparison.categories.map(c => c.name)).toEqual([
+			'Еда',
+			'Жильё',
+			'Такси',
+			'Отпуск'
+		])
+		expect(comparison.movers.map(c => [c.name, c.delta])).toEqual([
+			['Такси', 400],
+			['Отпуск', -300]
+		])
+		expect(comparison.savingsRate).toMatchObject({
+			current: 25,
+			previous: 50,
+			delta: -25,
+			deltaPct: null
+		})
+	})
+})
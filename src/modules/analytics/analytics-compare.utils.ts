@@ -0,0 +1,97 @@
+/** Income, expenses and per-category spending of one range, in the main currency. */
+export interface PeriodTotals {
+	income: number
+	expenses: number
+	categories: Map<string, number>
+}
+
+export interface ComparisonRow {
+	name: string
+	current: number
+	previous: number
+	delta: number
+	/** null when the previous value is zero */
+	deltaPct: number | null
+}
+
+export interface PeriodComparison {
+	income: ComparisonRow
+	expenses: ComparisonRow
+	/** Savings rate in percent; `delta` is in percentage points */
+	savingsRate: ComparisonRow
+	categories: ComparisonRow[]
+	/** Categories with the largest absolute change, biggest first */
+	movers: ComparisonRow[]
+}
+
+export function comparisonRow(
+	name: string,
+	current: number,
+	previous: number
+): ComparisonRow {
+	return {
+		name,
+		current,
+		previous,
+		delta: current - previous,
+		deltaPct:
+			previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null
+	}
+}
+
+/** Share of income left after expenses; 0 without income. */
+export function savingsRate(income: number, expenses: number): number {
+	return income > 0 ? ((income - expenses) / income) * 100 : 0
+}
+
+/**
+ * Side-by-side rows for two ranges. Categories are the top ones of either
+ * range, so a category that disappeared still shows up with its drop.
+ */
+export function comparePeriods(
+	current: PeriodTotals,
+	previous: PeriodTotals,
+	categoryLimit = 5,
+	moverLimit = 3
+): PeriodComparison {
+	const top = (totals: PeriodTotals) =>
+		[...totals.categories.entries()]
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, categoryLimit)
+			.map(([name]) => name)
+	const names = [...new Set([...top(current), ...top(previous)])]
+	const categories = names
+		.map(name =>
+			comparisonRow(
+				name,
+				current.categories.get(name) ?? 0,
+				previous.categories.get(name) ?? 0
+			)
+		)
+		.sort((a, b) => b.current - a.current || b.previous - a.previous)
+	const savings = comparisonRow(
+		'Коэффициент сбережений',
+		savingsRate(current.income, current.expenses),
+		savingsRate(previous.income, previous.expenses)
+	)
+	return {
+		income: comparisonRow('Доходы', current.income, previous.income),
+		expenses: comparisonRow('Расходы', current.expenses, previous.expenses),
+		savingsRate: { ...savings, deltaPct: null },
+		categories,
+		movers: [...categories]
+			.filter(row => row.delta !== 0)
+			.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+			.slice(0, moverLimit)
+	}
+}
+
+/** Flat list of rows: totals first, then categories. */
+export function comparisonRows(comparison: PeriodComparison): ComparisonRow[] {
+	return [
+		comparison.income,
+		comparison.expenses,
+		comparison.savingsRate,
+		...comparison.categories
+	]
+}
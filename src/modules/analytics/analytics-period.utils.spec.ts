@@ -0,0 +1,120 @@
+import {
+	analyticsPeriodDays,
+	analyticsPeriodLabel,
+	analyticsPeriodRange,
+	comparisonPeriodRange,
+	customRangePeriod,
+	isAnalyticsPeriod,
+	isExtendedPeriod,
+	parseAnalyticsPeriodText,
+	previousPeriodRange,
+	splitRangeText
+} from './analytics-period.utils'
+
+describe('analytics-period.utils', () => {
+	// Tuesday 2026-05-12 10:00 in Kyiv (UTC+3 in summer)
+	const now = new Date('2026-05-12T07:00:00.000Z')
+	const tz = 'Europe/Kyiv'
+
+	it('resolves calendar periods at local midnights', () => {
+		const lastMonth = analyticsPeriodRange('last_month', tz, now)
+		expect(lastMonth.from.toISOString()).toBe('2026-03-31T21:00:00.000Z')
+		expect(lastMonth.to.toISOString()).toBe('2026-04-30T20:59:59.999Z')
+
+		const lastQuarter = analyticsPeriodRange('last_quarter', tz, now)
+		// January is still on winter time
+		expect(lastQuarter.from.toISOString()).toBe('2025-12-31T22:00:00.000Z')
+		expect(lastQuarter.to.toISOString()).toBe('2026-03-31T20:59:59.999Z')
+
+		const ytd = analyticsPeriodRange('ytd', tz, now)
+		expect(ytd.from.toISOString()).toBe('2025-12-31T22:00:00.000Z')
+		expect(ytd.to.toISOString()).toBe('2026-05-12T20:59:59.999Z')
+	})
+
+	it('resolves explicit ranges inclusively', () => {
+		const period = customRangePeriod(
+			{ year: 2026, month: 2, day: 15 },
+			{ year: 2026, month: 1, day: 1 }
+		)
+		expect(period).toBe('2026-02-01..2026-03-15')
+		const range = analyticsPeriodRange(period, 'UTC+00:00', now)
+		expect(range.from.toISOString()).toBe('2026-02-01T00:00:00.000Z')
+		expect(range.to.toISOString()).toBe('2026-03-15T23:59:59.999Z')
+	})
+
+	it('compares closed periods with the previous calendar period', () => {
+		const prev = previousPeriodRange('last_quarter', 'UTC+00:00', now)
+		expect(prev.from.toISOString()).toBe('2025-10-01T00:00:00.000Z')
+		expect(prev.to.toISOString()).toBe('2025-12-31T23:59:59.999Z')
+	})
+
+	it('compares month-to-date with the same days of last month or last year', () => {
+		const prev = comparisonPeriodRange('month', 'previous', tz, now)
+		expect(prev.from.toISOString()).toBe('2026-03-31T21:00:00.000Z')
+		expect(prev.to.toISOString()).toBe('2026-04-12T20:59:59.999Z')
+
+		const yearAgo = comparisonPeriodRange('last_month', 'year_ago', tz, now)
+		expect(yearAgo.from.toISOString()).toBe('2025-03-31T21:00:00.000Z')
+		expect(yearAgo.to.toISOString()).toBe('2025-04-30T20:59:59.999Z')
+
+		const leap = comparisonPeriodRange(
+			'2024-02-01..2024-02-29',
+			'year_ago',
+			'UTC+00:00',
+			now
+		)
+		expect(leap.from.toISOString()).toBe('2023-02-01T00:00:00.000Z')
+		expect(leap.to.toISOString()).toBe('2023-02-28T23:59:59.999Z')
+	})
+
+	it('validates periods and flags ranges longer than a month', () => {
+		expect(isAnalyticsPeriod('30d')).toBe(true)
+		expect(isAnalyticsPeriod('last_year')).toBe(true)
+		expect(isAnalyticsPeriod('2026-02-30..2026-03-01')).toBe(false)
+		expect(isAnalyticsPeriod('2026-03-01..2026-02-01')).toBe(false)
+		expect(isExtendedPeriod('last_month', tz, now)).toBe(false)
+		expect(isExtendedPeriod('quarter', tz, now)).toBe(true)
+	})
+
+	it('counts local days across a DST change', () => {
+		// October 2026 ends with the switch back to winter time in Kyiv
+		const november = new Date('2026-11-10T10:00:00.000Z')
+		expect(analyticsPeriodDays('last_month', tz, november)).toBe(31)
+		expect(isExtendedPeriod('last_month', tz, november)).toBe(false)
+		expect(analyticsPeriodDays('7d', tz, now)).toBe(8)
+	})
+
+	it('labels periods', () => {
+		expect(analyticsPeriodLabel('last_month', tz, now)).toBe('апрель 2026')
+		expect(analyticsPeriodLabel('last_quarter', tz, now)).toBe('I квартал 2026')
+		expect(analyticsPeriodLabel('2026-02-01..2026-03-15', tz, now)).toBe(
+			'01.02.2026 – 15.03.2026'
+		)
+	})
+
+	it('parses common period phrases', () => {
+		expect(parseAnalyticsPeriodText('Прошлый месяц', tz, now)).toBe('last_month')
+		expect(parseAnalyticsPeriodText('с начала года', tz, now)).toBe('ytd')
+		expect(parseAnalyticsPeriodText('2 квартал 2025', tz, now)).toBe(
+			'2025-04-01..2025-06-30'
+		)
+		expect(parseAnalyticsPeriodText('2024', tz, now)).toBe('2024-01-01..2024-12-31')
+		expect(parseAnalyticsPeriodText('в марте', tz, now)).toBe(
+			'2026-03-01..2026-03-31'
+		)
+		// a month that has not started yet this year means last year's
+		expect(parseAnalyticsPeriodText('декабрь', tz, now)).toBe(
+			'2025-12-01..2025-12-31'
+		)
+		expect(parseAnalyticsPeriodText('01.03.2026-15.04.2026', tz, now)).toBe(
+			'2026-03-01..2026-04-15'
+		)
+		expect(parseAnalyticsPeriodText('когда-нибудь', tz, now)).toBeNull()
+	})
+
+	it('splits range phrases for the LLM fallback', () => {
+		expect(splitRangeText('с 1 марта по 15 апреля')).toEqual(['1 марта', '15 апреля'])
+		expect(splitRangeText('1 марта — 15 апреля')).toEqual(['1 марта', '15 апреля'])
+		expect(splitRangeText('вчера')).toBeNull()
+	})
+})
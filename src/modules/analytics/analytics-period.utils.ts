@@ -0,0 +1,429 @@
+import {
+	getZonedParts,
+	startOfZonedDay,
+	startOfZonedMonth,
+	zonedTimeToUtc
+} from '../../utils/date'
+
+export type AnalyticsRollingPeriod = '7d' | '30d' | '90d' | 'week' | 'month' | '3month'
+
+/** Whole calendar periods counted in the user's zone. */
+export type AnalyticsCalendarPeriod =
+	| 'last_month'
+	| 'quarter'
+	| 'last_quarter'
+	| 'ytd'
+	| 'last_year'
+
+/** Inclusive local dates, e.g. `2026-01-01..2026-03-31`. */
+export type AnalyticsCustomRange = `${string}..${string}`
+
+export type AnalyticsPeriod =
+	| AnalyticsRollingPeriod
+	| AnalyticsCalendarPeriod
+	| AnalyticsCustomRange
+
+export interface LocalDate {
+	year: number
+	/** 0-based */
+	month: number
+	day: number
+}
+
+export const ANALYTICS_CALENDAR_PERIODS: AnalyticsCalendarPeriod[] = [
+	'last_month',
+	'quarter',
+	'last_quarter',
+	'ytd',
+	'last_year'
+]
+
+const ROLLING_PERIODS: AnalyticsRollingPeriod[] = [
+	'7d',
+	'30d',
+	'90d',
+	'week',
+	'month',
+	'3month'
+]
+const ROLLING_DAYS: Record<string, number> = { '7d': 7, '30d': 30, '90d': 90 }
+const CUSTOM_RANGE_RE = /^(\d{4})-(\d{2})-(\d{2})\.\.(\d{4})-(\d{2})-(\d{2})$/
+const DAY_MS = 24 * 60 * 60 * 1000
+/** Free plan sees at most a calendar month at once. */
+const FREE_MAX_DAYS = 31
+
+const MONTHS = [
+	'январь',
+	'февраль',
+	'март',
+	'апрель',
+	'май',
+	'июнь',
+	'июль',
+	'август',
+	'сентябрь',
+	'октябрь',
+	'ноябрь',
+	'декабрь'
+]
+// stems match every case form: "март", "марта", "в марте"
+const MONTH_STEMS = [
+	'янв',
+	'фев',
+	'мар',
+	'апр',
+	'ма[йяе]',
+	'июн',
+	'июл',
+	'авг',
+	'сен',
+	'окт',
+	'ноя',
+	'дек'
+]
+const QUARTERS = ['I', 'II', 'III', 'IV']
+
+function pad2(value: number): string {
+	return String(value).padStart(2, '0')
+}
+
+function formatIsoDate(date: LocalDate): string {
+	const normalized = new Date(Date.UTC(date.year, date.month, date.day))
+	return `${normalized.getUTCFullYear()}-${pad2(normalized.getUTCMonth() + 1)}-${pad2(
+		normalized.getUTCDate()
+	)}`
+}
+
+function formatDisplayDate(date: LocalDate): string {
+	return `${pad2(date.day)}.${pad2(date.month + 1)}.${date.year}`
+}
+
+function isValidLocalDate(date: LocalDate): boolean {
+	const d = new Date(Date.UTC(date.year, date.month, date.day))
+	return (
+		d.getUTCFullYear() === date.year &&
+		d.getUTCMonth() === date.month &&
+		d.getUTCDate() === date.day
+	)
+}
+
+function compareLocalDates(a: LocalDate, b: LocalDate): number {
+	return Date.UTC(a.year, a.month, a.day) - Date.UTC(b.year, b.month, b.day)
+}
+
+/** Builds a custom range period; the bounds are swapped when given in reverse. */
+export function customRangePeriod(from: LocalDate, to: LocalDate): AnalyticsCustomRange {
+	const [start, end] = compareLocalDates(from, to) <= 0 ? [from, to] : [to, from]
+	return `${formatIsoDate(start)}..${formatIsoDate(end)}`
+}
+
+export function parseCustomRange(
+	period: string
+): { from: LocalDate; to: LocalDate } | null {
+	const m = String(period ?? '').match(CUSTOM_RANGE_RE)
+	if (!m) return null
+	const from = { year: Number(m[1]), month: Number(m[2]) - 1, day: Number(m[3]) }
+	const to = { year: Number(m[4]), month: Number(m[5]) - 1, day: Number(m[6]) }
+	if (!isValidLocalDate(from) || !isValidLocalDate(to)) return null
+	if (compareLocalDates(from, to) > 0) return null
+	return { from, to }
+}
+
+export function isAnalyticsPeriod(value: unknown): value is AnalyticsPeriod {
+	if (typeof value !== 'string') return false
+	return (
+		(ROLLING_PERIODS as string[]).includes(value) ||
+		(ANALYTICS_CALENDAR_PERIODS as string[]).includes(value) ||
+		parseCustomRange(value) != null
+	)
+}
+
+/** Period boundaries in the user's zone: local midnights, DST-aware. */
+export function analyticsPeriodRange(
+	period: AnalyticsPeriod,
+	timezone: string,
+	now: Date = new Date()
+): { from: Date; to: Date } {
+	const endOfToday = new Date(startOfZonedDay(now, timezone, 1).getTime() - 1)
+	const local = getZonedParts(now, timezone)
+	const quarterStart = local.month - (local.month % 3)
+	const localStart = (year: number, month: number, day = 1) =>
+		zonedTimeToUtc({ year, month, day }, timezone)
+	const before = (date: Date) => new Date(date.getTime() - 1)
+
+	const custom = parseCustomRange(period)
+	if (custom) {
+		return {
+			from: localStart(custom.from.year, custom.from.month, custom.from.day),
+			to: before(localStart(custom.to.year, custom.to.month, custom.to.day + 1))
+		}
+	}
+	const days = ROLLING_DAYS[period]
+	if (days !== undefined) {
+		return { from: startOfZonedDay(now, timezone, -days), to: endOfToday }
+	}
+	switch (period) {
+		case 'week': {
+			const mondayOffset = local.weekday === 0 ? -6 : 1 - local.weekday
+			return { from: startOfZonedDay(now, timezone, mondayOffset), to: endOfToday }
+		}
+		case 'month':
+			return { from: startOfZonedMonth(now, timezone), to: endOfToday }
+		case 'last_month':
+			return {
+				from: startOfZonedMonth(now, timezone, -1),
+				to: before(startOfZonedMonth(now, timezone))
+			}
+		case 'quarter':
+			return { from: localStart(local.year, quarterStart), to: endOfToday }
+		case 'last_quarter':
+			return {
+				from: localStart(local.year, quarterStart - 3),
+				to: before(localStart(local.year, quarterStart))
+			}
+		case 'ytd':
+			return { from: localStart(local.year, 0), to: endOfToday }
+		case 'last_year':
+			return {
+				from: localStart(local.year - 1, 0),
+				to: before(localStart(local.year, 0))
+			}
+		default:
+			// 3month: first day of (current - 2) month
+			return { from: startOfZonedMonth(now, timezone, -2), to: endOfToday }
+	}
+}
+
+/**
+ * The range the period is compared against. Closed calendar periods step back by
+ * whole months; everything else by the same number of milliseconds.
+ */
+export function previousPeriodRange(
+	period: AnalyticsPeriod,
+	timezone: string,
+	now: Date = new Date()
+): { from: Date; to: Date } {
+	const { from, to } = analyticsPeriodRange(period, timezone, now)
+	const stepMonths: Partial<Record<AnalyticsPeriod, number>> = {
+		last_month: 1,
+		last_quarter: 3,
+		last_year: 12
+	}
+	const months = stepMonths[period]
+	if (months) {
+		return {
+			from: startOfZonedMonth(from, timezone, -months),
+			to: new Date(from.getTime() - 1)
+		}
+	}
+	const span = to.getTime() - from.getTime()
+	return { from: new Date(from.getTime() - span), to: new Date(from.getTime() - 1) }
+}
+
+export type AnalyticsComparisonMode = 'previous' | 'year_ago'
+
+/** Periods that run to today and compare against the same stretch of the previous calendar period. */
+const TO_DATE_STEP_MONTHS: Partial<Record<AnalyticsPeriod, number>> = {
+	month: 1,
+	quarter: 3,
+	ytd: 12
+}
+
+function shiftZonedMonths(date: Date, months: number, timezone: string): Date {
+	const p = getZonedParts(date, timezone)
+	const lastDay = new Date(Date.UTC(p.year, p.month - months + 1, 0)).getUTCDate()
+	return zonedTimeToUtc(
+		{
+			year: p.year,
+			month: p.month - months,
+			day: Math.min(p.day, lastDay),
+			hour: p.hour,
+			minute: p.minute,
+			second: p.second
+		},
+		timezone
+	)
+}
+
+/**
+ * Range a period is compared against: the previous period (month-to-date
+ * against the same days of last month) or the same dates a year earlier.
+ */
+export function comparisonPeriodRange(
+	period: AnalyticsPeriod,
+	mode: AnalyticsComparisonMode,
+	timezone: string,
+	now: Date = new Date()
+): { from: Date; to: Date } {
+	const months = mode === 'year_ago' ? 12 : TO_DATE_STEP_MONTHS[period]
+	if (!months) return previousPeriodRange(period, timezone, now)
+	const { from, to } = analyticsPeriodRange(period, timezone, now)
+	const end = shiftZonedMonths(new Date(to.getTime() + 1), months, timezone)
+	return {
+		from: shiftZonedMonths(from, months, timezone),
+		to: new Date(end.getTime() - 1)
+	}
+}
+
+/** Local calendar days the period covers, so DST shifts don't add or drop a day. */
+export function analyticsPeriodDays(
+	period: AnalyticsPeriod,
+	timezone: string,
+	now: Date = new Date()
+): number {
+	const { from, to } = analyticsPeriodRange(period, timezone, now)
+	const diff = compareLocalDates(
+		getZonedParts(to, timezone),
+		getZonedParts(from, timezone)
+	)
+	return Math.max(1, Math.round(diff / DAY_MS) + 1)
+}
+
+/** Anything longer than a month is part of extended (Pro) analytics. */
+export function isExtendedPeriod(
+	period: AnalyticsPeriod,
+	timezone: string,
+	now: Date = new Date()
+): boolean {
+	return analyticsPeriodDays(period, timezone, now) > FREE_MAX_DAYS
+}
+
+/** Human label that reads after "за": "за 7 дней", "за II квартал 2026". */
+export function analyticsPeriodLabel(
+	period: AnalyticsPeriod,
+	timezone: string,
+	now: Date = new Date()
+): string {
+	const local = getZonedParts(now, timezone)
+	const quarter = Math.floor(local.month / 3)
+	const custom = parseCustomRange(period)
+	if (custom) {
+		return `${formatDisplayDate(custom.from)} – ${formatDisplayDate(custom.to)}`
+	}
+	switch (period) {
+		case '7d':
+			return '7 дней'
+		case '30d':
+			return '30 дней'
+		case '90d':
+			return '90 дней'
+		case 'week':
+			return 'текущую неделю'
+		case 'month':
+			return MONTHS[local.month]
+		case 'last_month': {
+			const prev = new Date(Date.UTC(local.year, local.month - 1, 1))
+			return `${MONTHS[prev.getUTCMonth()]} ${prev.getUTCFullYear()}`
+		}
+		case 'quarter':
+			return `${QUARTERS[quarter]} квартал ${local.year}`
+		case 'last_quarter':
+			return quarter === 0
+				? `IV квартал ${local.year - 1}`
+				: `${QUARTERS[quarter - 1]} квартал ${local.year}`
+		case 'ytd':
+			return `${local.year} год (с начала года)`
+		case 'last_year':
+			return `${local.year - 1} год`
+		default:
+			return '3 месяца'
+	}
+}
+
+function monthIndex(word: string): number {
+	return MONTH_STEMS.findIndex(stem => new RegExp(`^${stem}`, 'u').test(word))
+}
+
+function parseDisplayDate(value: string, fallbackYear: number): LocalDate | null {
+	const m = value.trim().match(/^(\d{1,2})[./](\d{1,2})(?:[./](\d{2}|\d{4}))?$/)
+	if (!m) return null
+	const rawYear = m[3] ? Number(m[3]) : fallbackYear
+	const date = {
+		year: rawYear < 100 ? 2000 + rawYear : rawYear,
+		month: Number(m[2]) - 1,
+		day: Number(m[1])
+	}
+	return isValidLocalDate(date) ? date : null
+}
+
+/**
+ * Understands the usual ways to name a period without asking the LLM: "прошлый
+ * месяц", "2 квартал 2025", "март", "2024", "01.02.2026 - 15.02.2026".
+ */
+export function parseAnalyticsPeriodText(
+	text: string,
+	timezone: string,
+	now: Date = new Date()
+): AnalyticsPeriod | null {
+	const source = String(text ?? '')
+		.trim()
+		.toLowerCase()
+		.replace(/ё/g, 'е')
+		.replace(/\s+/g, ' ')
+	if (!source) return null
+	const local = getZonedParts(now, timezone)
+
+	if (/прошл\S* месяц/u.test(source)) return 'last_month'
+	if (/прошл\S* квартал/u.test(source)) return 'last_quarter'
+	if (/(текущ|этот|этом)\S* квартал/u.test(source) || source === 'квартал') {
+		return 'quarter'
+	}
+	if (/с начала года|ytd/u.test(source)) return 'ytd'
+	if (/прошл\S* год/u.test(source)) return 'last_year'
+	if (/(текущ|этот|этом)\S* месяц/u.test(source)) return 'month'
+	if (/(текущ|эта|этой)\S* недел/u.test(source)) return 'week'
+
+	const quarter = source.match(/^(?:q([1-4])|([1-4])\s*(?:-?й\s*)?квартал)\s*(\d{4})?/u)
+	if (quarter) {
+		const q = Number(quarter[1] ?? quarter[2]) - 1
+		const year = quarter[3] ? Number(quarter[3]) : local.year
+		return customRangePeriod(
+			{ year, month: q * 3, day: 1 },
+			{ year, month: q * 3 + 3, day: 0 }
+		)
+	}
+
+	const yearOnly = source.match(/^(\d{4})(?:\s*год\S*)?$/u)
+	if (yearOnly) {
+		const year = Number(yearOnly[1])
+		return customRangePeriod({ year, month: 0, day: 1 }, { year, month: 11, day: 31 })
+	}
+
+	const monthYear = source.match(/^(?:в\s+|за\s+)?([а-я]+)(?:\s+(\d{4}))?$/u)
+	if (monthYear) {
+		const month = monthIndex(monthYear[1])
+		if (month >= 0) {
+			// a bare future month means the last one that already started
+			const year = monthYear[2]
+				? Number(monthYear[2])
+				: month > local.month
+					? local.year - 1
+					: local.year
+			return customRangePeriod(
+				{ year, month, day: 1 },
+				{ year, month: month + 1, day: 0 }
+			)
+		}
+	}
+
+	const sides = splitRangeText(source)
+	if (sides) {
+		const to = parseDisplayDate(sides[1], local.year)
+		const from = to ? parseDisplayDate(sides[0], to.year) : null
+		if (from && to) return customRangePeriod(from, to)
+	}
+	return null
+}
+
+/** "с 1 марта по 15 апреля" → ["1 марта", "15 апреля"]; null when not a range. */
+export function splitRangeText(text: string): [string, string] | null {
+	const source = String(text ?? '').trim()
+	const m =
+		source.match(/^(?:с|от)\s+(.+?)\s+(?:по|до)\s+(.+)$/iu) ??
+		source.match(/^([\d./]+)\s*-\s*([\d./]+)$/u) ??
+		source.match(/^(.+?)\s*(?:\.\.|—|–|\s-\s)\s*(.+)$/u)
+	if (!m) return null
+	const from = m[1].trim()
+	const to = m[2].trim()
+	return from && to ? [from, to] : null
+}
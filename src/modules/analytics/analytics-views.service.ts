@@ -0,0 +1,105 @@
+import { Injectable } from '@nestjs/common'
+import { PrismaService } from '../prisma/prisma.service'
+import type { Prisma } from '../../generated/prisma/client'
+import { isAnalyticsPeriod } from './analytics-period.utils'
+import { ANALYTICS_TRANSACTION_TYPES, type AnalyticsFilters } from './analytics.service'
+
+export const MAX_VIEW_NAME_LENGTH = 64
+
+export interface SavedAnalyticsViewItem {
+	id: string
+	name: string
+	filters: AnalyticsFilters
+	createdAt: Date
+}
+
+function stringIds(value: unknown): string[] | undefined {
+	if (!Array.isArray(value)) return undefined
+	const ids = value.filter((v): v is string => typeof v === 'string' && v.length > 0)
+	return ids.length ? ids : undefined
+}
+
+/**
+ * Reads the stored filters JSON. Views saved before category, tag and type filters
+ * existed only carry `period` and `accountId`; unknown periods fall back to a month.
+ */
+export function parseViewFilters(raw: unknown): AnalyticsFilters {
+	const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+	const type = ANALYTICS_TRANSACTION_TYPES.find(t => t === data.type)
+	return {
+		period: isAnalyticsPeriod(data.period) ? data.period : 'month',
+		accountId:
+			typeof data.accountId === 'string' && data.accountId
+				? data.accountId
+				: undefined,
+		categoryIds: stringIds(data.categoryIds),
+		tagIds: stringIds(data.tagIds),
+		type: type
+	}
+}
+
+function toJson(filters: AnalyticsFilters): Prisma.InputJsonValue {
+	return {
+		period: filters.period,
+		accountId: filters.accountId ?? null,
+		categoryIds: filters.categoryIds ?? [],
+		tagIds: filters.tagIds ?? [],
+		type: filters.type ?? null
+	}
+}
+
+@Injectable()
+export class AnalyticsViewsService {
+	constructor(private readonly prisma: PrismaService) {}
+
+	async list(userId: string): Promise<SavedAnalyticsViewItem[]> {
+		const rows = await this.prisma.savedAnalyticsView.findMany({
+			where: { userId },
+			orderBy: { createdAt: 'asc' }
+		})
+		return rows.map(row => ({
+			id: row.id,
+			name: row.name,
+			filters: parseViewFilters(row.filters),
+			createdAt: row.createdAt
+		}))
+	}
+
+	async findOne(id: string, userId: string): Promise<SavedAnalyticsViewItem | null> {
+		const row = await this.prisma.savedAnalyticsView.findFirst({
+			where: { id, userId }
+		})
+		if (!row) return null
+		return {
+			id: row.id,
+			name: row.name,
+			filters: parseViewFilters(row.filters),
+			createdAt: row.createdAt
+		}
+	}
+
+	async create(userId: string, name: string, filters: AnalyticsFilters) {
+		return this.prisma.savedAnalyticsView.create({
+			data: {
+				userId,
+				name: name.trim().slice(0, MAX_VIEW_NAME_LENGTH),
+				filters: toJson(filters)
+			}
+		})
+	}
+
+	async rename(id: string, userId: string, name: string): Promise<boolean> {
+		const result = await this.prisma.savedAnalyticsView.updateMany({
+			where: { id, userId },
+			data: { name: name.trim().slice(0, MAX_VIEW_NAME_LENGTH) }
+		})
+		return result.count > 0
+	}
+
+	async delete(id: string, userId: string): Promise<boolean> {
+		const result = await this.prisma.savedAnalyticsView.deleteMany({
+			where: { id, userId }
+		})
+		return result.count > 0
+	}
+}
@@ -1,8 +1,9 @@
 import { Module } from '@nestjs/common'
 import { AnalyticsService } from './analytics.service'
+import { AnalyticsViewsService } from './analytics-views.service'
 
 @Module({
-	providers: [AnalyticsService],
-	exports: [AnalyticsService]
+	providers: [AnalyticsService, AnalyticsViewsService],
+	exports: [AnalyticsService, AnalyticsViewsService]
 })
 export class AnalyticsModule {}
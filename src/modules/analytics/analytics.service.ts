@@ -1,16 +1,46 @@
 import { Injectable } from '@nestjs/common'
 import { PrismaService } from '../prisma/prisma.service'
+import type { Prisma } from '../../generated/prisma/client'
 import { ExchangeService } from '../exchange/exchange.service'
 import { pickMoneyNumber } from '../../utils/money'
-import { parseTimezoneOffsetMinutes } from '../../utils/date'
+import { DEFAULT_TIMEZONE } from '../../utils/date'
+import {
+	analyticsPeriodDays,
+	analyticsPeriodRange,
+	comparisonPeriodRange,
+	previousPeriodRange,
+	type AnalyticsComparisonMode,
+	type AnalyticsPeriod
+} from './analytics-period.utils'
+import {
+	comparePeriods,
+	type PeriodComparison,
+	type PeriodTotals
+} from './analytics-compare.utils'
+import {
+	anomalyExplanation,
+	categoryAnomalies,
+	transactionAnomalies,
+	type AnomalyEntry
+} from './analytics-anomaly.utils'
 
-export type AnalyticsPeriod = '7d' | '30d' | '90d' | 'week' | 'month' | '3month'
+export type { AnalyticsPeriod } from './analytics-period.utils'
+
+export type AnalyticsTransactionType = 'expense' | 'income' | 'transfer'
+
+export const ANALYTICS_TRANSACTION_TYPES: AnalyticsTransactionType[] = [
+	'expense',
+	'income',
+	'transfer'
+]
 
 export interface AnalyticsFilters {
+	/** Rolling window, calendar period (`last_quarter`) or explicit `from..to` range */
 	period: AnalyticsPeriod
 	accountId?: string
 	categoryIds?: string[]
 	tagIds?: string[]
+	type?: AnalyticsTransactionType
 }
 
 export interface SummaryResult {
@@ -64,58 +94,44 @@ export interface AnomalyRow {
 	tagOrCategory?: string
 }
 
-const ROLLING_DAYS: Record<string, number> = { '7d': 7, '30d': 30, '90d': 90 }
-const UUID_RE = /^[0-9a-f-]{36}$/i
-
-function dateRange(period: AnalyticsPeriod): { from: Date; to: Date } {
-	const now = new Date()
-	const to = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999)
-	let from: Date
-	const days = ROLLING_DAYS[period]
-	if (days !== undefined) {
-		from = new Date(to)
-		from.setDate(from.getDate() - days)
-		from.setHours(0, 0, 0, 0)
-	} else if (period === 'week') {
-		const day = now.getDay()
-		const mondayOffset = day === 0 ? -6 : 1 - day
-		from = new Date(now)
-		from.setDate(now.getDate() + mondayOffset)
-		from.setHours(0, 0, 0, 0)
-	} else if (period === 'month') {
-		from = new Date(now.getFullYear(), now.getMonth(), 1, 0, 0, 0, 0)
-	} else {
-		// 3month: first day of (current - 2) month
-		from = new Date(now.getFullYear(), now.getMonth() - 2, 1, 0, 0, 0, 0)
-	}
-	return { from, to }
+export interface TransactionAnomaly extends AnomalyRow {
+	/** Median expense the transaction was compared with */
+	usual: number
+	ratio: number
+	score: number
+	explanation: string
 }
 
-function periodDays(period: AnalyticsPeriod): number {
-	const { from, to } = dateRange(period)
-	return Math.max(1, Math.ceil((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000)))
+export interface CategoryAnomaly {
+	/** categoryId, or the legacy category name for uncategorized rows */
+	categoryKey: string
+	categoryName: string
+	amount: number
+	currency: string
+	usual: number
+	ratio: number
+	score: number
+	explanation: string
 }
 
-function prevDateRange(period: AnalyticsPeriod): { from: Date; to: Date } {
-	const { from, to } = dateRange(period)
-	const span = to.getTime() - from.getTime()
-	return {
-		from: new Date(from.getTime() - span),
-		to: new Date(from.getTime() - 1)
-	}
+export interface AnomalyReport {
+	transactions: TransactionAnomaly[]
+	categories: CategoryAnomaly[]
 }
 
-function monthStartUtcFromOffset(timezone: string, now: Date = new Date()): Date {
-	const offsetMin = parseTimezoneOffsetMinutes(timezone)
-	// "Local" time = UTC + offset
-	const local = new Date(now.getTime() + offsetMin * 60_000)
-	const localMonthStart = new Date(
-		Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), 1, 0, 0, 0, 0)
-	)
-	// Convert local month start back to UTC instant
-	return new Date(localMonthStart.getTime() - offsetMin * 60_000)
+export interface PeriodComparisonResult extends PeriodComparison {
+	range: { from: Date; to: Date }
+	compareRange: { from: Date; to: Date }
 }
 
+const UUID_RE = /^[0-9a-f-]{36}$/i
+/** Rolling window of single transactions a category baseline is built from. */
+const ANOMALY_HISTORY_DAYS = 180
+/** Earlier periods a category total is compared with. */
+const ANOMALY_BASELINE_PERIODS = 6
+const ANOMALY_MAX_HISTORY_DAYS = 3 * 366
+const DAY_MS = 24 * 60 * 60 * 1000
+
 @Injectable()
 export class AnalyticsService {
 	constructor(
@@ -123,7 +139,7 @@ export class AnalyticsService {
 		private readonly exchange: ExchangeService
 	) {}
 
-	private pickTxAmount(tx: {
+	pickTxAmount(tx: {
 		amount: number
 		amountDecimal?: unknown
 		currency: string
@@ -144,7 +160,7 @@ export class AnalyticsService {
 		}
 	}
 
-	private pickAmountUsd(tx: {
+	pickAmountUsd(tx: {
 		amountUsd?: number | null
 		amountUsdDecimal?: unknown
 	}): number | null {
@@ -170,9 +186,11 @@ export class AnalyticsService {
 		return { category: categoryIdOrName }
 	}
 
-	private baseWhere(userId: string, filters: AnalyticsFilters) {
-		const { from, to } = dateRange(filters.period)
-		const where: any = {
+	private baseWhere(userId: string, filters: AnalyticsFilters, timezone: string) {
+		const { from, to } = analyticsPeriodRange(filters.period, timezone)
+		const where: Prisma.TransactionWhereInput & {
+			transactionDate: { gte: Date; lte: Date }
+		} = {
 			userId,
 			transactionDate: { gte: from, lte: to },
 			account: { isHidden: false }
@@ -186,11 +204,23 @@ export class AnalyticsService {
 		if (filters.tagIds?.length) {
 			where.tagId = { in: filters.tagIds }
 		}
+		if (filters.type) {
+			where.direction = filters.type
+		}
 		return { where, from, to }
 	}
 
-	getDateRange(period: AnalyticsPeriod): { from: Date; to: Date } {
-		return dateRange(period)
+	/** Prisma `where` for the transactions the analytics screen is showing. */
+	transactionsWhere(
+		userId: string,
+		filters: AnalyticsFilters,
+		timezone: string
+	): Prisma.TransactionWhereInput {
+		return this.baseWhere(userId, filters, timezone).where
+	}
+
+	getDateRange(period: AnalyticsPeriod, timezone: string): { from: Date; to: Date } {
+		return analyticsPeriodRange(period, timezone)
 	}
 
 	/** Net transfer effect in main currency: positive = money into wallet from external */
@@ -198,9 +228,10 @@ export class AnalyticsService {
 		userId: string,
 		period: AnalyticsPeriod,
 		mainCurrency: string,
-		accountId?: string
+		accountId?: string,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<number> {
-		const { from, to } = dateRange(period)
+		const { from, to } = analyticsPeriodRange(period, timezone)
 		const transferTxs = await this.prisma.transaction.findMany({
 			where: {
 				userId,
@@ -255,9 +286,10 @@ export class AnalyticsService {
 		userId: string,
 		period: AnalyticsPeriod,
 		mainCurrency: string,
-		accountId?: string
+		accountId?: string,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<number> {
-		const { from, to } = dateRange(period)
+		const { from, to } = analyticsPeriodRange(period, timezone)
 		const rows = await this.prisma.transaction.findMany({
 			where: {
 				userId,
@@ -302,11 +334,12 @@ export class AnalyticsService {
 		userId: string,
 		period: AnalyticsPeriod,
 		mainCurrency: string,
-		accountId?: string
+		accountId?: string,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<number> {
 		const [summary, transferCf] = await Promise.all([
-			this.getSummary(userId, period, mainCurrency, accountId),
-			this.getTransferCashflow(userId, period, mainCurrency, accountId)
+			this.getSummary(userId, period, mainCurrency, accountId, timezone),
+			this.getTransferCashflow(userId, period, mainCurrency, accountId, timezone)
 		])
 		return summary.income - summary.expenses + transferCf
 	}
@@ -316,22 +349,24 @@ export class AnalyticsService {
 		period: AnalyticsPeriod,
 		mainCurrency: string,
 		accountId?: string,
-		timezone: string = 'UTC+02:00'
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<number> {
 		// For month: return balance snapshot at 1st day of current month (00:00) in user's timezone.
-		if (period === 'month') {
-			const at = monthStartUtcFromOffset(timezone)
-			return this.getBalanceAt(userId, at, mainCurrency, accountId)
+		// Periods that already ended are snapshotted too, so later flows don't leak in.
+		const { from, to } = analyticsPeriodRange(period, timezone)
+		if (period === 'month' || to.getTime() < Date.now()) {
+			return this.getBalanceAt(userId, from, mainCurrency, accountId)
 		}
 
 		const [summary, transferCf] = await Promise.all([
-			this.getSummary(userId, period, mainCurrency, accountId),
-			this.getTransferCashflow(userId, period, mainCurrency, accountId)
+			this.getSummary(userId, period, mainCurrency, accountId, timezone),
+			this.getTransferCashflow(userId, period, mainCurrency, accountId, timezone)
 		])
 		return summary.balance - (summary.income - summary.expenses) - transferCf
 	}
 
-	private async getBalanceAt(
+	/** Balance of visible accounts (or one account) at `at`, in the main currency. */
+	async getBalanceAt(
 		userId: string,
 		at: Date,
 		mainCurrency: string,
@@ -414,9 +449,10 @@ export class AnalyticsService {
 		userId: string,
 		period: AnalyticsPeriod,
 		mainCurrency: string,
-		accountId?: string
+		accountId?: string,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<number> {
-		const { from, to } = dateRange(period)
+		const { from, to } = analyticsPeriodRange(period, timezone)
 		const accountFilter = accountId
 			? { accountId }
 			: { account: { userId, isHidden: false } }
@@ -459,9 +495,10 @@ export class AnalyticsService {
 		mainCurrency: string,
 		limit = 10,
 		accountId?: string,
-		beginningBalance?: number
+		beginningBalance?: number,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<TransferSum[]> {
-		const { from, to } = dateRange(period)
+		const { from, to } = analyticsPeriodRange(period, timezone)
 		const accountFilter = accountId
 			? { accountId }
 			: { account: { userId, isHidden: false } }
@@ -586,9 +623,10 @@ export class AnalyticsService {
 		mainCurrency: string,
 		beginningBalance: number,
 		limit = 5,
-		accountId?: string
+		accountId?: string,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<CategorySum[]> {
-		const { from, to } = dateRange(period)
+		const { from, to } = analyticsPeriodRange(period, timezone)
 		const accountFilter = accountId
 			? { accountId }
 			: { account: { userId, isHidden: false } }
@@ -683,7 +721,7 @@ export class AnalyticsService {
 			}))
 	}
 
-	private async toMainCurrency(
+	async toMainCurrency(
 		amount: number,
 		currency: string,
 		mainCurrency: string,
@@ -707,14 +745,30 @@ export class AnalyticsService {
 		return amount
 	}
 
+	private async sumAssets(
+		assets: { currency: string; amount: number; amountDecimal: unknown }[],
+		mainCurrency: string
+	): Promise<number> {
+		let total = 0
+		for (const a of assets) {
+			total += await this.toMainCurrency(
+				pickMoneyNumber(a.amountDecimal, a.amount, 0),
+				a.currency,
+				mainCurrency
+			)
+		}
+		return total
+	}
+
 	async getSummary(
 		userId: string,
 		period: AnalyticsPeriod,
 		mainCurrency: string,
-		accountId?: string
+		accountId?: string,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<SummaryResult> {
-		const { from, to } = dateRange(period)
-		const prev = prevDateRange(period)
+		const { from, to } = analyticsPeriodRange(period, timezone)
+		const prev = previousPeriodRange(period, timezone)
 
 		const accountFilter = accountId
 			? { accountId }
@@ -812,24 +866,15 @@ export class AnalyticsService {
 			sumInMain(expenseRows),
 			sumInMain(incomePrevRows),
 			sumInMain(expensePrevRows),
-			(async () => {
-				let b = 0
-				for (const a of assets) {
-					b += await this.toMainCurrency(
-						pickMoneyNumber(a.amountDecimal, a.amount, 0),
-						a.currency,
-						mainCurrency
-					)
-				}
-				return b
-			})()
+			this.sumAssets(assets, mainCurrency)
 		])
 
 		const expensesTrendPct =
 			expensesPrev > 0 ? ((expenses - expensesPrev) / expensesPrev) * 100 : null
 		const incomeTrendPct =
 			incomePrev > 0 ? ((income - incomePrev) / incomePrev) * 100 : null
-		const burnRate = periodDays(period) > 0 ? expenses / periodDays(period) : 0
+		const days = analyticsPeriodDays(period, timezone)
+		const burnRate = days > 0 ? expenses / days : 0
 
 		return {
 			balance,
@@ -843,15 +888,65 @@ export class AnalyticsService {
 		}
 	}
 
+	/** Expense totals in main currency for an explicit range, keyed by categoryId. */
+	async getExpenseByCategory(
+		userId: string,
+		range: { from: Date; to: Date },
+		mainCurrency: string,
+		accountId?: string
+	): Promise<{ total: number; byCategoryId: Map<string, number> }> {
+		const accountFilter = accountId
+			? { accountId }
+			: { account: { userId, isHidden: false } }
+		const txs = await this.prisma.transaction.findMany({
+			where: {
+				userId,
+				direction: 'expense',
+				transactionDate: { gte: range.from, lte: range.to },
+				...accountFilter
+			},
+			select: {
+				categoryId: true,
+				amount: true,
+				amountDecimal: true,
+				currency: true,
+				convertedAmount: true,
+				convertedAmountDecimal: true,
+				convertToCurrency: true,
+				transactionDate: true,
+				amountUsd: true,
+				amountUsdDecimal: true
+			}
+		})
+		let total = 0
+		const byCategoryId = new Map<string, number>()
+		for (const tx of txs) {
+			const { amount, currency } = this.pickTxAmount(tx)
+			const inMain = await this.toMainCurrency(
+				amount,
+				currency,
+				mainCurrency,
+				tx.transactionDate,
+				this.pickAmountUsd(tx)
+			)
+			total += inMain
+			if (tx.categoryId) {
+				byCategoryId.set(tx.categoryId, (byCategoryId.get(tx.categoryId) ?? 0) + inMain)
+			}
+		}
+		return { total, byCategoryId }
+	}
+
 	async getTopCategories(
 		userId: string,
 		period: AnalyticsPeriod,
 		mainCurrency: string,
 		limit = 5,
 		accountId?: string,
-		beginningBalance?: number
+		beginningBalance?: number,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<CategorySum[]> {
-		const { from, to } = dateRange(period)
+		const { from, to } = analyticsPeriodRange(period, timezone)
 		const accountFilter = accountId
 			? { accountId }
 			: { account: { userId, isHidden: false } }
@@ -952,9 +1047,10 @@ export class AnalyticsService {
 		period: AnalyticsPeriod,
 		mainCurrency: string,
 		limit = 10,
-		accountId?: string
+		accountId?: string,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<TagSum[]> {
-		const { from, to } = dateRange(period)
+		const { from, to } = analyticsPeriodRange(period, timezone)
 		const accountFilter = accountId
 			? { accountId }
 			: { account: { userId, isHidden: false } }
@@ -1029,9 +1125,10 @@ export class AnalyticsService {
 		userId: string,
 		period: AnalyticsPeriod,
 		mainCurrency: string,
-		accountId?: string
+		accountId?: string,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<ByTypeResult> {
-		const { from, to } = dateRange(period)
+		const { from, to } = analyticsPeriodRange(period, timezone)
 		const accountFilter = accountId
 			? { accountId }
 			: { account: { userId, isHidden: false } }
@@ -1131,28 +1228,39 @@ export class AnalyticsService {
 		return { expense, income, transfer }
 	}
 
+	/**
+	 * Expenses that stand out against the user's own history: single transactions
+	 * against the median/MAD of their category over the last months, category totals
+	 * against the same category in earlier periods of the same length.
+	 */
 	async getAnomalies(
 		userId: string,
 		period: AnalyticsPeriod,
 		mainCurrency: string,
-		threshold: number,
 		accountId?: string,
-		beginningBalance?: number
-	): Promise<AnomalyRow[]> {
-		const { from, to } = dateRange(period)
+		timezone: string = DEFAULT_TIMEZONE
+	): Promise<AnomalyReport> {
+		const { from, to } = analyticsPeriodRange(period, timezone)
+		const span = to.getTime() - from.getTime() + 1
+		const historyFrom = new Date(
+			from.getTime() -
+				Math.min(
+					ANOMALY_MAX_HISTORY_DAYS * DAY_MS,
+					Math.max(
+						ANOMALY_HISTORY_DAYS * DAY_MS,
+						span * ANOMALY_BASELINE_PERIODS
+					)
+				)
+		)
 		const accountFilter = accountId
 			? { accountId }
 			: { account: { userId, isHidden: false } }
-		const effectiveThreshold =
-			beginningBalance != null && beginningBalance > 0
-				? beginningBalance * 0.5
-				: threshold
 
 		const txs = await this.prisma.transaction.findMany({
 			where: {
 				userId,
 				direction: 'expense',
-				transactionDate: { gte: from, lte: to },
+				transactionDate: { gte: historyFrom, lte: to },
 				...accountFilter
 			},
 			select: {
@@ -1165,57 +1273,147 @@ export class AnalyticsService {
 				convertedAmount: true,
 				convertedAmountDecimal: true,
 				convertToCurrency: true,
+				categoryId: true,
 				category: true,
-				tagId: true,
+				categoryRef: { select: { name: true } },
+				tag: { select: { name: true } },
 				amountUsd: true,
 				amountUsdDecimal: true
 			},
-			orderBy: { amount: 'desc' }
+			orderBy: { transactionDate: 'asc' }
 		})
+		if (!txs.length) return { transactions: [], categories: [] }
 
-		const tagIds = [...new Set(txs.map(t => t.tagId).filter(Boolean))] as string[]
-		const tags = tagIds.length
-			? await this.prisma.tag.findMany({
-					where: { id: { in: tagIds } },
-					select: { id: true, name: true }
-				})
-			: []
-		const tagIdToName = new Map(tags.map(t => [t.id, t.name]))
-
-		const result: AnomalyRow[] = []
+		const rateAt = await this.exchange.getHistoricalRateLookup(
+			historyFrom,
+			to,
+			txs.map(t => this.pickTxAmount(t).currency),
+			mainCurrency
+		)
+		const entries: (AnomalyEntry & { date: Date })[] = []
+		const categoryNames = new Map<string, string>()
 		for (const t of txs) {
 			const { amount, currency } = this.pickTxAmount(t)
-			const amt = await this.toMainCurrency(
-				amount,
-				currency,
-				mainCurrency,
-				t.transactionDate,
-				this.pickAmountUsd(t)
+			const categoryKey = t.categoryId ?? t.category ?? ''
+			categoryNames.set(
+				categoryKey,
+				t.categoryRef?.name ?? t.category ?? 'Без категории'
 			)
-			if (amt >= effectiveThreshold) {
-				const tagOrCategory = t.tagId
-					? (tagIdToName.get(t.tagId) ?? null)
-					: (t.category ?? null)
-				result.push({
-					transactionId: t.id,
-					amount: amt,
-					currency: mainCurrency,
-					description: t.description,
-					transactionDate: t.transactionDate,
-					tagOrCategory: tagOrCategory ?? undefined
-				})
-			}
+			const rate = rateAt(t.transactionDate, currency)
+			entries.push({
+				id: t.id,
+				categoryKey,
+				date: t.transactionDate,
+				amount:
+					rate != null
+						? amount * rate
+						: await this.toMainCurrency(
+								amount,
+								currency,
+								mainCurrency,
+								undefined,
+								this.pickAmountUsd(t)
+							)
+			})
+		}
+
+		const current = entries.filter(e => e.date >= from)
+		const rollingFrom = new Date(from.getTime() - ANOMALY_HISTORY_DAYS * DAY_MS)
+		const txFlags = transactionAnomalies(
+			entries.filter(e => e.date >= rollingFrom && e.date < from),
+			current
+		)
+		const currentById = new Map(current.map(e => [e.id, e]))
+		const transactions: TransactionAnomaly[] = []
+		for (const t of txs) {
+			const flag = txFlags.get(t.id)
+			const entry = currentById.get(t.id)
+			if (!flag || !entry) continue
+			transactions.push({
+				transactionId: t.id,
+				amount: entry.amount,
+				currency: mainCurrency,
+				description: t.description,
+				transactionDate: t.transactionDate,
+				tagOrCategory: t.tag?.name ?? categoryNames.get(entry.categoryKey),
+				usual: flag.usual,
+				ratio: flag.ratio,
+				score: flag.score,
+				explanation: anomalyExplanation(
+					flag,
+					'transaction',
+					flag.ownCategory
+						? (categoryNames.get(entry.categoryKey) ?? null)
+						: null
+				)
+			})
+		}
+
+		// earlier windows of the same length, only those after the first recorded expense
+		const firstDate = entries[0].date.getTime()
+		const windows: { from: number; to: number }[] = []
+		for (let i = 1; i <= ANOMALY_BASELINE_PERIODS; i++) {
+			const windowFrom = from.getTime() - i * span
+			if (windowFrom < historyFrom.getTime() || windowFrom < firstDate) break
+			windows.push({ from: windowFrom, to: windowFrom + span })
+		}
+		const currentTotals = new Map<string, number>()
+		for (const e of current) {
+			currentTotals.set(
+				e.categoryKey,
+				(currentTotals.get(e.categoryKey) ?? 0) + e.amount
+			)
+		}
+		const previousTotals = new Map<string, number[]>()
+		for (const key of currentTotals.keys()) {
+			previousTotals.set(
+				key,
+				windows.map(w =>
+					entries
+						.filter(
+							e =>
+								e.categoryKey === key &&
+								e.date.getTime() >= w.from &&
+								e.date.getTime() < w.to
+						)
+						.reduce((sum, e) => sum + e.amount, 0)
+				)
+			)
+		}
+		const categories: CategoryAnomaly[] = []
+		for (const [key, flag] of categoryAnomalies(currentTotals, previousTotals)) {
+			const categoryName = categoryNames.get(key) ?? 'Без категории'
+			categories.push({
+				categoryKey: key,
+				categoryName,
+				amount: currentTotals.get(key) ?? 0,
+				currency: mainCurrency,
+				usual: flag.usual,
+				ratio: flag.ratio,
+				score: flag.score,
+				explanation: anomalyExplanation(flag, 'category', categoryName)
+			})
+		}
+		return {
+			transactions: transactions.sort((a, b) => b.score - a.score),
+			categories: categories.sort((a, b) => b.score - a.score)
 		}
-		return result
 	}
 
 	async getBurnRate(
 		userId: string,
 		period: AnalyticsPeriod,
 		mainCurrency: string,
-		accountId?: string
+		accountId?: string,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<number> {
-		const summary = await this.getSummary(userId, period, mainCurrency, accountId)
+		const summary = await this.getSummary(
+			userId,
+			period,
+			mainCurrency,
+			accountId,
+			timezone
+		)
 		return summary.burnRate
 	}
 
@@ -1226,9 +1424,10 @@ export class AnalyticsService {
 		page: number,
 		pageSize: number,
 		mainCurrency: string,
-		accountId?: string
+		accountId?: string,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<{ transactions: AnomalyRow[]; total: number }> {
-		const { from, to } = dateRange(period)
+		const { from, to } = analyticsPeriodRange(period, timezone)
 		const accountFilter = accountId
 			? { accountId }
 			: { account: { userId, isHidden: false } }
@@ -1299,9 +1498,10 @@ export class AnalyticsService {
 		page: number,
 		pageSize: number,
 		mainCurrency: string,
-		accountId?: string
+		accountId?: string,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<{ transactions: AnomalyRow[]; total: number }> {
-		const { from, to } = dateRange(period)
+		const { from, to } = analyticsPeriodRange(period, timezone)
 		const accountFilter = accountId
 			? { accountId }
 			: { account: { userId, isHidden: false } }
@@ -1364,11 +1564,193 @@ export class AnalyticsService {
 		return { transactions, total }
 	}
 
+	/** Human-readable parts of the non-period filters, e.g. `Категории: Еда, Кафе`. */
+	async describeFilters(
+		userId: string,
+		filters: Omit<AnalyticsFilters, 'period'>
+	): Promise<string[]> {
+		const [account, categories, tags] = await Promise.all([
+			filters.accountId
+				? this.prisma.account.findFirst({
+						where: { id: filters.accountId, userId },
+						select: { name: true }
+					})
+				: null,
+			filters.categoryIds?.length
+				? this.prisma.category.findMany({
+						where: { id: { in: filters.categoryIds }, userId },
+						select: { name: true }
+					})
+				: ([] as { name: string }[]),
+			filters.tagIds?.length
+				? this.prisma.tag.findMany({
+						where: { id: { in: filters.tagIds }, userId },
+						select: { name: true }
+					})
+				: ([] as { name: string }[])
+		])
+		const typeNames: Record<AnalyticsTransactionType, string> = {
+			expense: 'расходы',
+			income: 'доходы',
+			transfer: 'переводы'
+		}
+		const parts: string[] = []
+		if (account) parts.push(`Счёт: ${account.name}`)
+		if (categories.length) {
+			parts.push(`Категории: ${categories.map(c => c.name).join(', ')}`)
+		}
+		if (tags.length) parts.push(`Теги: ${tags.map(t => t.name).join(', ')}`)
+		if (filters.type) parts.push(`Тип: ${typeNames[filters.type]}`)
+		return parts
+	}
+
+	/** Summary narrowed by categories, tags and type; without them equals `getSummary`. */
 	async getFilteredSummary(
 		userId: string,
 		filters: AnalyticsFilters,
-		mainCurrency: string
+		mainCurrency: string,
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<SummaryResult> {
-		return this.getSummary(userId, filters.period, mainCurrency, filters.accountId)
+		if (!filters.categoryIds?.length && !filters.tagIds?.length && !filters.type) {
+			return this.getSummary(
+				userId,
+				filters.period,
+				mainCurrency,
+				filters.accountId,
+				timezone
+			)
+		}
+		const { where } = this.baseWhere(userId, filters, timezone)
+		const prev = previousPeriodRange(filters.period, timezone)
+		const sumWhere = async (
+			direction: 'income' | 'expense',
+			range: { gte: Date; lte: Date }
+		): Promise<number> => {
+			if (filters.type && filters.type !== direction) return 0
+			const rows = await this.prisma.transaction.findMany({
+				where: { ...where, direction, transactionDate: range },
+				select: {
+					amount: true,
+					amountDecimal: true,
+					currency: true,
+					convertedAmount: true,
+					convertedAmountDecimal: true,
+					convertToCurrency: true,
+					transactionDate: true,
+					amountUsd: true,
+					amountUsdDecimal: true
+				}
+			})
+			let total = 0
+			for (const r of rows) {
+				const { amount, currency } = this.pickTxAmount(r)
+				total += await this.toMainCurrency(
+					amount,
+					currency,
+					mainCurrency,
+					r.transactionDate,
+					this.pickAmountUsd(r)
+				)
+			}
+			return total
+		}
+		const current = where.transactionDate
+		const previous = { gte: prev.from, lte: prev.to }
+		const assets = await this.prisma.accountAsset.findMany({
+			where: filters.accountId
+				? { accountId: filters.accountId }
+				: { account: { userId, isHidden: false } },
+			select: { currency: true, amount: true, amountDecimal: true }
+		})
+		const [income, expenses, incomePrev, expensesPrev, balance] = await Promise.all([
+			sumWhere('income', current),
+			sumWhere('expense', current),
+			sumWhere('income', previous),
+			sumWhere('expense', previous),
+			this.sumAssets(assets, mainCurrency)
+		])
+		const days = analyticsPeriodDays(filters.period, timezone)
+		return {
+			balance,
+			expenses,
+			income,
+			expensesPrev,
+			incomePrev,
+			expensesTrendPct:
+				expensesPrev > 0 ? ((expenses - expensesPrev) / expensesPrev) * 100 : null,
+			incomeTrendPct: incomePrev > 0 ? ((income - incomePrev) / incomePrev) * 100 : null,
+			burnRate: days > 0 ? expenses / days : 0
+		}
+	}
+
+	/** Income, expenses and expenses per category name for an explicit range. */
+	private async periodTotals(
+		userId: string,
+		range: { from: Date; to: Date },
+		mainCurrency: string,
+		accountId?: string
+	): Promise<PeriodTotals> {
+		const accountFilter = accountId
+			? { accountId }
+			: { account: { userId, isHidden: false } }
+		const txs = await this.prisma.transaction.findMany({
+			where: {
+				userId,
+				direction: { in: ['income', 'expense'] },
+				transactionDate: { gte: range.from, lte: range.to },
+				...accountFilter
+			},
+			select: {
+				direction: true,
+				category: true,
+				categoryRef: { select: { name: true } },
+				amount: true,
+				amountDecimal: true,
+				currency: true,
+				convertedAmount: true,
+				convertedAmountDecimal: true,
+				convertToCurrency: true,
+				transactionDate: true,
+				amountUsd: true,
+				amountUsdDecimal: true
+			}
+		})
+		const totals: PeriodTotals = { income: 0, expenses: 0, categories: new Map() }
+		for (const tx of txs) {
+			const { amount, currency } = this.pickTxAmount(tx)
+			const inMain = await this.toMainCurrency(
+				amount,
+				currency,
+				mainCurrency,
+				tx.transactionDate,
+				this.pickAmountUsd(tx)
+			)
+			if (tx.direction === 'income') {
+				totals.income += inMain
+				continue
+			}
+			totals.expenses += inMain
+			const name = tx.categoryRef?.name ?? tx.category ?? '📦Другое'
+			totals.categories.set(name, (totals.categories.get(name) ?? 0) + inMain)
+		}
+		return totals
+	}
+
+	/** The period side by side with the previous one or the same dates a year earlier. */
+	async getPeriodComparison(
+		userId: string,
+		period: AnalyticsPeriod,
+		mode: AnalyticsComparisonMode,
+		mainCurrency: string,
+		accountId?: string,
+		timezone: string = DEFAULT_TIMEZONE
+	): Promise<PeriodComparisonResult> {
+		const range = analyticsPeriodRange(period, timezone)
+		const compareRange = comparisonPeriodRange(period, mode, timezone)
+		const [current, previous] = await Promise.all([
+			this.periodTotals(userId, range, mainCurrency, accountId),
+			this.periodTotals(userId, compareRange, mainCurrency, accountId)
+		])
+		return { ...comparePeriods(current, previous), range, compareRange }
 	}
 }
@@ -0,0 +1,507 @@
+import { Injectable } from '@nestjs/common'
+import { PrismaService } from '../prisma/prisma.service'
+import type { Prisma } from '../../generated/prisma/client'
+import { parseViewFilters } from '../analytics/analytics-views.service'
+import { pickMoneyNumber, toDbMoney } from '../../utils/money'
+import { roundByCurrencyPolicy } from '../../utils/format'
+import {
+	BACKUP_FORMAT,
+	BACKUP_VERSION,
+	balanceKey,
+	openingBalances,
+	sumBalanceEffects,
+	transactionKey,
+	type BackupFile,
+	type BackupTransaction
+} from './backup.utils'
+
+/** LLM memory types whose value is an account id and has to be remapped. */
+const ACCOUNT_VALUE_MEMORY_TYPES = ['import_account']
+
+const RESTORE_TIMEOUT_MS = 120_000
+
+export interface BackupRestoreSummary {
+	accountsCreated: number
+	accountsMerged: number
+	transactionsCreated: number
+	transactionsSkipped: number
+	categoriesCreated: number
+	tagsCreated: number
+	viewsCreated: number
+	alertsCreated: number
+	memoriesRestored: number
+}
+
+function sameName(a: string, b: string): boolean {
+	return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+function remap(ids: Map<string, string>, id: string | null | undefined): string | null {
+	return id ? (ids.get(id) ?? null) : null
+}
+
+@Injectable()
+export class BackupService {
+	constructor(private readonly prisma: PrismaService) {}
+
+	/**
+	 * Everything the user entered, in a versioned layout that `restore` reads back.
+	 * Doubles as the data-portability export.
+	 */
+	async export(userId: string): Promise<BackupFile> {
+		const [user, accounts, categories, tags, transactions, views, alerts, memories] =
+			await Promise.all([
+				this.prisma.user.findUniqueOrThrow({ where: { id: userId } }),
+				this.prisma.account.findMany({
+					where: { userId },
+					include: { assets: true },
+					orderBy: { createdAt: 'asc' }
+				}),
+				this.prisma.category.findMany({
+					where: { userId },
+					orderBy: { createdAt: 'asc' }
+				}),
+				this.prisma.tag.findMany({
+					where: { userId },
+					include: { aliases: true },
+					orderBy: { createdAt: 'asc' }
+				}),
+				this.prisma.transaction.findMany({
+					where: { userId },
+					orderBy: [{ transactionDate: 'asc' }, { createdAt: 'asc' }]
+				}),
+				this.prisma.savedAnalyticsView.findMany({
+					where: { userId },
+					orderBy: { createdAt: 'asc' }
+				}),
+				this.prisma.alertConfig.findMany({
+					where: { userId },
+					orderBy: { createdAt: 'asc' }
+				}),
+				this.prisma.llmUserMemory.findMany({
+					where: { userId },
+					orderBy: { createdAt: 'asc' }
+				})
+			])
+		return {
+			format: BACKUP_FORMAT,
+			version: BACKUP_VERSION,
+			exportedAt: new Date().toISOString(),
+			user: {
+				telegramId: user.telegramId,
+				mainCurrency: user.mainCurrency,
+				timezone: user.timezone,
+				defaultAccountId: user.defaultAccountId,
+				createdAt: user.createdAt.toISOString()
+			},
+			accounts: accounts.map(a => ({
+				id: a.id,
+				name: a.name,
+				type: a.type,
+				currency: a.currency,
+				isHidden: a.isHidden,
+				createdAt: a.createdAt.toISOString(),
+				assets: a.assets.map(asset => ({
+					currency: asset.currency,
+					amount: pickMoneyNumber(asset.amountDecimal, asset.amount, 0)
+				}))
+			})),
+			categories: categories.map(c => ({
+				id: c.id,
+				name: c.name,
+				isDefault: c.isDefault
+			})),
+			tags: tags.map(t => ({
+				id: t.id,
+				name: t.name,
+				isDefault: t.isDefault,
+				usageCount: t.usageCount,
+				aliases: t.aliases.map(a => a.alias)
+			})),
+			transactions: transactions.map(tx => ({
+				id: tx.id,
+				accountId: tx.accountId,
+				fromAccountId: tx.fromAccountId,
+				toAccountId: tx.toAccountId,
+				direction: tx.direction,
+				amount: pickMoneyNumber(tx.amountDecimal, tx.amount, 0),
+				currency: tx.currency,
+				convertedAmount:
+					tx.convertedAmount != null
+						? pickMoneyNumber(
+								tx.convertedAmountDecimal,
+								tx.convertedAmount,
+								0
+							)
+						: null,
+				convertToCurrency: tx.convertToCurrency,
+				amountUsd:
+					tx.amountUsd != null
+						? pickMoneyNumber(tx.amountUsdDecimal, tx.amountUsd, 0)
+						: null,
+				categoryId: tx.categoryId,
+				category: tx.category,
+				tagId: tx.tagId,
+				description: tx.description,
+				rawText: tx.rawText,
+				transactionDate: tx.transactionDate.toISOString(),
+				createdAt: tx.createdAt.toISOString()
+			})),
+			savedViews: views.map(v => ({
+				name: v.name,
+				filters: v.filters,
+				createdAt: v.createdAt.toISOString()
+			})),
+			alertConfigs: alerts.map(a => ({
+				type: a.type,
+				threshold: pickMoneyNumber(a.thresholdDecimal, a.threshold, 0),
+				categoryId: a.categoryId,
+				period: a.period,
+				accountId: a.accountId,
+				currency: a.currency,
+				enabled: a.enabled
+			})),
+			llmMemories: memories.map(m => ({
+				type: m.type,
+				key: m.key,
+				value: m.value,
+				confidence: m.confidence,
+				hits: m.hits
+			}))
+		}
+	}
+
+	/**
+	 * Merges a backup into the user's data. Accounts, categories and tags are matched
+	 * by name and created when missing; every id in the file is remapped. Transactions
+	 * already present on a matched account are skipped, and balances are recomputed
+	 * from the restored transactions instead of being copied.
+	 */
+	async restore(userId: string, backup: BackupFile): Promise<BackupRestoreSummary> {
+		const summary: BackupRestoreSummary = {
+			accountsCreated: 0,
+			accountsMerged: 0,
+			transactionsCreated: 0,
+			transactionsSkipped: 0,
+			categoriesCreated: 0,
+			tagsCreated: 0,
+			viewsCreated: 0,
+			alertsCreated: 0,
+			memoriesRestored: 0
+		}
+		await this.prisma.$transaction(
+			async tx => {
+				const user = await tx.user.findUniqueOrThrow({ where: { id: userId } })
+				const hadTransactions =
+					(await tx.transaction.count({ where: { userId } })) > 0
+
+				const accountIds = new Map<string, string>()
+				const mergedAccountIds = new Set<string>()
+				const existingAccounts = await tx.account.findMany({
+					where: { userId },
+					include: { assets: true }
+				})
+				for (const account of backup.accounts) {
+					const match = existingAccounts.find(
+						a =>
+							a.isHidden === account.isHidden &&
+							sameName(a.name, account.name)
+					)
+					if (match) {
+						accountIds.set(account.id, match.id)
+						mergedAccountIds.add(account.id)
+						summary.accountsMerged++
+						continue
+					}
+					const created = await tx.account.create({
+						data: {
+							userId,
+							name: account.name,
+							type: account.type,
+							currency: account.currency,
+							isHidden: account.isHidden,
+							createdAt: new Date(account.createdAt)
+						}
+					})
+					accountIds.set(account.id, created.id)
+					summary.accountsCreated++
+				}
+
+				const categoryIds = new Map<string, string>()
+				const existingCategories = await tx.category.findMany({
+					where: { userId }
+				})
+				for (const category of backup.categories) {
+					const match = existingCategories.find(c =>
+						sameName(c.name, category.name)
+					)
+					const id =
+						match?.id ??
+						(
+							await tx.category.create({
+								data: {
+									userId,
+									name: category.name,
+									isDefault: category.isDefault
+								}
+							})
+						).id
+					if (!match) summary.categoriesCreated++
+					categoryIds.set(category.id, id)
+				}
+
+				const tagIds = new Map<string, string>()
+				const existingTags = await tx.tag.findMany({
+					where: { userId },
+					include: { aliases: true }
+				})
+				for (const tag of backup.tags) {
+					const match = existingTags.find(t => sameName(t.name, tag.name))
+					const id =
+						match?.id ??
+						(
+							await tx.tag.create({
+								data: {
+									userId,
+									name: tag.name,
+									isDefault: tag.isDefault,
+									usageCount: tag.usageCount
+								}
+							})
+						).id
+					if (!match) summary.tagsCreated++
+					tagIds.set(tag.id, id)
+					const known = new Set(
+						(match?.aliases ?? []).map(a => a.alias.toLowerCase())
+					)
+					const aliases = tag.aliases.filter(
+						alias => !known.has(alias.toLowerCase())
+					)
+					if (aliases.length) {
+						await tx.tagAlias.createMany({
+							data: aliases.map(alias => ({ tagId: id, alias }))
+						})
+					}
+				}
+
+				const present = new Map<string, number>()
+				const mergedTargets = backup.accounts
+					.filter(a => mergedAccountIds.has(a.id))
+					.map(a => accountIds.get(a.id)!)
+				if (mergedTargets.length) {
+					const rows = await tx.transaction.findMany({
+						where: { userId, accountId: { in: mergedTargets } },
+						select: {
+							accountId: true,
+							transactionDate: true,
+							direction: true,
+							amount: true,
+							amountDecimal: true,
+							currency: true,
+							description: true
+						}
+					})
+					for (const row of rows) {
+						const key = `${row.accountId}|${transactionKey({
+							...row,
+							amount: pickMoneyNumber(row.amountDecimal, row.amount, 0)
+						})}`
+						present.set(key, (present.get(key) ?? 0) + 1)
+					}
+				}
+				const restored: BackupTransaction[] = []
+				const data: Prisma.TransactionCreateManyInput[] = []
+				for (const item of backup.transactions) {
+					const accountId = remap(accountIds, item.accountId)
+					if (!accountId) {
+						summary.transactionsSkipped++
+						continue
+					}
+					const key = `${accountId}|${transactionKey(item)}`
+					const left = present.get(key) ?? 0
+					if (left > 0) {
+						present.set(key, left - 1)
+						summary.transactionsSkipped++
+						continue
+					}
+					restored.push(item)
+					data.push({
+						userId,
+						accountId,
+						fromAccountId: remap(accountIds, item.fromAccountId),
+						toAccountId: remap(accountIds, item.toAccountId),
+						direction: item.direction,
+						amount: item.amount,
+						amountDecimal: toDbMoney(item.amount),
+						currency: item.currency,
+						convertedAmount: item.convertedAmount,
+						convertedAmountDecimal: toDbMoney(item.convertedAmount),
+						convertToCurrency: item.convertToCurrency,
+						amountUsd: item.amountUsd,
+						amountUsdDecimal: toDbMoney(item.amountUsd),
+						categoryId: remap(categoryIds, item.categoryId),
+						category: item.category,
+						tagId: remap(tagIds, item.tagId),
+						description: item.description,
+						rawText: item.rawText,
+						transactionDate: new Date(item.transactionDate),
+						createdAt: new Date(item.createdAt)
+					})
+				}
+				if (data.length) await tx.transaction.createMany({ data })
+				summary.transactionsCreated = data.length
+
+				// balances of new accounts start from the opening balance in the file;
+				// matched accounts keep their own and only get the restored transactions
+				const deltas = new Map<string, number>()
+				const addDelta = (backupKey: string, delta: number) => {
+					const [backupAccountId, currency] = backupKey.split('|')
+					const accountId = accountIds.get(backupAccountId)
+					if (!accountId) return
+					const key = balanceKey(accountId, currency)
+					deltas.set(key, (deltas.get(key) ?? 0) + delta)
+				}
+				for (const [key, amount] of openingBalances(
+					backup.accounts.filter(a => !mergedAccountIds.has(a.id)),
+					backup.transactions
+				)) {
+					addDelta(key, amount)
+				}
+				for (const [key, delta] of sumBalanceEffects(restored)) {
+					addDelta(key, delta)
+				}
+				const existingAssets = new Map<string, number>()
+				for (const account of existingAccounts) {
+					for (const asset of account.assets) {
+						existingAssets.set(
+							balanceKey(account.id, asset.currency),
+							pickMoneyNumber(asset.amountDecimal, asset.amount, 0)
+						)
+					}
+				}
+				for (const [key, delta] of deltas) {
+					const [accountId, currency] = key.split('|')
+					const amount = roundByCurrencyPolicy(
+						(existingAssets.get(key) ?? 0) + delta,
+						currency
+					)
+					await tx.accountAsset.upsert({
+						where: { accountId_currency: { accountId, currency } },
+						create: {
+							accountId,
+							currency,
+							amount,
+							amountDecimal: toDbMoney(amount)
+						},
+						update: { amount, amountDecimal: toDbMoney(amount) }
+					})
+				}
+
+				const viewNames = (
+					await tx.savedAnalyticsView.findMany({
+						where: { userId },
+						select: { name: true }
+					})
+				).map(v => v.name)
+				for (const view of backup.savedViews) {
+					if (viewNames.some(name => sameName(name, view.name))) continue
+					const filters = parseViewFilters(view.filters)
+					const remapList = (ids: Map<string, string>, list?: string[]) =>
+						(list ?? [])
+							.map(id => ids.get(id))
+							.filter((id): id is string => !!id)
+					await tx.savedAnalyticsView.create({
+						data: {
+							userId,
+							name: view.name,
+							createdAt: new Date(view.createdAt),
+							filters: {
+								period: filters.period,
+								accountId: remap(accountIds, filters.accountId),
+								categoryIds: remapList(categoryIds, filters.categoryIds),
+								tagIds: remapList(tagIds, filters.tagIds),
+								type: filters.type ?? null
+							}
+						}
+					})
+					summary.viewsCreated++
+				}
+
+				const existingAlerts = await tx.alertConfig.findMany({
+					where: { userId }
+				})
+				for (const alert of backup.alertConfigs) {
+					const accountId = remap(accountIds, alert.accountId)
+					const categoryId = remap(categoryIds, alert.categoryId)
+					if (alert.accountId && !accountId) continue
+					if (alert.categoryId && !categoryId) continue
+					const duplicate = existingAlerts.some(
+						a =>
+							a.type === alert.type &&
+							a.period === alert.period &&
+							a.accountId === accountId &&
+							a.categoryId === categoryId &&
+							a.currency === alert.currency &&
+							a.threshold === alert.threshold
+					)
+					if (duplicate) continue
+					await tx.alertConfig.create({
+						data: {
+							userId,
+							type: alert.type,
+							threshold: alert.threshold,
+							thresholdDecimal: toDbMoney(alert.threshold),
+							period: alert.period,
+							accountId,
+							categoryId,
+							currency: alert.currency,
+							enabled: alert.enabled
+						}
+					})
+					summary.alertsCreated++
+				}
+
+				for (const memory of backup.llmMemories) {
+					const value = ACCOUNT_VALUE_MEMORY_TYPES.includes(memory.type)
+						? remap(accountIds, memory.value)
+						: memory.value
+					if (!value) continue
+					await tx.llmUserMemory.upsert({
+						where: {
+							userId_type_key: {
+								userId,
+								type: memory.type,
+								key: memory.key
+							}
+						},
+						create: {
+							userId,
+							type: memory.type,
+							key: memory.key,
+							value,
+							confidence: memory.confidence,
+							hits: memory.hits
+						},
+						update: { value, confidence: memory.confidence }
+					})
+					summary.memoriesRestored++
+				}
+
+				if (!hadTransactions) {
+					await tx.user.update({
+						where: { id: userId },
+						data: {
+							mainCurrency: backup.user.mainCurrency ?? user.mainCurrency,
+							timezone: backup.user.timezone ?? user.timezone,
+							defaultAccountId:
+								remap(accountIds, backup.user.defaultAccountId) ??
+								user.defaultAccountId
+						}
+					})
+				}
+			},
+			{ timeout: RESTORE_TIMEOUT_MS }
+		)
+		return summary
+	}
+}
@@ -0,0 +1,111 @@
+import {
+	BACKUP_FORMAT,
+	BACKUP_VERSION,
+	openingBalances,
+	parseBackup,
+	sumBalanceEffects,
+	transactionKey,
+	type BackupAccount,
+	type BackupTransaction
+} from './backup.utils'
+
+function tx(partial: Partial<BackupTransaction>): BackupTransaction {
+	return {
+		id: 't',
+		accountId: 'a',
+		fromAccountId: null,
+		toAccountId: null,
+		direction: 'expense',
+		amount: 0,
+		currency: 'EUR',
+		convertedAmount: null,
+		convertToCurrency: null,
+		amountUsd: null,
+		categoryId: null,
+		category: null,
+		tagId: null,
+		description: null,
+		rawText: '',
+		transactionDate: '2026-03-01T12:00:00.000Z',
+		createdAt: '2026-03-01T12:00:00.000Z',
+		...partial
+	}
+}
+
+function account(id: string, assets: BackupAccount['assets']): BackupAccount {
+	return {
+		id,
+		name: id,
+		type: 'bank',
+		currency: 'EUR',
+		isHidden: false,
+		createdAt: '2026-01-01T00:00:00.000Z',
+		assets
+	}
+}
+
+describe('backup.utils', () => {
+	it('accepts own backups and fills missing collections', () => {
+		const backup = parseBackup(
+			JSON.stringify({
+				format: BACKUP_FORMAT,
+				version: BACKUP_VERSION,
+				user: { telegramId: '1' },
+				accounts: [account('a', [])]
+			})
+		)
+		expect(backup.accounts).toHaveLength(1)
+		expect(backup.transactions).toEqual([])
+		expect(backup.llmMemories).toEqual([])
+	})
+
+	it('rejects foreign JSON and newer versions', () => {
+		expect(() => parseBackup('not json')).toThrow()
+		expect(() => parseBackup(JSON.stringify({ format: 'other' }))).toThrow()
+		expect(() =>
+			parseBackup(
+				JSON.stringify({
+					format: BACKUP_FORMAT,
+					version: BACKUP_VERSION + 1,
+					user: {}
+				})
+			)
+		).toThrow('более новой версией')
+	})
+
+	it('sums balance effects including converted transfers', () => {
+		const effects = sumBalanceEffects([
+			tx({ direction: 'income', amount: 100 }),
+			tx({ direction: 'expense', amount: 30 }),
+			tx({
+				direction: 'transfer',
+				amount: 50,
+				toAccountId: 'b',
+				convertedAmount: 2000,
+				convertToCurrency: 'UAH'
+			})
+		])
+		expect(effects.get('a|EUR')).toBe(20)
+		expect(effects.get('b|UAH')).toBe(2000)
+	})
+
+	it('derives opening balances that replay to the exported ones', () => {
+		const transactions = [
+			tx({ direction: 'income', amount: 100 }),
+			tx({ direction: 'transfer', amount: 40, toAccountId: 'b' })
+		]
+		const opening = openingBalances(
+			[account('a', [{ currency: 'EUR', amount: 160 }])],
+			transactions
+		)
+		expect(opening.get('a|EUR')).toBe(100)
+		expect(opening.has('b|EUR')).toBe(false)
+	})
+
+	it('keys transactions by date, direction, amount and description', () => {
+		const a = tx({ amount: 12.5, description: ' Coffee ' })
+		const b = tx({ amount: 12.5, description: 'Coffee', id: 'other' })
+		expect(transactionKey(a)).toBe(transactionKey(b))
+		expect(transactionKey(a)).not.toBe(transactionKey({ ...b, amount: 12.6 }))
+	})
+})
@@ -0,0 +1,245 @@
+export const BACKUP_FORMAT = 'coinpilot-backup'
+
+/** Bump when the file layout changes and add a step to `migrateBackup`. */
+export const BACKUP_VERSION = 1
+
+export type BackupDirection = 'income' | 'expense' | 'transfer'
+
+export interface BackupAccount {
+	id: string
+	name: string
+	type: 'cash' | 'bank' | 'crypto'
+	currency: string
+	isHidden: boolean
+	createdAt: string
+	/** Balances at export time */
+	assets: Array<{ currency: string; amount: number }>
+}
+
+export interface BackupCategory {
+	id: string
+	name: string
+	isDefault: boolean
+}
+
+export interface BackupTag {
+	id: string
+	name: string
+	isDefault: boolean
+	usageCount: number
+	aliases: string[]
+}
+
+export interface BackupTransaction {
+	id: string
+	accountId: string
+	fromAccountId: string | null
+	toAccountId: string | null
+	direction: BackupDirection
+	amount: number
+	currency: string
+	convertedAmount: number | null
+	convertToCurrency: string | null
+	amountUsd: number | null
+	categoryId: string | null
+	category: string | null
+	tagId: string | null
+	description: string | null
+	rawText: string
+	transactionDate: string
+	createdAt: string
+}
+
+export interface BackupSavedView {
+	name: string
+	filters: unknown
+	createdAt: string
+}
+
+export interface BackupAlertConfig {
+	type:
+		| 'large_expense'
+		| 'category_threshold'
+		| 'low_balance'
+		| 'no_transactions'
+		| 'unusual_spending'
+	threshold: number
+	categoryId: string | null
+	period: 'day' | 'week' | 'month'
+	accountId: string | null
+	currency: string | null
+	enabled: boolean
+}
+
+export interface BackupLlmMemory {
+	type: string
+	key: string
+	value: string
+	confidence: number
+	hits: number
+}
+
+export interface BackupFile {
+	format: typeof BACKUP_FORMAT
+	version: number
+	exportedAt: string
+	user: {
+		telegramId: string
+		mainCurrency: string
+		timezone: string
+		defaultAccountId: string | null
+		createdAt: string
+	}
+	accounts: BackupAccount[]
+	categories: BackupCategory[]
+	tags: BackupTag[]
+	transactions: BackupTransaction[]
+	savedViews: BackupSavedView[]
+	alertConfigs: BackupAlertConfig[]
+	llmMemories: BackupLlmMemory[]
+}
+
+const COLLECTIONS = [
+	'accounts',
+	'categories',
+	'tags',
+	'transactions',
+	'savedViews',
+	'alertConfigs',
+	'llmMemories'
+] as const
+
+function migrateBackup(data: Record<string, unknown>): BackupFile {
+	// version 1 is the first published layout; later versions upgrade step by step here
+	return data as unknown as BackupFile
+}
+
+/** Reads a backup file, rejecting foreign JSON and files from a newer bot version. */
+export function parseBackup(text: string): BackupFile {
+	let data: unknown
+	try {
+		data = JSON.parse(text.replace(/^\uFEFF/, ''))
+	} catch {
+		throw new Error('Файл не похож на резервную копию CoinPilot')
+	}
+	if (!data || typeof data !== 'object') {
+		throw new Error('Файл не похож на резервную копию CoinPilot')
+	}
+	const record = data as Record<string, unknown>
+	if (record.format !== BACKUP_FORMAT) {
+		throw new Error('Файл не похож на резервную копию CoinPilot')
+	}
+	const version = Number(record.version)
+	if (!Number.isInteger(version) || version < 1) {
+		throw new Error('Не удалось определить версию резервной копии')
+	}
+	if (version > BACKUP_VERSION) {
+		throw new Error('Копия создана более новой версией бота и пока не поддерживается')
+	}
+	for (const key of COLLECTIONS) {
+		if (record[key] == null) record[key] = []
+		if (!Array.isArray(record[key])) {
+			throw new Error('Резервная копия повреждена')
+		}
+	}
+	if (!record.user || typeof record.user !== 'object') {
+		throw new Error('Резервная копия повреждена')
+	}
+	return migrateBackup(record)
+}
+
+export function balanceKey(accountId: string, currency: string): string {
+	return `${accountId}|${currency}`
+}
+
+/** Same postings as `TransactionsService.applyBalanceEffect`, without touching the database. */
+export function transactionBalanceEffects(
+	tx: Pick<
+		BackupTransaction,
+		| 'accountId'
+		| 'fromAccountId'
+		| 'toAccountId'
+		| 'direction'
+		| 'amount'
+		| 'currency'
+		| 'convertedAmount'
+		| 'convertToCurrency'
+	>
+): Array<{ accountId: string; currency: string; delta: number }> {
+	const useConverted = tx.convertedAmount != null && tx.convertToCurrency != null
+	const amount = useConverted ? Number(tx.convertedAmount) : tx.amount
+	const currency = useConverted ? String(tx.convertToCurrency) : tx.currency
+	if (tx.direction === 'expense') {
+		return [{ accountId: tx.accountId, currency, delta: -amount }]
+	}
+	if (tx.direction === 'income') {
+		return [{ accountId: tx.accountId, currency, delta: amount }]
+	}
+	if (tx.direction === 'transfer' && tx.toAccountId) {
+		return [
+			{
+				accountId: tx.fromAccountId ?? tx.accountId,
+				currency: tx.currency,
+				delta: -tx.amount
+			},
+			{ accountId: tx.toAccountId, currency, delta: amount }
+		]
+	}
+	return []
+}
+
+export function sumBalanceEffects(
+	transactions: Parameters<typeof transactionBalanceEffects>[0][]
+): Map<string, number> {
+	const totals = new Map<string, number>()
+	for (const tx of transactions) {
+		for (const effect of transactionBalanceEffects(tx)) {
+			const key = balanceKey(effect.accountId, effect.currency)
+			totals.set(key, (totals.get(key) ?? 0) + effect.delta)
+		}
+	}
+	return totals
+}
+
+/**
+ * Balances each account had before its first exported transaction. A restored
+ * account starts from these and replays its transactions, so it ends up with the
+ * balance it had at export time.
+ */
+export function openingBalances(
+	accounts: BackupAccount[],
+	transactions: BackupTransaction[]
+): Map<string, number> {
+	const effects = sumBalanceEffects(transactions)
+	const opening = new Map<string, number>()
+	for (const account of accounts) {
+		for (const asset of account.assets) {
+			const key = balanceKey(account.id, asset.currency)
+			opening.set(key, asset.amount - (effects.get(key) ?? 0))
+		}
+	}
+	const ids = new Set(accounts.map(a => a.id))
+	for (const [key, delta] of effects) {
+		const [accountId] = key.split('|')
+		if (ids.has(accountId) && !opening.has(key)) opening.set(key, -delta)
+	}
+	return opening
+}
+
+/** Identifies a transaction across users, used to skip ones that are already restored. */
+export function transactionKey(tx: {
+	transactionDate: string | Date
+	direction: string
+	amount: number
+	currency: string
+	description?: string | null
+}): string {
+	const date = new Date(tx.transactionDate).toISOString()
+	return [
+		date,
+		tx.direction,
+		tx.amount.toFixed(8),
+		tx.currency,
+		(tx.description ?? '').trim()
+	].join('|')
+}
@@ -0,0 +1,14 @@
+import { Controller, Post, Req, Res } from '@nestjs/common'
+import type { Request, Response } from 'express'
+import { BotService, TELEGRAM_WEBHOOK_PATH } from './bot.service'
+
+@Controller()
+export class BotWebhookController {
+	constructor(private readonly botService: BotService) {}
+
+	// JSON разбирается в main.ts, заголовок с секретным токеном проверяет grammY
+	@Post(TELEGRAM_WEBHOOK_PATH)
+	async handleUpdate(@Req() req: Request, @Res() res: Response) {
+		await this.botService.handleWebhook(req, res)
+	}
+}
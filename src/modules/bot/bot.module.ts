@@ -14,6 +14,19 @@ import { AnalyticsModule } from '../analytics/analytics.module'
 import { SubscriptionModule } from '../subscription/subscription.module'
 import { StripeModule } from '../stripe/stripe.module'
 import { LlmMemoryModule } from '../llm-memory/llm-memory.module'
+import { AlertsModule } from '../alerts/alerts.module'
+import { ChartsModule } from '../charts/charts.module'
+import { BudgetsModule } from '../budgets/budgets.module'
+import { RecurringModule } from '../recurring/recurring.module'
+import { ImportModule } from '../import/import.module'
+import { BackupModule } from '../backup/backup.module'
+import { ExportModule } from '../export/export.module'
+import { NetWorthModule } from '../net-worth/net-worth.module'
+import { ForecastModule } from '../forecast/forecast.module'
+import { RecurringCronService } from './recurring-cron.service'
+import { StatementCronService } from './statement-cron.service'
+import { PrismaSessionStorage } from './core/session.storage'
+import { BotWebhookController } from './bot-webhook.controller'
 
 @Module({
 	imports: [
@@ -28,12 +41,25 @@ import { LlmMemoryModule } from '../llm-memory/llm-memory.module'
 		AnalyticsModule,
 		SubscriptionModule,
 		StripeModule,
-		LlmMemoryModule
+		LlmMemoryModule,
+		AlertsModule,
+		ChartsModule,
+		BudgetsModule,
+		RecurringModule,
+		ImportModule,
+		BackupModule,
+		ExportModule,
+		NetWorthModule,
+		ForecastModule
 	],
+	controllers: [BotWebhookController],
 	providers: [
+		PrismaSessionStorage,
 		BotService,
 		PremiumCronService,
-		DailyTipCronService
+		DailyTipCronService,
+		RecurringCronService,
+		StatementCronService
 	]
 })
 export class BotModule {}
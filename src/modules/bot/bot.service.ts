@@ -1,8 +1,12 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common'
+import { Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common'
 import { ConfigService } from '@nestjs/config'
-import { Bot, InlineKeyboard, session } from 'grammy'
+import { Bot, InlineKeyboard, InputFile, session, webhookCallback } from 'grammy'
+import type { Request, Response } from 'express'
 import { UsersService } from '../users/users.service'
-import { TransactionsService } from '../transactions/transactions.service'
+import {
+	TransactionsService,
+	type TransactionAttachmentInput
+} from '../transactions/transactions.service'
 import {
 	LLMService,
 	type LlmMassTransactionFilter
@@ -16,6 +20,7 @@ import { CategoriesService } from '../categories/categories.service'
 import { TagsService } from '../tags/tags.service'
 import { ExchangeService } from '../exchange/exchange.service'
 import { AnalyticsService } from '../analytics/analytics.service'
+import { AnalyticsViewsService } from '../analytics/analytics-views.service'
 import { SubscriptionService } from '../subscription/subscription.service'
 import { StripeService } from '../stripe/stripe.service'
 import { FREE_LIMITS } from '../subscription/subscription.constants'
@@ -66,13 +71,41 @@ import {
 	viewCategoriesCallback,
 	viewTagsCallback,
 	analyticsMainCallback,
+	handleAnalyticsPeriodInput,
 	analyticsCategoriesCallback,
 	analyticsTagsCallback,
 	analyticsTypeCallback,
 	analyticsFilterCallback,
 		analyticsSavedCallback,
+		handleAnalyticsViewRenameInput,
 		analyticsChartCallback,
+		analyticsNetWorthCallback,
+		analyticsCompareCallback,
+		analyticsForecastCallback,
+		analyticsAnomaliesCallback,
 		analyticsExportCallback,
+		transactionsExportCallback,
+		handleTransactionsExportSearchInput,
+		analyticsAlertsCallback,
+		handleAlertThresholdInput,
+		budgetsCallback,
+		handleBudgetLimitInput,
+		recurringCallback,
+		handleRecurringInput,
+		importCsvCallback,
+		isCsvDocument,
+		startCsvImport,
+		importStatementCallback,
+		isStatementDocument,
+		startStatementImport,
+		importExchangeCallback,
+		startExchangeImport,
+		importAppCallback,
+		startAppImport,
+		backupCallback,
+		restoreBackupFromFile,
+		transactionAttachmentsCallback,
+		handleTransactionAttachmentUpload,
 		premiumCallback
 	} from './callbacks'
 import { renderConfirmMessage } from './elements/tx-confirm-msg'
@@ -83,15 +116,29 @@ import { tagsListText } from './callbacks/view-tags.callback'
 import {
 	buildSettingsView,
 	mainCurrencyPickerKeyboard,
-	timezonePickerKeyboard
+	timezonePickerKeyboard,
+	timezoneSearchKeyboard
 } from '../../shared/keyboards/settings'
 import { levenshtein } from '../../utils/normalize'
 import {
+	DEFAULT_TIMEZONE,
 	extractExplicitDateFromText,
 	normalizeTxDate,
 	pickTransactionDate
 } from '../../utils/date'
+import { resolveTimezoneInput, searchTimezones } from '../../utils/timezones'
 import { LlmMemoryService } from '../llm-memory/llm-memory.service'
+import { AlertsService } from '../alerts/alerts.service'
+import { ChartsService } from '../charts/charts.service'
+import { NetWorthService } from '../net-worth/net-worth.service'
+import { ForecastService } from '../forecast/forecast.service'
+import { BudgetsService } from '../budgets/budgets.service'
+import { RecurringService } from '../recurring/recurring.service'
+import { ImportService } from '../import/import.service'
+import { BackupService } from '../backup/backup.service'
+import { ExportService } from '../export/export.service'
+import { StatementService } from '../export/statement.service'
+import { PrismaSessionStorage } from './core/session.storage'
 import { formatExactAmount, isCryptoCurrency } from '../../utils/format'
 import { normalizeTag } from '../../utils/normalize'
 import {
@@ -120,6 +167,8 @@ const ONBOARDING_SUPPRESS_AFTER_DELETE_MARKER =
 const MAX_LLM_INPUT_TEXT_LENGTH = 3000
 const MAX_IMAGE_FILE_BYTES = 8 * 1024 * 1024
 const MAX_VOICE_FILE_BYTES = 2 * 1024 * 1024
+const MAX_CSV_FILE_BYTES = 2 * 1024 * 1024
+const MAX_BACKUP_FILE_BYTES = 20 * 1024 * 1024
 const LLM_RATE_LIMIT_WINDOW_MS = 15_000
 const LLM_RATE_LIMIT_MAX_REQUESTS = 8
 const MAX_MASS_TX_MATCHES = 500
@@ -149,9 +198,12 @@ type MassTransactionDraftRow = {
 	}
 }
 
+export const TELEGRAM_WEBHOOK_PATH = '/telegram/webhook'
+
 @Injectable()
 export class BotService implements OnModuleInit {
 	private readonly logger = new Logger(BotService.name)
+	private webhookHandler?: (req: Request, res: Response) => Promise<void>
 	private readonly bot: Bot<BotContext>
 	private readonly llmRateLimiter = new Map<
 		string,
@@ -171,13 +223,25 @@ export class BotService implements OnModuleInit {
 		private readonly analyticsService: AnalyticsService,
 		private readonly subscriptionService: SubscriptionService,
 		private readonly stripeService: StripeService,
-		private readonly llmMemoryService: LlmMemoryService
+		private readonly llmMemoryService: LlmMemoryService,
+		private readonly alertsService: AlertsService,
+		private readonly chartsService: ChartsService,
+		private readonly netWorthService: NetWorthService,
+		private readonly forecastService: ForecastService,
+		private readonly budgetsService: BudgetsService,
+		private readonly recurringService: RecurringService,
+		private readonly analyticsViewsService: AnalyticsViewsService,
+		private readonly importService: ImportService,
+		private readonly backupService: BackupService,
+		private readonly exportService: ExportService,
+		private readonly statementService: StatementService,
+		private readonly sessionStorage: PrismaSessionStorage
 	) {
 		const token = this.config.getOrThrow<string>('BOT_TOKEN')
 		this.bot = new Bot<BotContext>(token)
 	}
 
-	/** Send a text message to a user by Telegram ID (for cron/notifications). */
+	/** Send a text message to a user by Telegram ID (for cron/notifications); false when it was not delivered. */
 	async sendToUser(
 		telegramId: string,
 		text: string,
@@ -186,8 +250,24 @@ export class BotService implements OnModuleInit {
 			reply_markup?: InlineKeyboard
 			link_preview_options?: { is_disabled?: boolean }
 		}
-	): Promise<void> {
-		await this.bot.api.sendMessage(Number(telegramId), text, extra as any).catch(() => {})
+	): Promise<boolean> {
+		return this.bot.api.sendMessage(Number(telegramId), text, extra as any).then(
+			() => true,
+			() => false
+		)
+	}
+
+	async sendDocumentToUser(
+		telegramId: string,
+		file: { buffer: Buffer; fileName: string },
+		extra?: { caption?: string; reply_markup?: InlineKeyboard }
+	): Promise<boolean> {
+		return this.bot.api
+			.sendDocument(Number(telegramId), new InputFile(file.buffer, file.fileName), extra)
+			.then(
+				() => true,
+				() => false
+			)
 	}
 
 	private extractTelegramErrorMessage(error: unknown): string {
@@ -342,7 +422,8 @@ export class BotService implements OnModuleInit {
 			this.analyticsService,
 			user.id,
 			user.lastTipText,
-			expanded
+			expanded,
+			user.timezone
 		)
 		await this.safeEditMessageText(
 			ctx,
@@ -406,13 +487,21 @@ export class BotService implements OnModuleInit {
 			{
 				command: 'help',
 				description: 'Помощь и инструкция'
+			},
+			{
+				command: 'export',
+				description: 'Выгрузить операции в CSV, XLSX или JSON'
 				}
 			])
 		await this.runStartupSanityChecks()
+		this.alertsService.setNotifier((telegramId, text) =>
+			this.sendToUser(telegramId, text, { parse_mode: 'HTML' })
+		)
 
 		this.bot.use(
 			session({
-				initial: () => ({})
+				initial: () => ({}),
+				storage: this.sessionStorage
 			})
 		)
 
@@ -502,7 +591,8 @@ export class BotService implements OnModuleInit {
 			this.bot,
 			this.categoriesService,
 			this.accountsService,
-			this.transactionsService
+			this.transactionsService,
+			this.llmMemoryService
 		)
 		editTagCallback(
 			this.bot,
@@ -578,20 +668,80 @@ export class BotService implements OnModuleInit {
 				this.llmService,
 				this.prisma,
 				this.llmMemoryService,
-				this.subscriptionService
+				this.subscriptionService,
+				this.budgetsService,
+				this.forecastService
 			)
 		analyticsCategoriesCallback(this.bot, this.analyticsService, this.prisma)
 		analyticsTagsCallback(this.bot, this.analyticsService)
 		analyticsTypeCallback(this.bot, this.analyticsService)
-		analyticsFilterCallback(this.bot)
-		analyticsSavedCallback(this.bot, this.prisma)
-		analyticsChartCallback(this.bot, this.prisma, this.exchangeService, this.analyticsService)
+		analyticsFilterCallback(this.bot, this.analyticsService)
+		analyticsSavedCallback(
+			this.bot,
+			this.analyticsViewsService,
+			this.analyticsService,
+			this.budgetsService,
+			this.forecastService
+		)
+		analyticsChartCallback(this.bot, this.chartsService)
+		analyticsNetWorthCallback(this.bot, this.netWorthService, this.chartsService)
+		analyticsCompareCallback(this.bot, this.analyticsService)
+		analyticsForecastCallback(this.bot, this.forecastService)
+		analyticsAnomaliesCallback(this.bot, this.analyticsService)
 			analyticsExportCallback(
 				this.bot,
 				this.prisma,
 				this.subscriptionService,
+				this.analyticsService,
+				this.exportService,
+				this.statementService
+			)
+			analyticsAlertsCallback(
+				this.bot,
+				this.alertsService,
+				this.categoriesService,
+				this.accountsService
+			)
+			budgetsCallback(this.bot, this.budgetsService, this.categoriesService)
+			recurringCallback(this.bot, this.recurringService)
+			importCsvCallback(
+				this.bot,
+				this.importService,
+				this.accountsService,
+				this.subscriptionService,
+				this.analyticsService
+			)
+			importStatementCallback(
+				this.bot,
+				this.importService,
+				this.accountsService,
+				this.subscriptionService,
 				this.analyticsService
 			)
+			importExchangeCallback(
+				this.bot,
+				this.importService,
+				this.accountsService,
+				this.subscriptionService,
+				this.analyticsService
+			)
+			importAppCallback(
+				this.bot,
+				this.importService,
+				this.accountsService,
+				this.subscriptionService,
+				this.analyticsService
+			)
+			transactionsExportCallback(
+				this.bot,
+				this.prisma,
+				this.accountsService,
+				this.subscriptionService,
+				this.analyticsService,
+				this.exportService
+			)
+			backupCallback(this.bot, this.backupService, this.exportService)
+			transactionAttachmentsCallback(this.bot, this.transactionsService)
 			premiumCallback(this.bot, this.subscriptionService, this.stripeService)
 
 		hideMessageCallback(this.bot)
@@ -620,12 +770,16 @@ export class BotService implements OnModuleInit {
 					this.analyticsService.getSummary(
 						user.id,
 						'30d',
-						mainCurrency
+						mainCurrency,
+						undefined,
+						user.timezone
 					),
 					this.analyticsService.getCashflow(
 						user.id,
 						'30d',
-						mainCurrency
+						mainCurrency,
+						undefined,
+						user.timezone
 					)
 				])
 				totalBalance = summary.balance
@@ -671,12 +825,16 @@ export class BotService implements OnModuleInit {
 					this.analyticsService.getSummary(
 						user.id,
 						'30d',
-						mainCurrency
+						mainCurrency,
+						undefined,
+						user.timezone
 					),
 					this.analyticsService.getCashflow(
 						user.id,
 						'30d',
-						mainCurrency
+						mainCurrency,
+						undefined,
+						user.timezone
 					)
 				])
 				totalBalance = summary.balance
@@ -1399,7 +1557,7 @@ export class BotService implements OnModuleInit {
 
 		this.bot.callbackQuery('timezone_open', async ctx => {
 			const hint = await ctx.reply(
-				'⌚️ Выберите ваш часовой пояс. Используйте формат UTC или воспользуйтесь одной из кнопок ниже.',
+				'⌚️ Выберите ваш часовой пояс кнопкой ниже или напишите город, название пояса (Europe/Kyiv) либо смещение UTC.',
 				{
 					reply_markup: timezonePickerKeyboard()
 				}
@@ -1412,7 +1570,7 @@ export class BotService implements OnModuleInit {
 
 		this.bot.callbackQuery(/^timezone_set:/, async ctx => {
 			const timezone = ctx.callbackQuery.data.replace('timezone_set:', '').trim()
-			const normalized = this.normalizeTimezone(timezone)
+			const normalized = resolveTimezoneInput(timezone)
 			if (!normalized) return
 			await this.usersService.setTimezone(ctx.state.user.id, normalized)
 			await this.cleanupTimezonePromptMessages(
@@ -2133,7 +2291,7 @@ export class BotService implements OnModuleInit {
 					case 'date': {
 						const parsedDate = await this.llmService.parseDate(
 							value,
-							(ctx.state.user as any)?.timezone ?? 'UTC+02:00'
+							(ctx.state.user as any)?.timezone ?? DEFAULT_TIMEZONE
 						)
 						if (!parsedDate) {
 							await ctx.reply(
@@ -2269,14 +2427,19 @@ export class BotService implements OnModuleInit {
 			}
 
 			if (isInputMode(ctx, 'timezone_edit')) {
-				const normalized = this.normalizeTimezone(text)
+				const normalized = resolveTimezoneInput(text)
 				if (!normalized) {
-					const msg = await ctx.reply(
-						'Не удалось распознать часовой пояс. Попробуйте перефразировать или написать по-другому.',
-						{
-							reply_markup: new InlineKeyboard().text('Закрыть', 'back_to_settings')
-						}
-					)
+					const matches = searchTimezones(text)
+					const msg = matches.length
+						? await ctx.reply('Выберите часовой пояс:', {
+								reply_markup: timezoneSearchKeyboard(matches)
+							})
+						: await ctx.reply(
+								'Не удалось распознать часовой пояс. Попробуйте перефразировать или написать по-другому.',
+								{
+									reply_markup: new InlineKeyboard().text('Закрыть', 'back_to_settings')
+								}
+							)
 					const ids =
 						((ctx.session as any).timezoneErrorMessageIds as number[] | undefined) ??
 						[]
@@ -2294,6 +2457,48 @@ export class BotService implements OnModuleInit {
 				return
 			}
 
+			if (isInputMode(ctx, 'alert_threshold_edit')) {
+				await handleAlertThresholdInput(
+					ctx,
+					text,
+					this.alertsService,
+					this.categoriesService
+				)
+				return
+			}
+
+			if (isInputMode(ctx, 'budget_limit_edit')) {
+				await handleBudgetLimitInput(ctx, text, this.budgetsService)
+				return
+			}
+
+			if (isInputMode(ctx, 'recurring_edit')) {
+				await handleRecurringInput(ctx, text, this.recurringService)
+				return
+			}
+
+			if (isInputMode(ctx, 'analytics_view_rename')) {
+				await handleAnalyticsViewRenameInput(ctx, text, this.analyticsViewsService)
+				return
+			}
+
+			if (isInputMode(ctx, 'transactions_export_search')) {
+				await handleTransactionsExportSearchInput(ctx, text, this.analyticsService)
+				return
+			}
+
+			if (isInputMode(ctx, 'analytics_period_edit')) {
+				await handleAnalyticsPeriodInput(
+					ctx,
+					text,
+					this.analyticsService,
+					this.llmService,
+					this.budgetsService,
+					this.forecastService
+				)
+				return
+			}
+
 			if (ctx.session.editingAccountDetailsId) {
 				const accountId = ctx.session.editingAccountDetailsId
 				const user: any = ctx.state.user
@@ -2827,7 +3032,7 @@ export class BotService implements OnModuleInit {
 			if (ctx.session.awaitingTransaction) {
 				let parsed: LlmTransaction[]
 				const user: any = ctx.state.user
-				const timezone = user?.timezone ?? 'UTC+02:00'
+				const timezone = user?.timezone ?? DEFAULT_TIMEZONE
 				const [userCategories, frozen, userAccounts] = await Promise.all([
 					this.categoriesService.getAllByUserId(user.id),
 					this.subscriptionService.getFrozenItems(user.id),
@@ -2959,6 +3164,19 @@ export class BotService implements OnModuleInit {
 			this.bot.on('message:photo', async ctx => {
 				const user: any = ctx.state.user
 				if (!user) return
+				if (isInputMode(ctx, 'transaction_attach')) {
+					const largest = ctx.message.photo[ctx.message.photo.length - 1]
+					await handleTransactionAttachmentUpload(
+						ctx,
+						{
+							kind: 'photo',
+							fileId: largest.file_id,
+							fileUniqueId: largest.file_unique_id
+						},
+						this.transactionsService
+					)
+					return
+				}
 				const isJarvisAssetEdit = this.isJarvisAssetEditModeActive(ctx)
 				const isMassAccountsEdit = !!ctx.session.awaitingMassAccountsInput
 				if (
@@ -3032,7 +3250,12 @@ export class BotService implements OnModuleInit {
 								ctx,
 								imageDataUrl,
 								caption,
-								parseToken
+								parseToken,
+								{
+									kind: 'photo',
+									fileId: photos[photos.length - 1].file_id,
+									fileUniqueId: photos[photos.length - 1].file_unique_id
+								}
 							)
 							return
 						} catch (candidateError: unknown) {
@@ -3072,6 +3295,131 @@ export class BotService implements OnModuleInit {
 
 			this.bot.on('message:document', async ctx => {
 			const doc = ctx.message.document
+			if (doc && isInputMode(ctx, 'transaction_attach')) {
+				if (!ctx.state.user) return
+				await handleTransactionAttachmentUpload(
+					ctx,
+					{
+						kind: 'document',
+						fileId: doc.file_id,
+						fileUniqueId: doc.file_unique_id,
+						fileName: doc.file_name,
+						mimeType: doc.mime_type
+					},
+					this.transactionsService
+				)
+				return
+			}
+			if (doc && isInputMode(ctx, 'backup_restore')) {
+				if (!ctx.state.user) return
+				try {
+					const buffer = await this.downloadTelegramFile(
+						doc.file_id,
+						MAX_BACKUP_FILE_BYTES
+					)
+					await restoreBackupFromFile(
+						ctx,
+						buffer,
+						this.backupService,
+						this.accountsService,
+						this.analyticsService
+					)
+				} catch (error: unknown) {
+					const tooLarge = String((error as Error)?.message ?? '').startsWith(
+						'FILE_TOO_LARGE:'
+					)
+					await ctx.reply(
+						tooLarge
+							? `Файл слишком большой. Максимальный размер копии: ${Math.floor(
+									MAX_BACKUP_FILE_BYTES / (1024 * 1024)
+								)} MB.`
+							: 'Не удалось восстановить копию. Попробуйте ещё раз.',
+						{
+							reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+						}
+					)
+				}
+				return
+			}
+			if (doc && isStatementDocument(doc)) {
+				if (!ctx.state.user) return
+				try {
+					const buffer = await this.downloadTelegramFile(doc.file_id, MAX_CSV_FILE_BYTES)
+					const handled = await startStatementImport(
+						ctx,
+						buffer,
+						doc.file_name ?? 'statement',
+						this.importService,
+						this.accountsService
+					)
+					if (!handled) {
+						await ctx.reply(
+							'Не удалось распознать выписку. Поддерживаются OFX, QIF и CAMT.053.',
+							{
+								reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+							}
+						)
+					}
+				} catch (error: unknown) {
+					const tooLarge = String((error as Error)?.message ?? '').startsWith(
+						'FILE_TOO_LARGE:'
+					)
+					await ctx.reply(
+						tooLarge
+							? `Файл слишком большой. Максимальный размер выписки: ${Math.floor(
+									MAX_CSV_FILE_BYTES / (1024 * 1024)
+								)} MB.`
+							: 'Не удалось загрузить выписку. Попробуйте ещё раз.',
+						{
+							reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+						}
+					)
+				}
+				return
+			}
+			if (doc && isCsvDocument(doc)) {
+				if (!ctx.state.user) return
+				try {
+					const buffer = await this.downloadTelegramFile(doc.file_id, MAX_CSV_FILE_BYTES)
+					const exchange = await startExchangeImport(
+						ctx,
+						buffer,
+						doc.file_name ?? 'history.csv',
+						this.importService,
+						this.accountsService
+					)
+					if (exchange) return
+					const fromApp = await startAppImport(
+						ctx,
+						buffer,
+						doc.file_name ?? 'export.csv',
+						this.importService,
+						this.accountsService
+					)
+					if (fromApp) return
+					await startCsvImport(
+						ctx,
+						buffer,
+						doc.file_name ?? 'statement.csv',
+						this.accountsService
+					)
+				} catch (error: unknown) {
+					const tooLarge = String((error as Error)?.message ?? '').startsWith(
+						'FILE_TOO_LARGE:'
+					)
+					await ctx.reply(
+						tooLarge
+							? `Файл слишком большой. Максимальный размер CSV: ${Math.floor(
+									MAX_CSV_FILE_BYTES / (1024 * 1024)
+								)} MB.`
+							: 'Не удалось загрузить CSV. Попробуйте ещё раз.',
+						{
+							reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+						}
+					)
+				}
+				return
+			}
 			if (!doc?.mime_type || !doc.mime_type.startsWith('image/')) return
 			const user: any = ctx.state.user
 			if (!user) return
@@ -3137,7 +3485,14 @@ export class BotService implements OnModuleInit {
 					ctx,
 					imageDataUrl,
 					caption,
-					parseToken
+					parseToken,
+					{
+						kind: 'document',
+						fileId: doc.file_id,
+						fileUniqueId: doc.file_unique_id,
+						fileName: doc.file_name,
+						mimeType: doc.mime_type
+					}
 				)
 				} catch (error: unknown) {
 					if (String((error as Error)?.message ?? '').startsWith('FILE_TOO_LARGE:')) {
@@ -3216,7 +3571,7 @@ export class BotService implements OnModuleInit {
 							categoryNames,
 							existingTags,
 							accountNames,
-							user?.timezone ?? 'UTC+02:00'
+							user?.timezone ?? DEFAULT_TIMEZONE
 					)
 					const normalized = parsed.map(tx => ({
 						...tx,
@@ -3345,8 +3700,46 @@ export class BotService implements OnModuleInit {
 			}
 		})
 
-				this.bot.start()
-			}
+		await this.startUpdateDelivery()
+	}
+
+	/** Express handler for Telegram updates; 404 while the bot runs in polling mode. */
+	async handleWebhook(req: Request, res: Response): Promise<void> {
+		if (!this.webhookHandler) {
+			throw new NotFoundException()
+		}
+		await this.webhookHandler(req, res)
+	}
+
+	/**
+	 * BOT_MODE=webhook registers `${BOT_WEBHOOK_URL}/telegram/webhook` with Telegram,
+	 * anything else removes a stale webhook and falls back to long polling.
+	 */
+	private async startUpdateDelivery(): Promise<void> {
+		const mode = (this.config.get<string>('BOT_MODE') ?? 'polling')
+			.trim()
+			.toLowerCase()
+		if (mode !== 'webhook') {
+			await this.bot.api.deleteWebhook()
+			void this.bot.start()
+			this.logger.log('Telegram updates: long polling')
+			return
+		}
+		const baseUrl = this.config
+			.getOrThrow<string>('BOT_WEBHOOK_URL')
+			.replace(/\/+$/, '')
+		const secretToken = this.config.getOrThrow<string>('BOT_WEBHOOK_SECRET')
+		await this.bot.init()
+		this.webhookHandler = webhookCallback(this.bot, 'express', {
+			secretToken,
+			// долгие апдейты (LLM, голос) дорабатывают после ответа Telegram
+			onTimeout: 'return'
+		})
+		await this.bot.api.setWebhook(`${baseUrl}${TELEGRAM_WEBHOOK_PATH}`, {
+			secret_token: secretToken
+		})
+		this.logger.log(`Telegram updates: webhook ${baseUrl}${TELEGRAM_WEBHOOK_PATH}`)
+	}
 
 	private async refreshAccountDetailsView(
 		ctx: BotContext,
@@ -3406,7 +3799,8 @@ export class BotService implements OnModuleInit {
 				freshUser.id,
 				'month',
 				mainCurrency,
-				accountId
+				accountId,
+				freshUser.timezone
 			)
 			const [
 				summary,
@@ -3422,7 +3816,8 @@ export class BotService implements OnModuleInit {
 					freshUser.id,
 					'month',
 					mainCurrency,
-					accountId
+					accountId,
+					freshUser.timezone
 				),
 				this.analyticsService.getTopCategories(
 					freshUser.id,
@@ -3430,7 +3825,8 @@ export class BotService implements OnModuleInit {
 					mainCurrency,
 					3,
 					accountId,
-					beg
+					beg,
+					freshUser.timezone
 				),
 				this.analyticsService.getTopIncomeCategories(
 					freshUser.id,
@@ -3438,49 +3834,53 @@ export class BotService implements OnModuleInit {
 					mainCurrency,
 					beg,
 					3,
-					accountId
+					accountId,
+					freshUser.timezone
 				),
 				this.analyticsService.getAnomalies(
 					freshUser.id,
 					'month',
 					mainCurrency,
-					100,
 					accountId,
-					beg
+					freshUser.timezone
 				),
 				this.analyticsService.getTransfersTotal(
 					freshUser.id,
 					'month',
 					mainCurrency,
-					accountId
+					accountId,
+					freshUser.timezone
 				),
 				this.analyticsService.getExternalTransferOutTotal(
 					freshUser.id,
 					'month',
 					mainCurrency,
-					accountId
+					accountId,
+					freshUser.timezone
 				),
 				this.analyticsService.getCashflow(
 					freshUser.id,
 					'month',
 					mainCurrency,
-					accountId
+					accountId,
+					freshUser.timezone
 				),
 				this.analyticsService.getBurnRate(
 					freshUser.id,
 					'month',
 					mainCurrency,
-					accountId
+					accountId,
+					freshUser.timezone
 				)
 			])
-			const thresholdAnomaly = beg > 0 ? beg * 0.5 : 100
 			const topTransfersWithPct = await this.analyticsService.getTopTransfers(
 				freshUser.id,
 				'month',
 				mainCurrency,
 				3,
 				accountId,
-				beg
+				beg,
+				freshUser.timezone
 			)
 			analyticsData = {
 				beginningBalance: beg,
@@ -3507,11 +3907,11 @@ export class BotService implements OnModuleInit {
 					pct: t.pct,
 					descriptions: t.descriptions
 				})),
-				anomalies: anomalies.map(x => ({
+				anomalies: anomalies.transactions.map(x => ({
 					description: x.description ?? x.tagOrCategory ?? null,
-					amountMain: x.amount
-				})),
-				thresholdAnomaly
+					amountMain: x.amount,
+					explanation: x.explanation
+				}))
 			}
 		}
 
@@ -3523,7 +3923,7 @@ export class BotService implements OnModuleInit {
 			isPremium,
 			lastTransactions,
 			analyticsData,
-			freshUser.timezone ?? 'UTC+02:00'
+			freshUser.timezone ?? DEFAULT_TIMEZONE
 		)
 		const page = ctx.session.accountsViewPage ?? 0
 		const [visibleAccounts, frozen] = await Promise.all([
@@ -3577,6 +3977,7 @@ export class BotService implements OnModuleInit {
 • <code>Зарплата 2000 USD на Revolut</code>
 • <code>Обмен 1000 USDT на 950 EUR</code>
 <i>Или просто пришли скриншот чека — ИИ сделает всё за тебя.</i>
+<i>Выписку банка можно загрузить файлом CSV, OFX, QIF или CAMT.053, историю биржи — CSV из Binance, Bybit или Kraken, а историю из ZenMoney, CoinKeeper, Money Manager или Wallet — их CSV-экспортом. Повторы будут пропущены.</i>
 
 <b>3️⃣ Смотри аналитику</b>
 Раздел <b>«Аналитика»</b> покажет общую картину: где твои деньги и как растет твой чистый капитал (Net Worth).
@@ -3585,7 +3986,7 @@ export class BotService implements OnModuleInit {
 <b>💠 Pro-возможности</b>
 В разделе <b>«Подписка»</b> можно снять все лимиты:
 • Безлимитные счета и транзакции
-• Экспорт данных в CSV/Excel
+• Экспорт данных в CSV/Excel/JSON и PDF-выписки — из аналитики, списка операций или командой /export
 • ИИ-распознавание фото и чеков
 <i>Оплата через Stripe — безопасно и прозрачно.</i>
 
@@ -3653,7 +4054,10 @@ export class BotService implements OnModuleInit {
 		;(ctx.state as any).activeAccount =
 			user.accounts.find(a => a.id === user.activeAccountId) ?? null
 		;(ctx.state as any).isPremium = this.subscriptionService.isPremium(user as any)
-		const view = buildSettingsView(user as any)
+		const alertsEnabledCount = await this.prisma.alertConfig.count({
+			where: { userId: user.id, enabled: true }
+		})
+		const view = buildSettingsView(user as any, alertsEnabledCount)
 		await this.safeEditMessageText(ctx, ctx.session.homeMessageId, view.text, {
 			parse_mode: 'HTML',
 			reply_markup: view.keyboard
@@ -3707,33 +4111,6 @@ export class BotService implements OnModuleInit {
 		;(ctx.session as any).timezoneErrorMessageIds = []
 	}
 
-	private normalizeTimezone(value: string): string | null {
-		const raw = String(value ?? '').trim().toUpperCase().replace(/\s+/g, '')
-		const shortcuts: Record<string, string> = {
-			'+2': 'UTC+02:00',
-			'+1': 'UTC+01:00',
-			'0': 'UTC+00:00',
-			'+0': 'UTC+00:00',
-			'-1': 'UTC-01:00',
-			'UTC+2': 'UTC+02:00',
-			'UTC+1': 'UTC+01:00',
-			'UTC0': 'UTC+00:00',
-			'UTC+0': 'UTC+00:00',
-			'UTC-1': 'UTC-01:00'
-		}
-		if (shortcuts[raw]) return shortcuts[raw]
-		const withPrefix = raw.startsWith('UTC') ? raw : `UTC${raw}`
-		const m = withPrefix.match(/^UTC([+-])(\d{1,2})(?::?(\d{2}))?$/)
-		if (!m) return null
-		const sign = m[1]
-		const hh = Number(m[2])
-		const mm = Number(m[3] ?? '0')
-		if (!Number.isFinite(hh) || !Number.isFinite(mm) || hh > 14 || mm > 59) {
-			return null
-		}
-		return `UTC${sign}${String(hh).padStart(2, '0')}:${String(mm).padStart(2, '0')}`
-	}
-
 	private async downloadTelegramFile(
 		fileId: string,
 		maxBytes?: number
@@ -4509,9 +4886,9 @@ ${blocks.join('\n\n')}
 		return out
 	}
 
-	private parseMassTxDate(value?: string): Date | null {
+	private parseMassTxDate(value: string | undefined, timezone: string): Date | null {
 		if (!value) return null
-		const explicit = extractExplicitDateFromText(value, new Date())
+		const explicit = extractExplicitDateFromText(value, new Date(), timezone)
 		if (explicit) return explicit
 		return normalizeTxDate(value)
 	}
@@ -4624,7 +5001,11 @@ ${blocks.join('\n\n')}
 		return Math.abs(actual - expected) <= tolerance
 	}
 
-	private txMatchesMassFilter(tx: any, filter?: LlmMassTransactionFilter): boolean {
+	private txMatchesMassFilter(
+		tx: any,
+		filter: LlmMassTransactionFilter | undefined,
+		timezone: string
+	): boolean {
 		if (!filter) return true
 		if (filter.direction && tx.direction !== filter.direction) return false
 		if (
@@ -4680,7 +5061,7 @@ ${blocks.join('\n\n')}
 		) {
 			return false
 		}
-		const filterDate = this.parseMassTxDate(filter.transactionDate)
+		const filterDate = this.parseMassTxDate(filter.transactionDate, timezone)
 		if (filterDate) {
 			const txDate = normalizeTxDate(tx.transactionDate)
 			if (!txDate || !this.isSameUtcDate(txDate, filterDate)) return false
@@ -4758,6 +5139,7 @@ ${blocks.join('\n\n')}
 		instruction: string
 	): Promise<MassTransactionDraftRow[]> {
 		const user = ctx.state.user as any
+		const timezone = user.timezone ?? DEFAULT_TIMEZONE
 		const [categories, tags, accounts, transactions] = await Promise.all([
 			this.categoriesService.getSelectableByUserId(user.id),
 			this.tagsService.getAllByUserId(user.id),
@@ -4786,7 +5168,7 @@ ${blocks.join('\n\n')}
 			categoryNames: categories.map(c => c.name),
 			tagNames: tags.map(t => t.name),
 			accountNames: accounts.map(a => a.name),
-			timezone: user.timezone ?? 'UTC+02:00'
+			timezone
 		})
 		if (parsed.action === 'update' && !parsed.update) {
 			throw new Error(
@@ -4800,7 +5182,9 @@ ${blocks.join('\n\n')}
 						accounts.map(a => ({ id: a.id, name: a.name }))
 					)
 				: new Set<string>()
-		let matched = transactions.filter(tx => this.txMatchesMassFilter(tx, parsed.filter))
+		let matched = transactions.filter(tx =>
+			this.txMatchesMassFilter(tx, parsed.filter, timezone)
+		)
 		if (parsed.action === 'delete') {
 			const amountCurrencyPairs = this.extractAmountCurrencyPairs(instruction)
 			if (amountCurrencyPairs.length) {
@@ -4808,7 +5192,7 @@ ${blocks.join('\n\n')}
 				const pairMatched = transactions.filter(tx => {
 					if (
 						extraFilter &&
-						!this.txMatchesMassFilter(tx, extraFilter)
+						!this.txMatchesMassFilter(tx, extraFilter, timezone)
 					) {
 						return false
 					}
@@ -4834,7 +5218,9 @@ ${blocks.join('\n\n')}
 			})
 		}
 		if (parsed.exclude) {
-			matched = matched.filter(tx => !this.txMatchesMassFilter(tx, parsed.exclude))
+			matched = matched.filter(
+				tx => !this.txMatchesMassFilter(tx, parsed.exclude, timezone)
+			)
 		}
 		if (!matched.length) {
 			throw new Error(
@@ -4886,7 +5272,7 @@ ${blocks.join('\n\n')}
 			update.description != null
 				? String(update.description).trim().slice(0, 80)
 				: undefined
-		const targetDate = this.parseMassTxDate(update.transactionDate)
+		const targetDate = this.parseMassTxDate(update.transactionDate, timezone)
 		for (const tx of matched) {
 			const after: MassTransactionDraftRow['after'] = {}
 			if (
@@ -5645,6 +6031,7 @@ ${lines.join('\n\n')}${hidden}
 		tx: any,
 		params: {
 			now: Date
+			timezone: string
 			isImageBatch: boolean
 			dominantDate: Date | null
 		}
@@ -5658,7 +6045,11 @@ ${lines.join('\n\n')}${hidden}
 		if (params.isImageBatch && params.dominantDate) {
 			return params.dominantDate
 		}
-		const explicitDate = extractExplicitDateFromText(cleanedSourceText, params.now)
+		const explicitDate = extractExplicitDateFromText(
+			cleanedSourceText,
+			params.now,
+			params.timezone
+		)
 		if (explicitDate) return explicitDate
 		const chosen = pickTransactionDate({
 			userText: cleanedSourceText,
@@ -5718,7 +6109,8 @@ ${lines.join('\n\n')}${hidden}
 		ctx: BotContext,
 		imageDataUrl: string,
 		caption: string | undefined,
-		parseToken: string
+		parseToken: string,
+		receipt: TransactionAttachmentInput
 	): Promise<void> {
 		const user: any = ctx.state.user
 		const [userCategories, frozen, userAccounts] = await Promise.all([
@@ -5741,7 +6133,7 @@ ${lines.join('\n\n')}${hidden}
 			.map((a: any) => a.name)
 			.filter((n: string) => n !== 'Вне Wallet')
 
-			const timezone = user?.timezone ?? 'UTC+02:00'
+			const timezone = user?.timezone ?? DEFAULT_TIMEZONE
 			const [parsed, extractedImageDate] = await Promise.all([
 				this.llmService.parseTransactionFromImage(
 					imageDataUrl,
@@ -5758,7 +6150,7 @@ ${lines.join('\n\n')}${hidden}
 				)
 			])
 			const now = new Date()
-			const captionDate = extractExplicitDateFromText(caption ?? '', now)
+			const captionDate = extractExplicitDateFromText(caption ?? '', now, timezone)
 			const fullDateCandidates = parsed.flatMap(tx =>
 				this.extractFullDateCandidates(
 					`${tx?.rawText ?? ''} ${tx?.description ?? ''}`
@@ -5786,7 +6178,7 @@ ${lines.join('\n\n')}${hidden}
 						(tx.transactionDate ? String(tx.transactionDate) : undefined)
 				}
 			})
-			await this.processParsedTransactions(ctx, normalized)
+			await this.processParsedTransactions(ctx, normalized, receipt)
 		}
 
 	async closeTemp(ctx) {
@@ -5821,7 +6213,8 @@ ${lines.join('\n\n')}${hidden}
 
 	private async processParsedTransactions(
 		ctx: BotContext,
-		parsed: LlmTransaction[]
+		parsed: LlmTransaction[],
+		receipt?: TransactionAttachmentInput
 	): Promise<void> {
 		const user: any = ctx.state.user
 		if (!parsed.length) {
@@ -5971,6 +6364,7 @@ ${lines.join('\n\n')}${hidden}
 		}
 
 			const now = new Date()
+			const timezone = user.timezone ?? DEFAULT_TIMEZONE
 			const isImageBatch = (parsed as any[]).some(tx =>
 				String(tx?.rawText ?? '').includes('PHOTO_PARSE:')
 			)
@@ -5980,7 +6374,7 @@ ${lines.join('\n\n')}${hidden}
 						.replace(/PHOTO_PARSE:[^\s]+/g, ' ')
 						.replace(/\s+/g, ' ')
 						.trim()
-					return extractExplicitDateFromText(source, now)
+					return extractExplicitDateFromText(source, now, timezone)
 				})
 				.filter((d): d is Date => !!d)
 			const llmDates = (parsed as any[])
@@ -5998,6 +6392,7 @@ ${lines.join('\n\n')}${hidden}
 				const direction = tx.direction
 				const chosenDate = this.stabilizeParsedDate(tx, {
 					now,
+					timezone,
 					isImageBatch,
 					dominantDate
 				})
@@ -6272,7 +6667,7 @@ ${lines.join('\n\n')}${hidden}
 		}
 
 		for (const tx of normalizedTransactions) {
-			tx.userTimezone = user.timezone ?? 'UTC+02:00'
+			tx.userTimezone = user.timezone ?? DEFAULT_TIMEZONE
 			if (typeof tx.amount === 'number' && Number.isFinite(tx.amount)) {
 				tx.amount = Math.abs(tx.amount)
 			}
@@ -6670,7 +7065,8 @@ ${lines.join('\n\n')}${hidden}
 						convertToCurrency: draft.convertToCurrency,
 						transactionDate: draft.transactionDate
 							? normalizeTxDate(draft.transactionDate) ?? undefined
-							: undefined
+							: undefined,
+						attachments: receipt ? [receipt] : undefined
 					})
 					createdDrafts.push({
 						...draft,
@@ -1,73 +1,528 @@
-import { Bot } from 'grammy'
+import { Bot, InlineKeyboard } from 'grammy'
 import { BotContext } from '../core/bot.middleware'
+import { activateInputMode, resetInputModes } from '../core/input-mode'
 import { buildSettingsView } from '../../../shared/keyboards/settings'
+import { AlertsService } from '../../alerts/alerts.service'
+import { CategoriesService } from '../../categories/categories.service'
+import { AccountsService } from '../../accounts/accounts.service'
+import { AlertPeriodEnum, AlertTypeEnum } from '../../../generated/prisma/enums'
+import { formatAmount } from '../../../utils/format'
+import { parseAlertThreshold, pluralDays } from '../../alerts/alerts.utils'
 
-export const analyticsAlertsCallback = (
-	bot: Bot<BotContext>,
-	prisma: {
-		alertConfig: {
-			count: (args: { where: { userId: string; enabled?: boolean } }) => Promise<number>
-			updateMany: (args: {
-				where: { userId: string }
-				data: { enabled: boolean }
-			}) => Promise<unknown>
-			create: (args: {
-					data: {
-						userId: string
-						type: 'large_expense'
-						threshold: number
-						thresholdDecimal?: string
-						enabled: boolean
-					}
-				}) => Promise<unknown>
+type AlertDraft = NonNullable<BotContext['session']['alertDraft']>
+
+type AlertRuleView = {
+	id: string
+	type: AlertTypeEnum
+	threshold: number
+	period: AlertPeriodEnum
+	categoryId: string | null
+	currency: string | null
+	enabled: boolean
+	account: { name: string } | null
+}
+
+const TYPE_LABELS: Record<AlertTypeEnum, string> = {
+	large_expense: '💸 Крупный расход',
+	category_threshold: '📂 Лимит категории',
+	low_balance: '🏦 Низкий баланс',
+	no_transactions: '⏳ Нет транзакций',
+	unusual_spending: '🚨 Необычные траты'
+}
+
+const PERIOD_LABELS: Record<AlertPeriodEnum, string> = {
+	day: 'в день',
+	week: 'в неделю',
+	month: 'в месяц'
+}
+
+const PERIOD_BUTTONS: Record<AlertPeriodEnum, string> = {
+	day: 'День',
+	week: 'Неделя',
+	month: 'Месяц'
+}
+
+function needsPeriod(type: AlertTypeEnum): boolean {
+	return type === 'category_threshold' || type === 'low_balance'
+}
+
+function thresholdLabel(rule: AlertRuleView, mainCurrency: string): string {
+	if (rule.type === 'no_transactions') {
+		const days = Math.round(rule.threshold)
+		return `${days} ${pluralDays(days)}`
+	}
+	const amount = formatAmount(rule.threshold, mainCurrency)
+	if (rule.type === 'unusual_spending') return `от ${amount}`
+	return rule.type === 'category_threshold'
+		? `${amount} ${PERIOD_LABELS[rule.period]}`
+		: amount
+}
+
+function ruleTarget(rule: AlertRuleView, categoryNames: Map<string, string>): string {
+	if (rule.type === 'category_threshold') {
+		return (rule.categoryId && categoryNames.get(rule.categoryId)) || '—'
+	}
+	if (rule.type === 'low_balance') {
+		return rule.account ? `${rule.account.name} · ${rule.currency ?? ''}` : '—'
+	}
+	return ''
+}
+
+function ruleButtonLabel(
+	rule: AlertRuleView,
+	categoryNames: Map<string, string>,
+	mainCurrency: string
+): string {
+	const target = ruleTarget(rule, categoryNames)
+	const parts = [TYPE_LABELS[rule.type], target, thresholdLabel(rule, mainCurrency)]
+	return `${rule.enabled ? '✅' : '⏸'} ${parts.filter(Boolean).join(' · ')}`
+}
+
+function ruleDetailText(
+	rule: AlertRuleView,
+	categoryNames: Map<string, string>,
+	mainCurrency: string
+): string {
+	const lines = [`🔔 <b>${TYPE_LABELS[rule.type]}</b>`, '']
+	if (rule.type === 'category_threshold') {
+		lines.push(`Категория: ${ruleTarget(rule, categoryNames)}`)
+		lines.push(`Лимит: ${thresholdLabel(rule, mainCurrency)}`)
+	} else if (rule.type === 'low_balance') {
+		lines.push(`Актив: ${ruleTarget(rule, categoryNames)}`)
+		lines.push(`Минимальный баланс: ${thresholdLabel(rule, mainCurrency)}`)
+		lines.push(`Напоминать не чаще: раза ${PERIOD_LABELS[rule.period]}`)
+	} else if (rule.type === 'no_transactions') {
+		lines.push(
+			`Напомнить после: ${thresholdLabel(rule, mainCurrency)} без транзакций`
+		)
+	} else if (rule.type === 'unusual_spending') {
+		lines.push(
+			'Сообщать о расходах и категориях, которые заметно выше ваших обычных',
+			`Не меньше: ${formatAmount(rule.threshold, mainCurrency)}`
+		)
+	} else {
+		lines.push(`Порог: ${thresholdLabel(rule, mainCurrency)}`)
+	}
+	lines.push(`Статус: ${rule.enabled ? 'включено' : 'выключено'}`)
+	return lines.join('\n')
+}
+
+function ruleDetailKeyboard(rule: AlertRuleView): InlineKeyboard {
+	const kb = new InlineKeyboard()
+		.text(rule.enabled ? '⏸ Выключить' : '▶️ Включить', `alerts_toggle:${rule.id}`)
+		.text(
+			rule.type === 'no_transactions' ? '✍️ Дни' : '✍️ Порог',
+			`alerts_edit_threshold:${rule.id}`
+		)
+		.row()
+	if (rule.type === 'category_threshold') {
+		kb.text('📂 Категория', `alerts_edit_target:${rule.id}`)
+	} else if (rule.type === 'low_balance') {
+		kb.text('🏦 Актив', `alerts_edit_target:${rule.id}`)
+	}
+	if (needsPeriod(rule.type)) {
+		kb.text('📅 Период', `alerts_edit_period:${rule.id}`).row()
+	}
+	return kb
+		.text('🗑 Удалить', `alerts_delete:${rule.id}`)
+		.row()
+		.text('← Назад', 'analytics_alerts')
+}
+
+function thresholdPrompt(draft: AlertDraft, mainCurrency: string): string {
+	if (draft.type === 'no_transactions') {
+		return 'Через сколько дней без новых транзакций напомнить? Введите число дней.'
+	}
+	if (draft.type === 'low_balance') {
+		return `Введите минимальный баланс в ${mainCurrency}. Можно ввести 0 — тогда уведомление придёт, когда баланс уйдёт в минус.`
+	}
+	if (draft.type === 'unusual_spending') {
+		return `Введите сумму в ${mainCurrency}, начиная с которой сообщать о необычных тратах. 0 — сообщать обо всех.`
+	}
+	if (draft.type === 'category_threshold') {
+		return `Введите лимит расходов по категории в ${mainCurrency} ${
+			PERIOD_LABELS[draft.period ?? 'month']
+		}.`
+	}
+	return `Введите сумму в ${mainCurrency}, начиная с которой расход считается крупным.`
+}
+
+async function editAlertsMessage(
+	ctx: BotContext,
+	text: string,
+	keyboard: InlineKeyboard
+): Promise<void> {
+	const msgId = ctx.callbackQuery?.message?.message_id ?? ctx.session.alertsMessageId
+	if (msgId != null) {
+		ctx.session.alertsMessageId = msgId
+		try {
+			await ctx.api.editMessageText(ctx.chat.id, msgId, text, {
+				parse_mode: 'HTML',
+				reply_markup: keyboard
+			})
+			return
+		} catch (error: unknown) {
+			if (String((error as Error)?.message ?? '').includes('not modified')) return
 		}
 	}
-) => {
-	bot.callbackQuery('analytics_alerts', async ctx => {
-		const user: any = ctx.state.user
-		if (!user?.id) return
-		const enabledCount = await prisma.alertConfig.count({
-			where: { userId: user.id, enabled: true }
+	const msg = await ctx.reply(text, { parse_mode: 'HTML', reply_markup: keyboard })
+	ctx.session.alertsMessageId = msg.message_id
+}
+
+async function deleteAlertsHint(ctx: BotContext): Promise<void> {
+	if (ctx.session.alertsHintMessageId == null) return
+	try {
+		await ctx.api.deleteMessage(ctx.chat.id, ctx.session.alertsHintMessageId)
+	} catch {
+		// hint may already be closed by the user
+	}
+	ctx.session.alertsHintMessageId = undefined
+}
+
+async function categoryNameMap(
+	categoriesService: CategoriesService,
+	userId: string
+): Promise<Map<string, string>> {
+	const categories = await categoriesService.getAllByUserId(userId)
+	return new Map(categories.map(c => [c.id, c.name]))
+}
+
+async function renderAlertsList(
+	ctx: BotContext,
+	alertsService: AlertsService,
+	categoriesService: CategoriesService
+): Promise<void> {
+	const user = ctx.state.user
+	const [rules, categoryNames] = await Promise.all([
+		alertsService.listRules(user.id),
+		categoryNameMap(categoriesService, user.id)
+	])
+	const kb = new InlineKeyboard()
+	for (const rule of rules) {
+		kb.text(
+			ruleButtonLabel(rule, categoryNames, user.mainCurrency),
+			`alerts_open:${rule.id}`
+		).row()
+	}
+	kb.text('+ Добавить правило', 'alerts_new').row().text('← Назад', 'alerts_back')
+	const text = rules.length
+		? '🔔 <b>Уведомления</b>\n\nВыберите правило, чтобы изменить порог, период или удалить его.'
+		: '🔔 <b>Уведомления</b>\n\nПравил пока нет. Добавьте первое — например, лимит на категорию или напоминание о низком балансе.'
+	await editAlertsMessage(ctx, text, kb)
+}
+
+async function renderRuleDetail(
+	ctx: BotContext,
+	alertsService: AlertsService,
+	categoriesService: CategoriesService,
+	ruleId: string
+): Promise<void> {
+	const user = ctx.state.user
+	const rule = await alertsService.findRule(ruleId, user.id)
+	if (!rule) {
+		await renderAlertsList(ctx, alertsService, categoriesService)
+		return
+	}
+	const categoryNames = await categoryNameMap(categoriesService, user.id)
+	await editAlertsMessage(
+		ctx,
+		ruleDetailText(rule, categoryNames, user.mainCurrency),
+		ruleDetailKeyboard(rule)
+	)
+}
+
+async function saveDraft(
+	ctx: BotContext,
+	alertsService: AlertsService,
+	categoriesService: CategoriesService,
+	draft: AlertDraft,
+	threshold?: number
+): Promise<void> {
+	const userId = ctx.state.user.id
+	const patch = {
+		period: draft.period,
+		categoryId: draft.categoryId,
+		accountId: draft.accountId,
+		currency: draft.currency,
+		threshold
+	}
+	let ruleId = draft.ruleId
+	if (ruleId) {
+		await alertsService.updateRule(ruleId, userId, patch)
+	} else {
+		const created = await alertsService.createRule(userId, {
+			...patch,
+			type: draft.type,
+			threshold: threshold ?? 0
 		})
-		if (enabledCount > 0) {
-			await prisma.alertConfig.updateMany({
-				where: { userId: user.id },
-				data: { enabled: false }
-			})
-		} else {
-			const anyCount = await prisma.alertConfig.count({
-				where: { userId: user.id }
-			})
-			if (anyCount > 0) {
-				await prisma.alertConfig.updateMany({
-					where: { userId: user.id },
-					data: { enabled: true }
-				})
-			} else {
-					await prisma.alertConfig.create({
-						data: {
-							userId: user.id,
-							type: 'large_expense',
-							threshold: 100,
-							thresholdDecimal: '100.000000000000000000',
-							enabled: true
-						}
-					})
+		ruleId = created.id
+	}
+	ctx.session.alertDraft = undefined
+	await renderRuleDetail(ctx, alertsService, categoriesService, ruleId)
+}
+
+async function askThreshold(ctx: BotContext, draft: AlertDraft): Promise<void> {
+	await deleteAlertsHint(ctx)
+	const hint = await ctx.reply(thresholdPrompt(draft, ctx.state.user.mainCurrency), {
+		reply_markup: new InlineKeyboard().text('Закрыть', 'alerts_close_hint')
+	})
+	activateInputMode(ctx, 'alert_threshold_edit', {
+		alertDraft: draft,
+		alertsHintMessageId: hint.message_id
+	})
+}
+
+/** Walks the creation wizard: target → period → threshold. */
+async function continueDraft(
+	ctx: BotContext,
+	categoriesService: CategoriesService,
+	accountsService: AccountsService
+): Promise<void> {
+	const draft = ctx.session.alertDraft
+	if (!draft) return
+	const userId = ctx.state.user.id
+	if (draft.type === 'category_threshold' && !draft.categoryId) {
+		const categories = await categoriesService.getSelectableByUserId(userId)
+		const kb = new InlineKeyboard()
+		categories.forEach((c, i) => {
+			kb.text(c.name, `alerts_cat:${c.id}`)
+			if (i % 3 === 2) kb.row()
+		})
+		kb.row().text('← Назад', 'analytics_alerts')
+		await editAlertsMessage(ctx, '📂 Выберите категорию для лимита.', kb)
+		return
+	}
+	if (draft.type === 'low_balance' && !draft.accountId) {
+		const accounts = await accountsService.getAllWithAssets(userId)
+		const kb = new InlineKeyboard()
+		for (const account of accounts) {
+			for (const asset of account.assets) {
+				kb.text(
+					`${account.name} · ${asset.currency}`,
+					`alerts_asset:${account.id}:${asset.currency}`
+				).row()
 			}
 		}
-		const alertsEnabledCount = await prisma.alertConfig.count({
-			where: { userId: user.id, enabled: true }
+		kb.text('← Назад', 'analytics_alerts')
+		await editAlertsMessage(
+			ctx,
+			'🏦 Выберите счёт и валюту для контроля баланса.',
+			kb
+		)
+		return
+	}
+	if (needsPeriod(draft.type) && !draft.period) {
+		await askPeriod(ctx, draft)
+		return
+	}
+	await askThreshold(ctx, draft)
+}
+
+async function askPeriod(ctx: BotContext, draft: AlertDraft): Promise<void> {
+	const kb = new InlineKeyboard()
+	for (const period of Object.keys(PERIOD_BUTTONS) as AlertPeriodEnum[]) {
+		const label = PERIOD_BUTTONS[period]
+		kb.text(
+			draft.period === period ? `✅ ${label}` : label,
+			`alerts_period:${period}`
+		)
+	}
+	kb.row().text(
+		'← Назад',
+		draft.ruleId ? `alerts_open:${draft.ruleId}` : 'analytics_alerts'
+	)
+	const text =
+		draft.type === 'low_balance'
+			? '📅 Как часто напоминать о низком балансе?'
+			: '📅 За какой период считать расходы по категории?'
+	await editAlertsMessage(ctx, text, kb)
+}
+
+/** Handles text typed while in `alert_threshold_edit` mode. */
+export async function handleAlertThresholdInput(
+	ctx: BotContext,
+	text: string,
+	alertsService: AlertsService,
+	categoriesService: CategoriesService
+): Promise<void> {
+	const draft = ctx.session.alertDraft
+	if (!draft) {
+		resetInputModes(ctx)
+		return
+	}
+	const parsed = parseAlertThreshold(
+		text,
+		draft.type === 'low_balance' || draft.type === 'unusual_spending'
+	)
+	const value =
+		parsed != null && draft.type === 'no_transactions' ? Math.round(parsed) : parsed
+	if (value == null || (draft.type === 'no_transactions' && value < 1)) {
+		await ctx.reply('Не удалось распознать число, попробуйте ещё раз.', {
+			reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
 		})
-		const view = buildSettingsView(user, alertsEnabledCount)
-		const msgId = ctx.callbackQuery?.message?.message_id ?? (ctx.session as any).homeMessageId
-		if (msgId != null) {
-			try {
-				await ctx.api.editMessageText(ctx.chat!.id, msgId, view.text, {
-					parse_mode: 'HTML',
-					reply_markup: view.keyboard
-				})
-			} catch {}
-		}
+		return
+	}
+	try {
+		await ctx.api.deleteMessage(ctx.chat.id, ctx.message!.message_id)
+	} catch {
+		// keep going even if the input message cannot be removed
+	}
+	await deleteAlertsHint(ctx)
+	resetInputModes(ctx)
+	await saveDraft(ctx, alertsService, categoriesService, draft, value)
+}
+
+export const analyticsAlertsCallback = (
+	bot: Bot<BotContext>,
+	alertsService: AlertsService,
+	categoriesService: CategoriesService,
+	accountsService: AccountsService
+) => {
+	bot.callbackQuery('analytics_alerts', async ctx => {
+		await deleteAlertsHint(ctx)
+		ctx.session.alertDraft = undefined
+		resetInputModes(ctx)
+		await renderAlertsList(ctx, alertsService, categoriesService)
 		await ctx.answerCallbackQuery()
 	})
+
+	bot.callbackQuery('alerts_back', async ctx => {
+		await deleteAlertsHint(ctx)
+		ctx.session.alertDraft = undefined
+		resetInputModes(ctx)
+		const user = ctx.state.user
+		const rules = await alertsService.listRules(user.id)
+		const view = buildSettingsView(user, rules.filter(r => r.enabled).length)
+		await editAlertsMessage(ctx, view.text, view.keyboard)
+		ctx.session.alertsMessageId = undefined
+	})
+
+	bot.callbackQuery('alerts_close_hint', async ctx => {
+		await deleteAlertsHint(ctx)
+		ctx.session.alertDraft = undefined
+		resetInputModes(ctx)
+	})
+
+	bot.callbackQuery('alerts_new', async ctx => {
+		const kb = new InlineKeyboard()
+		for (const type of Object.keys(TYPE_LABELS) as AlertTypeEnum[]) {
+			kb.text(TYPE_LABELS[type], `alerts_new_type:${type}`).row()
+		}
+		kb.text('← Назад', 'analytics_alerts')
+		await editAlertsMessage(ctx, '🔔 Какое уведомление добавить?', kb)
+	})
+
+	bot.callbackQuery(/^alerts_new_type:/, async ctx => {
+		const type = ctx.callbackQuery.data.replace(
+			'alerts_new_type:',
+			''
+		) as AlertTypeEnum
+		if (!(type in TYPE_LABELS)) return
+		ctx.session.alertsMessageId = ctx.callbackQuery.message?.message_id
+		ctx.session.alertDraft = { type }
+		await continueDraft(ctx, categoriesService, accountsService)
+	})
+
+	bot.callbackQuery(/^alerts_cat:/, async ctx => {
+		const draft = ctx.session.alertDraft
+		if (!draft) return
+		draft.categoryId = ctx.callbackQuery.data.replace('alerts_cat:', '')
+		if (draft.ruleId) {
+			await saveDraft(ctx, alertsService, categoriesService, draft)
+			return
+		}
+		await continueDraft(ctx, categoriesService, accountsService)
+	})
+
+	bot.callbackQuery(/^alerts_asset:/, async ctx => {
+		const draft = ctx.session.alertDraft
+		if (!draft) return
+		const [accountId, currency] = ctx.callbackQuery.data
+			.replace('alerts_asset:', '')
+			.split(':')
+		if (!accountId || !currency) return
+		draft.accountId = accountId
+		draft.currency = currency
+		if (draft.ruleId) {
+			await saveDraft(ctx, alertsService, categoriesService, draft)
+			return
+		}
+		await continueDraft(ctx, categoriesService, accountsService)
+	})
+
+	bot.callbackQuery(/^alerts_period:/, async ctx => {
+		const draft = ctx.session.alertDraft
+		if (!draft) return
+		const period = ctx.callbackQuery.data.replace(
+			'alerts_period:',
+			''
+		) as AlertPeriodEnum
+		if (!(period in PERIOD_BUTTONS)) return
+		draft.period = period
+		if (draft.ruleId) {
+			await saveDraft(ctx, alertsService, categoriesService, draft)
+			return
+		}
+		await continueDraft(ctx, categoriesService, accountsService)
+	})
+
+	bot.callbackQuery(/^alerts_open:/, async ctx => {
+		const ruleId = ctx.callbackQuery.data.replace('alerts_open:', '')
+		await deleteAlertsHint(ctx)
+		ctx.session.alertDraft = undefined
+		resetInputModes(ctx)
+		await renderRuleDetail(ctx, alertsService, categoriesService, ruleId)
+	})
+
+	bot.callbackQuery(/^alerts_toggle:/, async ctx => {
+		const ruleId = ctx.callbackQuery.data.replace('alerts_toggle:', '')
+		const rule = await alertsService.findRule(ruleId, ctx.state.user.id)
+		if (!rule) return
+		await alertsService.updateRule(ruleId, ctx.state.user.id, {
+			enabled: !rule.enabled
+		})
+		await renderRuleDetail(ctx, alertsService, categoriesService, ruleId)
+	})
+
+	bot.callbackQuery(/^alerts_edit_threshold:/, async ctx => {
+		const ruleId = ctx.callbackQuery.data.replace('alerts_edit_threshold:', '')
+		const rule = await alertsService.findRule(ruleId, ctx.state.user.id)
+		if (!rule) return
+		ctx.session.alertsMessageId = ctx.callbackQuery.message?.message_id
+		await askThreshold(ctx, { ruleId, type: rule.type, period: rule.period })
+	})
+
+	bot.callbackQuery(/^alerts_edit_period:/, async ctx => {
+		const ruleId = ctx.callbackQuery.data.replace('alerts_edit_period:', '')
+		const rule = await alertsService.findRule(ruleId, ctx.state.user.id)
+		if (!rule) return
+		ctx.session.alertDraft = { ruleId, type: rule.type, period: rule.period }
+		await askPeriod(ctx, ctx.session.alertDraft)
+	})
+
+	bot.callbackQuery(/^alerts_edit_target:/, async ctx => {
+		const ruleId = ctx.callbackQuery.data.replace('alerts_edit_target:', '')
+		const rule = await alertsService.findRule(ruleId, ctx.state.user.id)
+		if (!rule) return
+		ctx.session.alertDraft = { ruleId, type: rule.type, period: rule.period }
+		await continueDraft(ctx, categoriesService, accountsService)
+	})
+
+	bot.callbackQuery(/^alerts_delete:/, async ctx => {
+		const ruleId = ctx.callbackQuery.data.replace('alerts_delete:', '')
+		const kb = new InlineKeyboard()
+			.text('✅ Подтвердить', `alerts_delete_confirm:${ruleId}`)
+			.text('🔙 Вернуться', `alerts_open:${ruleId}`)
+		await editAlertsMessage(
+			ctx,
+			'Удалить это правило уведомления?\n\nВы уверены?',
+			kb
+		)
+	})
+
+	bot.callbackQuery(/^alerts_delete_confirm:/, async ctx => {
+		const ruleId = ctx.callbackQuery.data.replace('alerts_delete_confirm:', '')
+		await alertsService.deleteRule(ruleId, ctx.state.user.id)
+		await renderAlertsList(ctx, alertsService, categoriesService)
+	})
 }
@@ -0,0 +1,92 @@
+import { Bot, InlineKeyboard } from 'grammy'
+import { BotContext } from '../core/bot.middleware'
+import {
+	AnalyticsService,
+	type AnomalyReport
+} from '../../../modules/analytics/analytics.service'
+import { analyticsPeriodLabel } from '../../../modules/analytics/analytics-period.utils'
+import { DEFAULT_TIMEZONE, formatZonedDate } from '../../../utils/date'
+import { formatAmount } from '../../../utils/format'
+import { escapeHtml } from '../../../utils/html'
+
+/** Flags listed per section, most unusual first. */
+const MAX_ANOMALY_LINES = 8
+
+function anomaliesText(
+	report: AnomalyReport,
+	periodLabel: string,
+	timezone: string
+): string {
+	const lines = [`<b>🚨 Необычные траты</b> — ${periodLabel}`]
+	if (report.categories.length) {
+		lines.push('', '<b>Категории</b>')
+		for (const item of report.categories.slice(0, MAX_ANOMALY_LINES)) {
+			lines.push(
+				`• ${escapeHtml(item.categoryName)}: ${formatAmount(item.amount, item.currency)}`,
+				`  ${escapeHtml(item.explanation)}`
+			)
+		}
+	}
+	if (report.transactions.length) {
+		lines.push('', '<b>Операции</b>')
+		for (const item of report.transactions.slice(0, MAX_ANOMALY_LINES)) {
+			const label = item.description ?? item.tagOrCategory ?? '—'
+			lines.push(
+				`• ${formatZonedDate(item.transactionDate, timezone)} ${escapeHtml(label)}: ${formatAmount(item.amount, item.currency)}`,
+				`  ${escapeHtml(item.explanation)}`
+			)
+		}
+	}
+	if (!report.categories.length && !report.transactions.length) {
+		lines.push('', 'Ничего необычного: расходы в пределах привычных для вас.')
+	}
+	lines.push(
+		'',
+		'<i>Сравниваем с вашей же историей: медианой и разбросом трат по каждой категории за последние месяцы.</i>'
+	)
+	return lines.join('\n')
+}
+
+async function editHome(
+	ctx: BotContext,
+	text: string,
+	kb: InlineKeyboard
+): Promise<void> {
+	const msgId = ctx.session.homeMessageId
+	if (msgId != null) {
+		try {
+			await ctx.api.editMessageText(ctx.chat.id, msgId, text, {
+				parse_mode: 'HTML',
+				reply_markup: kb
+			})
+			return
+		} catch {
+			// fall through and send a fresh message
+		}
+	}
+	const msg = await ctx.reply(text, { parse_mode: 'HTML', reply_markup: kb })
+	ctx.session.homeMessageId = msg.message_id
+}
+
+export const analyticsAnomaliesCallback = (
+	bot: Bot<BotContext>,
+	analyticsService: AnalyticsService
+) => {
+	bot.callbackQuery('analytics_anomalies', async ctx => {
+		const user = ctx.state.user
+		const timezone = user.timezone ?? DEFAULT_TIMEZONE
+		const period = ctx.session.analyticsPeriod ?? 'month'
+		const report = await analyticsService.getAnomalies(
+			user.id,
+			period,
+			user.mainCurrency ?? 'USD',
+			ctx.session.analyticsFilter?.accountId,
+			timezone
+		)
+		await editHome(
+			ctx,
+			anomaliesText(report, analyticsPeriodLabel(period, timezone), timezone),
+			new InlineKeyboard().text('← Назад', 'analytics_back_to_main')
+		)
+	})
+}
@@ -1,9 +1,6 @@
 import { Bot, InlineKeyboard } from 'grammy'
 import { BotContext } from '../core/bot.middleware'
-import {
-	AnalyticsService,
-	type AnalyticsPeriod
-} from '../../../modules/analytics/analytics.service'
+import { AnalyticsService } from '../../../modules/analytics/analytics.service'
 import { PrismaService } from '../../../modules/prisma/prisma.service'
 import { getCurrencySymbol } from '../../../utils/format'
 
@@ -15,17 +12,19 @@ export const analyticsCategoriesCallback = (
 	prisma: PrismaService
 ) => {
 	bot.callbackQuery('analytics_by_category', async ctx => {
-		const user = ctx.state.user as any
-		const period = ((ctx.session as any).analyticsPeriod ?? 'month') as AnalyticsPeriod
-		const accountId = (ctx.session as any).analyticsFilter?.accountId
-		;(ctx.session as any).analyticsCategoriesPage = 0
+		const user = ctx.state.user
+		const period = ctx.session.analyticsPeriod ?? 'month'
+		const accountId = ctx.session.analyticsFilter?.accountId
+		ctx.session.analyticsCategoriesPage = 0
 
 		const categories = await analyticsService.getTopCategories(
 			user.id,
 			period,
 			user.mainCurrency ?? 'USD',
 			99,
-			accountId
+			accountId,
+			undefined,
+			user.timezone
 		)
 		if (!categories.length) {
 			await ctx.answerCallbackQuery({
@@ -61,7 +60,7 @@ export const analyticsCategoriesCallback = (
 			.row()
 		kb.text('← Назад', 'analytics_back_to_main')
 
-		const msgId = (ctx.session as any).homeMessageId
+		const msgId = ctx.session.homeMessageId
 		if (msgId != null) {
 			try {
 				await ctx.api.editMessageText(
@@ -75,22 +74,24 @@ export const analyticsCategoriesCallback = (
 	})
 
 	bot.callbackQuery(/^analytics_categories_page:/, async ctx => {
-		const user = ctx.state.user as any
-		const period = ((ctx.session as any).analyticsPeriod ?? 'month') as AnalyticsPeriod
-		const accountId = (ctx.session as any).analyticsFilter?.accountId
+		const user = ctx.state.user
+		const period = ctx.session.analyticsPeriod ?? 'month'
+		const accountId = ctx.session.analyticsFilter?.accountId
 		const categories = await analyticsService.getTopCategories(
 			user.id,
 			period,
 			user.mainCurrency ?? 'USD',
 			99,
-			accountId
+			accountId,
+			undefined,
+			user.timezone
 		)
 		const totalPages = Math.max(1, Math.ceil(categories.length / PAGE_SIZE))
-		let page = (ctx.session as any).analyticsCategoriesPage ?? 0
+		let page = ctx.session.analyticsCategoriesPage ?? 0
 		const action = ctx.callbackQuery.data.split(':')[1]
 		if (action === 'prev') page = page <= 0 ? totalPages - 1 : page - 1
 		if (action === 'next') page = page >= totalPages - 1 ? 0 : page + 1
-		;(ctx.session as any).analyticsCategoriesPage = page
+		ctx.session.analyticsCategoriesPage = page
 
 		const slice = categories.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE)
 		const symbol = getCurrencySymbol(user.mainCurrency ?? 'USD')
@@ -116,7 +117,7 @@ export const analyticsCategoriesCallback = (
 			.row()
 		kb.text('← Назад', 'analytics_back_to_main')
 
-		const msgId = (ctx.session as any).homeMessageId
+		const msgId = ctx.session.homeMessageId
 		if (msgId != null) {
 			try {
 				await ctx.api.editMessageReplyMarkup(ctx.chat!.id, msgId, {
@@ -131,11 +132,11 @@ export const analyticsCategoriesCallback = (
 				'analytics_category:',
 				''
 			)
-			const user = ctx.state.user as any
-			const period = ((ctx.session as any).analyticsPeriod ?? 'month') as AnalyticsPeriod
-			const accountId = (ctx.session as any).analyticsFilter?.accountId
-			;(ctx.session as any).analyticsCategoryDetailPage = 0
-			;(ctx.session as any).analyticsCategoryDetailId = categoryIdOrName
+			const user = ctx.state.user
+			const period = ctx.session.analyticsPeriod ?? 'month'
+			const accountId = ctx.session.analyticsFilter?.accountId
+			ctx.session.analyticsCategoryDetailPage = 0
+			ctx.session.analyticsCategoryDetailId = categoryIdOrName
 
 			let categoryName = categoryIdOrName
 			if (categoryIdOrName && /^[0-9a-f-]{36}$/i.test(categoryIdOrName)) {
@@ -145,7 +146,7 @@ export const analyticsCategoriesCallback = (
 				})
 				if (found) categoryName = found.name
 			}
-			;(ctx.session as any).analyticsCategoryDetailTitle = categoryName
+			ctx.session.analyticsCategoryDetailTitle = categoryName
 
 			const { transactions, total } = await analyticsService.getCategoryDetail(
 				user.id,
@@ -154,7 +155,8 @@ export const analyticsCategoriesCallback = (
 				0,
 				9,
 				user.mainCurrency ?? 'USD',
-				accountId
+				accountId,
+				user.timezone
 			)
 			const symbol = getCurrencySymbol(user.mainCurrency ?? 'USD')
 			const totalPages = Math.max(1, Math.ceil(total / 9))
@@ -173,9 +175,15 @@ export const analyticsCategoriesCallback = (
 				.text('30d', 'analytics_30d')
 				.text('90d', 'analytics_90d')
 				.row()
+			if (/^[0-9a-f-]{36}$/i.test(categoryIdOrName)) {
+				kb.text(
+					'🔎 Фильтр по категории',
+					`analytics_filter_category:${categoryIdOrName}`
+				).row()
+			}
 			kb.text('← К категориям', 'analytics_by_category')
 
-			const msgId = (ctx.session as any).homeMessageId
+			const msgId = ctx.session.homeMessageId
 			if (msgId != null) {
 				try {
 					await ctx.api.editMessageText(
@@ -189,14 +197,14 @@ export const analyticsCategoriesCallback = (
 		})
 
 		bot.callbackQuery(/^analytics_category_detail_page:/, async ctx => {
-			const categoryIdOrName = (ctx.session as any).analyticsCategoryDetailId
+			const categoryIdOrName = ctx.session.analyticsCategoryDetailId
 			if (!categoryIdOrName) return
 			const categoryName =
-				(ctx.session as any).analyticsCategoryDetailTitle ?? categoryIdOrName
-			const user = ctx.state.user as any
-			const period = ((ctx.session as any).analyticsPeriod ?? 'month') as AnalyticsPeriod
-			const accountId = (ctx.session as any).analyticsFilter?.accountId
-			let page = (ctx.session as any).analyticsCategoryDetailPage ?? 0
+				ctx.session.analyticsCategoryDetailTitle ?? categoryIdOrName
+			const user = ctx.state.user
+			const period = ctx.session.analyticsPeriod ?? 'month'
+			const accountId = ctx.session.analyticsFilter?.accountId
+			let page = ctx.session.analyticsCategoryDetailPage ?? 0
 			const action = ctx.callbackQuery.data.split(':')[1]
 			const { total } = await analyticsService.getCategoryDetail(
 				user.id,
@@ -205,12 +213,13 @@ export const analyticsCategoriesCallback = (
 				0,
 				1,
 				user.mainCurrency ?? 'USD',
-				accountId
+				accountId,
+				user.timezone
 			)
 			const totalPages = Math.max(1, Math.ceil(total / 9))
 			if (action === 'prev') page = page <= 0 ? totalPages - 1 : page - 1
 			if (action === 'next') page = page >= totalPages - 1 ? 0 : page + 1
-			;(ctx.session as any).analyticsCategoryDetailPage = page
+			ctx.session.analyticsCategoryDetailPage = page
 
 			const { transactions: finalTxs } = await analyticsService.getCategoryDetail(
 				user.id,
@@ -219,7 +228,8 @@ export const analyticsCategoriesCallback = (
 				page,
 				9,
 				user.mainCurrency ?? 'USD',
-				accountId
+				accountId,
+				user.timezone
 			)
 			const symbol = getCurrencySymbol(user.mainCurrency ?? 'USD')
 			const lines = finalTxs.map(
@@ -237,9 +247,15 @@ export const analyticsCategoriesCallback = (
 				.text('30d', 'analytics_30d')
 				.text('90d', 'analytics_90d')
 				.row()
+			if (/^[0-9a-f-]{36}$/i.test(categoryIdOrName)) {
+				kb.text(
+					'🔎 Фильтр по категории',
+					`analytics_filter_category:${categoryIdOrName}`
+				).row()
+			}
 			kb.text('← К категориям', 'analytics_by_category')
 
-			const msgId = (ctx.session as any).homeMessageId
+			const msgId = ctx.session.homeMessageId
 			if (msgId != null) {
 				try {
 					await ctx.api.editMessageText(
@@ -1,63 +1,66 @@
-import { Bot, InputFile } from 'grammy'
+import { Bot, InlineKeyboard, InputFile } from 'grammy'
 import { BotContext } from '../core/bot.middleware'
-import {
-	AnalyticsService,
-	type AnalyticsPeriod
-} from '../../../modules/analytics/analytics.service'
-import { ExchangeService } from '../../../modules/exchange/exchange.service'
-import { PrismaService } from '../../../modules/prisma/prisma.service'
+import { ChartsService } from '../../../modules/charts/charts.service'
+
+type ChartKind = 'line' | 'bar' | 'categories' | 'cashflow'
+
+const CHART_KINDS: Record<ChartKind, string> = {
+	line: '📈 Расходы — линия',
+	bar: '📊 Расходы — столбцы',
+	categories: '🗂 По категориям',
+	cashflow: '⚖️ Доходы и расходы'
+}
+
+function chartPickerKeyboard(): InlineKeyboard {
+	const kb = new InlineKeyboard()
+	for (const kind of Object.keys(CHART_KINDS) as ChartKind[]) {
+		kb.text(CHART_KINDS[kind], `analytics_chart:${kind}`).row()
+	}
+	return kb.text('Закрыть', 'hide_message')
+}
 
 export const analyticsChartCallback = (
 	bot: Bot<BotContext>,
-	prisma: PrismaService,
-	exchangeService: ExchangeService,
-	analyticsService: AnalyticsService
+	chartsService: ChartsService
 ) => {
 	bot.callbackQuery('analytics_chart', async ctx => {
-		const user = ctx.state.user as any
-		const period = ((ctx.session as any).analyticsPeriod ?? 'month') as AnalyticsPeriod
-		const accountId = (ctx.session as any).analyticsFilter?.accountId
-		const accountFilter = accountId
-			? { accountId }
-			: { account: { userId: user.id, isHidden: false } }
-		const { from, to } = analyticsService.getDateRange(period)
-		const txs = await prisma.transaction.findMany({
-			where: {
-				userId: user.id,
-				direction: 'expense',
-				transactionDate: { gte: from, lte: to },
-				...accountFilter
-			},
-			select: {
-				transactionDate: true,
-				amount: true,
-				currency: true,
-				convertedAmount: true,
-				convertToCurrency: true
-			},
-			orderBy: { transactionDate: 'asc' }
+		await ctx.reply('📈 Какой график построить?', {
+			reply_markup: chartPickerKeyboard()
 		})
+	})
+
+	bot.callbackQuery(/^analytics_chart:/, async ctx => {
+		const kind = ctx.callbackQuery.data.replace('analytics_chart:', '') as ChartKind
+		if (!(kind in CHART_KINDS)) return
+		const user = ctx.state.user
+		const period = ctx.session.analyticsPeriod ?? 'month'
+		const accountId = ctx.session.analyticsFilter?.accountId
 		const mainCurrency = user.mainCurrency ?? 'USD'
-		const byDay = new Map<string, number>()
-		for (const t of txs) {
-			const key = new Date(t.transactionDate).toLocaleDateString('ru-RU', {
-				day: '2-digit',
-				month: '2-digit'
-			})
-			const amt = t.convertedAmount ?? t.amount
-			const cur = t.convertToCurrency ?? t.currency
-			const inMain = await exchangeService.convert(amt, cur, mainCurrency)
-			byDay.set(key, (byDay.get(key) ?? 0) + (inMain ?? 0))
-		}
-		const data = Array.from(byDay.entries())
-			.sort((a, b) => a[0].localeCompare(b[0]))
-			.map(([date, value]) => ({ date, value }))
-		if (!data.length) {
-			await ctx.answerCallbackQuery({ text: 'Нет данных для графика' })
+		const series = await chartsService.buildSeries(
+			user.id,
+			{ period, accountId },
+			mainCurrency,
+			user.timezone
+		)
+		const hasData =
+			kind === 'cashflow'
+				? [...series.expenses, ...series.income].some(v => v > 0)
+				: series.expenses.some(v => v > 0)
+		if (!hasData) {
+			await ctx
+				.answerCallbackQuery({ text: 'Нет данных для графика' })
+				.catch(() => {})
 			return
 		}
-		await ctx.replyWithPhoto(new InputFile('', 'chart.png'), {
-			caption: 'Расходы по дням'
+		const png =
+			kind === 'categories'
+				? chartsService.renderCategoryStack(series, mainCurrency)
+				: kind === 'cashflow'
+					? chartsService.renderIncomeVsExpense(series, mainCurrency)
+					: chartsService.renderDailySpending(series, mainCurrency, kind)
+		await ctx.replyWithPhoto(new InputFile(png, 'chart.png'), {
+			caption: CHART_KINDS[kind].replace(/^\S+\s/, ''),
+			reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
 		})
 	})
 }
@@ -0,0 +1,144 @@
+import { Bot, InlineKeyboard } from 'grammy'
+import { BotContext } from '../core/bot.middleware'
+import {
+	AnalyticsService,
+	type PeriodComparisonResult
+} from '../../../modules/analytics/analytics.service'
+import {
+	analyticsPeriodLabel,
+	type AnalyticsComparisonMode
+} from '../../../modules/analytics/analytics-period.utils'
+import { type ComparisonRow } from '../../../modules/analytics/analytics-compare.utils'
+import { DEFAULT_TIMEZONE, formatZonedRange } from '../../../utils/date'
+import { formatAmount } from '../../../utils/format'
+import { escapeHtml } from '../../../utils/html'
+
+const COMPARISON_MODES: Record<AnalyticsComparisonMode, string> = {
+	previous: 'С прошлым периодом',
+	year_ago: 'С прошлым годом'
+}
+
+function signedAmount(amount: number, currency: string): string {
+	const sign = amount > 0 ? '+' : amount < 0 ? '−' : ''
+	return `${sign}${formatAmount(Math.abs(amount), currency)}`
+}
+
+function deltaText(row: ComparisonRow, currency: string): string {
+	if (row.deltaPct == null) return signedAmount(row.delta, currency)
+	const pct = Math.round(row.deltaPct)
+	return `${signedAmount(row.delta, currency)} (${pct > 0 ? '+' : ''}${pct}%)`
+}
+
+function rowLine(label: string, row: ComparisonRow, currency: string): string {
+	return `${label}: ${formatAmount(row.current, currency)} (было ${formatAmount(row.previous, currency)}) · ${deltaText(row, currency)}`
+}
+
+function comparisonText(
+	comparison: PeriodComparisonResult,
+	mode: AnalyticsComparisonMode,
+	periodLabel: string,
+	timezone: string,
+	currency: string
+): string {
+	const savings = comparison.savingsRate
+	const points = Math.round(savings.delta)
+	const lines = [
+		`<b>⚖️ Сравнение</b> — ${periodLabel}`,
+		`${formatZonedRange(comparison.range, timezone)} против ${formatZonedRange(comparison.compareRange, timezone)}`,
+		'',
+		rowLine('🟢 Доходы', comparison.income, currency),
+		rowLine('🔴 Расходы', comparison.expenses, currency),
+		`⚖️ Сбережения: ${Math.round(savings.current)}% (было ${Math.round(savings.previous)}%) · ${points > 0 ? '+' : ''}${points} п.п.`
+	]
+	if (comparison.categories.length) {
+		lines.push('', '<b>Категории расходов</b>')
+		for (const row of comparison.categories) {
+			lines.push(rowLine(`• ${escapeHtml(row.name)}`, row, currency))
+		}
+	}
+	if (comparison.movers.length) {
+		lines.push('', '<b>🔥 Сильнее всего изменились</b>')
+		for (const row of comparison.movers) {
+			lines.push(
+				`${row.delta > 0 ? '📈' : '📉'} ${escapeHtml(row.name)} ${deltaText(row, currency)}`
+			)
+		}
+	}
+	if (!comparison.income.previous && !comparison.expenses.previous) {
+		lines.push(
+			'',
+			mode === 'year_ago'
+				? '<i>Год назад операций ещё не было.</i>'
+				: '<i>В прошлом периоде операций не было.</i>'
+		)
+	}
+	return lines.join('\n')
+}
+
+function comparisonKeyboard(mode: AnalyticsComparisonMode): InlineKeyboard {
+	const kb = new InlineKeyboard()
+	for (const key of Object.keys(COMPARISON_MODES) as AnalyticsComparisonMode[]) {
+		kb.text(
+			key === mode ? `✅ ${COMPARISON_MODES[key]}` : COMPARISON_MODES[key],
+			`analytics_compare:${key}`
+		)
+	}
+	return kb.row().text('← Назад', 'analytics_back_to_main')
+}
+
+async function editHome(
+	ctx: BotContext,
+	text: string,
+	kb: InlineKeyboard
+): Promise<void> {
+	const msgId = ctx.session.homeMessageId
+	if (msgId != null) {
+		try {
+			await ctx.api.editMessageText(ctx.chat.id, msgId, text, {
+				parse_mode: 'HTML',
+				reply_markup: kb
+			})
+			return
+		} catch {
+			// fall through and send a fresh message
+		}
+	}
+	const msg = await ctx.reply(text, { parse_mode: 'HTML', reply_markup: kb })
+	ctx.session.homeMessageId = msg.message_id
+}
+
+export const analyticsCompareCallback = (
+	bot: Bot<BotContext>,
+	analyticsService: AnalyticsService
+) => {
+	bot.callbackQuery(/^analytics_compare(:.+)?$/, async ctx => {
+		const requested = ctx.callbackQuery.data.split(':')[1]
+		const mode: AnalyticsComparisonMode =
+			requested && requested in COMPARISON_MODES
+				? (requested as AnalyticsComparisonMode)
+				: 'previous'
+		const user = ctx.state.user
+		const timezone = user.timezone ?? DEFAULT_TIMEZONE
+		const currency = user.mainCurrency ?? 'USD'
+		const period = ctx.session.analyticsPeriod ?? 'month'
+		const comparison = await analyticsService.getPeriodComparison(
+			user.id,
+			period,
+			mode,
+			currency,
+			ctx.session.analyticsFilter?.accountId,
+			timezone
+		)
+		await editHome(
+			ctx,
+			comparisonText(
+				comparison,
+				mode,
+				analyticsPeriodLabel(period, timezone),
+				timezone,
+				currency
+			),
+			comparisonKeyboard(mode)
+		)
+	})
+}
@@ -9,37 +9,63 @@ import {
 	type AnalyticsPeriod
 } from '../../../modules/analytics/analytics.service'
 import { formatByCurrencyPolicy } from '../../../utils/format'
+import { DEFAULT_TIMEZONE } from '../../../utils/date'
+import { ExportService } from '../../../modules/export/export.service'
+import { StatementService } from '../../../modules/export/statement.service'
+import { previousMonthKey } from '../../../modules/export/statement-pdf.utils'
+
+export async function ensureExportAllowed(
+	ctx: BotContext,
+	subscriptionService: SubscriptionService
+): Promise<boolean> {
+	const userId = ctx.state.user.id
+	if (await subscriptionService.canExport(userId)) return true
+	await subscriptionService.trackEvent(userId, PremiumEventType.export_blocked)
+	if (ctx.callbackQuery) {
+		await ctx
+			.answerCallbackQuery({
+				text: '📊 Экспорт доступен в Pro-тарифе. Выгружайте данные в CSV/Excel одним нажатием!'
+			})
+			.catch(() => {})
+	}
+	await ctx.reply(
+		'📊 Экспорт доступен в Pro-тарифе. Выгружайте данные в CSV/Excel одним нажатием!',
+		{
+			reply_markup: new InlineKeyboard()
+				.text('💠 Pro-тариф', 'view_premium')
+				.row()
+				.text('Закрыть', 'hide_message')
+		}
+	)
+	return false
+}
+
+function statementKeyboard(monthly: boolean): InlineKeyboard {
+	return new InlineKeyboard()
+		.text(
+			monthly ? '🔕 Не присылать каждый месяц' : '🗓 Присылать каждый месяц',
+			'statement_monthly_toggle'
+		)
+		.row()
+		.text('Закрыть', 'hide_message')
+}
 
 export const analyticsExportCallback = (
 	bot: Bot<BotContext>,
 	prisma: PrismaService,
 	subscriptionService: SubscriptionService,
-	analyticsService: AnalyticsService
+	analyticsService: AnalyticsService,
+	exportService: ExportService,
+	statementService: StatementService
 ) => {
 	bot.callbackQuery('analytics_export', async ctx => {
 		const user = ctx.state.user as any
-		const canExport = await subscriptionService.canExport(user.id)
-		if (!canExport) {
-			await subscriptionService.trackEvent(
-				user.id,
-				PremiumEventType.export_blocked
-			)
-			await ctx.answerCallbackQuery({
-				text: '📊 Экспорт доступен в Pro-тарифе. Выгружайте данные в CSV/Excel одним нажатием!'
-			})
-			await ctx.reply(
-				'📊 Экспорт доступен в Pro-тарифе. Выгружайте данные в CSV/Excel одним нажатием!',
-				{
-					reply_markup: new InlineKeyboard()
-						.text('💠 Pro-тариф', 'view_premium')
-						.row()
-						.text('Закрыть', 'hide_message')
-				}
-			)
-			return
-		}
+		if (!(await ensureExportAllowed(ctx, subscriptionService))) return
 		const period = ((ctx.session as any).analyticsPeriod ?? 'month') as AnalyticsPeriod
-		const { from, to } = analyticsService.getDateRange(period)
+		const { from, to } = analyticsService.getDateRange(
+			period,
+			user.timezone ?? DEFAULT_TIMEZONE
+		)
 			const txs = await prisma.transaction.findMany({
 			where: {
 				userId: user.id,
@@ -112,7 +138,69 @@ export const analyticsExportCallback = (
 			})
 			const csv = parser.parse(exportRows)
 		const buffer = Buffer.from(csv, 'utf-8')
-		await ctx.replyWithDocument(new InputFile(buffer, `transactions_${period}.csv`))
+		await ctx.replyWithDocument(new InputFile(buffer, `transactions_${period.replace('..', '_')}.csv`))
 		await ctx.answerCallbackQuery()
 	})
+
+	bot.callbackQuery('analytics_export_xlsx', async ctx => {
+		if (!(await ensureExportAllowed(ctx, subscriptionService))) return
+		const period = ctx.session.analyticsPeriod ?? 'month'
+		const { buffer, count } = await exportService.buildAnalyticsWorkbook(
+			ctx.state.user.id,
+			{ ...ctx.session.analyticsFilter, period }
+		)
+		if (!count) {
+			await ctx
+				.answerCallbackQuery({ text: 'Нет транзакций за период' })
+				.catch(() => {})
+			return
+		}
+		await ctx.replyWithDocument(
+			new InputFile(buffer, `transactions_${period.replace('..', '_')}.xlsx`)
+		)
+	})
+
+	bot.callbackQuery('analytics_statement_pdf', async ctx => {
+		if (!(await ensureExportAllowed(ctx, subscriptionService))) return
+		await ctx.answerCallbackQuery({ text: 'Готовлю выписку…' }).catch(() => {})
+		const period = ctx.session.analyticsPeriod ?? 'month'
+		const { buffer, fileName, count } = await statementService.buildStatement(
+			ctx.state.user.id,
+			period,
+			ctx.session.analyticsFilter?.accountId
+		)
+		await ctx.replyWithDocument(new InputFile(buffer, fileName), {
+			caption: `🧾 Выписка за период, операций: ${count}`,
+			reply_markup: statementKeyboard(ctx.state.user.monthlyStatement)
+		})
+	})
+
+	bot.callbackQuery('statement_monthly_toggle', async ctx => {
+		const user = ctx.state.user
+		const monthly = !user.monthlyStatement
+		if (monthly && !(await ensureExportAllowed(ctx, subscriptionService))) return
+		await prisma.user.update({
+			where: { id: user.id },
+			data: {
+				monthlyStatement: monthly,
+				// the month that just ended is already covered by this statement
+				...(monthly
+					? {
+							lastStatementPeriod: previousMonthKey(
+								new Date(),
+								user.timezone ?? DEFAULT_TIMEZONE
+							)
+						}
+					: {})
+			}
+		})
+		await ctx.editMessageReplyMarkup({ reply_markup: statementKeyboard(monthly) })
+		await ctx
+			.answerCallbackQuery({
+				text: monthly
+					? 'Выписка за прошлый месяц будет приходить 1-го числа'
+					: 'Ежемесячная выписка отключена'
+			})
+			.catch(() => {})
+	})
 }
@@ -1,49 +1,138 @@
 import { Bot, InlineKeyboard } from 'grammy'
 import { BotContext } from '../core/bot.middleware'
-import { type AnalyticsPeriod } from '../../../modules/analytics/analytics.service'
+import { activateInputMode, resetInputModes } from '../core/input-mode'
+import {
+	ANALYTICS_CALENDAR_PERIODS,
+	analyticsPeriodLabel
+} from '../../../modules/analytics/analytics-period.utils'
+import {
+	ANALYTICS_TRANSACTION_TYPES,
+	AnalyticsService,
+	type AnalyticsTransactionType
+} from '../../../modules/analytics/analytics.service'
+import { DEFAULT_TIMEZONE } from '../../../utils/date'
 
-export const analyticsFilterCallback = (bot: Bot<BotContext>) => {
+const UUID_RE = /^[0-9a-f-]{36}$/i
+
+const TYPE_LABELS: Record<AnalyticsTransactionType, string> = {
+	expense: 'Расходы',
+	income: 'Доходы',
+	transfer: 'Переводы'
+}
+
+function capitalize(value: string): string {
+	return value.charAt(0).toUpperCase() + value.slice(1)
+}
+
+export async function deleteAnalyticsPeriodHint(ctx: BotContext): Promise<void> {
+	const hintId = ctx.session.analyticsPeriodHintMessageId
+	ctx.session.analyticsPeriodHintMessageId = undefined
+	if (hintId == null) return
+	try {
+		await ctx.api.deleteMessage(ctx.chat.id, hintId)
+	} catch {
+		// the hint may already be gone
+	}
+}
+
+async function renderFilterScreen(
+	ctx: BotContext,
+	analyticsService: AnalyticsService
+): Promise<void> {
+	const period = ctx.session.analyticsPeriod ?? 'month'
+	const filter = ctx.session.analyticsFilter ?? {}
+	const timezone = ctx.state.user?.timezone ?? DEFAULT_TIMEZONE
+	const mark = (active: boolean, label: string) => (active ? `✅ ${label}` : label)
+	const kb = new InlineKeyboard()
+	ANALYTICS_CALENDAR_PERIODS.forEach((p, index) => {
+		kb.text(
+			mark(period === p, capitalize(analyticsPeriodLabel(p, timezone))),
+			`analytics_period:${p}`
+		)
+		if (index % 2 === 1) kb.row()
+	})
+	kb.row().text('✏️ Свой период', 'analytics_period_custom').row()
+	kb.text(mark(!filter.type, 'Все'), 'analytics_type_filter:all')
+	for (const type of ANALYTICS_TRANSACTION_TYPES) {
+		kb.text(
+			mark(filter.type === type, TYPE_LABELS[type]),
+			`analytics_type_filter:${type}`
+		)
+	}
+	kb.row()
+	const labels = await analyticsService.describeFilters(ctx.state.user.id, filter)
+	if (labels.length) kb.text('🧹 Сбросить фильтры', 'analytics_filter_reset').row()
+	kb.text('← Назад', 'analytics_back_to_main')
+
+	const lines = [
+		'<b>Период и фильтры</b>',
+		`Период: ${analyticsPeriodLabel(period, timezone)}`,
+		...labels
+	]
+	const msgId = ctx.session.homeMessageId
+	if (msgId == null) return
+	try {
+		await ctx.api.editMessageText(ctx.chat.id, msgId, lines.join('\n'), {
+			parse_mode: 'HTML',
+			reply_markup: kb
+		})
+	} catch {
+		// unchanged markup or the home message is gone
+	}
+}
+
+/** Period and filter picker; period buttons are handled by `analytics_period:` in analytics-main. */
+export const analyticsFilterCallback = (
+	bot: Bot<BotContext>,
+	analyticsService: AnalyticsService
+) => {
 	bot.callbackQuery('analytics_filter', async ctx => {
-		const period = ((ctx.session as any).analyticsPeriod ?? 'month') as AnalyticsPeriod
-		const kb = new InlineKeyboard()
-		kb.text(period === '7d' ? '✅ 7d' : '7d', 'analytics_filter_period:7d')
-			.text(period === '30d' ? '✅ 30d' : '30d', 'analytics_filter_period:30d')
-			.text(period === '90d' ? '✅ 90d' : '90d', 'analytics_filter_period:90d')
-			.row()
-		kb.text('← Назад', 'analytics_back_to_main')
-
-		const msgId = (ctx.session as any).homeMessageId
-		if (msgId != null) {
-			try {
-				await ctx.api.editMessageText(
-					ctx.chat!.id,
-					msgId,
-					'<b>Фильтр аналитики</b>\nВыберите период:',
-					{ parse_mode: 'HTML', reply_markup: kb }
-				)
-			} catch {}
-		}
+		await renderFilterScreen(ctx, analyticsService)
+	})
+
+	bot.callbackQuery(/^analytics_type_filter:/, async ctx => {
+		const value = ctx.callbackQuery.data.replace('analytics_type_filter:', '')
+		const type = ANALYTICS_TRANSACTION_TYPES.find(t => t === value)
+		ctx.session.analyticsFilter = { ...ctx.session.analyticsFilter, type }
+		await renderFilterScreen(ctx, analyticsService)
+	})
+
+	bot.callbackQuery(/^analytics_filter_(category|tag):/, async ctx => {
+		const [key, id] = ctx.callbackQuery.data.split(':')
+		if (!id || !UUID_RE.test(id)) return
+		const filter = ctx.session.analyticsFilter ?? {}
+		ctx.session.analyticsFilter =
+			key === 'analytics_filter_category'
+				? { ...filter, categoryIds: [id] }
+				: { ...filter, tagIds: [id] }
+		await renderFilterScreen(ctx, analyticsService)
+		await ctx.answerCallbackQuery({ text: 'Фильтр применён' }).catch(() => {})
+	})
+
+	bot.callbackQuery('analytics_filter_reset', async ctx => {
+		ctx.session.analyticsFilter = undefined
+		await renderFilterScreen(ctx, analyticsService)
+		await ctx.answerCallbackQuery({ text: 'Фильтры сброшены' }).catch(() => {})
 	})
 
-	bot.callbackQuery(/^analytics_filter_period:/, async ctx => {
-		const p = ctx.callbackQuery.data.split(':')[1] as AnalyticsPeriod
-		;(ctx.session as any).analyticsPeriod = p
-		await ctx.answerCallbackQuery({ text: `Период: ${p}` })
-		const msgId = (ctx.session as any).homeMessageId
-		if (msgId != null) {
-			try {
-				await ctx.api.editMessageText(
-					ctx.chat!.id,
-					msgId,
-					'Фильтр применён. Обновите обзор кнопками 7d / 30d / 90d.',
-					{
-						reply_markup: new InlineKeyboard().text(
-							'← Назад',
-							'analytics_back_to_main'
-						)
-					}
+	bot.callbackQuery('analytics_period_custom', async ctx => {
+		await deleteAnalyticsPeriodHint(ctx)
+		const hint = await ctx.reply(
+			'Напишите период, например: «прошлый месяц», «март 2025», «2 квартал 2025», «2024» или «01.03.2026 - 15.04.2026».',
+			{
+				reply_markup: new InlineKeyboard().text(
+					'Закрыть',
+					'analytics_period_close_hint'
 				)
-			} catch {}
-		}
+			}
+		)
+		activateInputMode(ctx, 'analytics_period_edit', {
+			analyticsPeriodHintMessageId: hint.message_id
+		})
+	})
+
+	bot.callbackQuery('analytics_period_close_hint', async ctx => {
+		await deleteAnalyticsPeriodHint(ctx)
+		resetInputModes(ctx)
 	})
 }
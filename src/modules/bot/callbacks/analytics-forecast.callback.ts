@@ -0,0 +1,106 @@
+import { Bot, InlineKeyboard } from 'grammy'
+import { BotContext } from '../core/bot.middleware'
+import {
+	ForecastService,
+	type AssetRunway
+} from '../../../modules/forecast/forecast.service'
+import { type SpendingForecast } from '../../../modules/forecast/forecast.utils'
+import { DEFAULT_TIMEZONE, formatZonedDate } from '../../../utils/date'
+import { formatAmount } from '../../../utils/format'
+import { escapeHtml } from '../../../utils/html'
+
+/** Assets listed in the runway section, shortest runway first. */
+const MAX_RUNWAY_LINES = 6
+
+function runwayLine(runway: AssetRunway, timezone: string): string {
+	const asset = `${escapeHtml(runway.accountName)}: ${formatAmount(runway.amount, runway.currency)}`
+	if (runway.days == null || runway.runsOutAt == null) {
+		return `• ${asset} — не убывает`
+	}
+	return `• ${asset} — хватит на ~${Math.floor(runway.days)} дн. (до ${formatZonedDate(runway.runsOutAt, timezone)}), −${formatAmount(runway.outflowPerDay, runway.currency)}/день`
+}
+
+function forecastText(
+	forecast: SpendingForecast,
+	runway: AssetRunway[],
+	currency: string,
+	timezone: string
+): string {
+	const lines = [
+		'<b>🔮 Прогноз на конец месяца</b>',
+		'',
+		`Уже потрачено: ${formatAmount(forecast.spent, currency)}`,
+		`Расходы за месяц: ~${formatAmount(forecast.expenses.expected, currency)}`,
+		`Диапазон: ${formatAmount(forecast.expenses.low, currency)} — ${formatAmount(forecast.expenses.high, currency)}`,
+		`Капитал к концу месяца: ~${formatAmount(forecast.balance.expected, currency)}`
+	]
+	if (forecast.lastMonthTotal > 0) {
+		lines.push(
+			`Весь прошлый месяц: ${formatAmount(forecast.lastMonthTotal, currency)}`
+		)
+	}
+	if (forecast.exceedsLastMonth) {
+		lines.push('', '⚠️ При таком темпе месяц выйдет дороже прошлого.')
+	}
+	lines.push(
+		'',
+		forecast.seasonal
+			? '<i>Учтены текущий темп, регулярные платежи и то, как расходы обычно распределяются по дням месяца.</i>'
+			: '<i>Учтены текущий темп и регулярные платежи. Когда накопится история за прошлые месяцы, прогноз станет точнее.</i>'
+	)
+	if (runway.length) {
+		lines.push('', '<b>⏳ На сколько хватит денег</b>')
+		for (const item of runway.slice(0, MAX_RUNWAY_LINES)) {
+			lines.push(runwayLine(item, timezone))
+		}
+		lines.push('<i>По среднему оттоку за последние 90 дней.</i>')
+	}
+	return lines.join('\n')
+}
+
+async function editHome(
+	ctx: BotContext,
+	text: string,
+	kb: InlineKeyboard
+): Promise<void> {
+	const msgId = ctx.session.homeMessageId
+	if (msgId != null) {
+		try {
+			await ctx.api.editMessageText(ctx.chat.id, msgId, text, {
+				parse_mode: 'HTML',
+				reply_markup: kb
+			})
+			return
+		} catch {
+			// fall through and send a fresh message
+		}
+	}
+	const msg = await ctx.reply(text, { parse_mode: 'HTML', reply_markup: kb })
+	ctx.session.homeMessageId = msg.message_id
+}
+
+export const analyticsForecastCallback = (
+	bot: Bot<BotContext>,
+	forecastService: ForecastService
+) => {
+	bot.callbackQuery('analytics_forecast', async ctx => {
+		const user = ctx.state.user
+		const timezone = user.timezone ?? DEFAULT_TIMEZONE
+		const currency = user.mainCurrency ?? 'USD'
+		const accountId = ctx.session.analyticsFilter?.accountId
+		const [forecast, runway] = await Promise.all([
+			forecastService.getMonthForecast(user.id, currency, timezone, accountId),
+			forecastService.getRunway(user.id)
+		])
+		await editHome(
+			ctx,
+			forecastText(
+				forecast,
+				accountId ? runway.filter(r => r.accountId === accountId) : runway,
+				currency,
+				timezone
+			),
+			new InlineKeyboard().text('← Назад', 'analytics_back_to_main')
+		)
+	})
+}
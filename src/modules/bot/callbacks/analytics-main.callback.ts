@@ -13,6 +13,22 @@ import {
 import { PrismaService } from '../../../modules/prisma/prisma.service'
 import { LlmMemoryService } from '../../../modules/llm-memory/llm-memory.service'
 import { SubscriptionService } from '../../../modules/subscription/subscription.service'
+import { BudgetsService } from '../../../modules/budgets/budgets.service'
+import { ForecastService } from '../../../modules/forecast/forecast.service'
+import { DEFAULT_TIMEZONE, getZonedParts } from '../../../utils/date'
+import {
+	analyticsPeriodLabel,
+	customRangePeriod,
+	isAnalyticsPeriod,
+	isExtendedPeriod,
+	parseAnalyticsPeriodText,
+	splitRangeText,
+	type LocalDate
+} from '../../../modules/analytics/analytics-period.utils'
+import { comparisonRows } from '../../../modules/analytics/analytics-compare.utils'
+import { resetInputModes } from '../core/input-mode'
+import { deleteAnalyticsPeriodHint } from './analytics-filter.callback'
+import { escapeHtml } from '../../../utils/html'
 
 const AI_ANALYTICS_CACHE_TYPE = 'ai_analytics'
 const AI_ANALYTICS_CACHE_KEY = 'report_v2'
@@ -23,22 +39,20 @@ const AI_RATE_LIMIT_WINDOW_MS = 20_000
 const AI_RATE_LIMIT_MAX = 2
 const aiRateLimiter = new Map<string, { windowStart: number; count: number }>()
 
-const MONTH_NAMES = [
-	'январь', 'февраль', 'март', 'апрель', 'май', 'июнь',
-	'июль', 'август', 'сентябрь', 'октябрь', 'ноябрь', 'декабрь'
+const ROLLING_BUTTON_PERIODS: AnalyticsPeriod[] = [
+	'week',
+	'month',
+	'3month',
+	'7d',
+	'30d',
+	'90d'
 ]
 
-function periodTitle(period: AnalyticsPeriod): string {
-	if (period === '7d') return '7 дней'
-	if (period === '30d') return '30 дней'
-	if (period === '90d') return '90 дней'
-	if (period === 'week') return 'текущую неделю'
-	if (period === 'month') return MONTH_NAMES[new Date().getMonth()]
-	if (period === '3month') return '3 месяца'
-	return '3 месяца'
+function hasNarrowingFilters(filter: BotContext['session']['analyticsFilter']): boolean {
+	return !!(filter?.categoryIds?.length || filter?.tagIds?.length || filter?.type)
 }
 
-function analyticsKeyboard(period: AnalyticsPeriod) {
+function analyticsKeyboard(period: AnalyticsPeriod, filtered = false) {
 	const kb = new InlineKeyboard()
 	kb.text(period === 'week' ? '✅ Неделя' : 'Неделя', 'analytics_week')
 		.text(period === 'month' ? '✅ Месяц' : 'Месяц', 'analytics_month')
@@ -48,8 +62,28 @@ function analyticsKeyboard(period: AnalyticsPeriod) {
 		.text(period === '30d' ? '✅ 30d' : '30d', 'analytics_30d')
 		.text(period === '90d' ? '✅ 90d' : '90d', 'analytics_90d')
 		.row()
-	kb.text('🧠 ИИ-аналитика', 'analytics_ai').row()
-	kb.text('📑 Экспорт (CSV)', 'analytics_export').row()
+	kb.text(
+		ROLLING_BUTTON_PERIODS.includes(period) && !filtered
+			? '📅 Период и фильтры'
+			: '✅ 📅 Период и фильтры',
+		'analytics_filter'
+	).row()
+	kb.text('🧠 ИИ-аналитика', 'analytics_ai')
+		.text('🔮 Прогноз', 'analytics_forecast')
+		.row()
+	kb.text('📈 Графики', 'analytics_chart').text('🎯 Бюджеты', 'view_budgets').row()
+	kb.text('⚖️ Сравнить периоды', 'analytics_compare')
+		.text('🏦 Капитал во времени', 'analytics_net_worth')
+		.row()
+	kb.text('📑 Экспорт CSV', 'analytics_export')
+		.text('📊 Экспорт Excel', 'analytics_export_xlsx')
+		.row()
+	kb.text('🧾 PDF-выписка', 'analytics_statement_pdf')
+		.text('🚨 Необычные траты', 'analytics_anomalies')
+		.row()
+	kb.text('💾 Сохранить вид', 'analytics_save_view')
+		.text('📁 Мои виды', 'analytics_views')
+		.row()
 	kb.text('← Назад', 'go_home')
 	return kb
 }
@@ -66,13 +100,6 @@ function fmtSigned(num: number): string {
 	return `${sign}${fmt(Math.abs(num))}`
 }
 
-function escapeHtml(s: string): string {
-	return s
-		.replace(/&/g, '&amp;')
-		.replace(/</g, '&lt;')
-		.replace(/>/g, '&gt;')
-}
-
 function extractTgErrorMessage(error: unknown): string {
 	const maybeAny = error as any
 	return String(
@@ -100,13 +127,13 @@ async function safeEditOrReplyHome(
 	text: string,
 	replyMarkup: InlineKeyboard
 ): Promise<void> {
-	const msgId = (ctx.session as any).homeMessageId as number | undefined
+	const msgId = ctx.session.homeMessageId
 	if (msgId == null) {
 		const msg = await ctx.reply(text, {
 			parse_mode: 'HTML',
 			reply_markup: replyMarkup
 		})
-		;(ctx.session as any).homeMessageId = msg.message_id
+		ctx.session.homeMessageId = msg.message_id
 		return
 	}
 	try {
@@ -123,7 +150,7 @@ async function safeEditOrReplyHome(
 		parse_mode: 'HTML',
 		reply_markup: replyMarkup
 	})
-	;(ctx.session as any).homeMessageId = msg.message_id
+	ctx.session.homeMessageId = msg.message_id
 }
 
 function buildAiAnalyticsFinalText(reportText: string): string {
@@ -173,7 +200,8 @@ function consumeAiRateLimit(userId: string): boolean {
 
 async function buildAnalyticsFingerprint(
 	prisma: PrismaService,
-	userId: string
+	userId: string,
+	period: AnalyticsPeriod
 ): Promise<string> {
 	const [userMeta, txMeta, accountMeta, assetMeta, categoryMeta, tagMeta] =
 		await Promise.all([
@@ -212,9 +240,10 @@ async function buildAnalyticsFingerprint(
 			})
 		])
 	const raw = JSON.stringify({
+		period,
 		user: {
 			mainCurrency: userMeta?.mainCurrency ?? 'USD',
-			timezone: userMeta?.timezone ?? 'UTC+02:00',
+			timezone: userMeta?.timezone ?? DEFAULT_TIMEZONE,
 			isPremium: Boolean(userMeta?.isPremium),
 			premiumUntil: userMeta?.premiumUntil?.toISOString() ?? null
 		},
@@ -251,8 +280,9 @@ async function buildAiAnalyticsSnapshot(params: {
 	prisma: PrismaService
 	analyticsService: AnalyticsService
 	subscriptionService: SubscriptionService
+	period: AnalyticsPeriod
 }): Promise<AiAnalyticsSnapshot> {
-	const { ctx, prisma, analyticsService, subscriptionService } = params
+	const { ctx, prisma, analyticsService, subscriptionService, period } = params
 	const user = await prisma.user.findUnique({
 		where: { id: ctx.state.user.id },
 		select: {
@@ -306,12 +336,49 @@ async function buildAiAnalyticsSnapshot(params: {
 		}),
 		subscriptionService.getSubscriptionDisplay(user.id)
 	])
+	const timezone = user.timezone ?? DEFAULT_TIMEZONE
 	const [summary30d, summary90d, cashflow30d] = await Promise.all([
-		analyticsService.getSummary(user.id, '30d', mainCurrency),
-		analyticsService.getSummary(user.id, '90d', mainCurrency),
-		analyticsService.getCashflow(user.id, '30d', mainCurrency)
+		analyticsService.getSummary(user.id, '30d', mainCurrency, undefined, timezone),
+		analyticsService.getSummary(user.id, '90d', mainCurrency, undefined, timezone),
+		analyticsService.getCashflow(user.id, '30d', mainCurrency, undefined, timezone)
 	])
 	const beginningBalance30d = summary30d.balance - cashflow30d
+	const periodRange = analyticsService.getDateRange(period, timezone)
+	const [
+		summaryPeriod,
+		cashflowPeriod,
+		topExpenseCategoriesPeriod,
+		comparePrevious,
+		compareYearAgo
+	] = await Promise.all([
+		analyticsService.getSummary(user.id, period, mainCurrency, undefined, timezone),
+		analyticsService.getCashflow(user.id, period, mainCurrency, undefined, timezone),
+		analyticsService.getTopCategories(
+			user.id,
+			period,
+			mainCurrency,
+			5,
+			undefined,
+			undefined,
+			timezone
+		),
+		analyticsService.getPeriodComparison(
+			user.id,
+			period,
+			'previous',
+			mainCurrency,
+			undefined,
+			timezone
+		),
+		analyticsService.getPeriodComparison(
+			user.id,
+			period,
+			'year_ago',
+			mainCurrency,
+			undefined,
+			timezone
+		)
+	])
 	const [topExpenseCategories30d, topIncomeCategories30d] = await Promise.all([
 		analyticsService.getTopCategories(
 			user.id,
@@ -319,14 +386,17 @@ async function buildAiAnalyticsSnapshot(params: {
 			mainCurrency,
 			5,
 			undefined,
-			beginningBalance30d
+			beginningBalance30d,
+			timezone
 		),
 		analyticsService.getTopIncomeCategories(
 			user.id,
 			'30d',
 			mainCurrency,
 			beginningBalance30d,
-			5
+			5,
+			undefined,
+			timezone
 		)
 	])
 	return {
@@ -334,7 +404,7 @@ async function buildAiAnalyticsSnapshot(params: {
 			id: user.id,
 			createdAt: user.createdAt.toISOString(),
 			mainCurrency,
-			timezone: user.timezone ?? 'UTC+02:00',
+			timezone,
 			firstTransactionAt: firstTx?.transactionDate?.toISOString() ?? null
 		},
 		subscription: {
@@ -387,6 +457,31 @@ async function buildAiAnalyticsSnapshot(params: {
 				name: x.categoryName,
 				sum: x.sum,
 				pct: x.pct
+			})),
+			selectedPeriod: {
+				label: analyticsPeriodLabel(period, timezone),
+				from: periodRange.from.toISOString(),
+				to: periodRange.to.toISOString(),
+				income: summaryPeriod.income,
+				expenses: summaryPeriod.expenses,
+				cashflow: cashflowPeriod,
+				topExpenseCategories: topExpenseCategoriesPeriod.map(x => ({
+					name: x.categoryName,
+					sum: x.sum,
+					pct: x.pct
+				}))
+			},
+			periodComparison: (
+				[
+					['previous', comparePrevious],
+					['year_ago', compareYearAgo]
+				] as const
+			).map(([mode, comparison]) => ({
+				mode,
+				from: comparison.compareRange.from.toISOString(),
+				to: comparison.compareRange.to.toISOString(),
+				rows: comparisonRows(comparison),
+				biggestMovers: comparison.movers.map(row => row.name)
 			}))
 		}
 	}
@@ -396,17 +491,19 @@ export async function renderAnalyticsMain(
 	ctx: BotContext,
 	analyticsService: AnalyticsService,
 	period: AnalyticsPeriod,
-	accountId?: string
+	accountId?: string,
+	budgetsService?: BudgetsService,
+	forecastService?: ForecastService
 ): Promise<string> {
 	const user = ctx.state.user as any
 	const userId = user.id
 	const mainCurrency = user.mainCurrency ?? 'USD'
 	const symbol = getCurrencySymbol(mainCurrency)
 
-	const timezone = (user?.timezone as string | undefined) ?? 'UTC+02:00'
+	const timezone = (user?.timezone as string | undefined) ?? DEFAULT_TIMEZONE
 
 	const [summary, beginningBalance] = await Promise.all([
-		analyticsService.getSummary(userId, period, mainCurrency, accountId),
+		analyticsService.getSummary(userId, period, mainCurrency, accountId, timezone),
 		analyticsService.getBeginningBalance(
 			userId,
 			period,
@@ -418,15 +515,28 @@ export async function renderAnalyticsMain(
 
 	const [transfersTotal, cashflow, topCategories, topIncome, topTransfers] =
 		await Promise.all([
-			analyticsService.getTransfersTotal(userId, period, mainCurrency, accountId),
-			analyticsService.getCashflow(userId, period, mainCurrency, accountId),
+			analyticsService.getTransfersTotal(
+				userId,
+				period,
+				mainCurrency,
+				accountId,
+				timezone
+			),
+			analyticsService.getCashflow(
+				userId,
+				period,
+				mainCurrency,
+				accountId,
+				timezone
+			),
 			analyticsService.getTopCategories(
 				userId,
 				period,
 				mainCurrency,
 				3,
 				accountId,
-				beginningBalance
+				beginningBalance,
+				timezone
 			),
 			analyticsService.getTopIncomeCategories(
 				userId,
@@ -434,7 +544,8 @@ export async function renderAnalyticsMain(
 				mainCurrency,
 				beginningBalance,
 				3,
-				accountId
+				accountId,
+				timezone
 			),
 			analyticsService.getTopTransfers(
 				userId,
@@ -442,12 +553,13 @@ export async function renderAnalyticsMain(
 				mainCurrency,
 				1,
 				accountId,
-				beginningBalance
+				beginningBalance,
+				timezone
 			)
 		])
 
-	const title = periodTitle(period)
-	const days = analyticsService.getDateRange(period)
+	const title = analyticsPeriodLabel(period, timezone)
+	const days = analyticsService.getDateRange(period, timezone)
 
 	const monthLabel =
 		period === 'month'
@@ -516,6 +628,39 @@ export async function renderAnalyticsMain(
 		})
 	}
 
+	if (forecastService && period === 'month') {
+		const forecast = await forecastService.getMonthForecast(
+			userId,
+			mainCurrency,
+			timezone,
+			accountId
+		)
+		body += `<code>
+<b>🔮 Прогноз на конец месяца:</b>
+🔴 Расходы: ~${fmt(forecast.expenses.expected)} ${symbol} (${fmt(forecast.expenses.low)}–${fmt(forecast.expenses.high)})
+💰 Капитал: ~${fmt(forecast.balance.expected)} ${symbol}\n</code>`
+		if (forecast.exceedsLastMonth) {
+			body += `<code>⚠️ Больше, чем весь прошлый месяц (${fmt(forecast.lastMonthTotal)} ${symbol})\n</code>`
+		}
+	}
+
+	const budgets = budgetsService
+		? await budgetsService.getBudgetVsActual(
+				userId,
+				period,
+				mainCurrency,
+				timezone,
+				accountId
+			)
+		: []
+	if (budgets.length > 0) {
+		body += '<code>\n<b>🎯 Бюджет / факт:</b>\n</code>'
+		for (const b of budgets) {
+			const mark = b.pct >= 100 ? '🔴' : b.pct >= 80 ? '🟡' : '🟢'
+			body += `<code>${mark} ${escapeHtml(b.name)} — ${fmt(b.actual)} / ${fmt(b.planned)} ${symbol} (${b.pct.toFixed(0)}%)\n</code>`
+		}
+	}
+
 		if (topTransfers.length > 0) {
 			const t = topTransfers[0]
 			const headline = `${t.fromAccountName} → ${t.toAccountName} — ${fmt(t.sum)} ${symbol} (${t.pct.toFixed(0)}%)`
@@ -529,51 +674,156 @@ export async function renderAnalyticsMain(
 			}
 		}
 
+	const filter = ctx.session.analyticsFilter
+	if (hasNarrowingFilters(filter)) {
+		const [labels, filtered] = await Promise.all([
+			analyticsService.describeFilters(userId, filter!),
+			analyticsService.getFilteredSummary(
+				userId,
+				{ ...filter, period },
+				mainCurrency,
+				timezone
+			)
+		])
+		body += `\n<code><b>🔎 Фильтр:</b> ${escapeHtml(labels.join(' · '))}
+🔴 Расходы: −${fmt(filtered.expenses)} ${symbol}
+🟢 Доходы: +${fmt(filtered.income)} ${symbol}\n</code>`
+	}
+
 	return body.trim()
 }
 
+/** Shows the overview for `period`; periods longer than a month need Pro. */
+export async function openAnalyticsPeriod(
+	ctx: BotContext,
+	analyticsService: AnalyticsService,
+	budgetsService: BudgetsService,
+	period: AnalyticsPeriod,
+	forecastService?: ForecastService
+): Promise<void> {
+	const timezone = ctx.state.user?.timezone ?? DEFAULT_TIMEZONE
+	if (!ctx.state.isPremium && isExtendedPeriod(period, timezone)) {
+		await ctx.reply(
+			'📈 Расширенная аналитика (периоды длиннее месяца) доступна только в Pro.\n\nПодключите Pro-тариф, чтобы видеть долгосрочные тренды и экспортировать данные.',
+			{
+				reply_markup: new InlineKeyboard()
+					.text('💠 Pro-тариф', 'view_premium')
+					.row()
+					.text('Закрыть', 'hide_message')
+			}
+		)
+		return
+	}
+	ctx.session.analyticsPeriod = period
+	const accountId = ctx.session.analyticsFilter?.accountId
+	const text = await renderAnalyticsMain(
+		ctx,
+		analyticsService,
+		period,
+		accountId,
+		budgetsService,
+		forecastService
+	)
+	await safeEditOrReplyHome(
+		ctx,
+		text,
+		analyticsKeyboard(period, hasNarrowingFilters(ctx.session.analyticsFilter))
+	)
+}
+
+// parseDate answers with day precision; a bare date comes back as UTC midnight
+function llmLocalDate(date: Date, timezone: string): LocalDate {
+	const isBareDate =
+		date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0
+	if (isBareDate) {
+		return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() }
+	}
+	const local = getZonedParts(date, timezone)
+	return { year: local.year, month: local.month, day: local.day }
+}
+
+async function parsePeriodWithLlm(
+	text: string,
+	timezone: string,
+	llmService: LLMService
+): Promise<AnalyticsPeriod | null> {
+	const [fromText, toText] = splitRangeText(text) ?? [text, text]
+	const [from, to] = await Promise.all([
+		llmService.parseDate(fromText, timezone),
+		llmService.parseDate(toText, timezone)
+	])
+	if (!from || !to) return null
+	return customRangePeriod(llmLocalDate(from, timezone), llmLocalDate(to, timezone))
+}
+
+/** Handles text typed while in `analytics_period_edit` mode. */
+export async function handleAnalyticsPeriodInput(
+	ctx: BotContext,
+	text: string,
+	analyticsService: AnalyticsService,
+	llmService: LLMService,
+	budgetsService: BudgetsService,
+	forecastService?: ForecastService
+): Promise<void> {
+	const timezone = ctx.state.user?.timezone ?? DEFAULT_TIMEZONE
+	let period = parseAnalyticsPeriodText(text, timezone)
+	if (!period) {
+		try {
+			period = await parsePeriodWithLlm(text, timezone, llmService)
+		} catch {
+			period = null
+		}
+	}
+	if (!period) {
+		await ctx.reply(
+			'Не удалось распознать период. Попробуйте, например, «прошлый месяц» или «01.03.2026 - 15.04.2026».',
+			{ reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message') }
+		)
+		return
+	}
+	try {
+		await ctx.api.deleteMessage(ctx.chat!.id, ctx.message!.message_id)
+	} catch {
+		// keep going even if the input message cannot be removed
+	}
+	await deleteAnalyticsPeriodHint(ctx)
+	resetInputModes(ctx)
+	await openAnalyticsPeriod(
+		ctx,
+		analyticsService,
+		budgetsService,
+		period,
+		forecastService
+	)
+}
+
 export const analyticsMainCallback = (
 	bot: Bot<BotContext>,
 	analyticsService: AnalyticsService,
 	llmService: LLMService,
 	prisma: PrismaService,
 	llmMemoryService: LlmMemoryService,
-	subscriptionService: SubscriptionService
+	subscriptionService: SubscriptionService,
+	budgetsService: BudgetsService,
+	forecastService: ForecastService
 ) => {
 	async function sendOrEdit(ctx: BotContext, period: AnalyticsPeriod) {
-		const isPremiumPeriod = period === '90d' || period === '3month'
-		if (!ctx.state.isPremium && isPremiumPeriod) {
-			await ctx.answerCallbackQuery()
-			await ctx.reply(
-				'📈 Расширенная аналитика (90 дней и 3 месяца) доступна только в Pro.\n\nПодключите Pro-тариф, чтобы видеть долгосрочные тренды и экспортировать данные.',
-				{
-					reply_markup: new InlineKeyboard()
-						.text('💠 Pro-тариф', 'view_premium')
-						.row()
-						.text('Закрыть', 'hide_message')
-				}
-			)
-			return
-		}
-		;(ctx.session as any).analyticsPeriod = period
-		const accountId = (ctx.session as any).analyticsFilter?.accountId
-		const text = await renderAnalyticsMain(
+		await openAnalyticsPeriod(
 			ctx,
 			analyticsService,
+			budgetsService,
 			period,
-			accountId
+			forecastService
 		)
-		const kb = analyticsKeyboard(period)
-		await safeEditOrReplyHome(ctx, text, kb)
 		await ctx.answerCallbackQuery()
 	}
 
 	bot.callbackQuery('view_analytics', async ctx => {
-		;(ctx.session as any).navigationStack = [
+		ctx.session.navigationStack = [
 			...(ctx.session.navigationStack ?? []),
 			'home'
 		]
-		const period = ((ctx.session as any).analyticsPeriod ?? 'month') as AnalyticsPeriod
+		const period = ctx.session.analyticsPeriod ?? 'month'
 		await sendOrEdit(ctx, period)
 	})
 
@@ -583,9 +833,14 @@ export const analyticsMainCallback = (
 	bot.callbackQuery('analytics_7d', async ctx => sendOrEdit(ctx, '7d'))
 	bot.callbackQuery('analytics_30d', async ctx => sendOrEdit(ctx, '30d'))
 	bot.callbackQuery('analytics_90d', async ctx => sendOrEdit(ctx, '90d'))
+	bot.callbackQuery(/^analytics_period:/, async ctx => {
+		const period = ctx.callbackQuery.data.replace('analytics_period:', '')
+		if (!isAnalyticsPeriod(period)) return
+		await sendOrEdit(ctx, period)
+	})
 
 	bot.callbackQuery('analytics_back_to_main', async ctx => {
-		const period = ((ctx.session as any).analyticsPeriod ?? 'month') as AnalyticsPeriod
+		const period = ctx.session.analyticsPeriod ?? 'month'
 		await sendOrEdit(ctx, period)
 	})
 
@@ -624,7 +879,8 @@ export const analyticsMainCallback = (
 			progressMessageId = progress.message_id
 			ctx.session.aiAnalyticsProgressMessageId = progressMessageId
 
-			const fingerprint = await buildAnalyticsFingerprint(prisma, userId)
+			const period = ctx.session.analyticsPeriod ?? 'month'
+			const fingerprint = await buildAnalyticsFingerprint(prisma, userId, period)
 			ctx.session.aiAnalyticsLastFingerprint = fingerprint
 
 			const cached = await llmMemoryService.getMemoryJson<AiAnalyticsCachePayload>(
@@ -649,7 +905,8 @@ export const analyticsMainCallback = (
 				ctx,
 				prisma,
 				analyticsService,
-				subscriptionService
+				subscriptionService,
+				period
 			})
 				const report = await llmService.generateAiAnalyticsReport(snapshot)
 				const finalText = buildAiAnalyticsFinalText(String(report.text ?? ''))
@@ -0,0 +1,153 @@
+import { Bot, InlineKeyboard, InputFile } from 'grammy'
+import { BotContext } from '../core/bot.middleware'
+import {
+	analyticsPeriodLabel,
+	type AnalyticsPeriod
+} from '../../../modules/analytics/analytics-period.utils'
+import { ChartsService } from '../../../modules/charts/charts.service'
+import {
+	NetWorthService,
+	type NetWorthHistory
+} from '../../../modules/net-worth/net-worth.service'
+import { DEFAULT_TIMEZONE } from '../../../utils/date'
+import { formatAmount } from '../../../utils/format'
+
+/** Currencies listed on the screen; the rest are summed into one line. */
+const MAX_CURRENCY_LINES = 8
+
+function signed(amount: number, currency: string): string {
+	return `${amount > 0 ? '+' : amount < 0 ? '−' : ''}${formatAmount(Math.abs(amount), currency)}`
+}
+
+function chartLabel(day: string): string {
+	return `${day.slice(8, 10)}.${day.slice(5, 7)}`
+}
+
+function netWorthKeyboard(): InlineKeyboard {
+	return new InlineKeyboard()
+		.text('📈 График', 'analytics_net_worth_chart')
+		.text('🔄 Пересчитать историю', 'analytics_net_worth_rebuild')
+		.row()
+		.text('← Назад', 'analytics_back_to_main')
+}
+
+function netWorthText(history: NetWorthHistory, periodLabel: string): string {
+	const { summary, mainCurrency: main } = history
+	const lines = [
+		`<b>🏦 Капитал за ${periodLabel}</b>`,
+		'',
+		`Было: ${formatAmount(summary.start, main)}`,
+		`Стало: <b>${formatAmount(summary.end, main)}</b>`,
+		`Изменение: ${signed(summary.change, main)}`,
+		'',
+		`💸 Денежный поток: ${signed(summary.flow, main)}`,
+		`📉 Курсы и цены: ${signed(summary.market, main)}`
+	]
+	if (history.currencies.length) {
+		lines.push('', '<b>По валютам</b>')
+		const shown = history.currencies.slice(0, MAX_CURRENCY_LINES)
+		for (const c of shown) {
+			const value =
+				c.currency === main
+					? ''
+					: c.value != null
+						? ` ≈ ${formatAmount(c.value, main)}`
+						: ' (нет курса)'
+			lines.push(`• ${formatAmount(c.amount, c.currency)}${value}`)
+		}
+		const rest = history.currencies.slice(MAX_CURRENCY_LINES)
+		if (rest.length) {
+			const restValue = rest.reduce((s, c) => s + (c.value ?? 0), 0)
+			lines.push(`• ещё ${rest.length} валют ≈ ${formatAmount(restValue, main)}`)
+		}
+	}
+	lines.push(
+		'',
+		'<i>Денежный поток — доходы, расходы и переводы за пределы кошелька. Курсы и цены — переоценка валют и крипты.</i>'
+	)
+	return lines.join('\n')
+}
+
+async function editHome(
+	ctx: BotContext,
+	text: string,
+	kb: InlineKeyboard
+): Promise<void> {
+	const msgId = ctx.session.homeMessageId
+	if (msgId != null) {
+		try {
+			await ctx.api.editMessageText(ctx.chat.id, msgId, text, {
+				parse_mode: 'HTML',
+				reply_markup: kb
+			})
+			return
+		} catch {
+			// fall through and send a fresh message
+		}
+	}
+	const msg = await ctx.reply(text, { parse_mode: 'HTML', reply_markup: kb })
+	ctx.session.homeMessageId = msg.message_id
+}
+
+function historyParams(ctx: BotContext): {
+	period: AnalyticsPeriod
+	accountId: string | undefined
+} {
+	return {
+		period: ctx.session.analyticsPeriod ?? 'month',
+		accountId: ctx.session.analyticsFilter?.accountId
+	}
+}
+
+async function renderNetWorth(
+	ctx: BotContext,
+	netWorthService: NetWorthService
+): Promise<void> {
+	const { period, accountId } = historyParams(ctx)
+	const history = await netWorthService.getHistory(ctx.state.user.id, period, accountId)
+	const label = analyticsPeriodLabel(
+		period,
+		ctx.state.user.timezone ?? DEFAULT_TIMEZONE
+	)
+	await editHome(ctx, netWorthText(history, label), netWorthKeyboard())
+}
+
+export const analyticsNetWorthCallback = (
+	bot: Bot<BotContext>,
+	netWorthService: NetWorthService,
+	chartsService: ChartsService
+) => {
+	bot.callbackQuery('analytics_net_worth', async ctx => {
+		await renderNetWorth(ctx, netWorthService)
+	})
+
+	bot.callbackQuery('analytics_net_worth_rebuild', async ctx => {
+		await ctx.answerCallbackQuery({ text: 'Пересчитываю историю…' }).catch(() => {})
+		await netWorthService.backfill(ctx.state.user.id)
+		await renderNetWorth(ctx, netWorthService)
+	})
+
+	bot.callbackQuery('analytics_net_worth_chart', async ctx => {
+		const { period, accountId } = historyParams(ctx)
+		const history = await netWorthService.getHistory(
+			ctx.state.user.id,
+			period,
+			accountId
+		)
+		if (!history.movements.some(m => m.total !== 0)) {
+			await ctx
+				.answerCallbackQuery({ text: 'Нет данных для графика' })
+				.catch(() => {})
+			return
+		}
+		const png = chartsService.renderNetWorth(
+			history.movements.map(m => chartLabel(m.day)),
+			history.movements.map(m => m.total),
+			history.mainCurrency
+		)
+		await ctx.replyWithPhoto(new InputFile(png, 'chart.png'), {
+			caption: 'Капитал во времени',
+			reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+		})
+	})
+}
@@ -1,19 +1,186 @@
-import { Bot } from 'grammy'
+import { Bot, InlineKeyboard } from 'grammy'
 import { BotContext } from '../core/bot.middleware'
-import { PrismaService } from '../../../modules/prisma/prisma.service'
+import { activateInputMode, resetInputModes } from '../core/input-mode'
+import { AnalyticsService } from '../../../modules/analytics/analytics.service'
+import {
+	AnalyticsViewsService,
+	MAX_VIEW_NAME_LENGTH
+} from '../../../modules/analytics/analytics-views.service'
+import { analyticsPeriodLabel } from '../../../modules/analytics/analytics-period.utils'
+import { BudgetsService } from '../../../modules/budgets/budgets.service'
+import { ForecastService } from '../../../modules/forecast/forecast.service'
+import { DEFAULT_TIMEZONE } from '../../../utils/date'
+import { openAnalyticsPeriod } from './analytics-main.callback'
+import { escapeHtml } from '../../../utils/html'
 
-export const analyticsSavedCallback = (bot: Bot<BotContext>, prisma: PrismaService) => {
+async function deleteViewsHint(ctx: BotContext): Promise<void> {
+	const hintId = ctx.session.analyticsViewsHintMessageId
+	ctx.session.analyticsViewsHintMessageId = undefined
+	if (hintId == null) return
+	try {
+		await ctx.api.deleteMessage(ctx.chat.id, hintId)
+	} catch {
+		// the hint may already be gone
+	}
+}
+
+async function editHome(
+	ctx: BotContext,
+	text: string,
+	kb: InlineKeyboard
+): Promise<void> {
+	const msgId = ctx.session.homeMessageId
+	if (msgId != null) {
+		try {
+			await ctx.api.editMessageText(ctx.chat.id, msgId, text, {
+				parse_mode: 'HTML',
+				reply_markup: kb
+			})
+			return
+		} catch {
+			// fall through and send a fresh message
+		}
+	}
+	const msg = await ctx.reply(text, { parse_mode: 'HTML', reply_markup: kb })
+	ctx.session.homeMessageId = msg.message_id
+}
+
+async function renderViewsList(
+	ctx: BotContext,
+	viewsService: AnalyticsViewsService
+): Promise<void> {
+	const views = await viewsService.list(ctx.state.user.id)
+	const kb = new InlineKeyboard()
+	for (const view of views) {
+		kb.text(`📊 ${view.name}`, `aview_open:${view.id}`)
+			.text('✏️', `aview_rename:${view.id}`)
+			.text('🗑', `aview_delete:${view.id}`)
+			.row()
+	}
+	kb.text('← Назад', 'analytics_back_to_main')
+	const text = views.length
+		? '<b>📁 Сохранённые виды</b>\nНажмите на вид, чтобы открыть аналитику с его фильтрами.'
+		: '<b>📁 Сохранённые виды</b>\nПока нет сохранённых видов. Настройте аналитику и нажмите «💾 Сохранить вид».'
+	await editHome(ctx, text, kb)
+}
+
+/** Handles text typed while in `analytics_view_rename` mode. */
+export async function handleAnalyticsViewRenameInput(
+	ctx: BotContext,
+	text: string,
+	viewsService: AnalyticsViewsService
+): Promise<void> {
+	const viewId = ctx.session.analyticsViewRenameId
+	const name = text.trim()
+	if (!viewId) {
+		resetInputModes(ctx)
+		return
+	}
+	if (!name || name.length > MAX_VIEW_NAME_LENGTH) {
+		await ctx.reply(
+			`Название должно быть от 1 до ${MAX_VIEW_NAME_LENGTH} символов.`,
+			{
+				reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+			}
+		)
+		return
+	}
+	try {
+		await ctx.api.deleteMessage(ctx.chat.id, ctx.message!.message_id)
+	} catch {
+		// keep going even if the input message cannot be removed
+	}
+	await deleteViewsHint(ctx)
+	resetInputModes(ctx)
+	ctx.session.analyticsViewRenameId = undefined
+	await viewsService.rename(viewId, ctx.state.user.id, name)
+	await renderViewsList(ctx, viewsService)
+}
+
+export const analyticsSavedCallback = (
+	bot: Bot<BotContext>,
+	viewsService: AnalyticsViewsService,
+	analyticsService: AnalyticsService,
+	budgetsService: BudgetsService,
+	forecastService: ForecastService
+) => {
 	bot.callbackQuery('analytics_save_view', async ctx => {
-		const userId = ctx.state.user.id
-		const period = (ctx.session as any).analyticsPeriod ?? 'month'
-		const accountId = (ctx.session as any).analyticsFilter?.accountId ?? null
-		await prisma.savedAnalyticsView.create({
-			data: {
-				userId,
-				name: `Обзор ${period}`,
-				filters: { period, accountId }
+		const user = ctx.state.user
+		const period = ctx.session.analyticsPeriod ?? 'month'
+		const filters = { ...ctx.session.analyticsFilter, period }
+		const labels = await analyticsService.describeFilters(user.id, filters)
+		const name = [
+			`Обзор за ${analyticsPeriodLabel(period, user.timezone ?? DEFAULT_TIMEZONE)}`,
+			...labels
+		].join(' · ')
+		await viewsService.create(user.id, name, filters)
+		await ctx.answerCallbackQuery({ text: 'Вид сохранён' }).catch(() => {})
+	})
+
+	bot.callbackQuery('analytics_views', async ctx => {
+		await deleteViewsHint(ctx)
+		resetInputModes(ctx)
+		await renderViewsList(ctx, viewsService)
+	})
+
+	bot.callbackQuery(/^aview_open:/, async ctx => {
+		const id = ctx.callbackQuery.data.replace('aview_open:', '')
+		const view = await viewsService.findOne(id, ctx.state.user.id)
+		if (!view) {
+			await ctx.answerCallbackQuery({ text: 'Вид не найден' }).catch(() => {})
+			await renderViewsList(ctx, viewsService)
+			return
+		}
+		const { period, ...filter } = view.filters
+		ctx.session.analyticsFilter = filter
+		await openAnalyticsPeriod(
+			ctx,
+			analyticsService,
+			budgetsService,
+			period,
+			forecastService
+		)
+		await ctx.answerCallbackQuery({ text: view.name.slice(0, 190) }).catch(() => {})
+	})
+
+	bot.callbackQuery(/^aview_rename:/, async ctx => {
+		const id = ctx.callbackQuery.data.replace('aview_rename:', '')
+		const view = await viewsService.findOne(id, ctx.state.user.id)
+		if (!view) return
+		await deleteViewsHint(ctx)
+		const hint = await ctx.reply(
+			`Введите новое название для «${escapeHtml(view.name)}».`,
+			{
+				parse_mode: 'HTML',
+				reply_markup: new InlineKeyboard().text('Закрыть', 'aview_close_hint')
 			}
+		)
+		activateInputMode(ctx, 'analytics_view_rename', {
+			analyticsViewRenameId: id,
+			analyticsViewsHintMessageId: hint.message_id
 		})
-		await ctx.answerCallbackQuery({ text: 'Вид сохранён' })
+	})
+
+	bot.callbackQuery('aview_close_hint', async ctx => {
+		await deleteViewsHint(ctx)
+		ctx.session.analyticsViewRenameId = undefined
+		resetInputModes(ctx)
+	})
+
+	bot.callbackQuery(/^aview_delete:/, async ctx => {
+		const id = ctx.callbackQuery.data.replace('aview_delete:', '')
+		const view = await viewsService.findOne(id, ctx.state.user.id)
+		if (!view) return
+		const kb = new InlineKeyboard()
+			.text('🗑 Удалить', `aview_delete_confirm:${id}`)
+			.text('Отмена', 'analytics_views')
+		await editHome(ctx, `Удалить вид «${escapeHtml(view.name)}»?`, kb)
+	})
+
+	bot.callbackQuery(/^aview_delete_confirm:/, async ctx => {
+		const id = ctx.callbackQuery.data.replace('aview_delete_confirm:', '')
+		await viewsService.delete(id, ctx.state.user.id)
+		await renderViewsList(ctx, viewsService)
+		await ctx.answerCallbackQuery({ text: 'Вид удалён' }).catch(() => {})
 	})
 }
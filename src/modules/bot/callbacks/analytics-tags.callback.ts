@@ -23,7 +23,8 @@ export const analyticsTagsCallback = (
 			period,
 			user.mainCurrency ?? 'USD',
 			99,
-			accountId
+			accountId,
+			user.timezone
 		)
 		if (!tags.length) {
 			await ctx.answerCallbackQuery({ text: 'Нет расходов по тегам за период' })
@@ -78,7 +79,8 @@ export const analyticsTagsCallback = (
 			period,
 			user.mainCurrency ?? 'USD',
 			99,
-			accountId
+			accountId,
+			user.timezone
 		)
 		const totalPages = Math.max(1, Math.ceil(tags.length / PAGE_SIZE))
 		let page = (ctx.session as any).analyticsTagsPage ?? 0
@@ -135,7 +137,8 @@ export const analyticsTagsCallback = (
 			0,
 			9,
 			user.mainCurrency ?? 'USD',
-			accountId
+			accountId,
+			user.timezone
 		)
 		const symbol = getCurrencySymbol(user.mainCurrency ?? 'USD')
 		const totalPages = Math.max(1, Math.ceil(total / 9))
@@ -154,6 +157,7 @@ export const analyticsTagsCallback = (
 			.text('30d', 'analytics_30d')
 			.text('90d', 'analytics_90d')
 			.row()
+		kb.text('🔎 Фильтр по тегу', `analytics_filter_tag:${tagId}`).row()
 		kb.text('← К тегам', 'analytics_by_tag')
 
 		const msgId = (ctx.session as any).homeMessageId
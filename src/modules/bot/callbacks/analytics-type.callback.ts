@@ -5,6 +5,8 @@ import {
 	type AnalyticsPeriod
 } from '../../../modules/analytics/analytics.service'
 import { getCurrencySymbol } from '../../../utils/format'
+import { DEFAULT_TIMEZONE } from '../../../utils/date'
+import { analyticsPeriodLabel } from '../../../modules/analytics/analytics-period.utils'
 
 export const analyticsTypeCallback = (
 	bot: Bot<BotContext>,
@@ -19,11 +21,11 @@ export const analyticsTypeCallback = (
 			user.id,
 			period,
 			user.mainCurrency ?? 'USD',
-			accountId
+			accountId,
+			user.timezone
 		)
 		const symbol = getCurrencySymbol(user.mainCurrency ?? 'USD')
-		const periodStr =
-			period === '7d' ? '7 дней' : period === '30d' ? '30 дней' : period === '90d' ? '90 дней' : period === 'week' ? 'неделю' : period === 'month' ? 'месяц' : '3 месяца'
+		const periodStr = analyticsPeriodLabel(period, user.timezone ?? DEFAULT_TIMEZONE)
 
 		const text = `📊 <b>По типу за ${periodStr}</b>
 
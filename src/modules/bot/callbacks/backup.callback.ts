@@ -0,0 +1,150 @@
+import { Bot, InlineKeyboard, InputFile } from 'grammy'
+import { BotContext } from '../core/bot.middleware'
+import { activateInputMode, resetInputModes } from '../core/input-mode'
+import { renderHome } from '../utils/render-home'
+import { AccountsService } from '../../accounts/accounts.service'
+import { AnalyticsService } from '../../analytics/analytics.service'
+import { BackupService } from '../../backup/backup.service'
+import { parseBackup } from '../../backup/backup.utils'
+import { ExportService } from '../../export/export.service'
+import { LEDGER_FORMATS, type LedgerFormat } from '../../export/ledger.utils'
+import { formatImportDate } from '../../import/csv-import.utils'
+import { DEFAULT_TIMEZONE, getZonedParts } from '../../../utils/date'
+
+async function closeRestoreHint(ctx: BotContext): Promise<void> {
+	const hintId = ctx.session.backupHintMessageId
+	ctx.session.backupHintMessageId = undefined
+	if (hintId == null) return
+	try {
+		await ctx.api.deleteMessage(ctx.chat.id, hintId)
+	} catch {
+		// the hint may already be gone
+	}
+}
+
+/** Restores an uploaded backup file while the bot is waiting for one. */
+export async function restoreBackupFromFile(
+	ctx: BotContext,
+	buffer: Buffer,
+	backupService: BackupService,
+	accountsService: AccountsService,
+	analyticsService: AnalyticsService
+): Promise<void> {
+	let backup: ReturnType<typeof parseBackup>
+	try {
+		backup = parseBackup(buffer.toString('utf8'))
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : String(error)
+		await ctx.reply(
+			`${message}. Отправьте файл, скачанный через «💾 Резервная копия».`,
+			{
+				reply_markup: new InlineKeyboard().text('Отмена', 'backup_restore_cancel')
+			}
+		)
+		return
+	}
+	const summary = await backupService.restore(ctx.state.user.id, backup)
+	await closeRestoreHint(ctx)
+	resetInputModes(ctx, { homeMessageId: ctx.session.homeMessageId })
+	const lines = [
+		'✅ Резервная копия восстановлена',
+		`Счета: новых ${summary.accountsCreated}, объединено ${summary.accountsMerged}`,
+		`Операции: добавлено ${summary.transactionsCreated}, пропущено ${summary.transactionsSkipped}`,
+		`Категории: ${summary.categoriesCreated} · Теги: ${summary.tagsCreated}`,
+		`Отчёты: ${summary.viewsCreated} · Уведомления: ${summary.alertsCreated}`,
+		'Балансы пересчитаны по восстановленным операциям.'
+	]
+	await ctx.reply(lines.join('\n'), {
+		reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+	})
+	await renderHome(ctx, accountsService, analyticsService, {
+		forceNewMessage: true,
+		preservePreviousMessages: true
+	})
+}
+
+export const backupCallback = (
+	bot: Bot<BotContext>,
+	backupService: BackupService,
+	exportService: ExportService
+) => {
+	bot.callbackQuery('backup_open', async ctx => {
+		const kb = new InlineKeyboard()
+			.text('⬇️ Скачать копию', 'backup_export')
+			.row()
+			.text('⬆️ Восстановить из копии', 'backup_restore')
+			.row()
+			.text('📒 Beancount', 'ledger_export:beancount')
+			.text('📒 hledger / Ledger', 'ledger_export:hledger')
+			.row()
+			.text('← Назад', 'back_to_settings')
+		await ctx.api.editMessageText(
+			ctx.chat.id,
+			ctx.callbackQuery.message!.message_id,
+			[
+				'💾 Резервная копия',
+				'',
+				'В файл попадают счета с балансами, операции, категории, теги с синонимами, сохранённые отчёты, уведомления и то, чему научился ассистент.',
+				'',
+				'Копию можно восстановить в этом или другом Telegram-аккаунте: счета с теми же названиями объединятся, повторы операций будут пропущены.',
+				'',
+				'Для бухгалтерии в текстовых файлах есть журнал Beancount или hledger: категории становятся счетами доходов и расходов, теги — метаданными, курсы берутся из истории.'
+			].join('\n'),
+			{ reply_markup: kb }
+		)
+	})
+
+	bot.callbackQuery('backup_export', async ctx => {
+		await ctx.answerCallbackQuery({ text: 'Готовлю файл…' }).catch(() => {})
+		const user = ctx.state.user
+		const backup = await backupService.export(user.id)
+		const date = formatImportDate(
+			getZonedParts(new Date(), user.timezone ?? DEFAULT_TIMEZONE)
+		)
+		await ctx.replyWithDocument(
+			new InputFile(
+				Buffer.from(JSON.stringify(backup, null, 2), 'utf8'),
+				`coinpilot-backup-${date}.json`
+			),
+			{
+				caption: `💾 Операций: ${backup.transactions.length}, счетов: ${backup.accounts.filter(a => !a.isHidden).length}`,
+				reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+			}
+		)
+	})
+
+	bot.callbackQuery(/^ledger_export:(\w+)$/, async ctx => {
+		const format = ctx.match[1] as LedgerFormat
+		if (!LEDGER_FORMATS.includes(format)) return
+		await ctx.answerCallbackQuery({ text: 'Готовлю файл…' }).catch(() => {})
+		const { buffer, fileName, count } = await exportService.buildLedgerExport(
+			ctx.state.user.id,
+			format
+		)
+		await ctx.replyWithDocument(new InputFile(buffer, fileName), {
+			caption: `📒 Журнал ${format === 'beancount' ? 'Beancount' : 'hledger'}, операций: ${count}`,
+			reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+		})
+	})
+
+	bot.callbackQuery('backup_restore', async ctx => {
+		await closeRestoreHint(ctx)
+		const hint = await ctx.reply(
+			'Отправьте файл резервной копии (.json). Данные из него добавятся к текущим.',
+			{ reply_markup: new InlineKeyboard().text('Отмена', 'backup_restore_cancel') }
+		)
+		activateInputMode(ctx, 'backup_restore', {
+			backupHintMessageId: hint.message_id
+		})
+	})
+
+	bot.callbackQuery('backup_restore_cancel', async ctx => {
+		await closeRestoreHint(ctx)
+		resetInputModes(ctx, { homeMessageId: ctx.session.homeMessageId })
+		try {
+			await ctx.deleteMessage()
+		} catch {
+			// already removed together with the hint
+		}
+	})
+}
@@ -0,0 +1,276 @@
+import { Bot, InlineKeyboard } from 'grammy'
+import { BotContext } from '../core/bot.middleware'
+import { activateInputMode, resetInputModes } from '../core/input-mode'
+import {
+	BudgetsService,
+	OVERALL_BUDGET_NAME,
+	type BudgetProgress
+} from '../../budgets/budgets.service'
+import { CategoriesService } from '../../categories/categories.service'
+import { budgetProgressBar } from '../../budgets/budgets.utils'
+import { parseAlertThreshold } from '../../alerts/alerts.utils'
+import { getZonedParts } from '../../../utils/date'
+import { formatAmount } from '../../../utils/format'
+
+const MONTH_NAMES = [
+	'январь',
+	'февраль',
+	'март',
+	'апрель',
+	'май',
+	'июнь',
+	'июль',
+	'август',
+	'сентябрь',
+	'октябрь',
+	'ноябрь',
+	'декабрь'
+]
+
+function progressLines(item: BudgetProgress, mainCurrency: string): string {
+	const spent = formatAmount(item.spent, mainCurrency)
+	const limit = formatAmount(item.effectiveLimit, mainCurrency)
+	const tail =
+		item.remaining >= 0
+			? `осталось ${formatAmount(item.remaining, mainCurrency)}`
+			: `перерасход ${formatAmount(-item.remaining, mainCurrency)}`
+	return `<b>${item.name}</b>: ${spent} / ${limit} (${item.pct.toFixed(0)}%)
+${budgetProgressBar(item.pct)} ${tail}`
+}
+
+async function editBudgetsMessage(
+	ctx: BotContext,
+	text: string,
+	keyboard: InlineKeyboard
+): Promise<void> {
+	const msgId = ctx.callbackQuery?.message?.message_id ?? ctx.session.budgetsMessageId
+	if (msgId != null) {
+		ctx.session.budgetsMessageId = msgId
+		try {
+			await ctx.api.editMessageText(ctx.chat.id, msgId, text, {
+				parse_mode: 'HTML',
+				reply_markup: keyboard
+			})
+			return
+		} catch (error: unknown) {
+			if (String((error as Error)?.message ?? '').includes('not modified')) return
+		}
+	}
+	const msg = await ctx.reply(text, { parse_mode: 'HTML', reply_markup: keyboard })
+	ctx.session.budgetsMessageId = msg.message_id
+}
+
+async function deleteBudgetsHint(ctx: BotContext): Promise<void> {
+	if (ctx.session.budgetsHintMessageId == null) return
+	try {
+		await ctx.api.deleteMessage(ctx.chat.id, ctx.session.budgetsHintMessageId)
+	} catch {
+		// hint may already be closed by the user
+	}
+	ctx.session.budgetsHintMessageId = undefined
+}
+
+async function renderBudgetsList(
+	ctx: BotContext,
+	budgetsService: BudgetsService
+): Promise<void> {
+	const user = ctx.state.user
+	const progress = await budgetsService.getProgress(
+		user.id,
+		user.mainCurrency,
+		user.timezone
+	)
+	const kb = new InlineKeyboard()
+	for (const item of progress) {
+		kb.text(item.name, `budget_open:${item.id}`).row()
+	}
+	kb.text('+ Добавить бюджет', 'budget_new')
+		.row()
+		.text('← Назад', 'analytics_back_to_main')
+	const title = `🎯 <b>Бюджеты — ${MONTH_NAMES[getZonedParts(new Date(), user.timezone).month]}</b>`
+	const text = progress.length
+		? `${title}\n\n${progress.map(p => progressLines(p, user.mainCurrency)).join('\n\n')}`
+		: `${title}\n\nБюджетов пока нет. Задайте общий лимит на месяц или лимит по категории — бот предупредит на 80% и 100%.`
+	await editBudgetsMessage(ctx, text, kb)
+}
+
+async function renderBudgetDetail(
+	ctx: BotContext,
+	budgetsService: BudgetsService,
+	budgetId: string
+): Promise<void> {
+	const user = ctx.state.user
+	const progress = await budgetsService.getProgress(
+		user.id,
+		user.mainCurrency,
+		user.timezone
+	)
+	const item = progress.find(p => p.id === budgetId)
+	if (!item) {
+		await renderBudgetsList(ctx, budgetsService)
+		return
+	}
+	const lines = [
+		'🎯 <b>Бюджет</b>',
+		'',
+		progressLines(item, user.mainCurrency),
+		'',
+		`Лимит в месяц: ${formatAmount(item.limit, user.mainCurrency)}`,
+		`Перенос остатка: ${item.rollover ? 'включён' : 'выключен'}`
+	]
+	const kb = new InlineKeyboard()
+		.text('✍️ Лимит', `budget_edit_limit:${item.id}`)
+		.text(
+			item.rollover ? '🔁 Не переносить остаток' : '🔁 Переносить остаток',
+			`budget_rollover:${item.id}`
+		)
+		.row()
+		.text('🗑 Удалить', `budget_delete:${item.id}`)
+		.row()
+		.text('← Назад', 'view_budgets')
+	await editBudgetsMessage(ctx, lines.join('\n'), kb)
+}
+
+async function askLimit(
+	ctx: BotContext,
+	draft: NonNullable<BotContext['session']['budgetDraft']>
+): Promise<void> {
+	await deleteBudgetsHint(ctx)
+	const hint = await ctx.reply(
+		`Введите месячный лимит в ${ctx.state.user.mainCurrency}.`,
+		{ reply_markup: new InlineKeyboard().text('Закрыть', 'budget_close_hint') }
+	)
+	activateInputMode(ctx, 'budget_limit_edit', {
+		budgetDraft: draft,
+		budgetsHintMessageId: hint.message_id
+	})
+}
+
+/** Handles text typed while in `budget_limit_edit` mode. */
+export async function handleBudgetLimitInput(
+	ctx: BotContext,
+	text: string,
+	budgetsService: BudgetsService
+): Promise<void> {
+	const draft = ctx.session.budgetDraft
+	if (!draft) {
+		resetInputModes(ctx)
+		return
+	}
+	const limit = parseAlertThreshold(text)
+	if (limit == null) {
+		await ctx.reply('Не удалось распознать сумму, попробуйте ещё раз.', {
+			reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+		})
+		return
+	}
+	try {
+		await ctx.api.deleteMessage(ctx.chat.id, ctx.message!.message_id)
+	} catch {
+		// keep going even if the input message cannot be removed
+	}
+	await deleteBudgetsHint(ctx)
+	resetInputModes(ctx)
+	ctx.session.budgetDraft = undefined
+	const userId = ctx.state.user.id
+	let budgetId = draft.budgetId
+	if (budgetId) {
+		await budgetsService.updateLimit(budgetId, userId, limit)
+	} else {
+		const saved = await budgetsService.upsert(userId, draft.categoryId, limit)
+		budgetId = saved.id
+	}
+	await renderBudgetDetail(ctx, budgetsService, budgetId)
+}
+
+export const budgetsCallback = (
+	bot: Bot<BotContext>,
+	budgetsService: BudgetsService,
+	categoriesService: CategoriesService
+) => {
+	bot.callbackQuery('view_budgets', async ctx => {
+		await deleteBudgetsHint(ctx)
+		ctx.session.budgetDraft = undefined
+		resetInputModes(ctx)
+		await renderBudgetsList(ctx, budgetsService)
+	})
+
+	bot.callbackQuery('budget_close_hint', async ctx => {
+		await deleteBudgetsHint(ctx)
+		ctx.session.budgetDraft = undefined
+		resetInputModes(ctx)
+	})
+
+	bot.callbackQuery('budget_new', async ctx => {
+		const userId = ctx.state.user.id
+		const [categories, budgets] = await Promise.all([
+			categoriesService.getSelectableByUserId(userId),
+			budgetsService.list(userId)
+		])
+		const taken = new Set(budgets.map(b => b.categoryId ?? 'all'))
+		const kb = new InlineKeyboard()
+		if (!taken.has('all')) {
+			kb.text(`📊 ${OVERALL_BUDGET_NAME}`, 'budget_new_cat:all').row()
+		}
+		categories
+			.filter(c => !taken.has(c.id))
+			.forEach((c, i) => {
+				kb.text(c.name, `budget_new_cat:${c.id}`)
+				if (i % 3 === 2) kb.row()
+			})
+		kb.row().text('← Назад', 'view_budgets')
+		await editBudgetsMessage(ctx, '🎯 Для чего задать бюджет?', kb)
+	})
+
+	bot.callbackQuery(/^budget_new_cat:/, async ctx => {
+		const raw = ctx.callbackQuery.data.replace('budget_new_cat:', '')
+		const categoryId = raw === 'all' ? null : raw
+		if (categoryId) {
+			const category = await categoriesService.findById(
+				categoryId,
+				ctx.state.user.id
+			)
+			if (!category) return
+		}
+		ctx.session.budgetsMessageId = ctx.callbackQuery.message?.message_id
+		await askLimit(ctx, { categoryId })
+	})
+
+	bot.callbackQuery(/^budget_open:/, async ctx => {
+		const budgetId = ctx.callbackQuery.data.replace('budget_open:', '')
+		await deleteBudgetsHint(ctx)
+		ctx.session.budgetDraft = undefined
+		resetInputModes(ctx)
+		await renderBudgetDetail(ctx, budgetsService, budgetId)
+	})
+
+	bot.callbackQuery(/^budget_edit_limit:/, async ctx => {
+		const budgetId = ctx.callbackQuery.data.replace('budget_edit_limit:', '')
+		const budget = await budgetsService.findOne(budgetId, ctx.state.user.id)
+		if (!budget) return
+		ctx.session.budgetsMessageId = ctx.callbackQuery.message?.message_id
+		await askLimit(ctx, { budgetId, categoryId: budget.categoryId })
+	})
+
+	bot.callbackQuery(/^budget_rollover:/, async ctx => {
+		const budgetId = ctx.callbackQuery.data.replace('budget_rollover:', '')
+		const budget = await budgetsService.findOne(budgetId, ctx.state.user.id)
+		if (!budget) return
+		await budgetsService.setRollover(budgetId, ctx.state.user.id, !budget.rollover)
+		await renderBudgetDetail(ctx, budgetsService, budgetId)
+	})
+
+	bot.callbackQuery(/^budget_delete:/, async ctx => {
+		const budgetId = ctx.callbackQuery.data.replace('budget_delete:', '')
+		const kb = new InlineKeyboard()
+			.text('✅ Подтвердить', `budget_delete_confirm:${budgetId}`)
+			.text('🔙 Вернуться', `budget_open:${budgetId}`)
+		await editBudgetsMessage(ctx, 'Удалить этот бюджет?\n\nВы уверены?', kb)
+	})
+
+	bot.callbackQuery(/^budget_delete_confirm:/, async ctx => {
+		const budgetId = ctx.callbackQuery.data.replace('budget_delete_confirm:', '')
+		await budgetsService.delete(budgetId, ctx.state.user.id)
+		await renderBudgetsList(ctx, budgetsService)
+	})
+}
@@ -129,8 +129,20 @@ async function deleteAllPreview(
 		let monthlyChangePct = Number.NaN
 		try {
 			const [summary, cashflow] = await Promise.all([
-				analyticsService.getSummary(user.id, '30d', mainCurrency),
-				analyticsService.getCashflow(user.id, '30d', mainCurrency)
+				analyticsService.getSummary(
+					user.id,
+					'30d',
+					mainCurrency,
+					undefined,
+					user.timezone
+				),
+				analyticsService.getCashflow(
+					user.id,
+					'30d',
+					mainCurrency,
+					undefined,
+					user.timezone
+				)
 			])
 			totalBalance = summary.balance
 			const beginning = summary.balance - cashflow
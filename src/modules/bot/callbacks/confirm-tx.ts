@@ -283,6 +283,8 @@ export function confirmKeyboard(
 			.text('Вперёд »', 'pagination_forward_transactions')
 	}
 	if (isEditingExisting) {
+		if (!isTransfer) kb.row().text('🔄 Сделать регулярной', 'recurring_from_tx')
+		kb.row().text('📎 Чеки и файлы', 'tx_attachments')
 		kb.row().text('Удалить транзакцию', 'delete_transaction')
 		kb.row().text('← Назад к списку', 'back_to_transactions')
 	} else if (total > 1) {
@@ -3,6 +3,7 @@ import { BotContext } from '../core/bot.middleware'
 import { CategoriesService } from '../../../modules/categories/categories.service'
 import { AccountsService } from '../../../modules/accounts/accounts.service'
 import { TransactionsService } from '../../../modules/transactions/transactions.service'
+import { LlmMemoryService } from '../../../modules/llm-memory/llm-memory.service'
 import { renderConfirmMessage } from '../elements/tx-confirm-msg'
 import { confirmKeyboard, getShowConversion } from './confirm-tx'
 import { activateInputMode } from '../core/input-mode'
@@ -50,7 +51,8 @@ export const editCategoryCallback = (
 	bot: Bot<BotContext>,
 	categoriesService: CategoriesService,
 	accountsService: AccountsService,
-	transactionsService: TransactionsService
+	transactionsService: TransactionsService,
+	llmMemoryService: LlmMemoryService
 ) => {
 	bot.callbackQuery('edit:category', async ctx => {
 		const userId = ctx.state.user.id
@@ -141,6 +143,15 @@ export const editCategoryCallback = (
 			} else {
 				current.category = category.name
 				current.categoryId = category.id
+				if (current.description) {
+					await llmMemoryService
+						.rememberCategory(
+							ctx.state.user.id,
+							current.description,
+							category.name
+						)
+						.catch(() => null)
+				}
 			}
 
 		const user = ctx.state.user as any
@@ -0,0 +1,368 @@
+import { Bot, InlineKeyboard } from 'grammy'
+import { BotContext } from '../core/bot.middleware'
+import { showImportedDrafts } from '../utils/show-imported-drafts'
+import { AccountsService } from '../../accounts/accounts.service'
+import { AnalyticsService } from '../../analytics/analytics.service'
+import { ImportService, type ImportDraft } from '../../import/import.service'
+import { SubscriptionService } from '../../subscription/subscription.service'
+import {
+	APP_IMPORT_FORMAT_LABELS,
+	appEntryTarget,
+	parseAppImport,
+	summarizeAppAccounts,
+	type AppImportEntry
+} from '../../import/app-import.utils'
+import { formatImportDate } from '../../import/csv-import.utils'
+import { DEFAULT_TIMEZONE } from '../../../utils/date'
+import { MAX_CSV_IMPORT_ROWS } from './import-csv.callback'
+import { escapeHtml } from '../../../utils/html'
+
+type AppImportState = NonNullable<BotContext['session']['appImport']>
+
+const MAX_LISTED_NAMES = 5
+
+function mappingOf(state: AppImportState): Record<string, string | null> {
+	return Object.fromEntries(
+		state.accounts.map((name, i) => [name, state.accountIds[i]])
+	)
+}
+
+function listNames(names: string[]): string {
+	const shown = names.slice(0, MAX_LISTED_NAMES).map(escapeHtml).join(', ')
+	const rest = names.length - MAX_LISTED_NAMES
+	return rest > 0 ? `${shown} и ещё ${rest}` : shown
+}
+
+async function editAppMessage(
+	ctx: BotContext,
+	text: string,
+	kb: InlineKeyboard
+): Promise<void> {
+	const state = ctx.session.appImport
+	const msgId = ctx.callbackQuery?.message?.message_id ?? state?.messageId
+	if (msgId != null) {
+		try {
+			await ctx.api.editMessageText(ctx.chat.id, msgId, text, {
+				parse_mode: 'HTML',
+				reply_markup: kb
+			})
+			return
+		} catch {
+			// unchanged markup or the message is gone; send a fresh one below
+		}
+	}
+	const msg = await ctx.reply(text, { parse_mode: 'HTML', reply_markup: kb })
+	if (state) state.messageId = msg.message_id
+}
+
+/** Entries that the current mapping imports and that were not imported before. */
+async function pendingEntries(
+	ctx: BotContext,
+	state: AppImportState,
+	importService: ImportService
+): Promise<{ entries: AppImportEntry[]; imported: number }> {
+	const mapping = mappingOf(state)
+	const mapped = state.entries.filter(entry => appEntryTarget(entry, mapping))
+	const importedIds = await importService.findImportedAppEntryIds(
+		ctx.state.user.id,
+		state.format,
+		mapped
+	)
+	const entries = mapped.filter(entry => !importedIds.has(entry.externalId))
+	return { entries, imported: mapped.length - entries.length }
+}
+
+/** Dry run: what each source account brings and what would be created, before anything is written. */
+async function renderAppScreen(
+	ctx: BotContext,
+	importService: ImportService,
+	accountsService: AccountsService
+): Promise<void> {
+	const state = ctx.session.appImport
+	if (!state) return
+	const accounts = await accountsService.getAllByUserId(ctx.state.user.id)
+	const summaries = summarizeAppAccounts(state.entries)
+	const first = state.entries[0].date
+	const last = state.entries[state.entries.length - 1].date
+	const lines = [
+		`<b>📥 Импорт ${APP_IMPORT_FORMAT_LABELS[state.format]} — предпросмотр</b>`,
+		`Файл: ${escapeHtml(state.fileName)}`,
+		`Период: ${formatImportDate(first)} — ${formatImportDate(last)}`,
+		'',
+		'<b>Счета</b>'
+	]
+	const kb = new InlineKeyboard()
+	state.accounts.forEach((name, index) => {
+		const summary = summaries.find(s => s.name === name)
+		const target = accounts.find(a => a.id === state.accountIds[index])
+		const counts = [
+			summary?.expenses ? `расх. ${summary.expenses}` : '',
+			summary?.income ? `дох. ${summary.income}` : '',
+			summary?.transfers ? `перев. ${summary.transfers}` : ''
+		].filter(Boolean)
+		lines.push(
+			`${escapeHtml(name)} · ${counts.join(' · ')} → ${
+				target ? escapeHtml(target.name) : 'не импортировать'
+			}`
+		)
+		kb.text(`${name} → ${target?.name ?? '—'}`, `app_pick:${index}`).row()
+	})
+	const { entries, imported } = await pendingEntries(ctx, state, importService)
+	const plan = await importService.planAppTaxonomy(ctx.state.user.id, entries)
+	lines.push('', '<b>Итог</b>', `Будет импортировано операций: ${entries.length}`)
+	if (imported) lines.push(`Уже были импортированы: ${imported}`)
+	if (state.skipped) lines.push(`Строки без даты, суммы или счёта: ${state.skipped}`)
+	const { categories, tags } = plan
+	if (categories.existing.length || categories.create.length) {
+		lines.push(
+			`Категории: найдено ${categories.existing.length}, будет создано ${categories.create.length}`
+		)
+	}
+	if (categories.create.length) lines.push(`Новые: ${listNames(categories.create)}`)
+	if (categories.overLimit.length) {
+		lines.push(
+			`Не помещаются в тариф (${categories.overLimit.length}) — подберу похожие из ваших: ${listNames(categories.overLimit)}`
+		)
+	}
+	if (tags.existing.length || tags.create.length) {
+		lines.push(
+			`Теги: найдено ${tags.existing.length}, будет создано ${tags.create.length}`
+		)
+	}
+	if (tags.overLimit.length) {
+		lines.push(
+			`Теги сверх лимита не импортируются (${tags.overLimit.length}): ${listNames(tags.overLimit)}`
+		)
+	}
+	lines.push(
+		'',
+		'Пока ничего не записано. Сопоставьте счета и нажмите «Импортировать».'
+	)
+	kb.text('✅ Импортировать', 'app_import_run').text('Отмена', 'app_import_cancel')
+	await editAppMessage(ctx, lines.join('\n'), kb)
+}
+
+/**
+ * Opens the dry-run screen when an uploaded CSV comes from ZenMoney, CoinKeeper,
+ * Money Manager or Wallet; returns false for any other CSV.
+ */
+export async function startAppImport(
+	ctx: BotContext,
+	buffer: Buffer,
+	fileName: string,
+	importService: ImportService,
+	accountsService: AccountsService
+): Promise<boolean> {
+	const parsed = parseAppImport(buffer)
+	if (!parsed) return false
+	const label = APP_IMPORT_FORMAT_LABELS[parsed.format]
+	if (!parsed.entries.length) {
+		await ctx.reply(`В файле ${label} не найдено операций.`, {
+			reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+		})
+		return true
+	}
+	if (parsed.entries.length > MAX_CSV_IMPORT_ROWS) {
+		await ctx.reply(
+			`В файле ${parsed.entries.length} операций. За один раз можно импортировать до ${MAX_CSV_IMPORT_ROWS} — выгрузите историю по частям, например по годам.`,
+			{ reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message') }
+		)
+		return true
+	}
+	const user = ctx.state.user
+	const ours = await accountsService.getAllByUserId(user.id)
+	const accounts = summarizeAppAccounts(parsed.entries).map(s => s.name)
+	const accountIds = await Promise.all(
+		accounts.map(
+			async name =>
+				(await importService.getAccountMapping(
+					user.id,
+					`app:${parsed.format}:${name}`
+				)) ??
+				ours.find(a => a.name.toLowerCase() === name.toLowerCase())?.id ??
+				null
+		)
+	)
+	ctx.session.appImport = {
+		fileName,
+		format: parsed.format,
+		entries: parsed.entries,
+		skipped: parsed.skipped,
+		accounts,
+		accountIds
+	}
+	await renderAppScreen(ctx, importService, accountsService)
+	return true
+}
+
+export const importAppCallback = (
+	bot: Bot<BotContext>,
+	importService: ImportService,
+	accountsService: AccountsService,
+	subscriptionService: SubscriptionService,
+	analyticsService: AnalyticsService
+) => {
+	bot.callbackQuery(/^app_pick:/, async ctx => {
+		const state = ctx.session.appImport
+		const index = Number(ctx.callbackQuery.data.split(':')[1])
+		const name = state?.accounts[index]
+		if (!state || name == null) {
+			await ctx.answerCallbackQuery({ text: 'Импорт уже завершён' }).catch(() => {})
+			return
+		}
+		const accounts = await accountsService.getAllByUserId(ctx.state.user.id)
+		const kb = new InlineKeyboard()
+		for (const account of accounts.filter(a => a.name !== 'Вне Wallet')) {
+			const mark = account.id === state.accountIds[index] ? '✅ ' : ''
+			kb.text(`${mark}${account.name}`, `app_account:${index}:${account.id}`).row()
+		}
+		kb.text(
+			`${state.accountIds[index] ? '' : '✅ '}🚫 Не импортировать`,
+			`app_account:${index}:none`
+		)
+			.row()
+			.text('← Назад', 'app_import_back')
+		await editAppMessage(
+			ctx,
+			`Куда импортировать операции счёта ${escapeHtml(name)}? Переводы с неимпортируемыми счетами станут переводами из «Вне Wallet» и обратно.`,
+			kb
+		)
+	})
+
+	bot.callbackQuery(/^app_account:/, async ctx => {
+		const state = ctx.session.appImport
+		if (!state) return
+		const [, rawIndex, id] = ctx.callbackQuery.data.split(':')
+		const index = Number(rawIndex)
+		if (index in state.accounts) {
+			if (id === 'none') {
+				state.accountIds[index] = null
+			} else {
+				const account = await accountsService.getOneWithAssets(
+					id,
+					ctx.state.user.id
+				)
+				if (account) state.accountIds[index] = account.id
+			}
+		}
+		await renderAppScreen(ctx, importService, accountsService)
+	})
+
+	bot.callbackQuery('app_import_back', async ctx => {
+		await renderAppScreen(ctx, importService, accountsService)
+	})
+
+	bot.callbackQuery('app_import_cancel', async ctx => {
+		const msgId = ctx.session.appImport?.messageId
+		ctx.session.appImport = undefined
+		if (msgId != null) {
+			try {
+				await ctx.api.deleteMessage(ctx.chat.id, msgId)
+			} catch {
+				// the screen may already be gone
+			}
+		}
+		await ctx.answerCallbackQuery({ text: 'Импорт отменён' }).catch(() => {})
+	})
+
+	bot.callbackQuery('app_import_run', async ctx => {
+		const state = ctx.session.appImport
+		const user = ctx.state.user
+		if (!state) {
+			await ctx.answerCallbackQuery({ text: 'Импорт уже завершён' }).catch(() => {})
+			return
+		}
+		if (!state.accountIds.some(Boolean)) {
+			await ctx
+				.answerCallbackQuery({
+					text: 'Выберите счёт хотя бы для одного счёта'
+				})
+				.catch(() => {})
+			return
+		}
+		const { entries, imported } = await pendingEntries(ctx, state, importService)
+		if (!entries.length) {
+			ctx.session.appImport = undefined
+			await editAppMessage(
+				ctx,
+				'Все операции для выбранных счетов уже импортированы.',
+				new InlineKeyboard().text('Закрыть', 'hide_message')
+			)
+			return
+		}
+		if (!ctx.state.isPremium) {
+			const txLimit = await subscriptionService.canCreateTransaction(user.id)
+			if (txLimit.current + entries.length > txLimit.limit) {
+				await ctx.reply(
+					`💠 В файле ${entries.length} новых операций, а в Basic доступно ${Math.max(0, txLimit.limit - txLimit.current)} в этом месяце. Разблокируйте безлимит с тарифом Pro!`,
+					{
+						reply_markup: new InlineKeyboard()
+							.text('💠 Pro-тариф', 'view_premium')
+							.row()
+							.text('Закрыть', 'hide_message')
+					}
+				)
+				return
+			}
+		}
+		const allAccounts = await accountsService.getAllByUserIdIncludingHidden(user.id)
+		const outside = allAccounts.find(a => a.name === 'Вне Wallet')
+		if (!outside) {
+			await ctx
+				.answerCallbackQuery({
+					text: 'Системный счёт "Вне Wallet" не найден'
+				})
+				.catch(() => {})
+			return
+		}
+		await ctx.answerCallbackQuery({ text: 'Импортирую…' }).catch(() => {})
+		const timezone = user.timezone ?? DEFAULT_TIMEZONE
+		let created: Array<ImportDraft & { id: string }>
+		try {
+			const drafts = await importService.buildAppDrafts({
+				userId: user.id,
+				format: state.format,
+				timezone,
+				entries,
+				mapping: mappingOf(state),
+				accounts: allAccounts,
+				outsideAccountId: outside.id
+			})
+			created = await importService.createDrafts(user.id, drafts)
+		} catch (error: unknown) {
+			const message = error instanceof Error ? error.message : String(error)
+			await ctx.reply(`Не удалось импортировать операции: ${message}`, {
+				reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+			})
+			return
+		}
+		for (const [index, name] of state.accounts.entries()) {
+			const accountId = state.accountIds[index]
+			if (!accountId) continue
+			await importService.rememberAccountMapping(
+				user.id,
+				`app:${state.format}:${name}`,
+				accountId
+			)
+		}
+
+		const msgId = state.messageId
+		ctx.session.appImport = undefined
+		if (msgId != null) {
+			try {
+				await ctx.api.deleteMessage(ctx.chat.id, msgId)
+			} catch {
+				// the screen may already be gone
+			}
+		}
+		const summary = [`📥 Импортировано операций: ${created.length}`]
+		if (imported) summary.push(`Уже были импортированы: ${imported}`)
+		await showImportedDrafts(ctx, {
+			drafts: created,
+			summary,
+			timezone,
+			accountsService,
+			analyticsService
+		})
+	})
+}
@@ -0,0 +1,428 @@
+import { Bot, InlineKeyboard } from 'grammy'
+import type { Document } from 'grammy/types'
+import { BotContext } from '../core/bot.middleware'
+import { showImportedDrafts } from '../utils/show-imported-drafts'
+import { AccountsService } from '../../accounts/accounts.service'
+import { AnalyticsService } from '../../analytics/analytics.service'
+import { ImportService } from '../../import/import.service'
+import { SubscriptionService } from '../../subscription/subscription.service'
+import {
+	buildImportRows,
+	columnValues,
+	CSV_DATE_FORMATS,
+	CSV_FIELDS,
+	detectImportOptions,
+	formatImportDate,
+	guessColumnMapping,
+	parseCsvDate,
+	readCsv,
+	type CsvField
+} from '../../import/csv-import.utils'
+import { DEFAULT_TIMEZONE } from '../../../utils/date'
+import { escapeHtml } from '../../../utils/html'
+
+type CsvImportState = NonNullable<BotContext['session']['csvImport']>
+
+export const MAX_CSV_IMPORT_ROWS = 500
+
+const CSV_MIME_TYPES = [
+	'text/csv',
+	'text/comma-separated-values',
+	'application/csv',
+	'text/x-csv'
+]
+
+const FIELD_LABELS: Record<CsvField, string> = {
+	date: 'Дата',
+	amount: 'Сумма',
+	debit: 'Расход',
+	credit: 'Доход',
+	description: 'Описание',
+	currency: 'Валюта',
+	category: 'Категория'
+}
+
+const ENCODING_LABELS: Record<CsvImportState['encoding'], string> = {
+	'utf-8': 'UTF-8',
+	'utf-16le': 'UTF-16',
+	'windows-1251': 'Windows-1251'
+}
+
+function truncate(value: string, max: number): string {
+	return value.length > max ? `${value.slice(0, max - 1)}…` : value
+}
+
+export function isCsvDocument(doc: Document): boolean {
+	const name = doc.file_name?.toLowerCase() ?? ''
+	return name.endsWith('.csv') || CSV_MIME_TYPES.includes(doc.mime_type ?? '')
+}
+
+function delimiterLabel(delimiter: CsvImportState['delimiter']): string {
+	return delimiter === '\t' ? 'табуляция' : `«${delimiter}»`
+}
+
+function columnLabel(state: CsvImportState, field: CsvField): string {
+	const index = state.mapping[field]
+	return index != null ? (state.header[index] ?? `Колонка ${index + 1}`) : '—'
+}
+
+async function editImportMessage(
+	ctx: BotContext,
+	text: string,
+	kb: InlineKeyboard
+): Promise<void> {
+	const state = ctx.session.csvImport
+	const msgId = ctx.callbackQuery?.message?.message_id ?? state?.messageId
+	if (msgId != null) {
+		try {
+			await ctx.api.editMessageText(ctx.chat.id, msgId, text, {
+				parse_mode: 'HTML',
+				reply_markup: kb
+			})
+			return
+		} catch {
+			// unchanged markup or the message is gone; send a fresh one below
+		}
+	}
+	const msg = await ctx.reply(text, { parse_mode: 'HTML', reply_markup: kb })
+	if (state) state.messageId = msg.message_id
+}
+
+async function renderImportScreen(
+	ctx: BotContext,
+	accountsService: AccountsService
+): Promise<void> {
+	const state = ctx.session.csvImport
+	if (!state) return
+	const account = state.accountId
+		? await accountsService.getOneWithAssets(state.accountId, ctx.state.user.id)
+		: null
+	const lines = [
+		'<b>📥 Импорт CSV</b>',
+		`Файл: ${escapeHtml(state.fileName)}`,
+		`Строк: ${state.rows.length} · Кодировка: ${ENCODING_LABELS[state.encoding]} · Разделитель: ${delimiterLabel(state.delimiter)}`,
+		'',
+		'<b>Колонки</b>',
+		...CSV_FIELDS.filter(f => state.mapping[f] != null).map(
+			f => `${FIELD_LABELS[f]} → ${escapeHtml(columnLabel(state, f))}`
+		)
+	]
+	if (state.dateFormat) {
+		const { rows } = buildImportRows(
+			{ ...state, rows: state.rows.slice(0, 3) },
+			state.mapping,
+			{ dateFormat: state.dateFormat, decimalSeparator: state.decimalSeparator }
+		)
+		if (rows.length) {
+			lines.push('', '<b>Пример</b>')
+			for (const row of rows) {
+				const sign = row.direction === 'expense' ? '-' : '+'
+				lines.push(
+					escapeHtml(
+						`${formatImportDate(row.date)} · ${sign}${row.amount} ${row.currency ?? account?.currency ?? ''} · ${truncate(row.description || '—', 40)}`
+					)
+				)
+			}
+		}
+	} else {
+		lines.push('', 'Не удалось определить формат даты — выберите колонку даты.')
+	}
+	lines.push(
+		'',
+		'Проверьте колонки и нажмите «Импортировать». Повторы будут пропущены.'
+	)
+
+	const kb = new InlineKeyboard()
+	CSV_FIELDS.forEach((field, index) => {
+		kb.text(
+			`${FIELD_LABELS[field]}: ${truncate(columnLabel(state, field), 18)}`,
+			`csv_map:${field}`
+		)
+		if (index % 2 === 1) kb.row()
+	})
+	kb.row()
+		.text(`📅 ${state.dateFormat ?? 'формат даты'}`, 'csv_date_format')
+		.text(`Дробная часть: «${state.decimalSeparator}»`, 'csv_decimal')
+		.row()
+		.text(`💳 Счёт: ${truncate(account?.name ?? 'не выбран', 24)}`, 'csv_account')
+		.row()
+		.text('✅ Импортировать', 'csv_import_run')
+		.text('Отмена', 'csv_import_cancel')
+	await editImportMessage(ctx, lines.join('\n'), kb)
+}
+
+/** Reads an uploaded CSV and opens the column mapping screen. */
+export async function startCsvImport(
+	ctx: BotContext,
+	buffer: Buffer,
+	fileName: string,
+	accountsService: AccountsService
+): Promise<void> {
+	const table = readCsv(buffer)
+	if (!table.rows.length || table.header.length < 2) {
+		await ctx.reply(
+			'Не удалось прочитать CSV. Проверьте, что в файле есть строки с датой и суммой.',
+			{ reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message') }
+		)
+		return
+	}
+	if (table.rows.length > MAX_CSV_IMPORT_ROWS) {
+		await ctx.reply(
+			`В файле ${table.rows.length} строк. За один раз можно импортировать до ${MAX_CSV_IMPORT_ROWS} — разбейте выписку по периодам.`,
+			{ reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message') }
+		)
+		return
+	}
+	const user = ctx.state.user
+	const accounts = await accountsService.getAllByUserId(user.id)
+	const regular = accounts.filter(a => a.name !== 'Вне Wallet')
+	const accountId =
+		user.defaultAccountId ?? ctx.state.activeAccount?.id ?? regular[0]?.id ?? null
+	const mapping = guessColumnMapping(table)
+	const options = detectImportOptions(table, mapping)
+	ctx.session.csvImport = {
+		fileName,
+		encoding: table.encoding,
+		delimiter: table.delimiter,
+		hasHeader: table.hasHeader,
+		header: table.header,
+		rows: table.rows,
+		mapping,
+		dateFormat: options.dateFormat,
+		decimalSeparator: options.decimalSeparator,
+		accountId
+	}
+	await renderImportScreen(ctx, accountsService)
+}
+
+export const importCsvCallback = (
+	bot: Bot<BotContext>,
+	importService: ImportService,
+	accountsService: AccountsService,
+	subscriptionService: SubscriptionService,
+	analyticsService: AnalyticsService
+) => {
+	bot.callbackQuery(/^csv_map:/, async ctx => {
+		const state = ctx.session.csvImport
+		const field = CSV_FIELDS.find(f => f === ctx.callbackQuery.data.split(':')[1])
+		if (!state || !field) {
+			await ctx.answerCallbackQuery({ text: 'Импорт уже завершён' }).catch(() => {})
+			return
+		}
+		const kb = new InlineKeyboard()
+		state.header.forEach((name, index) => {
+			const sample = state.rows.find(r => r[index])?.[index] ?? ''
+			const label = sample ? `${name} · ${sample}` : name
+			const mark = state.mapping[field] === index ? '✅ ' : ''
+			kb.text(`${mark}${truncate(label, 40)}`, `csv_col:${field}:${index}`).row()
+		})
+		kb.text('— Не импортировать', `csv_col:${field}:-1`)
+			.row()
+			.text('← Назад', 'csv_import_back')
+		await editImportMessage(
+			ctx,
+			`Выберите колонку для поля «${FIELD_LABELS[field]}».`,
+			kb
+		)
+	})
+
+	bot.callbackQuery(/^csv_col:/, async ctx => {
+		const state = ctx.session.csvImport
+		const [, rawField, rawIndex] = ctx.callbackQuery.data.split(':')
+		const field = CSV_FIELDS.find(f => f === rawField)
+		const index = Number(rawIndex)
+		if (!state || !field || !Number.isInteger(index)) return
+		for (const key of CSV_FIELDS) {
+			if (state.mapping[key] === index) delete state.mapping[key]
+		}
+		// a signed amount column and separate debit/credit columns are alternatives
+		if (field === 'amount') {
+			delete state.mapping.debit
+			delete state.mapping.credit
+		} else if (field === 'debit' || field === 'credit') {
+			delete state.mapping.amount
+		}
+		if (index >= 0 && index < state.header.length) state.mapping[field] = index
+		else delete state.mapping[field]
+		const options = detectImportOptions(state, state.mapping)
+		state.dateFormat = options.dateFormat
+		state.decimalSeparator = options.decimalSeparator
+		await renderImportScreen(ctx, accountsService)
+	})
+
+	bot.callbackQuery('csv_date_format', async ctx => {
+		const state = ctx.session.csvImport
+		if (!state) return
+		const values =
+			state.mapping.date != null ? columnValues(state.rows, state.mapping.date) : []
+		const fitting = CSV_DATE_FORMATS.filter(format =>
+			values.slice(0, 50).every(v => parseCsvDate(v, format))
+		)
+		const choices = fitting.length ? fitting : CSV_DATE_FORMATS
+		const current = state.dateFormat ? choices.indexOf(state.dateFormat) : -1
+		state.dateFormat = choices[(current + 1) % choices.length]
+		await renderImportScreen(ctx, accountsService)
+		await ctx
+			.answerCallbackQuery({
+				text: fitting.length
+					? `Формат даты: ${state.dateFormat}`
+					: 'Ни один формат не подходит ко всем строкам'
+			})
+			.catch(() => {})
+	})
+
+	bot.callbackQuery('csv_decimal', async ctx => {
+		const state = ctx.session.csvImport
+		if (!state) return
+		state.decimalSeparator = state.decimalSeparator === ',' ? '.' : ','
+		await renderImportScreen(ctx, accountsService)
+	})
+
+	bot.callbackQuery('csv_account', async ctx => {
+		const state = ctx.session.csvImport
+		if (!state) return
+		const accounts = await accountsService.getAllByUserId(ctx.state.user.id)
+		const kb = new InlineKeyboard()
+		for (const account of accounts.filter(a => a.name !== 'Вне Wallet')) {
+			const mark = account.id === state.accountId ? '✅ ' : ''
+			kb.text(`${mark}${account.name}`, `csv_account:${account.id}`).row()
+		}
+		kb.text('← Назад', 'csv_import_back')
+		await editImportMessage(ctx, 'На какой счёт импортировать операции?', kb)
+	})
+
+	bot.callbackQuery(/^csv_account:/, async ctx => {
+		const state = ctx.session.csvImport
+		if (!state) return
+		const id = ctx.callbackQuery.data.replace('csv_account:', '')
+		const account = await accountsService.getOneWithAssets(id, ctx.state.user.id)
+		if (account) state.accountId = account.id
+		await renderImportScreen(ctx, accountsService)
+	})
+
+	bot.callbackQuery('csv_import_back', async ctx => {
+		await renderImportScreen(ctx, accountsService)
+	})
+
+	bot.callbackQuery('csv_import_cancel', async ctx => {
+		const msgId = ctx.session.csvImport?.messageId
+		ctx.session.csvImport = undefined
+		if (msgId != null) {
+			try {
+				await ctx.api.deleteMessage(ctx.chat.id, msgId)
+			} catch {
+				// the screen may already be gone
+			}
+		}
+		await ctx.answerCallbackQuery({ text: 'Импорт отменён' }).catch(() => {})
+	})
+
+	bot.callbackQuery('csv_import_run', async ctx => {
+		const state = ctx.session.csvImport
+		const user = ctx.state.user
+		if (!state) {
+			await ctx.answerCallbackQuery({ text: 'Импорт уже завершён' }).catch(() => {})
+			return
+		}
+		const hasAmount =
+			state.mapping.amount != null ||
+			state.mapping.debit != null ||
+			state.mapping.credit != null
+		if (state.mapping.date == null || !state.dateFormat || !hasAmount) {
+			await ctx
+				.answerCallbackQuery({ text: 'Укажите колонки даты и суммы' })
+				.catch(() => {})
+			return
+		}
+		const account = state.accountId
+			? await accountsService.getOneWithAssets(state.accountId, user.id)
+			: null
+		if (!account) {
+			await ctx
+				.answerCallbackQuery({ text: 'Выберите счёт для импорта' })
+				.catch(() => {})
+			return
+		}
+		const timezone = user.timezone ?? DEFAULT_TIMEZONE
+		const { rows, invalid } = buildImportRows(state, state.mapping, {
+			dateFormat: state.dateFormat,
+			decimalSeparator: state.decimalSeparator
+		})
+		if (!rows.length) {
+			await ctx
+				.answerCallbackQuery({
+					text: 'Не удалось разобрать ни одной строки. Проверьте колонки и форматы.'
+				})
+				.catch(() => {})
+			return
+		}
+		const { fresh, duplicates } = await importService.filterDuplicates(
+			user.id,
+			account.id,
+			rows,
+			timezone
+		)
+		if (!fresh.length) {
+			ctx.session.csvImport = undefined
+			await editImportMessage(
+				ctx,
+				`Все ${rows.length} операций из файла уже есть на счёте «${escapeHtml(account.name)}».`,
+				new InlineKeyboard().text('Закрыть', 'hide_message')
+			)
+			return
+		}
+		if (!ctx.state.isPremium) {
+			const txLimit = await subscriptionService.canCreateTransaction(user.id)
+			if (txLimit.current + fresh.length > txLimit.limit) {
+				await ctx.reply(
+					`💠 В файле ${fresh.length} новых операций, а в Basic доступно ${Math.max(0, txLimit.limit - txLimit.current)} в этом месяце. Разблокируйте безлимит с тарифом Pro!`,
+					{
+						reply_markup: new InlineKeyboard()
+							.text('💠 Pro-тариф', 'view_premium')
+							.row()
+							.text('Закрыть', 'hide_message')
+					}
+				)
+				return
+			}
+		}
+		await ctx.answerCallbackQuery({ text: 'Импортирую…' }).catch(() => {})
+		let created: Awaited<ReturnType<ImportService['createTransactions']>>
+		try {
+			created = await importService.createTransactions({
+				userId: user.id,
+				accountId: account.id,
+				accountName: account.name,
+				currency: account.currency,
+				timezone,
+				rows: fresh
+			})
+		} catch (error: unknown) {
+			const message = error instanceof Error ? error.message : String(error)
+			await ctx.reply(`Не удалось импортировать операции: ${message}`, {
+				reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+			})
+			return
+		}
+
+		const msgId = state.messageId
+		ctx.session.csvImport = undefined
+		if (msgId != null) {
+			try {
+				await ctx.api.deleteMessage(ctx.chat.id, msgId)
+			} catch {
+				// the screen may already be gone
+			}
+		}
+		const summary = [`📥 Импортировано операций: ${created.length}`]
+		if (duplicates) summary.push(`Пропущено повторов: ${duplicates}`)
+		if (invalid) summary.push(`Не распознано строк: ${invalid}`)
+		await showImportedDrafts(ctx, {
+			drafts: created,
+			summary,
+			timezone,
+			accountsService,
+			analyticsService
+		})
+	})
+}
@@ -0,0 +1,295 @@
+import { Bot, InlineKeyboard } from 'grammy'
+import { BotContext } from '../core/bot.middleware'
+import { showImportedDrafts } from '../utils/show-imported-drafts'
+import { AccountsService } from '../../accounts/accounts.service'
+import { AnalyticsService } from '../../analytics/analytics.service'
+import { ImportService, type ImportDraft } from '../../import/import.service'
+import { SubscriptionService } from '../../subscription/subscription.service'
+import {
+	EXCHANGE_FORMAT_LABELS,
+	parseExchangeCsv,
+	type ExchangeFormat,
+	type ExchangeOperationKind
+} from '../../import/exchange-import.utils'
+import { DEFAULT_TIMEZONE } from '../../../utils/date'
+import { MAX_CSV_IMPORT_ROWS } from './import-csv.callback'
+import { escapeHtml } from '../../../utils/html'
+
+const KIND_LABELS: Record<ExchangeOperationKind, string> = {
+	trade: 'Сделки',
+	deposit: 'Ввод',
+	withdrawal: 'Вывод',
+	fee: 'Комиссии'
+}
+
+/** Binance's ledger and trade history share ids and the remembered account. */
+function exchangeKey(format: ExchangeFormat): string {
+	return EXCHANGE_FORMAT_LABELS[format].toLowerCase()
+}
+
+async function editExchangeMessage(
+	ctx: BotContext,
+	text: string,
+	kb: InlineKeyboard
+): Promise<void> {
+	const state = ctx.session.exchangeImport
+	const msgId = ctx.callbackQuery?.message?.message_id ?? state?.messageId
+	if (msgId != null) {
+		try {
+			await ctx.api.editMessageText(ctx.chat.id, msgId, text, {
+				parse_mode: 'HTML',
+				reply_markup: kb
+			})
+			return
+		} catch {
+			// unchanged markup or the message is gone; send a fresh one below
+		}
+	}
+	const msg = await ctx.reply(text, { parse_mode: 'HTML', reply_markup: kb })
+	if (state) state.messageId = msg.message_id
+}
+
+async function renderExchangeScreen(
+	ctx: BotContext,
+	accountsService: AccountsService
+): Promise<void> {
+	const state = ctx.session.exchangeImport
+	if (!state) return
+	const accounts = await accountsService.getAllByUserId(ctx.state.user.id)
+	const target = accounts.find(a => a.id === state.accountId)
+	const counts = (Object.keys(KIND_LABELS) as ExchangeOperationKind[])
+		.map(kind => ({
+			kind,
+			count: state.operations.filter(op => op.kind === kind).length
+		}))
+		.filter(item => item.count > 0)
+		.map(item => `${KIND_LABELS[item.kind]}: ${item.count}`)
+	const lines = [
+		`<b>📥 Импорт ${EXCHANGE_FORMAT_LABELS[state.format]}</b>`,
+		`Файл: ${escapeHtml(state.fileName)}`,
+		'',
+		counts.join(' · ')
+	]
+	if (state.skipped) {
+		lines.push(`Не импортируются (стейкинг, фьючерсы и т.п.): ${state.skipped}`)
+	}
+	lines.push(
+		`Счёт: ${target ? escapeHtml(target.name) : '—'}`,
+		'',
+		'Сделки станут обменами на этом счёте, ввод и вывод — переводами из «Вне Wallet» и обратно, комиссии — расходами. Уже импортированные операции будут пропущены.'
+	)
+	const kb = new InlineKeyboard()
+		.text(`Счёт: ${target?.name ?? 'выбрать'}`, 'exch_pick')
+		.row()
+		.text('✅ Импортировать', 'exch_import_run')
+		.text('Отмена', 'exch_import_cancel')
+	await editExchangeMessage(ctx, lines.join('\n'), kb)
+}
+
+/**
+ * Opens the import screen when an uploaded CSV is a Binance, Bybit or Kraken
+ * export; returns false for any other CSV so the generic import takes over.
+ */
+export async function startExchangeImport(
+	ctx: BotContext,
+	buffer: Buffer,
+	fileName: string,
+	importService: ImportService,
+	accountsService: AccountsService
+): Promise<boolean> {
+	const parsed = parseExchangeCsv(buffer)
+	if (!parsed) return false
+	const label = EXCHANGE_FORMAT_LABELS[parsed.format]
+	if (!parsed.operations.length) {
+		await ctx.reply(
+			`В файле ${label} нет сделок, ввода или вывода средств для импорта.`,
+			{ reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message') }
+		)
+		return true
+	}
+	if (parsed.operations.length > MAX_CSV_IMPORT_ROWS) {
+		await ctx.reply(
+			`В файле ${parsed.operations.length} операций. За один раз можно импортировать до ${MAX_CSV_IMPORT_ROWS} — выгрузите историю за меньший период.`,
+			{ reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message') }
+		)
+		return true
+	}
+	const user = ctx.state.user
+	let accountId = await importService.getAccountMapping(
+		user.id,
+		`exchange:${exchangeKey(parsed.format)}`
+	)
+	if (!accountId) {
+		const accounts = await accountsService.getAllByUserId(user.id)
+		accountId =
+			accounts.find(a => a.name.toLowerCase().includes(label.toLowerCase()))?.id ??
+			null
+	}
+	ctx.session.exchangeImport = {
+		fileName,
+		format: parsed.format,
+		operations: parsed.operations,
+		skipped: parsed.skipped,
+		accountId
+	}
+	await renderExchangeScreen(ctx, accountsService)
+	return true
+}
+
+export const importExchangeCallback = (
+	bot: Bot<BotContext>,
+	importService: ImportService,
+	accountsService: AccountsService,
+	subscriptionService: SubscriptionService,
+	analyticsService: AnalyticsService
+) => {
+	bot.callbackQuery('exch_pick', async ctx => {
+		const state = ctx.session.exchangeImport
+		if (!state) {
+			await ctx.answerCallbackQuery({ text: 'Импорт уже завершён' }).catch(() => {})
+			return
+		}
+		const accounts = await accountsService.getAllByUserId(ctx.state.user.id)
+		const kb = new InlineKeyboard()
+		for (const account of accounts.filter(a => a.name !== 'Вне Wallet')) {
+			const mark = account.id === state.accountId ? '✅ ' : ''
+			kb.text(`${mark}${account.name}`, `exch_account:${account.id}`).row()
+		}
+		kb.text('← Назад', 'exch_import_back')
+		await editExchangeMessage(
+			ctx,
+			`На какой счёт импортировать операции ${EXCHANGE_FORMAT_LABELS[state.format]}?`,
+			kb
+		)
+	})
+
+	bot.callbackQuery(/^exch_account:/, async ctx => {
+		const state = ctx.session.exchangeImport
+		if (!state) return
+		const id = ctx.callbackQuery.data.split(':')[1]
+		const account = await accountsService.getOneWithAssets(id, ctx.state.user.id)
+		if (account) state.accountId = account.id
+		await renderExchangeScreen(ctx, accountsService)
+	})
+
+	bot.callbackQuery('exch_import_back', async ctx => {
+		await renderExchangeScreen(ctx, accountsService)
+	})
+
+	bot.callbackQuery('exch_import_cancel', async ctx => {
+		const msgId = ctx.session.exchangeImport?.messageId
+		ctx.session.exchangeImport = undefined
+		if (msgId != null) {
+			try {
+				await ctx.api.deleteMessage(ctx.chat.id, msgId)
+			} catch {
+				// the screen may already be gone
+			}
+		}
+		await ctx.answerCallbackQuery({ text: 'Импорт отменён' }).catch(() => {})
+	})
+
+	bot.callbackQuery('exch_import_run', async ctx => {
+		const state = ctx.session.exchangeImport
+		const user = ctx.state.user
+		if (!state) {
+			await ctx.answerCallbackQuery({ text: 'Импорт уже завершён' }).catch(() => {})
+			return
+		}
+		const account = state.accountId
+			? await accountsService.getOneWithAssets(state.accountId, user.id)
+			: null
+		if (!account) {
+			await ctx
+				.answerCallbackQuery({ text: 'Выберите счёт для импорта' })
+				.catch(() => {})
+			return
+		}
+		const allAccounts = await accountsService.getAllByUserIdIncludingHidden(user.id)
+		const outside = allAccounts.find(a => a.name === 'Вне Wallet')
+		if (!outside) {
+			await ctx
+				.answerCallbackQuery({
+					text: 'Системный счёт "Вне Wallet" не найден'
+				})
+				.catch(() => {})
+			return
+		}
+		const exchange = exchangeKey(state.format)
+		const imported = await importService.findImportedOperationIds(
+			user.id,
+			exchange,
+			state.operations
+		)
+		const operations = state.operations.filter(op => !imported.has(op.externalId))
+		const skipped = state.operations.length - operations.length
+		if (!operations.length) {
+			ctx.session.exchangeImport = undefined
+			await editExchangeMessage(
+				ctx,
+				'Все операции из этого файла уже импортированы.',
+				new InlineKeyboard().text('Закрыть', 'hide_message')
+			)
+			return
+		}
+		if (!ctx.state.isPremium) {
+			const txLimit = await subscriptionService.canCreateTransaction(user.id)
+			if (txLimit.current + operations.length > txLimit.limit) {
+				await ctx.reply(
+					`💠 В файле ${operations.length} новых операций, а в Basic доступно ${Math.max(0, txLimit.limit - txLimit.current)} в этом месяце. Разблокируйте безлимит с тарифом Pro!`,
+					{
+						reply_markup: new InlineKeyboard()
+							.text('💠 Pro-тариф', 'view_premium')
+							.row()
+							.text('Закрыть', 'hide_message')
+					}
+				)
+				return
+			}
+		}
+		await ctx.answerCallbackQuery({ text: 'Импортирую…' }).catch(() => {})
+		let created: Array<ImportDraft & { id: string }>
+		try {
+			const drafts = await importService.buildExchangeDrafts({
+				userId: user.id,
+				accountId: account.id,
+				accountName: account.name,
+				outsideAccountId: outside.id,
+				exchange,
+				exchangeLabel: EXCHANGE_FORMAT_LABELS[state.format],
+				operations
+			})
+			created = await importService.createDrafts(user.id, drafts)
+		} catch (error: unknown) {
+			const message = error instanceof Error ? error.message : String(error)
+			await ctx.reply(`Не удалось импортировать операции: ${message}`, {
+				reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+			})
+			return
+		}
+		await importService.rememberAccountMapping(
+			user.id,
+			`exchange:${exchange}`,
+			account.id
+		)
+
+		const msgId = state.messageId
+		ctx.session.exchangeImport = undefined
+		if (msgId != null) {
+			try {
+				await ctx.api.deleteMessage(ctx.chat.id, msgId)
+			} catch {
+				// the screen may already be gone
+			}
+		}
+		const summary = [`📥 Импортировано операций: ${created.length}`]
+		if (skipped) summary.push(`Уже были импортированы: ${skipped}`)
+		await showImportedDrafts(ctx, {
+			drafts: created,
+			summary,
+			timezone: user.timezone ?? DEFAULT_TIMEZONE,
+			accountsService,
+			analyticsService
+		})
+	})
+}
@@ -0,0 +1,311 @@
+import { Bot, InlineKeyboard } from 'grammy'
+import type { Document } from 'grammy/types'
+import { BotContext } from '../core/bot.middleware'
+import { showImportedDrafts } from '../utils/show-imported-drafts'
+import { AccountsService } from '../../accounts/accounts.service'
+import { AnalyticsService } from '../../analytics/analytics.service'
+import { ImportService, type ImportDraft } from '../../import/import.service'
+import { SubscriptionService } from '../../subscription/subscription.service'
+import { decodeCsvBuffer } from '../../import/csv-import.utils'
+import {
+	detectStatementFormat,
+	isStatementFileName,
+	parseStatement,
+	STATEMENT_FORMAT_LABELS
+} from '../../import/statement-import.utils'
+import { DEFAULT_TIMEZONE } from '../../../utils/date'
+import { MAX_CSV_IMPORT_ROWS } from './import-csv.callback'
+import { escapeHtml } from '../../../utils/html'
+
+const STATEMENT_MIME_TYPES = [
+	'application/x-ofx',
+	'application/ofx',
+	'application/qif',
+	'application/x-qif'
+]
+
+export function isStatementDocument(doc: Document): boolean {
+	return (
+		isStatementFileName(doc.file_name ?? '') ||
+		STATEMENT_MIME_TYPES.includes(doc.mime_type ?? '')
+	)
+}
+
+async function editStatementMessage(
+	ctx: BotContext,
+	text: string,
+	kb: InlineKeyboard
+): Promise<void> {
+	const state = ctx.session.statementImport
+	const msgId = ctx.callbackQuery?.message?.message_id ?? state?.messageId
+	if (msgId != null) {
+		try {
+			await ctx.api.editMessageText(ctx.chat.id, msgId, text, {
+				parse_mode: 'HTML',
+				reply_markup: kb
+			})
+			return
+		} catch {
+			// unchanged markup or the message is gone; send a fresh one below
+		}
+	}
+	const msg = await ctx.reply(text, { parse_mode: 'HTML', reply_markup: kb })
+	if (state) state.messageId = msg.message_id
+}
+
+async function renderStatementScreen(
+	ctx: BotContext,
+	accountsService: AccountsService
+): Promise<void> {
+	const state = ctx.session.statementImport
+	if (!state) return
+	const accounts = await accountsService.getAllByUserId(ctx.state.user.id)
+	const lines = [
+		`<b>📥 Импорт ${STATEMENT_FORMAT_LABELS[state.format]}</b>`,
+		`Файл: ${escapeHtml(state.fileName)}`,
+		'',
+		'<b>Счета в выписке</b>'
+	]
+	const kb = new InlineKeyboard()
+	state.accounts.forEach((bankAccount, index) => {
+		const target = accounts.find(a => a.id === state.accountIds[index])
+		const currency = bankAccount.currency ? ` · ${bankAccount.currency}` : ''
+		lines.push(
+			`${escapeHtml(bankAccount.label)}${currency} · ${bankAccount.entries.length} опер. → ${
+				target ? escapeHtml(target.name) : '—'
+			}`
+		)
+		kb.text(
+			`${bankAccount.label} → ${target?.name ?? 'выбрать счёт'}`,
+			`stmt_pick:${index}`
+		).row()
+	})
+	lines.push(
+		'',
+		'Уже импортированные операции будут пропущены. Категории подберутся по вашим прошлым исправлениям.'
+	)
+	kb.text('✅ Импортировать', 'stmt_import_run').text('Отмена', 'stmt_import_cancel')
+	await editStatementMessage(ctx, lines.join('\n'), kb)
+}
+
+/** Parses an uploaded OFX, QIF or CAMT.053 file and opens the account mapping screen. */
+export async function startStatementImport(
+	ctx: BotContext,
+	buffer: Buffer,
+	fileName: string,
+	importService: ImportService,
+	accountsService: AccountsService
+): Promise<boolean> {
+	const { text } = decodeCsvBuffer(buffer)
+	const format = detectStatementFormat(text)
+	if (!format) return false
+	const { accounts } = parseStatement(text, format)
+	const total = accounts.reduce((sum, a) => sum + a.entries.length, 0)
+	if (!total) {
+		await ctx.reply(
+			`В выписке ${STATEMENT_FORMAT_LABELS[format]} не найдено проведённых операций.`,
+			{ reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message') }
+		)
+		return true
+	}
+	if (total > MAX_CSV_IMPORT_ROWS) {
+		await ctx.reply(
+			`В выписке ${total} операций. За один раз можно импортировать до ${MAX_CSV_IMPORT_ROWS} — выгрузите выписку за меньший период.`,
+			{ reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message') }
+		)
+		return true
+	}
+	const user = ctx.state.user
+	const fallback =
+		accounts.length === 1
+			? (user.defaultAccountId ?? ctx.state.activeAccount?.id ?? null)
+			: null
+	const accountIds = await Promise.all(
+		accounts.map(
+			async a =>
+				(await importService.getAccountMapping(user.id, a.accountKey)) ?? fallback
+		)
+	)
+	ctx.session.statementImport = { fileName, format, accounts, accountIds }
+	await renderStatementScreen(ctx, accountsService)
+	return true
+}
+
+export const importStatementCallback = (
+	bot: Bot<BotContext>,
+	importService: ImportService,
+	accountsService: AccountsService,
+	subscriptionService: SubscriptionService,
+	analyticsService: AnalyticsService
+) => {
+	bot.callbackQuery(/^stmt_pick:/, async ctx => {
+		const state = ctx.session.statementImport
+		const index = Number(ctx.callbackQuery.data.split(':')[1])
+		const bankAccount = state?.accounts[index]
+		if (!state || !bankAccount) {
+			await ctx.answerCallbackQuery({ text: 'Импорт уже завершён' }).catch(() => {})
+			return
+		}
+		const accounts = await accountsService.getAllByUserId(ctx.state.user.id)
+		const kb = new InlineKeyboard()
+		for (const account of accounts.filter(a => a.name !== 'Вне Wallet')) {
+			const mark = account.id === state.accountIds[index] ? '✅ ' : ''
+			kb.text(`${mark}${account.name}`, `stmt_account:${index}:${account.id}`).row()
+		}
+		kb.text('← Назад', 'stmt_import_back')
+		await editStatementMessage(
+			ctx,
+			`На какой счёт импортировать операции ${escapeHtml(bankAccount.label)}?`,
+			kb
+		)
+	})
+
+	bot.callbackQuery(/^stmt_account:/, async ctx => {
+		const state = ctx.session.statementImport
+		if (!state) return
+		const [, rawIndex, id] = ctx.callbackQuery.data.split(':')
+		const index = Number(rawIndex)
+		const account = await accountsService.getOneWithAssets(id, ctx.state.user.id)
+		if (account && state.accounts[index]) state.accountIds[index] = account.id
+		await renderStatementScreen(ctx, accountsService)
+	})
+
+	bot.callbackQuery('stmt_import_back', async ctx => {
+		await renderStatementScreen(ctx, accountsService)
+	})
+
+	bot.callbackQuery('stmt_import_cancel', async ctx => {
+		const msgId = ctx.session.statementImport?.messageId
+		ctx.session.statementImport = undefined
+		if (msgId != null) {
+			try {
+				await ctx.api.deleteMessage(ctx.chat.id, msgId)
+			} catch {
+				// the screen may already be gone
+			}
+		}
+		await ctx.answerCallbackQuery({ text: 'Импорт отменён' }).catch(() => {})
+	})
+
+	bot.callbackQuery('stmt_import_run', async ctx => {
+		const state = ctx.session.statementImport
+		const user = ctx.state.user
+		if (!state) {
+			await ctx.answerCallbackQuery({ text: 'Импорт уже завершён' }).catch(() => {})
+			return
+		}
+		if (state.accountIds.some(id => !id)) {
+			await ctx
+				.answerCallbackQuery({
+					text: 'Выберите счёт для каждого счёта выписки'
+				})
+				.catch(() => {})
+			return
+		}
+		const timezone = user.timezone ?? DEFAULT_TIMEZONE
+		const pending: Array<{
+			accountKey: string
+			account: NonNullable<Awaited<ReturnType<AccountsService['getOneWithAssets']>>>
+			entries: (typeof state.accounts)[number]['entries']
+		}> = []
+		let skipped = 0
+		for (const [index, bankAccount] of state.accounts.entries()) {
+			const account = await accountsService.getOneWithAssets(
+				state.accountIds[index]!,
+				user.id
+			)
+			if (!account) {
+				await ctx
+					.answerCallbackQuery({ text: 'Счёт не найден, выберите другой' })
+					.catch(() => {})
+				return
+			}
+			const imported = await importService.findImportedEntryIds(
+				user.id,
+				bankAccount.accountKey,
+				bankAccount.entries
+			)
+			const entries = bankAccount.entries.filter(e => !imported.has(e.externalId))
+			skipped += bankAccount.entries.length - entries.length
+			if (entries.length) {
+				pending.push({ accountKey: bankAccount.accountKey, account, entries })
+			}
+		}
+		const fresh = pending.reduce((sum, p) => sum + p.entries.length, 0)
+		if (!fresh) {
+			ctx.session.statementImport = undefined
+			await editStatementMessage(
+				ctx,
+				'Все операции из этой выписки уже импортированы.',
+				new InlineKeyboard().text('Закрыть', 'hide_message')
+			)
+			return
+		}
+		if (!ctx.state.isPremium) {
+			const txLimit = await subscriptionService.canCreateTransaction(user.id)
+			if (txLimit.current + fresh > txLimit.limit) {
+				await ctx.reply(
+					`💠 В выписке ${fresh} новых операций, а в Basic доступно ${Math.max(0, txLimit.limit - txLimit.current)} в этом месяце. Разблокируйте безлимит с тарифом Pro!`,
+					{
+						reply_markup: new InlineKeyboard()
+							.text('💠 Pro-тариф', 'view_premium')
+							.row()
+							.text('Закрыть', 'hide_message')
+					}
+				)
+				return
+			}
+		}
+		await ctx.answerCallbackQuery({ text: 'Импортирую…' }).catch(() => {})
+		let created: Array<ImportDraft & { id: string }>
+		try {
+			const drafts: ImportDraft[] = []
+			for (const item of pending) {
+				drafts.push(
+					...(await importService.buildStatementDrafts({
+						userId: user.id,
+						accountId: item.account.id,
+						accountName: item.account.name,
+						accountKey: item.accountKey,
+						currency: item.account.currency,
+						timezone,
+						entries: item.entries
+					}))
+				)
+			}
+			created = await importService.createDrafts(user.id, drafts)
+		} catch (error: unknown) {
+			const message = error instanceof Error ? error.message : String(error)
+			await ctx.reply(`Не удалось импортировать операции: ${message}`, {
+				reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+			})
+			return
+		}
+		for (const [index, bankAccount] of state.accounts.entries()) {
+			await importService.rememberAccountMapping(
+				user.id,
+				bankAccount.accountKey,
+				state.accountIds[index]!
+			)
+		}
+
+		const msgId = state.messageId
+		ctx.session.statementImport = undefined
+		if (msgId != null) {
+			try {
+				await ctx.api.deleteMessage(ctx.chat.id, msgId)
+			} catch {
+				// the screen may already be gone
+			}
+		}
+		const summary = [`📥 Импортировано операций: ${created.length}`]
+		if (skipped) summary.push(`Уже были импортированы: ${skipped}`)
+		await showImportedDrafts(ctx, {
+			drafts: created,
+			summary,
+			timezone,
+			accountsService,
+			analyticsService
+		})
+	})
+}
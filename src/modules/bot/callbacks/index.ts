@@ -32,5 +32,18 @@ export * from './analytics-filter.callback'
 export * from './analytics-saved.callback'
 export * from './analytics-chart.callback'
 export * from './analytics-export.callback'
+export * from './analytics-net-worth.callback'
+export * from './analytics-compare.callback'
+export * from './analytics-forecast.callback'
+export * from './analytics-anomalies.callback'
+export * from './transactions-export.callback'
 export * from './analytics-alerts.callback'
+export * from './budgets.callback'
+export * from './recurring.callback'
+export * from './import-csv.callback'
+export * from './import-statement.callback'
+export * from './import-exchange.callback'
+export * from './import-app.callback'
+export * from './backup.callback'
+export * from './transaction-attachments.callback'
 export * from './premium.callback'
@@ -0,0 +1,533 @@
+import { Bot, InlineKeyboard } from 'grammy'
+import { BotContext } from '../core/bot.middleware'
+import { activateInputMode, resetInputModes } from '../core/input-mode'
+import {
+	RecurringService,
+	type SubscriptionCandidate
+} from '../../recurring/recurring.service'
+import { type DetectedFrequency } from '../../recurring/recurring-detect.utils'
+import {
+	describeSchedule,
+	isValidCronExpression,
+	type RecurringFrequency
+} from '../../recurring/recurring.utils'
+import { parseAlertThreshold } from '../../alerts/alerts.utils'
+import { formatAmount } from '../../../utils/format'
+import { formatTransactionDate } from '../../../utils/date'
+import { escapeHtml } from '../../../utils/html'
+
+type RecurringEdit = NonNullable<BotContext['session']['recurringEdit']>
+
+const FREQUENCY_LABELS: Record<Exclude<RecurringFrequency, 'cron'>, string> = {
+	daily: 'Каждый день',
+	weekly: 'Каждую неделю',
+	monthly: 'Каждый месяц',
+	yearly: 'Каждый год'
+}
+
+const DETECTED_FREQUENCY_LABELS: Record<DetectedFrequency, string> = {
+	weekly: 'раз в неделю',
+	monthly: 'раз в месяц',
+	quarterly: 'раз в квартал',
+	yearly: 'раз в год'
+}
+
+/** Series listed on the subscriptions screen. */
+const MAX_SUBSCRIPTIONS = 15
+
+async function editRecurringMessage(
+	ctx: BotContext,
+	text: string,
+	keyboard: InlineKeyboard
+): Promise<void> {
+	const msgId = ctx.callbackQuery?.message?.message_id ?? ctx.session.recurringMessageId
+	if (msgId != null) {
+		ctx.session.recurringMessageId = msgId
+		try {
+			await ctx.api.editMessageText(ctx.chat.id, msgId, text, {
+				parse_mode: 'HTML',
+				reply_markup: keyboard
+			})
+			return
+		} catch (error: unknown) {
+			if (String((error as Error)?.message ?? '').includes('not modified')) return
+		}
+	}
+	const msg = await ctx.reply(text, { parse_mode: 'HTML', reply_markup: keyboard })
+	ctx.session.recurringMessageId = msg.message_id
+}
+
+async function deleteRecurringHint(ctx: BotContext): Promise<void> {
+	if (ctx.session.recurringHintMessageId == null) return
+	try {
+		await ctx.api.deleteMessage(ctx.chat.id, ctx.session.recurringHintMessageId)
+	} catch {
+		// hint may already be closed by the user
+	}
+	ctx.session.recurringHintMessageId = undefined
+}
+
+function frequencyKeyboard(target: string, back: string): InlineKeyboard {
+	const kb = new InlineKeyboard()
+	const entries = Object.entries(FREQUENCY_LABELS)
+	entries.forEach(([frequency, label], i) => {
+		kb.text(label, `rec_freq_set:${target}:${frequency}`)
+		if (i % 2 === 1) kb.row()
+	})
+	return kb
+		.text('⚙️ Cron-выражение', `rec_freq_set:${target}:cron`)
+		.row()
+		.text('← Назад', back)
+}
+
+async function renderRecurringList(
+	ctx: BotContext,
+	recurringService: RecurringService
+): Promise<void> {
+	const user = ctx.state.user
+	const templates = await recurringService.list(user.id)
+	const kb = new InlineKeyboard()
+	for (const item of templates) {
+		kb.text(
+			`${item.paused ? '⏸ ' : ''}${item.description}`,
+			`rec_open:${item.id}`
+		).row()
+	}
+	kb.text('🔎 Найти подписки', 'rec_detect').row()
+	kb.text('← Назад', 'back_to_settings')
+	const lines = ['🔄 <b>Регулярные платежи</b>', '']
+	if (!templates.length) {
+		lines.push(
+			'Регулярных платежей пока нет. Откройте транзакцию из списка и нажмите «🔄 Сделать регулярной» — бот будет напоминать о ней по расписанию.'
+		)
+	} else {
+		for (const item of templates) {
+			const sign = item.direction === 'expense' ? '−' : '+'
+			const amount = formatAmount(
+				recurringService.templateAmount(item),
+				item.currency
+			)
+			const next = item.paused
+				? 'на паузе'
+				: `следующий: ${formatTransactionDate(item.nextRunAt, user.timezone)}`
+			lines.push(
+				`▸ <b>${escapeHtml(item.description)}</b> ${sign}${amount}\n${describeSchedule(item, user.timezone)}, ${next}`
+			)
+		}
+	}
+	await editRecurringMessage(ctx, lines.join('\n'), kb)
+}
+
+async function renderRecurringDetail(
+	ctx: BotContext,
+	recurringService: RecurringService,
+	recurringId: string
+): Promise<void> {
+	const user = ctx.state.user
+	const item = await recurringService.findOne(recurringId, user.id)
+	if (!item) {
+		await renderRecurringList(ctx, recurringService)
+		return
+	}
+	const sign = item.direction === 'expense' ? '−' : '+'
+	const lines = [
+		'🔄 <b>Регулярный платёж</b>',
+		'',
+		`Название: ${escapeHtml(item.description)}`,
+		`Сумма: ${sign}${formatAmount(recurringService.templateAmount(item), item.currency)}`,
+		`Счёт: ${escapeHtml(item.account.name)}`,
+		`Категория: ${escapeHtml(item.categoryRef?.name ?? item.category ?? '—')}`,
+		item.tag ? `Тег: ${escapeHtml(item.tag.name)}` : null,
+		`Периодичность: ${describeSchedule(item, user.timezone)}`,
+		item.paused
+			? 'Статус: на паузе'
+			: `Следующий платёж: ${formatTransactionDate(item.nextRunAt, user.timezone)}`
+	].filter(line => line != null)
+	const kb = new InlineKeyboard()
+		.text('✍️ Сумма', `rec_edit_amount:${item.id}`)
+		.text('✍️ Название', `rec_edit_desc:${item.id}`)
+		.row()
+		.text('📅 Периодичность', `rec_freq:${item.id}`)
+		.text(item.paused ? '▶️ Возобновить' : '⏸ Пауза', `rec_pause:${item.id}`)
+		.row()
+		.text('🗑 Удалить', `rec_delete:${item.id}`)
+		.row()
+		.text('← Назад', 'view_recurring')
+	await editRecurringMessage(ctx, lines.join('\n'), kb)
+}
+
+function subscriptionLines(
+	item: SubscriptionCandidate,
+	mainCurrency: string,
+	timezone: string
+): string[] {
+	const yearly =
+		item.yearlyCostMain != null
+			? formatAmount(item.yearlyCostMain, mainCurrency)
+			: formatAmount(item.yearlyCost, item.currency)
+	const lines = [
+		`▸ <b>${escapeHtml(item.name)}</b> −${formatAmount(item.amount, item.currency)} ${DETECTED_FREQUENCY_LABELS[item.frequency]}${item.recurringId ? ' · ✅ отслеживается' : ''}`,
+		`В год: ${yearly}, следующее списание: ${formatTransactionDate(item.nextExpected, timezone)}`
+	]
+	if (item.priceIncrease) {
+		lines.push(
+			`📈 Подорожание: ${formatAmount(item.priceIncrease.previous, item.currency)} → ${formatAmount(item.priceIncrease.current, item.currency)} (+${Math.round(item.priceIncrease.pct)}%)`
+		)
+	}
+	if (item.missed) {
+		lines.push('⚠️ Ожидаемое списание не пришло — возможно, подписка отменена')
+	}
+	if (item.extraCharges > 0) {
+		lines.push(
+			`❗ Внеплановых списаний: ${item.extraCharges} — проверьте, не было ли двойной оплаты`
+		)
+	}
+	return lines
+}
+
+async function renderSubscriptions(
+	ctx: BotContext,
+	recurringService: RecurringService
+): Promise<void> {
+	const user = ctx.state.user
+	const mainCurrency = user.mainCurrency ?? 'USD'
+	const found = (
+		await recurringService.detectSubscriptions(user.id, mainCurrency)
+	).slice(0, MAX_SUBSCRIPTIONS)
+	const kb = new InlineKeyboard()
+	for (const item of found) {
+		if (item.recurringId) {
+			kb.text(`🔄 ${item.name}`, `rec_open:${item.recurringId}`).row()
+		} else {
+			kb.text(`➕ Отслеживать: ${item.name}`, `rec_track:${item.id}`).row()
+		}
+	}
+	kb.text('← Назад', 'view_recurring')
+	const lines = ['🔎 <b>Найденные подписки</b>', '']
+	if (!found.length) {
+		lines.push(
+			'Повторяющихся списаний не найдено. Подписка появится здесь, когда в истории будет хотя бы три похожих расхода с одинаковым интервалом.'
+		)
+	} else {
+		const total = found.reduce((sum, item) => sum + (item.yearlyCostMain ?? 0), 0)
+		for (const item of found) {
+			lines.push(...subscriptionLines(item, mainCurrency, user.timezone), '')
+		}
+		lines.push(
+			`Итого в год: ${formatAmount(total, mainCurrency)}`,
+			'',
+			'<i>Найдено по похожим суммам и описаниям за последний год. «Отслеживать» превращает серию в регулярный платёж с напоминаниями.</i>'
+		)
+	}
+	await editRecurringMessage(ctx, lines.join('\n'), kb)
+}
+
+async function askRecurringInput(
+	ctx: BotContext,
+	edit: RecurringEdit,
+	prompt: string
+): Promise<void> {
+	await deleteRecurringHint(ctx)
+	const hint = await ctx.reply(prompt, {
+		parse_mode: 'HTML',
+		reply_markup: new InlineKeyboard().text('Закрыть', 'rec_close_hint')
+	})
+	activateInputMode(ctx, 'recurring_edit', {
+		recurringEdit: edit,
+		recurringHintMessageId: hint.message_id
+	})
+}
+
+async function applySchedule(
+	ctx: BotContext,
+	recurringService: RecurringService,
+	target: { recurringId?: string; transactionId?: string },
+	frequency: RecurringFrequency,
+	cron?: string
+): Promise<void> {
+	const user = ctx.state.user
+	const schedule = { frequency, cron: cron ?? null }
+	if (target.recurringId) {
+		await recurringService.updateSchedule(
+			target.recurringId,
+			user.id,
+			schedule,
+			user.timezone
+		)
+		await renderRecurringDetail(ctx, recurringService, target.recurringId)
+		return
+	}
+	if (!target.transactionId) return
+	const created = await recurringService.createFromTransaction(
+		user.id,
+		target.transactionId,
+		schedule,
+		user.timezone
+	)
+	if (!created) {
+		await editRecurringMessage(
+			ctx,
+			'Сделать регулярными можно только доходы и расходы.',
+			new InlineKeyboard().text('Закрыть', 'hide_message')
+		)
+		return
+	}
+	await renderRecurringDetail(ctx, recurringService, created.id)
+}
+
+/** Handles text typed while in `recurring_edit` mode. */
+export async function handleRecurringInput(
+	ctx: BotContext,
+	text: string,
+	recurringService: RecurringService
+): Promise<void> {
+	const edit = ctx.session.recurringEdit
+	if (!edit) {
+		resetInputModes(ctx)
+		return
+	}
+	const value = text.trim()
+	let amount: number | null = null
+	if (edit.field === 'amount') {
+		amount = parseAlertThreshold(value)
+		if (amount == null) {
+			await ctx.reply('Не удалось распознать сумму, попробуйте ещё раз.', {
+				reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+			})
+			return
+		}
+	}
+	if (edit.field === 'description' && (!value || value.length > 100)) {
+		await ctx.reply('Название должно быть от 1 до 100 символов.', {
+			reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+		})
+		return
+	}
+	if (edit.field === 'cron' && !isValidCronExpression(value)) {
+		await ctx.reply(
+			'Не удалось разобрать cron-выражение. Нужно 5 полей: минута, час, день, месяц, день недели.',
+			{ reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message') }
+		)
+		return
+	}
+	try {
+		await ctx.api.deleteMessage(ctx.chat.id, ctx.message!.message_id)
+	} catch {
+		// keep going even if the input message cannot be removed
+	}
+	await deleteRecurringHint(ctx)
+	resetInputModes(ctx)
+	ctx.session.recurringEdit = undefined
+	const userId = ctx.state.user.id
+	if (edit.field === 'cron') {
+		await applySchedule(ctx, recurringService, edit, 'cron', value)
+		return
+	}
+	if (!edit.recurringId) return
+	if (amount != null) {
+		await recurringService.updateAmount(edit.recurringId, userId, amount)
+	} else {
+		await recurringService.updateDescription(edit.recurringId, userId, value)
+	}
+	await renderRecurringDetail(ctx, recurringService, edit.recurringId)
+}
+
+export const recurringCallback = (
+	bot: Bot<BotContext>,
+	recurringService: RecurringService
+) => {
+	bot.callbackQuery('view_recurring', async ctx => {
+		await deleteRecurringHint(ctx)
+		ctx.session.recurringEdit = undefined
+		resetInputModes(ctx)
+		await renderRecurringList(ctx, recurringService)
+	})
+
+	bot.callbackQuery('rec_detect', async ctx => {
+		await renderSubscriptions(ctx, recurringService)
+	})
+
+	bot.callbackQuery(/^rec_track:/, async ctx => {
+		const seriesId = ctx.callbackQuery.data.replace('rec_track:', '')
+		const user = ctx.state.user
+		const created = await recurringService.trackSubscription(
+			user.id,
+			seriesId,
+			user.timezone
+		)
+		if (!created) {
+			// the series changed since the list was shown
+			await renderSubscriptions(ctx, recurringService)
+			return
+		}
+		await renderRecurringDetail(ctx, recurringService, created.id)
+	})
+
+	bot.callbackQuery('rec_close_hint', async ctx => {
+		await deleteRecurringHint(ctx)
+		ctx.session.recurringEdit = undefined
+		resetInputModes(ctx)
+	})
+
+	bot.callbackQuery('recurring_from_tx', async ctx => {
+		const transactionId = ctx.session.editingTransactionId
+		if (!transactionId) return
+		const msg = await ctx.reply('🔄 Как часто повторять эту транзакцию?', {
+			reply_markup: frequencyKeyboard('tx', 'hide_message')
+		})
+		ctx.session.recurringMessageId = msg.message_id
+		ctx.session.recurringEdit = { transactionId, field: 'cron' }
+	})
+
+	bot.callbackQuery(/^rec_open:/, async ctx => {
+		const recurringId = ctx.callbackQuery.data.replace('rec_open:', '')
+		await deleteRecurringHint(ctx)
+		ctx.session.recurringEdit = undefined
+		resetInputModes(ctx)
+		await renderRecurringDetail(ctx, recurringService, recurringId)
+	})
+
+	bot.callbackQuery(/^rec_freq:/, async ctx => {
+		const recurringId = ctx.callbackQuery.data.replace('rec_freq:', '')
+		await editRecurringMessage(
+			ctx,
+			'📅 Как часто повторять платёж?',
+			frequencyKeyboard(recurringId, `rec_open:${recurringId}`)
+		)
+	})
+
+	bot.callbackQuery(/^rec_freq_set:/, async ctx => {
+		const [target, frequency] = ctx.callbackQuery.data
+			.replace('rec_freq_set:', '')
+			.split(':')
+		const transactionId =
+			target === 'tx'
+				? (ctx.session.recurringEdit?.transactionId ??
+					ctx.session.editingTransactionId)
+				: undefined
+		const recurringId = target === 'tx' ? undefined : target
+		if (!transactionId && !recurringId) return
+		ctx.session.recurringMessageId = ctx.callbackQuery.message?.message_id
+		if (frequency === 'cron') {
+			await askRecurringInput(
+				ctx,
+				{ recurringId, transactionId, field: 'cron' },
+				'Введите cron-выражение в вашем часовом поясе, например <code>0 9 1 * *</code> — 1-го числа в 09:00.'
+			)
+			return
+		}
+		if (!(frequency in FREQUENCY_LABELS)) return
+		ctx.session.recurringEdit = undefined
+		await applySchedule(
+			ctx,
+			recurringService,
+			{ recurringId, transactionId },
+			frequency as RecurringFrequency
+		)
+	})
+
+	bot.callbackQuery(/^rec_edit_amount:/, async ctx => {
+		const recurringId = ctx.callbackQuery.data.replace('rec_edit_amount:', '')
+		const item = await recurringService.findOne(recurringId, ctx.state.user.id)
+		if (!item) return
+		ctx.session.recurringMessageId = ctx.callbackQuery.message?.message_id
+		await askRecurringInput(
+			ctx,
+			{ recurringId, field: 'amount' },
+			`Введите новую сумму в ${item.currency}.`
+		)
+	})
+
+	bot.callbackQuery(/^rec_edit_desc:/, async ctx => {
+		const recurringId = ctx.callbackQuery.data.replace('rec_edit_desc:', '')
+		const item = await recurringService.findOne(recurringId, ctx.state.user.id)
+		if (!item) return
+		ctx.session.recurringMessageId = ctx.callbackQuery.message?.message_id
+		await askRecurringInput(
+			ctx,
+			{ recurringId, field: 'description' },
+			'Введите новое название платежа.'
+		)
+	})
+
+	bot.callbackQuery(/^rec_pause:/, async ctx => {
+		const recurringId = ctx.callbackQuery.data.replace('rec_pause:', '')
+		const user = ctx.state.user
+		const item = await recurringService.findOne(recurringId, user.id)
+		if (!item) return
+		await recurringService.setPaused(
+			recurringId,
+			user.id,
+			!item.paused,
+			user.timezone
+		)
+		await renderRecurringDetail(ctx, recurringService, recurringId)
+	})
+
+	bot.callbackQuery(/^rec_delete:/, async ctx => {
+		const recurringId = ctx.callbackQuery.data.replace('rec_delete:', '')
+		const kb = new InlineKeyboard()
+			.text('✅ Подтвердить', `rec_delete_confirm:${recurringId}`)
+			.text('🔙 Вернуться', `rec_open:${recurringId}`)
+		await editRecurringMessage(
+			ctx,
+			'Удалить этот регулярный платёж? Уже добавленные транзакции останутся.\n\nВы уверены?',
+			kb
+		)
+	})
+
+	bot.callbackQuery(/^rec_delete_confirm:/, async ctx => {
+		const recurringId = ctx.callbackQuery.data.replace('rec_delete_confirm:', '')
+		await recurringService.delete(recurringId, ctx.state.user.id)
+		await renderRecurringList(ctx, recurringService)
+	})
+
+	bot.callbackQuery(/^rec_confirm:/, async ctx => {
+		const occurrenceId = ctx.callbackQuery.data.replace('rec_confirm:', '')
+		const message = ctx.callbackQuery.message
+		let result: string
+		try {
+			const tx = await recurringService.confirm(occurrenceId, ctx.state.user.id)
+			result = tx ? '✅ Транзакция добавлена.' : 'Этот платёж уже обработан.'
+		} catch {
+			// occurrence is back to pending, so the buttons stay usable
+			await ctx.reply('❌ Не удалось добавить транзакцию, попробуйте позже.', {
+				reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+			})
+			return
+		}
+		if (!message || !('text' in message)) {
+			await ctx.reply(result)
+			return
+		}
+		try {
+			await ctx.api.editMessageText(
+				ctx.chat.id,
+				message.message_id,
+				`${message.text}\n\n${result}`
+			)
+		} catch {
+			await ctx.reply(result)
+		}
+	})
+
+	bot.callbackQuery(/^rec_skip:/, async ctx => {
+		const occurrenceId = ctx.callbackQuery.data.replace('rec_skip:', '')
+		const message = ctx.callbackQuery.message
+		const skipped = await recurringService.skip(occurrenceId, ctx.state.user.id)
+		const result = skipped ? '⏭ Платёж пропущен.' : 'Этот платёж уже обработан.'
+		if (!message || !('text' in message)) {
+			await ctx.reply(result)
+			return
+		}
+		try {
+			await ctx.api.editMessageText(
+				ctx.chat.id,
+				message.message_id,
+				`${message.text}\n\n${result}`
+			)
+		} catch {
+			await ctx.reply(result)
+		}
+	})
+}
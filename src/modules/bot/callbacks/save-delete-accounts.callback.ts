@@ -114,7 +114,8 @@ export const saveDeleteAccountsCallback = (
 				analyticsService,
 				user.id,
 				(user as any).lastTipText,
-				ctx.session.accountsViewExpanded ?? false
+				ctx.session.accountsViewExpanded ?? false,
+				user.timezone
 			)
 		const extra = {
 			parse_mode: 'HTML' as const,
@@ -0,0 +1,133 @@
+import { Bot, InlineKeyboard } from 'grammy'
+import { BotContext } from '../core/bot.middleware'
+import { activateInputMode, resetInputModes } from '../core/input-mode'
+import {
+	MAX_TRANSACTION_ATTACHMENTS,
+	TransactionsService,
+	type TransactionAttachmentInput
+} from '../../transactions/transactions.service'
+
+/** Transaction from `tx_attachments:<id>`, falling back to the card being edited. */
+function transactionIdFrom(ctx: BotContext): string | undefined {
+	const data = ctx.callbackQuery?.data ?? ''
+	const id = data.includes(':') ? data.slice(data.indexOf(':') + 1) : ''
+	return id || ctx.session.editingTransactionId
+}
+
+async function deleteAttachHint(ctx: BotContext): Promise<void> {
+	const hintId = ctx.session.transactionAttach?.hintMessageId
+	ctx.session.transactionAttach = undefined
+	if (hintId == null) return
+	try {
+		await ctx.api.deleteMessage(ctx.chat.id, hintId)
+	} catch {
+		// the hint may already be gone
+	}
+}
+
+/** Handles a photo or document sent while in `transaction_attach` mode. */
+export async function handleTransactionAttachmentUpload(
+	ctx: BotContext,
+	file: TransactionAttachmentInput,
+	transactionsService: TransactionsService
+): Promise<void> {
+	const transactionId = ctx.session.transactionAttach?.transactionId
+	await deleteAttachHint(ctx)
+	resetInputModes(ctx)
+	if (!transactionId) return
+	const close = new InlineKeyboard().text('Закрыть', 'hide_message')
+	try {
+		const attachment = await transactionsService.addAttachment(
+			transactionId,
+			ctx.state.user.id,
+			file
+		)
+		if (!attachment) {
+			await ctx.reply('Операция не найдена — возможно, она уже удалена.', {
+				reply_markup: close
+			})
+			return
+		}
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : String(error)
+		await ctx.reply(`Не удалось прикрепить файл: ${message}.`, {
+			reply_markup: close
+		})
+		return
+	}
+	await ctx.reply('📎 Файл прикреплён к операции.', {
+		reply_markup: new InlineKeyboard()
+			.text('🧾 Показать вложения', `tx_attachments:${transactionId}`)
+			.row()
+			.text('Закрыть', 'hide_message')
+	})
+}
+
+export const transactionAttachmentsCallback = (
+	bot: Bot<BotContext>,
+	transactionsService: TransactionsService
+) => {
+	bot.callbackQuery(/^tx_attachments(:.+)?$/, async ctx => {
+		const transactionId = transactionIdFrom(ctx)
+		if (!transactionId) {
+			await ctx.answerCallbackQuery({ text: 'Операция не найдена' }).catch(() => {})
+			return
+		}
+		const attachments = await transactionsService.getAttachments(
+			transactionId,
+			ctx.state.user.id
+		)
+		const close = new InlineKeyboard().text('Закрыть', 'hide_message')
+		for (const attachment of attachments) {
+			try {
+				if (attachment.kind === 'photo') {
+					await ctx.replyWithPhoto(attachment.fileId, { reply_markup: close })
+				} else {
+					await ctx.replyWithDocument(attachment.fileId, {
+						reply_markup: close
+					})
+				}
+			} catch {
+				await ctx.reply(
+					`Telegram больше не отдаёт файл${attachment.fileName ? ` «${attachment.fileName}»` : ''}.`,
+					{ reply_markup: close }
+				)
+			}
+		}
+		const kb = new InlineKeyboard()
+		if (attachments.length < MAX_TRANSACTION_ATTACHMENTS) {
+			kb.text(
+				attachments.length ? '📎 Прикрепить ещё' : '📎 Прикрепить фото или файл',
+				`tx_attach_add:${transactionId}`
+			).row()
+		}
+		kb.text('Закрыть', 'hide_message')
+		await ctx.reply(
+			attachments.length
+				? `🧾 Вложений у операции: ${attachments.length}`
+				: 'У операции пока нет чеков и файлов.',
+			{ reply_markup: kb }
+		)
+	})
+
+	bot.callbackQuery(/^tx_attach_add(:.+)?$/, async ctx => {
+		const transactionId = transactionIdFrom(ctx)
+		if (!transactionId) {
+			await ctx.answerCallbackQuery({ text: 'Операция не найдена' }).catch(() => {})
+			return
+		}
+		activateInputMode(ctx, 'transaction_attach', {
+			transactionAttach: { transactionId }
+		})
+		const hint = await ctx.reply(
+			'Отправьте фото чека или файл (PDF, скан) — прикреплю его к операции.',
+			{ reply_markup: new InlineKeyboard().text('Отмена', 'tx_attach_cancel') }
+		)
+		ctx.session.transactionAttach = { transactionId, hintMessageId: hint.message_id }
+	})
+
+	bot.callbackQuery('tx_attach_cancel', async ctx => {
+		await deleteAttachHint(ctx)
+		resetInputModes(ctx)
+	})
+}
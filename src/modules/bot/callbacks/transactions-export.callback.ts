@@ -0,0 +1,423 @@
+import { Bot, InlineKeyboard, InputFile } from 'grammy'
+import { BotContext } from '../core/bot.middleware'
+import { activateInputMode, resetInputModes } from '../core/input-mode'
+import { PrismaService } from '../../prisma/prisma.service'
+import { AccountsService } from '../../accounts/accounts.service'
+import {
+	ANALYTICS_TRANSACTION_TYPES,
+	AnalyticsService,
+	type AnalyticsTransactionType
+} from '../../analytics/analytics.service'
+import {
+	analyticsPeriodLabel,
+	customRangePeriod,
+	type AnalyticsPeriod
+} from '../../analytics/analytics-period.utils'
+import { ExportService, type TransactionExportFilter } from '../../export/export.service'
+import {
+	parseExportCommand,
+	TRANSACTION_EXPORT_FORMATS,
+	type TransactionExportFormat
+} from '../../export/export.utils'
+import { SubscriptionService } from '../../subscription/subscription.service'
+import { DEFAULT_TIMEZONE, getZonedParts } from '../../../utils/date'
+import { ensureExportAllowed } from './analytics-export.callback'
+import { escapeHtml } from '../../../utils/html'
+
+const PERIOD_OPTIONS: Array<{ period: AnalyticsPeriod | null; label: string }> = [
+	{ period: null, label: 'Вся история' },
+	{ period: 'month', label: 'Этот месяц' },
+	{ period: 'last_month', label: 'Прошлый месяц' },
+	{ period: '3month', label: '3 месяца' },
+	{ period: 'ytd', label: 'С начала года' },
+	{ period: 'last_year', label: 'Прошлый год' }
+]
+
+const TYPE_LABELS: Record<AnalyticsTransactionType, string> = {
+	expense: 'расходы',
+	income: 'доходы',
+	transfer: 'переводы'
+}
+
+/** Buttons for the category and tag pickers. */
+const MAX_PICKER_ITEMS = 30
+const MAX_SEARCH_LENGTH = 100
+
+function matchByName<T extends { name: string }>(
+	items: T[],
+	name: string
+): T | undefined {
+	const needle = name.trim().toLowerCase()
+	return (
+		items.find(item => item.name.toLowerCase() === needle) ??
+		items.find(item => item.name.toLowerCase().includes(needle))
+	)
+}
+
+async function describeExportFilter(
+	ctx: BotContext,
+	filter: TransactionExportFilter,
+	analyticsService: AnalyticsService
+): Promise<string[]> {
+	const timezone = ctx.state.user?.timezone ?? DEFAULT_TIMEZONE
+	const lines = [
+		`Период: ${filter.period ? analyticsPeriodLabel(filter.period, timezone) : 'вся история'}`,
+		...(await analyticsService.describeFilters(ctx.state.user.id, filter))
+	]
+	if (filter.search) lines.push(`Поиск: «${filter.search}»`)
+	return lines
+}
+
+async function editExportMessage(
+	ctx: BotContext,
+	text: string,
+	kb: InlineKeyboard
+): Promise<void> {
+	const state = ctx.session.transactionsExport
+	const msgId = ctx.callbackQuery?.message?.message_id ?? state?.messageId
+	if (msgId != null) {
+		try {
+			await ctx.api.editMessageText(ctx.chat.id, msgId, text, {
+				parse_mode: 'HTML',
+				reply_markup: kb
+			})
+			if (state) state.messageId = msgId
+			return
+		} catch {
+			// unchanged markup or the message is gone; send a fresh one below
+		}
+	}
+	const msg = await ctx.reply(text, { parse_mode: 'HTML', reply_markup: kb })
+	if (state) state.messageId = msg.message_id
+}
+
+async function renderExportScreen(
+	ctx: BotContext,
+	analyticsService: AnalyticsService
+): Promise<void> {
+	const filter = (ctx.session.transactionsExport ??= { filter: {} }).filter
+	const lines = await describeExportFilter(ctx, filter, analyticsService)
+	const typeLabel = filter.type ? TYPE_LABELS[filter.type] : 'все'
+	const kb = new InlineKeyboard()
+		.text('Счёт', 'txexp_account')
+		.text('Категория', 'txexp_category')
+		.text('Тег', 'txexp_tag')
+		.row()
+		.text(`Тип: ${typeLabel}`, 'txexp_type')
+		.text('Период', 'txexp_period')
+		.text('🔍 Поиск', 'txexp_search')
+		.row()
+	if (lines.length > 1 || filter.period) {
+		kb.text('🧹 Сбросить фильтры', 'txexp_reset').row()
+	}
+	for (const format of TRANSACTION_EXPORT_FORMATS) {
+		kb.text(format.toUpperCase(), `txexp_run:${format}`)
+	}
+	kb.row().text('← Назад', 'back_to_transactions')
+	const text = [
+		'<b>📤 Экспорт операций</b>',
+		...lines.map(escapeHtml),
+		'',
+		'Выберите фильтры и формат файла. Большие выгрузки приходят несколькими файлами.',
+		'<i>Можно и командой: <code>/export xlsx счёт:Revolut тип:расход с:01.01.2026 по:31.03.2026 кофе</code></i>'
+	].join('\n')
+	await editExportMessage(ctx, text, kb)
+}
+
+async function runExport(
+	ctx: BotContext,
+	filter: TransactionExportFilter,
+	format: TransactionExportFormat,
+	exportService: ExportService,
+	analyticsService: AnalyticsService
+): Promise<void> {
+	const caption = `📤 ${(await describeExportFilter(ctx, filter, analyticsService)).join(' · ')}`
+	let count: number
+	try {
+		count = await exportService.exportTransactions(
+			ctx.state.user.id,
+			filter,
+			format,
+			async file => {
+				await ctx.replyWithDocument(new InputFile(file.buffer, file.fileName), {
+					caption: caption.slice(0, 1024)
+				})
+			}
+		)
+	} catch (error: unknown) {
+		const message = error instanceof Error ? error.message : String(error)
+		await ctx.reply(`Не удалось выгрузить операции: ${message}`, {
+			reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+		})
+		return
+	}
+	if (!count) {
+		await ctx.reply('Нет операций по этому фильтру.', {
+			reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+		})
+	}
+}
+
+/** Turns `/export` arguments into a filter, or explains what could not be matched. */
+async function filterFromCommand(
+	ctx: BotContext,
+	args: string,
+	prisma: PrismaService,
+	accountsService: AccountsService
+): Promise<
+	| { filter: TransactionExportFilter; format: TransactionExportFormat }
+	| { error: string }
+> {
+	const parsed = parseExportCommand(args)
+	if ('error' in parsed) return parsed
+	const userId = ctx.state.user.id
+	const filter: TransactionExportFilter = {}
+	if (parsed.account) {
+		const accounts = await accountsService.getAllByUserId(userId)
+		const account = matchByName(accounts, parsed.account)
+		if (!account) return { error: `Счёт «${parsed.account}» не найден.` }
+		filter.accountId = account.id
+	}
+	if (parsed.category) {
+		const categories = await prisma.category.findMany({
+			where: { userId },
+			select: { id: true, name: true }
+		})
+		const category = matchByName(categories, parsed.category)
+		if (!category) return { error: `Категория «${parsed.category}» не найдена.` }
+		filter.categoryIds = [category.id]
+	}
+	if (parsed.tag) {
+		const tags = await prisma.tag.findMany({
+			where: { userId },
+			select: { id: true, name: true }
+		})
+		const tag = matchByName(tags, parsed.tag)
+		if (!tag) return { error: `Тег «${parsed.tag}» не найден.` }
+		filter.tagIds = [tag.id]
+	}
+	if (parsed.type) filter.type = parsed.type
+	if (parsed.from || parsed.to) {
+		const today = getZonedParts(
+			new Date(),
+			ctx.state.user.timezone ?? DEFAULT_TIMEZONE
+		)
+		filter.period = customRangePeriod(
+			parsed.from ?? { year: 1970, month: 0, day: 1 },
+			parsed.to ?? { year: today.year, month: today.month, day: today.day }
+		)
+	}
+	if (parsed.search) filter.search = parsed.search.slice(0, MAX_SEARCH_LENGTH)
+	return { filter, format: parsed.format }
+}
+
+/** Handles text typed while in `transactions_export_search` mode. */
+export async function handleTransactionsExportSearchInput(
+	ctx: BotContext,
+	text: string,
+	analyticsService: AnalyticsService
+): Promise<void> {
+	const state = ctx.session.transactionsExport
+	resetInputModes(ctx)
+	if (!state) return
+	const search = text.trim().slice(0, MAX_SEARCH_LENGTH)
+	state.filter.search = search || undefined
+	const hintId = state.hintMessageId
+	state.hintMessageId = undefined
+	for (const id of [ctx.message?.message_id, hintId]) {
+		if (id == null) continue
+		try {
+			await ctx.api.deleteMessage(ctx.chat.id, id)
+		} catch {
+			// keep going even if a message cannot be removed
+		}
+	}
+	await renderExportScreen(ctx, analyticsService)
+}
+
+export const transactionsExportCallback = (
+	bot: Bot<BotContext>,
+	prisma: PrismaService,
+	accountsService: AccountsService,
+	subscriptionService: SubscriptionService,
+	analyticsService: AnalyticsService,
+	exportService: ExportService
+) => {
+	bot.command('export', async ctx => {
+		const args = typeof ctx.match === 'string' ? ctx.match.trim() : ''
+		if (!args) {
+			ctx.session.transactionsExport = { filter: {} }
+			await renderExportScreen(ctx, analyticsService)
+			return
+		}
+		if (!(await ensureExportAllowed(ctx, subscriptionService))) return
+		const result = await filterFromCommand(ctx, args, prisma, accountsService)
+		if ('error' in result) {
+			await ctx.reply(result.error, {
+				reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message')
+			})
+			return
+		}
+		await runExport(
+			ctx,
+			result.filter,
+			result.format,
+			exportService,
+			analyticsService
+		)
+	})
+
+	bot.callbackQuery('transactions_export_open', async ctx => {
+		ctx.session.transactionsExport = { filter: {} }
+		await renderExportScreen(ctx, analyticsService)
+	})
+
+	bot.callbackQuery('txexp_back', async ctx => {
+		await renderExportScreen(ctx, analyticsService)
+	})
+
+	bot.callbackQuery('txexp_account', async ctx => {
+		const filter = ctx.session.transactionsExport?.filter
+		const accounts = await accountsService.getAllByUserId(ctx.state.user.id)
+		const kb = new InlineKeyboard()
+			.text(filter?.accountId ? 'Все счета' : '✅ Все счета', 'txexp_account:all')
+			.row()
+		for (const account of accounts.filter(a => a.name !== 'Вне Wallet')) {
+			const mark = account.id === filter?.accountId ? '✅ ' : ''
+			kb.text(`${mark}${account.name}`, `txexp_account:${account.id}`).row()
+		}
+		kb.text('← Назад', 'txexp_back')
+		await editExportMessage(ctx, 'Операции какого счёта выгрузить?', kb)
+	})
+
+	bot.callbackQuery(/^txexp_account:/, async ctx => {
+		const state = (ctx.session.transactionsExport ??= { filter: {} })
+		const id = ctx.callbackQuery.data.split(':')[1]
+		state.filter.accountId = id === 'all' ? undefined : id
+		await renderExportScreen(ctx, analyticsService)
+	})
+
+	bot.callbackQuery('txexp_category', async ctx => {
+		const selected = ctx.session.transactionsExport?.filter.categoryIds?.[0]
+		const categories = await prisma.category.findMany({
+			where: { userId: ctx.state.user.id },
+			select: { id: true, name: true },
+			orderBy: { name: 'asc' },
+			take: MAX_PICKER_ITEMS
+		})
+		const kb = new InlineKeyboard()
+			.text(selected ? 'Все категории' : '✅ Все категории', 'txexp_category:all')
+			.row()
+		categories.forEach((category, index) => {
+			const mark = category.id === selected ? '✅ ' : ''
+			kb.text(`${mark}${category.name}`, `txexp_category:${category.id}`)
+			if (index % 2 === 1) kb.row()
+		})
+		kb.row().text('← Назад', 'txexp_back')
+		await editExportMessage(ctx, 'Операции какой категории выгрузить?', kb)
+	})
+
+	bot.callbackQuery(/^txexp_category:/, async ctx => {
+		const state = (ctx.session.transactionsExport ??= { filter: {} })
+		const id = ctx.callbackQuery.data.split(':')[1]
+		state.filter.categoryIds = id === 'all' ? undefined : [id]
+		await renderExportScreen(ctx, analyticsService)
+	})
+
+	bot.callbackQuery('txexp_tag', async ctx => {
+		const selected = ctx.session.transactionsExport?.filter.tagIds?.[0]
+		const tags = await prisma.tag.findMany({
+			where: { userId: ctx.state.user.id },
+			select: { id: true, name: true },
+			orderBy: { usageCount: 'desc' },
+			take: MAX_PICKER_ITEMS
+		})
+		const kb = new InlineKeyboard()
+			.text(selected ? 'Все теги' : '✅ Все теги', 'txexp_tag:all')
+			.row()
+		tags.forEach((tag, index) => {
+			const mark = tag.id === selected ? '✅ ' : ''
+			kb.text(`${mark}${tag.name}`, `txexp_tag:${tag.id}`)
+			if (index % 2 === 1) kb.row()
+		})
+		kb.row().text('← Назад', 'txexp_back')
+		await editExportMessage(ctx, 'Операции с каким тегом выгрузить?', kb)
+	})
+
+	bot.callbackQuery(/^txexp_tag:/, async ctx => {
+		const state = (ctx.session.transactionsExport ??= { filter: {} })
+		const id = ctx.callbackQuery.data.split(':')[1]
+		state.filter.tagIds = id === 'all' ? undefined : [id]
+		await renderExportScreen(ctx, analyticsService)
+	})
+
+	bot.callbackQuery('txexp_type', async ctx => {
+		const state = (ctx.session.transactionsExport ??= { filter: {} })
+		const cycle: Array<AnalyticsTransactionType | undefined> = [
+			undefined,
+			...ANALYTICS_TRANSACTION_TYPES
+		]
+		state.filter.type = cycle[(cycle.indexOf(state.filter.type) + 1) % cycle.length]
+		await renderExportScreen(ctx, analyticsService)
+	})
+
+	bot.callbackQuery('txexp_period', async ctx => {
+		const current = ctx.session.transactionsExport?.filter.period ?? null
+		const kb = new InlineKeyboard()
+		PERIOD_OPTIONS.forEach((option, index) => {
+			const mark = option.period === current ? '✅ ' : ''
+			kb.text(`${mark}${option.label}`, `txexp_period:${option.period ?? 'all'}`)
+			if (index % 2 === 1) kb.row()
+		})
+		kb.row().text('← Назад', 'txexp_back')
+		await editExportMessage(
+			ctx,
+			'За какой период выгрузить операции?\n<i>Произвольные даты задаются командой: <code>/export с:01.01.2026 по:31.03.2026</code></i>',
+			kb
+		)
+	})
+
+	bot.callbackQuery(/^txexp_period:/, async ctx => {
+		const state = (ctx.session.transactionsExport ??= { filter: {} })
+		const value = ctx.callbackQuery.data.split(':')[1]
+		const option = PERIOD_OPTIONS.find(o => (o.period ?? 'all') === value)
+		state.filter.period = option?.period ?? undefined
+		await renderExportScreen(ctx, analyticsService)
+	})
+
+	bot.callbackQuery('txexp_search', async ctx => {
+		const state = (ctx.session.transactionsExport ??= { filter: {} })
+		activateInputMode(ctx, 'transactions_export_search')
+		const hint = await ctx.reply(
+			'Отправьте слово или фразу — выгружу операции, где они встречаются в описании, категории или теге.',
+			{ reply_markup: new InlineKeyboard().text('Отмена', 'txexp_search_cancel') }
+		)
+		state.hintMessageId = hint.message_id
+	})
+
+	bot.callbackQuery('txexp_search_cancel', async ctx => {
+		resetInputModes(ctx)
+		const state = ctx.session.transactionsExport
+		if (state) state.hintMessageId = undefined
+		try {
+			await ctx.deleteMessage()
+		} catch {
+			// the hint may already be gone
+		}
+	})
+
+	bot.callbackQuery('txexp_reset', async ctx => {
+		const state = (ctx.session.transactionsExport ??= { filter: {} })
+		state.filter = {}
+		await renderExportScreen(ctx, analyticsService)
+	})
+
+	bot.callbackQuery(/^txexp_run:/, async ctx => {
+		const format = ctx.callbackQuery.data.split(':')[1] as TransactionExportFormat
+		if (!TRANSACTION_EXPORT_FORMATS.includes(format)) return
+		if (!(await ensureExportAllowed(ctx, subscriptionService))) return
+		const filter = ctx.session.transactionsExport?.filter ?? {}
+		await ctx.answerCallbackQuery({ text: 'Готовлю файл…' }).catch(() => {})
+		await runExport(ctx, filter, format, exportService, analyticsService)
+	})
+}
@@ -8,7 +8,12 @@ import { transactionsListKeyboard } from '../../../shared/keyboards/transactions
 import { renderConfirmMessage } from '../elements/tx-confirm-msg'
 import { confirmKeyboard, getShowConversion } from './confirm-tx'
 import { getCurrencySymbol } from '../../../utils/format'
-import { normalizeTxDate } from '../../../utils/date'
+import {
+	DEFAULT_TIMEZONE,
+	getZonedParts,
+	normalizeTxDate,
+	startOfZonedMonth
+} from '../../../utils/date'
 
 const PAGE_SIZE = 9
 
@@ -23,10 +28,9 @@ async function renderTransactionsList(
 	const mainCurrency = (ctx.state.user as any)?.mainCurrency ?? 'USD'
 	const symbol = getCurrencySymbol(mainCurrency)
 	const skip = page * PAGE_SIZE
+	const timezone = (ctx.state.user as any)?.timezone ?? DEFAULT_TIMEZONE
 	const now = new Date()
-	const startOfMonth = new Date(
-		Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1, 0, 0, 0, 0)
-	)
+	const startOfMonth = startOfZonedMonth(now, timezone)
 	const monthWhere = { userId, transactionDate: { gte: startOfMonth } }
 	const [txs, totalCount, monthCount, monthExpense, monthIncome, monthTransfer] =
 		await Promise.all([
@@ -35,7 +39,12 @@ async function renderTransactionsList(
 				orderBy: { transactionDate: 'desc' },
 				skip,
 				take: PAGE_SIZE,
-				include: { account: { include: { assets: true } }, toAccount: true, tag: true }
+				include: {
+					account: { include: { assets: true } },
+					toAccount: true,
+					tag: true,
+					_count: { select: { attachments: true } }
+				}
 			}),
 			prisma.transaction.count({ where: { userId } }),
 			prisma.transaction.count({ where: monthWhere }),
@@ -50,10 +59,14 @@ async function renderTransactionsList(
 			})
 		])
 	const [cashflow, burnRate] = await Promise.all([
-		analyticsService.getCashflow(userId, 'month', mainCurrency),
-		analyticsService.getBurnRate(userId, 'month', mainCurrency)
+		analyticsService.getCashflow(userId, 'month', mainCurrency, undefined, timezone),
+		analyticsService.getBurnRate(userId, 'month', mainCurrency, undefined, timezone)
 	])
-	const monthName = new Date().toLocaleDateString('ru-RU', { month: 'long' })
+	const local = getZonedParts(now, timezone)
+	const monthName = new Date(Date.UTC(local.year, local.month, 15)).toLocaleDateString(
+		'ru-RU',
+		{ month: 'long', timeZone: 'UTC' }
+	)
 	const msgId = ctx.callbackQuery?.message?.message_id
 	if (msgId == null) return
 	const isPremium = !!ctx.state.isPremium
@@ -157,14 +170,19 @@ export const viewTransactionsCallback = (
 		const txId = ctx.callbackQuery.data.split(':')[1]
 		const tx = await prisma.transaction.findUnique({
 			where: { id: txId, userId: ctx.state.user.id },
-			include: { account: { include: { assets: true } }, tag: true, toAccount: true }
+			include: {
+				account: { include: { assets: true } },
+				tag: true,
+				toAccount: true,
+				_count: { select: { attachments: true } }
+			}
 		})
 		if (!tx) return
 		const msgId = ctx.callbackQuery?.message?.message_id
 		if (msgId == null) return
 			const draft = txToDraft(tx)
 			;(draft as any).userTimezone =
-				(ctx.state.user as any)?.timezone ?? 'UTC+02:00'
+				(ctx.state.user as any)?.timezone ?? DEFAULT_TIMEZONE
 			ctx.session.draftTransactions = [draft]
 		ctx.session.currentTransactionIndex = 0
 		ctx.session.editingTransactionId = txId
@@ -176,7 +194,7 @@ export const viewTransactionsCallback = (
 			ctx.state.user.id,
 			accountsService
 		)
-		const text = renderConfirmMessage(
+		let text = renderConfirmMessage(
 			draft,
 			0,
 			1,
@@ -184,6 +202,9 @@ export const viewTransactionsCallback = (
 			undefined,
 			'Детали транзакции'
 		)
+		if (tx._count.attachments) {
+			text += `\n\n📎 Вложений: ${tx._count.attachments}`
+		}
 		const kb = confirmKeyboard(
 			1,
 			0,
@@ -5,6 +5,29 @@ import { SubscriptionService } from '../../subscription/subscription.service'
 import { LlmTransaction } from '../../../modules/llm/schemas/transaction.schema'
 import { LlmAccount } from '../../../modules/llm/schemas/account.schema'
 import { Account, User } from '../../../generated/prisma/client'
+import { AlertPeriodEnum, AlertTypeEnum } from '../../../generated/prisma/enums'
+import type { AnalyticsPeriod } from '../../../modules/analytics/analytics-period.utils'
+import type { AnalyticsFilters } from '../../../modules/analytics/analytics.service'
+import type {
+	CsvColumnMapping,
+	CsvDateFormat,
+	CsvDecimalSeparator,
+	CsvDelimiter,
+	CsvEncoding
+} from '../../../modules/import/csv-import.utils'
+import type {
+	StatementAccount,
+	StatementFormat
+} from '../../../modules/import/statement-import.utils'
+import type {
+	ExchangeFormat,
+	ExchangeOperation
+} from '../../../modules/import/exchange-import.utils'
+import type {
+	AppImportEntry,
+	AppImportFormat
+} from '../../../modules/import/app-import.utils'
+import type { TransactionExportFilter } from '../../../modules/export/export.service'
 
 export interface BotState {
 	user: User & { accounts: Account[] }
@@ -26,6 +49,14 @@ export type InputMode =
 	| 'tags_jarvis_edit'
 	| 'main_currency_edit'
 	| 'timezone_edit'
+	| 'alert_threshold_edit'
+	| 'budget_limit_edit'
+	| 'recurring_edit'
+	| 'analytics_period_edit'
+	| 'analytics_view_rename'
+	| 'backup_restore'
+	| 'transactions_export_search'
+	| 'transaction_attach'
 	| 'delete_confirm'
 
 export type BotContext = Context & {
@@ -83,6 +114,90 @@ export type BotContext = Context & {
 			mainCurrencyErrorMessageIds?: number[]
 			timezoneHintMessageId?: number
 			timezoneErrorMessageIds?: number[]
+			alertsMessageId?: number
+			alertsHintMessageId?: number
+			alertDraft?: {
+				ruleId?: string
+				type: AlertTypeEnum
+				period?: AlertPeriodEnum
+				categoryId?: string | null
+				accountId?: string | null
+				currency?: string | null
+			}
+			budgetsMessageId?: number
+			budgetsHintMessageId?: number
+			budgetDraft?: {
+				budgetId?: string
+				categoryId: string | null
+			}
+			analyticsPeriod?: AnalyticsPeriod
+			analyticsPeriodHintMessageId?: number
+			analyticsFilter?: Omit<AnalyticsFilters, 'period'>
+			analyticsCategoriesPage?: number
+			analyticsCategoryDetailId?: string
+			analyticsCategoryDetailTitle?: string
+			analyticsCategoryDetailPage?: number
+			analyticsViewsHintMessageId?: number
+			analyticsViewRenameId?: string
+			csvImport?: {
+				fileName: string
+				encoding: CsvEncoding
+				delimiter: CsvDelimiter
+				hasHeader: boolean
+				header: string[]
+				rows: string[][]
+				mapping: CsvColumnMapping
+				dateFormat: CsvDateFormat | null
+				decimalSeparator: CsvDecimalSeparator
+				accountId: string | null
+				messageId?: number
+			}
+			statementImport?: {
+				fileName: string
+				format: StatementFormat
+				accounts: StatementAccount[]
+				/** CoinPilot account per statement account, same order as `accounts` */
+				accountIds: Array<string | null>
+				messageId?: number
+			}
+			exchangeImport?: {
+				fileName: string
+				format: ExchangeFormat
+				operations: ExchangeOperation[]
+				/** Rows that are not imported: staking, futures and the like */
+				skipped: number
+				accountId: string | null
+				messageId?: number
+			}
+			appImport?: {
+				fileName: string
+				format: AppImportFormat
+				entries: AppImportEntry[]
+				skipped: number
+				/** Source account names */
+				accounts: string[]
+				/** Our account per source account, same order; null is not imported */
+				accountIds: Array<string | null>
+				messageId?: number
+			}
+			transactionsExport?: {
+				filter: TransactionExportFilter
+				messageId?: number
+				/** Prompt shown while waiting for the search text */
+				hintMessageId?: number
+			}
+			transactionAttach?: {
+				transactionId: string
+				hintMessageId?: number
+			}
+			backupHintMessageId?: number
+			recurringMessageId?: number
+			recurringHintMessageId?: number
+			recurringEdit?: {
+				recurringId?: string
+				transactionId?: string
+				field: 'amount' | 'description' | 'cron'
+			}
 			awaitingInlineCategoryCreate?: boolean
 			awaitingInlineTagCreate?: boolean
 				inlineCreateHintMessageId?: number
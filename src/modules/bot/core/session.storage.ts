@@ -0,0 +1,88 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Cron } from '@nestjs/schedule'
+import type { StorageAdapter } from 'grammy'
+import { PrismaService } from '../../prisma/prisma.service'
+import type { Prisma } from '../../../generated/prisma/client'
+import type { BotContext } from './bot.middleware'
+
+type SessionData = BotContext['session']
+
+const DEFAULT_TTL_DAYS = 30
+const DAY_MS = 86_400_000
+
+/**
+ * grammY session storage backed by the `bot_sessions` table. Sessions are stored as
+ * JSON and expire after `BOT_SESSION_TTL_DAYS` of inactivity. The JSON read at the
+ * start of an update is remembered, so an update that leaves the session untouched
+ * does not hit the database again unless the expiry needs extending.
+ */
+@Injectable()
+export class PrismaSessionStorage implements StorageAdapter<SessionData> {
+	private readonly logger = new Logger(PrismaSessionStorage.name)
+	private readonly ttlMs: number
+	private readonly snapshots = new Map<string, { json: string; expiresAt: number }>()
+
+	constructor(
+		private readonly prisma: PrismaService,
+		config: ConfigService
+	) {
+		const days = Number(config.get<string>('BOT_SESSION_TTL_DAYS'))
+		this.ttlMs =
+			(Number.isFinite(days) && days > 0 ? days : DEFAULT_TTL_DAYS) * DAY_MS
+	}
+
+	async read(key: string): Promise<SessionData | undefined> {
+		const row = await this.prisma.botSession.findUnique({ where: { key } })
+		if (!row || row.expiresAt.getTime() <= Date.now()) {
+			this.snapshots.delete(key)
+			return undefined
+		}
+		this.snapshots.set(key, {
+			json: JSON.stringify(row.data),
+			expiresAt: row.expiresAt.getTime()
+		})
+		return row.data as unknown as SessionData
+	}
+
+	async write(key: string, value: SessionData): Promise<void> {
+		const json = JSON.stringify(value)
+		const snapshot = this.snapshots.get(key)
+		this.snapshots.delete(key)
+		const now = Date.now()
+		// an unchanged session is only rewritten once half of its TTL has passed
+		if (
+			snapshot &&
+			snapshot.json === json &&
+			snapshot.expiresAt - now > this.ttlMs / 2
+		) {
+			return
+		}
+		const data = JSON.parse(json) as Prisma.InputJsonValue
+		const expiresAt = new Date(now + this.ttlMs)
+		await this.prisma.botSession.upsert({
+			where: { key },
+			create: { key, data, expiresAt },
+			update: { data, expiresAt }
+		})
+	}
+
+	async delete(key: string): Promise<void> {
+		this.snapshots.delete(key)
+		await this.prisma.botSession.deleteMany({ where: { key } })
+	}
+
+	@Cron('30 3 * * *')
+	async purgeExpired() {
+		try {
+			const result = await this.prisma.botSession.deleteMany({
+				where: { expiresAt: { lte: new Date() } }
+			})
+			if (result.count) this.logger.log(`purged ${result.count} expired sessions`)
+		} catch (error: unknown) {
+			this.logger.warn(
+				`purgeExpired skipped for current tick: ${(error as Error)?.message ?? error}`
+			)
+		}
+	}
+}
@@ -4,6 +4,7 @@ import { PrismaService } from '../prisma/prisma.service'
 import { ExchangeService } from '../exchange/exchange.service'
 import { AnalyticsService } from '../analytics/analytics.service'
 import { LLMService } from '../llm/llm.service'
+import { DEFAULT_TIMEZONE, getZonedParts, startOfZonedMonth } from '../../utils/date'
 
 const BASIC_TX_LIMIT = 30
 
@@ -18,18 +19,23 @@ export class DailyTipCronService {
 		private readonly llm: LLMService
 	) {}
 
-	@Cron('0 0 * * *')
+	/** Runs hourly and refreshes the users whose local day has just started. */
+	@Cron('0 * * * *')
 	async refreshDailyTips() {
 		try {
+			const now = new Date()
 			const users = await this.prisma.user.findMany({
-				select: { id: true, mainCurrency: true, isPremium: true }
+				select: { id: true, mainCurrency: true, isPremium: true, timezone: true }
 			})
 			for (const user of users) {
+				const timezone = user.timezone ?? DEFAULT_TIMEZONE
+				if (getZonedParts(now, timezone).hour !== 0) continue
 				try {
 					await this.refreshTipForUser(
 						user.id,
 						user.mainCurrency ?? 'USD',
-						user.isPremium
+						user.isPremium,
+						timezone
 					)
 				} catch (error: unknown) {
 					this.logger.warn(
@@ -51,7 +57,8 @@ export class DailyTipCronService {
 	private async refreshTipForUser(
 		userId: string,
 		mainCurrency: string,
-		isPremium: boolean
+		isPremium: boolean,
+		timezone: string
 	) {
 		const accounts = await this.prisma.account.findMany({
 			where: { userId, isHidden: false },
@@ -86,8 +93,20 @@ export class DailyTipCronService {
 			largestAsset.sharePct = Number(((largestAssetAmount / totalCapital) * 100).toFixed(1))
 		}
 
-		const cashflow7 = await this.analytics.getCashflow(userId, '7d', mainCurrency)
-		const cashflow30 = await this.analytics.getCashflow(userId, '30d', mainCurrency)
+		const cashflow7 = await this.analytics.getCashflow(
+			userId,
+			'7d',
+			mainCurrency,
+			undefined,
+			timezone
+		)
+		const cashflow30 = await this.analytics.getCashflow(
+			userId,
+			'30d',
+			mainCurrency,
+			undefined,
+			timezone
+		)
 		const beginning7 = totalCapital - cashflow7
 		const beginning30 = totalCapital - cashflow30
 		const change7dPct = beginning7 > 0 ? (cashflow7 / beginning7) * 100 : 0
@@ -104,9 +123,7 @@ export class DailyTipCronService {
 						(24 * 60 * 60 * 1000)
 				)
 			: 999
-		const monthStart = new Date()
-		monthStart.setDate(1)
-		monthStart.setHours(0, 0, 0, 0)
+		const monthStart = startOfZonedMonth(new Date(), timezone)
 		const monthUsage = await this.prisma.transaction.count({
 			where: { userId, transactionDate: { gte: monthStart } }
 		})
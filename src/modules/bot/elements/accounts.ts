@@ -5,10 +5,11 @@ import {
 	formatByCurrencyPolicy,
 	formatExactAmount
 } from '../../../utils/format'
-import { formatTransactionDate } from '../../../utils/date'
+import { DEFAULT_TIMEZONE, formatTransactionDate } from '../../../utils/date'
 import { ExchangeService } from '../../../modules/exchange/exchange.service'
 import { AnalyticsService } from '../../../modules/analytics/analytics.service'
 import { Account } from '../../../generated/prisma/client'
+import { escapeHtml } from '../../../utils/html'
 
 type AccountWithAssets = Account & {
 	assets: { currency: string; amount: number }[]
@@ -43,8 +44,11 @@ export interface AccountAnalyticsData {
 		pct: number
 		descriptions: string[]
 	}[]
-	anomalies: { description: string | null; amountMain: number }[]
-	thresholdAnomaly: number
+	anomalies: {
+		description: string | null
+		amountMain: number
+		explanation: string
+	}[]
 }
 
 function fmt(amount: number, currency?: string): string {
@@ -66,7 +70,8 @@ export async function viewAccountsListText(
 	analytics: AnalyticsService,
 	userId: string,
 	_tipText?: string | null,
-	expanded = true
+	expanded = true,
+	timezone: string = DEFAULT_TIMEZONE
 ): Promise<string> {
 	const mainSym = getCurrencySymbol(mainCurrency)
 	const visibleAccounts = accounts.filter(
@@ -117,7 +122,13 @@ ${blockquoteOpen}${assetLines.length ? assetLines.join('\n') : '• нет ак
 	const cryptoStr = fmt(totalCrypto, mainCurrency)
 	let cashflow = 0
 	try {
-		cashflow = await analytics.getCashflow(userId, 'month', mainCurrency)
+		cashflow = await analytics.getCashflow(
+			userId,
+			'month',
+			mainCurrency,
+			undefined,
+			timezone
+		)
 	} catch {}
 	const beginning = totalMain - cashflow
 	const growthPct = beginning > 0 ? (cashflow / beginning) * 100 : Number.NaN
@@ -205,7 +216,7 @@ export async function accountDetailsText(
 	isPremium: boolean,
 	lastTransactions: AccountLastTxRow[],
 	analyticsData?: AccountAnalyticsData,
-	timezone: string = 'UTC+02:00'
+	timezone: string = DEFAULT_TIMEZONE
 ): Promise<string> {
 	const mainSym = getCurrencySymbol(mainCurrency)
 	let balanceMain = 0
@@ -279,10 +290,6 @@ ${assetsSection}
 	return body.trim()
 }
 
-function escapeHtml(s: string): string {
-	return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
-}
-
 function capitalize(s: string): string {
 	if (!s?.trim()) return '—'
 	const t = s.trim()
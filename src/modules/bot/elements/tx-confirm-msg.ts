@@ -7,7 +7,7 @@ import {
 	roundByCurrencyPolicy,
 	getCurrencyFractionDigits
 } from '../../../utils/format'
-import { formatTransactionDate } from '../../../utils/date'
+import { DEFAULT_TIMEZONE, formatTransactionDate } from '../../../utils/date'
 
 function formatDirection(direction: LlmTransaction['direction']) {
 	if (direction === 'expense') return '🔴 Расход'
@@ -46,7 +46,7 @@ export function renderConfirmMessage(
 	const isDeletedCurrency = !!(draft as any).currencyDeleted
 
 	const date = tx.transactionDate ? new Date(tx.transactionDate) : new Date()
-	const timezone = (draft.userTimezone as string | undefined) ?? 'UTC+02:00'
+	const timezone = (draft.userTimezone as string | undefined) ?? DEFAULT_TIMEZONE
 	const dateText = formatTransactionDate(date, timezone)
 	const isDetailsTitle = title.toLowerCase().includes('детали транзакции')
 	const hasMany = typeof total === 'number' && total > 1
@@ -0,0 +1,69 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { Cron } from '@nestjs/schedule'
+import { InlineKeyboard } from 'grammy'
+import { RecurringService } from '../recurring/recurring.service'
+import { BotService } from './bot.service'
+import { formatAmount } from '../../utils/format'
+import { formatTransactionDate } from '../../utils/date'
+import { escapeHtml } from '../../utils/html'
+
+@Injectable()
+export class RecurringCronService {
+	private readonly logger = new Logger(RecurringCronService.name)
+
+	constructor(
+		private readonly recurringService: RecurringService,
+		private readonly botService: BotService
+	) {}
+
+	private getErrorCode(error: unknown): string {
+		return String((error as { code?: string })?.code ?? 'unknown')
+	}
+
+	private async runCronSafe(task: string, fn: () => Promise<void>): Promise<void> {
+		try {
+			await fn()
+		} catch (error: unknown) {
+			this.logger.warn(
+				`${task} skipped for current tick (errorCode=${this.getErrorCode(error)}): ${
+					(error as Error)?.message ?? error
+				}`
+			)
+		}
+	}
+
+	@Cron('*/10 * * * *')
+	async promptDueRecurring() {
+		await this.runCronSafe('promptDueRecurring', async () => {
+			await this.recurringService.claimDue()
+			const prompts = await this.recurringService.claimPrompts()
+			for (const item of prompts) {
+				const sign = item.direction === 'expense' ? '−' : '+'
+				const lines = [
+					'🔄 <b>Регулярный платёж</b>',
+					'',
+					`${escapeHtml(item.description)}: ${sign}${formatAmount(item.amount, item.currency)}`,
+					`Счёт: ${escapeHtml(item.accountName)}`,
+					item.categoryName
+						? `Категория: ${escapeHtml(item.categoryName)}`
+						: null,
+					`Дата: ${formatTransactionDate(item.dueAt, item.timezone)}`,
+					'',
+					'Добавить транзакцию?'
+				].filter(line => line != null)
+				const sent = await this.botService.sendToUser(
+					item.telegramId,
+					lines.join('\n'),
+					{
+						parse_mode: 'HTML',
+						reply_markup: new InlineKeyboard()
+							.text('✅ Добавить', `rec_confirm:${item.occurrenceId}`)
+							.text('⏭ Пропустить', `rec_skip:${item.occurrenceId}`)
+					}
+				)
+				// retried on the next tick
+				if (!sent) await this.recurringService.releasePrompt(item.occurrenceId)
+			}
+		})
+	}
+}
@@ -0,0 +1,104 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { Cron } from '@nestjs/schedule'
+import { InlineKeyboard } from 'grammy'
+import { PrismaService } from '../prisma/prisma.service'
+import { SubscriptionService } from '../subscription/subscription.service'
+import { StatementService } from '../export/statement.service'
+import { monthPeriod, statementDuePeriod } from '../export/statement-pdf.utils'
+import { BotService } from './bot.service'
+
+@Injectable()
+export class StatementCronService {
+	private readonly logger = new Logger(StatementCronService.name)
+
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly subscriptionService: SubscriptionService,
+		private readonly statementService: StatementService,
+		private readonly botService: BotService
+	) {}
+
+	/** Runs hourly and sends last month's statement once the user's morning comes. */
+	@Cron('15 * * * *')
+	async sendMonthlyStatements() {
+		try {
+			const now = new Date()
+			const users = await this.prisma.user.findMany({
+				where: { monthlyStatement: true },
+				select: {
+					id: true,
+					telegramId: true,
+					timezone: true,
+					lastStatementPeriod: true
+				}
+			})
+			for (const user of users) {
+				const due = statementDuePeriod(
+					now,
+					user.timezone,
+					user.lastStatementPeriod
+				)
+				if (!due) continue
+				try {
+					await this.sendStatement(
+						user.id,
+						user.telegramId,
+						due,
+						user.lastStatementPeriod
+					)
+				} catch (error: unknown) {
+					this.logger.warn(
+						`sendStatement failed for user=${user.id}: ${
+							(error as Error)?.message ?? error
+						}`
+					)
+				}
+			}
+		} catch (error: unknown) {
+			this.logger.warn(
+				`sendMonthlyStatements skipped for current tick: ${
+					(error as Error)?.message ?? error
+				}`
+			)
+		}
+	}
+
+	private async sendStatement(
+		userId: string,
+		telegramId: string,
+		month: string,
+		previous: string | null
+	) {
+		// claim the month first so a slow render is not sent twice
+		const claimed = await this.prisma.user.updateMany({
+			where: { id: userId, lastStatementPeriod: previous },
+			data: { lastStatementPeriod: month }
+		})
+		if (!claimed.count) return
+		if (!(await this.subscriptionService.canExport(userId))) return
+		let sent = false
+		try {
+			const { buffer, fileName, count } =
+				await this.statementService.buildStatement(userId, monthPeriod(month))
+			sent = await this.botService.sendDocumentToUser(
+				telegramId,
+				{ buffer, fileName },
+				{
+					caption: `🧾 Ежемесячная выписка, операций: ${count}`,
+					reply_markup: new InlineKeyboard()
+						.text('🔕 Не присылать каждый месяц', 'statement_monthly_toggle')
+						.row()
+						.text('Закрыть', 'hide_message')
+				}
+			)
+		} finally {
+			// release the claim so the next hourly run retries
+			if (!sent) {
+				await this.prisma.user.updateMany({
+					where: { id: userId, lastStatementPeriod: month },
+					data: { lastStatementPeriod: previous }
+				})
+			}
+		}
+	}
+}
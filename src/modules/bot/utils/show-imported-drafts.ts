@@ -0,0 +1,82 @@
+import { InlineKeyboard } from 'grammy'
+import { BotContext } from '../core/bot.middleware'
+import { activateInputMode } from '../core/input-mode'
+import { renderConfirmMessage } from '../elements/tx-confirm-msg'
+import { confirmKeyboard, getShowConversion } from '../callbacks/confirm-tx'
+import { renderHome } from './render-home'
+import { AccountsService } from '../../accounts/accounts.service'
+import { AnalyticsService } from '../../analytics/analytics.service'
+import type { ImportDraft } from '../../import/import.service'
+
+/**
+ * Opens imported transactions in the regular draft preview: the user can page
+ * through and edit them, and «Удалить всё» removes the whole import.
+ */
+export async function showImportedDrafts(
+	ctx: BotContext,
+	params: {
+		drafts: Array<ImportDraft & { id: string }>
+		summary: string[]
+		timezone: string
+		accountsService: AccountsService
+		analyticsService: AnalyticsService
+	}
+): Promise<void> {
+	const user = ctx.state.user
+	const drafts = params.drafts.map(draft => ({
+		...draft,
+		userTimezone: params.timezone
+	}))
+	await ctx.reply(
+		[
+			...params.summary,
+			'Проверьте операции ниже — «🗑 Удалить всё» отменит импорт.'
+		].join('\n'),
+		{ reply_markup: new InlineKeyboard().text('Закрыть', 'hide_message') }
+	)
+	activateInputMode(ctx, 'transaction_edit', {
+		awaitingTransaction: false,
+		confirmingTransaction: true,
+		draftTransactions: drafts,
+		currentTransactionIndex: 0,
+		autoCreatedTxIdsForCurrentParse: drafts.map(d => d.id)
+	})
+	if (ctx.session.tempMessageId != null) {
+		try {
+			await ctx.api.deleteMessage(ctx.chat.id, ctx.session.tempMessageId)
+		} catch {
+			// the previous preview may already be gone
+		}
+	}
+	const first = drafts[0]
+	const showConversion = await getShowConversion(
+		first,
+		first.accountId,
+		user.id,
+		params.accountsService
+	)
+	const msg = await ctx.reply(
+		renderConfirmMessage(
+			first,
+			0,
+			drafts.length,
+			user.defaultAccountId ?? undefined,
+			undefined,
+			'Просмотр транзакций'
+		),
+		{
+			parse_mode: 'HTML',
+			reply_markup: confirmKeyboard(drafts.length, 0, showConversion, false, false)
+		}
+	)
+	ctx.session.tempMessageId = msg.message_id
+	ctx.session.previewMessageId = msg.message_id
+	ctx.session.resultMessageIds = [
+		...(ctx.session.resultMessageIds ?? []),
+		msg.message_id
+	]
+	await renderHome(ctx, params.accountsService, params.analyticsService, {
+		forceNewMessage: true,
+		preservePreviousMessages: true
+	})
+}
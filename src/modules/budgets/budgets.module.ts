@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common'
+import { AnalyticsModule } from '../analytics/analytics.module'
+import { AlertsModule } from '../alerts/alerts.module'
+import { BudgetsService } from './budgets.service'
+
+@Module({
+	imports: [AnalyticsModule, AlertsModule],
+	providers: [BudgetsService],
+	exports: [BudgetsService]
+})
+export class BudgetsModule {}
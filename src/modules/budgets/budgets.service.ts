@@ -0,0 +1,296 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { PrismaService } from '../prisma/prisma.service'
+import { AnalyticsService, type AnalyticsPeriod } from '../analytics/analytics.service'
+import { AlertsService } from '../alerts/alerts.service'
+import { pickMoneyNumber, toDbMoney } from '../../utils/money'
+import {
+	budgetMonthRange,
+	budgetWarningLevel,
+	budgetWarningText,
+	effectiveBudgetLimit
+} from './budgets.utils'
+
+export const OVERALL_BUDGET_NAME = 'Общий бюджет'
+
+export interface BudgetProgress {
+	id: string
+	categoryId: string | null
+	name: string
+	limit: number
+	effectiveLimit: number
+	rollover: boolean
+	spent: number
+	remaining: number
+	pct: number
+}
+
+export interface BudgetVsActual {
+	id: string
+	name: string
+	planned: number
+	actual: number
+	pct: number
+}
+
+type BudgetRow = {
+	id: string
+	categoryId: string | null
+	limit: number
+	limitDecimal: unknown
+	rollover: boolean
+	warnedPeriod: string | null
+	warnedLevel: number
+	category: { name: string } | null
+}
+
+const budgetInclude = { category: { select: { name: true } } } as const
+
+@Injectable()
+export class BudgetsService {
+	private readonly logger = new Logger(BudgetsService.name)
+
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly analytics: AnalyticsService,
+		private readonly alerts: AlertsService
+	) {}
+
+	private isUniqueViolation(error: unknown): boolean {
+		return (error as { code?: string })?.code === 'P2002'
+	}
+
+	private budgetLimit(budget: Pick<BudgetRow, 'limit' | 'limitDecimal'>): number {
+		return pickMoneyNumber(budget.limitDecimal, budget.limit, 0)
+	}
+
+	private budgetName(budget: Pick<BudgetRow, 'category'>): string {
+		return budget.category?.name ?? OVERALL_BUDGET_NAME
+	}
+
+	async list(userId: string): Promise<BudgetRow[]> {
+		return this.prisma.budget.findMany({
+			where: { userId },
+			include: budgetInclude,
+			orderBy: { createdAt: 'asc' }
+		})
+	}
+
+	async findOne(id: string, userId: string): Promise<BudgetRow | null> {
+		return this.prisma.budget.findFirst({
+			where: { id, userId },
+			include: budgetInclude
+		})
+	}
+
+	/** One budget per category (or one overall when categoryId is null). */
+	async upsert(userId: string, categoryId: string | null, limit: number) {
+		const existing = await this.prisma.budget.findFirst({
+			where: { userId, categoryId },
+			select: { id: true }
+		})
+		const data = { limit, limitDecimal: toDbMoney(limit) ?? undefined }
+		if (existing) {
+			return this.prisma.budget.update({ where: { id: existing.id }, data })
+		}
+		try {
+			return await this.prisma.budget.create({
+				data: { userId, categoryId, ...data }
+			})
+		} catch (error: unknown) {
+			if (!this.isUniqueViolation(error)) throw error
+			const raced = await this.prisma.budget.findFirst({
+				where: { userId, categoryId },
+				select: { id: true }
+			})
+			if (!raced) throw error
+			return this.prisma.budget.update({ where: { id: raced.id }, data })
+		}
+	}
+
+	async updateLimit(id: string, userId: string, limit: number): Promise<boolean> {
+		const result = await this.prisma.budget.updateMany({
+			where: { id, userId },
+			data: {
+				limit,
+				limitDecimal: toDbMoney(limit) ?? undefined,
+				warnedPeriod: null,
+				warnedLevel: 0
+			}
+		})
+		return result.count > 0
+	}
+
+	async setRollover(id: string, userId: string, rollover: boolean): Promise<boolean> {
+		const result = await this.prisma.budget.updateMany({
+			where: { id, userId },
+			data: { rollover }
+		})
+		return result.count > 0
+	}
+
+	async delete(id: string, userId: string): Promise<boolean> {
+		const result = await this.prisma.budget.deleteMany({ where: { id, userId } })
+		return result.count > 0
+	}
+
+	/** Current-month progress for every budget, in the user's timezone. */
+	async getProgress(
+		userId: string,
+		mainCurrency: string,
+		timezone: string,
+		now: Date = new Date()
+	): Promise<BudgetProgress[]> {
+		const budgets = await this.list(userId)
+		if (!budgets.length) return []
+		const current = budgetMonthRange(timezone, now)
+		const needsPrevious = budgets.some(b => b.rollover)
+		const [spentNow, spentPrev] = await Promise.all([
+			this.analytics.getExpenseByCategory(userId, current, mainCurrency),
+			needsPrevious
+				? this.analytics.getExpenseByCategory(
+						userId,
+						budgetMonthRange(timezone, now, 1),
+						mainCurrency
+					)
+				: Promise.resolve(null)
+		])
+		return budgets.map(budget => {
+			const limit = this.budgetLimit(budget)
+			const pick = (totals: typeof spentNow | null) =>
+				!totals
+					? 0
+					: budget.categoryId
+						? (totals.byCategoryId.get(budget.categoryId) ?? 0)
+						: totals.total
+			const effectiveLimit = effectiveBudgetLimit(
+				limit,
+				budget.rollover,
+				pick(spentPrev)
+			)
+			const spent = pick(spentNow)
+			return {
+				id: budget.id,
+				categoryId: budget.categoryId,
+				name: this.budgetName(budget),
+				limit,
+				effectiveLimit,
+				rollover: budget.rollover,
+				spent,
+				remaining: effectiveLimit - spent,
+				pct: effectiveLimit > 0 ? (spent / effectiveLimit) * 100 : 0
+			}
+		})
+	}
+
+	/** Monthly limits prorated to the selected analytics period. */
+	async getBudgetVsActual(
+		userId: string,
+		period: AnalyticsPeriod,
+		mainCurrency: string,
+		timezone: string,
+		accountId?: string
+	): Promise<BudgetVsActual[]> {
+		const budgets = await this.list(userId)
+		if (!budgets.length) return []
+		const range = this.analytics.getDateRange(period, timezone)
+		const spent = await this.analytics.getExpenseByCategory(
+			userId,
+			range,
+			mainCurrency,
+			accountId
+		)
+		const month = budgetMonthRange(timezone)
+		const days = Math.max(
+			1,
+			Math.ceil((range.to.getTime() - range.from.getTime()) / 86_400_000)
+		)
+		const factor =
+			period === 'month' || period === 'last_month' ? 1 : days / month.daysInMonth
+		return budgets.map(budget => {
+			const planned = this.budgetLimit(budget) * factor
+			const actual = budget.categoryId
+				? (spent.byCategoryId.get(budget.categoryId) ?? 0)
+				: spent.total
+			return {
+				id: budget.id,
+				name: this.budgetName(budget),
+				planned,
+				actual,
+				pct: planned > 0 ? (actual / planned) * 100 : 0
+			}
+		})
+	}
+
+	/** Warns once per month per level when an expense pushes a budget past 80% / 100%. Never throws. */
+	async evaluateTransaction(userId: string, transactionId: string): Promise<void> {
+		try {
+			const tx = await this.prisma.transaction.findFirst({
+				where: { id: transactionId, userId, direction: 'expense' },
+				select: { categoryId: true, transactionDate: true }
+			})
+			if (!tx) return
+			const user = await this.prisma.user.findUnique({
+				where: { id: userId },
+				select: { telegramId: true, mainCurrency: true, timezone: true }
+			})
+			if (!user) return
+			const now = new Date()
+			const month = budgetMonthRange(user.timezone, now)
+			if (tx.transactionDate < month.from || tx.transactionDate > month.to) return
+			const progress = await this.getProgress(
+				userId,
+				user.mainCurrency,
+				user.timezone,
+				now
+			)
+			for (const item of progress) {
+				if (item.categoryId && item.categoryId !== tx.categoryId) continue
+				const level = budgetWarningLevel(item.spent, item.effectiveLimit)
+				if (level === 0) continue
+				const previous = await this.prisma.budget.findUnique({
+					where: { id: item.id },
+					select: { warnedPeriod: true, warnedLevel: true }
+				})
+				if (!previous) continue
+				const claimed = await this.prisma.budget.updateMany({
+					where: {
+						id: item.id,
+						OR: [
+							{ warnedPeriod: null },
+							{ warnedPeriod: { not: month.key } },
+							{ warnedLevel: { lt: level } }
+						]
+					},
+					data: { warnedPeriod: month.key, warnedLevel: level }
+				})
+				if (!claimed.count) continue
+				const sent = await this.alerts.notify(
+					user.telegramId,
+					budgetWarningText({
+						name: item.name,
+						spent: item.spent,
+						limit: item.effectiveLimit,
+						level,
+						mainCurrency: user.mainCurrency
+					})
+				)
+				if (!sent) {
+					await this.prisma.budget.updateMany({
+						where: {
+							id: item.id,
+							warnedPeriod: month.key,
+							warnedLevel: level
+						},
+						data: previous
+					})
+				}
+			}
+		} catch (error: unknown) {
+			this.logger.warn(
+				`evaluateTransaction failed for user=${userId} tx=${transactionId}: ${
+					(error as Error)?.message ?? error
+				}`
+			)
+		}
+	}
+}
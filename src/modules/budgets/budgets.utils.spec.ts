@@ -0,0 +1,54 @@
+import {
+	budgetMonthRange,
+	budgetProgressBar,
+	budgetWarningLevel,
+	budgetWarningText,
+	effectiveBudgetLimit
+} from './budgets.utils'
+
+describe('budgets.utils', () => {
+	it('builds month range in user timezone', () => {
+		const now = new Date(Date.UTC(2026, 1, 28, 23, 0))
+		const range = budgetMonthRange('UTC+02:00', now)
+		expect(range.key).toBe('2026-03')
+		expect(range.from.toISOString()).toBe('2026-02-28T22:00:00.000Z')
+		expect(range.to.toISOString()).toBe('2026-03-31T21:59:59.999Z')
+		expect(range.daysInMonth).toBe(31)
+	})
+
+	it('returns previous month across year boundary', () => {
+		const now = new Date(Date.UTC(2026, 0, 10))
+		const range = budgetMonthRange('UTC+00:00', now, 1)
+		expect(range.key).toBe('2025-12')
+		expect(range.daysInMonth).toBe(31)
+	})
+
+	it('adds unspent previous month only with rollover', () => {
+		expect(effectiveBudgetLimit(100, true, 60)).toBe(140)
+		expect(effectiveBudgetLimit(100, true, 130)).toBe(100)
+		expect(effectiveBudgetLimit(100, false, 60)).toBe(100)
+	})
+
+	it('detects 80% and 100% levels', () => {
+		expect(budgetWarningLevel(79, 100)).toBe(0)
+		expect(budgetWarningLevel(80, 100)).toBe(80)
+		expect(budgetWarningLevel(101, 100)).toBe(100)
+		expect(budgetWarningLevel(5, 0)).toBe(0)
+	})
+
+	it('clamps progress bar', () => {
+		expect(budgetProgressBar(50)).toBe('▓▓▓▓▓░░░░░')
+		expect(budgetProgressBar(180)).toBe('▓▓▓▓▓▓▓▓▓▓')
+	})
+
+	it('escapes the budget name in warnings', () => {
+		const text = budgetWarningText({
+			name: 'Кафе & <бары>',
+			spent: 90,
+			limit: 100,
+			level: 80,
+			mainCurrency: 'USD'
+		})
+		expect(text).toContain('Кафе &amp; &lt;бары&gt;:')
+	})
+})
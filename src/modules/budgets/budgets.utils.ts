@@ -0,0 +1,77 @@
+import { getZonedParts, startOfZonedMonth } from '../../utils/date'
+import { formatAmount } from '../../utils/format'
+import { escapeHtml } from '../../utils/html'
+
+export type BudgetWarningLevel = 0 | 80 | 100
+
+export interface BudgetMonthRange {
+	from: Date
+	to: Date
+	key: string
+	daysInMonth: number
+}
+
+function pad2(value: number): string {
+	return String(value).padStart(2, '0')
+}
+
+/** Calendar month in the user's timezone; `monthsBack = 1` gives the previous month. */
+export function budgetMonthRange(
+	timezone: string,
+	now: Date = new Date(),
+	monthsBack = 0
+): BudgetMonthRange {
+	const from = startOfZonedMonth(now, timezone, -monthsBack)
+	const next = startOfZonedMonth(now, timezone, 1 - monthsBack)
+	const local = getZonedParts(from, timezone)
+	return {
+		from,
+		to: new Date(next.getTime() - 1),
+		key: `${local.year}-${pad2(local.month + 1)}`,
+		daysInMonth: new Date(Date.UTC(local.year, local.month + 1, 0)).getUTCDate()
+	}
+}
+
+/** With rollover, last month's unspent part is added on top of this month's limit. */
+export function effectiveBudgetLimit(
+	limit: number,
+	rollover: boolean,
+	previousSpent: number
+): number {
+	if (!rollover) return limit
+	return limit + Math.max(0, limit - previousSpent)
+}
+
+export function budgetWarningLevel(spent: number, limit: number): BudgetWarningLevel {
+	if (limit <= 0) return 0
+	const ratio = spent / limit
+	if (ratio >= 1) return 100
+	if (ratio >= 0.8) return 80
+	return 0
+}
+
+export function budgetProgressBar(pct: number, width = 10): string {
+	const filled = Math.max(0, Math.min(width, Math.round((pct / 100) * width)))
+	return '▓'.repeat(filled) + '░'.repeat(width - filled)
+}
+
+export function budgetWarningText(params: {
+	name: string
+	spent: number
+	limit: number
+	level: Exclude<BudgetWarningLevel, 0>
+	mainCurrency: string
+}): string {
+	const pct = params.limit > 0 ? Math.round((params.spent / params.limit) * 100) : 0
+	const headline =
+		params.level === 100
+			? '🚨 <b>Бюджет превышен</b>'
+			: '⚠️ <b>Бюджет почти исчерпан</b>'
+	return `${headline}
+
+${escapeHtml(params.name)}: ${formatAmount(params.spent, params.mainCurrency)} из ${formatAmount(
+		params.limit,
+		params.mainCurrency
+	)} (${pct}%)
+${budgetProgressBar(pct)}`
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common'
+import { AnalyticsModule } from '../analytics/analytics.module'
+import { ChartsService } from './charts.service'
+
+@Module({
+	imports: [AnalyticsModule],
+	providers: [ChartsService],
+	exports: [ChartsService]
+})
+export class ChartsModule {}
@@ -0,0 +1,358 @@
+import { Injectable } from '@nestjs/common'
+import { createCanvas, type SKRSContext2D } from '@napi-rs/canvas'
+import { PrismaService } from '../prisma/prisma.service'
+import { AnalyticsService, type AnalyticsFilters } from '../analytics/analytics.service'
+import { getCurrencySymbol } from '../../utils/format'
+import {
+	buildChartBuckets,
+	chartBucketKey,
+	formatAxisValue,
+	niceTicks,
+	stripEmoji,
+	type ChartGranularity
+} from './charts.utils'
+
+export interface ChartDataset {
+	name: string
+	values: number[]
+	color?: string
+}
+
+export interface ChartOptions {
+	title: string
+	labels: string[]
+	datasets: ChartDataset[]
+	currency: string
+}
+
+export interface ChartSeries {
+	granularity: ChartGranularity
+	labels: string[]
+	expenses: number[]
+	income: number[]
+	categories: ChartDataset[]
+}
+
+const WIDTH = 1000
+const HEIGHT = 600
+const PADDING = { top: 80, right: 30, bottom: 70, left: 90 }
+const LEGEND_HEIGHT = 36
+const MAX_X_LABELS = 12
+const FONT_FAMILY = '"DejaVu Sans", "Arial", sans-serif'
+const PALETTE = [
+	'#4e79a7',
+	'#f28e2b',
+	'#59a14f',
+	'#e15759',
+	'#76b7b2',
+	'#b07aa1',
+	'#9c9c9c'
+]
+const EXPENSE_COLOR = '#e15759'
+const INCOME_COLOR = '#59a14f'
+const OTHER_CATEGORY = 'Другое'
+
+type PlotArea = { x: number; y: number; width: number; height: number; max: number }
+
+@Injectable()
+export class ChartsService {
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly analytics: AnalyticsService
+	) {}
+
+	/** Per-bucket income/expense and top-category expense totals in the main currency. */
+	async buildSeries(
+		userId: string,
+		filters: Pick<AnalyticsFilters, 'period' | 'accountId'>,
+		mainCurrency: string,
+		timezone: string,
+		categoryLimit = 5
+	): Promise<ChartSeries> {
+		const { from, to } = this.analytics.getDateRange(filters.period, timezone)
+		const accountFilter = filters.accountId
+			? { accountId: filters.accountId }
+			: { account: { userId, isHidden: false } }
+		const txs = await this.prisma.transaction.findMany({
+			where: {
+				userId,
+				direction: { in: ['expense', 'income'] },
+				transactionDate: { gte: from, lte: to },
+				...accountFilter
+			},
+			select: {
+				direction: true,
+				category: true,
+				categoryRef: { select: { name: true } },
+				amount: true,
+				amountDecimal: true,
+				currency: true,
+				convertedAmount: true,
+				convertedAmountDecimal: true,
+				convertToCurrency: true,
+				transactionDate: true,
+				amountUsd: true,
+				amountUsdDecimal: true
+			},
+			orderBy: { transactionDate: 'asc' }
+		})
+		const buckets = buildChartBuckets(from, to, timezone)
+		const index = new Map(buckets.keys.map((key, i) => [key, i]))
+		const expenses = buckets.keys.map(() => 0)
+		const income = buckets.keys.map(() => 0)
+		const byCategory = new Map<string, number[]>()
+		for (const tx of txs) {
+			const i = index.get(
+				chartBucketKey(tx.transactionDate, timezone, buckets.granularity)
+			)
+			if (i == null) continue
+			const { amount, currency } = this.analytics.pickTxAmount(tx)
+			const inMain = await this.analytics.toMainCurrency(
+				amount,
+				currency,
+				mainCurrency,
+				tx.transactionDate,
+				this.analytics.pickAmountUsd(tx)
+			)
+			if (tx.direction === 'income') {
+				income[i] += inMain
+				continue
+			}
+			expenses[i] += inMain
+			const name = tx.categoryRef?.name ?? tx.category ?? OTHER_CATEGORY
+			const values = byCategory.get(name) ?? buckets.keys.map(() => 0)
+			values[i] += inMain
+			byCategory.set(name, values)
+		}
+		const ranked = [...byCategory.entries()].sort((a, b) => sum(b[1]) - sum(a[1]))
+		const categories: ChartDataset[] = ranked
+			.slice(0, categoryLimit)
+			.map(([name, values]) => ({ name, values }))
+		const rest = ranked.slice(categoryLimit)
+		if (rest.length) {
+			categories.push({
+				name: OTHER_CATEGORY,
+				values: buckets.keys.map((_, i) => rest.reduce((s, [, v]) => s + v[i], 0))
+			})
+		}
+		return {
+			granularity: buckets.granularity,
+			labels: buckets.labels,
+			expenses,
+			income,
+			categories
+		}
+	}
+
+	renderLineChart(options: ChartOptions): Buffer {
+		const { ctx, canvas } = this.createChart(options)
+		const max = Math.max(0, ...options.datasets.flatMap(d => d.values))
+		const plot = this.drawAxes(ctx, options, max)
+		const n = options.labels.length
+		const stepX = n > 1 ? plot.width / (n - 1) : 0
+		options.datasets.forEach((dataset, di) => {
+			const color = dataset.color ?? PALETTE[di % PALETTE.length]
+			const points = dataset.values.map((v, i) => ({
+				x: plot.x + (n > 1 ? i * stepX : plot.width / 2),
+				y: plot.y + plot.height - (v / plot.max) * plot.height
+			}))
+			if (!points.length) return
+			ctx.beginPath()
+			ctx.moveTo(points[0].x, plot.y + plot.height)
+			for (const p of points) ctx.lineTo(p.x, p.y)
+			ctx.lineTo(points[points.length - 1].x, plot.y + plot.height)
+			ctx.closePath()
+			ctx.globalAlpha = 0.12
+			ctx.fillStyle = color
+			ctx.fill()
+			ctx.globalAlpha = 1
+			ctx.beginPath()
+			points.forEach((p, i) =>
+				i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)
+			)
+			ctx.strokeStyle = color
+			ctx.lineWidth = 3
+			ctx.stroke()
+			if (n <= 31) {
+				ctx.fillStyle = color
+				for (const p of points) {
+					ctx.beginPath()
+					ctx.arc(p.x, p.y, 4, 0, Math.PI * 2)
+					ctx.fill()
+				}
+			}
+		})
+		this.drawLegend(ctx, options.datasets)
+		return canvas.toBuffer('image/png')
+	}
+
+	/** Grouped bars by default; `stacked` piles datasets on top of each other. */
+	renderBarChart(options: ChartOptions & { stacked?: boolean }): Buffer {
+		const { ctx, canvas } = this.createChart(options)
+		const n = options.labels.length
+		const totals = options.labels.map((_, i) =>
+			options.stacked
+				? options.datasets.reduce((s, d) => s + Math.max(0, d.values[i] ?? 0), 0)
+				: Math.max(0, ...options.datasets.map(d => d.values[i] ?? 0))
+		)
+		const plot = this.drawAxes(ctx, options, Math.max(0, ...totals), true)
+		const groupWidth = plot.width / Math.max(1, n)
+		const inner = groupWidth * 0.8
+		const barWidth = options.stacked
+			? inner
+			: inner / Math.max(1, options.datasets.length)
+		for (let i = 0; i < n; i++) {
+			const groupX = plot.x + i * groupWidth + (groupWidth - inner) / 2
+			let stackBase = plot.y + plot.height
+			options.datasets.forEach((dataset, di) => {
+				const value = Math.max(0, dataset.values[i] ?? 0)
+				const h = (value / plot.max) * plot.height
+				if (h <= 0) return
+				ctx.fillStyle = dataset.color ?? PALETTE[di % PALETTE.length]
+				if (options.stacked) {
+					ctx.fillRect(groupX, stackBase - h, barWidth, h)
+					stackBase -= h
+				} else {
+					ctx.fillRect(
+						groupX + di * barWidth,
+						plot.y + plot.height - h,
+						barWidth,
+						h
+					)
+				}
+			})
+		}
+		this.drawLegend(ctx, options.datasets)
+		return canvas.toBuffer('image/png')
+	}
+
+	renderDailySpending(
+		series: ChartSeries,
+		currency: string,
+		kind: 'line' | 'bar'
+	): Buffer {
+		const options: ChartOptions = {
+			title: `Расходы по ${series.granularity === 'week' ? 'неделям' : 'дням'}`,
+			labels: series.labels,
+			datasets: [
+				{ name: 'Расходы', values: series.expenses, color: EXPENSE_COLOR }
+			],
+			currency
+		}
+		return kind === 'line'
+			? this.renderLineChart(options)
+			: this.renderBarChart(options)
+	}
+
+	renderCategoryStack(series: ChartSeries, currency: string): Buffer {
+		return this.renderBarChart({
+			title: 'Расходы по категориям',
+			labels: series.labels,
+			datasets: series.categories,
+			currency,
+			stacked: true
+		})
+	}
+
+	renderIncomeVsExpense(series: ChartSeries, currency: string): Buffer {
+		return this.renderBarChart({
+			title: 'Доходы и расходы',
+			labels: series.labels,
+			datasets: [
+				{ name: 'Доходы', values: series.income, color: INCOME_COLOR },
+				{ name: 'Расходы', values: series.expenses, color: EXPENSE_COLOR }
+			],
+			currency
+		})
+	}
+
+	renderNetWorth(labels: string[], totals: number[], currency: string): Buffer {
+		return this.renderLineChart({
+			title: 'Капитал во времени',
+			labels,
+			datasets: [{ name: 'Капитал', values: totals, color: PALETTE[0] }],
+			currency
+		})
+	}
+
+	private createChart(options: ChartOptions) {
+		const canvas = createCanvas(WIDTH, HEIGHT)
+		const ctx = canvas.getContext('2d')
+		ctx.fillStyle = '#ffffff'
+		ctx.fillRect(0, 0, WIDTH, HEIGHT)
+		ctx.fillStyle = '#222222'
+		ctx.font = `bold 26px ${FONT_FAMILY}`
+		ctx.textAlign = 'left'
+		ctx.textBaseline = 'alphabetic'
+		ctx.fillText(
+			`${stripEmoji(options.title)}, ${getCurrencySymbol(options.currency)}`,
+			PADDING.left,
+			46
+		)
+		return { canvas, ctx }
+	}
+
+	private drawAxes(
+		ctx: SKRSContext2D,
+		options: ChartOptions,
+		max: number,
+		centered = false
+	): PlotArea {
+		const legend = options.datasets.length > 1 ? LEGEND_HEIGHT : 0
+		const plot = {
+			x: PADDING.left,
+			y: PADDING.top,
+			width: WIDTH - PADDING.left - PADDING.right,
+			height: HEIGHT - PADDING.top - PADDING.bottom - legend
+		}
+		const ticks = niceTicks(max)
+		const top = ticks[ticks.length - 1]
+		ctx.font = `14px ${FONT_FAMILY}`
+		ctx.textAlign = 'right'
+		ctx.textBaseline = 'middle'
+		for (const tick of ticks) {
+			const y = plot.y + plot.height - (tick / top) * plot.height
+			ctx.strokeStyle = tick === 0 ? '#999999' : '#e6e6e6'
+			ctx.lineWidth = 1
+			ctx.beginPath()
+			ctx.moveTo(plot.x, y)
+			ctx.lineTo(plot.x + plot.width, y)
+			ctx.stroke()
+			ctx.fillStyle = '#555555'
+			ctx.fillText(formatAxisValue(tick), plot.x - 10, y)
+		}
+		const n = options.labels.length
+		const every = Math.max(1, Math.ceil(n / MAX_X_LABELS))
+		ctx.textAlign = 'center'
+		ctx.textBaseline = 'top'
+		options.labels.forEach((label, i) => {
+			if (i % every !== 0) return
+			const x = centered
+				? plot.x + (i + 0.5) * (plot.width / Math.max(1, n))
+				: plot.x + (n > 1 ? (i * plot.width) / (n - 1) : plot.width / 2)
+			ctx.fillText(label, x, plot.y + plot.height + 10)
+		})
+		return { ...plot, max: top }
+	}
+
+	private drawLegend(ctx: SKRSContext2D, datasets: ChartDataset[]): void {
+		if (datasets.length < 2) return
+		ctx.font = `14px ${FONT_FAMILY}`
+		ctx.textAlign = 'left'
+		ctx.textBaseline = 'middle'
+		const y = HEIGHT - LEGEND_HEIGHT / 2 - 6
+		let x = PADDING.left
+		datasets.forEach((dataset, di) => {
+			ctx.fillStyle = dataset.color ?? PALETTE[di % PALETTE.length]
+			ctx.fillRect(x, y - 7, 14, 14)
+			ctx.fillStyle = '#333333'
+			const name = stripEmoji(dataset.name)
+			ctx.fillText(name, x + 20, y)
+			x += 20 + ctx.measureText(name).width + 24
+		})
+	}
+}
+
+function sum(values: number[]): number {
+	return values.reduce((s, v) => s + v, 0)
+}
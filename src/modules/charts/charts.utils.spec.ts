@@ -0,0 +1,50 @@
+import {
+	buildChartBuckets,
+	chartBucketKey,
+	formatAxisValue,
+	niceTicks,
+	stripEmoji
+} from './charts.utils'
+
+describe('charts.utils', () => {
+	it('builds daily buckets in user timezone', () => {
+		const from = new Date(Date.UTC(2026, 2, 1, 0, 0))
+		const to = new Date(Date.UTC(2026, 2, 3, 20, 0))
+		const buckets = buildChartBuckets(from, to, 'UTC+02:00')
+		expect(buckets.granularity).toBe('day')
+		expect(buckets.keys).toEqual(['2026-03-01', '2026-03-02', '2026-03-03'])
+		expect(buckets.labels[0]).toBe('01.03')
+	})
+
+	it('switches to weekly buckets for long ranges', () => {
+		const from = new Date(Date.UTC(2026, 0, 1))
+		const to = new Date(Date.UTC(2026, 2, 31))
+		const buckets = buildChartBuckets(from, to, 'UTC+00:00')
+		expect(buckets.granularity).toBe('week')
+		expect(buckets.keys[0]).toBe('2025-12-29')
+		expect(
+			chartBucketKey(new Date(Date.UTC(2026, 0, 4, 12)), 'UTC+00:00', 'week')
+		).toBe('2025-12-29')
+	})
+
+	it('assigns late-evening UTC transactions to the next local day', () => {
+		const date = new Date(Date.UTC(2026, 2, 1, 23, 30))
+		expect(chartBucketKey(date, 'UTC+02:00', 'day')).toBe('2026-03-02')
+	})
+
+	it('picks round tick steps', () => {
+		expect(niceTicks(87)).toEqual([0, 20, 40, 60, 80, 100])
+		expect(niceTicks(0)).toEqual([0, 1])
+	})
+
+	it('formats compact axis values', () => {
+		expect(formatAxisValue(950)).toBe('950')
+		expect(formatAxisValue(1500)).toBe('1,5k')
+		expect(formatAxisValue(2_000_000)).toBe('2M')
+	})
+
+	it('strips emoji from labels', () => {
+		expect(stripEmoji('🍔Еда и напитки')).toBe('Еда и напитки')
+		expect(stripEmoji('🛫Путешествия')).toBe('Путешествия')
+	})
+})
@@ -0,0 +1,101 @@
+import { timezoneOffsetMinutes } from '../../utils/date'
+
+export type ChartGranularity = 'day' | 'week'
+
+export interface ChartBuckets {
+	granularity: ChartGranularity
+	keys: string[]
+	labels: string[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+/** Above this many days per-day bars become unreadable, so we switch to weeks. */
+const MAX_DAILY_BUCKETS = 45
+
+function pad2(value: number): string {
+	return String(value).padStart(2, '0')
+}
+
+function localDayStart(date: Date, timezone: string): Date {
+	const local = new Date(
+		date.getTime() + timezoneOffsetMinutes(timezone, date) * 60_000
+	)
+	return new Date(
+		Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate())
+	)
+}
+
+function keyOf(localStart: Date): string {
+	return `${localStart.getUTCFullYear()}-${pad2(localStart.getUTCMonth() + 1)}-${pad2(
+		localStart.getUTCDate()
+	)}`
+}
+
+function labelOf(localStart: Date): string {
+	return `${pad2(localStart.getUTCDate())}.${pad2(localStart.getUTCMonth() + 1)}`
+}
+
+function weekStart(localDay: Date): Date {
+	const day = localDay.getUTCDay()
+	const mondayOffset = day === 0 ? -6 : 1 - day
+	return new Date(localDay.getTime() + mondayOffset * DAY_MS)
+}
+
+/** Bucket key (local YYYY-MM-DD of the day or its Monday) for a transaction date. */
+export function chartBucketKey(
+	date: Date,
+	timezone: string,
+	granularity: ChartGranularity
+): string {
+	const day = localDayStart(date, timezone)
+	return keyOf(granularity === 'week' ? weekStart(day) : day)
+}
+
+/** Continuous list of day/week buckets covering [from, to] in the user's timezone. */
+export function buildChartBuckets(from: Date, to: Date, timezone: string): ChartBuckets {
+	const first = localDayStart(from, timezone)
+	const last = localDayStart(to, timezone)
+	const days = Math.max(1, Math.round((last.getTime() - first.getTime()) / DAY_MS) + 1)
+	const granularity: ChartGranularity = days > MAX_DAILY_BUCKETS ? 'week' : 'day'
+	const step = granularity === 'week' ? 7 * DAY_MS : DAY_MS
+	const keys: string[] = []
+	const labels: string[] = []
+	let cursor = granularity === 'week' ? weekStart(first) : first
+	while (cursor.getTime() <= last.getTime()) {
+		keys.push(keyOf(cursor))
+		labels.push(labelOf(cursor))
+		cursor = new Date(cursor.getTime() + step)
+	}
+	return { granularity, keys, labels }
+}
+
+/** Round axis ticks from 0 up to at least `max`, roughly `count` steps. */
+export function niceTicks(max: number, count = 5): number[] {
+	if (!Number.isFinite(max) || max <= 0) return [0, 1]
+	const raw = max / count
+	const magnitude = 10 ** Math.floor(Math.log10(raw))
+	const residual = raw / magnitude
+	const nice = residual > 5 ? 10 : residual > 2 ? 5 : residual > 1 ? 2 : 1
+	const step = nice * magnitude
+	const top = Math.ceil(max / step - 1e-9) * step
+	const ticks: number[] = []
+	for (let v = 0; v <= top + step / 2; v += step) {
+		ticks.push(Number(v.toPrecision(12)))
+	}
+	return ticks
+}
+
+/** Short axis label: 950, 1,5k, 2M. */
+export function formatAxisValue(value: number): string {
+	const abs = Math.abs(value)
+	const compact = (v: number, suffix: string) =>
+		`${v.toLocaleString('ru-RU', { maximumFractionDigits: 1 })}${suffix}`
+	if (abs >= 1_000_000) return compact(value / 1_000_000, 'M')
+	if (abs >= 1_000) return compact(value / 1_000, 'k')
+	return value.toLocaleString('ru-RU', { maximumFractionDigits: abs < 10 ? 2 : 0 })
+}
+
+/** Bundled chart fonts have no emoji glyphs; category names like "🍔Еда" would draw tofu. */
+export function stripEmoji(text: string): string {
+	return text.replace(/[\p{Extended_Pictographic}\u{FE0F}\u{200D}]/gu, '').trim()
+}
@@ -267,7 +267,105 @@ export class ExchangeService {
 			orderBy: { date: 'desc' }
 		})
 		if (!row?.rates || typeof row.rates !== 'object') return null
-		const rates = this.normalizeRates(row.rates as Record<string, unknown>)
+		return this.rateFromSnapshot(
+			this.normalizeRates(row.rates as Record<string, unknown>),
+			from,
+			to,
+			known
+		)
+	}
+
+	/**
+	 * Snapshot rates of `currencies` in `quote`, one entry per snapshot day between
+	 * `from` and `to`, oldest first. Currencies without a rate that day are left out.
+	 */
+	async getHistoricalRates(
+		from: Date,
+		to: Date,
+		currencies: string[],
+		quote: string
+	): Promise<Array<{ date: Date; currency: string; rate: number }>> {
+		const target = quote.toUpperCase()
+		const codes = [...new Set(currencies.map(c => c.toUpperCase()))].filter(
+			c => c !== target
+		)
+		if (!codes.length) return []
+		const known = await this.getKnownCurrencies()
+		const rows = await this.prisma.exchangeRateSnapshot.findMany({
+			where: {
+				baseCurrency: 'USD',
+				date: { gte: this.toDayStartUtc(from), lte: to }
+			},
+			orderBy: { date: 'asc' }
+		})
+		const result: Array<{ date: Date; currency: string; rate: number }> = []
+		for (const row of rows) {
+			if (!row.rates || typeof row.rates !== 'object') continue
+			const rates = this.normalizeRates(row.rates as Record<string, unknown>)
+			for (const code of codes) {
+				const rate = this.rateFromSnapshot(rates, code, target, known)
+				if (rate != null) result.push({ date: row.date, currency: code, rate })
+			}
+		}
+		return result
+	}
+
+	/**
+	 * Loads the snapshots between `from` and `to` once and answers `getHistoricalRate`
+	 * for any of `currencies` on any day in that range. Days before the first snapshot
+	 * in range fall back to the last one before `from`.
+	 */
+	async getHistoricalRateLookup(
+		from: Date,
+		to: Date,
+		currencies: string[],
+		quote: string
+	): Promise<(date: Date, currency: string) => number | null> {
+		const target = quote.toUpperCase()
+		const codes = [...new Set(currencies.map(c => c.toUpperCase()))].filter(
+			c => c !== target
+		)
+		const points = await this.getHistoricalRates(from, to, codes, target)
+		const byCode = new Map<string, Array<{ time: number; rate: number }>>()
+		for (const point of points) {
+			const list = byCode.get(point.currency) ?? []
+			list.push({ time: point.date.getTime(), rate: point.rate })
+			byCode.set(point.currency, list)
+		}
+		const before = new Map<string, number | null>()
+		for (const code of codes) {
+			before.set(code, await this.getHistoricalRate(from, code, target))
+		}
+		return (date, currency) => {
+			const code = (currency || '').toUpperCase()
+			if (code === target) return 1
+			const day = this.toDayStartUtc(date).getTime()
+			const list = byCode.get(code) ?? []
+			let lo = 0
+			let hi = list.length - 1
+			let found: number | null = null
+			while (lo <= hi) {
+				const mid = (lo + hi) >> 1
+				if (list[mid].time <= day) {
+					found = list[mid].rate
+					lo = mid + 1
+				} else {
+					hi = mid - 1
+				}
+			}
+			return found ?? before.get(code) ?? null
+		}
+	}
+
+	/** Fiat entries of a snapshot are units per USD, crypto ones are USD prices. */
+	private rateFromSnapshot(
+		rates: Record<string, number>,
+		from: string,
+		to: string,
+		known: { fiat: Set<string>; crypto: Set<string> }
+	): number | null {
+		if (!(known.fiat.has(from) || known.crypto.has(from))) return null
+		if (!(known.fiat.has(to) || known.crypto.has(to))) return null
 		const fromFiat = known.fiat.has(from)
 		const toFiat = known.fiat.has(to)
 		let usdValueForOneUnit: number
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common'
+import { AnalyticsModule } from '../analytics/analytics.module'
+import { ExportService } from './export.service'
+import { StatementService } from './statement.service'
+
+@Module({
+	imports: [AnalyticsModule],
+	providers: [ExportService, StatementService],
+	exports: [ExportService, StatementService]
+})
+export class ExportModule {}
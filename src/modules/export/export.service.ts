@@ -0,0 +1,467 @@
+import { Injectable } from '@nestjs/common'
+import type { Prisma } from '../../generated/prisma/client'
+import { PrismaService } from '../prisma/prisma.service'
+import { AnalyticsService, type AnalyticsFilters } from '../analytics/analytics.service'
+import {
+	analyticsPeriodRange,
+	type AnalyticsPeriod
+} from '../analytics/analytics-period.utils'
+import { ExchangeService } from '../exchange/exchange.service'
+import { pickMoneyNumber } from '../../utils/money'
+import { getCurrencyFractionDigits, type CurrencyPrecisionMeta } from '../../utils/format'
+import { timezoneOffsetMinutes } from '../../utils/date'
+import {
+	buildMonthlyPivot,
+	buildTransactionsCsv,
+	buildTransactionsJson,
+	DIRECTION_LABELS,
+	EXPORT_CHUNK_ROWS,
+	exportFileName,
+	summarizeByCategoryAndTag,
+	type ExportTransactionRow,
+	type TransactionExportFormat
+} from './export.utils'
+import { amountFormat, buildXlsx, type XlsxCell, type XlsxSheet } from './xlsx.utils'
+import { buildLedgerJournal, type LedgerFormat } from './ledger.utils'
+
+/** Filter of the transactions list export; without a period the whole history is taken. */
+export type TransactionExportFilter = Omit<AnalyticsFilters, 'period'> & {
+	period?: AnalyticsPeriod
+	/** Case-insensitive match in description, category and tag name */
+	search?: string
+}
+
+type MoneyCell = (value: number | null, currency: string | null) => XlsxCell
+
+const EXPORT_TX_INCLUDE = {
+	account: { select: { name: true } },
+	toAccount: { select: { name: true } },
+	tag: { select: { name: true } }
+} satisfies Prisma.TransactionInclude
+
+type ExportTransaction = Prisma.TransactionGetPayload<{
+	include: typeof EXPORT_TX_INCLUDE
+}>
+
+/** Transactions read per query while a chunk is filled. */
+const EXPORT_PAGE_ROWS = 500
+
+@Injectable()
+export class ExportService {
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly analyticsService: AnalyticsService,
+		private readonly exchangeService: ExchangeService
+	) {}
+
+	/** Transactions matching the analytics filters, with amounts in the main currency. */
+	async getTransactionRows(
+		userId: string,
+		filters: AnalyticsFilters,
+		timezone: string,
+		mainCurrency: string
+	): Promise<ExportTransactionRow[]> {
+		const txs = await this.prisma.transaction.findMany({
+			where: this.analyticsService.transactionsWhere(userId, filters, timezone),
+			include: EXPORT_TX_INCLUDE,
+			orderBy: { transactionDate: 'asc' }
+		})
+		return this.toExportRows(txs, timezone, mainCurrency)
+	}
+
+	/**
+	 * Prisma `where` for a list export: the analytics filters with an optional
+	 * period plus a text search.
+	 */
+	exportWhere(
+		userId: string,
+		filter: TransactionExportFilter,
+		timezone: string
+	): Prisma.TransactionWhereInput {
+		const where: Prisma.TransactionWhereInput = {
+			userId,
+			account: { isHidden: false }
+		}
+		if (filter.period) {
+			const { from, to } = analyticsPeriodRange(filter.period, timezone)
+			where.transactionDate = { gte: from, lte: to }
+		}
+		if (filter.accountId) where.accountId = filter.accountId
+		if (filter.categoryIds?.length) where.categoryId = { in: filter.categoryIds }
+		if (filter.tagIds?.length) where.tagId = { in: filter.tagIds }
+		if (filter.type) where.direction = filter.type
+		const search = filter.search?.trim()
+		if (search) {
+			where.OR = [
+				{ description: { contains: search, mode: 'insensitive' } },
+				{ category: { contains: search, mode: 'insensitive' } },
+				{ tag: { name: { contains: search, mode: 'insensitive' } } }
+			]
+		}
+		return where
+	}
+
+	/**
+	 * Writes the filtered transactions as CSV, XLSX or JSON. Files hold at most
+	 * `EXPORT_CHUNK_ROWS` rows and are handed to `onFile` one by one, so a long
+	 * history never sits in memory at once. Returns the number of exported rows.
+	 */
+	async exportTransactions(
+		userId: string,
+		filter: TransactionExportFilter,
+		format: TransactionExportFormat,
+		onFile: (file: { buffer: Buffer; fileName: string }) => Promise<void>
+	): Promise<number> {
+		const user = await this.prisma.user.findUniqueOrThrow({
+			where: { id: userId },
+			select: { mainCurrency: true, timezone: true }
+		})
+		const where = this.exportWhere(userId, filter, user.timezone)
+		const total = await this.prisma.transaction.count({ where })
+		if (!total) return 0
+		const parts = Math.ceil(total / EXPORT_CHUNK_ROWS)
+		const main = user.mainCurrency
+		const meta =
+			format === 'xlsx'
+				? await this.getCurrencyMeta()
+				: new Map<string, CurrencyPrecisionMeta>()
+		let cursor: string | undefined
+		let exported = 0
+		for (let part = 1; part <= parts; part++) {
+			const rows: ExportTransactionRow[] = []
+			while (rows.length < EXPORT_CHUNK_ROWS) {
+				const take = Math.min(EXPORT_PAGE_ROWS, EXPORT_CHUNK_ROWS - rows.length)
+				const txs = await this.prisma.transaction.findMany({
+					where,
+					include: EXPORT_TX_INCLUDE,
+					orderBy: [{ transactionDate: 'asc' }, { id: 'asc' }],
+					take,
+					...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+				})
+				if (!txs.length) break
+				rows.push(...(await this.toExportRows(txs, user.timezone, main)))
+				cursor = txs[txs.length - 1].id
+				if (txs.length < take) break
+			}
+			if (!rows.length) break
+			const buffer =
+				format === 'xlsx'
+					? buildXlsx([
+							this.transactionsSheet(rows, main, this.moneyCell(meta))
+						])
+					: Buffer.from(
+							format === 'csv'
+								? buildTransactionsCsv(rows, main)
+								: buildTransactionsJson(rows, main),
+							'utf-8'
+						)
+			exported += rows.length
+			await onFile({ buffer, fileName: exportFileName(format, part, parts) })
+		}
+		return exported
+	}
+
+	private async toExportRows(
+		txs: ExportTransaction[],
+		timezone: string,
+		mainCurrency: string
+	): Promise<ExportTransactionRow[]> {
+		const rows: ExportTransactionRow[] = []
+		for (const tx of txs) {
+			const amount = pickMoneyNumber(tx.amountDecimal, tx.amount, 0)
+			const picked = this.analyticsService.pickTxAmount(tx)
+			const mainAmount = await this.analyticsService.toMainCurrency(
+				picked.amount,
+				picked.currency,
+				mainCurrency,
+				tx.transactionDate,
+				this.analyticsService.pickAmountUsd(tx)
+			)
+			rows.push({
+				id: tx.id,
+				date: new Date(
+					tx.transactionDate.getTime() +
+						timezoneOffsetMinutes(timezone, tx.transactionDate) * 60_000
+				),
+				direction: tx.direction,
+				accountName: tx.account.name,
+				toAccountName: tx.toAccount?.name ?? null,
+				amount,
+				currency: tx.currency,
+				convertedAmount:
+					tx.convertedAmount != null
+						? pickMoneyNumber(
+								tx.convertedAmountDecimal,
+								tx.convertedAmount,
+								0
+							)
+						: null,
+				convertToCurrency: tx.convertToCurrency,
+				mainAmount,
+				category: tx.category,
+				tag: tx.tag?.name ?? null,
+				description: tx.description
+			})
+		}
+		return rows
+	}
+
+	async getCurrencyMeta(): Promise<Map<string, CurrencyPrecisionMeta>> {
+		const currencies = await this.prisma.currency.findMany({
+			select: { code: true, type: true, decimals: true }
+		})
+		return new Map(currencies.map(c => [c.code.toUpperCase(), c]))
+	}
+
+	/**
+	 * Workbook with every transaction field, category and tag totals, account
+	 * balances and a category × month pivot.
+	 */
+	async buildAnalyticsWorkbook(
+		userId: string,
+		filters: AnalyticsFilters
+	): Promise<{ buffer: Buffer; count: number }> {
+		const user = await this.prisma.user.findUniqueOrThrow({
+			where: { id: userId },
+			select: { mainCurrency: true, timezone: true }
+		})
+		const main = user.mainCurrency
+		const [rows, meta] = await Promise.all([
+			this.getTransactionRows(userId, filters, user.timezone, main),
+			this.getCurrencyMeta()
+		])
+		const money = this.moneyCell(meta)
+		const sheets: XlsxSheet[] = [
+			this.transactionsSheet(rows, main, money),
+			{
+				name: 'Категории и теги',
+				columns: [12, 24, 16, 16, 10],
+				rows: [
+					[
+						'Группа',
+						'Название',
+						`Расходы, ${main}`,
+						`Доходы, ${main}`,
+						'Операций'
+					],
+					...summarizeByCategoryAndTag(rows).map(item => [
+						item.group === 'category' ? 'Категория' : 'Тег',
+						item.name,
+						money(item.expense, main),
+						money(item.income, main),
+						item.count
+					])
+				]
+			},
+			{
+				name: 'Счета',
+				columns: [24, 10, 18, 18],
+				rows: await this.balanceRows(userId, filters.accountId, main, money)
+			}
+		]
+		const pivot = buildMonthlyPivot(rows)
+		sheets.push({
+			name: 'По месяцам',
+			columns: [10, 24, ...pivot.months.map(() => 14), 16],
+			rows: [
+				['Тип', 'Категория', ...pivot.months, `Итого, ${main}`],
+				...pivot.rows.map(item => [
+					DIRECTION_LABELS[item.direction],
+					item.category,
+					...item.values.map(v => money(v, main)),
+					money(item.total, main)
+				])
+			]
+		})
+		return { buffer: buildXlsx(sheets), count: rows.length }
+	}
+
+	/**
+	 * Whole-wallet journal for Beancount or hledger: accounts with opening
+	 * balances, every transaction and daily prices from the rate snapshots.
+	 */
+	async buildLedgerExport(
+		userId: string,
+		format: LedgerFormat
+	): Promise<{ buffer: Buffer; fileName: string; count: number }> {
+		const user = await this.prisma.user.findUniqueOrThrow({
+			where: { id: userId },
+			select: { mainCurrency: true, timezone: true }
+		})
+		const [accounts, txs, meta] = await Promise.all([
+			this.prisma.account.findMany({
+				where: { userId },
+				include: { assets: true },
+				orderBy: { createdAt: 'asc' }
+			}),
+			this.prisma.transaction.findMany({
+				where: { userId },
+				include: { tag: { select: { name: true } } },
+				orderBy: [{ transactionDate: 'asc' }, { createdAt: 'asc' }]
+			}),
+			this.getCurrencyMeta()
+		])
+		const localDate = (date: Date) =>
+			new Date(date.getTime() + timezoneOffsetMinutes(user.timezone, date) * 60_000)
+				.toISOString()
+				.slice(0, 10)
+		const currencies = new Set<string>()
+		for (const account of accounts) {
+			for (const asset of account.assets) currencies.add(asset.currency)
+		}
+		for (const tx of txs) {
+			currencies.add(tx.currency)
+			if (tx.convertToCurrency) currencies.add(tx.convertToCurrency)
+		}
+		const now = new Date()
+		const prices = txs.length
+			? await this.exchangeService.getHistoricalRates(
+					txs[0].transactionDate,
+					now,
+					[...currencies],
+					user.mainCurrency
+				)
+			: []
+		const journal = buildLedgerJournal({
+			format,
+			mainCurrency: user.mainCurrency,
+			today: localDate(now),
+			fractionDigits: currency =>
+				getCurrencyFractionDigits(currency, meta.get(currency.toUpperCase())),
+			accounts: accounts.map(account => ({
+				id: account.id,
+				name: account.name,
+				type: account.type,
+				isHidden: account.isHidden,
+				assets: account.assets.map(asset => ({
+					currency: asset.currency,
+					amount: pickMoneyNumber(asset.amountDecimal, asset.amount, 0)
+				}))
+			})),
+			transactions: txs.map(tx => ({
+				id: tx.id,
+				date: localDate(tx.transactionDate),
+				direction: tx.direction,
+				accountId: tx.accountId,
+				fromAccountId: tx.fromAccountId,
+				toAccountId: tx.toAccountId,
+				amount: pickMoneyNumber(tx.amountDecimal, tx.amount, 0),
+				currency: tx.currency,
+				convertedAmount:
+					tx.convertedAmount != null
+						? pickMoneyNumber(
+								tx.convertedAmountDecimal,
+								tx.convertedAmount,
+								0
+							)
+						: null,
+				convertToCurrency: tx.convertToCurrency,
+				category: tx.category,
+				tag: tx.tag?.name ?? null,
+				description: tx.description
+			})),
+			prices: prices.map(p => ({
+				date: p.date.toISOString().slice(0, 10),
+				currency: p.currency,
+				rate: p.rate
+			}))
+		})
+		return {
+			buffer: Buffer.from(journal, 'utf8'),
+			fileName:
+				format === 'beancount' ? 'coinpilot.beancount' : 'coinpilot.journal',
+			count: txs.length
+		}
+	}
+
+	private moneyCell(meta: Map<string, CurrencyPrecisionMeta>): MoneyCell {
+		return (value, currency) => {
+			if (value == null || !currency) return null
+			const digits = getCurrencyFractionDigits(
+				currency,
+				meta.get(currency.toUpperCase())
+			)
+			return { value, format: amountFormat(digits) }
+		}
+	}
+
+	private transactionsSheet(
+		rows: ExportTransactionRow[],
+		main: string,
+		money: MoneyCell
+	): XlsxSheet {
+		return {
+			name: 'Операции',
+			columns: [18, 10, 20, 20, 14, 8, 14, 8, 16, 20, 16, 40, 38],
+			rows: [
+				[
+					'Дата',
+					'Тип',
+					'Счёт',
+					'Счёт назначения',
+					'Сумма',
+					'Валюта',
+					'Сумма конвертации',
+					'Валюта конвертации',
+					`Сумма, ${main}`,
+					'Категория',
+					'Тег',
+					'Описание',
+					'ID'
+				],
+				...rows.map(row => [
+					row.date,
+					DIRECTION_LABELS[row.direction],
+					row.accountName,
+					row.toAccountName,
+					money(row.amount, row.currency),
+					row.currency,
+					money(row.convertedAmount, row.convertToCurrency),
+					row.convertToCurrency,
+					money(row.mainAmount, main),
+					row.category,
+					row.tag,
+					row.description,
+					row.id
+				])
+			]
+		}
+	}
+
+	private async balanceRows(
+		userId: string,
+		accountId: string | undefined,
+		mainCurrency: string,
+		money: (value: number, currency: string) => XlsxCell
+	): Promise<XlsxCell[][]> {
+		const accounts = await this.prisma.account.findMany({
+			where: accountId ? { id: accountId, userId } : { userId, isHidden: false },
+			include: { assets: true },
+			orderBy: { createdAt: 'asc' }
+		})
+		const rows: XlsxCell[][] = [
+			['Счёт', 'Валюта', 'Баланс', `Баланс, ${mainCurrency}`]
+		]
+		let total = 0
+		for (const account of accounts) {
+			for (const asset of account.assets) {
+				const amount = pickMoneyNumber(asset.amountDecimal, asset.amount, 0)
+				if (amount === 0) continue
+				const inMain = await this.analyticsService.toMainCurrency(
+					amount,
+					asset.currency,
+					mainCurrency
+				)
+				total += inMain
+				rows.push([
+					account.name,
+					asset.currency,
+					money(amount, asset.currency),
+					money(inMain, mainCurrency)
+				])
+			}
+		}
+		rows.push(['Итого', null, null, money(total, mainCurrency)])
+		return rows
+	}
+}
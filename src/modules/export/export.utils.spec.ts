@@ -0,0 +1,121 @@
+import {
+	buildMonthlyPivot,
+	buildTransactionsCsv,
+	buildTransactionsJson,
+	exportFileName,
+	parseExportCommand,
+	summarizeByCategoryAndTag,
+	type ExportTransactionRow
+} from './export.utils'
+
+function row(partial: Partial<ExportTransactionRow>): ExportTransactionRow {
+	return {
+		id: 'id',
+		date: new Date(Date.UTC(2026, 0, 15)),
+		direction: 'expense',
+		accountName: 'Card',
+		toAccountName: null,
+		amount: 0,
+		currency: 'EUR',
+		convertedAmount: null,
+		convertToCurrency: null,
+		mainAmount: 0,
+		category: null,
+		tag: null,
+		description: null,
+		...partial
+	}
+}
+
+describe('export.utils', () => {
+	const rows = [
+		row({ mainAmount: 10, category: 'Еда', tag: 'кофе' }),
+		row({ mainAmount: 30, category: 'Еда', date: new Date(Date.UTC(2026, 1, 2)) }),
+		row({ mainAmount: 100, category: 'Зарплата', direction: 'income' }),
+		row({ mainAmount: 500, direction: 'transfer' })
+	]
+
+	it('sums categories and tags without transfers', () => {
+		const summary = summarizeByCategoryAndTag(rows)
+		expect(summary[0]).toEqual({
+			group: 'category',
+			name: 'Зарплата',
+			expense: 0,
+			income: 100,
+			count: 1
+		})
+		expect(summary.find(s => s.name === 'Еда')).toMatchObject({
+			expense: 40,
+			count: 2
+		})
+		expect(summary.find(s => s.name === 'кофе')).toMatchObject({ expense: 10 })
+		expect(summary.find(s => s.name === 'Без тега')).toMatchObject({
+			expense: 30,
+			income: 100
+		})
+	})
+
+	it('pivots categories by month, expenses first', () => {
+		const pivot = buildMonthlyPivot(rows)
+		expect(pivot.months).toEqual(['2026-01', '2026-02'])
+		expect(pivot.rows).toEqual([
+			{ direction: 'expense', category: 'Еда', values: [10, 30], total: 40 },
+			{ direction: 'income', category: 'Зарплата', values: [100, 0], total: 100 }
+		])
+	})
+
+	it('writes flat CSV and JSON records with local dates', () => {
+		const sample = [
+			row({
+				date: new Date(Date.UTC(2026, 0, 15, 9, 5)),
+				amount: 4.5,
+				mainAmount: 4.876,
+				category: 'Еда',
+				description: 'Кофе, "с собой"'
+			})
+		]
+		const csv = buildTransactionsCsv(sample, 'USD').split('\n')
+		expect(csv[0]).toBe(
+			'"date","direction","account","toAccount","amount","currency","convertedAmount","convertToCurrency","mainAmount","mainCurrency","category","tag","description","id"'
+		)
+		expect(csv[1]).toBe(
+			'"2026-01-15 09:05","expense","Card",,4.5,"EUR",,,4.88,"USD","Еда",,"Кофе, ""с собой""","id"'
+		)
+		expect(JSON.parse(buildTransactionsJson(sample, 'USD'))).toEqual([
+			expect.objectContaining({
+				date: '2026-01-15 09:05',
+				mainAmount: 4.88,
+				tag: null
+			})
+		])
+	})
+
+	it('numbers file names only when the export is split', () => {
+		expect(exportFileName('xlsx', 1, 1)).toBe('transactions.xlsx')
+		expect(exportFileName('csv', 2, 3)).toBe('transactions_2of3.csv')
+	})
+
+	it('parses /export filters and leaves the rest for text search', () => {
+		expect(
+			parseExportCommand(
+				'xlsx счёт:"Наличные USD" тип:расходы с:01.02.2026 по:2026-02-28 тег:кофе латте'
+			)
+		).toEqual({
+			format: 'xlsx',
+			account: 'Наличные USD',
+			type: 'expense',
+			from: { year: 2026, month: 1, day: 1 },
+			to: { year: 2026, month: 1, day: 28 },
+			tag: 'кофе',
+			search: 'латте'
+		})
+		expect(parseExportCommand('')).toEqual({ format: 'csv' })
+		expect(parseExportCommand('JSON "такси домой" category:Транспорт')).toEqual({
+			format: 'json',
+			category: 'Транспорт',
+			search: 'такси домой'
+		})
+		expect(parseExportCommand('с:31.02.2026')).toHaveProperty('error')
+		expect(parseExportCommand('тип:кредит')).toHaveProperty('error')
+	})
+})
@@ -0,0 +1,330 @@
+import type { LocalDate } from '../analytics/analytics-period.utils'
+
+export interface ExportTransactionRow {
+	id: string
+	/** Wall-clock time in the user's zone, stored in the UTC fields */
+	date: Date
+	direction: 'income' | 'expense' | 'transfer'
+	accountName: string
+	toAccountName: string | null
+	amount: number
+	currency: string
+	convertedAmount: number | null
+	convertToCurrency: string | null
+	/** Amount in the user's main currency at the transaction date */
+	mainAmount: number
+	category: string | null
+	tag: string | null
+	description: string | null
+}
+
+export interface CategoryTagSummaryRow {
+	group: 'category' | 'tag'
+	name: string
+	expense: number
+	income: number
+	count: number
+}
+
+export interface MonthlyPivot {
+	/** `YYYY-MM`, ascending */
+	months: string[]
+	rows: Array<{
+		direction: 'income' | 'expense'
+		category: string
+		values: number[]
+		total: number
+	}>
+}
+
+export const DIRECTION_LABELS: Record<ExportTransactionRow['direction'], string> = {
+	income: 'Доход',
+	expense: 'Расход',
+	transfer: 'Перевод'
+}
+
+const NO_CATEGORY = 'Без категории'
+const NO_TAG = 'Без тега'
+
+export function monthKey(date: Date): string {
+	return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`
+}
+
+/** Income and expense totals per category and per tag; transfers are left out. */
+export function summarizeByCategoryAndTag(
+	rows: ExportTransactionRow[]
+): CategoryTagSummaryRow[] {
+	const groups = new Map<string, CategoryTagSummaryRow>()
+	const add = (group: 'category' | 'tag', name: string, row: ExportTransactionRow) => {
+		const key = `${group}|${name}`
+		const item = groups.get(key) ?? { group, name, expense: 0, income: 0, count: 0 }
+		if (row.direction === 'expense') item.expense += row.mainAmount
+		else item.income += row.mainAmount
+		item.count++
+		groups.set(key, item)
+	}
+	for (const row of rows) {
+		if (row.direction === 'transfer') continue
+		add('category', row.category || NO_CATEGORY, row)
+		add('tag', row.tag || NO_TAG, row)
+	}
+	return Array.from(groups.values()).sort(
+		(a, b) =>
+			(a.group === b.group ? 0 : a.group === 'category' ? -1 : 1) ||
+			b.expense + b.income - (a.expense + a.income)
+	)
+}
+
+/** Category × month totals in the main currency, expenses first. */
+export function buildMonthlyPivot(rows: ExportTransactionRow[]): MonthlyPivot {
+	const months = Array.from(
+		new Set(rows.filter(r => r.direction !== 'transfer').map(r => monthKey(r.date)))
+	).sort()
+	const index = new Map(months.map((m, i) => [m, i]))
+	const byCategory = new Map<string, MonthlyPivot['rows'][number]>()
+	for (const row of rows) {
+		if (row.direction === 'transfer') continue
+		const category = row.category || NO_CATEGORY
+		const key = `${row.direction}|${category}`
+		const item = byCategory.get(key) ?? {
+			direction: row.direction,
+			category,
+			values: months.map(() => 0),
+			total: 0
+		}
+		item.values[index.get(monthKey(row.date))!] += row.mainAmount
+		item.total += row.mainAmount
+		byCategory.set(key, item)
+	}
+	return {
+		months,
+		rows: Array.from(byCategory.values()).sort(
+			(a, b) =>
+				(a.direction === b.direction ? 0 : a.direction === 'expense' ? -1 : 1) ||
+				b.total - a.total
+		)
+	}
+}
+
+export type TransactionExportFormat = 'csv' | 'xlsx' | 'json'
+
+export const TRANSACTION_EXPORT_FORMATS: TransactionExportFormat[] = [
+	'csv',
+	'xlsx',
+	'json'
+]
+
+/** Rows per file: bigger exports go out as several documents, built one at a time. */
+export const EXPORT_CHUNK_ROWS = 5000
+
+/** Flat row of the CSV and JSON exports. */
+export interface TransactionExportRecord {
+	date: string
+	direction: ExportTransactionRow['direction']
+	account: string
+	toAccount: string | null
+	amount: number
+	currency: string
+	convertedAmount: number | null
+	convertToCurrency: string | null
+	mainAmount: number
+	mainCurrency: string
+	category: string | null
+	tag: string | null
+	description: string | null
+	id: string
+}
+
+const RECORD_FIELDS: Array<keyof TransactionExportRecord> = [
+	'date',
+	'direction',
+	'account',
+	'toAccount',
+	'amount',
+	'currency',
+	'convertedAmount',
+	'convertToCurrency',
+	'mainAmount',
+	'mainCurrency',
+	'category',
+	'tag',
+	'description',
+	'id'
+]
+
+/** `YYYY-MM-DD HH:mm` of a row date that already holds the user's wall-clock time. */
+export function formatExportDate(date: Date): string {
+	return date.toISOString().slice(0, 16).replace('T', ' ')
+}
+
+export function transactionExportRecord(
+	row: ExportTransactionRow,
+	mainCurrency: string
+): TransactionExportRecord {
+	return {
+		date: formatExportDate(row.date),
+		direction: row.direction,
+		account: row.accountName,
+		toAccount: row.toAccountName,
+		amount: row.amount,
+		currency: row.currency,
+		convertedAmount: row.convertedAmount,
+		convertToCurrency: row.convertToCurrency,
+		mainAmount: Math.round(row.mainAmount * 100) / 100,
+		mainCurrency,
+		category: row.category,
+		tag: row.tag,
+		description: row.description,
+		id: row.id
+	}
+}
+
+/** Strings are always quoted and numbers left bare, the way the analytics CSV reads. */
+function csvValue(value: string | number | null): string {
+	if (value == null) return ''
+	if (typeof value === 'number') return String(value)
+	return `"${value.replace(/"/g, '""')}"`
+}
+
+export function buildTransactionsCsv(
+	rows: ExportTransactionRow[],
+	mainCurrency: string
+): string {
+	const lines = [RECORD_FIELDS.map(csvValue).join(',')]
+	for (const row of rows) {
+		const record = transactionExportRecord(row, mainCurrency)
+		lines.push(RECORD_FIELDS.map(field => csvValue(record[field])).join(','))
+	}
+	return lines.join('\n')
+}
+
+export function buildTransactionsJson(
+	rows: ExportTransactionRow[],
+	mainCurrency: string
+): string {
+	return JSON.stringify(
+		rows.map(row => transactionExportRecord(row, mainCurrency)),
+		null,
+		2
+	)
+}
+
+/** `transactions.csv` for a single file, `transactions_2of3.csv` for parts. */
+export function exportFileName(
+	format: TransactionExportFormat,
+	part: number,
+	parts: number
+): string {
+	return parts > 1
+		? `transactions_${part}of${parts}.${format}`
+		: `transactions.${format}`
+}
+
+/** `/export` arguments; names are matched against the user's data by the caller. */
+export interface ExportCommand {
+	format: TransactionExportFormat
+	account?: string
+	category?: string
+	tag?: string
+	type?: ExportTransactionRow['direction']
+	from?: LocalDate
+	to?: LocalDate
+	search?: string
+}
+
+const COMMAND_KEYS: Record<
+	string,
+	'account' | 'category' | 'tag' | 'type' | 'from' | 'to'
+> = {
+	account: 'account',
+	счёт: 'account',
+	счет: 'account',
+	category: 'category',
+	категория: 'category',
+	tag: 'tag',
+	тег: 'tag',
+	type: 'type',
+	тип: 'type',
+	from: 'from',
+	с: 'from',
+	to: 'to',
+	по: 'to'
+}
+
+const COMMAND_TYPES: Record<string, ExportTransactionRow['direction']> = {
+	expense: 'expense',
+	расход: 'expense',
+	расходы: 'expense',
+	income: 'income',
+	доход: 'income',
+	доходы: 'income',
+	transfer: 'transfer',
+	перевод: 'transfer',
+	переводы: 'transfer'
+}
+
+function parseCommandDate(value: string): LocalDate | null {
+	const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+	const dotted = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/)
+	const parts = iso
+		? { year: Number(iso[1]), month: Number(iso[2]) - 1, day: Number(iso[3]) }
+		: dotted
+			? {
+					year: Number(dotted[3]),
+					month: Number(dotted[2]) - 1,
+					day: Number(dotted[1])
+				}
+			: null
+	if (!parts) return null
+	const d = new Date(Date.UTC(parts.year, parts.month, parts.day))
+	return d.getUTCMonth() === parts.month && d.getUTCDate() === parts.day ? parts : null
+}
+
+/**
+ * Reads `/export [csv|xlsx|json] счёт:Revolut тип:расход с:01.01.2026 кофе`.
+ * Values with spaces go in quotes; words without a key become the text search.
+ */
+export function parseExportCommand(args: string): ExportCommand | { error: string } {
+	const result: ExportCommand = { format: 'csv' }
+	const words: string[] = []
+	const tokenRe = /([^\s:"]+):(?:"([^"]*)"|(\S*))|"([^"]*)"|(\S+)/g
+	let m: RegExpExecArray | null
+	while ((m = tokenRe.exec(args)) !== null) {
+		const key = m[1] ? COMMAND_KEYS[m[1].toLowerCase()] : undefined
+		if (m[1] && !key) {
+			words.push(m[0])
+			continue
+		}
+		if (key) {
+			const value = (m[2] ?? m[3] ?? '').trim()
+			if (!value) return { error: `Не указано значение для «${m[1]}».` }
+			if (key === 'type') {
+				const type = COMMAND_TYPES[value.toLowerCase()]
+				if (!type) {
+					return {
+						error: `Неизвестный тип «${value}». Доступны: расход, доход, перевод.`
+					}
+				}
+				result.type = type
+			} else if (key === 'from' || key === 'to') {
+				const date = parseCommandDate(value)
+				if (!date) {
+					return {
+						error: `Не понял дату «${value}». Используйте формат ДД.ММ.ГГГГ.`
+					}
+				}
+				result[key] = date
+			} else {
+				result[key] = value
+			}
+			continue
+		}
+		const word = m[4] ?? m[5]
+		const format = word.toLowerCase() as TransactionExportFormat
+		if (TRANSACTION_EXPORT_FORMATS.includes(format)) result.format = format
+		else if (word.trim()) words.push(word)
+	}
+	const search = words.join(' ').trim()
+	if (search) result.search = search
+	return result
+}
@@ -0,0 +1,175 @@
+import {
+	buildLedgerJournal,
+	formatLedgerNumber,
+	ledgerAccountComponent,
+	ledgerCommodity,
+	type LedgerFormat,
+	type LedgerJournalInput,
+	type LedgerTransaction
+} from './ledger.utils'
+
+function tx(partial: Partial<LedgerTransaction>): LedgerTransaction {
+	return {
+		id: 't',
+		date: '2026-03-01',
+		direction: 'expense',
+		accountId: 'card',
+		fromAccountId: null,
+		toAccountId: null,
+		amount: 0,
+		currency: 'EUR',
+		convertedAmount: null,
+		convertToCurrency: null,
+		category: null,
+		tag: null,
+		description: null,
+		...partial
+	}
+}
+
+function input(format: LedgerFormat): LedgerJournalInput {
+	return {
+		format,
+		mainCurrency: 'EUR',
+		today: '2026-03-10',
+		fractionDigits: currency => (currency === 'BTC' ? 8 : 2),
+		accounts: [
+			{
+				id: 'card',
+				name: 'Monobank card',
+				type: 'bank',
+				isHidden: false,
+				assets: [{ currency: 'EUR', amount: 158.1 }]
+			},
+			{
+				id: 'btc',
+				name: 'Cold wallet',
+				type: 'crypto',
+				isHidden: false,
+				assets: [{ currency: 'BTC', amount: 0.001 }]
+			},
+			{ id: 'out', name: 'Вне Wallet', type: 'cash', isHidden: true, assets: [] }
+		],
+		transactions: [
+			tx({ id: 'a', direction: 'income', amount: 100, category: 'Зарплата' }),
+			tx({
+				id: 'b',
+				date: '2026-03-02',
+				amount: 10,
+				currency: 'USD',
+				convertedAmount: 9.2,
+				convertToCurrency: 'EUR',
+				category: 'Кафе',
+				tag: 'Кофе, утро',
+				description: 'Latte "large"; to go'
+			}),
+			tx({
+				id: 'c',
+				date: '2026-03-03',
+				direction: 'transfer',
+				amount: 30,
+				toAccountId: 'btc',
+				convertedAmount: 0.0005,
+				convertToCurrency: 'BTC'
+			}),
+			tx({
+				id: 'd',
+				date: '2026-03-04',
+				direction: 'transfer',
+				amount: 2.7,
+				toAccountId: 'out'
+			})
+		],
+		prices: [
+			{ date: '2026-03-01', currency: 'USD', rate: 0.92 },
+			{ date: '2026-03-01', currency: 'BTC', rate: 60000 },
+			{ date: '2026-03-01', currency: 'GBP', rate: 1.17 }
+		]
+	}
+}
+
+/** Sums posting weights per transaction the way both tools do and returns the leftovers. */
+function unbalanced(journal: string): string[] {
+	const problems: string[] = []
+	for (const block of journal.split('\n\n')) {
+		const postings = block
+			.split('\n')
+			.filter(line => /^ +[A-Z]/.test(line) && !/^ +[a-z]+:/.test(line))
+		if (!postings.length) continue
+		const totals = new Map<string, number>()
+		for (const line of postings) {
+			const m = line.match(
+				/ {2}(-?[\d.]+) ("?[A-Z]+"?)(?: @@ ([\d.]+) ("?[A-Z]+"?))?$/
+			)
+			if (!m) {
+				problems.push(line)
+				continue
+			}
+			const [, qty, currency, price, priceCurrency] = m
+			const sign = qty.startsWith('-') ? -1 : 1
+			const key = price ? priceCurrency : currency
+			const value = price ? sign * Number(price) : Number(qty)
+			totals.set(key, Math.round(((totals.get(key) ?? 0) + value) * 1e8) / 1e8)
+		}
+		for (const [currency, total] of totals) {
+			if (total !== 0)
+				problems.push(`${block.split('\n')[0]}: ${total} ${currency}`)
+		}
+	}
+	return problems
+}
+
+describe('ledger.utils', () => {
+	it('formats fixed-point numbers without float noise', () => {
+		expect(formatLedgerNumber(0.1 + 0.2, 2)).toBe('0.30')
+		expect(formatLedgerNumber(0.0005, 8)).toBe('0.0005')
+		expect(formatLedgerNumber(12, 8)).toBe('12.00')
+		expect(formatLedgerNumber(-0.001, 2)).toBe('0.00')
+		expect(formatLedgerNumber(1500, 0)).toBe('1500')
+	})
+
+	it('makes account names and commodities the tools accept', () => {
+		expect(ledgerAccountComponent('вне  wallet: old')).toBe('Вне-wallet-old')
+		expect(ledgerAccountComponent('  ')).toBe('Other')
+		expect(ledgerCommodity('beancount', '1inch')).toBe('C1INCH')
+		expect(ledgerCommodity('hledger', '1inch')).toBe('"1INCH"')
+		expect(ledgerCommodity('hledger', 'usdt')).toBe('USDT')
+	})
+
+	it.each(['beancount', 'hledger'] as LedgerFormat[])(
+		'writes a balanced %s journal',
+		format => {
+			const journal = buildLedgerJournal(input(format))
+			expect(unbalanced(journal)).toEqual([])
+			expect(journal).toContain('Expenses:Кафе  10.00 USD @@ 9.20 EUR')
+			expect(journal).toContain(
+				'Assets:Crypto:Cold-wallet  0.0005 BTC @@ 30.00 EUR'
+			)
+			expect(journal).toContain('Equity:External:Вне-Wallet  2.70 EUR')
+			expect(journal).toContain('Income:Зарплата  -100.00 EUR')
+			expect(journal).not.toContain('GBP')
+		}
+	)
+
+	it('opens accounts with the balance they had before the first transaction', () => {
+		const journal = buildLedgerJournal(input('beancount'))
+		// 158.10 now = opening + 100 - 9.20 - 30 - 2.70
+		expect(journal).toContain(
+			'2026-03-01 * "Начальный остаток"\n  Assets:Bank:Monobank-card  100.00 EUR'
+		)
+		expect(journal).toContain('  Assets:Crypto:Cold-wallet  0.0005 BTC\n')
+		expect(journal).toContain('2026-03-01 open Assets:Bank:Monobank-card')
+		expect(journal).toContain('2026-03-01 price USD 0.92 EUR')
+		expect(journal).toContain('  tag: "Кофе, утро"')
+		expect(journal).toContain('2026-03-02 * "Latte \\"large\\"; to go"')
+	})
+
+	it('keeps tags as hledger tags without breaking the comment', () => {
+		const journal = buildLedgerJournal(input('hledger'))
+		expect(journal).toContain(
+			'2026-03-02 * Latte "large", to go  ; id:b, tag:Кофе утро'
+		)
+		expect(journal).toContain('P 2026-03-01 BTC 60000.00 EUR')
+		expect(journal).toContain('account Equity:Opening-Balances')
+	})
+})
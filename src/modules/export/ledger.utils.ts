@@ -0,0 +1,340 @@
+import { balanceKey, transactionBalanceEffects } from '../backup/backup.utils'
+
+export type LedgerFormat = 'beancount' | 'hledger'
+
+export const LEDGER_FORMATS: LedgerFormat[] = ['beancount', 'hledger']
+
+export interface LedgerAccount {
+	id: string
+	name: string
+	type: 'cash' | 'bank' | 'crypto'
+	/** Hidden accounts stand for the world outside the wallet */
+	isHidden: boolean
+	assets: Array<{ currency: string; amount: number }>
+}
+
+export interface LedgerTransaction {
+	id: string
+	/** Local date, `YYYY-MM-DD` */
+	date: string
+	direction: 'income' | 'expense' | 'transfer'
+	accountId: string
+	fromAccountId: string | null
+	toAccountId: string | null
+	amount: number
+	currency: string
+	convertedAmount: number | null
+	convertToCurrency: string | null
+	category: string | null
+	tag: string | null
+	description: string | null
+}
+
+export interface LedgerPrice {
+	/** `YYYY-MM-DD` */
+	date: string
+	currency: string
+	/** Price of one unit of `currency` in the main currency */
+	rate: number
+}
+
+export interface LedgerJournalInput {
+	format: LedgerFormat
+	mainCurrency: string
+	accounts: LedgerAccount[]
+	transactions: LedgerTransaction[]
+	prices: LedgerPrice[]
+	/** Decimal places an amount in `currency` is written with */
+	fractionDigits: (currency: string) => number
+	/** Used as the opening date when there are no transactions */
+	today: string
+}
+
+interface Posting {
+	account: string
+	amount: string
+	currency: string
+	/** Total price `@@`, for postings in another currency than the account side */
+	price?: { amount: string; currency: string }
+}
+
+const OPENING_ACCOUNT = 'Equity:Opening-Balances'
+const NO_CATEGORY = 'Без категории'
+// crypto amounts keep satoshi precision; float noise starts further down
+const MAX_FRACTION_DIGITS = 8
+const PRICE_FRACTION_DIGITS = 12
+const ACCOUNT_TYPE_NAMES: Record<LedgerAccount['type'], string> = {
+	cash: 'Cash',
+	bank: 'Bank',
+	crypto: 'Crypto'
+}
+
+/**
+ * Fixed-point number without exponent. Both sides of a posting pair are
+ * written from the same string, so they cancel out exactly.
+ */
+export function formatLedgerNumber(value: number, digits: number): string {
+	const places = Math.max(0, Math.min(digits, PRICE_FRACTION_DIGITS))
+	let text = (Object.is(value, -0) ? 0 : value).toFixed(places)
+	const keep = Math.min(2, places)
+	if (places > keep) {
+		text = text.replace(new RegExp(`(\\.\\d{${keep}}\\d*?)0+$`), '$1')
+	}
+	return text === `-${(0).toFixed(places)}` ? text.slice(1) : text
+}
+
+function negate(amount: string): string {
+	if (amount.startsWith('-')) return amount.slice(1)
+	return /^0(\.0*)?$/.test(amount) ? amount : `-${amount}`
+}
+
+/** One component of an account path, valid in Beancount, hledger and Ledger. */
+export function ledgerAccountComponent(name: string): string {
+	const clean = name
+		.normalize('NFC')
+		.replace(/[^\p{L}\p{N}-]+/gu, '-')
+		.replace(/-{2,}/g, '-')
+		.replace(/^-+|-+$/g, '')
+	if (!clean) return 'Other'
+	return clean[0].toUpperCase() + clean.slice(1)
+}
+
+export function ledgerCommodity(format: LedgerFormat, code: string): string {
+	const upper = code.trim().toUpperCase()
+	if (format === 'hledger') {
+		return /^[A-Z]+$/.test(upper) ? upper : `"${upper.replace(/"/g, '')}"`
+	}
+	// Beancount: capital letter first, letters/digits/'._- inside, 2–24 characters
+	let clean = upper.replace(/[^A-Z0-9'._-]/g, '')
+	if (!/^[A-Z]/.test(clean)) clean = `C${clean}`
+	clean = clean.replace(/[^A-Z0-9]+$/, '')
+	if (clean.length < 2) clean = `${clean}X`
+	return clean.slice(0, 24)
+}
+
+function quoteBeancount(value: string): string {
+	return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\s+/g, ' ')}"`
+}
+
+/** hledger/Ledger: a `;` starts a comment and `,` ends a tag value. */
+function plainText(value: string, forTag = false): string {
+	const clean = value.replace(/\s+/g, ' ').replace(/;/g, ',').trim()
+	return forTag ? clean.replace(/,\s*/g, ' ') : clean
+}
+
+class AccountNames {
+	private readonly used = new Set<string>()
+	private readonly byKey = new Map<string, string>()
+
+	get(key: string, path: string[]): string {
+		const existing = this.byKey.get(key)
+		if (existing) return existing
+		const base = path.map(ledgerAccountComponent).join(':')
+		let name = base
+		for (let i = 2; this.used.has(name.toLowerCase()); i++) name = `${base}-${i}`
+		this.used.add(name.toLowerCase())
+		this.byKey.set(key, name)
+		return name
+	}
+
+	all(): string[] {
+		return Array.from(this.byKey.values())
+	}
+}
+
+/**
+ * Opening balances are what each account held before its first transaction:
+ * the current assets minus the effect of every transaction, as `TransactionsService`
+ * applies it.
+ */
+function openingBalances(input: LedgerJournalInput): Map<string, number> {
+	const opening = new Map<string, number>()
+	for (const account of input.accounts) {
+		if (account.isHidden) continue
+		for (const asset of account.assets) {
+			const key = balanceKey(account.id, asset.currency)
+			opening.set(key, (opening.get(key) ?? 0) + asset.amount)
+		}
+	}
+	const hidden = new Set(input.accounts.filter(a => a.isHidden).map(a => a.id))
+	for (const tx of input.transactions) {
+		for (const effect of transactionBalanceEffects(tx)) {
+			if (hidden.has(effect.accountId)) continue
+			const key = balanceKey(effect.accountId, effect.currency)
+			opening.set(key, (opening.get(key) ?? 0) - effect.delta)
+		}
+	}
+	return opening
+}
+
+/**
+ * Beancount or hledger journal of the whole wallet. Every transaction balances
+ * exactly: foreign-currency postings carry a total price (`@@`) equal to the
+ * account side, and historical rates are written as price directives.
+ */
+export function buildLedgerJournal(input: LedgerJournalInput): string {
+	const { format } = input
+	const names = new AccountNames()
+	const accountsById = new Map(input.accounts.map(a => [a.id, a]))
+	const accountName = (id: string): string => {
+		const account = accountsById.get(id)
+		if (!account) return names.get(`account:${id}`, ['Equity', 'External', id])
+		return account.isHidden
+			? names.get(`account:${id}`, ['Equity', 'External', account.name])
+			: names.get(`account:${id}`, [
+					'Assets',
+					ACCOUNT_TYPE_NAMES[account.type],
+					account.name
+				])
+	}
+	const categoryName = (root: 'Expenses' | 'Income', category: string | null) =>
+		names.get(`${root}:${(category || NO_CATEGORY).toLowerCase()}`, [
+			root,
+			category || NO_CATEGORY
+		])
+	const amount = (value: number, currency: string) =>
+		formatLedgerNumber(
+			value,
+			Math.min(input.fractionDigits(currency), MAX_FRACTION_DIGITS)
+		)
+	const commodity = (code: string) => ledgerCommodity(format, code)
+
+	const transactions = [...input.transactions]
+		.filter(tx => transactionBalanceEffects(tx).length > 0)
+		.sort((a, b) => a.date.localeCompare(b.date))
+	const openingDate = transactions[0]?.date ?? input.today
+	names.get('opening', OPENING_ACCOUNT.split(':'))
+	for (const account of input.accounts) accountName(account.id)
+
+	const entries: string[] = []
+	const usedCurrencies = new Set<string>()
+	const writeEntry = (
+		date: string,
+		description: string,
+		meta: Array<[string, string]>,
+		postings: Posting[]
+	) => {
+		const lines: string[] = []
+		if (format === 'beancount') {
+			lines.push(`${date} * ${quoteBeancount(description)}`)
+			for (const [key, value] of meta)
+				lines.push(`  ${key}: ${quoteBeancount(value)}`)
+		} else {
+			const tags = meta.map(([key, value]) => `${key}:${plainText(value, true)}`)
+			lines.push(
+				`${date} * ${plainText(description)}${tags.length ? `  ; ${tags.join(', ')}` : ''}`
+			)
+		}
+		const indent = format === 'beancount' ? '  ' : '    '
+		for (const posting of postings) {
+			usedCurrencies.add(posting.currency)
+			let line = `${indent}${posting.account}  ${posting.amount} ${commodity(posting.currency)}`
+			if (posting.price) {
+				usedCurrencies.add(posting.price.currency)
+				line += ` @@ ${posting.price.amount} ${commodity(posting.price.currency)}`
+			}
+			lines.push(line)
+		}
+		entries.push(lines.join('\n'))
+	}
+
+	for (const [key, value] of openingBalances(input)) {
+		const [accountId, currency] = key.split('|')
+		const text = amount(value, currency)
+		if (/^-?0(\.0*)?$/.test(text)) continue
+		writeEntry(
+			openingDate,
+			'Начальный остаток',
+			[],
+			[
+				{ account: accountName(accountId), amount: text, currency },
+				{ account: OPENING_ACCOUNT, amount: negate(text), currency }
+			]
+		)
+	}
+
+	for (const tx of transactions) {
+		const [first, second] = transactionBalanceEffects(tx)
+		const meta: Array<[string, string]> = [['id', tx.id]]
+		if (tx.tag) meta.push(['tag', tx.tag])
+		const description =
+			tx.description ||
+			tx.category ||
+			(tx.direction === 'transfer' ? 'Перевод' : NO_CATEGORY)
+		if (tx.direction === 'transfer') {
+			const sent = amount(tx.amount, tx.currency)
+			const received = amount(second.delta, second.currency)
+			const foreign = second.currency !== tx.currency
+			writeEntry(tx.date, description, meta, [
+				{
+					account: accountName(second.accountId),
+					amount: foreign ? received : sent,
+					currency: second.currency,
+					price: foreign ? { amount: sent, currency: tx.currency } : undefined
+				},
+				{
+					account: accountName(first.accountId),
+					amount: negate(sent),
+					currency: tx.currency
+				}
+			])
+			continue
+		}
+		// the account side moves by the converted amount when there is one
+		const side = amount(Math.abs(first.delta), first.currency)
+		const foreign = first.currency !== tx.currency
+		const original = foreign ? amount(tx.amount, tx.currency) : side
+		const income = tx.direction === 'income'
+		writeEntry(tx.date, description, meta, [
+			{
+				account: categoryName(income ? 'Income' : 'Expenses', tx.category),
+				amount: income ? negate(original) : original,
+				currency: tx.currency,
+				price: foreign ? { amount: side, currency: first.currency } : undefined
+			},
+			{
+				account: accountName(first.accountId),
+				amount: income ? side : negate(side),
+				currency: first.currency
+			}
+		])
+	}
+
+	const main = input.mainCurrency.toUpperCase()
+	const prices = input.prices
+		.filter(p => p.currency.toUpperCase() !== main && usedCurrencies.has(p.currency))
+		.flatMap(p => {
+			const rate = formatLedgerNumber(p.rate, PRICE_FRACTION_DIGITS)
+			if (/^0(\.0*)?$/.test(rate)) return []
+			return format === 'beancount'
+				? `${p.date} price ${commodity(p.currency)} ${rate} ${commodity(main)}`
+				: `P ${p.date} ${commodity(p.currency)} ${rate} ${commodity(main)}`
+		})
+
+	const header: string[] = []
+	const accounts = names.all().sort()
+	if (format === 'beancount') {
+		header.push(
+			'; CoinPilot export, check with `bean-check`',
+			'option "title" "CoinPilot"',
+			`option "operating_currency" "${commodity(main)}"`,
+			'',
+			...accounts.map(name => `${openingDate} open ${name}`)
+		)
+	} else {
+		header.push(
+			'; CoinPilot export, check with `hledger check`',
+			'',
+			...[...usedCurrencies, main]
+				.filter((code, i, all) => all.indexOf(code) === i)
+				.sort()
+				.map(code => `commodity ${commodity(code)}`),
+			'',
+			...accounts.map(name => `account ${name}`)
+		)
+	}
+	return [header.join('\n'), prices.join('\n'), ...entries]
+		.filter(block => block.length > 0)
+		.join('\n\n')
+		.concat('\n')
+}
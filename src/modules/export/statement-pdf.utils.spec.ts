@@ -0,0 +1,39 @@
+import {
+	monthPeriod,
+	previousMonthKey,
+	statementDuePeriod,
+	truncateToWidth
+} from './statement-pdf.utils'
+
+// one unit per character keeps widths predictable
+const measure = (value: string) => value.length
+
+describe('statement-pdf.utils', () => {
+	it('keeps text that fits and shortens the rest with an ellipsis', () => {
+		expect(truncateToWidth('Coffee', 10, measure)).toBe('Coffee')
+		expect(truncateToWidth('Coffee  and\ncake', 20, measure)).toBe('Coffee and cake')
+		expect(truncateToWidth('Groceries at the market', 10, measure)).toBe('Groceries…')
+		expect(truncateToWidth('Groceries', 0, measure)).toBe('')
+	})
+
+	it('covers a whole month including leap days', () => {
+		expect(monthPeriod('2028-02')).toBe('2028-02-01..2028-02-29')
+		expect(monthPeriod('2026-12')).toBe('2026-12-01..2026-12-31')
+	})
+
+	it('names the previous local month', () => {
+		// 1 Jan 00:30 in Kyiv is still 31 Dec in UTC
+		const now = new Date('2025-12-31T22:30:00.000Z')
+		expect(previousMonthKey(now, 'Europe/Kyiv')).toBe('2025-12')
+		expect(previousMonthKey(now, 'UTC')).toBe('2025-11')
+	})
+
+	it('is due after the send hour until the month is sent', () => {
+		const morning = new Date('2026-04-01T07:00:00.000Z') // 10:00 in Kyiv
+		const night = new Date('2026-04-01T03:00:00.000Z') // 06:00 in Kyiv
+		expect(statementDuePeriod(night, 'Europe/Kyiv', null)).toBeNull()
+		expect(statementDuePeriod(morning, 'Europe/Kyiv', null)).toBe('2026-03')
+		expect(statementDuePeriod(morning, 'Europe/Kyiv', '2026-02')).toBe('2026-03')
+		expect(statementDuePeriod(morning, 'Europe/Kyiv', '2026-03')).toBeNull()
+	})
+})
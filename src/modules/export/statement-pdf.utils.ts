@@ -0,0 +1,56 @@
+import { getZonedParts } from '../../utils/date'
+import {
+	customRangePeriod,
+	type AnalyticsCustomRange
+} from '../analytics/analytics-period.utils'
+
+/** Local hour after which the monthly statement for the previous month is sent. */
+export const STATEMENT_SEND_HOUR = 9
+
+const ELLIPSIS = '…'
+
+/** Cuts `text` so that it fits into `maxWidth`, ending it with an ellipsis. */
+export function truncateToWidth(
+	text: string,
+	maxWidth: number,
+	measure: (value: string) => number
+): string {
+	const clean = text.replace(/\s+/g, ' ').trim()
+	if (measure(clean) <= maxWidth) return clean
+	let low = 0
+	let high = clean.length
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2)
+		if (measure(clean.slice(0, mid).trimEnd() + ELLIPSIS) <= maxWidth) low = mid
+		else high = mid - 1
+	}
+	return low > 0 ? clean.slice(0, low).trimEnd() + ELLIPSIS : ''
+}
+
+/** Custom analytics period covering the whole `YYYY-MM` month. */
+export function monthPeriod(key: string): AnalyticsCustomRange {
+	const [year, month] = key.split('-').map(Number)
+	return customRangePeriod({ year, month: month - 1, day: 1 }, { year, month, day: 0 })
+}
+
+/** `YYYY-MM` of the month before the current local month. */
+export function previousMonthKey(now: Date, timezone: string): string {
+	const local = getZonedParts(now, timezone)
+	const prev = new Date(Date.UTC(local.year, local.month - 1, 1))
+	return `${prev.getUTCFullYear()}-${String(prev.getUTCMonth() + 1).padStart(2, '0')}`
+}
+
+/**
+ * The month whose statement is due for a user, or null. A statement is due once
+ * the local clock passes {@link STATEMENT_SEND_HOUR} and the previous month has
+ * not been sent yet, so a missed tick is caught up later in the month.
+ */
+export function statementDuePeriod(
+	now: Date,
+	timezone: string,
+	lastPeriod: string | null
+): string | null {
+	if (getZonedParts(now, timezone).hour < STATEMENT_SEND_HOUR) return null
+	const key = previousMonthKey(now, timezone)
+	return lastPeriod != null && lastPeriod >= key ? null : key
+}
@@ -0,0 +1,450 @@
+import { Injectable } from '@nestjs/common'
+import { PDFDocument } from '@napi-rs/canvas'
+import { PrismaService } from '../prisma/prisma.service'
+import { AnalyticsService, type AnalyticsPeriod } from '../analytics/analytics.service'
+import { analyticsPeriodLabel } from '../analytics/analytics-period.utils'
+import { formatAmount } from '../../utils/format'
+import { formatZonedDate } from '../../utils/date'
+import { DIRECTION_LABELS } from './export.utils'
+import { ExportService } from './export.service'
+import { truncateToWidth } from './statement-pdf.utils'
+
+// A4 in PDF points
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 40
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const FOOTER_HEIGHT = 20
+const FONT_FAMILY = '"DejaVu Sans", "Arial", sans-serif'
+const TEXT_COLOR = '#1f2937'
+const MUTED_COLOR = '#6b7280'
+const RULE_COLOR = '#d1d5db'
+const TOP_LIMIT = 5
+const TRANSFERS_LIMIT = 10
+
+type PdfContext = ReturnType<PDFDocument['beginPage']>
+
+interface TableColumn {
+	title: string
+	width: number
+	align?: 'left' | 'right'
+}
+
+function pad2(value: number): string {
+	return String(value).padStart(2, '0')
+}
+
+/** `dd.mm.yyyy` of a date whose UTC fields hold the local wall-clock time. */
+function formatWallDate(date: Date): string {
+	return `${pad2(date.getUTCDate())}.${pad2(date.getUTCMonth() + 1)}.${date.getUTCFullYear()}`
+}
+
+function formatPct(value: number): string {
+	return `${value.toFixed(0)}%`
+}
+
+function formatSigned(amount: number, currency: string): string {
+	const sign = amount > 0 ? '+' : amount < 0 ? '−' : ''
+	return `${sign}${formatAmount(Math.abs(amount), currency)}`
+}
+
+/** Flowing A4 layout: a new page starts whenever the next block does not fit. */
+class StatementPdfWriter {
+	private readonly doc: PDFDocument
+	private ctx!: PdfContext
+	private page = 0
+	private y = 0
+
+	constructor(
+		title: string,
+		private readonly footer: string
+	) {
+		this.doc = new PDFDocument({ title, creator: 'CoinPilot' })
+		this.startPage()
+	}
+
+	private startPage(): void {
+		if (this.page > 0) this.finishPage()
+		this.ctx = this.doc.beginPage(PAGE_WIDTH, PAGE_HEIGHT)
+		this.page++
+		this.y = MARGIN
+	}
+
+	private finishPage(): void {
+		this.font(8, MUTED_COLOR)
+		this.ctx.textAlign = 'left'
+		this.ctx.fillText(this.footer, MARGIN, PAGE_HEIGHT - MARGIN / 2)
+		this.ctx.textAlign = 'right'
+		this.ctx.fillText(
+			`стр. ${this.page}`,
+			PAGE_WIDTH - MARGIN,
+			PAGE_HEIGHT - MARGIN / 2
+		)
+		this.doc.endPage()
+	}
+
+	private font(size: number, color = TEXT_COLOR, bold = false): void {
+		this.ctx.font = `${bold ? 'bold ' : ''}${size}px ${FONT_FAMILY}`
+		this.ctx.fillStyle = color
+	}
+
+	private ensureSpace(height: number): boolean {
+		if (this.y + height <= PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) return false
+		this.startPage()
+		return true
+	}
+
+	private rule(): void {
+		this.ctx.strokeStyle = RULE_COLOR
+		this.ctx.lineWidth = 0.5
+		this.ctx.beginPath()
+		this.ctx.moveTo(MARGIN, this.y)
+		this.ctx.lineTo(PAGE_WIDTH - MARGIN, this.y)
+		this.ctx.stroke()
+	}
+
+	private cell(text: string, x: number, column: TableColumn): void {
+		const fitted = truncateToWidth(
+			text,
+			column.width - 6,
+			value => this.ctx.measureText(value).width
+		)
+		const right = column.align === 'right'
+		this.ctx.textAlign = right ? 'right' : 'left'
+		this.ctx.fillText(fitted, right ? x + column.width : x, this.y)
+	}
+
+	title(text: string, lines: string[]): void {
+		this.font(20, TEXT_COLOR, true)
+		this.ctx.textAlign = 'left'
+		this.y += 20
+		this.ctx.fillText(text, MARGIN, this.y)
+		this.y += 6
+		this.font(10, MUTED_COLOR)
+		for (const line of lines) {
+			this.y += 14
+			this.ctx.fillText(line, MARGIN, this.y)
+		}
+		this.y += 8
+	}
+
+	heading(text: string): void {
+		// keep the heading together with at least a couple of rows
+		this.ensureSpace(60)
+		this.y += 22
+		this.font(13, TEXT_COLOR, true)
+		this.ctx.textAlign = 'left'
+		this.ctx.fillText(text, MARGIN, this.y)
+		this.y += 6
+		this.rule()
+	}
+
+	note(text: string): void {
+		this.ensureSpace(16)
+		this.y += 14
+		this.font(9, MUTED_COLOR)
+		this.ctx.textAlign = 'left'
+		this.ctx.fillText(text, MARGIN, this.y)
+	}
+
+	/** Label–value pairs, values aligned to the right edge. */
+	keyValues(rows: Array<[string, string]>): void {
+		const columns: TableColumn[] = [
+			{ title: '', width: CONTENT_WIDTH / 2 },
+			{ title: '', width: CONTENT_WIDTH / 2, align: 'right' }
+		]
+		for (const [label, value] of rows) {
+			this.ensureSpace(16)
+			this.y += 16
+			this.font(10)
+			this.cell(label, MARGIN, columns[0])
+			this.font(10, TEXT_COLOR, true)
+			this.cell(value, MARGIN + columns[0].width, columns[1])
+		}
+	}
+
+	/** Table whose header is repeated on every page it spans. */
+	table(columns: TableColumn[], rows: string[][], fontSize = 9): void {
+		const rowHeight = fontSize + 5
+		const header = () => {
+			this.y += rowHeight + 2
+			this.font(fontSize, MUTED_COLOR, true)
+			let x = MARGIN
+			for (const column of columns) {
+				this.cell(column.title, x, column)
+				x += column.width
+			}
+			this.y += 4
+			this.rule()
+		}
+		this.ensureSpace(rowHeight * 3)
+		header()
+		for (const row of rows) {
+			if (this.ensureSpace(rowHeight)) header()
+			this.y += rowHeight
+			this.font(fontSize)
+			let x = MARGIN
+			columns.forEach((column, i) => {
+				this.cell(row[i] ?? '', x, column)
+				x += column.width
+			})
+		}
+	}
+
+	close(): Buffer {
+		this.finishPage()
+		return this.doc.close()
+	}
+}
+
+@Injectable()
+export class StatementService {
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly analyticsService: AnalyticsService,
+		private readonly exportService: ExportService
+	) {}
+
+	/**
+	 * PDF statement for a period: opening and closing balances, income and
+	 * expenses, top categories and tags, transfers, large expenses and the full
+	 * transaction ledger.
+	 */
+	async buildStatement(
+		userId: string,
+		period: AnalyticsPeriod,
+		accountId?: string
+	): Promise<{ buffer: Buffer; fileName: string; count: number }> {
+		const user = await this.prisma.user.findUniqueOrThrow({
+			where: { id: userId },
+			select: { mainCurrency: true, timezone: true }
+		})
+		const main = user.mainCurrency
+		const timezone = user.timezone
+		const account = accountId
+			? await this.prisma.account.findFirst({
+					where: { id: accountId, userId },
+					select: { name: true }
+				})
+			: null
+		const { from, to } = this.analyticsService.getDateRange(period, timezone)
+		const opening = await this.analyticsService.getBeginningBalance(
+			userId,
+			period,
+			main,
+			accountId,
+			timezone
+		)
+		const [
+			closing,
+			summary,
+			topExpenses,
+			topIncome,
+			topTags,
+			transfersTotal,
+			transfers,
+			anomalies,
+			rows
+		] = await Promise.all([
+			this.analyticsService.getBalanceAt(userId, to, main, accountId),
+			this.analyticsService.getSummary(userId, period, main, accountId, timezone),
+			this.analyticsService.getTopCategories(
+				userId,
+				period,
+				main,
+				TOP_LIMIT,
+				accountId,
+				opening,
+				timezone
+			),
+			this.analyticsService.getTopIncomeCategories(
+				userId,
+				period,
+				main,
+				opening,
+				TOP_LIMIT,
+				accountId,
+				timezone
+			),
+			this.analyticsService.getTopTags(
+				userId,
+				period,
+				main,
+				TOP_LIMIT,
+				accountId,
+				timezone
+			),
+			this.analyticsService.getTransfersTotal(
+				userId,
+				period,
+				main,
+				accountId,
+				timezone
+			),
+			this.analyticsService.getTopTransfers(
+				userId,
+				period,
+				main,
+				TRANSFERS_LIMIT,
+				accountId,
+				opening,
+				timezone
+			),
+			this.analyticsService.getAnomalies(userId, period, main, accountId, timezone),
+			this.exportService.getTransactionRows(
+				userId,
+				{ period, accountId },
+				timezone,
+				main
+			)
+		])
+
+		const label = analyticsPeriodLabel(period, timezone)
+		const range = `${formatZonedDate(from, timezone)} – ${formatZonedDate(to, timezone)}`
+		const pdf = new StatementPdfWriter(
+			`Выписка CoinPilot за ${label}`,
+			`CoinPilot · выписка за ${range}`
+		)
+		pdf.title('Финансовая выписка', [
+			`Период: ${label} (${range})`,
+			`Счёт: ${account?.name ?? 'все счета'}`,
+			`Валюта отчёта: ${main}`,
+			`Сформировано: ${formatZonedDate(new Date(), timezone, true)}`
+		])
+
+		pdf.heading('Балансы')
+		pdf.keyValues([
+			['Остаток на начало периода', formatAmount(opening, main)],
+			['Остаток на конец периода', formatAmount(closing, main)],
+			['Изменение', formatSigned(closing - opening, main)]
+		])
+
+		pdf.heading('Доходы и расходы')
+		pdf.keyValues([
+			['Доходы', formatAmount(summary.income, main)],
+			['Расходы', formatAmount(summary.expenses, main)],
+			['Итого', formatSigned(summary.income - summary.expenses, main)],
+			['Переводы', formatAmount(transfersTotal, main)]
+		])
+
+		const shareColumns = (title: string): TableColumn[] => [
+			{ title, width: CONTENT_WIDTH - 180 },
+			{ title: 'Сумма', width: 120, align: 'right' },
+			{ title: 'Доля', width: 60, align: 'right' }
+		]
+		pdf.heading('Топ категорий расходов')
+		if (topExpenses.length) {
+			pdf.table(
+				shareColumns('Категория'),
+				topExpenses.map(c => [
+					c.categoryName,
+					formatAmount(c.sum, main),
+					formatPct(c.pct)
+				])
+			)
+		} else pdf.note('Расходов за период нет.')
+
+		pdf.heading('Топ категорий доходов')
+		if (topIncome.length) {
+			pdf.table(
+				shareColumns('Категория'),
+				topIncome.map(c => [
+					c.categoryName,
+					formatAmount(c.sum, main),
+					formatPct(c.pct)
+				])
+			)
+		} else pdf.note('Доходов за период нет.')
+
+		pdf.heading('Топ тегов')
+		if (topTags.length) {
+			pdf.table(
+				shareColumns('Тег'),
+				topTags.map(t => [t.tagName, formatAmount(t.sum, main), formatPct(t.pct)])
+			)
+		} else pdf.note('Операций с тегами за период нет.')
+
+		pdf.heading('Переводы')
+		if (transfers.length) {
+			pdf.table(
+				shareColumns('Направление'),
+				transfers.map(t => [
+					`${t.fromAccountName} → ${t.toAccountName}`,
+					formatAmount(t.sum, main),
+					formatPct(t.pct)
+				])
+			)
+		} else pdf.note('Переводов за период нет.')
+
+		pdf.heading('Необычные расходы')
+		if (anomalies.transactions.length || anomalies.categories.length) {
+			pdf.table(
+				[
+					{ title: 'Дата', width: 70 },
+					{ title: 'Описание', width: CONTENT_WIDTH - 380 },
+					{ title: 'Почему', width: 190 },
+					{ title: 'Сумма', width: 120, align: 'right' }
+				],
+				[
+					...anomalies.categories.map(a => [
+						'за период',
+						a.categoryName,
+						a.explanation,
+						formatAmount(a.amount, a.currency)
+					]),
+					...anomalies.transactions.map(a => [
+						formatZonedDate(a.transactionDate, timezone),
+						a.description ?? a.tagOrCategory ?? '—',
+						a.explanation,
+						formatAmount(a.amount, a.currency)
+					])
+				]
+			)
+		} else pdf.note('Ничего необычного за период: расходы в пределах привычных.')
+
+		pdf.heading(`Операции (${rows.length})`)
+		if (rows.length) {
+			pdf.table(
+				[
+					{ title: 'Дата', width: 52 },
+					{ title: 'Тип', width: 44 },
+					{ title: 'Счёт', width: 86 },
+					{ title: 'Категория', width: 78 },
+					{ title: 'Описание', width: CONTENT_WIDTH - 390 },
+					{ title: 'Сумма', width: 70, align: 'right' },
+					{ title: `Сумма, ${main}`, width: 60, align: 'right' }
+				],
+				rows.map(row => {
+					const sign =
+						row.direction === 'expense'
+							? -1
+							: row.direction === 'income'
+								? 1
+								: 0
+					return [
+						formatWallDate(row.date),
+						DIRECTION_LABELS[row.direction],
+						row.toAccountName
+							? `${row.accountName} → ${row.toAccountName}`
+							: row.accountName,
+						[row.category, row.tag].filter(Boolean).join(' · ') || '—',
+						row.description ?? '',
+						sign
+							? formatSigned(sign * row.amount, row.currency)
+							: formatAmount(row.amount, row.currency),
+						sign
+							? formatSigned(sign * row.mainAmount, main)
+							: formatAmount(row.mainAmount, main)
+					]
+				}),
+				7.5
+			)
+		} else pdf.note('Операций за период нет.')
+
+		return {
+			buffer: pdf.close(),
+			fileName: `statement_${period.replace('..', '_')}.pdf`,
+			count: rows.length
+		}
+	}
+}
@@ -0,0 +1,67 @@
+import { inflateRawSync } from 'zlib'
+import { amountFormat, buildXlsx, columnName, createZip } from './xlsx.utils'
+
+function readZip(zip: Buffer): Map<string, string> {
+	const files = new Map<string, string>()
+	let offset = 0
+	while (zip.readUInt32LE(offset) === 0x04034b50) {
+		const size = zip.readUInt32LE(offset + 18)
+		const nameLength = zip.readUInt16LE(offset + 26)
+		const name = zip.toString('utf8', offset + 30, offset + 30 + nameLength)
+		const start = offset + 30 + nameLength
+		files.set(
+			name,
+			inflateRawSync(zip.subarray(start, start + size)).toString('utf8')
+		)
+		offset = start + size
+	}
+	return files
+}
+
+describe('xlsx.utils', () => {
+	it('names columns like Excel', () => {
+		expect(columnName(0)).toBe('A')
+		expect(columnName(25)).toBe('Z')
+		expect(columnName(26)).toBe('AA')
+		expect(columnName(701)).toBe('ZZ')
+	})
+
+	it('keeps two decimals and makes the rest optional', () => {
+		expect(amountFormat(0)).toBe('#,##0')
+		expect(amountFormat(2)).toBe('#,##0.00')
+		expect(amountFormat(8)).toBe('#,##0.00######')
+	})
+
+	it('writes a readable zip', () => {
+		const zip = createZip([{ name: 'a.txt', data: Buffer.from('hello') }])
+		expect(zip.readUInt32LE(zip.length - 22)).toBe(0x06054b50)
+		expect(readZip(zip).get('a.txt')).toBe('hello')
+	})
+
+	it('builds sheets with escaped text, dates and number formats', () => {
+		const files = readZip(
+			buildXlsx([
+				{
+					name: 'Операции',
+					rows: [
+						['Дата', 'Описание', 'Сумма'],
+						[
+							new Date(Date.UTC(2026, 0, 1, 12)),
+							'Tom & <Jerry>',
+							{ value: 12.5, format: '#,##0.00' }
+						]
+					]
+				},
+				{ name: 'a/b', rows: [['x']] }
+			])
+		)
+		const workbook = files.get('xl/workbook.xml')!
+		expect(workbook).toContain('name="Операции"')
+		expect(workbook).toContain('name="a b"')
+		const sheet = files.get('xl/worksheets/sheet1.xml')!
+		expect(sheet).toContain('Tom &amp; &lt;Jerry&gt;')
+		expect(sheet).toContain('<v>46023.5</v>')
+		expect(sheet).toContain('<v>12.5</v>')
+		expect(files.get('xl/styles.xml')).toContain('formatCode="#,##0.00"')
+	})
+})
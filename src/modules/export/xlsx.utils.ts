@@ -0,0 +1,295 @@
+import { crc32, deflateRawSync } from 'zlib'
+
+/** Cell with an explicit Excel number format, e.g. `#,##0.00`. */
+export interface XlsxNumberCell {
+	value: number
+	format: string
+}
+
+export type XlsxCell = string | number | Date | XlsxNumberCell | null | undefined
+
+export interface XlsxSheet {
+	name: string
+	/** Column widths in characters */
+	columns?: number[]
+	/** The first row is rendered bold and frozen */
+	rows: XlsxCell[][]
+}
+
+const DATE_FORMAT = 'yyyy-mm-dd hh:mm'
+const FIRST_CUSTOM_FORMAT_ID = 164
+// Excel serial dates count days from 1899-12-30
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30)
+const DAY_MS = 86_400_000
+
+/**
+ * Number format for an amount in `currency`: the first two decimals are always
+ * shown, the rest (crypto) only when non-zero, so `digits` from
+ * `getCurrencyFractionDigits` can be passed as is.
+ */
+export function amountFormat(digits: number): string {
+	if (digits <= 0) return '#,##0'
+	const fixed = Math.min(digits, 2)
+	return `#,##0.${'0'.repeat(fixed)}${'#'.repeat(digits - fixed)}`
+}
+
+export function columnName(index: number): string {
+	let name = ''
+	let n = index + 1
+	while (n > 0) {
+		const rem = (n - 1) % 26
+		name = String.fromCharCode(65 + rem) + name
+		n = Math.floor((n - 1) / 26)
+	}
+	return name
+}
+
+function escapeXml(value: string): string {
+	return (
+		value
+			.replace(/&/g, '&amp;')
+			.replace(/</g, '&lt;')
+			.replace(/>/g, '&gt;')
+			.replace(/"/g, '&quot;')
+			// control characters are not allowed in XML 1.0
+			// eslint-disable-next-line no-control-regex
+			.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+	)
+}
+
+function sheetName(name: string, used: Set<string>): string {
+	const base = name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet'
+	let candidate = base
+	for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+		const suffix = ` (${i})`
+		candidate = `${base.slice(0, 31 - suffix.length)}${suffix}`
+	}
+	used.add(candidate.toLowerCase())
+	return candidate
+}
+
+class StyleRegistry {
+	private readonly formats = new Map<string, number>()
+	/** style index by `bold|numFmtId` */
+	private readonly styles = new Map<string, number>([['0|0', 0]])
+
+	style(bold: boolean, format?: string): number {
+		let numFmtId = 0
+		if (format) {
+			numFmtId =
+				this.formats.get(format) ?? FIRST_CUSTOM_FORMAT_ID + this.formats.size
+			this.formats.set(format, numFmtId)
+		}
+		const key = `${bold ? 1 : 0}|${numFmtId}`
+		const existing = this.styles.get(key)
+		if (existing != null) return existing
+		const index = this.styles.size
+		this.styles.set(key, index)
+		return index
+	}
+
+	toXml(): string {
+		const numFmts = Array.from(this.formats.entries())
+			.map(
+				([code, id]) =>
+					`<numFmt numFmtId="${id}" formatCode="${escapeXml(code)}"/>`
+			)
+			.join('')
+		const xfs = Array.from(this.styles.keys())
+			.map(key => {
+				const [bold, numFmtId] = key.split('|')
+				const attrs = [
+					`numFmtId="${numFmtId}"`,
+					`fontId="${bold}"`,
+					'fillId="0"',
+					'borderId="0"',
+					'xfId="0"'
+				]
+				if (numFmtId !== '0') attrs.push('applyNumberFormat="1"')
+				if (bold === '1') attrs.push('applyFont="1"')
+				return `<xf ${attrs.join(' ')}/>`
+			})
+			.join('')
+		return [
+			'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+			'<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+			this.formats.size
+				? `<numFmts count="${this.formats.size}">${numFmts}</numFmts>`
+				: '',
+			'<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+			'<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>',
+			'<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+			'<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+			`<cellXfs count="${this.styles.size}">${xfs}</cellXfs>`,
+			'</styleSheet>'
+		].join('')
+	}
+}
+
+function cellXml(cell: XlsxCell, ref: string, bold: boolean, styles: StyleRegistry) {
+	if (cell == null || cell === '') return ''
+	if (cell instanceof Date) {
+		const serial = (cell.getTime() - EXCEL_EPOCH_MS) / DAY_MS
+		return `<c r="${ref}" s="${styles.style(bold, DATE_FORMAT)}"><v>${serial}</v></c>`
+	}
+	if (typeof cell === 'number') {
+		if (!Number.isFinite(cell)) return ''
+		const s = styles.style(bold)
+		return `<c r="${ref}"${s ? ` s="${s}"` : ''}><v>${cell}</v></c>`
+	}
+	if (typeof cell === 'object') {
+		if (!Number.isFinite(cell.value)) return ''
+		return `<c r="${ref}" s="${styles.style(bold, cell.format)}"><v>${cell.value}</v></c>`
+	}
+	const s = styles.style(bold)
+	return `<c r="${ref}"${s ? ` s="${s}"` : ''} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`
+}
+
+function sheetXml(sheet: XlsxSheet, styles: StyleRegistry): string {
+	const cols = sheet.columns?.length
+		? `<cols>${sheet.columns
+				.map(
+					(w, i) =>
+						`<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`
+				)
+				.join('')}</cols>`
+		: ''
+	const rows = sheet.rows
+		.map((row, r) => {
+			const cells = row
+				.map((cell, c) =>
+					cellXml(cell, `${columnName(c)}${r + 1}`, r === 0, styles)
+				)
+				.join('')
+			return `<row r="${r + 1}">${cells}</row>`
+		})
+		.join('')
+	const freeze =
+		sheet.rows.length > 1
+			? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+			: ''
+	return [
+		'<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+		'<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+		freeze,
+		cols,
+		`<sheetData>${rows}</sheetData>`,
+		'</worksheet>'
+	].join('')
+}
+
+/** Minimal ZIP writer (deflate, no ZIP64), enough for workbooks under 4 GB. */
+export function createZip(files: Array<{ name: string; data: Buffer }>): Buffer {
+	const locals: Buffer[] = []
+	const centrals: Buffer[] = []
+	let offset = 0
+	for (const file of files) {
+		const name = Buffer.from(file.name, 'utf8')
+		const compressed = deflateRawSync(file.data)
+		const crc = crc32(file.data)
+		const local = Buffer.alloc(30)
+		local.writeUInt32LE(0x04034b50, 0)
+		local.writeUInt16LE(20, 4)
+		local.writeUInt16LE(0x0800, 6)
+		local.writeUInt16LE(8, 8)
+		local.writeUInt32LE(0, 10)
+		local.writeUInt32LE(crc, 14)
+		local.writeUInt32LE(compressed.length, 18)
+		local.writeUInt32LE(file.data.length, 22)
+		local.writeUInt16LE(name.length, 26)
+		local.writeUInt16LE(0, 28)
+		const central = Buffer.alloc(46)
+		central.writeUInt32LE(0x02014b50, 0)
+		central.writeUInt16LE(20, 4)
+		central.writeUInt16LE(20, 6)
+		central.writeUInt16LE(0x0800, 8)
+		central.writeUInt16LE(8, 10)
+		central.writeUInt32LE(0, 12)
+		central.writeUInt32LE(crc, 16)
+		central.writeUInt32LE(compressed.length, 20)
+		central.writeUInt32LE(file.data.length, 24)
+		central.writeUInt16LE(name.length, 28)
+		central.writeUInt32LE(offset, 42)
+		locals.push(local, name, compressed)
+		centrals.push(central, name)
+		offset += local.length + name.length + compressed.length
+	}
+	const centralSize = centrals.reduce((sum, b) => sum + b.length, 0)
+	const end = Buffer.alloc(22)
+	end.writeUInt32LE(0x06054b50, 0)
+	end.writeUInt16LE(files.length, 8)
+	end.writeUInt16LE(files.length, 10)
+	end.writeUInt32LE(centralSize, 12)
+	end.writeUInt32LE(offset, 16)
+	return Buffer.concat([...locals, ...centrals, end])
+}
+
+/** Builds an .xlsx workbook in memory. */
+export function buildXlsx(sheets: XlsxSheet[]): Buffer {
+	const styles = new StyleRegistry()
+	const used = new Set<string>()
+	const names = sheets.map(s => sheetName(s.name, used))
+	const worksheets = sheets.map(s => sheetXml(s, styles))
+	const xml = (body: string) =>
+		Buffer.from(
+			`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>${body}`,
+			'utf8'
+		)
+	return createZip([
+		{
+			name: '[Content_Types].xml',
+			data: xml(
+				[
+					'<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+					'<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+					'<Default Extension="xml" ContentType="application/xml"/>',
+					'<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+					'<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+					...names.map(
+						(_, i) =>
+							`<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+					),
+					'</Types>'
+				].join('')
+			)
+		},
+		{
+			name: '_rels/.rels',
+			data: xml(
+				'<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>'
+			)
+		},
+		{
+			name: 'xl/workbook.xml',
+			data: xml(
+				[
+					'<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>',
+					...names.map(
+						(name, i) =>
+							`<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`
+					),
+					'</sheets></workbook>'
+				].join('')
+			)
+		},
+		{
+			name: 'xl/_rels/workbook.xml.rels',
+			data: xml(
+				[
+					'<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+					...names.map(
+						(_, i) =>
+							`<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+					),
+					`<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`,
+					'</Relationships>'
+				].join('')
+			)
+		},
+		...worksheets.map((data, i) => ({
+			name: `xl/worksheets/sheet${i + 1}.xml`,
+			data: Buffer.from(data, 'utf8')
+		})),
+		{ name: 'xl/styles.xml', data: Buffer.from(styles.toXml(), 'utf8') }
+	])
+}
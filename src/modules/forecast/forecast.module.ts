@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common'
+import { AnalyticsModule } from '../analytics/analytics.module'
+import { AlertsModule } from '../alerts/alerts.module'
+import { ForecastService } from './forecast.service'
+
+@Module({
+	imports: [AnalyticsModule, AlertsModule],
+	providers: [ForecastService],
+	exports: [ForecastService]
+})
+export class ForecastModule {}
@@ -0,0 +1,331 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { Cron } from '@nestjs/schedule'
+import { PrismaService } from '../prisma/prisma.service'
+import { AnalyticsService } from '../analytics/analytics.service'
+import { AlertsService } from '../alerts/alerts.service'
+import { budgetMonthRange } from '../budgets/budgets.utils'
+import { nextRecurringRun } from '../recurring/recurring.utils'
+import { balanceDeltas } from '../net-worth/net-worth.utils'
+import { getZonedParts } from '../../utils/date'
+import { pickMoneyNumber } from '../../utils/money'
+import {
+	forecastSpending,
+	forecastWarningText,
+	runwayDays,
+	type SpendingForecast
+} from './forecast.utils'
+
+export interface AssetRunway {
+	accountId: string
+	accountName: string
+	currency: string
+	amount: number
+	outflowPerDay: number
+	/** null when the balance is not shrinking */
+	days: number | null
+	runsOutAt: Date | null
+}
+
+/** Earlier months used for the day-of-month pattern and the confidence band. */
+const HISTORY_MONTHS = 6
+/** Window the per-asset burn rate is measured over. */
+const RUNWAY_WINDOW_DAYS = 90
+/** Too early in the month the projection is mostly noise. */
+const MIN_WARN_DAY = 7
+/** Local hour of the daily overspending check. */
+const WARN_LOCAL_HOUR = 20
+const DAY_MS = 24 * 60 * 60 * 1000
+
+@Injectable()
+export class ForecastService {
+	private readonly logger = new Logger(ForecastService.name)
+
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly analytics: AnalyticsService,
+		private readonly alerts: AlertsService
+	) {}
+
+	/** Transactions created by recurring templates; they are projected by schedule, not by run rate. */
+	private async recurringTransactionIds(
+		userId: string,
+		from: Date
+	): Promise<Set<string>> {
+		const occurrences = await this.prisma.recurringOccurrence.findMany({
+			where: {
+				recurring: { userId },
+				dueAt: { gte: from },
+				transactionId: { not: null }
+			},
+			select: { transactionId: true }
+		})
+		return new Set(occurrences.map(o => o.transactionId!))
+	}
+
+	/** Recurring runs still due before `until`, in the main currency. */
+	private async upcomingRecurring(
+		userId: string,
+		now: Date,
+		until: Date,
+		mainCurrency: string,
+		timezone: string,
+		accountId?: string
+	): Promise<{ expenses: number; income: number }> {
+		const templates = await this.prisma.recurringTransaction.findMany({
+			where: {
+				userId,
+				paused: false,
+				direction: { in: ['expense', 'income'] },
+				nextRunAt: { lte: until },
+				...(accountId ? { accountId } : { account: { isHidden: false } })
+			}
+		})
+		const totals = { expenses: 0, income: 0 }
+		for (const template of templates) {
+			let runs = 0
+			for (
+				let run = template.nextRunAt;
+				run <= until;
+				run = nextRecurringRun(template, run, timezone)
+			) {
+				if (run >= now) runs++
+			}
+			if (!runs) continue
+			const amount = await this.analytics.toMainCurrency(
+				pickMoneyNumber(template.amountDecimal, template.amount, 0) * runs,
+				template.currency,
+				mainCurrency
+			)
+			if (template.direction === 'income') totals.income += amount
+			else totals.expenses += amount
+		}
+		return totals
+	}
+
+	/** End-of-month projection of expenses and balance for the current month. */
+	async getMonthForecast(
+		userId: string,
+		mainCurrency: string,
+		timezone: string,
+		accountId?: string,
+		now: Date = new Date()
+	): Promise<SpendingForecast> {
+		const month = budgetMonthRange(timezone, now)
+		const historyStart = budgetMonthRange(timezone, now, HISTORY_MONTHS)
+		const [txs, recurringIds, upcoming, balance] = await Promise.all([
+			this.prisma.transaction.findMany({
+				where: {
+					userId,
+					direction: 'expense',
+					transactionDate: { gte: historyStart.from, lte: now },
+					...(accountId
+						? { accountId }
+						: { account: { userId, isHidden: false } })
+				},
+				select: {
+					id: true,
+					amount: true,
+					amountDecimal: true,
+					currency: true,
+					convertedAmount: true,
+					convertedAmountDecimal: true,
+					convertToCurrency: true,
+					transactionDate: true,
+					amountUsd: true,
+					amountUsdDecimal: true
+				}
+			}),
+			this.recurringTransactionIds(userId, historyStart.from),
+			this.upcomingRecurring(
+				userId,
+				now,
+				month.to,
+				mainCurrency,
+				timezone,
+				accountId
+			),
+			this.analytics.getBalanceAt(userId, now, mainCurrency, accountId)
+		])
+
+		const months = Array.from({ length: HISTORY_MONTHS + 1 }, (_, back) =>
+			budgetMonthRange(timezone, now, back)
+		)
+		const daily = months.map(m => Array.from({ length: m.daysInMonth }, () => 0))
+		const recurringByMonth = months.map(() => 0)
+		for (const tx of txs) {
+			const index = months.findIndex(
+				m => tx.transactionDate >= m.from && tx.transactionDate <= m.to
+			)
+			if (index < 0) continue
+			const { amount, currency } = this.analytics.pickTxAmount(tx)
+			const inMain = await this.analytics.toMainCurrency(
+				amount,
+				currency,
+				mainCurrency,
+				tx.transactionDate,
+				this.analytics.pickAmountUsd(tx)
+			)
+			if (recurringIds.has(tx.id)) {
+				recurringByMonth[index] += inMain
+				continue
+			}
+			daily[index][getZonedParts(tx.transactionDate, timezone).day - 1] += inMain
+		}
+		const total = (values: number[]) => values.reduce((s, v) => s + v, 0)
+		// months before the first transaction would only drag the pattern to zero
+		const history = daily.slice(1).filter(days => total(days) > 0)
+		return forecastSpending({
+			discretionarySpent: total(daily[0]),
+			recurringSpent: recurringByMonth[0],
+			upcomingRecurringExpenses: upcoming.expenses,
+			upcomingRecurringIncome: upcoming.income,
+			elapsedDays: Math.max(
+				1 / 24,
+				(now.getTime() - month.from.getTime()) / DAY_MS
+			),
+			daysInMonth: month.daysInMonth,
+			history,
+			balance,
+			lastMonthTotal: total(daily[1]) + recurringByMonth[1]
+		})
+	}
+
+	/** When each asset of the visible accounts runs out at its average net outflow. */
+	async getRunway(userId: string, now: Date = new Date()): Promise<AssetRunway[]> {
+		const from = new Date(now.getTime() - RUNWAY_WINDOW_DAYS * DAY_MS)
+		const [accounts, txs] = await Promise.all([
+			this.prisma.account.findMany({
+				where: { userId, isHidden: false },
+				select: {
+					id: true,
+					name: true,
+					assets: {
+						select: { currency: true, amount: true, amountDecimal: true }
+					}
+				}
+			}),
+			this.prisma.transaction.findMany({
+				where: { userId, transactionDate: { gte: from, lte: now } },
+				select: {
+					direction: true,
+					accountId: true,
+					fromAccountId: true,
+					toAccountId: true,
+					amount: true,
+					amountDecimal: true,
+					currency: true,
+					convertedAmount: true,
+					convertedAmountDecimal: true,
+					convertToCurrency: true
+				}
+			})
+		])
+		const net = new Map<string, number>()
+		for (const tx of txs) {
+			const deltas = balanceDeltas({
+				day: '',
+				direction: tx.direction,
+				accountId: tx.accountId,
+				fromAccountId: tx.fromAccountId,
+				toAccountId: tx.toAccountId,
+				amount: pickMoneyNumber(tx.amountDecimal, tx.amount, 0),
+				currency: tx.currency,
+				convertedAmount:
+					tx.convertedAmount != null || tx.convertedAmountDecimal != null
+						? pickMoneyNumber(
+								tx.convertedAmountDecimal,
+								tx.convertedAmount,
+								0
+							)
+						: null,
+				convertToCurrency: tx.convertToCurrency
+			})
+			for (const delta of deltas) {
+				const key = `${delta.accountId}|${delta.currency}`
+				net.set(key, (net.get(key) ?? 0) + delta.amount)
+			}
+		}
+		const result: AssetRunway[] = []
+		for (const account of accounts) {
+			for (const asset of account.assets) {
+				const amount = pickMoneyNumber(asset.amountDecimal, asset.amount, 0)
+				if (amount <= 0) continue
+				const outflowPerDay =
+					-(net.get(`${account.id}|${asset.currency}`) ?? 0) /
+					RUNWAY_WINDOW_DAYS
+				const days = runwayDays(amount, outflowPerDay)
+				result.push({
+					accountId: account.id,
+					accountName: account.name,
+					currency: asset.currency,
+					amount,
+					outflowPerDay,
+					days,
+					runsOutAt:
+						days != null ? new Date(now.getTime() + days * DAY_MS) : null
+				})
+			}
+		}
+		return result.sort((a, b) => (a.days ?? Infinity) - (b.days ?? Infinity))
+	}
+
+	/** Runs hourly and, once a month, warns users whose projection passes last month's total. */
+	@Cron('20 * * * *')
+	async warnAboutOverspending(): Promise<void> {
+		try {
+			const now = new Date()
+			const users = await this.prisma.user.findMany({
+				select: {
+					id: true,
+					telegramId: true,
+					mainCurrency: true,
+					timezone: true,
+					forecastWarnedPeriod: true
+				}
+			})
+			for (const user of users) {
+				const local = getZonedParts(now, user.timezone)
+				if (local.hour !== WARN_LOCAL_HOUR || local.day < MIN_WARN_DAY) continue
+				const month = budgetMonthRange(user.timezone, now)
+				if (user.forecastWarnedPeriod === month.key) continue
+				try {
+					const forecast = await this.getMonthForecast(
+						user.id,
+						user.mainCurrency,
+						user.timezone,
+						undefined,
+						now
+					)
+					if (!forecast.exceedsLastMonth) continue
+					const claimed = await this.prisma.user.updateMany({
+						where: {
+							id: user.id,
+							OR: [
+								{ forecastWarnedPeriod: null },
+								{ forecastWarnedPeriod: { not: month.key } }
+							]
+						},
+						data: { forecastWarnedPeriod: month.key }
+					})
+					if (!claimed.count) continue
+					await this.alerts.notify(
+						user.telegramId,
+						forecastWarningText(forecast, user.mainCurrency)
+					)
+				} catch (error: unknown) {
+					this.logger.warn(
+						`forecast warning failed for user=${user.id}: ${
+							(error as Error)?.message ?? error
+						}`
+					)
+				}
+			}
+		} catch (error: unknown) {
+			this.logger.warn(
+				`warnAboutOverspending skipped for current tick: ${
+					(error as Error)?.message ?? error
+				}`
+			)
+		}
+	}
+}
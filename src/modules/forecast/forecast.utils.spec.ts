@@ -0,0 +1,68 @@
+import {
+	backtestBand,
+	forecastSpending,
+	runwayDays,
+	typicalShare,
+	type SpendingForecastInput
+} from './forecast.utils'
+
+function flatMonth(days: number, perDay: number): number[] {
+	return Array.from({ length: days }, () => perDay)
+}
+
+const input: SpendingForecastInput = {
+	discretionarySpent: 300,
+	recurringSpent: 100,
+	upcomingRecurringExpenses: 50,
+	upcomingRecurringIncome: 1000,
+	elapsedDays: 10,
+	daysInMonth: 30,
+	history: [],
+	balance: 2000,
+	lastMonthTotal: 1000
+}
+
+describe('forecast.utils', () => {
+	it('extrapolates the run rate and adds scheduled recurring runs', () => {
+		const forecast = forecastSpending(input)
+		expect(forecast.seasonal).toBe(false)
+		expect(forecast.spent).toBe(400)
+		expect(forecast.expenses.expected).toBe(1050)
+		expect(forecast.expenses.low).toBeCloseTo(870)
+		expect(forecast.expenses.high).toBeCloseTo(1230)
+		expect(forecast.balance.expected).toBe(2350)
+		expect(forecast.exceedsLastMonth).toBe(true)
+	})
+
+	it('leans on the usual day-of-month pattern', () => {
+		// rent-like months: half of the spending lands on the 1st
+		const month = [450, ...flatMonth(29, 450 / 29)]
+		expect(typicalShare([month, month], 10 / 30)).toBeCloseTo(0.5 + (9 / 29) * 0.5)
+		const forecast = forecastSpending({
+			...input,
+			discretionarySpent: 600,
+			history: [month, month]
+		})
+		expect(forecast.seasonal).toBe(true)
+		// run rate alone would give 1200 more; the pattern says ~362
+		expect(forecast.expenses.expected).toBeLessThan(150 + 600 + 1200)
+		expect(forecast.expenses.expected).toBeGreaterThan(150 + 600 + 362)
+	})
+
+	it('widens the band by how wrong the run rate was in earlier months', () => {
+		const steady = flatMonth(30, 10)
+		expect(backtestBand([steady, steady], 1 / 3)).toEqual({ low: 1, high: 1 })
+		const band = backtestBand(
+			[steady, [...flatMonth(10, 10), ...flatMonth(20, 20)]],
+			1 / 3
+		)
+		expect(band.low).toBe(1)
+		expect(band.high).toBeCloseTo(2)
+	})
+
+	it('estimates runway only for shrinking balances', () => {
+		expect(runwayDays(300, 10)).toBe(30)
+		expect(runwayDays(300, -5)).toBeNull()
+		expect(runwayDays(0, 10)).toBeNull()
+	})
+})
@@ -0,0 +1,154 @@
+import { formatAmount } from '../../utils/format'
+
+export interface ForecastBand {
+	low: number
+	expected: number
+	high: number
+}
+
+export interface SpendingForecastInput {
+	/** Expenses so far this month that did not come from recurring templates */
+	discretionarySpent: number
+	/** Recurring expenses already booked this month */
+	recurringSpent: number
+	/** Recurring runs still due before the month ends */
+	upcomingRecurringExpenses: number
+	upcomingRecurringIncome: number
+	/** Days since the month started, fractional */
+	elapsedDays: number
+	daysInMonth: number
+	/** Daily discretionary expenses of earlier months, index 0 = the 1st */
+	history: number[][]
+	balance: number
+	lastMonthTotal: number
+}
+
+export interface SpendingForecast {
+	spent: number
+	expenses: ForecastBand
+	balance: ForecastBand
+	/** Whether day-of-month seasonality from earlier months was used */
+	seasonal: boolean
+	lastMonthTotal: number
+	exceedsLastMonth: boolean
+}
+
+/** Relative width of the band when there is too little history to backtest. */
+const DEFAULT_BAND = 0.3
+/** Below this share of a typical month the seasonal estimate is too noisy. */
+const MIN_SEASONAL_SHARE = 0.1
+
+function sum(values: number[]): number {
+	return values.reduce((s, v) => s + v, 0)
+}
+
+/** Spending of the first `days` days, counting a partial last day pro rata. */
+function spentWithin(daily: number[], days: number): number {
+	const whole = Math.min(daily.length, Math.floor(days))
+	const partial = whole < daily.length ? daily[whole] * (days - whole) : 0
+	return sum(daily.slice(0, whole)) + partial
+}
+
+/** Average share of a month's spending that usually falls into the first `fraction` of it. */
+export function typicalShare(history: number[][], fraction: number): number | null {
+	const shares = history
+		.filter(month => sum(month) > 0)
+		.map(month => spentWithin(month, fraction * month.length) / sum(month))
+	return shares.length ? sum(shares) / shares.length : null
+}
+
+export function runRateRemainder(
+	spent: number,
+	elapsedDays: number,
+	daysInMonth: number
+): number {
+	if (elapsedDays <= 0) return 0
+	return (spent / elapsedDays) * Math.max(0, daysInMonth - elapsedDays)
+}
+
+/**
+ * How far off the run rate was in earlier months at the same point: actual
+ * remainder divided by the predicted one, as mean ± one standard deviation.
+ */
+export function backtestBand(
+	history: number[][],
+	fraction: number
+): { low: number; high: number } {
+	const ratios: number[] = []
+	for (const month of history) {
+		const days = fraction * month.length
+		const spent = spentWithin(month, days)
+		const predicted = runRateRemainder(spent, days, month.length)
+		if (predicted <= 0) continue
+		ratios.push((sum(month) - spent) / predicted)
+	}
+	if (ratios.length < 2) return { low: 1 - DEFAULT_BAND, high: 1 + DEFAULT_BAND }
+	const mean = sum(ratios) / ratios.length
+	const sd = Math.sqrt(sum(ratios.map(r => (r - mean) ** 2)) / ratios.length)
+	return {
+		low: Math.max(0, Math.min(1, mean - sd)),
+		high: Math.max(1, mean + sd)
+	}
+}
+
+/**
+ * End-of-month projection: recurring runs are added as scheduled, the rest is
+ * extrapolated from the run rate, blended with the usual day-of-month pattern
+ * when earlier months are available.
+ */
+export function forecastSpending(input: SpendingForecastInput): SpendingForecast {
+	const runRate = runRateRemainder(
+		input.discretionarySpent,
+		input.elapsedDays,
+		input.daysInMonth
+	)
+	const fraction = input.elapsedDays / input.daysInMonth
+	const share = typicalShare(input.history, fraction)
+	const seasonal = share != null && share >= MIN_SEASONAL_SHARE && share < 1
+	const remainder = seasonal
+		? (runRate + (input.discretionarySpent / share - input.discretionarySpent)) / 2
+		: runRate
+	const band = backtestBand(input.history, fraction)
+	const spent = input.discretionarySpent + input.recurringSpent
+	const base = spent + input.upcomingRecurringExpenses
+	const expenses: ForecastBand = {
+		low: base + remainder * band.low,
+		expected: base + remainder,
+		high: base + remainder * band.high
+	}
+	const balanceAt = (total: number) =>
+		input.balance + input.upcomingRecurringIncome - (total - spent)
+	return {
+		spent,
+		expenses,
+		balance: {
+			low: balanceAt(expenses.high),
+			expected: balanceAt(expenses.expected),
+			high: balanceAt(expenses.low)
+		},
+		seasonal,
+		lastMonthTotal: input.lastMonthTotal,
+		exceedsLastMonth:
+			input.lastMonthTotal > 0 && expenses.expected > input.lastMonthTotal
+	}
+}
+
+/** Days until `amount` is gone at `outflowPerDay`; null when the balance is not shrinking. */
+export function runwayDays(amount: number, outflowPerDay: number): number | null {
+	if (amount <= 0 || outflowPerDay <= 0) return null
+	return amount / outflowPerDay
+}
+
+export function forecastWarningText(
+	forecast: SpendingForecast,
+	mainCurrency: string
+): string {
+	return `⚠️ <b>Расходы идут выше прошлого месяца</b>
+
+Прогноз на конец месяца: ${formatAmount(forecast.expenses.expected, mainCurrency)}
+(от ${formatAmount(forecast.expenses.low, mainCurrency)} до ${formatAmount(
+		forecast.expenses.high,
+		mainCurrency
+	)})
+Весь прошлый месяц: ${formatAmount(forecast.lastMonthTotal, mainCurrency)}`
+}
@@ -0,0 +1,221 @@
+import {
+	appEntryTarget,
+	detectAppImportFormat,
+	parseAppImport,
+	summarizeAppAccounts
+} from './app-import.utils'
+
+function csv(lines: string[]): Buffer {
+	return Buffer.from(lines.join('\n'), 'utf-8')
+}
+
+describe('app-import.utils', () => {
+	it('detects the source app by its headers', () => {
+		expect(
+			detectAppImportFormat([
+				'date',
+				'categoryName',
+				'payee',
+				'comment',
+				'outcomeAccountName',
+				'outcome',
+				'outcomeCurrencyShortTitle',
+				'incomeAccountName',
+				'income',
+				'incomeCurrencyShortTitle'
+			])
+		).toBe('zenmoney')
+		expect(
+			detectAppImportFormat([
+				'Данные',
+				'Тип',
+				'Из',
+				'В',
+				'Метки',
+				'Сумма',
+				'Валюта'
+			])
+		).toBe('coinkeeper')
+		expect(
+			detectAppImportFormat([
+				'Period',
+				'Accounts',
+				'Category',
+				'Subcategory',
+				'Note',
+				'Income/Expense',
+				'Amount',
+				'Currency'
+			])
+		).toBe('money_manager')
+		expect(
+			detectAppImportFormat([
+				'account',
+				'category',
+				'currency',
+				'amount',
+				'type',
+				'note',
+				'date',
+				'transfer',
+				'labels'
+			])
+		).toBe('wallet')
+		expect(detectAppImportFormat(['Date', 'Amount', 'Description'])).toBeNull()
+	})
+
+	it('reads ZenMoney expenses, income and transfers', () => {
+		const parsed = parseAppImport(
+			csv([
+				'date;categoryName;payee;comment;outcomeAccountName;outcome;outcomeCurrencyShortTitle;incomeAccountName;income;incomeCurrencyShortTitle',
+				'2023-01-02;Еда / Кафе;Starbucks;;Карта;4,50;EUR;Карта;0;EUR',
+				'2023-01-03;Зарплата;;;Карта;0;EUR;Карта;2000;EUR',
+				'2023-01-04;;;;Карта;100;EUR;Наличные USD;108;USD'
+			])
+		)
+		expect(parsed?.format).toBe('zenmoney')
+		expect(parsed?.entries).toMatchObject([
+			{
+				direction: 'expense',
+				account: 'Карта',
+				amount: 4.5,
+				currency: 'EUR',
+				category: 'Еда',
+				tags: ['Кафе'],
+				description: 'Starbucks'
+			},
+			{ direction: 'income', account: 'Карта', amount: 2000, category: 'Зарплата' },
+			{
+				direction: 'transfer',
+				account: 'Карта',
+				toAccount: 'Наличные USD',
+				amount: 100,
+				toAmount: 108,
+				toCurrency: 'USD'
+			}
+		])
+	})
+
+	it('reads CoinKeeper rows where categories live in From/To', () => {
+		const parsed = parseAppImport(
+			csv([
+				'Данные,Тип,Из,В,Метки,Сумма,Валюта,Сумма в валюте перевода,Валюта перевода,Повтор,Примечание',
+				'05.02.2023,Расход,Карта,Продукты,"дом, еда",25.40,EUR,,,,Ашан',
+				'06.02.2023,Доход,Зарплата,Карта,,1500,EUR,,,,',
+				'07.02.2023,Перевод,Карта,Копилка,,200,EUR,200,EUR,,',
+				'',
+				'Счета,,,,,,,,,,'
+			])
+		)
+		expect(parsed?.skipped).toBe(1)
+		expect(parsed?.entries).toMatchObject([
+			{
+				direction: 'expense',
+				account: 'Карта',
+				category: 'Продукты',
+				tags: ['дом', 'еда'],
+				amount: 25.4,
+				description: 'Ашан'
+			},
+			{ direction: 'income', account: 'Карта', category: 'Зарплата', amount: 1500 },
+			{ direction: 'transfer', account: 'Карта', toAccount: 'Копилка', amount: 200 }
+		])
+	})
+
+	it('reads Money Manager and ignores mirrored transfer-in rows', () => {
+		const parsed = parseAppImport(
+			csv([
+				'Period,Accounts,Category,Subcategory,Note,Income/Expense,Description,Amount,Currency',
+				'03/15/2023 12:30:00,Cash,Food,Lunch,Burger,Exp.,,12.5,USD',
+				'03/16/2023 09:00:00,Bank,Cash,,,Transfer-Out,,50,USD',
+				'03/16/2023 09:00:00,Cash,Bank,,,Transfer-In,,50,USD'
+			])
+		)
+		expect(parsed?.skipped).toBe(0)
+		expect(parsed?.entries).toMatchObject([
+			{
+				direction: 'expense',
+				account: 'Cash',
+				category: 'Food',
+				tags: ['Lunch'],
+				date: { year: 2023, month: 2, day: 15 }
+			},
+			{ direction: 'transfer', account: 'Bank', toAccount: 'Cash', amount: 50 }
+		])
+	})
+
+	it('pairs the two Wallet transfer rows and counts operations per account', () => {
+		const parsed = parseAppImport(
+			csv([
+				'account;category;currency;amount;type;note;date;transfer;payee;labels',
+				'Cash;Groceries;EUR;-12.30;Expenses;;2023-04-01T10:00:00.000Z;false;Lidl;home|weekly',
+				'Bank;Transfer;EUR;-100;Expenses;;2023-04-02T08:00:00.000Z;true;;',
+				'Cash;Transfer;EUR;100;Income;;2023-04-02T08:00:00.000Z;true;;',
+				'Bank;Salary;EUR;2500;Income;;2023-04-03T08:00:00.000Z;false;ACME;'
+			])
+		)
+		expect(parsed?.entries).toHaveLength(3)
+		expect(parsed?.entries[0]).toMatchObject({
+			direction: 'expense',
+			amount: 12.3,
+			tags: ['home', 'weekly'],
+			description: 'Lidl'
+		})
+		expect(parsed?.entries[1]).toMatchObject({
+			direction: 'transfer',
+			account: 'Bank',
+			toAccount: 'Cash',
+			amount: 100,
+			toAmount: 100
+		})
+		expect(summarizeAppAccounts(parsed!.entries)).toEqual([
+			{ name: 'Cash', expenses: 1, income: 0, transfers: 1 },
+			{ name: 'Bank', expenses: 0, income: 1, transfers: 1 }
+		])
+	})
+
+	it('keeps ids stable between uploads of the same file', () => {
+		const lines = [
+			'account;category;currency;amount;type;note;date;transfer;payee;labels',
+			'Cash;Coffee;EUR;-3;Expenses;;2023-04-01T10:00:00.000Z;false;;',
+			'Cash;Coffee;EUR;-3;Expenses;;2023-04-01T10:00:00.000Z;false;;'
+		]
+		const first = parseAppImport(csv(lines))!.entries.map(e => e.externalId)
+		const second = parseAppImport(csv(lines))!.entries.map(e => e.externalId)
+		expect(first).toEqual(second)
+		expect(new Set(first).size).toBe(2)
+	})
+
+	it('maps transfers with an unmapped side to the outside account', () => {
+		const transfer = {
+			externalId: 'x',
+			date: { year: 2023, month: 0, day: 1 },
+			direction: 'transfer' as const,
+			account: 'Card',
+			toAccount: 'Debts',
+			amount: 10,
+			currency: 'EUR',
+			tags: [],
+			description: ''
+		}
+		const mapping = { Card: 'card', Debts: null, Savings: 'card' }
+		expect(appEntryTarget(transfer, mapping)).toEqual({
+			accountId: 'card',
+			toAccountId: null
+		})
+		expect(appEntryTarget({ ...transfer, account: 'Debts' }, mapping)).toBeNull()
+		expect(appEntryTarget({ ...transfer, toAccount: 'Savings' }, mapping)).toBeNull()
+		expect(
+			appEntryTarget(
+				{ ...transfer, toAccount: 'Savings', toCurrency: 'USD', toAmount: 11 },
+				mapping
+			)
+		).toEqual({ accountId: 'card', toAccountId: 'card' })
+		expect(
+			appEntryTarget(
+				{ ...transfer, direction: 'expense', account: 'Debts' },
+				mapping
+			)
+		).toBeNull()
+	})
+})
@@ -0,0 +1,525 @@
+import { createHash } from 'crypto'
+import {
+	detectDateFormat,
+	detectDecimalSeparator,
+	parseCsvAmount,
+	parseCsvDate,
+	readCsv,
+	type CsvDecimalSeparator,
+	type ImportDate
+} from './csv-import.utils'
+
+export type AppImportFormat = 'zenmoney' | 'coinkeeper' | 'money_manager' | 'wallet'
+
+export interface AppImportEntry {
+	/** Hash of the source row(s), unique within the file */
+	externalId: string
+	date: ImportDate
+	direction: 'income' | 'expense' | 'transfer'
+	/** Account the money left (expense, transfer) or arrived on (income); unset for a transfer from outside the app */
+	account?: string
+	/** Receiving account of a transfer; unset for a transfer out of the app */
+	toAccount?: string
+	/** Always positive */
+	amount: number
+	currency?: string
+	/** What the receiving side of a transfer got, when it differs */
+	toAmount?: number
+	toCurrency?: string
+	category?: string
+	tags: string[]
+	description: string
+}
+
+export interface ParsedAppImport {
+	format: AppImportFormat
+	entries: AppImportEntry[]
+	/** Rows without a date, an amount or an account */
+	skipped: number
+}
+
+export interface AppImportAccountSummary {
+	name: string
+	expenses: number
+	income: number
+	transfers: number
+}
+
+export const APP_IMPORT_FORMAT_LABELS: Record<AppImportFormat, string> = {
+	zenmoney: 'ZenMoney',
+	coinkeeper: 'CoinKeeper',
+	money_manager: 'Money Manager',
+	wallet: 'Wallet (BudgetBakers)'
+}
+
+/** Column name variants, compared after `normalizeHeader`. */
+const COLUMNS = {
+	zenmoney: {
+		date: ['date'],
+		category: ['categoryname'],
+		payee: ['payee'],
+		comment: ['comment'],
+		outcomeAccount: ['outcomeaccountname'],
+		outcome: ['outcome'],
+		outcomeCurrency: ['outcomecurrencyshorttitle'],
+		incomeAccount: ['incomeaccountname'],
+		income: ['income'],
+		incomeCurrency: ['incomecurrencyshorttitle']
+	},
+	coinkeeper: {
+		date: ['date', 'данные', 'дата'],
+		type: ['type', 'тип'],
+		from: ['from', 'из'],
+		to: ['to', 'в'],
+		tags: ['tags', 'метки', 'теги'],
+		amount: ['amount', 'сумма'],
+		currency: ['currency', 'валюта'],
+		toAmount: ['amountconverted', 'суммаввалютеперевода'],
+		toCurrency: ['currencyofconversion', 'валютаперевода'],
+		note: ['note', 'примечание']
+	},
+	money_manager: {
+		date: ['period', 'date'],
+		account: ['accounts', 'account'],
+		category: ['category'],
+		subcategory: ['subcategory'],
+		note: ['note'],
+		type: ['incomeexpense', 'incomeexpenses'],
+		description: ['description'],
+		amount: ['amount'],
+		currency: ['currency']
+	},
+	wallet: {
+		date: ['date'],
+		account: ['account'],
+		category: ['category'],
+		currency: ['currency'],
+		amount: ['amount'],
+		type: ['type'],
+		note: ['note'],
+		payee: ['payee'],
+		transfer: ['transfer'],
+		labels: ['labels']
+	}
+} satisfies Record<AppImportFormat, Record<string, string[]>>
+
+/** Columns holding amounts, sampled for the decimal separator. */
+const AMOUNT_COLUMNS: { [F in AppImportFormat]: Array<keyof (typeof COLUMNS)[F]> } = {
+	zenmoney: ['outcome', 'income'],
+	coinkeeper: ['amount', 'toAmount'],
+	money_manager: ['amount'],
+	wallet: ['amount']
+}
+
+type Columns<F extends AppImportFormat> = Record<keyof (typeof COLUMNS)[F], number>
+
+type AdapterResult = { entries: AppImportEntry[]; skipped: number }
+
+/** Rows of one file with the helpers every adapter needs. */
+interface AppTable {
+	rows: string[][]
+	parseDate: (value: string) => ImportDate | null
+	parseAmount: (value: string) => number | null
+}
+
+function shortHash(value: string): string {
+	return createHash('sha1').update(value).digest('hex').slice(0, 16)
+}
+
+function normalizeHeader(value: string): string {
+	return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')
+}
+
+function resolveColumns<F extends AppImportFormat>(
+	format: F,
+	header: string[]
+): Columns<F> {
+	const normalized = header.map(normalizeHeader)
+	const names = COLUMNS[format] as Record<string, string[]>
+	const result: Record<string, number> = {}
+	for (const [key, variants] of Object.entries(names)) {
+		result[key] = normalized.findIndex(h => variants.includes(h))
+	}
+	return result as Columns<F>
+}
+
+function cell(row: string[], index: number): string {
+	return index >= 0 ? (row[index] ?? '').trim() : ''
+}
+
+function joinText(...parts: string[]): string {
+	return parts.filter(Boolean).join(' — ')
+}
+
+/** `Еда / Кафе` → category `Еда` and tag `Кафе`; our categories are flat. */
+function splitCategory(value: string): { category?: string; tags: string[] } {
+	const [category, ...rest] = value
+		.split(/\s*[/\\]\s*/)
+		.map(part => part.trim())
+		.filter(Boolean)
+	return { category, tags: rest.slice(0, 1) }
+}
+
+function splitTags(value: string): string[] {
+	return value
+		.split(/[,;|]/)
+		.map(tag => tag.trim())
+		.filter(Boolean)
+}
+
+function currencyCode(value: string): string | undefined {
+	const code = value.trim().toUpperCase()
+	return /^[A-Z0-9]{2,10}$/.test(code) ? code : undefined
+}
+
+export function detectAppImportFormat(header: string[]): AppImportFormat | null {
+	const normalized = header.map(normalizeHeader)
+	const has = (...names: string[]) => names.every(name => normalized.includes(name))
+	if (has('outcomeaccountname', 'incomeaccountname', 'outcome', 'income')) {
+		return 'zenmoney'
+	}
+	if (
+		(has('type', 'from', 'to', 'amount', 'currency') ||
+			has('тип', 'из', 'в', 'сумма', 'валюта')) &&
+		(has('tags') || has('метки') || has('теги'))
+	) {
+		return 'coinkeeper'
+	}
+	if (
+		(has('incomeexpense') || has('incomeexpenses')) &&
+		(has('accounts') || has('account')) &&
+		has('category')
+	) {
+		return 'money_manager'
+	}
+	if (has('account', 'category', 'currency', 'amount', 'type', 'transfer')) {
+		return 'wallet'
+	}
+	return null
+}
+
+function parseZenMoney(table: AppTable, c: Columns<'zenmoney'>): AdapterResult {
+	const entries: AppImportEntry[] = []
+	let skipped = 0
+	for (const row of table.rows) {
+		const date = table.parseDate(cell(row, c.date))
+		const outcome = Math.abs(table.parseAmount(cell(row, c.outcome)) ?? 0)
+		const income = Math.abs(table.parseAmount(cell(row, c.income)) ?? 0)
+		const from = cell(row, c.outcomeAccount)
+		const to = cell(row, c.incomeAccount)
+		if (!date) {
+			skipped++
+			continue
+		}
+		const { category, tags } = splitCategory(cell(row, c.category))
+		const base = {
+			externalId: shortHash(row.join('|')),
+			date,
+			category,
+			tags,
+			description: joinText(cell(row, c.payee), cell(row, c.comment))
+		}
+		if (outcome > 0 && income > 0 && from && to && from !== to) {
+			entries.push({
+				...base,
+				direction: 'transfer',
+				account: from,
+				toAccount: to,
+				amount: outcome,
+				currency: currencyCode(cell(row, c.outcomeCurrency)),
+				toAmount: income,
+				toCurrency: currencyCode(cell(row, c.incomeCurrency)),
+				category: undefined
+			})
+		} else if (outcome > 0 && from) {
+			entries.push({
+				...base,
+				direction: 'expense',
+				account: from,
+				amount: outcome,
+				currency: currencyCode(cell(row, c.outcomeCurrency))
+			})
+		} else if (income > 0 && to) {
+			entries.push({
+				...base,
+				direction: 'income',
+				account: to,
+				amount: income,
+				currency: currencyCode(cell(row, c.incomeCurrency))
+			})
+		} else {
+			skipped++
+		}
+	}
+	return { entries, skipped }
+}
+
+function parseCoinKeeper(table: AppTable, c: Columns<'coinkeeper'>): AdapterResult {
+	const entries: AppImportEntry[] = []
+	let skipped = 0
+	for (const row of table.rows) {
+		const date = table.parseDate(cell(row, c.date))
+		const amount = Math.abs(table.parseAmount(cell(row, c.amount)) ?? 0)
+		const type = cell(row, c.type).toLowerCase()
+		const from = cell(row, c.from)
+		const to = cell(row, c.to)
+		if (!date || !amount) {
+			skipped++
+			continue
+		}
+		const base = {
+			externalId: shortHash(row.join('|')),
+			date,
+			amount,
+			currency: currencyCode(cell(row, c.currency)),
+			tags: splitTags(cell(row, c.tags)),
+			description: cell(row, c.note)
+		}
+		if (/expense|расход/.test(type) && from) {
+			entries.push({ ...base, direction: 'expense', account: from, category: to })
+		} else if (/income|доход/.test(type) && to) {
+			entries.push({ ...base, direction: 'income', account: to, category: from })
+		} else if (/transfer|перевод/.test(type) && (from || to)) {
+			const toAmount = Math.abs(table.parseAmount(cell(row, c.toAmount)) ?? 0)
+			entries.push({
+				...base,
+				direction: 'transfer',
+				account: from || undefined,
+				toAccount: to || undefined,
+				toAmount: toAmount || undefined,
+				toCurrency: currencyCode(cell(row, c.toCurrency))
+			})
+		} else {
+			skipped++
+		}
+	}
+	return { entries, skipped }
+}
+
+function parseMoneyManager(table: AppTable, c: Columns<'money_manager'>): AdapterResult {
+	const entries: AppImportEntry[] = []
+	let skipped = 0
+	for (const row of table.rows) {
+		const date = table.parseDate(cell(row, c.date))
+		const amount = Math.abs(table.parseAmount(cell(row, c.amount)) ?? 0)
+		const type = cell(row, c.type)
+			.toLowerCase()
+			.replace(/[^a-z]/g, '')
+		const account = cell(row, c.account)
+		// transfer-in rows mirror transfer-out ones
+		if (type === 'transferin') continue
+		if (!date || !amount || !account) {
+			skipped++
+			continue
+		}
+		const subcategory = cell(row, c.subcategory)
+		const base = {
+			externalId: shortHash(row.join('|')),
+			date,
+			amount,
+			currency: currencyCode(cell(row, c.currency)),
+			account,
+			tags: subcategory ? [subcategory] : [],
+			description: joinText(cell(row, c.note), cell(row, c.description))
+		}
+		if (type === 'transferout') {
+			// the category column holds the receiving account
+			entries.push({
+				...base,
+				direction: 'transfer',
+				toAccount: cell(row, c.category) || undefined,
+				tags: []
+			})
+		} else if (type === 'income') {
+			entries.push({
+				...base,
+				direction: 'income',
+				category: cell(row, c.category)
+			})
+		} else if (type.startsWith('exp')) {
+			entries.push({
+				...base,
+				direction: 'expense',
+				category: cell(row, c.category)
+			})
+		} else {
+			skipped++
+		}
+	}
+	return { entries, skipped }
+}
+
+/** Wallet writes a transfer as two rows, one per account; they are paired by timestamp. */
+function parseWallet(table: AppTable, c: Columns<'wallet'>): AdapterResult {
+	const entries: AppImportEntry[] = []
+	let skipped = 0
+	const incoming: Array<{ row: string[]; amount: number; used: boolean }> = []
+	const outgoing: Array<{ row: string[]; amount: number }> = []
+	for (const row of table.rows) {
+		const date = table.parseDate(cell(row, c.date))
+		const signed = table.parseAmount(cell(row, c.amount))
+		const account = cell(row, c.account)
+		if (!date || !signed || !account) {
+			skipped++
+			continue
+		}
+		if (/^true$/i.test(cell(row, c.transfer))) {
+			if (signed < 0) outgoing.push({ row, amount: -signed })
+			else incoming.push({ row, amount: signed, used: false })
+			continue
+		}
+		const income = /income/i.test(cell(row, c.type)) || signed > 0
+		entries.push({
+			externalId: shortHash(row.join('|')),
+			date,
+			direction: income ? 'income' : 'expense',
+			account,
+			amount: Math.abs(signed),
+			currency: currencyCode(cell(row, c.currency)),
+			category: cell(row, c.category) || undefined,
+			tags: splitTags(cell(row, c.labels)),
+			description: joinText(cell(row, c.payee), cell(row, c.note))
+		})
+	}
+	for (const out of outgoing) {
+		const pair = incoming.find(
+			item =>
+				!item.used &&
+				cell(item.row, c.date) === cell(out.row, c.date) &&
+				cell(item.row, c.account) !== cell(out.row, c.account)
+		)
+		if (pair) pair.used = true
+		entries.push({
+			externalId: shortHash([...out.row, ...(pair?.row ?? [])].join('|')),
+			date: table.parseDate(cell(out.row, c.date))!,
+			direction: 'transfer',
+			account: cell(out.row, c.account),
+			toAccount: pair ? cell(pair.row, c.account) : undefined,
+			amount: out.amount,
+			currency: currencyCode(cell(out.row, c.currency)),
+			toAmount: pair?.amount,
+			toCurrency: pair ? currencyCode(cell(pair.row, c.currency)) : undefined,
+			tags: [],
+			description: joinText(cell(out.row, c.payee), cell(out.row, c.note))
+		})
+	}
+	for (const item of incoming.filter(i => !i.used)) {
+		entries.push({
+			externalId: shortHash(item.row.join('|')),
+			date: table.parseDate(cell(item.row, c.date))!,
+			direction: 'transfer',
+			toAccount: cell(item.row, c.account),
+			amount: item.amount,
+			currency: currencyCode(cell(item.row, c.currency)),
+			tags: [],
+			description: joinText(cell(item.row, c.payee), cell(item.row, c.note))
+		})
+	}
+	return { entries, skipped }
+}
+
+function uniqueIds(entries: AppImportEntry[]): AppImportEntry[] {
+	const seen = new Map<string, number>()
+	return entries.map(entry => {
+		const count = seen.get(entry.externalId) ?? 0
+		seen.set(entry.externalId, count + 1)
+		return count ? { ...entry, externalId: `${entry.externalId}#${count}` } : entry
+	})
+}
+
+function sortKey(date: ImportDate): number {
+	return Date.UTC(date.year, date.month, date.day)
+}
+
+/** Parses a ZenMoney, CoinKeeper, Money Manager or Wallet CSV export; null for other files. */
+export function parseAppImport(buffer: Buffer): ParsedAppImport | null {
+	const { header, rows, hasHeader } = readCsv(buffer)
+	const format = hasHeader ? detectAppImportFormat(header) : null
+	if (!format) return null
+	const data = rows.filter(row => row.some(value => value.trim() !== ''))
+	const columns = resolveColumns(format, header)
+	const amounts = (AMOUNT_COLUMNS[format] as string[]).map(
+		key => (columns as Record<string, number>)[key]
+	)
+	// CoinKeeper appends an account list below the transactions
+	const dateFormat = detectDateFormat(
+		data.map(row => cell(row, columns.date)).filter(value => /^\d/.test(value))
+	)
+	const separator: CsvDecimalSeparator = detectDecimalSeparator(
+		data.flatMap(row => amounts.map(index => cell(row, index))).filter(Boolean)
+	)
+	const table: AppTable = {
+		rows: data,
+		parseDate: value => (dateFormat ? parseCsvDate(value, dateFormat) : null),
+		parseAmount: value => parseCsvAmount(value, separator)
+	}
+	const { entries, skipped } =
+		format === 'zenmoney'
+			? parseZenMoney(table, columns as Columns<'zenmoney'>)
+			: format === 'coinkeeper'
+				? parseCoinKeeper(table, columns as Columns<'coinkeeper'>)
+				: format === 'money_manager'
+					? parseMoneyManager(table, columns as Columns<'money_manager'>)
+					: parseWallet(table, columns as Columns<'wallet'>)
+	entries.sort((a, b) => sortKey(a.date) - sortKey(b.date))
+	return { format, entries: uniqueIds(entries), skipped }
+}
+
+/** Operation counts per source account, in order of appearance. */
+export function summarizeAppAccounts(
+	entries: AppImportEntry[]
+): AppImportAccountSummary[] {
+	const summaries = new Map<string, AppImportAccountSummary>()
+	const bump = (
+		name: string | undefined,
+		key: keyof Omit<AppImportAccountSummary, 'name'>
+	) => {
+		if (!name) return
+		const summary = summaries.get(name) ?? {
+			name,
+			expenses: 0,
+			income: 0,
+			transfers: 0
+		}
+		summary[key]++
+		summaries.set(name, summary)
+	}
+	for (const entry of entries) {
+		if (entry.direction === 'transfer') {
+			bump(entry.account, 'transfers')
+			bump(entry.toAccount, 'transfers')
+		} else {
+			bump(entry.account, entry.direction === 'income' ? 'income' : 'expenses')
+		}
+	}
+	return Array.from(summaries.values())
+}
+
+export interface AppEntryTarget {
+	/** Account for income and expenses, sending side of a transfer; null is outside the wallet */
+	accountId: string | null
+	/** Receiving side of a transfer; null is outside the wallet */
+	toAccountId: string | null
+}
+
+/**
+ * Where an entry lands once source accounts are mapped to ours (null = not imported).
+ * A transfer with one unmapped side goes to or from the outside account; one
+ * between two source accounts mapped to the same account only counts as a
+ * conversion.
+ */
+export function appEntryTarget(
+	entry: AppImportEntry,
+	mapping: Record<string, string | null>
+): AppEntryTarget | null {
+	const from = entry.account ? (mapping[entry.account] ?? null) : null
+	if (entry.direction !== 'transfer') {
+		return from ? { accountId: from, toAccountId: null } : null
+	}
+	const to = entry.toAccount ? (mapping[entry.toAccount] ?? null) : null
+	if (!from && !to) return null
+	if (from === to && (!entry.toCurrency || entry.toCurrency === entry.currency)) {
+		return null
+	}
+	return { accountId: from, toAccountId: to }
+}
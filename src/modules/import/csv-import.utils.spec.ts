@@ -0,0 +1,122 @@
+import {
+	buildImportRows,
+	decodeCsvBuffer,
+	detectDateFormat,
+	detectDecimalSeparator,
+	detectDelimiter,
+	detectImportOptions,
+	guessColumnMapping,
+	importFingerprint,
+	parseCsvAmount,
+	parseCsvText,
+	readCsv
+} from './csv-import.utils'
+
+describe('csv-import.utils', () => {
+	it('decodes BOM, UTF-8 and Windows-1251 files', () => {
+		const bom = Buffer.from([0xef, 0xbb, 0xbf, ...Buffer.from('Дата;Сумма')])
+		expect(decodeCsvBuffer(bom)).toEqual({ text: 'Дата;Сумма', encoding: 'utf-8' })
+		// «Дата» in cp1251
+		const cp1251 = Buffer.from([0xc4, 0xe0, 0xf2, 0xe0])
+		expect(decodeCsvBuffer(cp1251)).toEqual({
+			text: 'Дата',
+			encoding: 'windows-1251'
+		})
+	})
+
+	it('parses quoted fields and detects the delimiter', () => {
+		const text = 'date;amount;description\n2026-03-01;"-1 200,50";"Кафе; ""Уют"""\n'
+		expect(detectDelimiter(text)).toBe(';')
+		expect(parseCsvText(text, ';')[1]).toEqual([
+			'2026-03-01',
+			'-1 200,50',
+			'Кафе; "Уют"'
+		])
+		expect(detectDelimiter('a\tb\tc\n1\t2\t3')).toBe('\t')
+	})
+
+	it('detects date formats, preferring day-first when ambiguous', () => {
+		expect(detectDateFormat(['01.03.2026', '15.03.2026 12:40'])).toBe('dd.mm.yyyy')
+		expect(detectDateFormat(['01/03/2026', '02/04/2026'])).toBe('dd/mm/yyyy')
+		expect(detectDateFormat(['03/15/2026', '03/01/2026'])).toBe('mm/dd/yyyy')
+		expect(detectDateFormat(['2026-03-15T10:00:00'])).toBe('yyyy-mm-dd')
+		expect(detectDateFormat(['вчера'])).toBeNull()
+	})
+
+	it('parses amounts in common bank notations', () => {
+		expect(detectDecimalSeparator(['-1 200,50', '300,00'])).toBe(',')
+		expect(detectDecimalSeparator(['1,234.56', '-12.5'])).toBe('.')
+		expect(parseCsvAmount('-1 200,50 ₴', ',')).toBe(-1200.5)
+		expect(parseCsvAmount('1.234,56', ',')).toBe(1234.56)
+		expect(parseCsvAmount('(45.10)', '.')).toBe(-45.1)
+		expect(parseCsvAmount('1,234', '.')).toBe(1234)
+		expect(parseCsvAmount('—', '.')).toBeNull()
+	})
+
+	it('maps columns by header and builds rows', () => {
+		const csv = [
+			'Дата операции;Описание;Валюта;Сумма',
+			'01.03.2026;Кофе;UAH;-120,00',
+			'02.03.2026;Зарплата;UAH;45 000,00',
+			'03.03.2026;Пусто;UAH;0'
+		].join('\r\n')
+		const table = readCsv(Buffer.from(csv))
+		expect(table.hasHeader).toBe(true)
+		const mapping = guessColumnMapping(table)
+		expect(mapping).toEqual({ date: 0, description: 1, currency: 2, amount: 3 })
+		const options = detectImportOptions(table, mapping)
+		expect(options).toEqual({ dateFormat: 'dd.mm.yyyy', decimalSeparator: ',' })
+		const { rows, invalid } = buildImportRows(table, mapping, {
+			dateFormat: 'dd.mm.yyyy',
+			decimalSeparator: ','
+		})
+		expect(invalid).toBe(1)
+		expect(rows[0]).toMatchObject({
+			line: 2,
+			date: { year: 2026, month: 2, day: 1 },
+			amount: 120,
+			direction: 'expense',
+			description: 'Кофе',
+			currency: 'UAH'
+		})
+		expect(rows[1]).toMatchObject({ amount: 45000, direction: 'income' })
+	})
+
+	it('guesses columns from data when there is no header', () => {
+		const table = readCsv(
+			Buffer.from('2026-03-01,Coffee shop,12.50\n2026-03-02,Taxi,8.00')
+		)
+		expect(table.hasHeader).toBe(false)
+		expect(guessColumnMapping(table)).toEqual({ date: 0, amount: 2, description: 1 })
+	})
+
+	it('uses separate debit and credit columns', () => {
+		const table = readCsv(
+			Buffer.from(
+				'Date,Details,Debit,Credit\n2026-03-01,Rent,500.00,\n2026-03-02,Refund,,20.00'
+			)
+		)
+		const mapping = guessColumnMapping(table)
+		expect(mapping).toEqual({ date: 0, description: 1, debit: 2, credit: 3 })
+		const { rows } = buildImportRows(table, mapping, {
+			dateFormat: 'yyyy-mm-dd',
+			decimalSeparator: '.'
+		})
+		expect(rows.map(r => [r.direction, r.amount])).toEqual([
+			['expense', 500],
+			['income', 20]
+		])
+	})
+
+	it('builds stable fingerprints', () => {
+		const date = { year: 2026, month: 2, day: 1 }
+		expect(
+			importFingerprint({
+				date,
+				amount: 120,
+				direction: 'expense',
+				description: ' Кофе  Зерно '
+			})
+		).toBe('2026-03-01|-120.00|кофе зерно')
+	})
+})
@@ -0,0 +1,461 @@
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'windows-1251'
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|'
+
+export type CsvDateFormat =
+	| 'yyyy-mm-dd'
+	| 'dd.mm.yyyy'
+	| 'dd/mm/yyyy'
+	| 'mm/dd/yyyy'
+	| 'dd-mm-yyyy'
+
+export type CsvDecimalSeparator = '.' | ','
+
+export type CsvField =
+	| 'date'
+	| 'amount'
+	| 'debit'
+	| 'credit'
+	| 'description'
+	| 'currency'
+	| 'category'
+
+/** Column index per transaction field; a missing key means the field is not imported. */
+export type CsvColumnMapping = Partial<Record<CsvField, number>>
+
+export interface CsvTable {
+	encoding: CsvEncoding
+	delimiter: CsvDelimiter
+	hasHeader: boolean
+	header: string[]
+	rows: string[][]
+}
+
+export interface ImportDate {
+	year: number
+	/** 0-based */
+	month: number
+	day: number
+}
+
+export interface CsvImportRow {
+	/** 1-based line in the file, for error messages */
+	line: number
+	date: ImportDate
+	/** Always positive; the sign lives in `direction` */
+	amount: number
+	direction: 'income' | 'expense'
+	description: string
+	currency?: string
+	category?: string
+}
+
+export interface CsvImportOptions {
+	dateFormat: CsvDateFormat
+	decimalSeparator: CsvDecimalSeparator
+}
+
+export const CSV_FIELDS: CsvField[] = [
+	'date',
+	'amount',
+	'debit',
+	'credit',
+	'description',
+	'currency',
+	'category'
+]
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = [
+	'yyyy-mm-dd',
+	'dd.mm.yyyy',
+	'dd/mm/yyyy',
+	'mm/dd/yyyy',
+	'dd-mm-yyyy'
+]
+
+const DELIMITERS: CsvDelimiter[] = [';', ',', '\t', '|']
+
+const DATE_PATTERNS: Record<CsvDateFormat, RegExp> = {
+	'yyyy-mm-dd': /^(\d{4})[-./](\d{1,2})[-./](\d{1,2})(?:$|[\sT])/,
+	'dd.mm.yyyy': /^(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2})(?:$|[\s,])/,
+	'dd/mm/yyyy': /^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})(?:$|[\s,])/,
+	'mm/dd/yyyy': /^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})(?:$|[\s,])/,
+	'dd-mm-yyyy': /^(\d{1,2})-(\d{1,2})-(\d{4}|\d{2})(?:$|[\s,])/
+}
+
+/** Lower-case header fragments per field, checked in `HEADER_FIELD_ORDER`. */
+const HEADER_KEYWORDS: Record<CsvField, string[]> = {
+	date: ['дата', 'date', 'день', 'posted', 'booking'],
+	currency: ['валюта', 'currency', 'ccy'],
+	debit: ['расход', 'списан', 'debit', 'витрат', 'withdraw', 'outflow'],
+	credit: ['приход', 'поступлен', 'зачислен', 'credit', 'надходж', 'deposit', 'inflow'],
+	amount: ['сумма', 'сума', 'amount', 'sum', 'value'],
+	category: ['категори', 'category'],
+	description: [
+		'описан',
+		'опис',
+		'назначен',
+		'призначен',
+		'description',
+		'details',
+		'детали',
+		'merchant',
+		'payee',
+		'memo',
+		'комментар',
+		'коментар'
+	]
+}
+
+const HEADER_FIELD_ORDER: CsvField[] = [
+	'date',
+	'currency',
+	'debit',
+	'credit',
+	'amount',
+	'category',
+	'description'
+]
+
+const SAMPLE_SIZE = 50
+
+/** Decodes the file bytes: BOM first, then strict UTF-8, then the Windows Cyrillic code page. */
+export function decodeCsvBuffer(buffer: Buffer): { text: string; encoding: CsvEncoding } {
+	if (
+		buffer.length >= 3 &&
+		buffer[0] === 0xef &&
+		buffer[1] === 0xbb &&
+		buffer[2] === 0xbf
+	) {
+		return { text: buffer.subarray(3).toString('utf8'), encoding: 'utf-8' }
+	}
+	if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+		return { text: buffer.subarray(2).toString('utf16le'), encoding: 'utf-16le' }
+	}
+	try {
+		const text = new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+		return { text, encoding: 'utf-8' }
+	} catch {
+		return {
+			text: new TextDecoder('windows-1251').decode(buffer),
+			encoding: 'windows-1251'
+		}
+	}
+}
+
+/** Splits CSV text into rows, honouring double-quoted fields with embedded delimiters and newlines. */
+export function parseCsvText(text: string, delimiter: CsvDelimiter): string[][] {
+	const rows: string[][] = []
+	let row: string[] = []
+	let field = ''
+	let quoted = false
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i]
+		if (quoted) {
+			if (ch === '"') {
+				if (text[i + 1] === '"') {
+					field += '"'
+					i++
+				} else {
+					quoted = false
+				}
+			} else {
+				field += ch
+			}
+			continue
+		}
+		if (ch === '"' && field.trim() === '') {
+			field = ''
+			quoted = true
+		} else if (ch === delimiter) {
+			row.push(field.trim())
+			field = ''
+		} else if (ch === '\n' || ch === '\r') {
+			if (ch === '\r' && text[i + 1] === '\n') i++
+			row.push(field.trim())
+			rows.push(row)
+			row = []
+			field = ''
+		} else {
+			field += ch
+		}
+	}
+	if (field !== '' || row.length) {
+		row.push(field.trim())
+		rows.push(row)
+	}
+	return rows.filter(r => r.some(cell => cell !== ''))
+}
+
+/** Picks the delimiter that yields the most consistent column count above one. */
+export function detectDelimiter(text: string): CsvDelimiter {
+	const lines = text
+		.split(/\r?\n/)
+		.filter(line => line.trim() !== '')
+		.slice(0, 20)
+	let best: CsvDelimiter = ','
+	let bestScore = 0
+	for (const delimiter of DELIMITERS) {
+		const counts = parseCsvText(lines.join('\n'), delimiter).map(r => r.length)
+		if (!counts.length) continue
+		const columns = mostCommon(counts)
+		if (columns < 2) continue
+		const consistent = counts.filter(c => c === columns).length
+		const score = consistent * columns
+		if (score > bestScore) {
+			best = delimiter
+			bestScore = score
+		}
+	}
+	return best
+}
+
+function mostCommon(values: number[]): number {
+	const counts = new Map<number, number>()
+	for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1)
+	let result = 0
+	let top = 0
+	for (const [value, count] of counts) {
+		if (count > top || (count === top && value > result)) {
+			result = value
+			top = count
+		}
+	}
+	return result
+}
+
+export function parseCsvDate(value: string, format: CsvDateFormat): ImportDate | null {
+	const match = DATE_PATTERNS[format].exec(value.trim())
+	if (!match) return null
+	const [a, b, c] = match.slice(1, 4).map(Number)
+	let year: number
+	let month: number
+	let day: number
+	if (format === 'yyyy-mm-dd') [year, month, day] = [a, b, c]
+	else if (format === 'mm/dd/yyyy') [month, day, year] = [a, b, c]
+	else [day, month, year] = [a, b, c]
+	if (year < 100) year += 2000
+	const date = new Date(Date.UTC(year, month - 1, day))
+	if (
+		date.getUTCFullYear() !== year ||
+		date.getUTCMonth() !== month - 1 ||
+		date.getUTCDate() !== day
+	) {
+		return null
+	}
+	return { year, month: month - 1, day }
+}
+
+/** First format that parses every sampled value; day-first wins when both orders fit. */
+export function detectDateFormat(values: string[]): CsvDateFormat | null {
+	const sample = values.filter(v => v.trim() !== '').slice(0, SAMPLE_SIZE)
+	if (!sample.length) return null
+	return (
+		CSV_DATE_FORMATS.find(format => sample.every(v => parseCsvDate(v, format))) ??
+		null
+	)
+}
+
+function cleanAmount(value: string): string {
+	return value.replace(/[\s']/g, '').replace(/[^\d.,()+\-−]/g, '')
+}
+
+/**
+ * Guesses the decimal separator from the last separator in each value: one or two
+ * trailing digits mean a decimal part, three digits after a lone separator are ambiguous.
+ */
+export function detectDecimalSeparator(values: string[]): CsvDecimalSeparator {
+	let comma = 0
+	let dot = 0
+	for (const raw of values.slice(0, SAMPLE_SIZE)) {
+		const value = cleanAmount(raw)
+		const match = /([.,])(\d+)\)?$/.exec(value)
+		if (!match) continue
+		const [, sep, digits] = match
+		const hasOther = value.includes(sep === ',' ? '.' : ',')
+		if (digits.length === 3 && !hasOther) continue
+		if (sep === ',') comma++
+		else dot++
+	}
+	return comma > dot ? ',' : '.'
+}
+
+/** Signed amount; accepts `-`, `−`, trailing minus and accounting parentheses. */
+export function parseCsvAmount(
+	value: string,
+	decimalSeparator: CsvDecimalSeparator
+): number | null {
+	let text = cleanAmount(value)
+	if (!/\d/.test(text)) return null
+	let negative = false
+	if (/^\(.*\)$/.test(text)) {
+		negative = true
+		text = text.slice(1, -1)
+	}
+	if (/^[-−]/.test(text) || /[-−]$/.test(text)) negative = true
+	text = text.replace(/[-−+()]/g, '')
+	const thousands = decimalSeparator === ',' ? '.' : ','
+	text = text.split(thousands).join('')
+	if (decimalSeparator === ',') text = text.replace(',', '.')
+	if (!/^\d*\.?\d+$|^\d+\.$/.test(text)) return null
+	const amount = Number(text)
+	if (!Number.isFinite(amount)) return null
+	return negative ? -amount : amount
+}
+
+function looksLikeData(row: string[]): boolean {
+	return row.some(cell => CSV_DATE_FORMATS.some(format => parseCsvDate(cell, format)))
+}
+
+/** Decodes and parses an uploaded file; a first row without any date is treated as the header. */
+export function readCsv(buffer: Buffer): CsvTable {
+	const { text, encoding } = decodeCsvBuffer(buffer)
+	const delimiter = detectDelimiter(text)
+	const parsed = parseCsvText(text, delimiter)
+	const width = Math.max(0, ...parsed.map(r => r.length))
+	const hasHeader = parsed.length > 0 && !looksLikeData(parsed[0])
+	const header = hasHeader
+		? Array.from({ length: width }, (_, i) => parsed[0][i] || `Колонка ${i + 1}`)
+		: Array.from({ length: width }, (_, i) => `Колонка ${i + 1}`)
+	const rows = (hasHeader ? parsed.slice(1) : parsed).map(r =>
+		Array.from({ length: width }, (_, i) => r[i] ?? '')
+	)
+	return { encoding, delimiter, hasHeader, header, rows }
+}
+
+export function columnValues(rows: string[][], index: number): string[] {
+	return rows.map(r => r[index] ?? '').filter(v => v !== '')
+}
+
+/** Maps columns by header keywords, then fills date, amount and description from the data itself. */
+export function guessColumnMapping(table: CsvTable): CsvColumnMapping {
+	const mapping: CsvColumnMapping = {}
+	const used = new Set<number>()
+	const assign = (field: CsvField, index: number) => {
+		mapping[field] = index
+		used.add(index)
+	}
+	if (table.hasHeader) {
+		for (const field of HEADER_FIELD_ORDER) {
+			const index = table.header.findIndex(
+				(name, i) =>
+					!used.has(i) &&
+					HEADER_KEYWORDS[field].some(k => name.toLowerCase().includes(k))
+			)
+			if (index >= 0) assign(field, index)
+		}
+	}
+	const free = table.header.map((_, i) => i).filter(i => !used.has(i))
+	if (mapping.date == null) {
+		const index = free.find(i => detectDateFormat(columnValues(table.rows, i)))
+		if (index != null) assign('date', index)
+	}
+	if (mapping.amount == null && mapping.debit == null && mapping.credit == null) {
+		const index = free.find(i => {
+			if (used.has(i)) return false
+			const values = columnValues(table.rows, i).slice(0, SAMPLE_SIZE)
+			const separator = detectDecimalSeparator(values)
+			return (
+				values.length > 0 &&
+				values.every(v => parseCsvAmount(v, separator) != null)
+			)
+		})
+		if (index != null) assign('amount', index)
+	}
+	if (mapping.description == null) {
+		let bestIndex: number | null = null
+		let bestLength = 0
+		for (const i of free) {
+			if (used.has(i)) continue
+			const values = columnValues(table.rows, i).slice(0, SAMPLE_SIZE)
+			if (!values.length || values.every(v => parseCsvAmount(v, '.') != null))
+				continue
+			const length = values.reduce((sum, v) => sum + v.length, 0) / values.length
+			if (length > bestLength) {
+				bestIndex = i
+				bestLength = length
+			}
+		}
+		if (bestIndex != null) assign('description', bestIndex)
+	}
+	return mapping
+}
+
+/** Detects the date format and decimal separator for the mapped columns. */
+export function detectImportOptions(
+	table: CsvTable,
+	mapping: CsvColumnMapping
+): { dateFormat: CsvDateFormat | null; decimalSeparator: CsvDecimalSeparator } {
+	const dateFormat =
+		mapping.date != null
+			? detectDateFormat(columnValues(table.rows, mapping.date))
+			: null
+	const amountValues = (['amount', 'debit', 'credit'] as const).flatMap(field => {
+		const index = mapping[field]
+		return index != null ? columnValues(table.rows, index) : []
+	})
+	return { dateFormat, decimalSeparator: detectDecimalSeparator(amountValues) }
+}
+
+/** Converts mapped rows; rows without a valid date or a non-zero amount are counted as invalid. */
+export function buildImportRows(
+	table: CsvTable,
+	mapping: CsvColumnMapping,
+	options: CsvImportOptions
+): { rows: CsvImportRow[]; invalid: number } {
+	const rows: CsvImportRow[] = []
+	let invalid = 0
+	const cell = (row: string[], field: CsvField) => {
+		const index = mapping[field]
+		return index != null ? (row[index] ?? '').trim() : ''
+	}
+	table.rows.forEach((row, i) => {
+		const date = parseCsvDate(cell(row, 'date'), options.dateFormat)
+		let signed: number | null = null
+		if (mapping.amount != null) {
+			signed = parseCsvAmount(cell(row, 'amount'), options.decimalSeparator)
+		} else {
+			const debit = parseCsvAmount(cell(row, 'debit'), options.decimalSeparator)
+			const credit = parseCsvAmount(cell(row, 'credit'), options.decimalSeparator)
+			if (debit) signed = -Math.abs(debit)
+			else if (credit) signed = Math.abs(credit)
+		}
+		if (!date || !signed) {
+			invalid++
+			return
+		}
+		const currency = cell(row, 'currency').toUpperCase()
+		rows.push({
+			line: i + (table.hasHeader ? 2 : 1),
+			date,
+			amount: Math.abs(signed),
+			direction: signed < 0 ? 'expense' : 'income',
+			description: cell(row, 'description').replace(/\s+/g, ' '),
+			currency: /^[A-Z]{3,5}$/.test(currency) ? currency : undefined,
+			category: cell(row, 'category') || undefined
+		})
+	})
+	return { rows, invalid }
+}
+
+export function formatImportDate(date: ImportDate): string {
+	const mm = String(date.month + 1).padStart(2, '0')
+	const dd = String(date.day).padStart(2, '0')
+	return `${date.year}-${mm}-${dd}`
+}
+
+/** Dedup key: local date, signed amount and normalised description. */
+export function importFingerprint(params: {
+	date: ImportDate
+	amount: number
+	direction: 'income' | 'expense'
+	description?: string | null
+}): string {
+	const signed = params.direction === 'expense' ? -params.amount : params.amount
+	const description = String(params.description ?? '')
+		.toLowerCase()
+		.replace(/\s+/g, ' ')
+		.trim()
+		.slice(0, 64)
+	return `${formatImportDate(params.date)}|${signed.toFixed(2)}|${description}`
+}
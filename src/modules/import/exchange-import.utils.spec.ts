@@ -0,0 +1,190 @@
+import {
+	detectExchangeFormat,
+	normalizeKrakenAsset,
+	parseExchangeCsv,
+	parseExchangeDate
+} from './exchange-import.utils'
+
+function csv(lines: string[]): Buffer {
+	return Buffer.from(lines.join('\n'), 'utf-8')
+}
+
+describe('exchange-import.utils', () => {
+	it('detects exchange layouts by their headers', () => {
+		expect(
+			detectExchangeFormat([
+				'User_ID',
+				'UTC_Time',
+				'Account',
+				'Operation',
+				'Coin',
+				'Change',
+				'Remark'
+			])
+		).toBe('binance')
+		expect(
+			detectExchangeFormat([
+				'Date(UTC)',
+				'Pair',
+				'Side',
+				'Price',
+				'Executed',
+				'Amount',
+				'Fee'
+			])
+		).toBe('binance_trades')
+		expect(
+			detectExchangeFormat([
+				'txid',
+				'refid',
+				'time',
+				'type',
+				'asset',
+				'amount',
+				'fee'
+			])
+		).toBe('kraken')
+		expect(
+			detectExchangeFormat([
+				'Currency',
+				'Contract',
+				'Type',
+				'Change',
+				'Fee Paid',
+				'Time(UTC)'
+			])
+		).toBe('bybit')
+		expect(detectExchangeFormat(['Date', 'Amount', 'Description'])).toBeNull()
+	})
+
+	it('parses UTC timestamps and Kraken asset codes', () => {
+		expect(parseExchangeDate('2024-01-05 10:20:33')?.toISOString()).toBe(
+			'2024-01-05T10:20:33.000Z'
+		)
+		expect(parseExchangeDate('24-01-05 10:20:33')?.toISOString()).toBe(
+			'2024-01-05T10:20:33.000Z'
+		)
+		expect(parseExchangeDate('yesterday')).toBeNull()
+		expect(normalizeKrakenAsset('XXBT')).toBe('BTC')
+		expect(normalizeKrakenAsset('ZEUR')).toBe('EUR')
+		expect(normalizeKrakenAsset('DOT.S')).toBe('DOT')
+		expect(normalizeKrakenAsset('sol')).toBe('SOL')
+	})
+
+	it('folds Binance ledger legs into a trade with a separate fee', () => {
+		const parsed = parseExchangeCsv(
+			csv([
+				'User_ID,UTC_Time,Account,Operation,Coin,Change,Remark',
+				'1,2024-01-05 10:20:33,Spot,Deposit,USDT,500,',
+				'1,2024-01-05 11:00:00,Spot,Transaction Spend,USDT,-430.5,',
+				'1,2024-01-05 11:00:00,Spot,Transaction Buy,BTC,0.01,',
+				'1,2024-01-05 11:00:00,Spot,Transaction Fee,BTC,-0.00001,',
+				'1,2024-01-06 09:00:00,Spot,Simple Earn Flexible Interest,USDT,0.02,',
+				'1,2024-01-07 09:00:00,Spot,Withdraw,BTC,-0.005,'
+			])
+		)
+		expect(parsed?.format).toBe('binance')
+		expect(parsed?.skipped).toBe(1)
+		expect(
+			parsed?.operations.map(({ kind, asset, amount, toAsset, toAmount }) => ({
+				kind,
+				asset,
+				amount,
+				toAsset,
+				toAmount
+			}))
+		).toEqual([
+			{ kind: 'deposit', asset: 'USDT', amount: 500 },
+			{
+				kind: 'trade',
+				asset: 'USDT',
+				amount: 430.5,
+				toAsset: 'BTC',
+				toAmount: 0.01
+			},
+			{ kind: 'fee', asset: 'BTC', amount: 0.00001 },
+			{ kind: 'withdrawal', asset: 'BTC', amount: 0.005 }
+		])
+		const again = parseExchangeCsv(
+			csv([
+				'User_ID,UTC_Time,Account,Operation,Coin,Change,Remark',
+				'1,2024-01-05 10:20:33,Spot,Deposit,USDT,500,'
+			])
+		)
+		expect(again?.operations[0].externalId).toBe(parsed?.operations[0].externalId)
+	})
+
+	it('reads both Binance trade history layouts', () => {
+		const old = parseExchangeCsv(
+			csv([
+				'Date(UTC),Pair,Side,Price,Executed,Amount,Fee',
+				'2024-02-01 08:00:00,BTCUSDT,SELL,43000,0.002BTC,86USDT,0.086USDT'
+			])
+		)
+		expect(old?.operations).toMatchObject([
+			{ kind: 'trade', asset: 'BTC', amount: 0.002, toAsset: 'USDT', toAmount: 86 },
+			{ kind: 'fee', asset: 'USDT', amount: 0.086 }
+		])
+		const current = parseExchangeCsv(
+			csv([
+				'Date(UTC),Market,Type,Price,Amount,Total,Fee,Fee Coin',
+				'2024-02-01 08:00:00,ETHUSDT,BUY,2300,0.5,1150,0.0005,ETH'
+			])
+		)
+		expect(current?.operations).toMatchObject([
+			{ kind: 'trade', asset: 'USDT', amount: 1150, toAsset: 'ETH', toAmount: 0.5 },
+			{ kind: 'fee', asset: 'ETH', amount: 0.0005 }
+		])
+	})
+
+	it('restores gross Bybit trade legs from the net change', () => {
+		const parsed = parseExchangeCsv(
+			csv([
+				'Uid,Currency,Contract,Type,Change,Fee Paid,Time(UTC)',
+				'7,USDT,BTCUSDT,TRADE,-100,0,2024-03-01 12:00:00',
+				'7,BTC,BTCUSDT,TRADE,0.00199,0.00001,2024-03-01 12:00:00',
+				'7,USDT,,DEPOSIT,250,0,2024-03-02 12:00:00'
+			])
+		)
+		expect(parsed?.operations).toMatchObject([
+			{
+				kind: 'trade',
+				asset: 'USDT',
+				amount: 100,
+				toAsset: 'BTC',
+				toAmount: 0.002
+			},
+			{ kind: 'fee', asset: 'BTC', amount: 0.00001 },
+			{ kind: 'deposit', asset: 'USDT', amount: 250 }
+		])
+	})
+
+	it('groups Kraken ledger rows by refid and ignores pending duplicates', () => {
+		const parsed = parseExchangeCsv(
+			csv([
+				'"txid","refid","time","type","subtype","aclass","asset","amount","fee","balance"',
+				'"","D1","2024-04-01 10:00:00","deposit","","currency","ZEUR",1000,0,""',
+				'"L1","D1","2024-04-01 10:05:00","deposit","","currency","ZEUR",1000,0,1000',
+				'"L2","T1","2024-04-02 10:00:00","trade","","currency","ZEUR",-600,1.2,398.8',
+				'"L3","T1","2024-04-02 10:00:00","trade","","currency","XXBT",0.01,0,0.01',
+				'"L4","S1","2024-04-03 10:00:00","staking","","currency","DOT.S",0.1,0,0.1',
+				'"L5","W1","2024-04-04 10:00:00","withdrawal","","currency","XXBT",-0.005,0.0001,0.0049'
+			])
+		)
+		expect(parsed?.format).toBe('kraken')
+		expect(parsed?.skipped).toBe(2)
+		expect(parsed?.operations).toMatchObject([
+			{ kind: 'deposit', asset: 'EUR', amount: 1000, externalId: 'L1' },
+			{ kind: 'trade', asset: 'EUR', amount: 600, toAsset: 'BTC', toAmount: 0.01 },
+			{ kind: 'fee', asset: 'EUR', amount: 1.2, externalId: 'L2:fee' },
+			{ kind: 'withdrawal', asset: 'BTC', amount: 0.005, externalId: 'L5' },
+			{ kind: 'fee', asset: 'BTC', amount: 0.0001 }
+		])
+	})
+
+	it('returns null for a plain bank CSV', () => {
+		expect(
+			parseExchangeCsv(csv(['Date;Amount;Description', '2024-01-01;-5,00;Coffee']))
+		).toBeNull()
+	})
+})
@@ -0,0 +1,442 @@
+import { createHash } from 'crypto'
+import { parseCsvAmount, readCsv } from './csv-import.utils'
+
+export type ExchangeFormat = 'binance' | 'binance_trades' | 'bybit' | 'kraken'
+
+export type ExchangeOperationKind = 'trade' | 'deposit' | 'withdrawal' | 'fee'
+
+export interface ExchangeOperation {
+	kind: ExchangeOperationKind
+	/** UTC timestamp, ISO string so the operation survives the session store */
+	date: string
+	/** Spent asset for trades; moved or charged asset otherwise */
+	asset: string
+	/** Always positive */
+	amount: number
+	/** Received asset, trades only */
+	toAsset?: string
+	toAmount?: number
+	/** Exchange-side id or a hash of the source rows, unique within the file */
+	externalId: string
+}
+
+export interface ParsedExchangeFile {
+	format: ExchangeFormat
+	operations: ExchangeOperation[]
+	/** Rows that are neither trades, deposits, withdrawals nor fees: staking, futures, internal moves */
+	skipped: number
+}
+
+export const EXCHANGE_FORMAT_LABELS: Record<ExchangeFormat, string> = {
+	binance: 'Binance',
+	binance_trades: 'Binance',
+	bybit: 'Bybit',
+	kraken: 'Kraken'
+}
+
+/** Quote assets tried when a Binance pair like `BTCUSDT` has to be split. */
+const BINANCE_QUOTES = [
+	'USDT',
+	'USDC',
+	'FDUSD',
+	'BUSD',
+	'TUSD',
+	'DAI',
+	'BTC',
+	'ETH',
+	'BNB',
+	'EUR',
+	'GBP',
+	'TRY',
+	'BRL',
+	'UAH',
+	'RUB',
+	'USD',
+	'TRX',
+	'XRP',
+	'DOGE'
+]
+
+const KRAKEN_ASSETS: Record<string, string> = {
+	XBT: 'BTC',
+	XXBT: 'BTC',
+	XDG: 'DOGE',
+	XXDG: 'DOGE',
+	XETH: 'ETH',
+	XLTC: 'LTC',
+	XXRP: 'XRP',
+	XXLM: 'XLM',
+	XXMR: 'XMR',
+	XZEC: 'ZEC',
+	XETC: 'ETC',
+	XREP: 'REP',
+	XMLN: 'MLN',
+	ZUSD: 'USD',
+	ZEUR: 'EUR',
+	ZGBP: 'GBP',
+	ZCAD: 'CAD',
+	ZJPY: 'JPY',
+	ZCHF: 'CHF',
+	ZAUD: 'AUD'
+}
+
+type LedgerKind = 'trade' | 'deposit' | 'withdrawal' | 'fee' | 'other'
+
+/** One balance change as the exchange ledgers write it. */
+interface LedgerRow {
+	date: Date
+	/** Rows of one trade share the group */
+	group: string
+	kind: LedgerKind
+	asset: string
+	/** Signed change of the balance without the fee */
+	gross: number
+	/** Fee charged in `asset`, positive */
+	fee: number
+	id: string
+}
+
+function shortHash(value: string): string {
+	return createHash('sha1').update(value).digest('hex').slice(0, 16)
+}
+
+function normalizeHeader(value: string): string {
+	return value.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function columnIndex(header: string[], ...names: string[]): number {
+	const normalized = header.map(normalizeHeader)
+	for (const name of names) {
+		const index = normalized.indexOf(name)
+		if (index >= 0) return index
+	}
+	return -1
+}
+
+/** Exchange timestamps are UTC: `2024-01-05 10:20:33`, with optional fraction or `T`/`Z`. */
+export function parseExchangeDate(value: string): Date | null {
+	const m = value
+		.trim()
+		.match(
+			/^(\d{2}|\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/
+		)
+	if (!m) return null
+	const year = m[1].length === 2 ? 2000 + Number(m[1]) : Number(m[1])
+	const date = new Date(
+		Date.UTC(
+			year,
+			Number(m[2]) - 1,
+			Number(m[3]),
+			Number(m[4] ?? 0),
+			Number(m[5] ?? 0),
+			Number(m[6] ?? 0)
+		)
+	)
+	return Number.isNaN(date.getTime()) ? null : date
+}
+
+function parseNumber(value: string | undefined): number | null {
+	return parseCsvAmount(value ?? '', '.')
+}
+
+/** `XXBT` → `BTC`, `ZEUR` → `EUR`, `DOT.S` → `DOT`. */
+export function normalizeKrakenAsset(value: string): string {
+	const code = value
+		.trim()
+		.toUpperCase()
+		.replace(/\.[A-Z]$/, '')
+	return KRAKEN_ASSETS[code] ?? code
+}
+
+export function detectExchangeFormat(header: string[]): ExchangeFormat | null {
+	const has = (...names: string[]) =>
+		names.every(name => columnIndex(header, name) >= 0)
+	if (has('utctime', 'operation', 'coin', 'change')) return 'binance'
+	if (
+		has('dateutc', 'price', 'fee') &&
+		(has('pair') || has('market')) &&
+		(has('side') || has('type'))
+	) {
+		return 'binance_trades'
+	}
+	if (has('refid', 'type', 'asset', 'amount', 'fee')) return 'kraken'
+	if (has('currency', 'type', 'change') && (has('timeutc') || has('time'))) {
+		return 'bybit'
+	}
+	return null
+}
+
+function binanceKind(operation: string): LedgerKind {
+	const op = operation.toLowerCase()
+	if (/fee/.test(op)) return 'fee'
+	if (/^(fiat )?deposit$/.test(op)) return 'deposit'
+	if (/^(fiat )?withdraw(al)?$/.test(op)) return 'withdrawal'
+	if (/buy|sell|spend|revenue|sold|convert|trading|exchange/.test(op)) return 'trade'
+	return 'other'
+}
+
+function bybitKind(type: string): LedgerKind {
+	const value = type.toLowerCase()
+	if (/trade/.test(value)) return 'trade'
+	if (/deposit|transfer_?in/.test(value)) return 'deposit'
+	if (/withdraw|transfer_?out/.test(value)) return 'withdrawal'
+	return 'other'
+}
+
+function krakenKind(type: string): LedgerKind {
+	const value = type.toLowerCase()
+	if (value === 'trade' || value === 'spend' || value === 'receive') return 'trade'
+	if (value === 'deposit') return 'deposit'
+	if (value === 'withdrawal') return 'withdrawal'
+	return 'other'
+}
+
+function binanceLedger(header: string[], rows: string[][]): Array<LedgerRow | null> {
+	const time = columnIndex(header, 'utctime')
+	const account = columnIndex(header, 'account')
+	const operation = columnIndex(header, 'operation')
+	const coin = columnIndex(header, 'coin')
+	const change = columnIndex(header, 'change')
+	return rows.map(row => {
+		const date = parseExchangeDate(row[time])
+		const value = parseNumber(row[change])
+		if (!date || value == null || !row[coin]) return null
+		const kind = binanceKind(row[operation])
+		return {
+			date,
+			group: `${row[time]}|${account >= 0 ? row[account] : ''}`,
+			kind,
+			asset: row[coin].trim().toUpperCase(),
+			// fees are rows of their own on Binance
+			gross: kind === 'fee' ? 0 : value,
+			fee: kind === 'fee' ? Math.abs(value) : 0,
+			id: shortHash(row.join('|'))
+		}
+	})
+}
+
+function bybitLedger(header: string[], rows: string[][]): Array<LedgerRow | null> {
+	const time = columnIndex(header, 'timeutc', 'time')
+	const currency = columnIndex(header, 'currency', 'coin')
+	const type = columnIndex(header, 'type')
+	const change = columnIndex(header, 'change')
+	const feePaid = columnIndex(header, 'feepaid', 'fee')
+	const contract = columnIndex(header, 'contract', 'symbol')
+	const orderId = columnIndex(header, 'orderid', 'tradeid', 'transactionid', 'id')
+	return rows.map(row => {
+		const date = parseExchangeDate(row[time])
+		const value = parseNumber(row[change])
+		if (!date || value == null || !row[currency]) return null
+		const fee = feePaid >= 0 ? Math.abs(parseNumber(row[feePaid]) ?? 0) : 0
+		const order = orderId >= 0 ? row[orderId] : ''
+		return {
+			date,
+			group: order || `${row[time]}|${contract >= 0 ? row[contract] : ''}`,
+			kind: bybitKind(row[type]),
+			asset: row[currency].trim().toUpperCase(),
+			// Bybit writes the change after the fee
+			gross: value + fee,
+			fee,
+			id: shortHash(row.join('|'))
+		}
+	})
+}
+
+function krakenLedger(header: string[], rows: string[][]): Array<LedgerRow | null> {
+	const txid = columnIndex(header, 'txid')
+	const refid = columnIndex(header, 'refid')
+	const time = columnIndex(header, 'time')
+	const type = columnIndex(header, 'type')
+	const asset = columnIndex(header, 'asset')
+	const amount = columnIndex(header, 'amount')
+	const fee = columnIndex(header, 'fee')
+	return rows.map(row => {
+		const date = parseExchangeDate(row[time])
+		const value = parseNumber(row[amount])
+		// Kraken repeats deposits and withdrawals without a txid while they are pending
+		if (!date || value == null || !row[asset] || (txid >= 0 && !row[txid])) {
+			return null
+		}
+		return {
+			date,
+			group: row[refid] || row[txid],
+			kind: krakenKind(row[type]),
+			asset: normalizeKrakenAsset(row[asset]),
+			gross: value,
+			fee: Math.abs(parseNumber(row[fee]) ?? 0),
+			id: row[txid] || row[refid] || shortHash(row.join('|'))
+		}
+	})
+}
+
+function splitBinancePair(pair: string): [string, string] | null {
+	const clean = pair.toUpperCase().replace(/[^A-Z0-9]/g, '')
+	const quote = BINANCE_QUOTES.find(q => clean.endsWith(q) && clean.length > q.length)
+	return quote ? [clean.slice(0, -quote.length), quote] : null
+}
+
+/** `0.0012BTC` → `[0.0012, 'BTC']`; a bare number takes `fallback` as its asset. */
+function amountWithAsset(value: string, fallback?: string): [number, string] | null {
+	const m = value.replace(/\s+/g, '').match(/^(-?[\d.,]+)([A-Za-z][A-Za-z0-9]*)?$/)
+	if (!m) return null
+	const amount = parseNumber(m[1])
+	const asset = m[2]?.toUpperCase() ?? fallback
+	return amount == null || !asset ? null : [Math.abs(amount), asset]
+}
+
+/** Binance "Trade History": one row per fill with both legs and the fee. */
+function binanceTrades(header: string[], rows: string[][]): ParsedExchangeFile {
+	const date = columnIndex(header, 'dateutc')
+	const pair = columnIndex(header, 'pair', 'market')
+	const side = columnIndex(header, 'side', 'type')
+	// the old layout is `Executed`/`Amount` with assets inside, the new one `Amount`/`Total`
+	const executed = columnIndex(header, 'executed', 'amount')
+	const total = columnIndex(header, 'total', 'amount')
+	const fee = columnIndex(header, 'fee')
+	const feeCoin = columnIndex(header, 'feecoin', 'feeasset')
+	const operations: ExchangeOperation[] = []
+	let skipped = 0
+	for (const row of rows) {
+		const when = parseExchangeDate(row[date])
+		const assets = splitBinancePair(row[pair] ?? '')
+		const base = amountWithAsset(row[executed] ?? '', assets?.[0])
+		const quote = amountWithAsset(row[total] ?? '', assets?.[1])
+		const buy = /buy/i.test(row[side] ?? '')
+		if (!when || !base || !quote || !base[0] || !quote[0]) {
+			skipped++
+			continue
+		}
+		const id = shortHash(row.join('|'))
+		const [spent, received] = buy ? [quote, base] : [base, quote]
+		operations.push({
+			kind: 'trade',
+			date: when.toISOString(),
+			asset: spent[1],
+			amount: spent[0],
+			toAsset: received[1],
+			toAmount: received[0],
+			externalId: id
+		})
+		const charged = amountWithAsset(
+			row[fee] ?? '',
+			feeCoin >= 0 ? row[feeCoin]?.toUpperCase() : undefined
+		)
+		if (charged && charged[0] > 0) {
+			operations.push({
+				kind: 'fee',
+				date: when.toISOString(),
+				asset: charged[1],
+				amount: charged[0],
+				externalId: `${id}:fee`
+			})
+		}
+	}
+	return { format: 'binance_trades', operations, skipped }
+}
+
+/**
+ * Folds ledger rows into operations. Trade legs are grouped by time or order id and
+ * become one conversion when exactly one asset went out and one came in; fees
+ * always become operations of their own.
+ */
+function ledgerOperations(ledger: LedgerRow[]): {
+	operations: ExchangeOperation[]
+	skipped: number
+} {
+	const operations: ExchangeOperation[] = []
+	let skipped = 0
+	const trades = new Map<string, LedgerRow[]>()
+	for (const row of ledger) {
+		if (row.fee > 0) {
+			operations.push({
+				kind: 'fee',
+				date: row.date.toISOString(),
+				asset: row.asset,
+				amount: row.fee,
+				externalId: `${row.id}:fee`
+			})
+		}
+		if (row.kind === 'fee') continue
+		if (row.kind === 'trade') {
+			const group = trades.get(row.group) ?? []
+			group.push(row)
+			trades.set(row.group, group)
+			continue
+		}
+		if (!row.gross) continue
+		if (row.kind === 'other') {
+			skipped++
+			continue
+		}
+		operations.push({
+			kind: row.gross > 0 ? 'deposit' : 'withdrawal',
+			date: row.date.toISOString(),
+			asset: row.asset,
+			amount: Math.abs(row.gross),
+			externalId: row.id
+		})
+	}
+	for (const [group, rows] of trades) {
+		const totals = new Map<string, number>()
+		for (const row of rows)
+			totals.set(row.asset, (totals.get(row.asset) ?? 0) + row.gross)
+		const spent = [...totals].filter(([, value]) => value < 0)
+		const received = [...totals].filter(([, value]) => value > 0)
+		if (spent.length !== 1 || received.length !== 1) {
+			skipped += rows.length
+			continue
+		}
+		operations.push({
+			kind: 'trade',
+			date: rows[0].date.toISOString(),
+			asset: spent[0][0],
+			amount: Math.abs(spent[0][1]),
+			toAsset: received[0][0],
+			toAmount: received[0][1],
+			externalId: shortHash(group)
+		})
+	}
+	return { operations, skipped }
+}
+
+function uniqueIds(operations: ExchangeOperation[]): ExchangeOperation[] {
+	const seen = new Map<string, number>()
+	return operations.map(op => {
+		const count = seen.get(op.externalId) ?? 0
+		seen.set(op.externalId, count + 1)
+		return count ? { ...op, externalId: `${op.externalId}#${count}` } : op
+	})
+}
+
+/** Parses a Binance, Bybit or Kraken CSV export; null when the layout is not recognised. */
+export function parseExchangeCsv(buffer: Buffer): ParsedExchangeFile | null {
+	const { header, rows, hasHeader } = readCsv(buffer)
+	const format = hasHeader ? detectExchangeFormat(header) : null
+	if (!format) return null
+	const data = rows.filter(row => row.some(cell => cell.trim() !== ''))
+	let parsed: ParsedExchangeFile
+	if (format === 'binance_trades') {
+		parsed = binanceTrades(header, data)
+	} else {
+		const ledger =
+			format === 'binance'
+				? binanceLedger(header, data)
+				: format === 'bybit'
+					? bybitLedger(header, data)
+					: krakenLedger(header, data)
+		const valid = ledger.filter((row): row is LedgerRow => row != null)
+		const result = ledgerOperations(valid)
+		parsed = {
+			format,
+			operations: result.operations,
+			skipped: result.skipped + ledger.length - valid.length
+		}
+	}
+	// a fee goes right after the operation it was charged for
+	const operations = parsed.operations.sort(
+		(a, b) =>
+			a.date.localeCompare(b.date) ||
+			Number(a.kind === 'fee') - Number(b.kind === 'fee')
+	)
+	return { ...parsed, operations: uniqueIds(operations) }
+}
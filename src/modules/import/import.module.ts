@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common'
+import { TransactionsModule } from '../transactions/transactions.module'
+import { CategoriesModule } from '../categories/categories.module'
+import { LlmMemoryModule } from '../llm-memory/llm-memory.module'
+import { LLMModule } from '../llm/llm.module'
+import { TagsModule } from '../tags/tags.module'
+import { SubscriptionModule } from '../subscription/subscription.module'
+import { ImportService } from './import.service'
+
+@Module({
+	imports: [
+		TransactionsModule,
+		CategoriesModule,
+		LlmMemoryModule,
+		LLMModule,
+		TagsModule,
+		SubscriptionModule
+	],
+	providers: [ImportService],
+	exports: [ImportService]
+})
+export class ImportModule {}
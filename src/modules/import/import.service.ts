@@ -0,0 +1,704 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { PrismaService } from '../prisma/prisma.service'
+import { TransactionsService } from '../transactions/transactions.service'
+import { CategoriesService } from '../categories/categories.service'
+import { LlmMemoryService } from '../llm-memory/llm-memory.service'
+import { LLMService } from '../llm/llm.service'
+import { TagsService, MAX_TAG_NAME_LENGTH } from '../tags/tags.service'
+import { SubscriptionService } from '../subscription/subscription.service'
+import type { LlmTransaction } from '../llm/schemas/transaction.schema'
+import { getZonedParts, zonedTimeToUtc } from '../../utils/date'
+import { normalizeTag } from '../../utils/normalize'
+import { importFingerprint, type CsvImportRow, type ImportDate } from './csv-import.utils'
+import type { StatementEntry } from './statement-import.utils'
+import type { ExchangeOperation } from './exchange-import.utils'
+import {
+	appEntryTarget,
+	type AppImportEntry,
+	type AppImportFormat
+} from './app-import.utils'
+
+/** Imported rows carry this prefix plus the fingerprint in `rawText`. */
+export const CSV_IMPORT_RAW_PREFIX = 'CSV_IMPORT:'
+
+/** Statement entries carry this prefix plus the bank account key and the entry id. */
+export const STATEMENT_IMPORT_RAW_PREFIX = 'STATEMENT_IMPORT:'
+
+/** Exchange operations carry this prefix plus the exchange and the operation id. */
+export const EXCHANGE_IMPORT_RAW_PREFIX = 'EXCHANGE_IMPORT:'
+
+/** Entries from other budgeting apps carry this prefix plus the app and the entry id. */
+export const APP_IMPORT_RAW_PREFIX = 'APP_IMPORT:'
+
+const FALLBACK_CATEGORY = '📦Другое'
+
+const EXCHANGE_FEE_CATEGORY = 'Финансовые расходы'
+
+const ACCOUNT_MAPPING_MEMORY_TYPE = 'import_account'
+
+const LLM_CATEGORY_BATCH = 40
+
+/** A draft ready for `TransactionsService.create`. */
+export type ImportDraft = LlmTransaction & {
+	accountId: string
+	amount: number
+	currency: string
+	rawText: string
+	transactionDate: string
+	fromAccountId?: string
+	toAccountId?: string
+	tagId?: string
+	tagName?: string
+}
+
+type CategoryRef = { id: string; name: string }
+
+/** Source names that already exist, fit into the plan and do not fit. */
+export interface AppImportNames {
+	existing: string[]
+	create: string[]
+	overLimit: string[]
+}
+
+export interface AppImportTaxonomy {
+	categories: AppImportNames
+	tags: AppImportNames
+}
+
+function statementRawText(accountKey: string, externalId: string): string {
+	return `${STATEMENT_IMPORT_RAW_PREFIX}${accountKey}:${externalId}`
+}
+
+function exchangeRawText(exchange: string, externalId: string): string {
+	return `${EXCHANGE_IMPORT_RAW_PREFIX}${exchange}:${externalId}`
+}
+
+function appRawText(format: AppImportFormat, externalId: string): string {
+	return `${APP_IMPORT_RAW_PREFIX}${format}:${externalId}`
+}
+
+function uniqueNames(names: Array<string | undefined>): string[] {
+	const seen = new Map<string, string>()
+	for (const name of names) {
+		const key = name?.trim().toLowerCase()
+		if (key && !seen.has(key)) seen.set(key, name!.trim())
+	}
+	return Array.from(seen.values())
+}
+
+@Injectable()
+export class ImportService {
+	private readonly logger = new Logger(ImportService.name)
+
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly transactionsService: TransactionsService,
+		private readonly categoriesService: CategoriesService,
+		private readonly llmMemoryService: LlmMemoryService,
+		private readonly llmService: LLMService,
+		private readonly tagsService: TagsService,
+		private readonly subscriptionService: SubscriptionService
+	) {}
+
+	/**
+	 * Drops rows that already exist on the account. Each existing transaction absorbs
+	 * one matching row, so two identical purchases on the same day both survive a
+	 * first import and are both skipped on a second one.
+	 */
+	async filterDuplicates(
+		userId: string,
+		accountId: string,
+		rows: CsvImportRow[],
+		timezone: string
+	): Promise<{ fresh: CsvImportRow[]; duplicates: number }> {
+		if (!rows.length) return { fresh: [], duplicates: 0 }
+		const days = rows.map(r => Date.UTC(r.date.year, r.date.month, r.date.day))
+		const first = new Date(Math.min(...days))
+		const last = new Date(Math.max(...days))
+		const existing = await this.prisma.transaction.findMany({
+			where: {
+				userId,
+				accountId,
+				direction: { in: ['income', 'expense'] },
+				transactionDate: {
+					gte: zonedTimeToUtc(
+						{
+							year: first.getUTCFullYear(),
+							month: first.getUTCMonth(),
+							day: first.getUTCDate()
+						},
+						timezone
+					),
+					lt: zonedTimeToUtc(
+						{
+							year: last.getUTCFullYear(),
+							month: last.getUTCMonth(),
+							day: last.getUTCDate() + 1
+						},
+						timezone
+					)
+				}
+			},
+			select: {
+				amount: true,
+				direction: true,
+				description: true,
+				transactionDate: true
+			}
+		})
+		const counts = new Map<string, number>()
+		for (const tx of existing) {
+			const parts = getZonedParts(tx.transactionDate, timezone)
+			const key = importFingerprint({
+				date: parts,
+				amount: Math.abs(tx.amount),
+				direction: tx.direction === 'income' ? 'income' : 'expense',
+				description: tx.description
+			})
+			counts.set(key, (counts.get(key) ?? 0) + 1)
+		}
+		const fresh: CsvImportRow[] = []
+		let duplicates = 0
+		for (const row of rows) {
+			const key = importFingerprint(row)
+			const left = counts.get(key) ?? 0
+			if (left > 0) {
+				counts.set(key, left - 1)
+				duplicates++
+			} else {
+				fresh.push(row)
+			}
+		}
+		return { fresh, duplicates }
+	}
+
+	/** Creates CSV rows, matching the category column against the user's categories by name. */
+	async createTransactions(params: {
+		userId: string
+		accountId: string
+		accountName: string
+		currency: string
+		timezone: string
+		rows: CsvImportRow[]
+	}) {
+		const categories = await this.categoriesService.getAllByUserId(params.userId)
+		const drafts = params.rows.map(row =>
+			this.toDraft({
+				accountId: params.accountId,
+				accountName: params.accountName,
+				currency: row.currency ?? params.currency,
+				timezone: params.timezone,
+				date: row.date,
+				amount: row.amount,
+				direction: row.direction,
+				description: row.description,
+				category: this.matchCategory(categories, row.category),
+				rawText: `${CSV_IMPORT_RAW_PREFIX}${importFingerprint(row)}`
+			})
+		)
+		return this.createDrafts(params.userId, drafts)
+	}
+
+	/**
+	 * Turns statement entries into drafts. Categories come from the file, then from
+	 * categories the user corrected for the same description, then from the LLM.
+	 */
+	async buildStatementDrafts(params: {
+		userId: string
+		accountId: string
+		accountName: string
+		accountKey: string
+		currency: string
+		timezone: string
+		entries: StatementEntry[]
+	}): Promise<ImportDraft[]> {
+		const categories = await this.resolveCategories(
+			params.userId,
+			params.entries.map(entry => ({
+				description: entry.description,
+				amount: entry.amount,
+				currency: entry.currency ?? params.currency,
+				direction: entry.direction,
+				category: entry.category
+			}))
+		)
+		return params.entries.map((entry, index) =>
+			this.toDraft({
+				accountId: params.accountId,
+				accountName: params.accountName,
+				currency: entry.currency ?? params.currency,
+				timezone: params.timezone,
+				date: entry.date,
+				amount: entry.amount,
+				direction: entry.direction,
+				description: entry.description,
+				category: categories[index],
+				rawText: statementRawText(params.accountKey, entry.externalId)
+			})
+		)
+	}
+
+	/** Ids of entries from this bank account that were imported before. */
+	async findImportedEntryIds(
+		userId: string,
+		accountKey: string,
+		entries: StatementEntry[]
+	): Promise<Set<string>> {
+		if (!entries.length) return new Set()
+		const rows = await this.prisma.transaction.findMany({
+			where: {
+				userId,
+				rawText: {
+					in: entries.map(e => statementRawText(accountKey, e.externalId))
+				}
+			},
+			select: { rawText: true }
+		})
+		const prefix = statementRawText(accountKey, '')
+		return new Set(rows.map(r => r.rawText.slice(prefix.length)))
+	}
+
+	/**
+	 * Turns exchange operations into drafts on one account: trades become
+	 * conversions on the account itself, deposits and withdrawals transfers from or
+	 * to the outside account, and fees expenses of their own.
+	 */
+	async buildExchangeDrafts(params: {
+		userId: string
+		accountId: string
+		accountName: string
+		outsideAccountId: string
+		exchange: string
+		exchangeLabel: string
+		operations: ExchangeOperation[]
+	}): Promise<ImportDraft[]> {
+		const categories = await this.categoriesService.getAllByUserId(params.userId)
+		const feeCategory = this.matchCategory(categories, EXCHANGE_FEE_CATEGORY)
+		const label = params.exchangeLabel
+		return params.operations.map(op => {
+			const base = {
+				action: 'create_transaction' as const,
+				accountId: params.accountId,
+				account: params.accountName,
+				amount: op.amount,
+				currency: op.asset,
+				rawText: exchangeRawText(params.exchange, op.externalId),
+				transactionDate: op.date
+			}
+			if (op.kind === 'fee') {
+				return {
+					...base,
+					direction: 'expense' as const,
+					categoryId: feeCategory?.id,
+					category: feeCategory?.name ?? FALLBACK_CATEGORY,
+					description: `${label}: комиссия`
+				}
+			}
+			if (op.kind === 'trade') {
+				return {
+					...base,
+					direction: 'transfer' as const,
+					fromAccountId: params.accountId,
+					toAccountId: params.accountId,
+					toAccount: params.accountName,
+					convertedAmount: op.toAmount,
+					convertToCurrency: op.toAsset,
+					description: `${label}: обмен ${op.asset} → ${op.toAsset}`
+				}
+			}
+			const deposit = op.kind === 'deposit'
+			return {
+				...base,
+				direction: 'transfer' as const,
+				// the outside account stands for wherever the coins came from or went to
+				accountId: deposit ? params.outsideAccountId : params.accountId,
+				account: deposit ? 'Вне Wallet' : params.accountName,
+				fromAccountId: deposit ? params.outsideAccountId : params.accountId,
+				toAccountId: deposit ? params.accountId : params.outsideAccountId,
+				toAccount: deposit ? params.accountName : 'Вне Wallet',
+				description: `${label}: ${deposit ? 'ввод' : 'вывод'} ${op.asset}`
+			}
+		})
+	}
+
+	/** Ids of exchange operations that were imported before. */
+	async findImportedOperationIds(
+		userId: string,
+		exchange: string,
+		operations: ExchangeOperation[]
+	): Promise<Set<string>> {
+		if (!operations.length) return new Set()
+		const rows = await this.prisma.transaction.findMany({
+			where: {
+				userId,
+				rawText: {
+					in: operations.map(op => exchangeRawText(exchange, op.externalId))
+				}
+			},
+			select: { rawText: true }
+		})
+		const prefix = exchangeRawText(exchange, '')
+		return new Set(rows.map(r => r.rawText.slice(prefix.length)))
+	}
+
+	/**
+	 * Splits the categories and tags used by `entries` into ones the user already
+	 * has, ones that will be created and ones over the plan limit. Categories over
+	 * the limit are matched to existing ones on import; tags over it are dropped.
+	 */
+	async planAppTaxonomy(
+		userId: string,
+		entries: AppImportEntry[]
+	): Promise<AppImportTaxonomy> {
+		const [categories, tags, categoryLimit, tagLimit] = await Promise.all([
+			this.categoriesService.getAllByUserId(userId),
+			this.tagsService.getAllByUserId(userId),
+			this.subscriptionService.canCreateCategory(userId),
+			this.subscriptionService.canCreateTag(userId)
+		])
+		// Pro has no category limit; `canCreateCategory` then only reports the count
+		const categoryRoom =
+			categoryLimit.allowed && categoryLimit.limit <= categoryLimit.current
+				? Infinity
+				: Math.max(0, categoryLimit.limit - categoryLimit.current)
+		const tagRoom = Math.max(0, tagLimit.limit - tagLimit.current)
+		const split = (
+			names: string[],
+			known: (name: string) => boolean,
+			room: number
+		) => {
+			const existing = names.filter(known)
+			const missing = names.filter(name => !known(name))
+			return {
+				existing,
+				create: missing.slice(0, room),
+				overLimit: missing.slice(room)
+			}
+		}
+		const tagNames = new Set(tags.map(t => t.name))
+		return {
+			categories: split(
+				uniqueNames(
+					entries.filter(e => e.direction !== 'transfer').map(e => e.category)
+				),
+				name => this.matchCategory(categories, name) != null,
+				categoryRoom
+			),
+			tags: split(
+				uniqueNames(
+					entries.flatMap(e =>
+						e.tags.map(tag => normalizeTag(tag).slice(0, MAX_TAG_NAME_LENGTH))
+					)
+				),
+				name => tagNames.has(name),
+				tagRoom
+			)
+		}
+	}
+
+	/**
+	 * Creates the missing categories and tags that fit into the plan, then turns
+	 * entries into drafts on the mapped accounts. Source categories left without a
+	 * match are resolved like statement entries.
+	 */
+	async buildAppDrafts(params: {
+		userId: string
+		format: AppImportFormat
+		timezone: string
+		entries: AppImportEntry[]
+		/** Our account id per source account name, null when it is not imported */
+		mapping: Record<string, string | null>
+		accounts: Array<{ id: string; name: string; currency: string }>
+		outsideAccountId: string
+	}): Promise<ImportDraft[]> {
+		const plan = await this.planAppTaxonomy(params.userId, params.entries)
+		for (const name of plan.categories.create) {
+			await this.categoriesService.create(params.userId, name).catch(() => null)
+		}
+		for (const name of plan.tags.create) {
+			await this.tagsService.create(params.userId, name).catch(() => null)
+		}
+		const sourceCategories = uniqueNames(
+			params.entries.filter(e => e.direction !== 'transfer').map(e => e.category)
+		)
+		const resolved = await this.resolveCategories(
+			params.userId,
+			sourceCategories.map(name => {
+				const sample = params.entries.find(e => e.category?.trim() === name)!
+				return {
+					description: name,
+					amount: sample.amount,
+					currency: sample.currency ?? '',
+					direction: sample.direction === 'income' ? 'income' : 'expense',
+					category: name
+				}
+			})
+		)
+		const categoryByName = new Map(
+			sourceCategories.map((name, index) => [name.toLowerCase(), resolved[index]])
+		)
+		const tags = await this.tagsService.getAllByUserId(params.userId)
+		const tagByName = new Map(tags.map(t => [t.name, t]))
+		const accountsById = new Map(params.accounts.map(a => [a.id, a]))
+		const drafts: ImportDraft[] = []
+		for (const entry of params.entries) {
+			const target = appEntryTarget(entry, params.mapping)
+			if (!target) continue
+			const from = target.accountId ? accountsById.get(target.accountId) : undefined
+			const to = target.toAccountId
+				? accountsById.get(target.toAccountId)
+				: undefined
+			const tag = entry.tags
+				.map(name =>
+					tagByName.get(normalizeTag(name).slice(0, MAX_TAG_NAME_LENGTH))
+				)
+				.find(Boolean)
+			const base = {
+				action: 'create_transaction' as const,
+				description: entry.description || undefined,
+				rawText: appRawText(params.format, entry.externalId),
+				// entries carry no time of day; local noon keeps them on the right date
+				transactionDate: zonedTimeToUtc(
+					{ ...entry.date, hour: 12 },
+					params.timezone
+				).toISOString(),
+				tagId: tag?.id,
+				tagName: tag?.name
+			}
+			if (entry.direction !== 'transfer') {
+				if (!from) continue
+				const category = entry.category
+					? categoryByName.get(entry.category.trim().toLowerCase())
+					: null
+				drafts.push({
+					...base,
+					accountId: from.id,
+					account: from.name,
+					amount: entry.amount,
+					currency: entry.currency ?? from.currency,
+					direction: entry.direction,
+					categoryId: category?.id,
+					category: category?.name ?? FALLBACK_CATEGORY
+				})
+				continue
+			}
+			if (!from && !to) continue
+			// a transfer from outside is booked in what the receiving side got
+			const currency = from
+				? (entry.currency ?? from.currency)
+				: (entry.toCurrency ?? entry.currency ?? to!.currency)
+			const amount = from ? entry.amount : (entry.toAmount ?? entry.amount)
+			const converted =
+				from && to && entry.toCurrency && entry.toCurrency !== currency
+					? {
+							convertedAmount: entry.toAmount,
+							convertToCurrency: entry.toCurrency
+						}
+					: {}
+			drafts.push({
+				...base,
+				accountId: from?.id ?? params.outsideAccountId,
+				account: from?.name ?? 'Вне Wallet',
+				amount,
+				currency,
+				direction: 'transfer',
+				fromAccountId: from?.id ?? params.outsideAccountId,
+				toAccountId: to?.id ?? params.outsideAccountId,
+				toAccount: to?.name ?? 'Вне Wallet',
+				...converted
+			})
+		}
+		return drafts
+	}
+
+	/** Ids of entries from this app that were imported before. */
+	async findImportedAppEntryIds(
+		userId: string,
+		format: AppImportFormat,
+		entries: AppImportEntry[]
+	): Promise<Set<string>> {
+		if (!entries.length) return new Set()
+		const rows = await this.prisma.transaction.findMany({
+			where: {
+				userId,
+				rawText: { in: entries.map(e => appRawText(format, e.externalId)) }
+			},
+			select: { rawText: true }
+		})
+		const prefix = appRawText(format, '')
+		return new Set(rows.map(r => r.rawText.slice(prefix.length)))
+	}
+
+	/** The account chosen earlier for this bank account, if it still exists. */
+	async getAccountMapping(userId: string, accountKey: string): Promise<string | null> {
+		const accountId = await this.llmMemoryService.getMemoryValue(
+			userId,
+			ACCOUNT_MAPPING_MEMORY_TYPE,
+			accountKey
+		)
+		if (!accountId) return null
+		const account = await this.prisma.account.findFirst({
+			where: { id: accountId, userId },
+			select: { id: true }
+		})
+		return account?.id ?? null
+	}
+
+	async rememberAccountMapping(
+		userId: string,
+		accountKey: string,
+		accountId: string
+	): Promise<void> {
+		await this.llmMemoryService.setMemoryValue({
+			userId,
+			type: ACCOUNT_MAPPING_MEMORY_TYPE,
+			key: accountKey,
+			value: accountId
+		})
+	}
+
+	/**
+	 * Creates drafts through `TransactionsService.create` so balances are applied;
+	 * alerts and budgets are evaluated once for the whole batch. On failure
+	 * everything created so far is rolled back.
+	 */
+	async createDrafts(
+		userId: string,
+		drafts: ImportDraft[]
+	): Promise<Array<ImportDraft & { id: string }>> {
+		const created: Array<ImportDraft & { id: string }> = []
+		try {
+			for (const draft of drafts) {
+				const tx = await this.transactionsService.create(
+					{
+						userId,
+						accountId: draft.accountId,
+						amount: draft.amount,
+						currency: draft.currency,
+						direction: draft.direction,
+						...(draft.direction === 'transfer'
+							? {
+									fromAccountId: draft.fromAccountId ?? draft.accountId,
+									toAccountId: draft.toAccountId
+								}
+							: {
+									categoryId: draft.categoryId,
+									category: draft.category ?? FALLBACK_CATEGORY
+								}),
+						description: draft.description || undefined,
+						rawText: draft.rawText,
+						transactionDate: new Date(draft.transactionDate),
+						convertedAmount: draft.convertedAmount,
+						convertToCurrency: draft.convertToCurrency,
+						tagId: draft.tagId
+					},
+					{ evaluate: false }
+				)
+				if (draft.tagId) await this.tagsService.incrementUsage(draft.tagId)
+				created.push({ ...draft, id: tx.id })
+			}
+		} catch (error: unknown) {
+			for (const tx of created) {
+				await this.transactionsService.delete(tx.id, userId).catch(() => null)
+			}
+			throw error
+		}
+		await this.transactionsService.evaluateBatch(
+			userId,
+			created.map(tx => tx.id)
+		)
+		return created
+	}
+
+	private matchCategory(
+		categories: CategoryRef[],
+		name?: string | null
+	): CategoryRef | null {
+		const key = String(name ?? '')
+			.toLowerCase()
+			.trim()
+		if (!key) return null
+		return (
+			categories.find(c => c.name.toLowerCase() === key) ??
+			categories.find(c => c.name.toLowerCase().includes(key)) ??
+			null
+		)
+	}
+
+	private async resolveCategories(
+		userId: string,
+		items: Array<{
+			description: string
+			amount: number
+			currency: string
+			direction: 'income' | 'expense'
+			category?: string
+		}>
+	): Promise<Array<CategoryRef | null>> {
+		const categories = await this.categoriesService.getAllByUserId(userId)
+		const corrections = await this.llmMemoryService.getCategoryCorrections(
+			userId,
+			items.map(item => item.description)
+		)
+		const result = items.map(
+			item =>
+				this.matchCategory(categories, item.category) ??
+				this.matchCategory(categories, corrections.get(item.description))
+		)
+		const pending = items
+			.map((item, index) => ({ item, index }))
+			.filter(({ item, index }) => !result[index] && item.description.trim())
+		if (!pending.length) return result
+		const names = categories.map(c => c.name)
+		const hints = await this.llmMemoryService.getHints(userId)
+		for (let start = 0; start < pending.length; start += LLM_CATEGORY_BATCH) {
+			const batch = pending.slice(start, start + LLM_CATEGORY_BATCH)
+			try {
+				const picked = await this.llmService.categorizeTransactions(
+					batch.map(({ item }) => item),
+					names,
+					hints
+				)
+				batch.forEach(({ index }, i) => {
+					result[index] = this.matchCategory(categories, picked[i])
+				})
+			} catch (error: unknown) {
+				const err = error instanceof Error ? error : new Error(String(error))
+				this.logger.warn(`Failed to categorize imported entries: ${err.message}`)
+				break
+			}
+		}
+		return result
+	}
+
+	private toDraft(params: {
+		accountId: string
+		accountName: string
+		currency: string
+		timezone: string
+		date: ImportDate
+		amount: number
+		direction: 'income' | 'expense'
+		description: string
+		category: CategoryRef | null
+		rawText: string
+	}): ImportDraft {
+		return {
+			action: 'create_transaction',
+			accountId: params.accountId,
+			account: params.accountName,
+			amount: params.amount,
+			currency: params.currency,
+			direction: params.direction,
+			categoryId: params.category?.id,
+			category: params.category?.name ?? FALLBACK_CATEGORY,
+			description: params.description || undefined,
+			rawText: params.rawText,
+			// entries carry no time of day; local noon keeps them on the right date
+			transactionDate: zonedTimeToUtc(
+				{ ...params.date, hour: 12 },
+				params.timezone
+			).toISOString()
+		}
+	}
+}
@@ -0,0 +1,155 @@
+import {
+	detectStatementFormat,
+	parseCamt053,
+	parseOfx,
+	parseQif,
+	parseStatement
+} from './statement-import.utils'
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>EUR
+<BANKACCTFROM>
+<BANKID>12345678
+<ACCTID>DE0012345678901234
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260301120000[+1:CET]
+<TRNAMT>-12.50
+<FITID>A-1
+<NAME>Coffee &amp; Co
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260302
+<TRNAMT>2000,00
+<FITID>A-2
+<NAME>Employer
+<MEMO>Salary March
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`
+
+const QIF = `!Account
+NMain card
+TBank
+^
+!Type:Bank
+D03/15'26
+T-45.10
+PTaxi
+LTransport:Taxi
+^
+D03/15'26
+T-45.10
+PTaxi
+^
+D03/16/2026
+T1,200.00
+PRefund
+^
+`
+
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+<BkToCstmrStmt><Stmt>
+<Acct><Id><IBAN>UA213223130000026007233566001</IBAN></Id><Ccy>UAH</Ccy></Acct>
+<Ntry>
+	<NtryRef>E-1</NtryRef>
+	<Amt Ccy="UAH">350.00</Amt>
+	<CdtDbtInd>DBIT</CdtDbtInd>
+	<Sts>BOOK</Sts>
+	<BookgDt><Dt>2026-03-05</Dt></BookgDt>
+	<AcctSvcrRef>REF-9</AcctSvcrRef>
+	<NtryDtls><TxDtls>
+		<RltdPties><Cdtr><Nm>Silpo</Nm></Cdtr></RltdPties>
+		<RmtInf><Ustrd>Groceries</Ustrd></RmtInf>
+	</TxDtls></NtryDtls>
+</Ntry>
+<Ntry>
+	<Amt Ccy="UAH">10.00</Amt>
+	<CdtDbtInd>CRDT</CdtDbtInd>
+	<Sts>PDNG</Sts>
+	<BookgDt><Dt>2026-03-06</Dt></BookgDt>
+</Ntry>
+</Stmt></BkToCstmrStmt>
+</Document>`
+
+describe('statement-import.utils', () => {
+	it('detects formats by content', () => {
+		expect(detectStatementFormat(OFX_SGML)).toBe('ofx')
+		expect(detectStatementFormat(QIF)).toBe('qif')
+		expect(detectStatementFormat(CAMT)).toBe('camt053')
+		expect(detectStatementFormat('date;amount')).toBeNull()
+	})
+
+	it('parses OFX statements with FITIDs', () => {
+		const [account] = parseOfx(OFX_SGML)
+		expect(account.accountKey).toBe('12345678/DE0012345678901234')
+		expect(account.label).toBe('•••1234')
+		expect(account.currency).toBe('EUR')
+		expect(account.entries).toEqual([
+			{
+				externalId: 'A-1',
+				date: { year: 2026, month: 2, day: 1 },
+				amount: 12.5,
+				direction: 'expense',
+				description: 'Coffee & Co',
+				currency: 'EUR'
+			},
+			{
+				externalId: 'A-2',
+				date: { year: 2026, month: 2, day: 2 },
+				amount: 2000,
+				direction: 'income',
+				description: 'Employer Salary March',
+				currency: 'EUR'
+			}
+		])
+	})
+
+	it('parses QIF with stable ids for repeated entries', () => {
+		const [account] = parseQif(QIF)
+		expect(account.accountKey).toBe('qif:Main card')
+		expect(account.entries).toHaveLength(3)
+		const [first, second, third] = account.entries
+		expect(first).toMatchObject({
+			date: { year: 2026, month: 2, day: 15 },
+			amount: 45.1,
+			direction: 'expense',
+			category: 'Transport'
+		})
+		expect(second.externalId).toBe(`${first.externalId}#1`)
+		expect(third).toMatchObject({ amount: 1200, direction: 'income' })
+		expect(parseQif(QIF)[0].entries.map(e => e.externalId)).toEqual(
+			account.entries.map(e => e.externalId)
+		)
+	})
+
+	it('parses booked CAMT.053 entries', () => {
+		const [account] = parseCamt053(CAMT)
+		expect(account.accountKey).toBe('UA213223130000026007233566001')
+		expect(account.entries).toEqual([
+			{
+				externalId: 'REF-9',
+				date: { year: 2026, month: 2, day: 5 },
+				amount: 350,
+				direction: 'expense',
+				description: 'Silpo Groceries',
+				currency: 'UAH'
+			}
+		])
+	})
+
+	it('drops accounts without entries', () => {
+		expect(parseStatement('<OFX></OFX>', 'ofx').accounts).toEqual([])
+	})
+})
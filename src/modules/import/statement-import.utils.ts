@@ -0,0 +1,317 @@
+import { createHash } from 'crypto'
+import type { ImportDate } from './csv-import.utils'
+
+export type StatementFormat = 'ofx' | 'qif' | 'camt053'
+
+export interface StatementEntry {
+	/** FITID, CAMT entry reference or, for QIF, a hash of the entry */
+	externalId: string
+	date: ImportDate
+	/** Always positive; the sign lives in `direction` */
+	amount: number
+	direction: 'income' | 'expense'
+	description: string
+	currency?: string
+	/** Category as written in the file (QIF `L` lines) */
+	category?: string
+}
+
+export interface StatementAccount {
+	/** Bank-side identifier: IBAN, `BANKID/ACCTID` or the QIF account name */
+	accountKey: string
+	label: string
+	currency?: string
+	entries: StatementEntry[]
+}
+
+export interface ParsedStatement {
+	format: StatementFormat
+	accounts: StatementAccount[]
+}
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+	ofx: 'OFX',
+	qif: 'QIF',
+	camt053: 'CAMT.053'
+}
+
+const STATEMENT_EXTENSIONS = /\.(ofx|qfx|qif|xml)$/i
+
+export function isStatementFileName(fileName: string): boolean {
+	return STATEMENT_EXTENSIONS.test(fileName)
+}
+
+export function detectStatementFormat(text: string): StatementFormat | null {
+	const head = text.slice(0, 4000)
+	if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx'
+	if (/^\s*!(Type|Account|Option)/i.test(head)) return 'qif'
+	if (/BkToCstmrStmt|camt\.053/i.test(head)) return 'camt053'
+	return null
+}
+
+function shortHash(value: string): string {
+	return createHash('sha1').update(value).digest('hex').slice(0, 16)
+}
+
+function decodeXmlEntities(value: string): string {
+	return value
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+		.replace(/&amp;/g, '&')
+}
+
+function maskedLabel(id: string): string {
+	const clean = id.replace(/\s+/g, '')
+	return clean.length > 4 ? `•••${clean.slice(-4)}` : clean
+}
+
+function parseStatementAmount(raw: string): number | null {
+	let text = raw.replace(/[\s']/g, '')
+	if (text.includes(',') && text.includes('.')) text = text.replace(/,/g, '')
+	else if (/,\d{1,2}$/.test(text)) text = text.replace(',', '.')
+	else text = text.replace(/,/g, '')
+	const amount = Number(text)
+	return text !== '' && Number.isFinite(amount) ? amount : null
+}
+
+function isoDate(raw: string): ImportDate | null {
+	const match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(raw.trim())
+	if (!match) return null
+	const [year, month, day] = match.slice(1, 4).map(Number)
+	const date = new Date(Date.UTC(year, month - 1, day))
+	if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+	return { year, month: month - 1, day }
+}
+
+/**
+ * Ensures identical synthetic ids get a suffix so two equal entries in one file stay
+ * distinct while a re-import of the same file produces the same ids again.
+ */
+function uniqueIds(entries: StatementEntry[]): StatementEntry[] {
+	const seen = new Map<string, number>()
+	return entries.map(entry => {
+		const count = seen.get(entry.externalId) ?? 0
+		seen.set(entry.externalId, count + 1)
+		return count ? { ...entry, externalId: `${entry.externalId}#${count}` } : entry
+	})
+}
+
+function entryHash(date: ImportDate, signed: number, description: string): string {
+	return shortHash(`${date.year}-${date.month}-${date.day}|${signed}|${description}`)
+}
+
+function ofxBlocks(text: string, tag: string): string[] {
+	const re = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi')
+	return Array.from(text.matchAll(re), m => m[1])
+}
+
+/** Leaf elements in OFX 1.x have no closing tag, so the value ends at the next tag or line. */
+function ofxValue(block: string, tag: string): string {
+	const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block)
+	return match ? decodeXmlEntities(match[1].trim()) : ''
+}
+
+/** Bank and card statements from OFX 1.x (SGML) and 2.x (XML) files. */
+export function parseOfx(text: string): StatementAccount[] {
+	const statements = [...ofxBlocks(text, 'STMTRS'), ...ofxBlocks(text, 'CCSTMTRS')]
+	return statements.map(block => {
+		const bankAccount = ofxBlocks(block, 'BANKACCTFROM')[0]
+		const cardAccount = ofxBlocks(block, 'CCACCTFROM')[0]
+		const acctId = ofxValue(bankAccount ?? cardAccount ?? '', 'ACCTID')
+		const bankId = bankAccount ? ofxValue(bankAccount, 'BANKID') : ''
+		const currency = ofxValue(block, 'CURDEF').toUpperCase() || undefined
+		const entries: StatementEntry[] = []
+		for (const trn of ofxBlocks(block, 'STMTTRN')) {
+			const date = isoDate(ofxValue(trn, 'DTPOSTED') || ofxValue(trn, 'DTUSER'))
+			const signed = parseStatementAmount(ofxValue(trn, 'TRNAMT'))
+			if (!date || !signed) continue
+			const name = ofxValue(trn, 'NAME')
+			const memo = ofxValue(trn, 'MEMO')
+			const description =
+				name && memo && !memo.includes(name) ? `${name} ${memo}` : memo || name
+			entries.push({
+				externalId:
+					ofxValue(trn, 'FITID') || entryHash(date, signed, description),
+				date,
+				amount: Math.abs(signed),
+				direction: signed < 0 ? 'expense' : 'income',
+				description,
+				currency
+			})
+		}
+		return {
+			accountKey: bankId ? `${bankId}/${acctId}` : acctId || 'ofx',
+			label: maskedLabel(acctId) || 'OFX',
+			currency,
+			entries: uniqueIds(entries)
+		}
+	})
+}
+
+function qifDate(raw: string, dayFirst: boolean): ImportDate | null {
+	const match = /^(\d{1,2})[/.-](\d{1,2})(?:[/.-]|')\s*(\d{2,4})$/.exec(
+		raw.replace(/\s+/g, '')
+	)
+	if (!match) return isoDate(raw)
+	const [a, b, rawYear] = match.slice(1, 4).map(Number)
+	const [day, month] = dayFirst ? [a, b] : [b, a]
+	const year = rawYear < 100 ? 2000 + rawYear : rawYear
+	const date = new Date(Date.UTC(year, month - 1, day))
+	if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+	return { year, month: month - 1, day }
+}
+
+/**
+ * Parses bank and card sections. QIF dates are month-first unless a value in the file
+ * only makes sense day-first (first part above 12) or uses dots.
+ */
+export function parseQif(text: string): StatementAccount[] {
+	const lines = text.split(/\r?\n/)
+	const dates = lines.filter(l => l.startsWith('D')).map(l => l.slice(1).trim())
+	const dayFirst = dates.some(
+		d => /^\d{1,2}\./.test(d) || Number(d.split(/\D/)[0]) > 12
+	)
+	const accounts = new Map<string, StatementAccount>()
+	let accountName = ''
+	let inAccountHeader = false
+	let skipSection = false
+	let record: Record<string, string> = {}
+	const account = () => {
+		const key = `qif:${accountName || 'default'}`
+		let item = accounts.get(key)
+		if (!item) {
+			item = { accountKey: key, label: accountName || 'QIF', entries: [] }
+			accounts.set(key, item)
+		}
+		return item
+	}
+	for (const rawLine of lines) {
+		const line = rawLine.trimEnd()
+		if (!line) continue
+		if (line.startsWith('!')) {
+			const header = line.toLowerCase()
+			inAccountHeader = header === '!account'
+			skipSection =
+				header.startsWith('!type:') &&
+				!/^!type:(bank|cash|ccard|oth a|oth l)/.test(header)
+			record = {}
+			continue
+		}
+		if (line === '^') {
+			if (inAccountHeader) {
+				accountName = record.N ?? ''
+				inAccountHeader = false
+			} else if (!skipSection) {
+				const date = qifDate(record.D ?? '', dayFirst)
+				const signed = parseStatementAmount(record.T ?? record.U ?? '')
+				if (date && signed) {
+					const description = [record.P, record.M].filter(Boolean).join(' ')
+					account().entries.push({
+						externalId: entryHash(date, signed, description),
+						date,
+						amount: Math.abs(signed),
+						direction: signed < 0 ? 'expense' : 'income',
+						description,
+						category:
+							record.L && !record.L.startsWith('[')
+								? record.L.split(':')[0]
+								: undefined
+					})
+				}
+			}
+			record = {}
+			continue
+		}
+		const code = line[0]
+		// split lines (S/E/$) repeat per split; the first occurrence is enough here
+		if (!(code in record)) record[code] = line.slice(1).trim()
+	}
+	return Array.from(accounts.values()).map(a => ({
+		...a,
+		entries: uniqueIds(a.entries)
+	}))
+}
+
+function xmlBlocks(text: string, tag: string): string[] {
+	const re = new RegExp(
+		`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`,
+		'g'
+	)
+	return Array.from(text.matchAll(re), m => m[1])
+}
+
+function xmlValue(block: string, tag: string): string {
+	const match = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([^<]*)<`).exec(block)
+	return match ? decodeXmlEntities(match[1].trim()) : ''
+}
+
+function partyName(entry: string, party: 'Cdtr' | 'Dbtr'): string {
+	const block = xmlBlocks(entry, party)[0]
+	return block ? xmlValue(block, 'Nm') : ''
+}
+
+/** ISO 20022 bank-to-customer statements; only booked entries are imported. */
+export function parseCamt053(text: string): StatementAccount[] {
+	return xmlBlocks(text, 'Stmt').map(stmt => {
+		const acct = xmlBlocks(stmt, 'Acct')[0] ?? ''
+		const iban = xmlValue(acct, 'IBAN')
+		const otherId = xmlValue(xmlBlocks(acct, 'Othr')[0] ?? '', 'Id')
+		const accountId = iban || otherId
+		const currency = xmlValue(acct, 'Ccy').toUpperCase() || undefined
+		const entries: StatementEntry[] = []
+		for (const ntry of xmlBlocks(stmt, 'Ntry')) {
+			const status =
+				xmlValue(ntry, 'Sts') || xmlValue(xmlBlocks(ntry, 'Sts')[0] ?? '', 'Cd')
+			if (status && status.toUpperCase() !== 'BOOK') continue
+			const amountMatch =
+				/<(?:[\w-]+:)?Amt(?:\s+Ccy="([A-Z]{3})")?[^>]*>([^<]+)</.exec(ntry)
+			const amount = amountMatch ? parseStatementAmount(amountMatch[2]) : null
+			const booking =
+				xmlBlocks(ntry, 'BookgDt')[0] ?? xmlBlocks(ntry, 'ValDt')[0] ?? ''
+			const date = isoDate(xmlValue(booking, 'Dt') || xmlValue(booking, 'DtTm'))
+			if (!date || !amount) continue
+			const credit = xmlValue(ntry, 'CdtDbtInd').toUpperCase() === 'CRDT'
+			const remittance = xmlBlocks(ntry, 'Ustrd')
+				.map(v => decodeXmlEntities(v.trim()))
+				.filter(Boolean)
+				.join(' ')
+			const counterparty = partyName(ntry, credit ? 'Dbtr' : 'Cdtr')
+			const description =
+				[counterparty, remittance].filter(Boolean).join(' ') ||
+				xmlValue(ntry, 'AddtlNtryInf')
+			const endToEnd = xmlValue(ntry, 'EndToEndId')
+			const reference =
+				xmlValue(ntry, 'AcctSvcrRef') ||
+				xmlValue(ntry, 'NtryRef') ||
+				(endToEnd && endToEnd !== 'NOTPROVIDED' ? endToEnd : '')
+			const signed = credit ? Math.abs(amount) : -Math.abs(amount)
+			entries.push({
+				externalId: reference || entryHash(date, signed, description),
+				date,
+				amount: Math.abs(amount),
+				direction: credit ? 'income' : 'expense',
+				description,
+				currency: amountMatch?.[1] ?? currency
+			})
+		}
+		return {
+			accountKey: accountId || 'camt053',
+			label: maskedLabel(accountId) || 'CAMT.053',
+			currency,
+			entries: uniqueIds(entries)
+		}
+	})
+}
+
+export function parseStatement(text: string, format: StatementFormat): ParsedStatement {
+	const accounts =
+		format === 'ofx'
+			? parseOfx(text)
+			: format === 'qif'
+				? parseQif(text)
+				: parseCamt053(text)
+	return { format, accounts: accounts.filter(a => a.entries.length > 0) }
+}
@@ -9,6 +9,19 @@ function makeKey(text: string): string {
 	return createHash('sha1').update(text).digest('hex')
 }
 
+/** Merchant-like key: card numbers, dates and amounts vary between otherwise equal descriptions. */
+function descriptionKey(description: string): string {
+	return makeKey(
+		description
+			.toLowerCase()
+			.replace(/\d+/g, ' ')
+			.replace(/[^\p{L}\s]/gu, ' ')
+			.replace(/\s+/g, ' ')
+			.trim()
+			.slice(0, 80)
+	)
+}
+
 @Injectable()
 export class LlmMemoryService {
 	private readonly logger = new Logger(LlmMemoryService.name)
@@ -132,6 +145,54 @@ export class LlmMemoryService {
 		}
 	}
 
+	/** Remembers the category the user chose for a description, e.g. after editing a draft. */
+	async rememberCategory(
+		userId: string,
+		description: string | null | undefined,
+		category: string
+	): Promise<void> {
+		const text = String(description ?? '').trim()
+		if (!text || !category) return
+		await this.setMemoryValue({
+			userId,
+			type: 'category',
+			key: descriptionKey(text),
+			value: category,
+			confidence: 0.9
+		})
+	}
+
+	/** Remembered categories keyed by the given descriptions; unknown ones are omitted. */
+	async getCategoryCorrections(
+		userId: string,
+		descriptions: string[]
+	): Promise<Map<string, string>> {
+		const result = new Map<string, string>()
+		const delegate = this.getDelegate()
+		const byKey = new Map<string, string[]>()
+		for (const description of descriptions) {
+			if (!description.trim()) continue
+			const key = descriptionKey(description)
+			byKey.set(key, [...(byKey.get(key) ?? []), description])
+		}
+		if (!delegate || !byKey.size) return result
+		try {
+			const rows = await delegate.findMany({
+				where: { userId, type: 'category', key: { in: Array.from(byKey.keys()) } },
+				select: { key: true, value: true }
+			})
+			for (const row of rows) {
+				for (const description of byKey.get(row.key) ?? []) {
+					result.set(description, row.value)
+				}
+			}
+		} catch (error: unknown) {
+			const err = error instanceof Error ? error : new Error(String(error))
+			this.logger.warn(`Failed to read category corrections: ${err.message}`)
+		}
+		return result
+	}
+
 	async getMemoryValue(
 		userId: string,
 		type: string,
@@ -9,6 +9,7 @@ import {
 	normalizeAccountCurrency,
 	parseRuleBasedAssetsChunk
 } from './account-parse.utils'
+import { DEFAULT_TIMEZONE } from '../../utils/date'
 
 export interface AiAnalyticsSnapshot {
 	user: {
@@ -50,6 +51,30 @@ export interface AiAnalyticsSnapshot {
 		cashflow30d: number
 		topExpenseCategories30d: Array<{ name: string; sum: number; pct: number }>
 		topIncomeCategories30d: Array<{ name: string; sum: number; pct: number }>
+		/** The period chosen on the analytics screen */
+		selectedPeriod?: {
+			label: string
+			from: string
+			to: string
+			income: number
+			expenses: number
+			cashflow: number
+			topExpenseCategories: Array<{ name: string; sum: number; pct: number }>
+		}
+		/** The selected period against the previous one and the same dates a year earlier */
+		periodComparison?: Array<{
+			mode: 'previous' | 'year_ago'
+			from: string
+			to: string
+			rows: Array<{
+				name: string
+				current: number
+				previous: number
+				delta: number
+				deltaPct: number | null
+			}>
+			biggestMovers: string[]
+		}>
 	}
 }
 
@@ -170,7 +195,7 @@ export class LLMService {
 		categoryNames: string[] = [],
 		existingTags: string[] = [],
 		accountNames: string[] = [],
-		timezone: string = 'UTC+02:00'
+		timezone: string = DEFAULT_TIMEZONE
 	) {
 		const { systemContent } = this.buildTransactionParseInstructions(
 			categoryNames,
@@ -322,7 +347,7 @@ export class LLMService {
 		existingTags: string[] = [],
 		accountNames: string[] = [],
 		userCaption?: string,
-		timezone: string = 'UTC+02:00'
+		timezone: string = DEFAULT_TIMEZONE
 	) {
 		const { systemContent } = this.buildTransactionParseInstructions(
 			categoryNames,
@@ -454,7 +479,7 @@ export class LLMService {
 	async extractTransactionDateFromImage(
 		imageBase64DataUrl: string,
 		userCaption?: string,
-		timezone: string = 'UTC+02:00'
+		timezone: string = DEFAULT_TIMEZONE
 	): Promise<string | null> {
 		const caption = String(userCaption ?? '').trim()
 		const response = await this.withRetry(() =>
@@ -941,7 +966,7 @@ export class LLMService {
 		}
 	}
 
-	async parseDate(text: string, timezone: string = 'UTC+02:00'): Promise<Date | null> {
+	async parseDate(text: string, timezone: string = DEFAULT_TIMEZONE): Promise<Date | null> {
 		const response = await this.openai.chat.completions.create({
 			model: this.txModelFast,
 			temperature: 0,
@@ -988,6 +1013,91 @@ export class LLMService {
 		}
 	}
 
+	/**
+	 * Picks one of the user's categories for each imported entry. Returns the category
+	 * name per input index, or null when the model left it out or answered off-list.
+	 */
+	async categorizeTransactions(
+		items: Array<{
+			description: string
+			amount: number
+			currency: string
+			direction: 'income' | 'expense'
+		}>,
+		categories: string[],
+		hints: string[] = []
+	): Promise<Array<string | null>> {
+		if (!items.length || !categories.length) return items.map(() => null)
+		const list = items
+			.map(
+				(item, index) =>
+					`${index}. ${item.direction === 'income' ? '+' : '-'}${item.amount} ${item.currency} ${item.description}`
+			)
+			.join('\n')
+		const response = await this.withRetry(() =>
+			this.openai.chat.completions.create({
+				model: this.txModelFast,
+				temperature: 0,
+				messages: [
+					{
+						role: 'system',
+						content:
+							`Ты раскладываешь операции из банковской выписки по категориям пользователя. Используй только категории из списка, без изменений: ${categories.join(', ')}. Если не уверен, выбери "📦Другое", если она есть в списке.` +
+							(hints.length ? `\nПравила пользователя:\n${hints.join('\n')}` : '')
+					},
+					{ role: 'user', content: list }
+				],
+				functions: [
+					{
+						name: 'set_categories',
+						description: 'Назначить категории операциям по их номерам',
+						parameters: {
+							type: 'object',
+							properties: {
+								items: {
+									type: 'array',
+									items: {
+										type: 'object',
+										properties: {
+											index: { type: 'number' },
+											category: { type: 'string' }
+										},
+										required: ['index', 'category']
+									}
+								}
+							},
+							required: ['items']
+						}
+					}
+				],
+				function_call: { name: 'set_categories' }
+			})
+		)
+		const result: Array<string | null> = items.map(() => null)
+		const call = response.choices[0].message.function_call
+		if (!call?.arguments) return result
+		try {
+			const parsed = JSON.parse(call.arguments) as {
+				items?: Array<{ index?: number; category?: string }>
+			}
+			const allowed = new Set(categories)
+			for (const item of parsed.items ?? []) {
+				if (
+					typeof item.index === 'number' &&
+					item.index >= 0 &&
+					item.index < result.length &&
+					item.category &&
+					allowed.has(item.category)
+				) {
+					result[item.index] = item.category
+				}
+			}
+		} catch {
+			return result
+		}
+		return result
+	}
+
 	async transcribeAudio(
 		audioBuffer: Buffer,
 		opts?: {
@@ -1093,7 +1203,7 @@ export class LLMService {
 		timezone?: string
 	}): Promise<LlmMassTransactionInstruction> {
 		const instruction = String(params.instruction ?? '').trim()
-		const timezone = params.timezone ?? 'UTC+02:00'
+		const timezone = params.timezone ?? DEFAULT_TIMEZONE
 		const categoryNames = params.categoryNames ?? []
 		const tagNames = params.tagNames ?? []
 		const accountNames = params.accountNames ?? []
@@ -1280,7 +1390,9 @@ export class LLMService {
 	): Promise<AiAnalyticsReportResult> {
 		const fastSystem =
 			'Ты финансовый аналитик. Разрешено использовать только переданные данные. ' +
-			'Нельзя выдумывать метрики и факты. Если данных недостаточно для вывода, так и укажи.'
+			'Нельзя выдумывать метрики и факты. Если данных недостаточно для вывода, так и укажи. ' +
+			'Если передан aggregates.selectedPeriod, в первую очередь анализируй этот период. ' +
+			'aggregates.periodComparison сравнивает его с прошлым периодом и с тем же периодом год назад.'
 		const fastUser = JSON.stringify(snapshot)
 		const fastRaw = await this.withRetry(() =>
 			this.openai.chat.completions.create({
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common'
+import { NetWorthService } from './net-worth.service'
+
+@Module({
+	providers: [NetWorthService],
+	exports: [NetWorthService]
+})
+export class NetWorthModule {}
@@ -0,0 +1,352 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { Cron } from '@nestjs/schedule'
+import { PrismaService } from '../prisma/prisma.service'
+import { ExchangeService } from '../exchange/exchange.service'
+import {
+	analyticsPeriodRange,
+	type AnalyticsPeriod
+} from '../analytics/analytics-period.utils'
+import { chartBucketKey } from '../charts/charts.utils'
+import { getZonedParts } from '../../utils/date'
+import { pickMoneyNumber } from '../../utils/money'
+import {
+	carryForwardRates,
+	dayKey,
+	dayRange,
+	replayDailyBalances,
+	splitNetWorthChanges,
+	summarizeNetWorth,
+	type Holding,
+	type NetWorthDay,
+	type NetWorthMovement,
+	type NetWorthSummary
+} from './net-worth.utils'
+
+export interface NetWorthHistory {
+	mainCurrency: string
+	movements: NetWorthMovement[]
+	summary: NetWorthSummary
+	/** Holdings on the last day of the range, largest first */
+	currencies: Array<{ currency: string; amount: number; value: number | null }>
+}
+
+type NetWorthUser = { id: string; mainCurrency: string; timezone: string }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+/** How far back a backfill goes; older history is rarely looked at. */
+const BACKFILL_MAX_DAYS = 3 * 366
+/** Local hour after which the day is considered closed for the snapshot. */
+const SNAPSHOT_LOCAL_HOUR = 23
+
+function dayDate(day: string): Date {
+	return new Date(`${day}T00:00:00Z`)
+}
+
+@Injectable()
+export class NetWorthService {
+	private readonly logger = new Logger(NetWorthService.name)
+
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly exchange: ExchangeService
+	) {}
+
+	private async loadUser(userId: string): Promise<NetWorthUser> {
+		const user = await this.prisma.user.findUnique({
+			where: { id: userId },
+			select: { id: true, mainCurrency: true, timezone: true }
+		})
+		if (!user) throw new Error('Пользователь не найден')
+		return user
+	}
+
+	private async currentHoldings(userId: string): Promise<Holding[]> {
+		const assets = await this.prisma.accountAsset.findMany({
+			where: { account: { userId } },
+			select: { accountId: true, currency: true, amount: true, amountDecimal: true }
+		})
+		return assets.map(a => ({
+			accountId: a.accountId,
+			currency: a.currency,
+			amount: pickMoneyNumber(a.amountDecimal, a.amount, 0)
+		}))
+	}
+
+	private async visibleAccountIds(userId: string): Promise<Set<string>> {
+		const accounts = await this.prisma.account.findMany({
+			where: { userId, isHidden: false },
+			select: { id: true }
+		})
+		return new Set(accounts.map(a => a.id))
+	}
+
+	/** Stores today's balances of visible accounts valued at live rates. */
+	async snapshotToday(userId: string, now: Date = new Date()): Promise<void> {
+		const user = await this.loadUser(userId)
+		const day = chartBucketKey(now, user.timezone, 'day')
+		const visible = await this.visibleAccountIds(userId)
+		const holdings = (await this.currentHoldings(userId)).filter(
+			h => visible.has(h.accountId) && h.amount !== 0
+		)
+		const rows: Array<{
+			userId: string
+			accountId: string
+			date: Date
+			currency: string
+			amount: number
+			valueUsd: number | null
+			valueMain: number | null
+			mainCurrency: string
+		}> = []
+		for (const h of holdings) {
+			rows.push({
+				userId,
+				accountId: h.accountId,
+				date: dayDate(day),
+				currency: h.currency,
+				amount: h.amount,
+				valueUsd: await this.exchange.convert(h.amount, h.currency, 'USD'),
+				valueMain: await this.exchange.convert(
+					h.amount,
+					h.currency,
+					user.mainCurrency
+				),
+				mainCurrency: user.mainCurrency
+			})
+		}
+		await this.prisma.$transaction([
+			this.prisma.netWorthSnapshot.deleteMany({
+				where: { userId, date: dayDate(day) }
+			}),
+			this.prisma.netWorthSnapshot.createMany({ data: rows })
+		])
+	}
+
+	/**
+	 * Rebuilds the whole history from transactions and stored exchange rate
+	 * snapshots, then refreshes today at live rates.
+	 */
+	async backfill(userId: string, now: Date = new Date()): Promise<number> {
+		const user = await this.loadUser(userId)
+		const today = chartBucketKey(now, user.timezone, 'day')
+		const first = await this.prisma.transaction.findFirst({
+			where: { userId },
+			orderBy: { transactionDate: 'asc' },
+			select: { transactionDate: true }
+		})
+		const earliest = dayKey(
+			new Date(dayDate(today).getTime() - BACKFILL_MAX_DAYS * DAY_MS)
+		)
+		const firstDay = first
+			? chartBucketKey(first.transactionDate, user.timezone, 'day')
+			: today
+		const days = dayRange(firstDay < earliest ? earliest : firstDay, today)
+
+		const txs = await this.prisma.transaction.findMany({
+			where: { userId, transactionDate: { gte: dayDate(days[0]) } },
+			select: {
+				transactionDate: true,
+				direction: true,
+				accountId: true,
+				fromAccountId: true,
+				toAccountId: true,
+				amount: true,
+				amountDecimal: true,
+				currency: true,
+				convertedAmount: true,
+				convertedAmountDecimal: true,
+				convertToCurrency: true
+			}
+		})
+		const balances = replayDailyBalances(
+			await this.currentHoldings(userId),
+			txs.map(tx => ({
+				day: chartBucketKey(tx.transactionDate, user.timezone, 'day'),
+				direction: tx.direction,
+				accountId: tx.accountId,
+				fromAccountId: tx.fromAccountId,
+				toAccountId: tx.toAccountId,
+				amount: pickMoneyNumber(tx.amountDecimal, tx.amount, 0),
+				currency: tx.currency,
+				convertedAmount:
+					tx.convertedAmount != null || tx.convertedAmountDecimal != null
+						? pickMoneyNumber(
+								tx.convertedAmountDecimal,
+								tx.convertedAmount,
+								0
+							)
+						: null,
+				convertToCurrency: tx.convertToCurrency
+			})),
+			days
+		)
+
+		const visible = await this.visibleAccountIds(userId)
+		const currencies = new Set<string>()
+		for (const holdings of balances.values()) {
+			for (const h of holdings) currencies.add(h.currency)
+		}
+		const rangeFrom = dayDate(days[0])
+		const rangeTo = new Date(dayDate(today).getTime() + DAY_MS - 1)
+		const ratesFor = async (quote: string) =>
+			carryForwardRates(
+				days,
+				(
+					await this.exchange.getHistoricalRates(
+						rangeFrom,
+						rangeTo,
+						[...currencies],
+						quote
+					)
+				).map(point => ({ ...point, day: dayKey(point.date) }))
+			)
+		const usdRates = await ratesFor('USD')
+		const mainRates = await ratesFor(user.mainCurrency)
+		const value = (
+			rates: Map<string, Record<string, number>>,
+			quote: string,
+			day: string,
+			h: Holding
+		) => {
+			if (h.currency.toUpperCase() === quote.toUpperCase()) return h.amount
+			const rate = rates.get(day)?.[h.currency.toUpperCase()]
+			return rate != null ? h.amount * rate : null
+		}
+
+		const rows = days.flatMap(day =>
+			(balances.get(day) ?? [])
+				.filter(h => visible.has(h.accountId))
+				.map(h => ({
+					userId,
+					accountId: h.accountId,
+					date: dayDate(day),
+					currency: h.currency,
+					amount: h.amount,
+					valueUsd: value(usdRates, 'USD', day, h),
+					valueMain: value(mainRates, user.mainCurrency, day, h),
+					mainCurrency: user.mainCurrency
+				}))
+		)
+		await this.prisma.$transaction([
+			this.prisma.netWorthSnapshot.deleteMany({ where: { userId } }),
+			this.prisma.netWorthSnapshot.createMany({ data: rows })
+		])
+		await this.snapshotToday(userId, now)
+		return days.length
+	}
+
+	/** History is rebuilt when missing or valued in a main currency the user no longer has. */
+	private async ensureHistory(user: NetWorthUser): Promise<void> {
+		const [any, stale] = await Promise.all([
+			this.prisma.netWorthSnapshot.findFirst({
+				where: { userId: user.id },
+				select: { id: true }
+			}),
+			this.prisma.netWorthSnapshot.findFirst({
+				where: { userId: user.id, mainCurrency: { not: user.mainCurrency } },
+				select: { id: true }
+			})
+		])
+		if (!any || stale) await this.backfill(user.id)
+	}
+
+	async getHistory(
+		userId: string,
+		period: AnalyticsPeriod,
+		accountId?: string
+	): Promise<NetWorthHistory> {
+		const user = await this.loadUser(userId)
+		await this.ensureHistory(user)
+		await this.snapshotToday(userId)
+		const now = new Date()
+		const range = analyticsPeriodRange(period, user.timezone, now)
+		const fromDay = chartBucketKey(range.from, user.timezone, 'day')
+		const toDay = chartBucketKey(
+			range.to < now ? range.to : now,
+			user.timezone,
+			'day'
+		)
+		const rows = await this.prisma.netWorthSnapshot.findMany({
+			where: {
+				userId,
+				date: { gte: dayDate(fromDay), lte: dayDate(toDay) },
+				...(accountId ? { accountId } : {})
+			},
+			select: { date: true, currency: true, amount: true, valueMain: true },
+			orderBy: { date: 'asc' }
+		})
+		const byDay = new Map<string, NetWorthDay>()
+		for (const day of dayRange(fromDay, toDay)) {
+			byDay.set(day, { day, holdings: [] })
+		}
+		for (const row of rows) {
+			byDay.get(dayKey(row.date))?.holdings.push({
+				currency: row.currency,
+				amount: row.amount,
+				value: row.valueMain
+			})
+		}
+		const days = [...byDay.values()]
+		const movements = splitNetWorthChanges(days)
+		const last = days[days.length - 1]?.holdings ?? []
+		const currencies = new Map<
+			string,
+			{ currency: string; amount: number; value: number | null }
+		>()
+		for (const h of last) {
+			const entry = currencies.get(h.currency) ?? {
+				currency: h.currency,
+				amount: 0,
+				value: 0
+			}
+			entry.amount += h.amount
+			entry.value =
+				entry.value != null && h.value != null ? entry.value + h.value : null
+			currencies.set(h.currency, entry)
+		}
+		return {
+			mainCurrency: user.mainCurrency,
+			movements,
+			summary: summarizeNetWorth(movements),
+			currencies: [...currencies.values()].sort(
+				(a, b) => Math.abs(b.value ?? 0) - Math.abs(a.value ?? 0)
+			)
+		}
+	}
+
+	/** Runs hourly and closes each user's day at their local 23:00. */
+	@Cron('50 * * * *')
+	async snapshotAllUsers(): Promise<void> {
+		try {
+			const now = new Date()
+			const users = await this.prisma.user.findMany({
+				where: { accounts: { some: {} } },
+				select: { id: true, timezone: true }
+			})
+			for (const user of users) {
+				if (getZonedParts(now, user.timezone).hour !== SNAPSHOT_LOCAL_HOUR)
+					continue
+				try {
+					const existing = await this.prisma.netWorthSnapshot.findFirst({
+						where: { userId: user.id },
+						select: { id: true }
+					})
+					if (existing) await this.snapshotToday(user.id, now)
+					else await this.backfill(user.id, now)
+				} catch (error: unknown) {
+					this.logger.warn(
+						`net worth snapshot failed for user=${user.id}: ${
+							(error as Error)?.message ?? error
+						}`
+					)
+				}
+			}
+		} catch (error: unknown) {
+			this.logger.warn(
+				`snapshotAllUsers skipped for current tick: ${
+					(error as Error)?.message ?? error
+				}`
+			)
+		}
+	}
+}
@@ -0,0 +1,115 @@
+import {
+	balanceDeltas,
+	carryForwardRates,
+	dayRange,
+	replayDailyBalances,
+	splitNetWorthChanges,
+	summarizeNetWorth,
+	type LedgerEntry
+} from './net-worth.utils'
+
+function entry(partial: Partial<LedgerEntry>): LedgerEntry {
+	return {
+		day: '2026-03-02',
+		direction: 'expense',
+		accountId: 'card',
+		fromAccountId: null,
+		toAccountId: null,
+		amount: 0,
+		currency: 'EUR',
+		convertedAmount: null,
+		convertToCurrency: null,
+		...partial
+	}
+}
+
+describe('net-worth.utils', () => {
+	it('lists days across month boundaries', () => {
+		expect(dayRange('2026-02-27', '2026-03-02')).toEqual([
+			'2026-02-27',
+			'2026-02-28',
+			'2026-03-01',
+			'2026-03-02'
+		])
+	})
+
+	it('books converted transfers into the target currency', () => {
+		expect(
+			balanceDeltas(
+				entry({
+					direction: 'transfer',
+					fromAccountId: 'card',
+					toAccountId: 'cash',
+					amount: 100,
+					convertedAmount: 108,
+					convertToCurrency: 'USD'
+				})
+			)
+		).toEqual([
+			{ accountId: 'card', currency: 'EUR', amount: -100 },
+			{ accountId: 'cash', currency: 'USD', amount: 108 }
+		])
+	})
+
+	it('rebuilds end-of-day balances by undoing later transactions', () => {
+		const balances = replayDailyBalances(
+			[{ accountId: 'card', currency: 'EUR', amount: 900 }],
+			[
+				entry({ day: '2026-03-02', direction: 'income', amount: 1000 }),
+				entry({ day: '2026-03-03', amount: 100 })
+			],
+			['2026-03-01', '2026-03-02', '2026-03-03']
+		)
+		expect(balances.get('2026-03-03')).toEqual([
+			{ accountId: 'card', currency: 'EUR', amount: 900 }
+		])
+		expect(balances.get('2026-03-02')).toEqual([
+			{ accountId: 'card', currency: 'EUR', amount: 1000 }
+		])
+		expect(balances.get('2026-03-01')).toEqual([])
+	})
+
+	it('carries the last known rate over days without a snapshot', () => {
+		const rates = carryForwardRates(
+			['2026-03-01', '2026-03-02', '2026-03-03'],
+			[
+				{ day: '2026-03-02', currency: 'BTC', rate: 60000 },
+				{ day: '2026-03-03', currency: 'EUR', rate: 1.1 }
+			]
+		)
+		expect(rates.get('2026-03-01')).toEqual({ BTC: 60000, EUR: 1.1 })
+		expect(rates.get('2026-03-03')).toEqual({ BTC: 60000, EUR: 1.1 })
+	})
+
+	it('separates price movement from cash flow', () => {
+		const movements = splitNetWorthChanges([
+			{
+				day: '2026-03-01',
+				holdings: [
+					{ currency: 'BTC', amount: 1, value: 60000 },
+					{ currency: 'USD', amount: 1000, value: 1000 }
+				]
+			},
+			{
+				day: '2026-03-02',
+				holdings: [
+					{ currency: 'BTC', amount: 1, value: 63000 },
+					{ currency: 'USD', amount: 1500, value: 1500 }
+				]
+			},
+			{
+				day: '2026-03-03',
+				holdings: [{ currency: 'USD', amount: 1500, value: 1500 }]
+			}
+		])
+		expect(movements[1]).toMatchObject({ change: 3500, market: 3000, flow: 500 })
+		expect(movements[2]).toMatchObject({ change: -63000, market: 0, flow: -63000 })
+		expect(summarizeNetWorth(movements)).toEqual({
+			start: 61000,
+			end: 1500,
+			change: -59500,
+			flow: -62500,
+			market: 3000
+		})
+	})
+})
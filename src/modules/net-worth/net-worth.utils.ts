@@ -0,0 +1,212 @@
+/** Balance of one currency on one account. */
+export interface Holding {
+	accountId: string
+	currency: string
+	amount: number
+}
+
+/** A transaction as far as balances are concerned; `day` is the local `YYYY-MM-DD`. */
+export interface LedgerEntry {
+	day: string
+	direction: 'income' | 'expense' | 'transfer'
+	accountId: string
+	fromAccountId: string | null
+	toAccountId: string | null
+	amount: number
+	currency: string
+	convertedAmount: number | null
+	convertToCurrency: string | null
+}
+
+/** Holdings of one day valued in the main currency; `value` is null without a rate. */
+export interface NetWorthDay {
+	day: string
+	holdings: Array<{ currency: string; amount: number; value: number | null }>
+}
+
+export interface NetWorthMovement {
+	day: string
+	total: number
+	/** Change against the previous day */
+	change: number
+	/** Income, expenses and transfers from outside the wallet */
+	flow: number
+	/** Revaluation of yesterday's holdings at today's rates and prices */
+	market: number
+}
+
+export interface NetWorthSummary {
+	start: number
+	end: number
+	change: number
+	flow: number
+	market: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+/** Amounts below this are rounding leftovers, not holdings. */
+const DUST = 1e-9
+
+export function dayKey(date: Date): string {
+	return date.toISOString().slice(0, 10)
+}
+
+/** Inclusive list of `YYYY-MM-DD` days. */
+export function dayRange(from: string, to: string): string[] {
+	const days: string[] = []
+	const end = Date.parse(`${to}T00:00:00Z`)
+	for (let t = Date.parse(`${from}T00:00:00Z`); t <= end; t += DAY_MS) {
+		days.push(dayKey(new Date(t)))
+	}
+	return days
+}
+
+/** Balance changes a transaction applies, the same way `TransactionsService` books them. */
+export function balanceDeltas(entry: LedgerEntry): Holding[] {
+	const converted = entry.convertedAmount != null && entry.convertToCurrency != null
+	const amount = converted ? entry.convertedAmount! : entry.amount
+	const currency = converted ? entry.convertToCurrency! : entry.currency
+	if (entry.direction === 'expense') {
+		return [{ accountId: entry.accountId, currency, amount: -amount }]
+	}
+	if (entry.direction === 'income') {
+		return [{ accountId: entry.accountId, currency, amount }]
+	}
+	if (!entry.toAccountId) return []
+	return [
+		{
+			accountId: entry.fromAccountId ?? entry.accountId,
+			currency: entry.currency,
+			amount: -entry.amount
+		},
+		{ accountId: entry.toAccountId, currency, amount }
+	]
+}
+
+/**
+ * End-of-day holdings for every day in `days` (ascending), rebuilt from today's
+ * balances by undoing the transactions booked after each day.
+ */
+export function replayDailyBalances(
+	current: Holding[],
+	entries: LedgerEntry[],
+	days: string[]
+): Map<string, Holding[]> {
+	const balances = new Map<string, Holding>()
+	for (const h of current) {
+		balances.set(`${h.accountId}|${h.currency}`, { ...h })
+	}
+	const pending = [...entries].sort((a, b) => b.day.localeCompare(a.day))
+	const result = new Map<string, Holding[]>()
+	let next = 0
+	for (let i = days.length - 1; i >= 0; i--) {
+		const day = days[i]
+		while (next < pending.length && pending[next].day > day) {
+			for (const delta of balanceDeltas(pending[next])) {
+				const key = `${delta.accountId}|${delta.currency}`
+				const holding = balances.get(key) ?? {
+					accountId: delta.accountId,
+					currency: delta.currency,
+					amount: 0
+				}
+				holding.amount -= delta.amount
+				balances.set(key, holding)
+			}
+			next++
+		}
+		result.set(
+			day,
+			[...balances.values()]
+				.filter(h => Math.abs(h.amount) > DUST)
+				.map(h => ({ ...h }))
+		)
+	}
+	return result
+}
+
+/**
+ * Rate of every currency on every day; a day without a snapshot keeps the last
+ * known rate, and days before the first snapshot take the earliest one.
+ */
+export function carryForwardRates(
+	days: string[],
+	points: Array<{ day: string; currency: string; rate: number }>
+): Map<string, Record<string, number>> {
+	const byDay = new Map<string, Record<string, number>>()
+	const first: Record<string, number> = {}
+	for (const point of points) {
+		const rates = byDay.get(point.day) ?? {}
+		rates[point.currency] = point.rate
+		byDay.set(point.day, rates)
+		if (first[point.currency] == null) first[point.currency] = point.rate
+	}
+	const result = new Map<string, Record<string, number>>()
+	let current: Record<string, number> = { ...first }
+	for (const day of days) {
+		const rates = byDay.get(day)
+		if (rates) current = { ...current, ...rates }
+		result.set(day, current)
+	}
+	return result
+}
+
+/**
+ * Splits each day's change into market movement and cash flow. Market movement
+ * is the previous day's holdings revalued at the new rates; the rest of the
+ * change came from money moving in or out.
+ */
+export function splitNetWorthChanges(days: NetWorthDay[]): NetWorthMovement[] {
+	const movements: NetWorthMovement[] = []
+	let prevAmounts = new Map<string, number>()
+	let prevRates = new Map<string, number>()
+	let prevTotal = 0
+	days.forEach((day, index) => {
+		const amounts = new Map<string, number>()
+		const values = new Map<string, number>()
+		for (const h of day.holdings) {
+			amounts.set(h.currency, (amounts.get(h.currency) ?? 0) + h.amount)
+			if (h.value != null) {
+				values.set(h.currency, (values.get(h.currency) ?? 0) + h.value)
+			}
+		}
+		const rates = new Map(prevRates)
+		for (const [currency, amount] of amounts) {
+			const value = values.get(currency)
+			if (value != null && Math.abs(amount) > DUST)
+				rates.set(currency, value / amount)
+		}
+		const total = [...values.values()].reduce((s, v) => s + v, 0)
+		let market = 0
+		if (index > 0) {
+			for (const [currency, amount] of prevAmounts) {
+				const before = prevRates.get(currency)
+				const after = rates.get(currency)
+				if (before != null && after != null) market += amount * (after - before)
+			}
+		}
+		const change = index > 0 ? total - prevTotal : 0
+		movements.push({
+			day: day.day,
+			total,
+			change,
+			flow: change - market,
+			market
+		})
+		prevAmounts = amounts
+		prevRates = rates
+		prevTotal = total
+	})
+	return movements
+}
+
+export function summarizeNetWorth(movements: NetWorthMovement[]): NetWorthSummary {
+	if (!movements.length) return { start: 0, end: 0, change: 0, flow: 0, market: 0 }
+	const later = movements.slice(1)
+	return {
+		start: movements[0].total,
+		end: movements[movements.length - 1].total,
+		change: later.reduce((s, m) => s + m.change, 0),
+		flow: later.reduce((s, m) => s + m.flow, 0),
+		market: later.reduce((s, m) => s + m.market, 0)
+	}
+}
@@ -0,0 +1,119 @@
+import {
+	detectSubscriptions,
+	normalizeChargeKey,
+	type ChargeCandidate
+} from './recurring-detect.utils'
+
+function charge(
+	date: string,
+	amount: number,
+	description: string | null,
+	extra: Partial<ChargeCandidate> = {}
+): ChargeCandidate {
+	return {
+		id: `${description}-${date}`,
+		date: new Date(`${date}T10:00:00.000Z`),
+		amount,
+		currency: 'EUR',
+		description,
+		tagName: null,
+		categoryName: 'Подписки',
+		...extra
+	}
+}
+
+describe('recurring-detect.utils', () => {
+	it('ignores order numbers and punctuation in descriptions', () => {
+		expect(normalizeChargeKey('Netflix.com #4821')).toBe('netflix com')
+		expect(normalizeChargeKey('  Spotify  ')).toBe('spotify')
+		expect(normalizeChargeKey(null)).toBe('')
+	})
+
+	it('finds a monthly subscription with its next date and yearly cost', () => {
+		const [series, ...rest] = detectSubscriptions(
+			[
+				charge('2026-01-31', 9.99, 'Spotify #1'),
+				charge('2026-02-28', 9.99, 'Spotify #2'),
+				charge('2026-03-31', 9.99, 'Spotify #3'),
+				charge('2026-03-12', 54.3, 'Groceries')
+			],
+			new Date('2026-04-10T00:00:00.000Z')
+		)
+		expect(rest).toHaveLength(0)
+		expect(series).toMatchObject({
+			key: 'spotify',
+			frequency: 'monthly',
+			amount: 9.99,
+			chargeCount: 3,
+			lastTransactionId: 'Spotify #3-2026-03-31',
+			priceIncrease: null,
+			missed: false,
+			extraCharges: 0
+		})
+		expect(series.yearlyCost).toBeCloseTo(119.88)
+		expect(series.nextExpected.toISOString()).toBe('2026-04-30T10:00:00.000Z')
+		expect(series.id).toMatch(/^[0-9a-f]{12}$/)
+	})
+
+	it('flags a price increase and an overdue charge', () => {
+		const [series] = detectSubscriptions(
+			[
+				charge('2026-01-05', 12, 'Netflix'),
+				charge('2026-02-05', 12, 'Netflix'),
+				charge('2026-03-05', 12, 'Netflix'),
+				charge('2026-04-05', 14, 'Netflix')
+			],
+			new Date('2026-05-20T00:00:00.000Z')
+		)
+		expect(series.priceIncrease).toEqual({
+			previous: 12,
+			current: 14,
+			pct: expect.closeTo(16.67, 1) as number
+		})
+		expect(series.missed).toBe(true)
+	})
+
+	it('counts charges that came well before the schedule', () => {
+		const [series] = detectSubscriptions(
+			[
+				charge('2026-01-10', 5, 'iCloud'),
+				charge('2026-02-10', 5, 'iCloud'),
+				charge('2026-02-12', 5, 'iCloud'),
+				charge('2026-03-10', 5, 'iCloud'),
+				charge('2026-04-10', 5, 'iCloud')
+			],
+			new Date('2026-04-15T00:00:00.000Z')
+		)
+		expect(series.frequency).toBe('monthly')
+		expect(series.extraCharges).toBe(1)
+	})
+
+	it('falls back to the tag and keeps different amounts apart', () => {
+		const weekly = ['2026-03-02', '2026-03-09', '2026-03-16', '2026-03-23']
+		const found = detectSubscriptions(
+			[
+				...weekly.map(d => charge(d, 20, null, { tagName: 'Бассейн' })),
+				...weekly.map(d => charge(d, 300, null, { tagName: 'Бассейн' }))
+			],
+			new Date('2026-03-25T00:00:00.000Z')
+		)
+		expect(found.map(s => [s.name, s.frequency, s.amount])).toEqual([
+			['Бассейн', 'weekly', 300],
+			['Бассейн', 'weekly', 20]
+		])
+	})
+
+	it('skips irregular expenses', () => {
+		expect(
+			detectSubscriptions(
+				[
+					charge('2026-01-03', 30, 'Taxi'),
+					charge('2026-01-20', 31, 'Taxi'),
+					charge('2026-03-01', 29, 'Taxi'),
+					charge('2026-03-04', 30, 'Taxi')
+				],
+				new Date('2026-03-10T00:00:00.000Z')
+			)
+		).toEqual([])
+	})
+})
@@ -0,0 +1,191 @@
+import { createHash } from 'crypto'
+
+export type DetectedFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly'
+
+export interface ChargeCandidate {
+	id: string
+	date: Date
+	amount: number
+	currency: string
+	description: string | null
+	tagName: string | null
+	categoryName: string | null
+}
+
+export interface DetectedSubscription {
+	/** Stable short id of the series, safe for callback data */
+	id: string
+	name: string
+	/** Normalized description (or tag/category) the series was grouped by */
+	key: string
+	currency: string
+	frequency: DetectedFrequency
+	/** Latest charge */
+	amount: number
+	yearlyCost: number
+	chargeCount: number
+	lastDate: Date
+	nextExpected: Date
+	lastTransactionId: string
+	/** Latest charge is noticeably above the usual one */
+	priceIncrease: { previous: number; current: number; pct: number } | null
+	/** The expected charge is overdue */
+	missed: boolean
+	/** Charges that came well before the schedule allowed */
+	extraCharges: number
+}
+
+interface Period {
+	frequency: DetectedFrequency
+	days: number
+	tolerance: number
+	perYear: number
+	months: number
+}
+
+const PERIODS: Period[] = [
+	{ frequency: 'weekly', days: 7, tolerance: 2, perYear: 52, months: 0 },
+	{ frequency: 'monthly', days: 30.44, tolerance: 5, perYear: 12, months: 1 },
+	{ frequency: 'quarterly', days: 91.31, tolerance: 12, perYear: 4, months: 3 },
+	{ frequency: 'yearly', days: 365.25, tolerance: 25, perYear: 1, months: 12 }
+]
+const DAY_MS = 24 * 60 * 60 * 1000
+/** Charges of one series stay within this share of the usual amount. */
+const AMOUNT_TOLERANCE = 0.3
+/** Smaller rises are rounding or FX noise, not a price change. */
+const MIN_PRICE_INCREASE_PCT = 3
+/** Share of the gaps that must match the period. */
+const MIN_REGULAR_SHARE = 0.6
+
+function median(values: number[]): number {
+	const sorted = [...values].sort((a, b) => a - b)
+	const mid = Math.floor(sorted.length / 2)
+	return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/** Lowercased description without digits and punctuation, so order numbers and dates don't split a series. */
+export function normalizeChargeKey(text: string | null | undefined): string {
+	return (text ?? '')
+		.toLowerCase()
+		.replace(/[\d\p{P}\p{S}]+/gu, ' ')
+		.replace(/\s+/g, ' ')
+		.trim()
+}
+
+function groupKey(charge: ChargeCandidate): string {
+	return (
+		normalizeChargeKey(charge.description) ||
+		normalizeChargeKey(charge.tagName) ||
+		normalizeChargeKey(charge.categoryName)
+	)
+}
+
+function addMonthsUtc(date: Date, months: number): Date {
+	const target = new Date(
+		Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)
+	)
+	const lastDay = new Date(
+		Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+	).getUTCDate()
+	target.setUTCDate(Math.min(date.getUTCDate(), lastDay))
+	target.setUTCHours(
+		date.getUTCHours(),
+		date.getUTCMinutes(),
+		date.getUTCSeconds(),
+		date.getUTCMilliseconds()
+	)
+	return target
+}
+
+/** Splits one description's charges into runs of similar amounts (a price change stays in its run). */
+function clusterByAmount(charges: ChargeCandidate[]): ChargeCandidate[][] {
+	const clusters: ChargeCandidate[][] = []
+	for (const charge of charges) {
+		const match = clusters.find(cluster => {
+			const usual = median(cluster.map(c => c.amount))
+			return Math.abs(charge.amount - usual) <= usual * AMOUNT_TOLERANCE
+		})
+		if (match) match.push(charge)
+		else clusters.push([charge])
+	}
+	return clusters
+}
+
+function detectSeries(
+	key: string,
+	charges: ChargeCandidate[],
+	now: Date
+): DetectedSubscription | null {
+	if (charges.length < 2) return null
+	const gaps = charges
+		.slice(1)
+		.map((c, i) => (c.date.getTime() - charges[i].date.getTime()) / DAY_MS)
+	const period = PERIODS.find(p => Math.abs(median(gaps) - p.days) <= p.tolerance)
+	if (!period) return null
+	const extra = gaps.filter(gap => gap < period.days / 2).length
+	const regular = gaps.filter(gap => Math.abs(gap - period.days) <= period.tolerance)
+	const minRegular = period.frequency === 'yearly' ? 1 : 2
+	if (
+		regular.length < minRegular ||
+		regular.length < (gaps.length - extra) * MIN_REGULAR_SHARE
+	) {
+		return null
+	}
+	const last = charges[charges.length - 1]
+	const nextExpected =
+		period.months > 0
+			? addMonthsUtc(last.date, period.months)
+			: new Date(last.date.getTime() + period.days * DAY_MS)
+	const previous = median(charges.slice(0, -1).map(c => c.amount))
+	const pct = previous > 0 ? ((last.amount - previous) / previous) * 100 : 0
+	return {
+		id: createHash('sha1')
+			.update(`${key}|${last.currency}|${period.frequency}`)
+			.digest('hex')
+			.slice(0, 12),
+		name: last.description?.trim() || last.tagName || last.categoryName || key,
+		key,
+		currency: last.currency,
+		frequency: period.frequency,
+		amount: last.amount,
+		yearlyCost: last.amount * period.perYear,
+		chargeCount: charges.length,
+		lastDate: last.date,
+		nextExpected,
+		lastTransactionId: last.id,
+		priceIncrease:
+			pct >= MIN_PRICE_INCREASE_PCT
+				? { previous, current: last.amount, pct }
+				: null,
+		missed: now.getTime() > nextExpected.getTime() + period.tolerance * DAY_MS,
+		extraCharges: extra
+	}
+}
+
+/**
+ * Finds expenses that repeat at a regular interval with a similar amount and
+ * description (or tag/category when there is no description). Most expensive
+ * per year first.
+ */
+export function detectSubscriptions(
+	charges: ChargeCandidate[],
+	now: Date = new Date()
+): DetectedSubscription[] {
+	const groups = new Map<string, ChargeCandidate[]>()
+	for (const charge of charges) {
+		const key = groupKey(charge)
+		if (!key || charge.amount <= 0) continue
+		const groupId = `${key}|${charge.currency}`
+		groups.set(groupId, [...(groups.get(groupId) ?? []), charge])
+	}
+	const result: DetectedSubscription[] = []
+	for (const [groupId, group] of groups) {
+		const key = groupId.slice(0, groupId.lastIndexOf('|'))
+		const sorted = [...group].sort((a, b) => a.date.getTime() - b.date.getTime())
+		for (const cluster of clusterByAmount(sorted)) {
+			const series = detectSeries(key, cluster, now)
+			if (series) result.push(series)
+		}
+	}
+	return result.sort((a, b) => b.yearlyCost - a.yearlyCost)
+}
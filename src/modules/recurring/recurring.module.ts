@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common'
+import { TransactionsModule } from '../transactions/transactions.module'
+import { RecurringService } from './recurring.service'
+
+@Module({
+	imports: [TransactionsModule],
+	providers: [RecurringService],
+	exports: [RecurringService]
+})
+export class RecurringModule {}
@@ -0,0 +1,447 @@
+import { Injectable, Logger } from '@nestjs/common'
+import { PrismaService } from '../prisma/prisma.service'
+import { TransactionsService } from '../transactions/transactions.service'
+import { ExchangeService } from '../exchange/exchange.service'
+import { pickMoneyNumber, toDbMoney } from '../../utils/money'
+import { nextRecurringRun, type RecurringFrequency } from './recurring.utils'
+import {
+	detectSubscriptions,
+	normalizeChargeKey,
+	type ChargeCandidate,
+	type DetectedFrequency,
+	type DetectedSubscription
+} from './recurring-detect.utils'
+
+export interface RecurringScheduleInput {
+	frequency: RecurringFrequency
+	interval?: number
+	cron?: string | null
+}
+
+export interface DueRecurringOccurrence {
+	occurrenceId: string
+	telegramId: string
+	timezone: string
+	dueAt: Date
+	direction: 'income' | 'expense'
+	amount: number
+	currency: string
+	description: string
+	accountName: string
+	categoryName: string | null
+}
+
+export interface SubscriptionCandidate extends DetectedSubscription {
+	/** null when the currency has no known rate */
+	yearlyCostMain: number | null
+	/** Template that already tracks this series */
+	recurringId: string | null
+}
+
+/** History the subscription analyzer looks at; a bit over a year so yearly charges repeat. */
+const DETECTION_WINDOW_DAYS = 400
+const DAY_MS = 24 * 60 * 60 * 1000
+/** Undelivered prompts are retried for this long; after that the user likely blocked the bot. */
+const PROMPT_RETRY_MS = 3 * DAY_MS
+
+const DETECTED_SCHEDULES: Record<DetectedFrequency, RecurringScheduleInput> = {
+	weekly: { frequency: 'weekly' },
+	monthly: { frequency: 'monthly' },
+	quarterly: { frequency: 'monthly', interval: 3 },
+	yearly: { frequency: 'yearly' }
+}
+
+const recurringInclude = {
+	account: { select: { name: true } },
+	categoryRef: { select: { name: true } },
+	tag: { select: { name: true } }
+} as const
+
+@Injectable()
+export class RecurringService {
+	private readonly logger = new Logger(RecurringService.name)
+
+	constructor(
+		private readonly prisma: PrismaService,
+		private readonly transactionsService: TransactionsService,
+		private readonly exchangeService: ExchangeService
+	) {}
+
+	private isUniqueViolation(error: unknown): boolean {
+		return (error as { code?: string })?.code === 'P2002'
+	}
+
+	templateAmount(template: { amount: number; amountDecimal: unknown }): number {
+		return pickMoneyNumber(template.amountDecimal, template.amount, 0)
+	}
+
+	async list(userId: string) {
+		return this.prisma.recurringTransaction.findMany({
+			where: { userId },
+			include: recurringInclude,
+			orderBy: { nextRunAt: 'asc' }
+		})
+	}
+
+	async findOne(id: string, userId: string) {
+		return this.prisma.recurringTransaction.findFirst({
+			where: { id, userId },
+			include: recurringInclude
+		})
+	}
+
+	/** Turns an existing income/expense into a template; its date becomes the schedule anchor. */
+	async createFromTransaction(
+		userId: string,
+		transactionId: string,
+		schedule: RecurringScheduleInput,
+		timezone: string,
+		now: Date = new Date()
+	) {
+		const tx = await this.prisma.transaction.findFirst({
+			where: { id: transactionId, userId, direction: { in: ['income', 'expense'] } }
+		})
+		if (!tx) return null
+		const amount = pickMoneyNumber(tx.amountDecimal, tx.amount, 0)
+		const startDate = tx.transactionDate
+		const interval = Math.max(1, schedule.interval ?? 1)
+		const cron = schedule.frequency === 'cron' ? (schedule.cron ?? null) : null
+		return this.prisma.recurringTransaction.create({
+			data: {
+				userId,
+				accountId: tx.accountId,
+				direction: tx.direction,
+				amount,
+				amountDecimal: toDbMoney(amount) ?? undefined,
+				currency: tx.currency,
+				categoryId: tx.categoryId,
+				category: tx.category,
+				tagId: tx.tagId,
+				description: tx.description?.trim() || tx.category || tx.rawText,
+				frequency: schedule.frequency,
+				interval,
+				cron,
+				startDate,
+				nextRunAt: nextRecurringRun(
+					{ frequency: schedule.frequency, interval, cron, startDate },
+					now,
+					timezone
+				)
+			}
+		})
+	}
+
+	/** Expenses of the visible accounts the subscription analyzer works on. */
+	private async chargeHistory(userId: string, now: Date): Promise<ChargeCandidate[]> {
+		const txs = await this.prisma.transaction.findMany({
+			where: {
+				userId,
+				direction: 'expense',
+				transactionDate: {
+					gte: new Date(now.getTime() - DETECTION_WINDOW_DAYS * DAY_MS),
+					lte: now
+				},
+				account: { isHidden: false }
+			},
+			select: {
+				id: true,
+				transactionDate: true,
+				amount: true,
+				amountDecimal: true,
+				currency: true,
+				description: true,
+				category: true,
+				categoryRef: { select: { name: true } },
+				tag: { select: { name: true } }
+			}
+		})
+		return txs.map(tx => ({
+			id: tx.id,
+			date: tx.transactionDate,
+			amount: pickMoneyNumber(tx.amountDecimal, tx.amount, 0),
+			currency: tx.currency,
+			description: tx.description,
+			tagName: tx.tag?.name ?? null,
+			categoryName: tx.categoryRef?.name ?? tx.category
+		}))
+	}
+
+	/** Recurring expenses found in the history, most expensive per year first. */
+	async detectSubscriptions(
+		userId: string,
+		mainCurrency: string,
+		now: Date = new Date()
+	): Promise<SubscriptionCandidate[]> {
+		const [charges, templates] = await Promise.all([
+			this.chargeHistory(userId, now),
+			this.prisma.recurringTransaction.findMany({
+				where: { userId, direction: 'expense' },
+				select: { id: true, description: true, currency: true }
+			})
+		])
+		const result: SubscriptionCandidate[] = []
+		for (const series of detectSubscriptions(charges, now)) {
+			const tracked = templates.find(
+				t =>
+					t.currency === series.currency &&
+					normalizeChargeKey(t.description) === series.key
+			)
+			result.push({
+				...series,
+				yearlyCostMain: await this.exchangeService.convert(
+					series.yearlyCost,
+					series.currency,
+					mainCurrency
+				),
+				recurringId: tracked?.id ?? null
+			})
+		}
+		return result
+	}
+
+	/** Turns a detected series into a template anchored on its latest charge. */
+	async trackSubscription(
+		userId: string,
+		seriesId: string,
+		timezone: string,
+		now: Date = new Date()
+	) {
+		const series = detectSubscriptions(
+			await this.chargeHistory(userId, now),
+			now
+		).find(s => s.id === seriesId)
+		if (!series) return null
+		return this.createFromTransaction(
+			userId,
+			series.lastTransactionId,
+			DETECTED_SCHEDULES[series.frequency],
+			timezone,
+			now
+		)
+	}
+
+	/** Resuming skips the runs missed while paused. */
+	async setPaused(
+		id: string,
+		userId: string,
+		paused: boolean,
+		timezone: string,
+		now: Date = new Date()
+	): Promise<boolean> {
+		const template = await this.findOne(id, userId)
+		if (!template) return false
+		await this.prisma.recurringTransaction.update({
+			where: { id },
+			data: paused
+				? { paused: true }
+				: {
+						paused: false,
+						nextRunAt: nextRecurringRun(template, now, timezone)
+					}
+		})
+		return true
+	}
+
+	async updateAmount(id: string, userId: string, amount: number): Promise<boolean> {
+		const result = await this.prisma.recurringTransaction.updateMany({
+			where: { id, userId },
+			data: { amount, amountDecimal: toDbMoney(amount) ?? undefined }
+		})
+		return result.count > 0
+	}
+
+	async updateDescription(
+		id: string,
+		userId: string,
+		description: string
+	): Promise<boolean> {
+		const result = await this.prisma.recurringTransaction.updateMany({
+			where: { id, userId },
+			data: { description }
+		})
+		return result.count > 0
+	}
+
+	async updateSchedule(
+		id: string,
+		userId: string,
+		schedule: RecurringScheduleInput,
+		timezone: string,
+		now: Date = new Date()
+	): Promise<boolean> {
+		const template = await this.findOne(id, userId)
+		if (!template) return false
+		const interval = Math.max(1, schedule.interval ?? 1)
+		const cron = schedule.frequency === 'cron' ? (schedule.cron ?? null) : null
+		await this.prisma.recurringTransaction.update({
+			where: { id },
+			data: {
+				frequency: schedule.frequency,
+				interval,
+				cron,
+				nextRunAt: nextRecurringRun(
+					{
+						frequency: schedule.frequency,
+						interval,
+						cron,
+						startDate: template.startDate
+					},
+					now,
+					timezone
+				)
+			}
+		})
+		return true
+	}
+
+	async delete(id: string, userId: string): Promise<boolean> {
+		const result = await this.prisma.recurringTransaction.deleteMany({
+			where: { id, userId }
+		})
+		return result.count > 0
+	}
+
+	/**
+	 * Opens a pending occurrence for every template whose run is due and moves the
+	 * template to its next run. Advancing is conditional on the old `nextRunAt`, so two
+	 * overlapping ticks never open the same run twice. Prompts go out separately.
+	 */
+	async claimDue(now: Date = new Date(), limit = 200): Promise<number> {
+		const due = await this.prisma.recurringTransaction.findMany({
+			where: { paused: false, nextRunAt: { lte: now } },
+			include: { user: { select: { timezone: true } } },
+			orderBy: { nextRunAt: 'asc' },
+			take: limit
+		})
+		let opened = 0
+		for (const template of due) {
+			const dueAt = template.nextRunAt
+			const advanced = await this.prisma.recurringTransaction.updateMany({
+				where: { id: template.id, nextRunAt: dueAt },
+				data: {
+					nextRunAt: nextRecurringRun(template, now, template.user.timezone)
+				}
+			})
+			if (!advanced.count) continue
+			try {
+				await this.prisma.recurringOccurrence.create({
+					data: { recurringId: template.id, dueAt }
+				})
+				opened++
+			} catch (error: unknown) {
+				if (this.isUniqueViolation(error)) continue
+				throw error
+			}
+		}
+		return opened
+	}
+
+	/**
+	 * Pending occurrences whose prompt has not reached the user yet, claimed by
+	 * setting `promptedAt`. Release the claim with `releasePrompt` when delivery fails,
+	 * so the next tick retries it.
+	 */
+	async claimPrompts(
+		now: Date = new Date(),
+		limit = 200
+	): Promise<DueRecurringOccurrence[]> {
+		const pending = await this.prisma.recurringOccurrence.findMany({
+			where: {
+				status: 'pending',
+				promptedAt: null,
+				dueAt: { gte: new Date(now.getTime() - PROMPT_RETRY_MS) }
+			},
+			include: {
+				recurring: {
+					include: {
+						...recurringInclude,
+						user: { select: { telegramId: true, timezone: true } }
+					}
+				}
+			},
+			orderBy: { dueAt: 'asc' },
+			take: limit
+		})
+		const claimed: DueRecurringOccurrence[] = []
+		for (const occurrence of pending) {
+			const marked = await this.prisma.recurringOccurrence.updateMany({
+				where: { id: occurrence.id, promptedAt: null },
+				data: { promptedAt: now }
+			})
+			if (!marked.count) continue
+			const template = occurrence.recurring
+			claimed.push({
+				occurrenceId: occurrence.id,
+				telegramId: template.user.telegramId,
+				timezone: template.user.timezone,
+				dueAt: occurrence.dueAt,
+				direction: template.direction as 'income' | 'expense',
+				amount: this.templateAmount(template),
+				currency: template.currency,
+				description: template.description,
+				accountName: template.account.name,
+				categoryName: template.categoryRef?.name ?? template.category
+			})
+		}
+		return claimed
+	}
+
+	async releasePrompt(occurrenceId: string): Promise<void> {
+		await this.prisma.recurringOccurrence.updateMany({
+			where: { id: occurrenceId, status: 'pending' },
+			data: { promptedAt: null }
+		})
+	}
+
+	/** Books the occurrence through TransactionsService; returns null when already resolved. */
+	async confirm(occurrenceId: string, userId: string) {
+		const occurrence = await this.prisma.recurringOccurrence.findFirst({
+			where: { id: occurrenceId, recurring: { userId } },
+			include: { recurring: true }
+		})
+		if (!occurrence) return null
+		const claimed = await this.prisma.recurringOccurrence.updateMany({
+			where: { id: occurrenceId, status: 'pending' },
+			data: { status: 'confirmed', resolvedAt: new Date() }
+		})
+		if (!claimed.count) return null
+		const template = occurrence.recurring
+		try {
+			const tx = await this.transactionsService.create({
+				userId,
+				accountId: template.accountId,
+				amount: this.templateAmount(template),
+				currency: template.currency,
+				direction: template.direction as 'income' | 'expense',
+				categoryId: template.categoryId ?? undefined,
+				category: template.category ?? undefined,
+				tagId: template.tagId ?? undefined,
+				description: template.description,
+				rawText: template.description,
+				transactionDate: occurrence.dueAt
+			})
+			await this.prisma.recurringOccurrence.update({
+				where: { id: occurrenceId },
+				data: { transactionId: tx.id }
+			})
+			return tx
+		} catch (error: unknown) {
+			this.logger.warn(
+				`confirm failed for occurrence=${occurrenceId}: ${(error as Error)?.message ?? error}`
+			)
+			await this.prisma.recurringOccurrence.update({
+				where: { id: occurrenceId },
+				data: { status: 'pending', resolvedAt: null }
+			})
+			throw error
+		}
+	}
+
+	async skip(occurrenceId: string, userId: string): Promise<boolean> {
+		const result = await this.prisma.recurringOccurrence.updateMany({
+			where: { id: occurrenceId, status: 'pending', recurring: { userId } },
+			data: { status: 'skipped', resolvedAt: new Date() }
+		})
+		return result.count > 0
+	}
+}
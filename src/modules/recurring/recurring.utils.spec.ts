@@ -0,0 +1,126 @@
+import {
+	cronZone,
+	describeSchedule,
+	isValidCronExpression,
+	nextRecurringRun
+} from './recurring.utils'
+
+describe('recurring.utils', () => {
+	it('steps daily and weekly runs from the start date', () => {
+		const startDate = new Date('2026-03-01T07:00:00.000Z')
+		const after = new Date('2026-03-04T08:00:00.000Z')
+		expect(
+			nextRecurringRun(
+				{ frequency: 'daily', interval: 1, startDate },
+				after,
+				'UTC+02:00'
+			).toISOString()
+		).toBe('2026-03-05T07:00:00.000Z')
+		expect(
+			nextRecurringRun(
+				{ frequency: 'weekly', interval: 2, startDate },
+				after,
+				'UTC+02:00'
+			).toISOString()
+		).toBe('2026-03-15T07:00:00.000Z')
+	})
+
+	it('returns the start date while it is still in the future', () => {
+		const startDate = new Date('2026-04-01T07:00:00.000Z')
+		const after = new Date('2026-03-04T00:00:00.000Z')
+		expect(
+			nextRecurringRun(
+				{ frequency: 'monthly', interval: 1, startDate },
+				after,
+				'UTC+00:00'
+			)
+		).toEqual(startDate)
+	})
+
+	it('clamps monthly runs to the last day of short months', () => {
+		const startDate = new Date('2026-01-31T10:00:00.000Z')
+		const feb = nextRecurringRun(
+			{ frequency: 'monthly', interval: 1, startDate },
+			startDate,
+			'UTC+00:00'
+		)
+		expect(feb.toISOString()).toBe('2026-02-28T10:00:00.000Z')
+		const mar = nextRecurringRun(
+			{ frequency: 'monthly', interval: 1, startDate },
+			feb,
+			'UTC+00:00'
+		)
+		expect(mar.toISOString()).toBe('2026-03-31T10:00:00.000Z')
+	})
+
+	it('keeps monthly runs on the local calendar day', () => {
+		// 1st of the month 00:30 in UTC+03:00 is the previous day in UTC
+		const startDate = new Date('2026-01-31T21:30:00.000Z')
+		const next = nextRecurringRun(
+			{ frequency: 'monthly', interval: 1, startDate },
+			startDate,
+			'UTC+03:00'
+		)
+		expect(next.toISOString()).toBe('2026-02-28T21:30:00.000Z')
+	})
+
+	it('handles yearly runs on Feb 29', () => {
+		const startDate = new Date('2028-02-29T09:00:00.000Z')
+		const next = nextRecurringRun(
+			{ frequency: 'yearly', interval: 1, startDate },
+			startDate,
+			'UTC+00:00'
+		)
+		expect(next.toISOString()).toBe('2029-02-28T09:00:00.000Z')
+	})
+
+	it('evaluates cron expressions in the user timezone', () => {
+		const next = nextRecurringRun(
+			{
+				frequency: 'cron',
+				interval: 1,
+				cron: '0 9 * * 1',
+				startDate: new Date('2026-03-01T00:00:00.000Z')
+			},
+			new Date('2026-03-04T00:00:00.000Z'),
+			'UTC+02:00'
+		)
+		expect(next.toISOString()).toBe('2026-03-09T07:00:00.000Z')
+	})
+
+	it('keeps the local time of day across a DST change', () => {
+		// 09:00 in Kyiv: UTC+2 in March before the switch, UTC+3 after
+		const next = nextRecurringRun(
+			{
+				frequency: 'weekly',
+				interval: 1,
+				startDate: new Date('2026-03-23T07:00:00.000Z')
+			},
+			new Date('2026-03-24T00:00:00.000Z'),
+			'Europe/Kyiv'
+		)
+		expect(next.toISOString()).toBe('2026-03-30T06:00:00.000Z')
+	})
+
+	it('validates cron expressions and zones', () => {
+		expect(isValidCronExpression('0 9 1 * *')).toBe(true)
+		expect(isValidCronExpression('0 9 1 *')).toBe(false)
+		expect(isValidCronExpression('99 9 * * *')).toBe(false)
+		expect(cronZone('UTC-05:30')).toBe('UTC-05:30')
+		expect(cronZone('+3')).toBe('UTC+03:00')
+		expect(cronZone('Europe/Kyiv')).toBe('Europe/Kyiv')
+	})
+
+	it('describes schedules', () => {
+		const startDate = new Date('2026-03-10T07:00:00.000Z')
+		expect(
+			describeSchedule({ frequency: 'daily', interval: 1, startDate }, 'UTC+02:00')
+		).toBe('каждый день')
+		expect(
+			describeSchedule(
+				{ frequency: 'monthly', interval: 1, startDate },
+				'UTC+02:00'
+			)
+		).toBe('каждый месяц (10 число)')
+	})
+})
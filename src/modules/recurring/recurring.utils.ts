@@ -0,0 +1,140 @@
+import { CronTime, validateCronExpression } from 'cron'
+import {
+	getZonedParts,
+	isIanaTimezone,
+	parseTimezoneOffsetMinutes,
+	zonedTimeToUtc
+} from '../../utils/date'
+
+export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'cron'
+
+export interface RecurringSchedule {
+	frequency: RecurringFrequency
+	interval: number
+	cron?: string | null
+	startDate: Date
+}
+
+const DAY_MS = 86_400_000
+
+const WEEKDAYS = ['вс', 'пн', 'вт', 'ср', 'чт', 'пт', 'сб']
+
+function pad2(value: number): string {
+	return String(value).padStart(2, '0')
+}
+
+/** Zone name understood by the cron library: IANA as is, legacy offsets as `UTC+02:00`. */
+export function cronZone(timezone: string): string {
+	if (isIanaTimezone(timezone)) return timezone
+	const offset = parseTimezoneOffsetMinutes(timezone)
+	const sign = offset < 0 ? '-' : '+'
+	const abs = Math.abs(offset)
+	return `UTC${sign}${pad2(Math.floor(abs / 60))}:${pad2(abs % 60)}`
+}
+
+export function isValidCronExpression(expression: string): boolean {
+	const trimmed = expression.trim()
+	if (trimmed.split(/\s+/).length !== 5) return false
+	return validateCronExpression(trimmed).valid
+}
+
+/** Adds calendar months in the user's wall clock, clamping the day to the month length. */
+function addLocalMonths(start: Date, months: number, timezone: string): Date {
+	const local = getZonedParts(start, timezone)
+	const month = local.month + months
+	const lastDay = new Date(Date.UTC(local.year, month + 1, 0)).getUTCDate()
+	return zonedTimeToUtc(
+		{
+			year: local.year,
+			month,
+			day: Math.min(local.day, lastDay),
+			hour: local.hour,
+			minute: local.minute
+		},
+		timezone
+	)
+}
+
+/**
+ * First run strictly after `after`. Runs are anchored to `startDate`, so a monthly
+ * template created on the 31st keeps landing on the last day of shorter months.
+ */
+export function nextRecurringRun(
+	schedule: RecurringSchedule,
+	after: Date,
+	timezone: string
+): Date {
+	if (schedule.frequency === 'cron') {
+		const zone = cronZone(timezone)
+		const from =
+			after < schedule.startDate
+				? new Date(schedule.startDate.getTime() - 1)
+				: after
+		return new CronTime(String(schedule.cron ?? ''), zone)
+			.getNextDateFrom(from, zone)
+			.toJSDate()
+	}
+	const interval = Math.max(1, Math.floor(schedule.interval || 1))
+	const start = schedule.startDate
+	if (start > after) return start
+	const startLocal = getZonedParts(start, timezone)
+	if (schedule.frequency === 'daily' || schedule.frequency === 'weekly') {
+		// whole local days, so the run keeps its wall-clock time across DST changes
+		const stepDays = (schedule.frequency === 'daily' ? 1 : 7) * interval
+		const steps = Math.floor(
+			(after.getTime() - start.getTime()) / (stepDays * DAY_MS)
+		)
+		let n = Math.max(0, steps - 1)
+		let candidate = start
+		while (candidate <= after) {
+			n += 1
+			candidate = zonedTimeToUtc(
+				{
+					year: startLocal.year,
+					month: startLocal.month,
+					day: startLocal.day + n * stepDays,
+					hour: startLocal.hour,
+					minute: startLocal.minute
+				},
+				timezone
+			)
+		}
+		return candidate
+	}
+	const monthsPerStep = (schedule.frequency === 'monthly' ? 1 : 12) * interval
+	const afterLocal = getZonedParts(after, timezone)
+	const monthsBetween =
+		(afterLocal.year - startLocal.year) * 12 + (afterLocal.month - startLocal.month)
+	let steps = Math.max(0, Math.floor(monthsBetween / monthsPerStep))
+	let candidate = addLocalMonths(start, steps * monthsPerStep, timezone)
+	while (candidate <= after) {
+		steps += 1
+		candidate = addLocalMonths(start, steps * monthsPerStep, timezone)
+	}
+	return candidate
+}
+
+export function describeSchedule(schedule: RecurringSchedule, timezone: string): string {
+	const interval = Math.max(1, Math.floor(schedule.interval || 1))
+	const local = getZonedParts(schedule.startDate, timezone)
+	switch (schedule.frequency) {
+		case 'daily':
+			return interval === 1 ? 'каждый день' : `каждые ${interval} дн.`
+		case 'weekly': {
+			const day = WEEKDAYS[local.weekday]
+			return interval === 1
+				? `каждую неделю (${day})`
+				: `каждые ${interval} нед. (${day})`
+		}
+		case 'monthly': {
+			const day = local.day
+			return interval === 1
+				? `каждый месяц (${day} число)`
+				: `каждые ${interval} мес. (${day} число)`
+		}
+		case 'yearly':
+			return `каждый год (${pad2(local.day)}.${pad2(local.month + 1)})`
+		case 'cron':
+			return `по расписанию cron: ${schedule.cron ?? ''}`
+	}
+}
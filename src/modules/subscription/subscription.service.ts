@@ -4,6 +4,7 @@ import { PremiumEventType, SubscriptionPlan } from '../../generated/prisma/enums
 import { PrismaService } from '../prisma/prisma.service'
 import { FREE_LIMITS, TRIAL_DAYS } from './subscription.constants'
 import { toDbMoney } from '../../utils/money'
+import { DEFAULT_TIMEZONE, startOfZonedMonth } from '../../utils/date'
 import { SYSTEM_MAX_CUSTOM_TAGS } from '../tags/tags.service'
 
 export function addDays(date: Date, days: number): Date {
@@ -171,15 +172,23 @@ export class SubscriptionService {
 		const isPrem = await this.isPremiumForUser(userId)
 		return isPrem ? true : FREE_LIMITS.EXPORT_ALLOWED
 	}
+
+	/** Начало текущего месяца в часовом поясе пользователя. */
+	private async userMonthStart(userId: string, now: Date): Promise<Date> {
+		const user = await this.prisma.user.findUnique({
+			where: { id: userId },
+			select: { timezone: true }
+		})
+		return startOfZonedMonth(now, user?.timezone ?? DEFAULT_TIMEZONE)
+	}
+
 	/**
 	 * Лимит транзакций в месяц для Basic.
 	 */
 	async canCreateTransaction(userId: string): Promise<LimitResult> {
 		const isPrem = await this.isPremiumForUser(userId)
 		const now = new Date()
-		const startOfMonth = new Date(
-			Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1, 0, 0, 0, 0)
-		)
+		const startOfMonth = await this.userMonthStart(userId, now)
 		const current = await this.prisma.transaction.count({
 			where: {
 				userId,
@@ -196,9 +205,7 @@ export class SubscriptionService {
 	async canParseImage(userId: string): Promise<LimitResult> {
 		const isPrem = await this.isPremiumForUser(userId)
 		const now = new Date()
-		const startOfMonth = new Date(
-			Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1, 0, 0, 0, 0)
-		)
+		const startOfMonth = await this.userMonthStart(userId, now)
 		const rows = await this.prisma.transaction.findMany({
 			where: {
 				userId,
@@ -1,7 +1,10 @@
 import { Module } from '@nestjs/common'
 import { TransactionsService } from './transactions.service'
+import { AlertsModule } from '../alerts/alerts.module'
+import { BudgetsModule } from '../budgets/budgets.module'
 
 @Module({
+	imports: [AlertsModule, BudgetsModule],
 	providers: [TransactionsService],
 	exports: [TransactionsService]
 })
@@ -4,12 +4,28 @@ import { TransactionModel } from '../../generated/prisma/models'
 import { ExchangeService } from '../exchange/exchange.service'
 import { pickMoneyNumber, toDbMoney } from '../../utils/money'
 import { roundByCurrencyPolicy } from '../../utils/format'
+import { AlertsService } from '../alerts/alerts.service'
+import { BudgetsService } from '../budgets/budgets.service'
+import type { TransactionAttachmentKind } from '../../generated/prisma/enums'
+
+/** Telegram file kept on a transaction, e.g. the receipt it was parsed from. */
+export interface TransactionAttachmentInput {
+	kind: TransactionAttachmentKind
+	fileId: string
+	fileUniqueId: string
+	fileName?: string
+	mimeType?: string
+}
+
+export const MAX_TRANSACTION_ATTACHMENTS = 10
 
 @Injectable()
 export class TransactionsService {
 	constructor(
 		private prisma: PrismaService,
-		private readonly exchangeService: ExchangeService
+		private readonly exchangeService: ExchangeService,
+		private readonly alertsService: AlertsService,
+		private readonly budgetsService: BudgetsService
 	) {}
 
 	private normalizeAmountByCurrency(amount: number, currency: string): number {
@@ -21,23 +37,28 @@ export class TransactionsService {
 		return sign * roundByCurrencyPolicy(Math.abs(Number(amount ?? 0)), currency)
 	}
 
-	async create(params: {
-		userId: string
-		accountId: string
-		amount: number
-		currency: string
-		direction: 'income' | 'expense' | 'transfer'
-		fromAccountId?: string
-		toAccountId?: string
-		categoryId?: string
-		category?: string
-		description?: string
-		rawText: string
-		transactionDate?: Date
-		tagId?: string
-		convertedAmount?: number
-		convertToCurrency?: string
-	}) {
+	async create(
+		params: {
+			userId: string
+			accountId: string
+			amount: number
+			currency: string
+			direction: 'income' | 'expense' | 'transfer'
+			fromAccountId?: string
+			toAccountId?: string
+			categoryId?: string
+			category?: string
+			description?: string
+			rawText: string
+			transactionDate?: Date
+			tagId?: string
+			convertedAmount?: number
+			convertToCurrency?: string
+			attachments?: TransactionAttachmentInput[]
+		},
+		options: { evaluate?: boolean } = {}
+	) {
+		const { attachments, ...fields } = params
 		const normalizedAmount = this.normalizeAmountByCurrency(
 			params.amount,
 			params.currency
@@ -56,7 +77,8 @@ export class TransactionsService {
 		)
 		const tx = await this.prisma.transaction.create({
 			data: {
-				...params,
+				...fields,
+				...(attachments?.length ? { attachments: { create: attachments } } : {}),
 				amount: normalizedAmount,
 				amountDecimal: toDbMoney(normalizedAmount) ?? undefined,
 				convertedAmount: normalizedConverted,
@@ -70,9 +92,32 @@ export class TransactionsService {
 			}
 		})
 		await this.applyBalanceEffect(tx)
+		if (options.evaluate !== false) {
+			await this.alertsService.evaluateTransaction(tx.userId, tx.id)
+			await this.budgetsService.evaluateTransaction(tx.userId, tx.id)
+		}
 		return tx
 	}
 
+	/**
+	 * Runs alerts and budget warnings once for a batch saved with `evaluate: false`,
+	 * e.g. an imported history, instead of once per row.
+	 */
+	async evaluateBatch(userId: string, transactionIds: string[]): Promise<void> {
+		if (!transactionIds.length) return
+		await this.alertsService.evaluateImported(userId)
+		// one expense per category is enough: budget warnings look at the month totals
+		const latest = await this.prisma.transaction.findMany({
+			where: { id: { in: transactionIds }, userId, direction: 'expense' },
+			distinct: ['categoryId'],
+			orderBy: { transactionDate: 'desc' },
+			select: { id: true }
+		})
+		for (const tx of latest) {
+			await this.budgetsService.evaluateTransaction(userId, tx.id)
+		}
+	}
+
 	async applyBalanceEffect(tx: TransactionModel) {
 		const useConverted = tx.convertedAmount != null && tx.convertToCurrency != null
 		const amountToUse = useConverted
@@ -194,6 +239,8 @@ export class TransactionsService {
 				}
 			})
 		await this.applyBalanceEffect(updated as TransactionModel)
+		await this.alertsService.evaluateTransaction(updated.userId, updated.id)
+		await this.budgetsService.evaluateTransaction(updated.userId, updated.id)
 		return updated
 	}
 
@@ -207,6 +254,51 @@ export class TransactionsService {
 		return tx
 	}
 
+	/** Stores a photo or document on the transaction; the same file twice is a no-op. */
+	async addAttachment(
+		transactionId: string,
+		userId: string,
+		file: TransactionAttachmentInput
+	) {
+		const tx = await this.prisma.transaction.findFirst({
+			where: { id: transactionId, userId },
+			select: { _count: { select: { attachments: true } } }
+		})
+		if (!tx) return null
+		// re-sending a file that is already attached is not a new one
+		const existing = await this.prisma.transactionAttachment.findUnique({
+			where: {
+				transactionId_fileUniqueId: {
+					transactionId,
+					fileUniqueId: file.fileUniqueId
+				}
+			}
+		})
+		if (existing) return existing
+		if (tx._count.attachments >= MAX_TRANSACTION_ATTACHMENTS) {
+			throw new Error(
+				`К операции можно прикрепить не больше ${MAX_TRANSACTION_ATTACHMENTS} файлов`
+			)
+		}
+		return this.prisma.transactionAttachment.upsert({
+			where: {
+				transactionId_fileUniqueId: {
+					transactionId,
+					fileUniqueId: file.fileUniqueId
+				}
+			},
+			create: { transactionId, ...file },
+			update: {}
+		})
+	}
+
+	async getAttachments(transactionId: string, userId: string) {
+		return this.prisma.transactionAttachment.findMany({
+			where: { transactionId, transaction: { userId } },
+			orderBy: { createdAt: 'asc' }
+		})
+	}
+
 	private async upsertAssetDelta(accountId: string, currency: string, delta: number) {
 		const existing = await this.prisma.accountAsset.findUnique({
 			where: { accountId_currency: { accountId, currency } },
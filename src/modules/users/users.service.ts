@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common'
 import { PrismaService } from '../prisma/prisma.service'
 import { CategoriesService } from '../categories/categories.service'
 import { TagsService } from '../tags/tags.service'
+import { DEFAULT_TIMEZONE } from '../../utils/date'
 
 @Injectable()
 export class UsersService {
@@ -23,7 +24,7 @@ export class UsersService {
 				data: {
 					telegramId,
 					mainCurrency: 'USD',
-					timezone: 'UTC+02:00'
+					timezone: DEFAULT_TIMEZONE
 				}
 			})
 
@@ -75,15 +76,18 @@ export class UsersService {
 
 	async deleteAllUserData(userId: string) {
 		await this.prisma.$transaction(async tx => {
+			await tx.recurringTransaction.deleteMany({ where: { userId } })
 			await tx.transaction.deleteMany({ where: { userId } })
 			await tx.accountAsset.deleteMany({
 				where: { account: { userId } }
 			})
 			await tx.account.deleteMany({ where: { userId } })
+			await tx.budget.deleteMany({ where: { userId } })
 			await tx.category.deleteMany({ where: { userId } })
 			await tx.tag.deleteMany({ where: { userId } })
 			await tx.tagAuditLog.deleteMany({ where: { userId } })
 			await tx.savedAnalyticsView.deleteMany({ where: { userId } })
+			await tx.alertEvent.deleteMany({ where: { userId } })
 			await tx.alertConfig.deleteMany({ where: { userId } })
 			await tx.subscription.deleteMany({ where: { userId } })
 			await tx.premiumEvent.deleteMany({ where: { userId } })
@@ -91,7 +95,7 @@ export class UsersService {
 					where: { id: userId },
 					data: {
 						mainCurrency: 'USD',
-						timezone: 'UTC+02:00',
+						timezone: DEFAULT_TIMEZONE,
 						defaultAccountId: null,
 						activeAccountId: null
 					}
@@ -1,4 +1,6 @@
 import { InlineKeyboard } from 'grammy'
+import { DEFAULT_TIMEZONE, isIanaTimezone } from '../../utils/date'
+import { POPULAR_TIMEZONES, timezoneLabel } from '../../utils/timezones'
 
 type SettingsViewUser = {
 	id: string
@@ -37,22 +39,28 @@ export function mainCurrencyPickerKeyboard(): InlineKeyboard {
 }
 
 export function timezonePickerKeyboard(): InlineKeyboard {
-	return new InlineKeyboard()
-		.text('UTC+2 — Киев, Вильнюс, Афины', 'timezone_set:+2')
-		.text('UTC+1 — Берлин, Париж, Рим', 'timezone_set:+1')
-		.row()
-		.text('UTC+0 — Лондон, Лиссабон', 'timezone_set:0')
-		.text('UTC–1 — Азорские острова', 'timezone_set:-1')
-		.row()
-		.text('Закрыть', 'back_to_settings')
+	const kb = new InlineKeyboard()
+	POPULAR_TIMEZONES.forEach((item, index) => {
+		kb.text(item.label, `timezone_set:${item.zone}`)
+		if (index % 2 === 1) kb.row()
+	})
+	return kb.text('Закрыть', 'back_to_settings')
+}
+
+export function timezoneSearchKeyboard(zones: string[]): InlineKeyboard {
+	const kb = new InlineKeyboard()
+	for (const zone of zones) {
+		kb.text(timezoneLabel(zone), `timezone_set:${zone}`).row()
+	}
+	return kb.text('Закрыть', 'back_to_settings')
 }
 
 export function buildSettingsView(
 	user: SettingsViewUser,
-	_alertsEnabledCount: number = 0
+	alertsEnabledCount: number = 0
 ): { text: string; keyboard: InlineKeyboard } {
 	const mainCode = user?.mainCurrency ?? 'USD'
-	const timezone = user?.timezone ?? 'UTC+02:00'
+	const timezone = user?.timezone ?? DEFAULT_TIMEZONE
 	const visibleAccounts = (user.accounts ?? []).filter(a => !a.isHidden)
 	const defaultAccount =
 		visibleAccounts.find(a => a.id === user.defaultAccountId) ?? null
@@ -64,8 +72,13 @@ export function buildSettingsView(
 
 💠 Ваш тариф: ${tariffStr}
 🌍 Основная валюта: ${mainCode}
-🕒 Часовой пояс: ${timezone}
+🕒 Часовой пояс: ${timezoneLabel(timezone)}${
+		isIanaTimezone(timezone)
+			? ''
+			: '\n⚠️ Выберите город, чтобы учитывался переход на летнее время'
+	}
 🏦 Основной счёт: ${defaultAccountName}
+🔔 Уведомления: ${alertsEnabledCount > 0 ? 'включены' : 'выключены'}
 
 🆔 Ваш Telegram ID: ${user.telegramId}
 📅 Дата регистрации: ${createdAtStr}`
@@ -74,10 +87,14 @@ export function buildSettingsView(
 		.text('🕒 Часовой пояс', 'timezone_open')
 		.row()
 		.text('🏦 Основной счёт', 'default_account_open')
+		.text('🔔 Уведомления', 'analytics_alerts')
 			.row()
 		.text('📂 Категории', 'view_categories')
 		.text('🏷️ Теги', 'view_tags')
 		.row()
+		.text('🔄 Регулярные', 'view_recurring')
+		.text('💾 Резервная копия', 'backup_open')
+		.row()
 		.text(isPrem ? '💠 Подписка' : '⭐️ Подписка', isPrem ? 'view_subscription' : 'view_premium')
 		.row()
 		.text('❌ Удалить все данные', 'confirm_delete_all_data')
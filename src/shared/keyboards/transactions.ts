@@ -35,8 +35,9 @@ function txLabel(tx: {
 	account?: { name?: string } | null
 	toAccount?: { name?: string; isHidden?: boolean } | null
 	tag?: { name: string } | null
+	_count?: { attachments: number }
 }) {
-	const emoji = DIR_EMOJI[tx.direction] ?? '⚪️'
+	const emoji = `${DIR_EMOJI[tx.direction] ?? '⚪️'}${tx._count?.attachments ? '📎' : ''}`
 	const sym = getCurrencySymbol(tx.currency)
 	const amountStr = Math.abs(tx.amount).toLocaleString('ru-RU', {
 		minimumFractionDigits: 2,
@@ -72,6 +73,7 @@ export function transactionsListKeyboard(
 		account?: { name?: string } | null
 		toAccount?: { name?: string; isHidden?: boolean } | null
 		tag?: { name: string } | null
+		_count?: { attachments: number }
 	}>,
 	page: number,
 	totalCount: number,
@@ -98,6 +100,7 @@ export function transactionsListKeyboard(
 			'transactions_mass_edit_open'
 		).row()
 	}
+	kb.text('📤 Экспорт', 'transactions_export_open').row()
 	kb.text('← Назад', 'go_home')
 	return kb
 }
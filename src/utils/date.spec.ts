@@ -0,0 +1,70 @@
+import {
+	formatTransactionDate,
+	formatZonedDate,
+	formatZonedRange,
+	getZonedParts,
+	startOfZonedDay,
+	startOfZonedMonth,
+	timezoneOffsetMinutes,
+	zonedTimeToUtc
+} from './date'
+
+describe('date zone helpers', () => {
+	it('follows daylight saving for IANA zones', () => {
+		expect(
+			timezoneOffsetMinutes('Europe/Kyiv', new Date('2026-01-15T12:00:00Z'))
+		).toBe(120)
+		expect(
+			timezoneOffsetMinutes('Europe/Kyiv', new Date('2026-07-15T12:00:00Z'))
+		).toBe(180)
+		expect(timezoneOffsetMinutes('UTC+02:00', new Date('2026-07-15T12:00:00Z'))).toBe(
+			120
+		)
+	})
+
+	it('starts months at local midnight on both sides of a DST switch', () => {
+		// Kyiv moves to summer time on 2026-03-29
+		const now = new Date('2026-04-10T10:00:00Z')
+		expect(startOfZonedMonth(now, 'Europe/Kyiv').toISOString()).toBe(
+			'2026-03-31T21:00:00.000Z'
+		)
+		expect(startOfZonedMonth(now, 'Europe/Kyiv', -1).toISOString()).toBe(
+			'2026-02-28T22:00:00.000Z'
+		)
+	})
+
+	it('handles days around the spring-forward gap', () => {
+		const day = startOfZonedDay(new Date('2026-03-29T12:00:00Z'), 'Europe/Berlin')
+		expect(day.toISOString()).toBe('2026-03-28T23:00:00.000Z')
+		const next = startOfZonedDay(new Date('2026-03-29T12:00:00Z'), 'Europe/Berlin', 1)
+		expect(next.getTime() - day.getTime()).toBe(23 * 3_600_000)
+		// 02:30 does not exist in Berlin that night
+		expect(
+			zonedTimeToUtc(
+				{ year: 2026, month: 2, day: 29, hour: 2, minute: 30 },
+				'Europe/Berlin'
+			).toISOString()
+		).toBe('2026-03-29T01:30:00.000Z')
+	})
+
+	it('reads wall-clock parts in the user zone', () => {
+		const parts = getZonedParts(new Date('2026-12-31T23:30:00Z'), 'Asia/Tbilisi')
+		expect(parts).toMatchObject({ year: 2027, month: 0, day: 1, hour: 3, minute: 30 })
+	})
+
+	it('formats today in the user zone', () => {
+		expect(formatTransactionDate(new Date(), 'America/New_York')).toBe('Сегодня')
+	})
+
+	it('formats dates and ranges in the user zone', () => {
+		const from = new Date('2026-03-31T22:15:00Z')
+		expect(formatZonedDate(from, 'Europe/Kyiv')).toBe('01.04.2026')
+		expect(formatZonedDate(from, 'Europe/Kyiv', true)).toBe('01.04.2026 01:15')
+		expect(
+			formatZonedRange(
+				{ from, to: new Date('2026-04-30T20:00:00Z') },
+				'Europe/Kyiv'
+			)
+		).toBe('01.04.2026–30.04.2026')
+	})
+})
@@ -82,6 +82,159 @@ export function parseTimezoneOffsetMinutes(timezone: string): number {
 	return 120
 }
 
+export const DEFAULT_TIMEZONE = 'Europe/Kyiv'
+
+const FIXED_OFFSET_RE = /^(?:UTC)?\s*[+-]?\d{1,2}(?::?\d{2})?$/i
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function zoneFormatter(timezone: string): Intl.DateTimeFormat | null {
+	const cached = zoneFormatters.get(timezone)
+	if (cached) return cached
+	try {
+		const formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone: timezone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			second: 'numeric'
+		})
+		zoneFormatters.set(timezone, formatter)
+		return formatter
+	} catch {
+		return null
+	}
+}
+
+/** True for IANA names like `Europe/Kyiv`; legacy `UTC+02:00` offsets are not zones. */
+export function isIanaTimezone(timezone: string): boolean {
+	const raw = String(timezone ?? '').trim()
+	if (!raw || FIXED_OFFSET_RE.test(raw)) return false
+	return zoneFormatter(raw) != null
+}
+
+/**
+ * UTC offset of `timezone` at the given instant. IANA zones follow daylight saving,
+ * legacy fixed offsets (`UTC+02:00`) are constant.
+ */
+export function timezoneOffsetMinutes(timezone: string, at: Date = new Date()): number {
+	const raw = String(timezone ?? '').trim()
+	if (!isIanaTimezone(raw)) return parseTimezoneOffsetMinutes(raw)
+	const parts = zoneFormatter(raw)!.formatToParts(at)
+	const get = (type: Intl.DateTimeFormatPartTypes) =>
+		Number(parts.find(p => p.type === type)?.value ?? 0)
+	const asUtc = Date.UTC(
+		get('year'),
+		get('month') - 1,
+		get('day'),
+		get('hour'),
+		get('minute'),
+		get('second')
+	)
+	const atSeconds = Math.floor(at.getTime() / 1000) * 1000
+	return Math.round((asUtc - atSeconds) / 60_000)
+}
+
+export interface ZonedDateParts {
+	year: number
+	/** 0-based, like `Date#getUTCMonth` */
+	month: number
+	day: number
+	hour: number
+	minute: number
+	second: number
+	/** 0 = Sunday */
+	weekday: number
+}
+
+/** Wall-clock fields of `date` as seen in `timezone`. */
+export function getZonedParts(date: Date, timezone: string): ZonedDateParts {
+	const local = new Date(
+		date.getTime() + timezoneOffsetMinutes(timezone, date) * 60_000
+	)
+	return {
+		year: local.getUTCFullYear(),
+		month: local.getUTCMonth(),
+		day: local.getUTCDate(),
+		hour: local.getUTCHours(),
+		minute: local.getUTCMinutes(),
+		second: local.getUTCSeconds(),
+		weekday: local.getUTCDay()
+	}
+}
+
+function pad2(value: number): string {
+	return String(value).padStart(2, '0')
+}
+
+/** `dd.mm.yyyy` (optionally with `hh:mm`) in the user's zone. */
+export function formatZonedDate(date: Date, timezone: string, withTime = false): string {
+	const p = getZonedParts(date, timezone)
+	const day = `${pad2(p.day)}.${pad2(p.month + 1)}.${p.year}`
+	return withTime ? `${day} ${pad2(p.hour)}:${pad2(p.minute)}` : day
+}
+
+/** `dd.mm.yyyy–dd.mm.yyyy` in the user's zone. */
+export function formatZonedRange(
+	range: { from: Date; to: Date },
+	timezone: string
+): string {
+	return `${formatZonedDate(range.from, timezone)}–${formatZonedDate(range.to, timezone)}`
+}
+
+/**
+ * Instant of a wall-clock time in `timezone`. Fields overflow like `Date.UTC`
+ * (month -1, day 0 …). Times skipped by a DST jump resolve to the later offset.
+ */
+export function zonedTimeToUtc(
+	fields: {
+		year: number
+		month: number
+		day: number
+		hour?: number
+		minute?: number
+		second?: number
+		millisecond?: number
+	},
+	timezone: string
+): Date {
+	const wallClock = Date.UTC(
+		fields.year,
+		fields.month,
+		fields.day,
+		fields.hour ?? 0,
+		fields.minute ?? 0,
+		fields.second ?? 0,
+		fields.millisecond ?? 0
+	)
+	const firstOffset = timezoneOffsetMinutes(timezone, new Date(wallClock))
+	const guess = wallClock - firstOffset * 60_000
+	const secondOffset = timezoneOffsetMinutes(timezone, new Date(guess))
+	if (secondOffset === firstOffset) return new Date(guess)
+	return new Date(wallClock - secondOffset * 60_000)
+}
+
+/** Local midnight of the day containing `date`, shifted by `daysDelta` days. */
+export function startOfZonedDay(date: Date, timezone: string, daysDelta = 0): Date {
+	const p = getZonedParts(date, timezone)
+	return zonedTimeToUtc(
+		{ year: p.year, month: p.month, day: p.day + daysDelta },
+		timezone
+	)
+}
+
+/** Local midnight of the 1st of the month containing `date`, shifted by `monthsDelta`. */
+export function startOfZonedMonth(date: Date, timezone: string, monthsDelta = 0): Date {
+	const p = getZonedParts(date, timezone)
+	return zonedTimeToUtc(
+		{ year: p.year, month: p.month + monthsDelta, day: 1 },
+		timezone
+	)
+}
+
 function shiftToTimezone(date: Date, offsetMinutes: number): Date {
 	return new Date(date.getTime() + offsetMinutes * 60_000)
 }
@@ -95,22 +248,23 @@ export function normalizeTxDate(input?: string | Date | null): Date | null {
 
 export function extractExplicitDateFromText(
 	text: string,
-	now: Date = new Date()
+	now: Date = new Date(),
+	timezone?: string
 ): Date | null {
 	const source = String(text ?? '').trim()
 	if (!source) return null
 	const lowered = source.toLowerCase()
-	const yearNow = now.getFullYear()
+	// "сегодня" is the user's calendar day when their zone is known
+	const today = timezone
+		? getZonedParts(now, timezone)
+		: { year: now.getFullYear(), month: now.getMonth(), day: now.getDate() }
+	const yearNow = today.year
 
 	if (/\bсегодня\b/u.test(lowered)) {
-		return new Date(
-			Date.UTC(now.getFullYear(), now.getMonth(), now.getDate(), 12, 0, 0, 0)
-		)
+		return new Date(Date.UTC(today.year, today.month, today.day, 12, 0, 0, 0))
 	}
 	if (/\bвчера\b/u.test(lowered)) {
-		return new Date(
-			Date.UTC(now.getFullYear(), now.getMonth(), now.getDate() - 1, 12, 0, 0, 0)
-		)
+		return new Date(Date.UTC(today.year, today.month, today.day - 1, 12, 0, 0, 0))
 	}
 
 	const dmyMatch = lowered.match(
@@ -179,13 +333,13 @@ export function pickTransactionDate(params: {
 
 export function formatTransactionDate(
 	date: Date,
-	timezone: string = 'UTC+02:00'
+	timezone: string = DEFAULT_TIMEZONE
 ): string {
-	const offset = parseTimezoneOffsetMinutes(timezone)
-	const today = shiftToTimezone(new Date(), offset)
+	const now = new Date()
+	const today = shiftToTimezone(now, timezoneOffsetMinutes(timezone, now))
 	const yesterday = new Date(today)
 	yesterday.setUTCDate(today.getUTCDate() - 1)
-	const target = shiftToTimezone(date, offset)
+	const target = shiftToTimezone(date, timezoneOffsetMinutes(timezone, date))
 
 	if (isSameDay(target, today)) return 'Сегодня'
 	if (isSameDay(target, yesterday)) return 'Вчера'
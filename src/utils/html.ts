@@ -0,0 +1,4 @@
+/** Escapes user text for messages sent with `parse_mode: 'HTML'`. */
+export function escapeHtml(s: string): string {
+	return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
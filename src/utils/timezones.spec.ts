@@ -0,0 +1,35 @@
+import {
+	normalizeUtcOffset,
+	resolveTimezoneInput,
+	searchTimezones,
+	timezoneLabel
+} from './timezones'
+
+describe('timezones', () => {
+	it('resolves exact zone ids, cities and offsets', () => {
+		expect(resolveTimezoneInput('europe/warsaw')).toBe('Europe/Warsaw')
+		expect(resolveTimezoneInput('Киев')).toBe('Europe/Kyiv')
+		expect(resolveTimezoneInput('Europe/Kiev')).toBe('Europe/Kyiv')
+		expect(resolveTimezoneInput('+3')).toBe('UTC+03:00')
+		expect(resolveTimezoneInput('Atlantis')).toBeNull()
+	})
+
+	it('normalizes legacy offsets', () => {
+		expect(normalizeUtcOffset('utc-5:30')).toBe('UTC-05:30')
+		expect(normalizeUtcOffset('0')).toBe('UTC+00:00')
+		expect(normalizeUtcOffset('+15')).toBeNull()
+	})
+
+	it('searches by city prefix first', () => {
+		expect(searchTimezones('new')[0]).toBe('America/New_York')
+		expect(searchTimezones('тби')).toEqual(['Asia/Tbilisi'])
+		expect(searchTimezones('x')).toEqual([])
+	})
+
+	it('labels zones with the current offset', () => {
+		expect(timezoneLabel('Europe/London', new Date('2026-07-01T00:00:00Z'))).toBe(
+			'Europe/London (UTC+01:00)'
+		)
+		expect(timezoneLabel('UTC+02:00')).toBe('UTC+02:00')
+	})
+})
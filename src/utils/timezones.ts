@@ -0,0 +1,153 @@
+import { isIanaTimezone, timezoneOffsetMinutes } from './date'
+
+/** One-tap choices in the settings picker; anything else is found via search. */
+export const POPULAR_TIMEZONES: { zone: string; label: string }[] = [
+	{ zone: 'Europe/Kyiv', label: 'Киев' },
+	{ zone: 'Europe/Warsaw', label: 'Варшава' },
+	{ zone: 'Europe/Berlin', label: 'Берлин' },
+	{ zone: 'Europe/London', label: 'Лондон' },
+	{ zone: 'Europe/Minsk', label: 'Минск' },
+	{ zone: 'Asia/Tbilisi', label: 'Тбилиси' },
+	{ zone: 'Asia/Dubai', label: 'Дубай' },
+	{ zone: 'America/New_York', label: 'Нью-Йорк' }
+]
+
+const CITY_ALIASES: Record<string, string> = {
+	киев: 'Europe/Kyiv',
+	київ: 'Europe/Kyiv',
+	kiev: 'Europe/Kyiv',
+	харьков: 'Europe/Kyiv',
+	львов: 'Europe/Kyiv',
+	одесса: 'Europe/Kyiv',
+	днепр: 'Europe/Kyiv',
+	кишинев: 'Europe/Chisinau',
+	минск: 'Europe/Minsk',
+	москва: 'Europe/Moscow',
+	'санкт-петербург': 'Europe/Moscow',
+	варшава: 'Europe/Warsaw',
+	краков: 'Europe/Warsaw',
+	прага: 'Europe/Prague',
+	вена: 'Europe/Vienna',
+	берлин: 'Europe/Berlin',
+	париж: 'Europe/Paris',
+	рим: 'Europe/Rome',
+	мадрид: 'Europe/Madrid',
+	барселона: 'Europe/Madrid',
+	амстердам: 'Europe/Amsterdam',
+	лондон: 'Europe/London',
+	лиссабон: 'Europe/Lisbon',
+	вильнюс: 'Europe/Vilnius',
+	рига: 'Europe/Riga',
+	таллин: 'Europe/Tallinn',
+	хельсинки: 'Europe/Helsinki',
+	афины: 'Europe/Athens',
+	стамбул: 'Europe/Istanbul',
+	анталья: 'Europe/Istanbul',
+	тбилиси: 'Asia/Tbilisi',
+	батуми: 'Asia/Tbilisi',
+	ереван: 'Asia/Yerevan',
+	баку: 'Asia/Baku',
+	алматы: 'Asia/Almaty',
+	астана: 'Asia/Almaty',
+	ташкент: 'Asia/Tashkent',
+	дубай: 'Asia/Dubai',
+	'тель-авив': 'Asia/Jerusalem',
+	бангкок: 'Asia/Bangkok',
+	пхукет: 'Asia/Bangkok',
+	бали: 'Asia/Makassar',
+	сингапур: 'Asia/Singapore',
+	токио: 'Asia/Tokyo',
+	'нью-йорк': 'America/New_York',
+	майами: 'America/New_York',
+	торонто: 'America/Toronto',
+	чикаго: 'America/Chicago',
+	'лос-анджелес': 'America/Los_Angeles',
+	азоры: 'Atlantic/Azores'
+}
+
+// ICU still reports a few zones under their pre-rename ids
+const PREFERRED_NAMES: Record<string, string> = {
+	'Europe/Kiev': 'Europe/Kyiv'
+}
+
+let catalog: string[] | null = null
+
+function timezoneCatalog(): string[] {
+	if (!catalog) {
+		const zones = Intl.supportedValuesOf('timeZone').map(z => PREFERRED_NAMES[z] ?? z)
+		catalog = [...new Set(zones)]
+	}
+	return catalog
+}
+
+function searchKey(value: string): string {
+	return value
+		.trim()
+		.toLowerCase()
+		.replace(/[_\s]+/g, ' ')
+		.replace(/ё/g, 'е')
+}
+
+export function formatUtcOffset(offsetMinutes: number): string {
+	const sign = offsetMinutes < 0 ? '-' : '+'
+	const abs = Math.abs(offsetMinutes)
+	const hh = String(Math.floor(abs / 60)).padStart(2, '0')
+	const mm = String(abs % 60).padStart(2, '0')
+	return `UTC${sign}${hh}:${mm}`
+}
+
+/** `Europe/Kyiv (UTC+03:00)` with the offset in effect at `at`; legacy offsets as is. */
+export function timezoneLabel(timezone: string, at: Date = new Date()): string {
+	if (!isIanaTimezone(timezone)) return timezone
+	return `${timezone} (${formatUtcOffset(timezoneOffsetMinutes(timezone, at))})`
+}
+
+/** Legacy fixed offsets typed as `+2`, `UTC-3`, `UTC+05:30`. */
+export function normalizeUtcOffset(value: string): string | null {
+	const raw = String(value ?? '')
+		.trim()
+		.toUpperCase()
+		.replace(/\s+/g, '')
+	if (raw === '0' || raw === 'UTC' || raw === 'UTC0') return 'UTC+00:00'
+	const withPrefix = raw.startsWith('UTC') ? raw : `UTC${raw}`
+	const m = withPrefix.match(/^UTC([+-])(\d{1,2})(?::?(\d{2}))?$/)
+	if (!m) return null
+	const hh = Number(m[2])
+	const mm = Number(m[3] ?? '0')
+	if (hh > 14 || mm > 59) return null
+	return formatUtcOffset((m[1] === '-' ? -1 : 1) * (hh * 60 + mm))
+}
+
+/** Exact match only: IANA id (any case), known city name or a fixed UTC offset. */
+export function resolveTimezoneInput(value: string): string | null {
+	const key = searchKey(value)
+	if (!key) return null
+	if (CITY_ALIASES[key]) return CITY_ALIASES[key]
+	const renamed = Object.keys(PREFERRED_NAMES).find(z => searchKey(z) === key)
+	if (renamed) return PREFERRED_NAMES[renamed]
+	const zone = timezoneCatalog().find(z => searchKey(z) === key)
+	if (zone) return zone
+	return normalizeUtcOffset(value)
+}
+
+/** Zones whose id or city alias contains the query, best matches first. */
+export function searchTimezones(query: string, limit = 8): string[] {
+	const key = searchKey(query)
+	if (key.length < 2) return []
+	const found: string[] = []
+	const push = (zone: string) => {
+		if (!found.includes(zone)) found.push(zone)
+	}
+	for (const [city, zone] of Object.entries(CITY_ALIASES)) {
+		if (city.startsWith(key)) push(zone)
+	}
+	const zones = timezoneCatalog()
+	for (const zone of zones) {
+		const city = searchKey(zone.split('/').pop() ?? zone)
+		if (city.startsWith(key)) push(zone)
+	}
+	for (const zone of zones) {
+		if (searchKey(zone).includes(key)) push(zone)
+	}
+	return found.slice(0, limit)
+}